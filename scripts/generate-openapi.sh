@@ -0,0 +1,9 @@
+#!/bin/bash
+# Script to generate the OpenAPI document the UI client is generated from (then run npm run generate:api in ui)
+set -e
+# The 6.5 CLI has no .NET 8 build of its own
+export DOTNET_ROLL_FORWARD=LatestMajor
+dotnet tool restore
+dotnet build src/AIPatterner.Api/AIPatterner.Api.csproj -c Release
+mkdir -p ui/openapi
+dotnet swagger tofile --output ui/openapi/swagger.json src/AIPatterner.Api/bin/Release/net8.0/AIPatterner.Api.dll v1
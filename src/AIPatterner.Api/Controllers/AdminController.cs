@@ -3,6 +3,7 @@ namespace AIPatterner.Api.Controllers;
 
 using AIPatterner.Api.Extensions;
 using AIPatterner.Application.Commands;
+using AIPatterner.Application.DTOs;
 using MediatR;
 using Microsoft.AspNetCore.Mvc;
 
@@ -22,7 +23,7 @@ public class AdminController : ControllerBase
     [HttpPost("force-check/{candidateId}")]
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
-    public async Task<ActionResult> ForceCheck(Guid candidateId, [FromQuery] bool bypassDateCheck = false)
+    public async Task<ActionResult<ProcessReminderCandidateResponse>> ForceCheck(Guid candidateId, [FromQuery] bool bypassDateCheck = false)
     {
         var command = new ProcessReminderCandidateCommand 
         { 
@@ -37,7 +38,7 @@ public class AdminController : ControllerBase
     [ProducesResponseType(StatusCodes.Status201Created)]
     [ProducesResponseType(StatusCodes.Status400BadRequest)]
     [ProducesResponseType(StatusCodes.Status403Forbidden)]
-    public async Task<ActionResult> CreateManualReminder([FromBody] CreateManualReminderRequest request)
+    public async Task<ActionResult<CreatedResourceResponse>> CreateManualReminder([FromBody] CreateManualReminderRequest request)
     {
         if (string.IsNullOrWhiteSpace(request.PersonId) || string.IsNullOrWhiteSpace(request.SuggestedAction))
         {
@@ -68,7 +69,7 @@ public class AdminController : ControllerBase
         
         _logger.LogInformation("Manual reminder created: {ReminderId} for {PersonId}", reminderId, request.PersonId);
         
-        return CreatedAtAction(nameof(ForceCheck), new { candidateId = reminderId }, new { id = reminderId });
+        return CreatedAtAction(nameof(ForceCheck), new { candidateId = reminderId }, new CreatedResourceResponse { Id = reminderId });
     }
 }
 
@@ -81,3 +82,7 @@ public class CreateManualReminderRequest
     public string? Occurrence { get; set; }
 }
 
+public class CreatedResourceResponse
+{
+    public Guid Id { get; set; }
+}
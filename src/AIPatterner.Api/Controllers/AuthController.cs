@@ -2,6 +2,7 @@
 using AIPatterner.Domain.Entities;
 using AIPatterner.Infrastructure.Persistence;
 using AIPatterner.Infrastructure.Services;
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
 
@@ -29,6 +30,9 @@ public class AuthController : ControllerBase
     /// Register a new user
     /// </summary>
     [HttpPost("register")]
+    [ProducesResponseType(typeof(AuthResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status409Conflict)]
     public async Task<IActionResult> Register([FromBody] RegisterRequest request)
     {
         _logger.LogInformation("Registration attempt for username: {Username}", request.Username);
@@ -71,15 +75,16 @@ public class AuthController : ControllerBase
 
         try
         {
-            // Check if this is the first user - make them admin
+            // Check if this is the first user - make them admin and household owner
             var isFirstUser = !await _context.Users.AnyAsync();
             var userRole = isFirstUser ? "admin" : "user";
+            var householdRole = isFirstUser ? HouseholdRole.Owner : HouseholdRole.Member;
 
             // Hash password
             var passwordHash = _authService.HashPassword(request.Password);
 
             // Create user
-            var user = new User(request.Username, request.Email, passwordHash, userRole);
+            var user = new User(request.Username, request.Email, passwordHash, userRole, householdRole);
             _context.Users.Add(user);
             await _context.SaveChangesAsync();
 
@@ -93,17 +98,7 @@ public class AuthController : ControllerBase
 
             _logger.LogInformation("User registered successfully: {Username}", request.Username);
 
-            return Ok(new
-            {
-                token = token,
-                user = new
-                {
-                    id = user.Id.ToString(),
-                    username = user.Username,
-                    email = user.Email,
-                    role = user.Role
-                }
-            });
+            return Ok(new AuthResponse { Token = token, User = ToUserResponse(user) });
         }
         catch (Exception ex)
         {
@@ -116,6 +111,9 @@ public class AuthController : ControllerBase
     /// Login with username/email and password
     /// </summary>
     [HttpPost("login")]
+    [ProducesResponseType(typeof(AuthResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
     public async Task<IActionResult> Login([FromBody] LoginRequest request)
     {
         _logger.LogInformation("Login attempt for username: {Username}", request.Username);
@@ -151,17 +149,7 @@ public class AuthController : ControllerBase
 
             _logger.LogInformation("User logged in successfully: {Username}", request.Username);
 
-            return Ok(new
-            {
-                token = token,
-                user = new
-                {
-                    id = user.Id.ToString(),
-                    username = user.Username,
-                    email = user.Email,
-                    role = user.Role
-                }
-            });
+            return Ok(new AuthResponse { Token = token, User = ToUserResponse(user) });
         }
         catch (Exception ex)
         {
@@ -169,6 +157,67 @@ public class AuthController : ControllerBase
             return StatusCode(500, new { message = "An error occurred during login" });
         }
     }
+
+    /// <summary>
+    /// Get the user for the current JWT (used by the UI to validate a stored session)
+    /// </summary>
+    [HttpGet("me")]
+    [Authorize]
+    [ProducesResponseType(typeof(AuthUserResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    public async Task<IActionResult> Me()
+    {
+        var user = await FindCurrentUserAsync();
+        if (user == null)
+        {
+            return Unauthorized(new { message = "User no longer exists" });
+        }
+
+        return Ok(ToUserResponse(user));
+    }
+
+    /// <summary>
+    /// Exchange a JWT that has not expired yet for a new one
+    /// </summary>
+    [HttpPost("refresh")]
+    [Authorize]
+    [ProducesResponseType(typeof(AuthResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    public async Task<IActionResult> Refresh()
+    {
+        var user = await FindCurrentUserAsync();
+        if (user == null)
+        {
+            return Unauthorized(new { message = "User no longer exists" });
+        }
+
+        var token = _authService.GenerateJwtToken(user);
+
+        _logger.LogInformation("Token refreshed for user: {Username}", user.Username);
+
+        return Ok(new AuthResponse { Token = token, User = ToUserResponse(user) });
+    }
+
+    // Loads the user from the database so deleted users are rejected and role changes reach the new token
+    private async Task<User?> FindCurrentUserAsync()
+    {
+        var userIdClaim = HttpContext.User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier);
+        if (userIdClaim == null || !Guid.TryParse(userIdClaim.Value, out var userId))
+        {
+            return null;
+        }
+
+        return await _context.Users.FindAsync(userId);
+    }
+
+    private static AuthUserResponse ToUserResponse(User user) => new()
+    {
+        Id = user.Id.ToString(),
+        Username = user.Username,
+        Email = user.Email,
+        Role = user.Role,
+        HouseholdRole = user.HouseholdRole
+    };
 }
 
 // Request DTOs
@@ -185,3 +234,18 @@ public class LoginRequest
     public string Password { get; set; } = string.Empty;
 }
 
+// Response DTOs
+public class AuthResponse
+{
+    public string Token { get; set; } = string.Empty;
+    public AuthUserResponse User { get; set; } = new();
+}
+
+public class AuthUserResponse
+{
+    public string Id { get; set; } = string.Empty;
+    public string Username { get; set; } = string.Empty;
+    public string Email { get; set; } = string.Empty;
+    public string Role { get; set; } = string.Empty;
+    public HouseholdRole HouseholdRole { get; set; }
+}
@@ -1,9 +1,12 @@
 // API controller for configuration management
 namespace AIPatterner.Api.Controllers;
 
+using System.Globalization;
+using AIPatterner.Api.Extensions;
 using AIPatterner.Application.Commands;
 using AIPatterner.Application.DTOs;
 using AIPatterner.Application.Queries;
+using AIPatterner.Application.Services;
 using MediatR;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
@@ -31,6 +34,14 @@ public class ConfigurationsController : ControllerBase
         return Ok(result);
     }
 
+    [HttpGet("schema")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    public async Task<ActionResult<List<ConfigurationKeySchemaDto>>> GetSchema()
+    {
+        var result = await _mediator.Send(new GetConfigurationSchemaQuery());
+        return Ok(result);
+    }
+
     [HttpPost]
     [Authorize(Roles = "admin")]
     [ProducesResponseType(StatusCodes.Status201Created)]
@@ -42,12 +53,19 @@ public class ConfigurationsController : ControllerBase
             return BadRequest(new { message = "Key and Category are required" });
         }
 
+        var error = ConfigurationSchema.Validate(request.Category, request.Key, request.Value ?? string.Empty);
+        if (error != null)
+        {
+            return BadRequest(new { message = error });
+        }
+
         var command = new CreateConfigurationCommand
         {
             Key = request.Key,
             Value = request.Value ?? string.Empty,
             Category = request.Category,
-            Description = request.Description
+            Description = request.Description,
+            ChangedBy = HttpContext.GetActorName()
         };
 
         var result = await _mediator.Send(command);
@@ -60,18 +78,26 @@ public class ConfigurationsController : ControllerBase
     [HttpPut("{category}/{key}")]
     [Authorize(Roles = "admin")]
     [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
     public async Task<ActionResult<ConfigurationDto>> UpdateConfiguration(
         string category, 
         string key, 
         [FromBody] UpdateConfigurationRequest request)
     {
+        var error = ConfigurationSchema.Validate(category, key, request.Value ?? string.Empty);
+        if (error != null)
+        {
+            return BadRequest(new { message = error });
+        }
+
         var command = new UpdateConfigurationCommand
         {
             Key = key,
             Category = category,
             Value = request.Value ?? string.Empty,
-            Description = request.Description
+            Description = request.Description,
+            ChangedBy = HttpContext.GetActorName()
         };
 
         try
@@ -85,6 +111,135 @@ public class ConfigurationsController : ControllerBase
             return NotFound(new { message = "Configuration not found" });
         }
     }
-}
 
+    [HttpPost("import")]
+    [Authorize(Roles = "admin")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<ActionResult<ConfigurationImportResponse>> Import([FromBody] ConfigurationImportRequest request)
+    {
+        if (request.Entries == null || request.Entries.Count == 0)
+        {
+            return BadRequest(new { message = "The bundle contains no configuration values" });
+        }
+
+        var command = new ImportConfigurationBundleCommand
+        {
+            Entries = request.Entries,
+            DryRun = request.DryRun,
+            ChangedBy = HttpContext.GetActorName()
+        };
+
+        var result = await _mediator.Send(command);
+        if (!request.DryRun && !result.Applied)
+        {
+            // Nothing was saved; the results say which entries were rejected
+            return BadRequest(result);
+        }
+
+        if (result.Applied)
+        {
+            _logger.LogInformation(
+                "Configuration bundle imported: {Added} added, {Changed} changed",
+                result.Results.Count(r => r.Status == ConfigurationImportStatus.Added),
+                result.Results.Count(r => r.Status == ConfigurationImportStatus.Changed));
+        }
+
+        return Ok(result);
+    }
+
+    [HttpPost("matching-policy/simulate")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    public async Task<ActionResult<MatchingPolicySimulationResponse>> SimulateMatchingPolicy(
+        [FromBody] MatchingPolicySimulationRequest request)
+    {
+        if (string.IsNullOrWhiteSpace(request.PersonId))
+        {
+            return BadRequest(new { message = "PersonId is required" });
+        }
+
+        var offsetError = ConfigurationSchema.Validate(
+            "MatchingPolicy",
+            "TimeOffsetMinutes",
+            request.Criteria.TimeOffsetMinutes.ToString(CultureInfo.InvariantCulture));
+        if (offsetError != null)
+        {
+            return BadRequest(new { message = $"TimeOffsetMinutes: {offsetError}" });
+        }
+
+        if (!HttpContext.CanViewPerson(request.PersonId))
+        {
+            return StatusCode(403, new { message = "Access denied: you cannot view this personId" });
+        }
 
+        // Nothing is saved, so viewers can try a policy before an admin applies it
+        var query = new SimulateMatchingPolicyQuery
+        {
+            PersonId = request.PersonId,
+            Days = Math.Clamp(request.Days, 1, 30),
+            Criteria = request.Criteria
+        };
+        var result = await _mediator.Send(query);
+        return Ok(result);
+    }
+
+    [HttpGet("history")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    public async Task<ActionResult<List<ConfigurationChangeDto>>> GetHistory(
+        [FromQuery] string? category,
+        [FromQuery] string? key,
+        [FromQuery] int limit = 100)
+    {
+        var query = new GetConfigurationHistoryQuery
+        {
+            Category = category,
+            Key = key,
+            Limit = Math.Clamp(limit, 1, 500)
+        };
+        var result = await _mediator.Send(query);
+        return Ok(result);
+    }
+
+    [HttpGet("history/{changeId}/diff")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<ConfigurationDiffDto>> GetDiff(Guid changeId, [FromQuery] string? key)
+    {
+        var result = await _mediator.Send(new GetConfigurationDiffQuery { ChangeId = changeId, Key = key });
+        if (result == null)
+        {
+            return NotFound(new { message = "Configuration change not found" });
+        }
+
+        return Ok(result);
+    }
+
+    [HttpPost("history/{changeId}/rollback")]
+    [Authorize(Roles = "admin")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<ConfigurationRollbackResponse>> Rollback(Guid changeId, [FromQuery] string? key)
+    {
+        var command = new RollbackConfigurationCommand
+        {
+            ChangeId = changeId,
+            Key = key,
+            ChangedBy = HttpContext.GetActorName()
+        };
+
+        try
+        {
+            var result = await _mediator.Send(command);
+            _logger.LogInformation(
+                "Configuration category {Category} rolled back to change {ChangeId}: {Count} values restored",
+                result.Category, changeId, result.Restored.Count);
+            return Ok(result);
+        }
+        catch (InvalidOperationException)
+        {
+            return NotFound(new { message = "Configuration change not found" });
+        }
+    }
+}
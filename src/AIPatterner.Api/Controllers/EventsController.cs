@@ -5,6 +5,8 @@ using AIPatterner.Api.Extensions;
 using AIPatterner.Application.Commands;
 using AIPatterner.Application.DTOs;
 using AIPatterner.Application.Queries;
+using AIPatterner.Infrastructure.Persistence;
+using FluentValidation;
 using MediatR;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
@@ -13,12 +15,23 @@ using Microsoft.AspNetCore.Mvc;
 [Route("api/v1/events")]
 public class EventsController : ControllerBase
 {
+    // Keeps one chunk well inside the request timeout; importers send larger files as several chunks
+    private const int MaxBatchSize = 100;
+
     private readonly IMediator _mediator;
+    private readonly IValidator<ActionEventDto> _validator;
+    private readonly ApplicationDbContext _context;
     private readonly ILogger<EventsController> _logger;
 
-    public EventsController(IMediator mediator, ILogger<EventsController> logger)
+    public EventsController(
+        IMediator mediator,
+        IValidator<ActionEventDto> validator,
+        ApplicationDbContext context,
+        ILogger<EventsController> logger)
     {
         _mediator = mediator;
+        _validator = validator;
+        _context = context;
         _logger = logger;
     }
 
@@ -37,7 +50,7 @@ public class EventsController : ControllerBase
         var apiKeyPersonId = HttpContext.GetApiKeyPersonId();
         var isAdmin = HttpContext.IsAdmin();
 
-        // For user role: personId is required and must match their own
+        // For non-admins: default to their own personId; other household members need view access
         if (!isAdmin)
         {
             if (string.IsNullOrWhiteSpace(personId))
@@ -45,10 +58,10 @@ public class EventsController : ControllerBase
                 // If no personId provided, use the API key's personId
                 personId = apiKeyPersonId;
             }
-            else if (personId != apiKeyPersonId)
+            else if (!HttpContext.CanViewPerson(personId))
             {
-                // User trying to access different personId - forbidden
-                return StatusCode(403, new { message = "Access denied: personId does not match your API key" });
+                // Guests and API keys are limited to their own personId
+                return StatusCode(403, new { message = "Access denied: you cannot view this personId" });
             }
         }
         // For admin: any personId is allowed, but if not provided, we could return all or require it
@@ -69,7 +82,7 @@ public class EventsController : ControllerBase
     }
 
     [HttpPost]
-    [ProducesResponseType(StatusCodes.Status202Accepted)]
+    [ProducesResponseType(typeof(IngestEventResponse), StatusCodes.Status202Accepted)]
     [ProducesResponseType(StatusCodes.Status400BadRequest)]
     [ProducesResponseType(StatusCodes.Status403Forbidden)]
     public async Task<ActionResult<IngestEventResponse>> IngestEvent([FromBody] ActionEventDto eventDto)
@@ -78,7 +91,7 @@ public class EventsController : ControllerBase
         var apiKeyPersonId = HttpContext.GetApiKeyPersonId();
         var isAdmin = HttpContext.IsAdmin();
 
-        // For user role: can only create for their own personId
+        // For non-admins: default to their own personId, then require manage access to it
         if (!isAdmin)
         {
             if (string.IsNullOrWhiteSpace(eventDto.PersonId))
@@ -86,10 +99,11 @@ public class EventsController : ControllerBase
                 // If no personId provided, use the API key's personId
                 eventDto.PersonId = apiKeyPersonId ?? throw new InvalidOperationException("API key does not have a personId");
             }
-            else if (eventDto.PersonId != apiKeyPersonId)
+
+            if (!HttpContext.CanManagePerson(eventDto.PersonId))
             {
-                // User trying to create for different personId - forbidden
-                return StatusCode(403, new { message = "Access denied: personId does not match your API key" });
+                // Guests, and members acting for someone else - forbidden
+                return StatusCode(403, new { message = "Access denied: you cannot create events for this personId" });
             }
         }
         // For admin: any personId is allowed
@@ -104,6 +118,101 @@ public class EventsController : ControllerBase
         return Accepted(response);
     }
 
+    /// <summary>
+    /// Ingests a chunk of events in order, reporting a result per event. Events that fail validation
+    /// or access checks are skipped; if ingestion itself fails, the rest of the chunk is not attempted
+    /// so the caller can retry it.
+    /// </summary>
+    [HttpPost("batch")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<ActionResult<IngestEventBatchResponse>> IngestEventBatch([FromBody] IngestEventBatchRequest request)
+    {
+        if (request.Events.Count == 0)
+        {
+            return BadRequest(new { message = "At least one event is required" });
+        }
+        if (request.Events.Count > MaxBatchSize)
+        {
+            return BadRequest(new { message = $"A batch can contain at most {MaxBatchSize} events" });
+        }
+
+        var apiKeyPersonId = HttpContext.GetApiKeyPersonId();
+        var isAdmin = HttpContext.IsAdmin();
+        var response = new IngestEventBatchResponse();
+        var ingestionFailed = false;
+
+        for (var index = 0; index < request.Events.Count; index++)
+        {
+            var eventDto = request.Events[index];
+
+            if (ingestionFailed)
+            {
+                response.Results.Add(new IngestEventBatchItemResult
+                {
+                    Index = index,
+                    Status = IngestEventBatchItemStatus.NotAttempted,
+                    Error = "Not attempted because an earlier event in this batch failed to ingest"
+                });
+                continue;
+            }
+
+            // Same personId rules as single ingestion
+            if (!isAdmin)
+            {
+                if (string.IsNullOrWhiteSpace(eventDto.PersonId))
+                {
+                    eventDto.PersonId = apiKeyPersonId ?? string.Empty;
+                }
+
+                if (!HttpContext.CanManagePerson(eventDto.PersonId))
+                {
+                    response.Results.Add(Failed(index, "Access denied: you cannot create events for this personId"));
+                    continue;
+                }
+            }
+
+            var validation = await _validator.ValidateAsync(eventDto);
+            if (!validation.IsValid)
+            {
+                response.Results.Add(Failed(index, string.Join("; ", validation.Errors.Select(e => e.ErrorMessage))));
+                continue;
+            }
+
+            try
+            {
+                var result = await _mediator.Send(new IngestEventCommand { Event = eventDto });
+                response.Results.Add(new IngestEventBatchItemResult
+                {
+                    Index = index,
+                    Status = IngestEventBatchItemStatus.Ingested,
+                    EventId = result.EventId
+                });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Batch ingestion failed at event {Index} for {PersonId}", index, eventDto.PersonId);
+                response.Results.Add(Failed(index, "Ingestion failed; see the server log for details"));
+                ingestionFailed = true;
+            }
+        }
+
+        _logger.LogInformation(
+            "Ingested batch of {Count} events: {Ingested} ingested, {Failed} failed",
+            request.Events.Count,
+            response.Results.Count(r => r.Status == IngestEventBatchItemStatus.Ingested),
+            response.Results.Count(r => r.Status == IngestEventBatchItemStatus.Failed));
+
+        return Ok(response);
+    }
+
+    private static IngestEventBatchItemResult Failed(int index, string error) => new()
+    {
+        Index = index,
+        Status = IngestEventBatchItemStatus.Failed,
+        Error = error
+    };
+
     [HttpDelete("{id}")]
     [Authorize(Roles = "admin")]
     [ProducesResponseType(StatusCodes.Status204NoContent)]
@@ -122,10 +231,60 @@ public class EventsController : ControllerBase
         return NoContent();
     }
 
+    [HttpPost("batch-delete")]
+    [Authorize(Roles = "admin")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<ActionResult<BatchOperationResponse>> DeleteEventBatch([FromBody] EventBatchDeleteRequest request)
+    {
+        var ids = request.Ids.Distinct().ToList();
+        if (ids.Count == 0)
+        {
+            return BadRequest(new { message = "At least one event id is required" });
+        }
+        if (ids.Count > MaxBatchSize)
+        {
+            return BadRequest(new { message = $"A batch can contain at most {MaxBatchSize} events" });
+        }
+
+        var response = new BatchOperationResponse();
+        foreach (var id in ids)
+        {
+            try
+            {
+                var deleted = await _mediator.Send(new DeleteEventCommand { EventId = id });
+                response.Results.Add(new BatchItemResult
+                {
+                    Id = id,
+                    Status = deleted ? BatchItemStatus.Succeeded : BatchItemStatus.Failed,
+                    Error = deleted ? null : "Event not found"
+                });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Batch delete failed for event {Id}", id);
+                response.Results.Add(new BatchItemResult
+                {
+                    Id = id,
+                    Status = BatchItemStatus.Failed,
+                    Error = "The delete failed; see the server log for details"
+                });
+
+                // The delete handlers share this request's context; drop what the failed item left pending
+                _context.ChangeTracker.Clear();
+            }
+        }
+
+        _logger.LogInformation(
+            "Batch deleted {Deleted} of {Count} events",
+            response.Results.Count(r => r.Status == BatchItemStatus.Succeeded), ids.Count);
+        return Ok(response);
+    }
+
     [HttpGet("{id}/matching-reminders")]
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
-    public async Task<ActionResult> GetMatchingReminders(
+    public async Task<ActionResult<ReminderCandidateListResponse>> GetMatchingReminders(
         Guid id,
         [FromQuery] bool matchByActionType = true,
         [FromQuery] bool matchByDayType = true,
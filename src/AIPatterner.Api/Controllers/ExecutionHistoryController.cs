@@ -2,6 +2,7 @@
 namespace AIPatterner.Api.Controllers;
 
 using AIPatterner.Application.Commands;
+using AIPatterner.Application.DTOs;
 using AIPatterner.Application.Queries;
 using MediatR;
 using Microsoft.AspNetCore.Authorization;
@@ -23,7 +24,7 @@ public class ExecutionHistoryController : ControllerBase
 
     [HttpGet]
     [ProducesResponseType(StatusCodes.Status200OK)]
-    public async Task<ActionResult> GetExecutionHistory(
+    public async Task<ActionResult<ExecutionHistoryListResponse>> GetExecutionHistory(
         [FromQuery] string? personId,
         [FromQuery] string? actionType,
         [FromQuery] DateTime? fromUtc,
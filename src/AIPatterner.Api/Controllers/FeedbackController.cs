@@ -1,8 +1,10 @@
 // API controller for user feedback
 namespace AIPatterner.Api.Controllers;
 
+using AIPatterner.Api.Extensions;
 using AIPatterner.Application.Commands;
 using AIPatterner.Application.DTOs;
+using AIPatterner.Application.Queries;
 using MediatR;
 using Microsoft.AspNetCore.Mvc;
 
@@ -22,8 +24,23 @@ public class FeedbackController : ControllerBase
     [HttpPost]
     [ProducesResponseType(StatusCodes.Status204NoContent)]
     [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
     public async Task<ActionResult> SubmitFeedback([FromBody] FeedbackDto feedback)
     {
+        var candidates = await _mediator.Send(new GetReminderCandidatesByIdsQuery { Ids = new List<Guid> { feedback.CandidateId } });
+        var candidate = candidates.FirstOrDefault();
+        if (candidate == null || !HttpContext.CanViewPerson(candidate.PersonId))
+        {
+            return NotFound(new { message = "Reminder candidate not found" });
+        }
+
+        // Same rule as batch feedback: guests may give feedback on their own reminders
+        if (!HttpContext.CanManagePerson(candidate.PersonId) && candidate.PersonId != HttpContext.GetApiKeyPersonId())
+        {
+            return StatusCode(403, new { message = "Access denied: you cannot give feedback on this personId's reminders" });
+        }
+
         var command = new SubmitFeedbackCommand { Feedback = feedback };
         await _mediator.Send(command);
 
@@ -0,0 +1,113 @@
+// API controller streaming real-time updates as server-sent events
+namespace AIPatterner.Api.Controllers;
+
+using System.Text.Json;
+using System.Text.Json.Serialization;
+using AIPatterner.Api.Extensions;
+using AIPatterner.Application.DTOs;
+using AIPatterner.Application.Services;
+using Microsoft.AspNetCore.Http.Features;
+using Microsoft.AspNetCore.Mvc;
+
+[ApiController]
+[Route("api/v1/live-updates")]
+public class LiveUpdatesController : ControllerBase
+{
+    // Keeps proxies and idle connections from closing a quiet stream
+    private static readonly TimeSpan HeartbeatInterval = TimeSpan.FromSeconds(15);
+
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web)
+    {
+        Converters = { new JsonStringEnumConverter() }
+    };
+
+    private readonly ILiveUpdateBroadcaster _broadcaster;
+    private readonly ILogger<LiveUpdatesController> _logger;
+
+    public LiveUpdatesController(ILiveUpdateBroadcaster broadcaster, ILogger<LiveUpdatesController> logger)
+    {
+        _broadcaster = broadcaster;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Streams candidate, event and routine updates (text/event-stream).
+    /// Non-admin callers only receive updates for household members they may view.
+    /// </summary>
+    [HttpGet]
+    [Produces("text/event-stream")]
+    [ProducesResponseType(typeof(LiveUpdateDto), StatusCodes.Status200OK, "text/event-stream")] // The shape of each message
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    public async Task Stream([FromQuery] string? personId, CancellationToken cancellationToken)
+    {
+        var apiKeyPersonId = HttpContext.GetApiKeyPersonId();
+        var isAdmin = HttpContext.IsAdmin();
+
+        if (!string.IsNullOrEmpty(personId) && !HttpContext.CanViewPerson(personId))
+        {
+            Response.StatusCode = StatusCodes.Status403Forbidden;
+            await Response.WriteAsJsonAsync(
+                new { message = "Access denied: you cannot view this personId" },
+                cancellationToken);
+            return;
+        }
+
+        // Admins may watch everyone; others watch the requested household member or themselves
+        var subscriptionPersonId = !string.IsNullOrEmpty(personId)
+            ? personId
+            : (isAdmin ? null : apiKeyPersonId);
+
+        Response.Headers.ContentType = "text/event-stream";
+        Response.Headers.CacheControl = "no-cache";
+        Response.Headers["X-Accel-Buffering"] = "no";
+        HttpContext.Features.Get<IHttpResponseBodyFeature>()?.DisableBuffering();
+
+        using var subscription = _broadcaster.Subscribe(subscriptionPersonId);
+        _logger.LogInformation(
+            "Live updates stream opened (person: {PersonId}, admin: {IsAdmin})",
+            subscriptionPersonId ?? "*", isAdmin);
+
+        // Tell the client the stream is live so it can stop polling
+        await Response.WriteAsync("event: ready\ndata: {}\n\n", cancellationToken);
+        await Response.Body.FlushAsync(cancellationToken);
+
+        try
+        {
+            while (!cancellationToken.IsCancellationRequested)
+            {
+                using var heartbeatCts = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken);
+                heartbeatCts.CancelAfter(HeartbeatInterval);
+
+                bool hasUpdates;
+                try
+                {
+                    hasUpdates = await subscription.Reader.WaitToReadAsync(heartbeatCts.Token);
+                }
+                catch (OperationCanceledException) when (!cancellationToken.IsCancellationRequested)
+                {
+                    await Response.WriteAsync(": heartbeat\n\n", cancellationToken);
+                    await Response.Body.FlushAsync(cancellationToken);
+                    continue;
+                }
+
+                if (!hasUpdates)
+                {
+                    break;
+                }
+
+                while (subscription.Reader.TryRead(out var update))
+                {
+                    var data = JsonSerializer.Serialize(update, JsonOptions);
+                    await Response.WriteAsync($"event: {update.Type}\ndata: {data}\n\n", cancellationToken);
+                }
+                await Response.Body.FlushAsync(cancellationToken);
+            }
+        }
+        catch (OperationCanceledException)
+        {
+            // Client disconnected
+        }
+
+        _logger.LogInformation("Live updates stream closed (person: {PersonId})", subscriptionPersonId ?? "*");
+    }
+}
@@ -3,9 +3,12 @@ namespace AIPatterner.Api.Controllers;
 
 using AIPatterner.Api.Extensions;
 using AIPatterner.Application.Commands;
+using AIPatterner.Application.DTOs;
 using AIPatterner.Application.Queries;
 using AIPatterner.Application.Services;
+using AIPatterner.Domain.Entities;
 using AIPatterner.Application.Handlers;
+using AIPatterner.Infrastructure.Persistence;
 using MediatR;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
@@ -14,19 +17,29 @@ using Microsoft.AspNetCore.Mvc;
 [Route("api/v1/reminder-candidates")]
 public class ReminderCandidatesController : ControllerBase
 {
+    // Same limit as event batches; the UI sends larger selections as several requests
+    private const int MaxBatchSize = 100;
+
+    private static readonly string[] FeedbackTypes = { "yes", "no", "later" };
+
     private readonly IMediator _mediator;
+    private readonly ApplicationDbContext _context;
     private readonly ILogger<ReminderCandidatesController> _logger;
 
-    public ReminderCandidatesController(IMediator mediator, ILogger<ReminderCandidatesController> logger)
+    public ReminderCandidatesController(
+        IMediator mediator,
+        ApplicationDbContext context,
+        ILogger<ReminderCandidatesController> logger)
     {
         _mediator = mediator;
+        _context = context;
         _logger = logger;
     }
 
     [HttpGet]
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status403Forbidden)]
-    public async Task<ActionResult> GetReminderCandidates(
+    public async Task<ActionResult<ReminderCandidateListResponse>> GetReminderCandidates(
         [FromQuery] string? personId,
         [FromQuery] string? status,
         [FromQuery] string? actionType,
@@ -39,7 +52,7 @@ public class ReminderCandidatesController : ControllerBase
         var apiKeyPersonId = HttpContext.GetApiKeyPersonId();
         var isAdmin = HttpContext.IsAdmin();
 
-        // For user role: personId is required and must match their own
+        // For non-admins: default to their own personId; other household members need view access
         if (!isAdmin)
         {
             if (string.IsNullOrWhiteSpace(personId))
@@ -47,10 +60,10 @@ public class ReminderCandidatesController : ControllerBase
                 // If no personId provided, use the API key's personId
                 personId = apiKeyPersonId;
             }
-            else if (personId != apiKeyPersonId)
+            else if (!HttpContext.CanViewPerson(personId))
             {
-                // User trying to access different personId - forbidden
-                return StatusCode(403, new { message = "Access denied: personId does not match your API key" });
+                // Guests and API keys are limited to their own personId
+                return StatusCode(403, new { message = "Access denied: you cannot view this personId" });
             }
         }
         // For admin: any personId is allowed
@@ -88,11 +101,214 @@ public class ReminderCandidatesController : ControllerBase
         return NoContent();
     }
 
+    /// <summary>
+    /// Applies one operation to each listed reminder candidate. Every item is checked and applied on its
+    /// own, so one missing or forbidden candidate doesn't stop the rest; the response reports each item.
+    /// </summary>
+    [HttpPost("batch")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<ActionResult<BatchOperationResponse>> ProcessBatch([FromBody] ReminderCandidateBatchRequest request)
+    {
+        var ids = request.Ids.Distinct().ToList();
+        if (ids.Count == 0)
+        {
+            return BadRequest(new { message = "At least one reminder candidate id is required" });
+        }
+        if (ids.Count > MaxBatchSize)
+        {
+            return BadRequest(new { message = $"A batch can contain at most {MaxBatchSize} reminder candidates" });
+        }
+        if (request.Operation == ReminderCandidateBatchOperation.SetStyle && !request.Style.HasValue)
+        {
+            return BadRequest(new { message = "Style is required to change the style" });
+        }
+        if (request.Operation == ReminderCandidateBatchOperation.Feedback && !FeedbackTypes.Contains(request.FeedbackType))
+        {
+            return BadRequest(new { message = $"FeedbackType must be one of: {string.Join(", ", FeedbackTypes)}" });
+        }
+
+        var candidates = (await _mediator.Send(new GetReminderCandidatesByIdsQuery { Ids = ids }))
+            .ToDictionary(c => c.Id);
+        var isAdmin = HttpContext.IsAdmin();
+        var response = new BatchOperationResponse();
+
+        foreach (var id in ids)
+        {
+            if (!candidates.TryGetValue(id, out var candidate) || !HttpContext.CanViewPerson(candidate.PersonId))
+            {
+                response.Results.Add(BatchFailed(id, "Reminder candidate not found"));
+                continue;
+            }
+
+            var accessError = request.Operation switch
+            {
+                // Deleting and force-checking go through admin-only endpoints one by one as well
+                ReminderCandidateBatchOperation.Delete or ReminderCandidateBatchOperation.ForceCheck when !isAdmin =>
+                    "Access denied: only admins can do this",
+                ReminderCandidateBatchOperation.SetOccurrence or ReminderCandidateBatchOperation.SetStyle
+                    when !HttpContext.CanManagePerson(candidate.PersonId) =>
+                    "Access denied: you cannot change this personId's reminders",
+                // Guests may give feedback on their own reminders
+                ReminderCandidateBatchOperation.Feedback
+                    when !HttpContext.CanManagePerson(candidate.PersonId) && candidate.PersonId != HttpContext.GetApiKeyPersonId() =>
+                    "Access denied: you cannot give feedback on this personId's reminders",
+                _ => null
+            };
+            if (accessError != null)
+            {
+                response.Results.Add(BatchFailed(id, accessError));
+                continue;
+            }
+
+            try
+            {
+                response.Results.Add(await ApplyBatchOperationAsync(request, id));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Batch {Operation} failed for reminder candidate {Id}", request.Operation, id);
+                response.Results.Add(BatchFailed(id, "The operation failed; see the server log for details"));
+
+                // The handlers share this request's context; drop what the failed item left pending so the
+                // next item's SaveChanges doesn't try to save it again
+                _context.ChangeTracker.Clear();
+            }
+        }
+
+        _logger.LogInformation(
+            "Batch {Operation} on {Count} reminder candidates: {Succeeded} succeeded, {Failed} failed",
+            request.Operation,
+            ids.Count,
+            response.Results.Count(r => r.Status == BatchItemStatus.Succeeded),
+            response.Results.Count(r => r.Status == BatchItemStatus.Failed));
+
+        return Ok(response);
+    }
+
+    private async Task<BatchItemResult> ApplyBatchOperationAsync(ReminderCandidateBatchRequest request, Guid id)
+    {
+        switch (request.Operation)
+        {
+            case ReminderCandidateBatchOperation.Delete:
+                return await _mediator.Send(new DeleteReminderCandidateCommand { ReminderCandidateId = id })
+                    ? BatchSucceeded(id)
+                    : BatchFailed(id, "Reminder candidate not found");
+
+            case ReminderCandidateBatchOperation.SetOccurrence:
+                var occurrence = string.IsNullOrWhiteSpace(request.Occurrence) ? null : request.Occurrence;
+                return await _mediator.Send(new UpdateReminderOccurrenceCommand { ReminderCandidateId = id, Occurrence = occurrence })
+                    ? BatchSucceeded(id)
+                    : BatchFailed(id, "Reminder candidate not found");
+
+            case ReminderCandidateBatchOperation.SetStyle:
+                return await _mediator.Send(new UpdateReminderStyleCommand { ReminderCandidateId = id, Style = request.Style!.Value })
+                    ? BatchSucceeded(id)
+                    : BatchFailed(id, "Reminder candidate not found");
+
+            case ReminderCandidateBatchOperation.ForceCheck:
+                var checkResult = await _mediator.Send(new ProcessReminderCandidateCommand { CandidateId = id });
+                return BatchSucceeded(id, checkResult.Executed ? "Executed" : checkResult.Reason);
+
+            case ReminderCandidateBatchOperation.Feedback:
+                await _mediator.Send(new SubmitFeedbackCommand
+                {
+                    Feedback = new FeedbackDto { CandidateId = id, FeedbackType = request.FeedbackType!, Comment = request.Comment }
+                });
+                return BatchSucceeded(id);
+
+            default:
+                throw new ArgumentOutOfRangeException(nameof(request), request.Operation, "Unknown batch operation");
+        }
+    }
+
+    private static BatchItemResult BatchSucceeded(Guid id, string? message = null) => new()
+    {
+        Id = id,
+        Status = BatchItemStatus.Succeeded,
+        Message = message
+    };
+
+    private static BatchItemResult BatchFailed(Guid id, string error) => new()
+    {
+        Id = id,
+        Status = BatchItemStatus.Failed,
+        Error = error
+    };
+
+    [HttpGet("pattern-inference-policy")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    public async Task<ActionResult<PatternInferencePolicyDto>> GetPatternInferencePolicy()
+    {
+        var result = await _mediator.Send(new GetPatternInferencePolicyQuery());
+        return Ok(result);
+    }
+
+    [HttpGet("{id}/confidence-history")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<ConfidenceHistoryResponse>> GetConfidenceHistory(Guid id)
+    {
+        var result = await _mediator.Send(new GetConfidenceHistoryQuery { ReminderCandidateId = id });
+
+        if (result == null)
+        {
+            return NotFound(new { message = "Reminder candidate not found" });
+        }
+
+        if (!HttpContext.CanViewPerson(result.PersonId))
+        {
+            return StatusCode(403, new { message = "Access denied: you cannot view this personId" });
+        }
+
+        return Ok(result);
+    }
+
+    [HttpGet("{id}/decision-traces")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<DecisionTraceListResponse>> GetDecisionTraces(Guid id, [FromQuery] int limit = 20)
+    {
+        var result = await _mediator.Send(new GetDecisionTracesQuery
+        {
+            ReminderCandidateId = id,
+            Limit = Math.Clamp(limit, 1, 100)
+        });
+
+        if (result == null)
+        {
+            return NotFound(new { message = "Reminder candidate not found" });
+        }
+
+        if (!HttpContext.CanViewPerson(result.PersonId))
+        {
+            return StatusCode(403, new { message = "Access denied: you cannot view this personId" });
+        }
+
+        return Ok(result);
+    }
+
     [HttpPut("{id}/occurrence")]
     [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
     public async Task<ActionResult> UpdateReminderOccurrence(Guid id, [FromBody] UpdateReminderOccurrenceRequest request)
     {
+        // Get the reminder to check ownership
+        var reminder = await FindReminderAsync(id);
+
+        if (reminder == null)
+        {
+            return NotFound(new { message = "Reminder candidate not found" });
+        }
+
+        if (!HttpContext.CanManagePerson(reminder.PersonId))
+        {
+            return StatusCode(403, new { message = "Access denied: you cannot change this personId's reminders" });
+        }
+
         var command = new UpdateReminderOccurrenceCommand
         {
             ReminderCandidateId = id,
@@ -113,32 +329,22 @@ public class ReminderCandidatesController : ControllerBase
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status403Forbidden)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
-    public async Task<ActionResult> SetExecutionAction(Guid id, [FromBody] SetExecutionActionRequest request)
+    public async Task<ActionResult<SetExecutionActionResponse>> SetExecutionAction(Guid id, [FromBody] SetExecutionActionRequest request)
     {
-        // Validate personId access
-        var apiKeyPersonId = HttpContext.GetApiKeyPersonId();
         var isAdmin = HttpContext.IsAdmin();
 
         // Get the reminder to check ownership
-        var getReminderQuery = new GetReminderCandidatesQuery
-        {
-            PersonId = apiKeyPersonId, // Filter by personId for non-admin
-            Page = 1,
-            PageSize = 100 // Get enough to find the specific reminder
-        };
-
-        var remindersResult = await _mediator.Send(getReminderQuery);
-        var reminder = remindersResult.Items.FirstOrDefault(r => r.Id == id);
+        var reminder = await FindReminderAsync(id);
 
         if (reminder == null)
         {
             return NotFound(new { message = "Reminder candidate not found" });
         }
 
-        // For user role: can only set execution action for their own reminders
-        if (!isAdmin && reminder.PersonId != apiKeyPersonId)
+        // Members can only set execution action for their own reminders; guests for none
+        if (!HttpContext.CanManagePerson(reminder.PersonId))
         {
-            return StatusCode(403, new { message = "Access denied: reminder does not belong to your personId" });
+            return StatusCode(403, new { message = "Access denied: you cannot change this personId's reminders" });
         }
 
         var command = new SetExecutionActionCommand
@@ -160,6 +366,13 @@ public class ReminderCandidatesController : ControllerBase
 
         return Ok(result);
     }
+
+    // Looks the reminder up by id, whoever it belongs to; callers check access with CanManagePerson
+    private async Task<ReminderCandidateDto?> FindReminderAsync(Guid id)
+    {
+        var candidates = await _mediator.Send(new GetReminderCandidatesByIdsQuery { Ids = new List<Guid> { id } });
+        return candidates.FirstOrDefault();
+    }
 }
 
 public class UpdateReminderOccurrenceRequest
@@ -171,4 +384,3 @@ public class SetExecutionActionRequest
 {
     public ExecutionAction ExecutionAction { get; set; }
 }
-
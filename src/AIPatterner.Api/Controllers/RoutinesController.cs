@@ -3,6 +3,7 @@ namespace AIPatterner.Api.Controllers;
 
 using AIPatterner.Api.Extensions;
 using AIPatterner.Application.Commands;
+using AIPatterner.Application.DTOs;
 using AIPatterner.Application.Queries;
 using AIPatterner.Application.Services;
 using AIPatterner.Domain.Entities;
@@ -30,7 +31,7 @@ public class RoutinesController : ControllerBase
     [HttpGet]
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status403Forbidden)]
-    public async Task<ActionResult> GetRoutines(
+    public async Task<ActionResult<RoutineListResponse>> GetRoutines(
         [FromQuery] string? personId,
         [FromQuery] int page = 1,
         [FromQuery] int pageSize = 20)
@@ -39,7 +40,7 @@ public class RoutinesController : ControllerBase
         var apiKeyPersonId = HttpContext.GetApiKeyPersonId();
         var isAdmin = HttpContext.IsAdmin();
 
-        // For user role: personId is required and must match their own
+        // For non-admins: default to their own personId; other household members need view access
         if (!isAdmin)
         {
             if (string.IsNullOrWhiteSpace(personId))
@@ -47,10 +48,10 @@ public class RoutinesController : ControllerBase
                 // If no personId provided, use the API key's personId
                 personId = apiKeyPersonId;
             }
-            else if (personId != apiKeyPersonId)
+            else if (!HttpContext.CanViewPerson(personId))
             {
-                // User trying to access different personId - forbidden
-                return StatusCode(403, new { message = "Access denied: personId does not match your API key" });
+                // Guests and API keys are limited to their own personId
+                return StatusCode(403, new { message = "Access denied: you cannot view this personId" });
             }
         }
         // For admin: any personId is allowed
@@ -69,7 +70,7 @@ public class RoutinesController : ControllerBase
     [HttpGet("{id}")]
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
-    public async Task<ActionResult> GetRoutine(Guid id)
+    public async Task<ActionResult<RoutineDetailDto>> GetRoutine(Guid id)
     {
         var query = new GetRoutineQuery { RoutineId = id };
         var result = await _mediator.Send(query);
@@ -80,7 +81,7 @@ public class RoutinesController : ControllerBase
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status400BadRequest)]
     [ProducesResponseType(StatusCodes.Status403Forbidden)]
-    public async Task<ActionResult> GetActiveRoutines(
+    public async Task<ActionResult<RoutineListResponse>> GetActiveRoutines(
         [FromQuery] string personId)
     {
         if (string.IsNullOrWhiteSpace(personId))
@@ -89,16 +90,10 @@ public class RoutinesController : ControllerBase
         }
 
         // Validate personId access
-        var apiKeyPersonId = HttpContext.GetApiKeyPersonId();
-        var isAdmin = HttpContext.IsAdmin();
-
-        // For user role: personId must match their own
-        if (!isAdmin && personId != apiKeyPersonId)
+        if (!HttpContext.CanViewPerson(personId))
         {
-            // User trying to access different personId - forbidden
-            return StatusCode(403, new { message = "Access denied: personId does not match your API key" });
+            return StatusCode(403, new { message = "Access denied: you cannot view this personId" });
         }
-        // For admin: any personId is allowed
 
         var query = new GetRoutinesQuery
         {
@@ -115,7 +110,38 @@ public class RoutinesController : ControllerBase
                        r.ObservationWindowEndsUtc.Value > DateTime.UtcNow)
             .ToList();
 
-        return Ok(new { items = activeRoutines, totalCount = activeRoutines.Count });
+        return Ok(new RoutineListResponse
+        {
+            Items = activeRoutines,
+            TotalCount = activeRoutines.Count,
+            Page = 1,
+            PageSize = activeRoutines.Count
+        });
+    }
+
+    [HttpGet("{routineId}/reminders/{reminderId}/confidence-history")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<ConfidenceHistoryResponse>> GetRoutineReminderConfidenceHistory(Guid routineId, Guid reminderId)
+    {
+        var result = await _mediator.Send(new GetConfidenceHistoryQuery
+        {
+            RoutineId = routineId,
+            RoutineReminderId = reminderId
+        });
+
+        if (result == null)
+        {
+            return NotFound(new { message = "Routine reminder not found" });
+        }
+
+        if (!HttpContext.CanViewPerson(result.PersonId))
+        {
+            return StatusCode(403, new { message = "Access denied: you cannot view this personId" });
+        }
+
+        return Ok(result);
     }
 
     [HttpPost("{routineId}/reminders/{reminderId}/feedback")]
@@ -139,16 +165,57 @@ public class RoutinesController : ControllerBase
         return NoContent();
     }
 
-    [HttpPut("{id}")]
+    [HttpPost("{routineId}/reminders/{reminderId}/execution")]
     [ProducesResponseType(StatusCodes.Status200OK)]
-    [ProducesResponseType(StatusCodes.Status404NotFound)]
     [ProducesResponseType(StatusCodes.Status403Forbidden)]
-    public async Task<ActionResult> UpdateRoutine(Guid id, [FromBody] UpdateRoutineRequest request)
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<SetExecutionActionResponse>> SetRoutineReminderExecutionAction(
+        Guid routineId,
+        Guid reminderId,
+        [FromBody] SetExecutionActionRequest request)
     {
         // Validate access
-        var apiKeyPersonId = HttpContext.GetApiKeyPersonId();
         var isAdmin = HttpContext.IsAdmin();
 
+        var routineResult = await _mediator.Send(new GetRoutineQuery { RoutineId = routineId });
+
+        if (routineResult == null)
+        {
+            return NotFound(new { message = $"Routine with ID {routineId} not found" });
+        }
+
+        if (!HttpContext.CanManagePerson(routineResult.PersonId))
+        {
+            return StatusCode(403, new { message = "Access denied: you cannot change this personId's routines" });
+        }
+
+        var command = new SetRoutineReminderExecutionActionCommand
+        {
+            RoutineId = routineId,
+            RoutineReminderId = reminderId,
+            ExecutionAction = request.ExecutionAction
+        };
+
+        var result = await _mediator.Send(command);
+
+        if (!result.Success)
+        {
+            return NotFound(new { message = result.Message });
+        }
+
+        _logger.LogInformation(
+            "Execution action set for routine reminder {ReminderId} in routine {RoutineId}: {Action} (person: {PersonId}, admin: {IsAdmin})",
+            reminderId, routineId, request.ExecutionAction, routineResult.PersonId, isAdmin);
+
+        return Ok(result);
+    }
+
+    [HttpPut("{id}")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    public async Task<ActionResult<RoutineDto>> UpdateRoutine(Guid id, [FromBody] UpdateRoutineRequest request)
+    {
         // First get the routine to check personId
         var getRoutineQuery = new GetRoutineQuery { RoutineId = id };
         var routineResult = await _mediator.Send(getRoutineQuery);
@@ -159,9 +226,9 @@ public class RoutinesController : ControllerBase
         }
 
         // Check access permissions
-        if (!isAdmin && routineResult.PersonId != apiKeyPersonId)
+        if (!HttpContext.CanManagePerson(routineResult.PersonId))
         {
-            return StatusCode(403, new { message = "Access denied: personId does not match your API key" });
+            return StatusCode(403, new { message = "Access denied: you cannot change this personId's routines" });
         }
 
         var command = new UpdateRoutineCommand
@@ -0,0 +1,88 @@
+// API controller for removing data replayed into sandbox people
+namespace AIPatterner.Api.Controllers;
+
+using AIPatterner.Application.DTOs;
+using AIPatterner.Domain.ValueObjects;
+using AIPatterner.Infrastructure.Persistence;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+
+[ApiController]
+[Route("api/v1/sandbox")]
+[Authorize(Roles = "admin")]
+public class SandboxController : ControllerBase
+{
+    private readonly ApplicationDbContext _context;
+    private readonly ILogger<SandboxController> _logger;
+
+    public SandboxController(ApplicationDbContext context, ILogger<SandboxController> logger)
+    {
+        _context = context;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Deletes everything stored for a sandbox personId. Only personIds with the sandbox prefix
+    /// are accepted, so real household data can't be wiped through this endpoint.
+    /// </summary>
+    [HttpDelete("{personId}")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<ActionResult<SandboxCleanupResponse>> DeleteSandboxData(string personId, CancellationToken cancellationToken)
+    {
+        if (!PersonId.IsSandbox(personId))
+        {
+            return BadRequest(new { message = $"Only personIds starting with '{PersonId.SandboxPrefix}' can be cleaned up" });
+        }
+
+        await using var transaction = await _context.Database.BeginTransactionAsync(cancellationToken);
+
+        var response = new SandboxCleanupResponse
+        {
+            PersonId = personId,
+            RoutineRemindersDeleted = await _context.RoutineReminders
+                .Where(r => r.PersonId == personId)
+                .ExecuteDeleteAsync(cancellationToken),
+            RoutinesDeleted = await _context.Routines
+                .Where(r => r.PersonId == personId)
+                .ExecuteDeleteAsync(cancellationToken),
+            ReminderCandidatesDeleted = await _context.ReminderCandidates
+                .IgnoreQueryFilters()
+                .Where(c => c.PersonId == personId)
+                .ExecuteDeleteAsync(cancellationToken),
+            EventsDeleted = await _context.ActionEvents
+                .IgnoreQueryFilters()
+                .Where(e => e.PersonId == personId)
+                .ExecuteDeleteAsync(cancellationToken),
+            TransitionsDeleted = await _context.ActionTransitions
+                .Where(t => t.PersonId == personId)
+                .ExecuteDeleteAsync(cancellationToken),
+            OtherRecordsDeleted =
+                await _context.ReminderCooldowns
+                    .Where(c => c.PersonId == personId)
+                    .ExecuteDeleteAsync(cancellationToken) +
+                await _context.UserReminderPreferences
+                    .Where(p => p.PersonId == personId)
+                    .ExecuteDeleteAsync(cancellationToken) +
+                await _context.ExecutionHistories
+                    .IgnoreQueryFilters()
+                    .Where(h => h.PersonId == personId)
+                    .ExecuteDeleteAsync(cancellationToken) +
+                await _context.ConfidenceChanges
+                    .Where(c => c.PersonId == personId)
+                    .ExecuteDeleteAsync(cancellationToken) +
+                await _context.ReminderDecisionTraces
+                    .Where(t => t.PersonId == personId)
+                    .ExecuteDeleteAsync(cancellationToken)
+        };
+
+        await transaction.CommitAsync(cancellationToken);
+
+        _logger.LogInformation(
+            "Cleaned up sandbox {PersonId}: {Events} events, {Reminders} reminders, {Routines} routines",
+            personId, response.EventsDeleted, response.ReminderCandidatesDeleted, response.RoutinesDeleted);
+
+        return Ok(response);
+    }
+}
@@ -0,0 +1,41 @@
+// API controller for sensor signal diagnostics
+namespace AIPatterner.Api.Controllers;
+
+using AIPatterner.Application.DTOs;
+using AIPatterner.Application.Queries;
+using MediatR;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+
+[ApiController]
+[Route("api/v1/signals")]
+[Authorize]
+public class SignalsController : ControllerBase
+{
+    private readonly IMediator _mediator;
+    private readonly ILogger<SignalsController> _logger;
+
+    public SignalsController(IMediator mediator, ILogger<SignalsController> logger)
+    {
+        _mediator = mediator;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Scores event signal states against a baseline signal profile the way reminder matching does.
+    /// Nothing is stored.
+    /// </summary>
+    [HttpPost("similarity")]
+    [ProducesResponseType(typeof(SignalSimilarityResultDto), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<ActionResult<SignalSimilarityResultDto>> EvaluateSimilarity([FromBody] EvaluateSignalSimilarityQuery query)
+    {
+        if (query.SignalStates.Any(s => string.IsNullOrWhiteSpace(s.SensorId)))
+        {
+            return BadRequest(new { message = "Every signal state needs a sensorId" });
+        }
+
+        var result = await _mediator.Send(query);
+        return Ok(result);
+    }
+}
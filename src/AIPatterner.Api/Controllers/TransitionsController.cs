@@ -1,6 +1,7 @@
 // API controller for transitions
 namespace AIPatterner.Api.Controllers;
 
+using AIPatterner.Application.DTOs;
 using AIPatterner.Application.Queries;
 using MediatR;
 using Microsoft.AspNetCore.Mvc;
@@ -20,7 +21,7 @@ public class TransitionsController : ControllerBase
 
     [HttpGet("{personId}")]
     [ProducesResponseType(StatusCodes.Status200OK)]
-    public async Task<ActionResult> GetTransitions(string personId)
+    public async Task<ActionResult<TransitionListResponse>> GetTransitions(string personId)
     {
         var query = new GetTransitionsQuery { PersonId = personId };
         var result = await _mediator.Send(query);
@@ -0,0 +1,79 @@
+// API controller for the trash of soft-deleted items
+namespace AIPatterner.Api.Controllers;
+
+using AIPatterner.Application.Commands;
+using AIPatterner.Application.DTOs;
+using AIPatterner.Application.Queries;
+using MediatR;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+
+[ApiController]
+[Route("api/v1/trash")]
+[Authorize(Roles = "admin")]
+public class TrashController : ControllerBase
+{
+    private readonly IMediator _mediator;
+    private readonly ILogger<TrashController> _logger;
+
+    public TrashController(IMediator mediator, ILogger<TrashController> logger)
+    {
+        _mediator = mediator;
+        _logger = logger;
+    }
+
+    [HttpGet]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    public async Task<ActionResult<TrashListResponse>> GetTrash(
+        [FromQuery] TrashItemType type = TrashItemType.Event,
+        [FromQuery] int page = 1,
+        [FromQuery] int pageSize = 20)
+    {
+        var query = new GetTrashQuery
+        {
+            Type = type,
+            Page = Math.Max(1, page),
+            PageSize = Math.Clamp(pageSize, 1, 100)
+        };
+        var result = await _mediator.Send(query);
+        return Ok(result);
+    }
+
+    [HttpPost("{type}/{id}/restore")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status409Conflict)]
+    public async Task<ActionResult> RestoreItem(TrashItemType type, Guid id)
+    {
+        var command = new RestoreTrashItemCommand { Type = type, Id = id };
+        var result = await _mediator.Send(command);
+
+        switch (result.Status)
+        {
+            case TrashRestoreStatus.NotFound:
+                return NotFound(new { message = "Item not found in the trash" });
+            case TrashRestoreStatus.Conflict:
+                return Conflict(new { message = result.Message });
+        }
+
+        _logger.LogInformation("Restored {Type} {Id} from the trash", type, id);
+        return NoContent();
+    }
+
+    [HttpDelete("{type}/{id}")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult> PurgeItem(TrashItemType type, Guid id)
+    {
+        var command = new PurgeTrashItemCommand { Type = type, Id = id };
+        var result = await _mediator.Send(command);
+
+        if (!result)
+        {
+            return NotFound(new { message = "Item not found in the trash" });
+        }
+
+        _logger.LogInformation("Purged {Type} {Id} from the trash", type, id);
+        return NoContent();
+    }
+}
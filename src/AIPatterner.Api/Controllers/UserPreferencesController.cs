@@ -2,6 +2,7 @@
 namespace AIPatterner.Api.Controllers;
 
 using AIPatterner.Application.Commands;
+using AIPatterner.Application.DTOs;
 using AIPatterner.Application.Queries;
 using MediatR;
 using Microsoft.AspNetCore.Mvc;
@@ -23,7 +24,7 @@ public class UserPreferencesController : ControllerBase
     [HttpGet("{personId}")]
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
-    public async Task<ActionResult> GetUserPreferences(string personId)
+    public async Task<ActionResult<UserReminderPreferencesDto>> GetUserPreferences(string personId)
     {
         var query = new GetUserPreferencesQuery { PersonId = personId };
         var result = await _mediator.Send(query);
@@ -73,7 +74,8 @@ public class UserPreferencesController : ControllerBase
             DefaultStyle = defaultStyle,
             DailyLimit = request.DailyLimit,
             MinimumInterval = minimumInterval,
-            Enabled = request.Enabled
+            Enabled = request.Enabled,
+            AllowAutoExecute = request.AllowAutoExecute
         };
 
         var result = await _mediator.Send(command);
@@ -94,5 +96,6 @@ public class UpdateUserPreferencesRequest
     public int? DailyLimit { get; set; }
     public string? MinimumInterval { get; set; } // ISO 8601 duration format (e.g., "PT15M" for 15 minutes)
     public bool? Enabled { get; set; }
+    public bool? AllowAutoExecute { get; set; }
 }
 
@@ -41,6 +41,7 @@ public class UsersController : ControllerBase
             Username = u.Username,
             Email = u.Email,
             Role = u.Role,
+            HouseholdRole = u.HouseholdRole,
             CreatedAt = u.CreatedAtUtc.ToString("O")
         }).ToList());
     }
@@ -81,7 +82,12 @@ public class UsersController : ControllerBase
         try
         {
             var passwordHash = _authService.HashPassword(request.Password);
-            var user = new User(request.Username, request.Email, passwordHash, request.Role ?? "user");
+            var user = new User(
+                request.Username,
+                request.Email,
+                passwordHash,
+                request.Role ?? "user",
+                request.HouseholdRole ?? HouseholdRole.Member);
             _context.Users.Add(user);
             await _context.SaveChangesAsync();
 
@@ -93,6 +99,7 @@ public class UsersController : ControllerBase
                 Username = user.Username,
                 Email = user.Email,
                 Role = user.Role,
+                HouseholdRole = user.HouseholdRole,
                 CreatedAt = user.CreatedAtUtc.ToString("O")
             };
 
@@ -105,6 +112,43 @@ public class UsersController : ControllerBase
         }
     }
 
+    [HttpPut("{id}/household-role")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<UserDto>> UpdateHouseholdRole(Guid id, [FromBody] UpdateHouseholdRoleRequest request)
+    {
+        var user = await _context.Users.FindAsync(id);
+        if (user == null)
+        {
+            return NotFound(new { message = "User not found" });
+        }
+
+        // Prevent leaving the household without an owner
+        var ownerCount = await _context.Users.CountAsync(u => u.HouseholdRole == HouseholdRole.Owner);
+        if (user.HouseholdRole == HouseholdRole.Owner && request.HouseholdRole != HouseholdRole.Owner && ownerCount <= 1)
+        {
+            return BadRequest(new { message = "Cannot demote the last household owner" });
+        }
+
+        user.UpdateHouseholdRole(request.HouseholdRole);
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation(
+            "Household role updated by admin: {Username}, HouseholdRole: {HouseholdRole}",
+            user.Username, user.HouseholdRole);
+
+        return Ok(new UserDto
+        {
+            Id = user.Id.ToString(),
+            Username = user.Username,
+            Email = user.Email,
+            Role = user.Role,
+            HouseholdRole = user.HouseholdRole,
+            CreatedAt = user.CreatedAtUtc.ToString("O")
+        });
+    }
+
     [HttpDelete("{id}")]
     [ProducesResponseType(StatusCodes.Status204NoContent)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
@@ -123,10 +167,13 @@ public class UsersController : ControllerBase
             return BadRequest(new { message = "Cannot delete the last admin user" });
         }
 
-        _context.Users.Remove(user);
+        // The user's API keys go to the trash with them, so they stop authenticating until the user is restored
+        var apiKeys = await _context.ApiKeys.Where(k => k.UserId == user.Id).ToListAsync();
+        user.MarkDeleted();
+        apiKeys.ForEach(k => k.MarkDeleted());
         await _context.SaveChangesAsync();
 
-        _logger.LogInformation("User deleted by admin: {Username}", user.Username);
+        _logger.LogInformation("User moved to trash by admin: {Username}", user.Username);
 
         return NoContent();
     }
@@ -138,6 +185,7 @@ public class UserDto
     public string Username { get; set; } = string.Empty;
     public string Email { get; set; } = string.Empty;
     public string Role { get; set; } = string.Empty;
+    public HouseholdRole HouseholdRole { get; set; }
     public string CreatedAt { get; set; } = string.Empty;
 }
 
@@ -147,6 +195,12 @@ public class CreateUserRequest
     public string Email { get; set; } = string.Empty;
     public string Password { get; set; } = string.Empty;
     public string? Role { get; set; }
+    public HouseholdRole? HouseholdRole { get; set; }
+}
+
+public class UpdateHouseholdRoleRequest
+{
+    public HouseholdRole HouseholdRole { get; set; }
 }
 
 
@@ -21,7 +21,7 @@ public class WebhooksController : ControllerBase
     [HttpPost("check/{candidateId}")]
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
-    public async Task<ActionResult> CheckCandidate(Guid candidateId)
+    public async Task<ActionResult<ProcessReminderCandidateResponse>> CheckCandidate(Guid candidateId)
     {
         var command = new ProcessReminderCandidateCommand { CandidateId = candidateId };
         var result = await _mediator.Send(command);
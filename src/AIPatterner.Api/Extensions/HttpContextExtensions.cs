@@ -2,6 +2,7 @@
 namespace AIPatterner.Api.Extensions;
 
 using AIPatterner.Domain.Entities;
+using AIPatterner.Infrastructure.Services;
 
 public static class HttpContextExtensions
 {
@@ -76,6 +77,68 @@ public static class HttpContextExtensions
         return false;
     }
 
+    public static HouseholdRole? GetHouseholdRole(this HttpContext context)
+    {
+        // Only JWT users belong to the household; API keys are scoped by their PersonId instead
+        if (context.User?.Identity?.IsAuthenticated != true)
+        {
+            return null;
+        }
+
+        var householdRoleClaim = context.User.FindFirst(AuthService.HouseholdRoleClaimType);
+        if (householdRoleClaim != null && Enum.TryParse<HouseholdRole>(householdRoleClaim.Value, out var householdRole))
+        {
+            return householdRole;
+        }
+
+        // Tokens issued before household roles existed
+        return HouseholdRole.Member;
+    }
+
+    /// <summary>
+    /// Admins, owners and members may view any household member's data; guests and
+    /// API keys only their own personId.
+    /// </summary>
+    public static bool CanViewPerson(this HttpContext context, string? personId)
+    {
+        if (IsAdmin(context))
+        {
+            return true;
+        }
+
+        if (GetHouseholdRole(context) is HouseholdRole.Owner or HouseholdRole.Member)
+        {
+            return true;
+        }
+
+        return !string.IsNullOrEmpty(personId) && personId == GetApiKeyPersonId(context);
+    }
+
+    /// <summary>
+    /// Admins and owners may change any household member's data; members and API keys
+    /// only their own personId; guests none.
+    /// </summary>
+    public static bool CanManagePerson(this HttpContext context, string? personId)
+    {
+        if (IsAdmin(context))
+        {
+            return true;
+        }
+
+        var householdRole = GetHouseholdRole(context);
+        if (householdRole == HouseholdRole.Owner)
+        {
+            return true;
+        }
+
+        if (householdRole == HouseholdRole.Guest)
+        {
+            return false;
+        }
+
+        return !string.IsNullOrEmpty(personId) && personId == GetApiKeyPersonId(context);
+    }
+
     public static string? GetJwtUsername(this HttpContext context)
     {
         if (context.User?.Identity?.IsAuthenticated == true)
@@ -85,5 +148,17 @@ public static class HttpContextExtensions
         }
         return null;
     }
-}
 
+    // Who made a change, for audit logs: the signed-in username, or the API key's name
+    public static string? GetActorName(this HttpContext context)
+    {
+        var username = GetJwtUsername(context);
+        if (!string.IsNullOrEmpty(username))
+        {
+            return username;
+        }
+
+        var apiKey = GetApiKey(context);
+        return apiKey != null ? $"API key: {apiKey.Name}" : null;
+    }
+}
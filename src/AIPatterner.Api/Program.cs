@@ -1,5 +1,6 @@
 // Main entry point for the API
 using AIPatterner.Api;
+using AIPatterner.Api.Swagger;
 using AIPatterner.Application.Mappings;
 using AIPatterner.Application.Validators;
 using AIPatterner.Infrastructure.Persistence;
@@ -35,7 +36,20 @@ builder.Services.AddControllers()
         options.JsonSerializerOptions.Converters.Add(new System.Text.Json.Serialization.JsonStringEnumConverter());
     });
 builder.Services.AddEndpointsApiExplorer();
-builder.Services.AddSwaggerGen();
+builder.Services.AddSwaggerGen(options =>
+{
+    // Describe nullability as declared so the generated UI client can tell optional fields from required ones
+    options.SupportNonNullableReferenceTypes();
+    options.UseAllOfToExtendReferenceSchemas();
+    options.SchemaFilter<RequireNonNullablePropertiesSchemaFilter>();
+
+    // Action names are unique across controllers; they become the UI client's method names
+    options.CustomOperationIds(description =>
+    {
+        var action = description.ActionDescriptor.RouteValues["action"]!;
+        return char.ToLowerInvariant(action[0]) + action[1..];
+    });
+});
 
 // CORS configuration
 builder.Services.AddCors(options =>
@@ -76,8 +90,12 @@ builder.Services.AddAuthorization();
 
 // Database
 var connectionString = builder.Configuration.GetConnectionString("DefaultConnection");
-builder.Services.AddDbContext<ApplicationDbContext>(options =>
-    options.UseNpgsql(connectionString));
+builder.Services.AddDbContext<ApplicationDbContext>((sp, options) =>
+    options.UseNpgsql(connectionString)
+        .AddInterceptors(
+            sp.GetRequiredService<LiveUpdatesSaveChangesInterceptor>(),
+            sp.GetRequiredService<ConfidenceHistorySaveChangesInterceptor>(),
+            sp.GetRequiredService<ConfigurationHistorySaveChangesInterceptor>()));
 
 // Health checks
 builder.Services.AddHealthChecks()
@@ -102,6 +120,7 @@ builder.Services.AddScoped<AIPatterner.Application.Handlers.IReminderCandidateRe
 builder.Services.AddScoped<AIPatterner.Application.Handlers.IExecutionHistoryRepository, AIPatterner.Infrastructure.Persistence.Repositories.ExecutionHistoryRepository>();
 builder.Services.AddScoped<AIPatterner.Application.Handlers.IApiKeyRepository, AIPatterner.Infrastructure.Persistence.Repositories.ApiKeyRepository>();
 builder.Services.AddScoped<AIPatterner.Application.Handlers.IConfigurationRepository, AIPatterner.Infrastructure.Persistence.Repositories.ConfigurationRepository>();
+builder.Services.AddScoped<AIPatterner.Application.Handlers.IConfigurationChangeRepository, AIPatterner.Infrastructure.Persistence.Repositories.ConfigurationChangeRepository>();
 builder.Services.AddScoped<AIPatterner.Application.Handlers.IUserPreferencesRepository, AIPatterner.Infrastructure.Persistence.Repositories.UserPreferencesRepository>();
 builder.Services.AddScoped<AIPatterner.Application.Handlers.ICooldownService, AIPatterner.Infrastructure.Services.CooldownService>();
 builder.Services.AddScoped<AIPatterner.Application.Handlers.IReminderScheduler, ReminderScheduler>();
@@ -114,9 +133,18 @@ builder.Services.AddScoped<AIPatterner.Application.Services.IMatchingRemindersSe
 builder.Services.AddScoped<AIPatterner.Application.Services.IMatchingPolicyService, MatchingPolicyService>();
 builder.Services.AddScoped<AIPatterner.Application.Services.IExecutionActionEvaluator, ExecutionActionEvaluator>();
 
+// Live updates (server-sent events)
+builder.Services.AddSingleton<AIPatterner.Application.Services.ILiveUpdateBroadcaster, LiveUpdateBroadcaster>();
+builder.Services.AddScoped<LiveUpdatesSaveChangesInterceptor>();
+builder.Services.AddSingleton<ConfidenceHistorySaveChangesInterceptor>();
+builder.Services.AddSingleton<ConfigurationHistorySaveChangesInterceptor>();
+
 // Routine learning services
 builder.Services.AddScoped<AIPatterner.Application.Handlers.IRoutineRepository, AIPatterner.Infrastructure.Persistence.Repositories.RoutineRepository>();
 builder.Services.AddScoped<AIPatterner.Application.Handlers.IRoutineReminderRepository, AIPatterner.Infrastructure.Persistence.Repositories.RoutineReminderRepository>();
+builder.Services.AddScoped<AIPatterner.Application.Handlers.IConfidenceChangeRepository, AIPatterner.Infrastructure.Persistence.Repositories.ConfidenceChangeRepository>();
+builder.Services.AddScoped<AIPatterner.Application.Handlers.IReminderDecisionTraceRepository, AIPatterner.Infrastructure.Persistence.Repositories.ReminderDecisionTraceRepository>();
+builder.Services.AddScoped<AIPatterner.Application.Handlers.ITrashRepository, AIPatterner.Infrastructure.Persistence.Repositories.TrashRepository>();
 builder.Services.AddScoped<AIPatterner.Application.Services.IRoutineLearningService, AIPatterner.Infrastructure.Services.RoutineLearningService>();
 
 // Domain services
@@ -124,6 +152,8 @@ builder.Services.AddScoped<AIPatterner.Domain.Services.ITransitionLearner, Trans
 builder.Services.AddScoped<AIPatterner.Domain.Services.ISignalSelector, AIPatterner.Infrastructure.Services.SignalSelector>();
 builder.Services.AddScoped<AIPatterner.Domain.Services.ISignalSimilarityEvaluator, AIPatterner.Infrastructure.Services.SignalSimilarityEvaluator>();
 builder.Services.AddScoped<AIPatterner.Application.Services.ISignalPolicyService, AIPatterner.Infrastructure.Services.SignalPolicyService>();
+builder.Services.AddScoped<AIPatterner.Application.Services.IDelayLearningPolicyService, AIPatterner.Infrastructure.Services.DelayLearningPolicyService>();
+builder.Services.AddScoped<AIPatterner.Application.Services.IRoutinePolicyService, AIPatterner.Infrastructure.Services.RoutinePolicyService>();
 builder.Services.AddScoped<AIPatterner.Domain.Services.IContextBucketKeyBuilder, ContextBucketKeyBuilder>();
 builder.Services.AddScoped<AIPatterner.Domain.Services.IReminderPolicyEvaluator, ReminderPolicyEvaluator>();
 builder.Services.AddScoped<AIPatterner.Application.Services.IOccurrencePatternParser, AIPatterner.Application.Services.OccurrencePatternParser>();
@@ -140,6 +170,7 @@ builder.Services.AddHttpClient("Memory");
 
 // Background workers
 builder.Services.AddHostedService<EventCleanupWorker>();
+builder.Services.AddHostedService<TrashPurgeWorker>();
 builder.Services.AddHostedService<TransitionDecayWorker>();
 builder.Services.AddHostedService<CandidateSchedulerWorker>();
 builder.Services.AddHostedService<AIPatterner.Infrastructure.Workers.RoutineLearningWindowCloserWorker>();
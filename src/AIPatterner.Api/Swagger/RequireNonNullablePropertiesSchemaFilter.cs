@@ -0,0 +1,20 @@
+// Swagger schema filter that marks every non-nullable property as required
+namespace AIPatterner.Api.Swagger;
+
+using Microsoft.OpenApi.Models;
+using Swashbuckle.AspNetCore.SwaggerGen;
+
+public class RequireNonNullablePropertiesSchemaFilter : ISchemaFilter
+{
+    public void Apply(OpenApiSchema schema, SchemaFilterContext context)
+    {
+        // The serializer always writes these, so clients generated from the document can rely on them
+        foreach (var (name, property) in schema.Properties)
+        {
+            if (!property.Nullable)
+            {
+                schema.Required.Add(name);
+            }
+        }
+    }
+}
@@ -0,0 +1,12 @@
+// MediatR command for importing an exported bundle of configuration values
+namespace AIPatterner.Application.Commands;
+
+using AIPatterner.Application.DTOs;
+using MediatR;
+
+public class ImportConfigurationBundleCommand : IRequest<ConfigurationImportResponse>
+{
+    public List<ConfigurationImportEntryDto> Entries { get; set; } = new();
+    public bool DryRun { get; set; }
+    public string? ChangedBy { get; set; }
+}
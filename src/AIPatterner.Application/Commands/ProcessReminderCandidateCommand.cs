@@ -1,6 +1,8 @@
 // MediatR command for processing a reminder candidate
 namespace AIPatterner.Application.Commands;
 
+using AIPatterner.Application.DTOs;
+using AIPatterner.Domain.Entities;
 using MediatR;
 
 public class ProcessReminderCandidateCommand : IRequest<ProcessReminderCandidateResponse>
@@ -15,5 +17,8 @@ public class ProcessReminderCandidateResponse
     public bool ShouldSpeak { get; set; }
     public string? NaturalLanguagePhrase { get; set; }
     public string Reason { get; set; } = string.Empty;
+    public ReminderCheckOutcome Outcome { get; set; }
+    public Guid TraceId { get; set; }
+    public List<DecisionTraceStepDto> Trace { get; set; } = new();
 }
 
@@ -0,0 +1,11 @@
+// MediatR command for permanently removing an item from the trash
+namespace AIPatterner.Application.Commands;
+
+using AIPatterner.Application.DTOs;
+using MediatR;
+
+public class PurgeTrashItemCommand : IRequest<bool>
+{
+    public TrashItemType Type { get; set; }
+    public Guid Id { get; set; }
+}
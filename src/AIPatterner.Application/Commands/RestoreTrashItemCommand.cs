@@ -0,0 +1,11 @@
+// MediatR command for restoring an item from the trash
+namespace AIPatterner.Application.Commands;
+
+using AIPatterner.Application.DTOs;
+using MediatR;
+
+public class RestoreTrashItemCommand : IRequest<RestoreTrashItemResult>
+{
+    public TrashItemType Type { get; set; }
+    public Guid Id { get; set; }
+}
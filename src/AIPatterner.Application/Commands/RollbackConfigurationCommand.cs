@@ -0,0 +1,12 @@
+// MediatR command for restoring a category's values as they were right after a past change
+namespace AIPatterner.Application.Commands;
+
+using AIPatterner.Application.DTOs;
+using MediatR;
+
+public class RollbackConfigurationCommand : IRequest<ConfigurationRollbackResponse>
+{
+    public Guid ChangeId { get; set; }
+    public string? Key { get; set; } // Only restore this key instead of the whole category
+    public string? ChangedBy { get; set; }
+}
@@ -1,7 +1,7 @@
 // MediatR command for setting execution action on a reminder candidate
 namespace AIPatterner.Application.Commands;
 
-using AIPatterner.Application.Services;
+using AIPatterner.Domain.Entities;
 using MediatR;
 
 public class SetExecutionActionCommand : IRequest<SetExecutionActionResponse>
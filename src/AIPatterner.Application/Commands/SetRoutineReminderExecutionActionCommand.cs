@@ -0,0 +1,12 @@
+// MediatR command for setting execution action on a routine reminder
+namespace AIPatterner.Application.Commands;
+
+using AIPatterner.Domain.Entities;
+using MediatR;
+
+public class SetRoutineReminderExecutionActionCommand : IRequest<SetExecutionActionResponse>
+{
+    public Guid RoutineId { get; set; }
+    public Guid RoutineReminderId { get; set; }
+    public ExecutionAction ExecutionAction { get; set; }
+}
@@ -10,6 +10,7 @@ public class UpdateConfigurationCommand : IRequest<ConfigurationDto>
     public string Category { get; set; } = string.Empty;
     public string Value { get; set; } = string.Empty;
     public string? Description { get; set; }
+    public string? ChangedBy { get; set; } // Recorded in the configuration history
 }
 
 
@@ -0,0 +1,11 @@
+// MediatR command for changing how a reminder is delivered
+namespace AIPatterner.Application.Commands;
+
+using AIPatterner.Domain.Entities;
+using MediatR;
+
+public class UpdateReminderStyleCommand : IRequest<bool>
+{
+    public Guid ReminderCandidateId { get; set; }
+    public ReminderStyle Style { get; set; }
+}
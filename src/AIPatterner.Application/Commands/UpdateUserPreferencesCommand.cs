@@ -11,5 +11,6 @@ public class UpdateUserPreferencesCommand : IRequest<bool>
     public int? DailyLimit { get; set; }
     public TimeSpan? MinimumInterval { get; set; }
     public bool? Enabled { get; set; }
+    public bool? AllowAutoExecute { get; set; }
 }
 
@@ -8,6 +8,7 @@ public class ActionEventListDto
     public Guid Id { get; set; }
     public string PersonId { get; set; } = string.Empty;
     public string ActionType { get; set; } = string.Empty;
+    public EventType EventType { get; set; }
     public DateTime TimestampUtc { get; set; }
     public ActionContextDto Context { get; set; } = null!;
     public DateTime CreatedAtUtc { get; set; }
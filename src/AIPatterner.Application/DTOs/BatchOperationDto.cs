@@ -0,0 +1,47 @@
+// DTOs for applying one operation to many reminder candidates or events, reported per item
+namespace AIPatterner.Application.DTOs;
+
+using AIPatterner.Domain.Entities;
+
+public enum ReminderCandidateBatchOperation
+{
+    Delete,
+    SetOccurrence,
+    SetStyle,
+    ForceCheck,
+    Feedback
+}
+
+public class ReminderCandidateBatchRequest
+{
+    public ReminderCandidateBatchOperation Operation { get; set; }
+    public List<Guid> Ids { get; set; } = new();
+    public string? Occurrence { get; set; } // SetOccurrence; null clears the pattern
+    public ReminderStyle? Style { get; set; } // SetStyle
+    public string? FeedbackType { get; set; } // Feedback: "yes", "no", "later"
+    public string? Comment { get; set; } // Feedback
+}
+
+public class EventBatchDeleteRequest
+{
+    public List<Guid> Ids { get; set; } = new();
+}
+
+public enum BatchItemStatus
+{
+    Succeeded,
+    Failed
+}
+
+public class BatchItemResult
+{
+    public Guid Id { get; set; }
+    public BatchItemStatus Status { get; set; }
+    public string? Message { get; set; } // Outcome of a successful item, e.g. why a force-check did not execute
+    public string? Error { get; set; }
+}
+
+public class BatchOperationResponse
+{
+    public List<BatchItemResult> Results { get; set; } = new();
+}
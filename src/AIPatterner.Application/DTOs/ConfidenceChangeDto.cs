@@ -0,0 +1,23 @@
+// DTOs for the confidence change log of reminder candidates and routine reminders
+namespace AIPatterner.Application.DTOs;
+
+using AIPatterner.Domain.Entities;
+
+public class ConfidenceChangeDto
+{
+    public Guid Id { get; set; }
+    public double? PreviousConfidence { get; set; }
+    public double NewConfidence { get; set; }
+    public ConfidenceChangeSource Source { get; set; }
+    public Guid? SourceEventId { get; set; }
+    public string? SourceEventActionType { get; set; }
+    public DateTime? SourceEventTimestampUtc { get; set; }
+    public DateTime ChangedAtUtc { get; set; }
+}
+
+public class ConfidenceHistoryResponse
+{
+    public string PersonId { get; set; } = string.Empty;
+    public double CurrentConfidence { get; set; }
+    public List<ConfidenceChangeDto> Changes { get; set; } = new();
+}
@@ -1,6 +1,9 @@
 // DTOs for configuration management
 namespace AIPatterner.Application.DTOs;
 
+using AIPatterner.Application.Services;
+using AIPatterner.Domain.Entities;
+
 public class ConfigurationDto
 {
     public Guid Id { get; set; }
@@ -26,4 +29,94 @@ public class CreateConfigurationRequest
     public string? Description { get; set; }
 }
 
+public class ConfigurationChangeDto
+{
+    public Guid Id { get; set; }
+    public Guid ConfigurationId { get; set; }
+    public string Category { get; set; } = string.Empty;
+    public string Key { get; set; } = string.Empty;
+    public string? PreviousValue { get; set; }
+    public string NewValue { get; set; } = string.Empty;
+    public ConfigurationChangeType ChangeType { get; set; }
+    public Guid? RolledBackToChangeId { get; set; }
+    public string? ChangedBy { get; set; }
+    public DateTime ChangedAtUtc { get; set; }
+}
+
+// Values of a category as they were right after a change, next to the current ones
+public class ConfigurationDiffDto
+{
+    public Guid ChangeId { get; set; }
+    public string Category { get; set; } = string.Empty;
+    public DateTime AsOfUtc { get; set; }
+    public List<ConfigurationDiffEntryDto> Entries { get; set; } = new();
+}
+
+public class ConfigurationDiffEntryDto
+{
+    public string Key { get; set; } = string.Empty;
+    public string? CurrentValue { get; set; } // Null when the key no longer exists
+    public string? RestoredValue { get; set; } // Null when the key did not exist yet; a rollback leaves it as is
+    public bool Changed { get; set; } // A rollback would change this key
+}
+
+public class ConfigurationRollbackResponse
+{
+    public Guid RolledBackToChangeId { get; set; }
+    public string Category { get; set; } = string.Empty;
+    public List<ConfigurationDto> Restored { get; set; } = new();
+}
+
+public enum ConfigurationImportStatus
+{
+    Added,
+    Changed,
+    Unchanged,
+    Invalid
+}
+
+public class ConfigurationImportEntryDto
+{
+    public string Category { get; set; } = string.Empty;
+    public string Key { get; set; } = string.Empty;
+    public string Value { get; set; } = string.Empty;
+}
 
+public class ConfigurationImportRequest
+{
+    public List<ConfigurationImportEntryDto> Entries { get; set; } = new();
+    public bool DryRun { get; set; } // Only compare against the current values; nothing is saved
+}
+
+public class ConfigurationImportResultDto
+{
+    public string Category { get; set; } = string.Empty;
+    public string Key { get; set; } = string.Empty;
+    public string? CurrentValue { get; set; } // Null when the key does not exist yet
+    public string NewValue { get; set; } = string.Empty;
+    public ConfigurationImportStatus Status { get; set; }
+    public string? Error { get; set; }
+}
+
+public class ConfigurationImportResponse
+{
+    public bool Applied { get; set; } // False for dry runs and for bundles with invalid entries
+    public List<ConfigurationImportResultDto> Results { get; set; } = new();
+}
+
+public class ConfigurationKeySchemaDto
+{
+    public string Category { get; set; } = string.Empty;
+    public string Key { get; set; } = string.Empty;
+    public ConfigurationValueType Type { get; set; }
+    public double? Min { get; set; }
+    public double? Max { get; set; }
+    public string DefaultValue { get; set; } = string.Empty; // What the services use while nothing is stored
+    public string? Setting { get; set; } // Server configuration path the default is read from
+    public bool RestartRequired { get; set; } // Changed only in the server configuration, followed by a restart
+    public string Group { get; set; } = string.Empty;
+    public string Section { get; set; } = string.Empty;
+    public string Label { get; set; } = string.Empty;
+    public string Description { get; set; } = string.Empty;
+    public string? Unit { get; set; }
+}
@@ -0,0 +1,31 @@
+// DTOs for the step-by-step decision traces of reminder checks
+namespace AIPatterner.Application.DTOs;
+
+using AIPatterner.Domain.Entities;
+
+public class DecisionTraceStepDto
+{
+    public DecisionGate Gate { get; set; }
+    public DecisionStepOutcome Outcome { get; set; }
+    public double? Value { get; set; }
+    public double? Threshold { get; set; }
+    public string Detail { get; set; } = string.Empty;
+}
+
+public class ReminderDecisionTraceDto
+{
+    public Guid Id { get; set; }
+    public DateTime EvaluatedAtUtc { get; set; }
+    public ReminderCheckOutcome Outcome { get; set; }
+    public bool ShouldSpeak { get; set; }
+    public string Reason { get; set; } = string.Empty;
+    public bool BypassedDateCheck { get; set; }
+    public double Confidence { get; set; }
+    public List<DecisionTraceStepDto> Steps { get; set; } = new();
+}
+
+public class DecisionTraceListResponse
+{
+    public string PersonId { get; set; } = string.Empty;
+    public List<ReminderDecisionTraceDto> Traces { get; set; } = new(); // Newest first
+}
@@ -0,0 +1,27 @@
+// DTOs for ingesting a chunk of action events in one request
+namespace AIPatterner.Application.DTOs;
+
+public class IngestEventBatchRequest
+{
+    public List<ActionEventDto> Events { get; set; } = new();
+}
+
+public enum IngestEventBatchItemStatus
+{
+    Ingested,
+    Failed,
+    NotAttempted
+}
+
+public class IngestEventBatchItemResult
+{
+    public int Index { get; set; }
+    public IngestEventBatchItemStatus Status { get; set; }
+    public Guid? EventId { get; set; }
+    public string? Error { get; set; }
+}
+
+public class IngestEventBatchResponse
+{
+    public List<IngestEventBatchItemResult> Results { get; set; } = new();
+}
@@ -0,0 +1,28 @@
+// DTOs for real-time push updates streamed to clients
+namespace AIPatterner.Application.DTOs;
+
+/// <summary>
+/// Types of live updates pushed over the server-sent events stream.
+/// </summary>
+public static class LiveUpdateTypes
+{
+    public const string CandidateCreated = "candidate.created";
+    public const string CandidateExecuted = "candidate.executed";
+    public const string CandidateSkipped = "candidate.skipped";
+    public const string EventIngested = "event.ingested";
+    public const string RoutineWindowOpened = "routine.window_opened";
+    public const string RoutineWindowClosed = "routine.window_closed";
+}
+
+/// <summary>
+/// A single live update. Payload carries the changed entity where clients can patch
+/// their caches directly (e.g. a ReminderCandidateDto).
+/// </summary>
+public class LiveUpdateDto
+{
+    public string Type { get; set; } = string.Empty;
+    public string PersonId { get; set; } = string.Empty;
+    public Guid EntityId { get; set; }
+    public DateTime OccurredAtUtc { get; set; }
+    public object? Payload { get; set; }
+}
@@ -0,0 +1,51 @@
+// DTOs for replaying past events under a proposed matching policy
+namespace AIPatterner.Application.DTOs;
+
+using AIPatterner.Application.Queries;
+
+public class MatchingPolicySimulationRequest
+{
+    public string PersonId { get; set; } = string.Empty;
+    public int Days { get; set; } = 7;
+    public MatchingCriteria Criteria { get; set; } = new();
+}
+
+public class MatchingPolicySimulationResponse
+{
+    public string PersonId { get; set; } = string.Empty;
+    public DateTime FromUtc { get; set; }
+    public MatchingCriteria Current { get; set; } = new();
+    public MatchingCriteria Proposed { get; set; } = new();
+    public int EventCount { get; set; }
+    public bool Truncated { get; set; } // More events than the limit; only the newest were replayed
+    public int GainedMatches { get; set; }
+    public int LostMatches { get; set; }
+    public int KeptMatches { get; set; }
+    public int ChangedEventCount { get; set; }
+    public List<MatchingSimulationEventDto> Events { get; set; } = new();
+}
+
+public class MatchingSimulationEventDto
+{
+    public Guid EventId { get; set; }
+    public string ActionType { get; set; } = string.Empty;
+    public DateTime TimestampUtc { get; set; }
+    public int MatchedBefore { get; set; }
+    public int MatchedAfter { get; set; }
+    public List<MatchingSimulationReminderDto> Reminders { get; set; } = new(); // Matched under either policy
+}
+
+public class MatchingSimulationReminderDto
+{
+    public Guid ReminderId { get; set; }
+    public string SuggestedAction { get; set; } = string.Empty;
+    public double Confidence { get; set; }
+    public MatchingSimulationChange Change { get; set; }
+}
+
+public enum MatchingSimulationChange
+{
+    Kept,
+    Gained,
+    Lost
+}
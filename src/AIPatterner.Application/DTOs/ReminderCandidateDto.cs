@@ -19,6 +19,40 @@ public class ReminderCandidateDto
     public SignalProfileDto? SignalProfile { get; set; }
     public DateTime? SignalProfileUpdatedAtUtc { get; set; }
     public int SignalProfileSamplesCount { get; set; }
+    public ExecutionAction? ExecutionAction { get; set; } // null = evaluated automatically from confidence
+    public bool IsSafeToAutoExecute { get; set; }
+
+    // Gradual pattern inference
+    public PatternInferenceStatus PatternInferenceStatus { get; set; }
+    public int? InferredWeekday { get; set; } // 0=Sunday, 6=Saturday; set for Weekly
+    public TimeSpan? TimeWindowCenter { get; set; }
+    public int TimeWindowSizeMinutes { get; set; }
+    public int EvidenceCount { get; set; }
+    public Dictionary<int, int> ObservedDayOfWeekHistogram { get; set; } = new();
+    public Dictionary<string, int> ObservedTimeBucketHistogram { get; set; } = new();
+    public Dictionary<string, int> ObservedDayTypeHistogram { get; set; } = new();
+    public PatternEvidenceDto PatternEvidence { get; set; } = new();
+}
+
+public class PatternEvidenceDto
+{
+    public int ObservedDayCount { get; set; }
+    public int LongestDailyRunDays { get; set; } // Observed days with gaps of at most 2 days
+    public int DistinctWeekdays { get; set; }
+    public int? DominantWeekday { get; set; }
+    public int DominantWeekdayEvidence { get; set; }
+    public int DominantWeekdayDays { get; set; }
+    public int DominantWeekdaySpanDays { get; set; }
+}
+
+/// <summary>
+/// The evidence thresholds pattern inference is configured with (Policy:MinDailyEvidence and
+/// Policy:MinWeeklyEvidence).
+/// </summary>
+public class PatternInferencePolicyDto
+{
+    public int MinDailyEvidence { get; set; }
+    public int MinWeeklyEvidence { get; set; }
 }
 
 public class ReminderCandidateListResponse
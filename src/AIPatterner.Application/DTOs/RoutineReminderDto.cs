@@ -1,6 +1,8 @@
 // DTO for RoutineReminder entity
 namespace AIPatterner.Application.DTOs;
 
+using AIPatterner.Domain.Entities;
+
 public class RoutineReminderDto
 {
     public Guid Id { get; set; }
@@ -15,6 +17,8 @@ public class RoutineReminderDto
     public SignalProfileDto? SignalProfile { get; set; }
     public DateTime? SignalProfileUpdatedAtUtc { get; set; }
     public int SignalProfileSamplesCount { get; set; }
+    public ExecutionAction? ExecutionAction { get; set; } // null = evaluated automatically from confidence
+    public bool IsSafeToAutoExecute { get; set; }
     
     // Delay learning statistics
     public double DelaySampleCount { get; set; }
@@ -25,5 +29,25 @@ public class RoutineReminderDto
     public DateTime? DelayStatsLastUpdatedUtc { get; set; }
     public DateTime? DelayStatsLastDecayUtc { get; set; }
     public int DelayEvidenceCount { get; set; } // Count of items in DelayEvidenceJson
+    public List<DelayHistogramBinDto> DelayHistogram { get; set; } = new(); // Every bin, ascending; empty bins have weight 0
+    public List<DelayEvidenceItemDto> DelayEvidence { get; set; } = new(); // Oldest first, bounded
+}
+
+public class DelayHistogramBinDto
+{
+    public int LowerBoundSeconds { get; set; }
+    public int UpperBoundSeconds { get; set; }
+    public double Weight { get; set; } // Decayed, weighted sample count
+    public bool IsOverflow { get; set; } // Last bin, which also holds every longer delay
+}
+
+public class DelayEvidenceItemDto
+{
+    public DateTime RoutineActivationTimestampUtc { get; set; }
+    public DateTime EventTimestampUtc { get; set; }
+    public double ObservedDelaySeconds { get; set; }
+    public double ConfidenceWeight { get; set; }
+    public bool IsOutlier { get; set; }
+    public Guid SourceEventId { get; set; }
 }
 
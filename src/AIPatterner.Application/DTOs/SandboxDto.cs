@@ -0,0 +1,13 @@
+// DTOs for cleaning up sandbox simulation data
+namespace AIPatterner.Application.DTOs;
+
+public class SandboxCleanupResponse
+{
+    public string PersonId { get; set; } = string.Empty;
+    public int EventsDeleted { get; set; }
+    public int ReminderCandidatesDeleted { get; set; }
+    public int RoutinesDeleted { get; set; }
+    public int RoutineRemindersDeleted { get; set; }
+    public int TransitionsDeleted { get; set; }
+    public int OtherRecordsDeleted { get; set; }
+}
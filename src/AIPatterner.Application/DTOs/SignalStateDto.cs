@@ -30,3 +30,17 @@ public class SignalProfileDto
     public Dictionary<string, SignalProfileEntryDto> Signals { get; set; } = new();
 }
 
+
+/// <summary>
+/// DTO for the result of comparing an event's signals against a baseline profile,
+/// with the policy values the matcher applies to it.
+/// </summary>
+public class SignalSimilarityResultDto
+{
+    public SignalProfileDto EventProfile { get; set; } = new();
+    public double Similarity { get; set; }
+    public double Threshold { get; set; }
+    public double MismatchPenalty { get; set; }
+    public int SelectionLimit { get; set; }
+    public bool IsSignalSelectionEnabled { get; set; }
+}
@@ -0,0 +1,44 @@
+// DTOs for soft-deleted items waiting in the trash
+namespace AIPatterner.Application.DTOs;
+
+public enum TrashItemType
+{
+    Event,
+    ReminderCandidate,
+    ExecutionHistory,
+    ApiKey,
+    User
+}
+
+public enum TrashRestoreStatus
+{
+    Restored,
+    NotFound,
+    Conflict // A live item already uses the same unique value (e.g. a new user took the username)
+}
+
+public class TrashItemDto
+{
+    public Guid Id { get; set; }
+    public TrashItemType Type { get; set; }
+    public string Title { get; set; } = string.Empty;
+    public string? PersonId { get; set; }
+    public DateTime DeletedAtUtc { get; set; }
+    public DateTime PurgeAtUtc { get; set; }
+}
+
+public class TrashListResponse
+{
+    public List<TrashItemDto> Items { get; set; } = new();
+    public int TotalCount { get; set; }
+    public int Page { get; set; }
+    public int PageSize { get; set; }
+    public int RetentionDays { get; set; }
+    public Dictionary<TrashItemType, int> CountsByType { get; set; } = new();
+}
+
+public class RestoreTrashItemResult
+{
+    public TrashRestoreStatus Status { get; set; }
+    public string? Message { get; set; }
+}
@@ -10,5 +10,6 @@ public class UserReminderPreferencesDto
     public int DailyLimit { get; set; }
     public string MinimumInterval { get; set; } = string.Empty; // ISO 8601 duration format
     public bool Enabled { get; set; }
+    public bool AllowAutoExecute { get; set; }
 }
 
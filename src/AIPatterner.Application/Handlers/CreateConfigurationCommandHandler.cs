@@ -23,7 +23,7 @@ public class CreateConfigurationCommandHandler : IRequestHandler<CreateConfigura
         if (existing != null)
         {
             // Update existing
-            existing.UpdateValue(request.Value);
+            existing.UpdateValue(request.Value, request.ChangedBy);
             if (request.Description != null)
             {
                 existing.UpdateDescription(request.Description);
@@ -33,7 +33,7 @@ public class CreateConfigurationCommandHandler : IRequestHandler<CreateConfigura
         else
         {
             // Create new
-            existing = new Configuration(request.Key, request.Value, request.Category, request.Description);
+            existing = new Configuration(request.Key, request.Value, request.Category, request.Description, request.ChangedBy);
             await _repository.AddAsync(existing, cancellationToken);
         }
 
@@ -57,5 +57,6 @@ public interface IConfigurationRepository
     Task<Configuration?> GetByKeyAndCategoryAsync(string key, string category, CancellationToken cancellationToken);
     Task<List<Configuration>> GetByCategoryAsync(string? category, CancellationToken cancellationToken);
     Task UpdateAsync(Configuration configuration, CancellationToken cancellationToken);
+    Task SaveRangeAsync(IEnumerable<Configuration> added, IEnumerable<Configuration> updated, CancellationToken cancellationToken);
 }
 
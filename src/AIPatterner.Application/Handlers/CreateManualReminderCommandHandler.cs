@@ -30,7 +30,7 @@ public class CreateManualReminderCommandHandler : IRequestHandler<CreateManualRe
             : ReminderStyle.Suggest;
 
         // Manually created reminders should have confidence < 0.7 to appear in "Low Probability Reminders" list
-        var defaultConfidence = _configuration.GetValue<double>("Policy:DefaultReminderConfidence", 0.5);
+        var defaultConfidence = new ConfigurationValueReader("Policy", _configuration).GetNumber("DefaultReminderConfidence");
         // Ensure confidence is always < 0.7 for manually created reminders
         var confidence = Math.Min(defaultConfidence, 0.69);
 
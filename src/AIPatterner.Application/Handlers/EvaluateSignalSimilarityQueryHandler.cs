@@ -0,0 +1,65 @@
+// MediatR handler for explaining how an event's signals compare to a reminder's signal profile
+namespace AIPatterner.Application.Handlers;
+
+using AIPatterner.Application.DTOs;
+using AIPatterner.Application.Mappings;
+using AIPatterner.Application.Queries;
+using AIPatterner.Application.Services;
+using AIPatterner.Domain.Services;
+using AIPatterner.Domain.ValueObjects;
+using MediatR;
+
+public class EvaluateSignalSimilarityQueryHandler : IRequestHandler<EvaluateSignalSimilarityQuery, SignalSimilarityResultDto>
+{
+    private readonly ISignalSelector _signalSelector;
+    private readonly ISignalSimilarityEvaluator _similarityEvaluator;
+    private readonly ISignalPolicyService _signalPolicyService;
+
+    public EvaluateSignalSimilarityQueryHandler(
+        ISignalSelector signalSelector,
+        ISignalSimilarityEvaluator similarityEvaluator,
+        ISignalPolicyService signalPolicyService)
+    {
+        _signalSelector = signalSelector;
+        _similarityEvaluator = similarityEvaluator;
+        _signalPolicyService = signalPolicyService;
+    }
+
+    public async Task<SignalSimilarityResultDto> Handle(EvaluateSignalSimilarityQuery request, CancellationToken cancellationToken)
+    {
+        // Select and normalize exactly as MatchingRemindersService does for an ingested event
+        var selectionLimit = await _signalPolicyService.GetSignalSelectionLimitAsync(cancellationToken);
+        var signalStates = SignalStateMapping.ToSignalStates(request.SignalStates);
+        var eventProfile = _signalSelector.SelectAndNormalizeSignals(signalStates, selectionLimit);
+
+        var baseline = new SignalProfile
+        {
+            Signals = request.Baseline.Signals.ToDictionary(
+                kvp => kvp.Key,
+                kvp => new SignalProfileEntry
+                {
+                    Weight = kvp.Value.Weight,
+                    NormalizedValue = kvp.Value.NormalizedValue
+                })
+        };
+
+        return new SignalSimilarityResultDto
+        {
+            EventProfile = new SignalProfileDto
+            {
+                Signals = eventProfile.Signals.ToDictionary(
+                    kvp => kvp.Key,
+                    kvp => new SignalProfileEntryDto
+                    {
+                        Weight = kvp.Value.Weight,
+                        NormalizedValue = kvp.Value.NormalizedValue
+                    })
+            },
+            Similarity = _similarityEvaluator.CalculateSimilarity(baseline, eventProfile),
+            Threshold = await _signalPolicyService.GetSignalSimilarityThresholdAsync(cancellationToken),
+            MismatchPenalty = await _signalPolicyService.GetSignalMismatchPenaltyAsync(cancellationToken),
+            SelectionLimit = selectionLimit,
+            IsSignalSelectionEnabled = await _signalPolicyService.IsSignalSelectionEnabledAsync(cancellationToken)
+        };
+    }
+}
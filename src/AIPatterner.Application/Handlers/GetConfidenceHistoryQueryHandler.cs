@@ -0,0 +1,101 @@
+// MediatR handler for querying the confidence change log of a reminder
+namespace AIPatterner.Application.Handlers;
+
+using AIPatterner.Application.DTOs;
+using AIPatterner.Application.Queries;
+using AIPatterner.Domain.Entities;
+using MediatR;
+
+public class GetConfidenceHistoryQueryHandler : IRequestHandler<GetConfidenceHistoryQuery, ConfidenceHistoryResponse?>
+{
+    private readonly IConfidenceChangeRepository _confidenceChangeRepository;
+    private readonly IReminderCandidateRepository _reminderCandidateRepository;
+    private readonly IRoutineReminderRepository _routineReminderRepository;
+    private readonly IEventRepository _eventRepository;
+
+    public GetConfidenceHistoryQueryHandler(
+        IConfidenceChangeRepository confidenceChangeRepository,
+        IReminderCandidateRepository reminderCandidateRepository,
+        IRoutineReminderRepository routineReminderRepository,
+        IEventRepository eventRepository)
+    {
+        _confidenceChangeRepository = confidenceChangeRepository;
+        _reminderCandidateRepository = reminderCandidateRepository;
+        _routineReminderRepository = routineReminderRepository;
+        _eventRepository = eventRepository;
+    }
+
+    public async Task<ConfidenceHistoryResponse?> Handle(GetConfidenceHistoryQuery request, CancellationToken cancellationToken)
+    {
+        string personId;
+        double currentConfidence;
+        List<ConfidenceChange> changes;
+
+        if (request.ReminderCandidateId.HasValue)
+        {
+            var candidate = await _reminderCandidateRepository.GetByIdAsync(request.ReminderCandidateId.Value, cancellationToken);
+            if (candidate == null)
+            {
+                return null;
+            }
+
+            personId = candidate.PersonId;
+            currentConfidence = candidate.Confidence;
+            changes = await _confidenceChangeRepository.GetByReminderCandidateAsync(candidate.Id, cancellationToken);
+        }
+        else if (request.RoutineReminderId.HasValue)
+        {
+            var reminder = await _routineReminderRepository.GetByIdAsync(request.RoutineReminderId.Value, cancellationToken);
+            if (reminder == null || (request.RoutineId.HasValue && reminder.RoutineId != request.RoutineId.Value))
+            {
+                return null;
+            }
+
+            personId = reminder.PersonId;
+            currentConfidence = reminder.Confidence;
+            changes = await _confidenceChangeRepository.GetByRoutineReminderAsync(reminder.Id, cancellationToken);
+        }
+        else
+        {
+            throw new ArgumentException("Either ReminderCandidateId or RoutineReminderId must be set");
+        }
+
+        // Events may have been deleted since; the change keeps its id but loses the details
+        var sourceEventIds = changes
+            .Where(c => c.SourceEventId.HasValue)
+            .Select(c => c.SourceEventId!.Value)
+            .Distinct()
+            .ToList();
+        var sourceEvents = sourceEventIds.Count > 0
+            ? (await _eventRepository.GetByIdsAsync(sourceEventIds, cancellationToken)).ToDictionary(e => e.Id)
+            : new Dictionary<Guid, ActionEvent>();
+
+        return new ConfidenceHistoryResponse
+        {
+            PersonId = personId,
+            CurrentConfidence = currentConfidence,
+            Changes = changes.Select(c =>
+            {
+                var sourceEvent = c.SourceEventId.HasValue ? sourceEvents.GetValueOrDefault(c.SourceEventId.Value) : null;
+                return new ConfidenceChangeDto
+                {
+                    Id = c.Id,
+                    PreviousConfidence = c.PreviousConfidence,
+                    NewConfidence = c.NewConfidence,
+                    Source = c.Source,
+                    SourceEventId = c.SourceEventId,
+                    SourceEventActionType = sourceEvent?.ActionType,
+                    SourceEventTimestampUtc = sourceEvent?.TimestampUtc,
+                    ChangedAtUtc = c.ChangedAtUtc
+                };
+            }).ToList()
+        };
+    }
+}
+
+// Interface for the confidence change log (to be implemented in Infrastructure)
+public interface IConfidenceChangeRepository
+{
+    Task<List<ConfidenceChange>> GetByReminderCandidateAsync(Guid reminderCandidateId, CancellationToken cancellationToken);
+    Task<List<ConfidenceChange>> GetByRoutineReminderAsync(Guid routineReminderId, CancellationToken cancellationToken);
+}
@@ -0,0 +1,57 @@
+// MediatR handler comparing a category's values as of a past change with its current values
+namespace AIPatterner.Application.Handlers;
+
+using AIPatterner.Application.DTOs;
+using AIPatterner.Application.Queries;
+using MediatR;
+
+public class GetConfigurationDiffQueryHandler : IRequestHandler<GetConfigurationDiffQuery, ConfigurationDiffDto?>
+{
+    private readonly IConfigurationChangeRepository _changeRepository;
+    private readonly IConfigurationRepository _configurationRepository;
+
+    public GetConfigurationDiffQueryHandler(
+        IConfigurationChangeRepository changeRepository,
+        IConfigurationRepository configurationRepository)
+    {
+        _changeRepository = changeRepository;
+        _configurationRepository = configurationRepository;
+    }
+
+    public async Task<ConfigurationDiffDto?> Handle(GetConfigurationDiffQuery request, CancellationToken cancellationToken)
+    {
+        var change = await _changeRepository.GetByIdAsync(request.ChangeId, cancellationToken);
+        if (change == null)
+        {
+            return null;
+        }
+
+        var restoredValues = await _changeRepository.GetValuesAsOfAsync(change.Category, change.ChangedAtUtc, cancellationToken);
+        var currentValues = (await _configurationRepository.GetByCategoryAsync(change.Category, cancellationToken))
+            .ToDictionary(c => c.Key, c => c.Value);
+
+        var keys = currentValues.Keys
+            .Union(restoredValues.Keys)
+            .Where(k => request.Key == null || k == request.Key)
+            .OrderBy(k => k);
+
+        return new ConfigurationDiffDto
+        {
+            ChangeId = change.Id,
+            Category = change.Category,
+            AsOfUtc = change.ChangedAtUtc,
+            Entries = keys.Select(key =>
+            {
+                var currentValue = currentValues.GetValueOrDefault(key);
+                var restoredValue = restoredValues.GetValueOrDefault(key);
+                return new ConfigurationDiffEntryDto
+                {
+                    Key = key,
+                    CurrentValue = currentValue,
+                    RestoredValue = restoredValue,
+                    Changed = currentValue != null && restoredValue != null && currentValue != restoredValue
+                };
+            }).ToList()
+        };
+    }
+}
@@ -0,0 +1,46 @@
+// MediatR handler for getting the configuration change history
+namespace AIPatterner.Application.Handlers;
+
+using AIPatterner.Application.DTOs;
+using AIPatterner.Application.Queries;
+using AIPatterner.Domain.Entities;
+using MediatR;
+
+public class GetConfigurationHistoryQueryHandler : IRequestHandler<GetConfigurationHistoryQuery, List<ConfigurationChangeDto>>
+{
+    private readonly IConfigurationChangeRepository _repository;
+
+    public GetConfigurationHistoryQueryHandler(IConfigurationChangeRepository repository)
+    {
+        _repository = repository;
+    }
+
+    public async Task<List<ConfigurationChangeDto>> Handle(GetConfigurationHistoryQuery request, CancellationToken cancellationToken)
+    {
+        var changes = await _repository.GetRecentAsync(request.Category, request.Key, request.Limit, cancellationToken);
+
+        return changes.Select(c => new ConfigurationChangeDto
+        {
+            Id = c.Id,
+            ConfigurationId = c.ConfigurationId,
+            Category = c.Category,
+            Key = c.Key,
+            PreviousValue = c.PreviousValue,
+            NewValue = c.NewValue,
+            ChangeType = c.ChangeType,
+            RolledBackToChangeId = c.RolledBackToChangeId,
+            ChangedBy = c.ChangedBy,
+            ChangedAtUtc = c.ChangedAtUtc
+        }).ToList();
+    }
+}
+
+// Interface for the configuration change log (to be implemented in Infrastructure)
+public interface IConfigurationChangeRepository
+{
+    Task<ConfigurationChange?> GetByIdAsync(Guid id, CancellationToken cancellationToken);
+    Task<List<ConfigurationChange>> GetRecentAsync(string? category, string? key, int limit, CancellationToken cancellationToken);
+
+    // Latest value of each key in the category recorded at or before asOfUtc
+    Task<Dictionary<string, string>> GetValuesAsOfAsync(string category, DateTime asOfUtc, CancellationToken cancellationToken);
+}
@@ -0,0 +1,43 @@
+// MediatR handler for querying the configuration schema
+namespace AIPatterner.Application.Handlers;
+
+using AIPatterner.Application.DTOs;
+using AIPatterner.Application.Queries;
+using AIPatterner.Application.Services;
+using MediatR;
+using Microsoft.Extensions.Configuration;
+
+public class GetConfigurationSchemaQueryHandler : IRequestHandler<GetConfigurationSchemaQuery, List<ConfigurationKeySchemaDto>>
+{
+    private readonly IConfiguration _configuration;
+
+    public GetConfigurationSchemaQueryHandler(IConfiguration configuration)
+    {
+        _configuration = configuration;
+    }
+
+    public Task<List<ConfigurationKeySchemaDto>> Handle(GetConfigurationSchemaQuery request, CancellationToken cancellationToken)
+    {
+        // Defaults are resolved against this server's configuration, the same way the services resolve them
+        var schema = ConfigurationSchema.Definitions
+            .Select(d => new ConfigurationKeySchemaDto
+            {
+                Category = d.Category,
+                Key = d.Key,
+                Type = d.Type,
+                Min = d.Min,
+                Max = d.Max,
+                DefaultValue = ConfigurationSchema.ResolveDefault(d, _configuration),
+                Setting = d.Setting,
+                RestartRequired = d.RestartRequired,
+                Group = d.Group,
+                Section = d.Section,
+                Label = d.Label,
+                Description = d.Description,
+                Unit = d.Unit
+            })
+            .ToList();
+
+        return Task.FromResult(schema);
+    }
+}
@@ -0,0 +1,50 @@
+// MediatR handler for querying the decision traces of a reminder candidate
+namespace AIPatterner.Application.Handlers;
+
+using AIPatterner.Application.DTOs;
+using AIPatterner.Application.Queries;
+using AIPatterner.Domain.Entities;
+using AutoMapper;
+using MediatR;
+
+public class GetDecisionTracesQueryHandler : IRequestHandler<GetDecisionTracesQuery, DecisionTraceListResponse?>
+{
+    private readonly IReminderDecisionTraceRepository _traceRepository;
+    private readonly IReminderCandidateRepository _reminderCandidateRepository;
+    private readonly IMapper _mapper;
+
+    public GetDecisionTracesQueryHandler(
+        IReminderDecisionTraceRepository traceRepository,
+        IReminderCandidateRepository reminderCandidateRepository,
+        IMapper mapper)
+    {
+        _traceRepository = traceRepository;
+        _reminderCandidateRepository = reminderCandidateRepository;
+        _mapper = mapper;
+    }
+
+    public async Task<DecisionTraceListResponse?> Handle(GetDecisionTracesQuery request, CancellationToken cancellationToken)
+    {
+        var candidate = await _reminderCandidateRepository.GetByIdAsync(request.ReminderCandidateId, cancellationToken);
+        if (candidate == null)
+        {
+            return null;
+        }
+
+        var traces = await _traceRepository.GetRecentByReminderCandidateAsync(candidate.Id, request.Limit, cancellationToken);
+
+        return new DecisionTraceListResponse
+        {
+            PersonId = candidate.PersonId,
+            Traces = _mapper.Map<List<ReminderDecisionTraceDto>>(traces)
+        };
+    }
+}
+
+// Interface for persisted reminder decision traces (to be implemented in Infrastructure)
+public interface IReminderDecisionTraceRepository
+{
+    // Also deletes the candidate's older traces beyond the newest keepLatest
+    Task AddAsync(ReminderDecisionTrace trace, int keepLatest, CancellationToken cancellationToken);
+    Task<List<ReminderDecisionTrace>> GetRecentByReminderCandidateAsync(Guid reminderCandidateId, int limit, CancellationToken cancellationToken);
+}
@@ -0,0 +1,29 @@
+// MediatR handler for querying the pattern inference evidence thresholds
+namespace AIPatterner.Application.Handlers;
+
+using AIPatterner.Application.DTOs;
+using AIPatterner.Application.Queries;
+using AIPatterner.Application.Services;
+using MediatR;
+using Microsoft.Extensions.Configuration;
+
+public class GetPatternInferencePolicyQueryHandler : IRequestHandler<GetPatternInferencePolicyQuery, PatternInferencePolicyDto>
+{
+    private readonly IConfiguration _configuration;
+
+    public GetPatternInferencePolicyQueryHandler(IConfiguration configuration)
+    {
+        _configuration = configuration;
+    }
+
+    public Task<PatternInferencePolicyDto> Handle(GetPatternInferencePolicyQuery request, CancellationToken cancellationToken)
+    {
+        // Same keys and defaults as the UpdateInferredPattern callers
+        var policy = new ConfigurationValueReader("Policy", _configuration);
+        return Task.FromResult(new PatternInferencePolicyDto
+        {
+            MinDailyEvidence = policy.GetInteger("MinDailyEvidence"),
+            MinWeeklyEvidence = policy.GetInteger("MinWeeklyEvidence")
+        });
+    }
+}
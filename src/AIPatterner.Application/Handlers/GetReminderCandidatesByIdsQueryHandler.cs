@@ -0,0 +1,25 @@
+// MediatR handler for looking up several reminder candidates at once
+namespace AIPatterner.Application.Handlers;
+
+using AIPatterner.Application.DTOs;
+using AIPatterner.Application.Queries;
+using AutoMapper;
+using MediatR;
+
+public class GetReminderCandidatesByIdsQueryHandler : IRequestHandler<GetReminderCandidatesByIdsQuery, List<ReminderCandidateDto>>
+{
+    private readonly IReminderCandidateRepository _repository;
+    private readonly IMapper _mapper;
+
+    public GetReminderCandidatesByIdsQueryHandler(IReminderCandidateRepository repository, IMapper mapper)
+    {
+        _repository = repository;
+        _mapper = mapper;
+    }
+
+    public async Task<List<ReminderCandidateDto>> Handle(GetReminderCandidatesByIdsQuery request, CancellationToken cancellationToken)
+    {
+        var candidates = await _repository.GetByIdsAsync(request.Ids, cancellationToken);
+        return _mapper.Map<List<ReminderCandidateDto>>(candidates);
+    }
+}
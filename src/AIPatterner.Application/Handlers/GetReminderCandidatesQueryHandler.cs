@@ -133,6 +133,7 @@ public interface IReminderCandidateRepository
         CancellationToken cancellationToken);
 
     Task<ReminderCandidate?> GetByIdAsync(Guid id, CancellationToken cancellationToken);
+    Task<List<ReminderCandidate>> GetByIdsAsync(IReadOnlyCollection<Guid> ids, CancellationToken cancellationToken);
     Task<List<ReminderCandidate>> GetDueCandidatesAsync(DateTime now, int limit, CancellationToken cancellationToken);
     Task<List<ReminderCandidate>> GetByPersonAndActionAsync(string personId, string actionType, CancellationToken cancellationToken);
     Task<List<ReminderCandidate>> GetBySourceEventIdAsync(Guid eventId, CancellationToken cancellationToken);
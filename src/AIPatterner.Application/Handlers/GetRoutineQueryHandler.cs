@@ -29,9 +29,9 @@ public class GetRoutineQueryHandler : IRequestHandler<GetRoutineQuery, RoutineDe
 
         var reminders = await _routineReminderRepository.GetByRoutineAsync(request.RoutineId, cancellationToken);
 
-        var evidenceCounts = reminders.ToDictionary(
+        var evidence = reminders.ToDictionary(
             rr => rr.Id,
-            rr => rr.GetDelayEvidence().Count);
+            rr => rr.GetDelayEvidence());
 
         return new RoutineDetailDto
         {
@@ -73,6 +73,8 @@ public class GetRoutineQueryHandler : IRequestHandler<GetRoutineQuery, RoutineDe
                         } : null,
                         SignalProfileUpdatedAtUtc = rr.SignalProfileUpdatedAtUtc,
                         SignalProfileSamplesCount = rr.SignalProfileSamplesCount,
+                        ExecutionAction = rr.PreferredExecutionAction,
+                        IsSafeToAutoExecute = rr.IsSafeToAutoExecute,
                         DelaySampleCount = rr.DelaySampleCount,
                         EmaDelaySeconds = rr.EmaDelaySeconds,
                         EmaVarianceSeconds = rr.EmaVarianceSeconds,
@@ -80,7 +82,25 @@ public class GetRoutineQueryHandler : IRequestHandler<GetRoutineQuery, RoutineDe
                         P90DelayApproxSeconds = rr.P90DelayApproxSeconds,
                         DelayStatsLastUpdatedUtc = rr.DelayStatsLastUpdatedUtc,
                         DelayStatsLastDecayUtc = rr.DelayStatsLastDecayUtc,
-                        DelayEvidenceCount = evidenceCounts.GetValueOrDefault(rr.Id, 0),
+                        DelayEvidenceCount = evidence[rr.Id].Count,
+                        DelayHistogram = rr.GetDelayHistogramBins()
+                            .Select(b => new DelayHistogramBinDto
+                            {
+                                LowerBoundSeconds = b.LowerBoundSeconds,
+                                UpperBoundSeconds = b.UpperBoundSeconds,
+                                Weight = b.Weight,
+                                IsOverflow = b.IsOverflow
+                            }).ToList(),
+                        DelayEvidence = evidence[rr.Id]
+                            .Select(e => new DelayEvidenceItemDto
+                            {
+                                RoutineActivationTimestampUtc = e.RoutineActivationTimestampUtc,
+                                EventTimestampUtc = e.EventTimestampUtc,
+                                ObservedDelaySeconds = e.ObservedDelaySeconds,
+                                ConfidenceWeight = e.ConfidenceWeight,
+                                IsOutlier = e.IsOutlier,
+                                SourceEventId = e.SourceEventId
+                            }).ToList(),
                     };
                 }).ToList()
         };
@@ -0,0 +1,65 @@
+// MediatR handler for listing soft-deleted items of one type
+namespace AIPatterner.Application.Handlers;
+
+using AIPatterner.Application.DTOs;
+using AIPatterner.Application.Queries;
+using AIPatterner.Domain.Entities;
+using MediatR;
+using Microsoft.Extensions.Configuration;
+
+public class GetTrashQueryHandler : IRequestHandler<GetTrashQuery, TrashListResponse>
+{
+    private readonly ITrashRepository _repository;
+    private readonly IConfiguration _configuration;
+
+    public GetTrashQueryHandler(ITrashRepository repository, IConfiguration configuration)
+    {
+        _repository = repository;
+        _configuration = configuration;
+    }
+
+    public async Task<TrashListResponse> Handle(GetTrashQuery request, CancellationToken cancellationToken)
+    {
+        var retentionDays = _configuration.GetValue<int>("Trash:RetentionDays", 30);
+        var items = await _repository.GetDeletedAsync(request.Type, request.Page, request.PageSize, cancellationToken);
+        var countsByType = await _repository.GetDeletedCountsAsync(cancellationToken);
+
+        return new TrashListResponse
+        {
+            Items = items.Select(item => ToDto(item, retentionDays)).ToList(),
+            TotalCount = countsByType.GetValueOrDefault(request.Type),
+            Page = request.Page,
+            PageSize = request.PageSize,
+            RetentionDays = retentionDays,
+            CountsByType = countsByType
+        };
+    }
+
+    private static TrashItemDto ToDto(ISoftDeletable item, int retentionDays)
+    {
+        var dto = item switch
+        {
+            ActionEvent e => new TrashItemDto { Id = e.Id, Type = TrashItemType.Event, Title = e.ActionType, PersonId = e.PersonId },
+            ReminderCandidate c => new TrashItemDto { Id = c.Id, Type = TrashItemType.ReminderCandidate, Title = c.SuggestedAction, PersonId = c.PersonId },
+            ExecutionHistory h => new TrashItemDto { Id = h.Id, Type = TrashItemType.ExecutionHistory, Title = h.ActionType ?? h.Endpoint, PersonId = h.PersonId },
+            ApiKey k => new TrashItemDto { Id = k.Id, Type = TrashItemType.ApiKey, Title = $"{k.Name} ({k.KeyPrefix}…)", PersonId = k.PersonId },
+            User u => new TrashItemDto { Id = u.Id, Type = TrashItemType.User, Title = $"{u.Username} <{u.Email}>" },
+            _ => throw new ArgumentException($"Unsupported trash item {item.GetType().Name}")
+        };
+
+        dto.DeletedAtUtc = item.DeletedAtUtc!.Value;
+        dto.PurgeAtUtc = dto.DeletedAtUtc.AddDays(retentionDays);
+        return dto;
+    }
+}
+
+// Interface for reading and changing soft-deleted items (to be implemented in Infrastructure)
+public interface ITrashRepository
+{
+    Task<List<ISoftDeletable>> GetDeletedAsync(TrashItemType type, int page, int pageSize, CancellationToken cancellationToken);
+    Task<Dictionary<TrashItemType, int>> GetDeletedCountsAsync(CancellationToken cancellationToken);
+    Task<ISoftDeletable?> GetDeletedByIdAsync(TrashItemType type, Guid id, CancellationToken cancellationToken);
+    Task<bool> IsUserIdentityTakenAsync(string username, string email, CancellationToken cancellationToken);
+    Task RestoreAsync(ISoftDeletable item, CancellationToken cancellationToken);
+    Task PurgeAsync(ISoftDeletable item, CancellationToken cancellationToken);
+}
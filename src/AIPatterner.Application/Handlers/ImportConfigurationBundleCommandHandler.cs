@@ -0,0 +1,73 @@
+// MediatR handler for validating, previewing and applying an imported configuration bundle
+namespace AIPatterner.Application.Handlers;
+
+using AIPatterner.Application.Commands;
+using AIPatterner.Application.DTOs;
+using AIPatterner.Application.Services;
+using AIPatterner.Domain.Entities;
+using MediatR;
+
+public class ImportConfigurationBundleCommandHandler : IRequestHandler<ImportConfigurationBundleCommand, ConfigurationImportResponse>
+{
+    private readonly IConfigurationRepository _repository;
+
+    public ImportConfigurationBundleCommandHandler(IConfigurationRepository repository)
+    {
+        _repository = repository;
+    }
+
+    public async Task<ConfigurationImportResponse> Handle(ImportConfigurationBundleCommand request, CancellationToken cancellationToken)
+    {
+        var current = (await _repository.GetByCategoryAsync(null, cancellationToken))
+            .ToDictionary(c => (c.Category, c.Key));
+        var seen = new HashSet<(string Category, string Key)>();
+        var results = new List<ConfigurationImportResultDto>();
+
+        foreach (var entry in request.Entries)
+        {
+            var value = entry.Value ?? string.Empty;
+            current.TryGetValue((entry.Category, entry.Key), out var existing);
+            var error = ConfigurationSchema.Validate(entry.Category, entry.Key, value)
+                ?? (seen.Add((entry.Category, entry.Key)) ? null : "Listed more than once");
+
+            results.Add(new ConfigurationImportResultDto
+            {
+                Category = entry.Category,
+                Key = entry.Key,
+                CurrentValue = existing?.Value,
+                NewValue = value,
+                Status = error != null ? ConfigurationImportStatus.Invalid
+                    : existing == null ? ConfigurationImportStatus.Added
+                    : existing.Value == value ? ConfigurationImportStatus.Unchanged
+                    : ConfigurationImportStatus.Changed,
+                Error = error
+            });
+        }
+
+        if (request.DryRun || results.Any(r => r.Status == ConfigurationImportStatus.Invalid))
+        {
+            return new ConfigurationImportResponse { Applied = false, Results = results };
+        }
+
+        var added = new List<Configuration>();
+        var updated = new List<Configuration>();
+        foreach (var result in results)
+        {
+            if (result.Status == ConfigurationImportStatus.Added)
+            {
+                added.Add(new Configuration(result.Key, result.NewValue, result.Category, changedBy: request.ChangedBy));
+            }
+            else if (result.Status == ConfigurationImportStatus.Changed)
+            {
+                var configuration = current[(result.Category, result.Key)];
+                configuration.UpdateValue(result.NewValue, request.ChangedBy);
+                updated.Add(configuration);
+            }
+        }
+
+        // One save, so either the whole bundle is applied or none of it is
+        await _repository.SaveRangeAsync(added, updated, cancellationToken);
+
+        return new ConfigurationImportResponse { Applied = true, Results = results };
+    }
+}
@@ -100,42 +100,7 @@ public class IngestEventCommandHandler : IRequestHandler<IngestEventCommand, Ing
             List<AIPatterner.Domain.ValueObjects.SignalState>? signalStates = null;
             if (request.Event.SignalStates != null && request.Event.SignalStates.Count > 0)
             {
-                signalStates = new List<AIPatterner.Domain.ValueObjects.SignalState>();
-                foreach (var dto in request.Event.SignalStates)
-                {
-                    // Convert JsonElement value to object
-                    object? value = null;
-                    if (dto.Value.ValueKind == System.Text.Json.JsonValueKind.String)
-                    {
-                        value = dto.Value.GetString();
-                    }
-                    else if (dto.Value.ValueKind == System.Text.Json.JsonValueKind.Number)
-                    {
-                        if (dto.Value.TryGetDouble(out var doubleVal))
-                        {
-                            value = doubleVal;
-                        }
-                        else if (dto.Value.TryGetInt32(out var intVal))
-                        {
-                            value = intVal;
-                        }
-                    }
-                    else if (dto.Value.ValueKind == System.Text.Json.JsonValueKind.True)
-                    {
-                        value = true;
-                    }
-                    else if (dto.Value.ValueKind == System.Text.Json.JsonValueKind.False)
-                    {
-                        value = false;
-                    }
-                    
-                    signalStates.Add(new AIPatterner.Domain.ValueObjects.SignalState
-                    {
-                        SensorId = dto.SensorId,
-                        Value = value ?? string.Empty,
-                        RawImportance = dto.RawImportance
-                    });
-                }
+                signalStates = AIPatterner.Application.Mappings.SignalStateMapping.ToSignalStates(request.Event.SignalStates);
             }
             
             // CRITICAL: Check if event is within routine learning window BEFORE any processing
@@ -182,7 +147,9 @@ public class IngestEventCommandHandler : IRequestHandler<IngestEventCommand, Ing
                     // Use the values from request (which now have defaults if not provided)
                     matchingReminder.UpdateConfidence(
                         request.Event.ProbabilityValue!.Value,
-                        request.Event.ProbabilityAction!.Value);
+                        request.Event.ProbabilityAction!.Value,
+                        ConfidenceChangeSource.Event,
+                        actionEvent.Id);
                     
                     // Record new evidence for this matching event with context information
                     // This accumulates evidence across days without locking into a specific day/weekday
@@ -197,8 +164,9 @@ public class IngestEventCommandHandler : IRequestHandler<IngestEventCommand, Ing
                     
                     // Re-evaluate pattern inference based on accumulated evidence
                     // This gradually infers Daily/Weekly patterns only when there's enough evidence
-                    var minDailyEvidence = _configuration.GetValue<int>("Policy:MinDailyEvidence", 3);
-                    var minWeeklyEvidence = _configuration.GetValue<int>("Policy:MinWeeklyEvidence", 3);
+                    var policy = new ConfigurationValueReader("Policy", _configuration);
+                    var minDailyEvidence = policy.GetInteger("MinDailyEvidence");
+                    var minWeeklyEvidence = policy.GetInteger("MinWeeklyEvidence");
                     matchingReminder.UpdateInferredPattern(minDailyEvidence, minWeeklyEvidence);
                     
                     // Update CustomData if provided
@@ -272,7 +240,9 @@ public class IngestEventCommandHandler : IRequestHandler<IngestEventCommand, Ing
                         // Update existing reminder instead of creating duplicate
                         existingReminder.UpdateConfidence(
                             request.Event.ProbabilityValue!.Value,
-                            request.Event.ProbabilityAction!.Value);
+                            request.Event.ProbabilityAction!.Value,
+                            ConfidenceChangeSource.Event,
+                            actionEvent.Id);
                         
                         // Record new evidence with context
                         existingReminder.RecordEvidence(
@@ -295,8 +265,9 @@ public class IngestEventCommandHandler : IRequestHandler<IngestEventCommand, Ing
                         }
                         
                         // Re-evaluate pattern inference
-                        var minDailyEvidence = _configuration.GetValue<int>("Policy:MinDailyEvidence", 3);
-                        var minWeeklyEvidence = _configuration.GetValue<int>("Policy:MinWeeklyEvidence", 3);
+                        var policy = new ConfigurationValueReader("Policy", _configuration);
+                        var minDailyEvidence = policy.GetInteger("MinDailyEvidence");
+                        var minWeeklyEvidence = policy.GetInteger("MinWeeklyEvidence");
                         existingReminder.UpdateInferredPattern(minDailyEvidence, minWeeklyEvidence);
                         
                         // Update signal profile baseline if signal selection is enabled and event has signals
@@ -317,7 +288,7 @@ public class IngestEventCommandHandler : IRequestHandler<IngestEventCommand, Ing
                     else
                     {
                         // No existing reminder - create new one as a hypothesis
-                        var defaultConfidence = _configuration.GetValue<double>("Policy:DefaultReminderConfidence", 0.25);
+                        var defaultConfidence = new ConfigurationValueReader("Policy", _configuration).GetNumber("DefaultReminderConfidence");
                         
                         // CheckAtUtc must be identical to Event TimestampUtc (for scheduling)
                         var checkAtUtc = actionEvent.TimestampUtc;
@@ -343,8 +314,9 @@ public class IngestEventCommandHandler : IRequestHandler<IngestEventCommand, Ing
                             actionEvent.Context.DayType);
                         
                         // The pattern inference is run to set initial status
-                        var minDailyEvidence = _configuration.GetValue<int>("Policy:MinDailyEvidence", 3);
-                        var minWeeklyEvidence = _configuration.GetValue<int>("Policy:MinWeeklyEvidence", 3);
+                        var policy = new ConfigurationValueReader("Policy", _configuration);
+                        var minDailyEvidence = policy.GetInteger("MinDailyEvidence");
+                        var minWeeklyEvidence = policy.GetInteger("MinWeeklyEvidence");
                         newReminder.UpdateInferredPattern(minDailyEvidence, minWeeklyEvidence);
                         
                         // Initialize signal profile baseline if signal selection is enabled and event has signals
@@ -429,6 +401,7 @@ public interface IEventRepository
     Task UpdateAsync(ActionEvent actionEvent, CancellationToken cancellationToken);
     Task<ActionEvent?> GetLastEventForPersonAsync(string personId, DateTime beforeUtc, CancellationToken cancellationToken);
     Task<ActionEvent?> GetByIdAsync(Guid id, CancellationToken cancellationToken);
+    Task<List<ActionEvent>> GetByIdsAsync(IReadOnlyCollection<Guid> ids, CancellationToken cancellationToken);
     Task DeleteAsync(ActionEvent actionEvent, CancellationToken cancellationToken);
     Task<List<ActionEvent>> GetFilteredAsync(
         string? personId,
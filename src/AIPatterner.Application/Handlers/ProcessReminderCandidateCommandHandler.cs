@@ -2,8 +2,10 @@
 namespace AIPatterner.Application.Handlers;
 
 using AIPatterner.Application.Commands;
+using AIPatterner.Application.DTOs;
 using AIPatterner.Application.Services;
 using AIPatterner.Domain.Entities;
+using AutoMapper;
 using MediatR;
 using Microsoft.Extensions.Configuration;
 
@@ -16,6 +18,8 @@ public class ProcessReminderCandidateCommandHandler : IRequestHandler<ProcessRem
     private readonly IExecutionHistoryService _executionHistoryService;
     private readonly IConfiguration _configuration;
     private readonly IOccurrencePatternParser _patternParser;
+    private readonly IReminderDecisionTraceRepository _traceRepository;
+    private readonly IMapper _mapper;
 
     public ProcessReminderCandidateCommandHandler(
         IReminderCandidateRepository candidateRepository,
@@ -24,7 +28,9 @@ public class ProcessReminderCandidateCommandHandler : IRequestHandler<ProcessRem
         IMemoryGateway memoryGateway,
         IExecutionHistoryService executionHistoryService,
         IConfiguration configuration,
-        IOccurrencePatternParser patternParser)
+        IOccurrencePatternParser patternParser,
+        IReminderDecisionTraceRepository traceRepository,
+        IMapper mapper)
     {
         _candidateRepository = candidateRepository;
         _evaluationService = evaluationService;
@@ -33,6 +39,8 @@ public class ProcessReminderCandidateCommandHandler : IRequestHandler<ProcessRem
         _executionHistoryService = executionHistoryService;
         _configuration = configuration;
         _patternParser = patternParser;
+        _traceRepository = traceRepository;
+        _mapper = mapper;
     }
 
     public async Task<ProcessReminderCandidateResponse> Handle(ProcessReminderCandidateCommand request, CancellationToken cancellationToken)
@@ -43,17 +51,34 @@ public class ProcessReminderCandidateCommandHandler : IRequestHandler<ProcessRem
             throw new InvalidOperationException($"ReminderCandidate {request.CandidateId} not found");
         }
 
-        if (!request.BypassDateCheck && !candidate.IsDue(DateTime.UtcNow))
+        var trace = new DecisionTrace();
+
+        if (request.BypassDateCheck)
         {
-            return new ProcessReminderCandidateResponse
-            {
-                Executed = false,
-                ShouldSpeak = false,
-                Reason = "Candidate is not yet due"
-            };
+            trace.Skipped(DecisionGate.DueTime, "Execute now ignores the scheduled time");
+        }
+        else if (!candidate.IsDue(DateTime.UtcNow))
+        {
+            trace.Failed(DecisionGate.DueTime, $"Scheduled for {candidate.CheckAtUtc:yyyy-MM-dd HH:mm} UTC");
+            return await RecordTraceAsync(
+                candidate,
+                trace,
+                ReminderCheckOutcome.Deferred,
+                request,
+                new ProcessReminderCandidateResponse
+                {
+                    Executed = false,
+                    ShouldSpeak = false,
+                    Reason = "Candidate is not yet due"
+                },
+                cancellationToken);
+        }
+        else
+        {
+            trace.Passed(DecisionGate.DueTime, $"Due since {candidate.CheckAtUtc:yyyy-MM-dd HH:mm} UTC");
         }
 
-        var minProbabilityForExecution = _configuration.GetValue<double>("Policy:MinimumProbabilityForExecution", 0.7);
+        var minProbabilityForExecution = new ConfigurationValueReader("Policy", _configuration).GetNumber("MinimumProbabilityForExecution");
         var isRoutineCandidate =
             candidate.CustomData != null &&
             candidate.CustomData.TryGetValue("source", out var source) &&
@@ -63,23 +88,54 @@ public class ProcessReminderCandidateCommandHandler : IRequestHandler<ProcessRem
         // - General reminders: preserve existing behavior (high confidence auto-exec).
         // - Routine reminders: only allow auto-exec when explicitly marked safe.
         // Routine candidates may still be evaluated for Ask/Suggest even with low confidence.
+        // - A user-chosen Suggest/Ask action always disables auto-execution.
         var shouldAutoExecute =
             candidate.Confidence >= minProbabilityForExecution &&
-            (!isRoutineCandidate || candidate.IsSafeToAutoExecute);
+            (!isRoutineCandidate || candidate.IsSafeToAutoExecute) &&
+            (candidate.PreferredExecutionAction is null or ExecutionAction.Execute);
 
         // Non-routine, low probability reminders should not execute automatically.
         // They can still be executed manually via "Execute now" (BypassDateCheck = true).
-        if (!isRoutineCandidate && !request.BypassDateCheck && candidate.Confidence < minProbabilityForExecution)
+        if (isRoutineCandidate)
         {
-            return new ProcessReminderCandidateResponse
-            {
-                Executed = false,
-                ShouldSpeak = false,
-                Reason = $"Low probability reminder (confidence: {candidate.Confidence:P0} < threshold: {minProbabilityForExecution:P0})."
-            };
+            trace.Skipped(
+                DecisionGate.MinimumProbability,
+                "Routine reminders may ask or suggest below the threshold",
+                candidate.Confidence,
+                minProbabilityForExecution);
+        }
+        else if (candidate.Confidence >= minProbabilityForExecution)
+        {
+            trace.Passed(DecisionGate.MinimumProbability, "Confidence meets the threshold", candidate.Confidence, minProbabilityForExecution);
+        }
+        else if (request.BypassDateCheck)
+        {
+            trace.Skipped(
+                DecisionGate.MinimumProbability,
+                "Execute now ignores the probability threshold",
+                candidate.Confidence,
+                minProbabilityForExecution);
+        }
+        else
+        {
+            trace.Failed(DecisionGate.MinimumProbability, "Confidence is below the threshold", candidate.Confidence, minProbabilityForExecution);
+            return await RecordTraceAsync(
+                candidate,
+                trace,
+                ReminderCheckOutcome.Deferred,
+                request,
+                new ProcessReminderCandidateResponse
+                {
+                    Executed = false,
+                    ShouldSpeak = false,
+                    Reason = $"Low probability reminder (confidence: {candidate.Confidence:P0} < threshold: {minProbabilityForExecution:P0})."
+                },
+                cancellationToken);
         }
 
-        var decision = await _evaluationService.EvaluateAsync(candidate, cancellationToken);
+        TraceExecutionAction(trace, candidate, shouldAutoExecute, isRoutineCandidate, minProbabilityForExecution);
+
+        var decision = await _evaluationService.EvaluateAsync(candidate, trace, cancellationToken);
 
         // Auto-execute if high confidence, otherwise use decision
         var shouldExecute = shouldAutoExecute || decision.ShouldSpeak;
@@ -157,13 +213,19 @@ public class ProcessReminderCandidateCommandHandler : IRequestHandler<ProcessRem
             var summary = await _evaluationService.GenerateMemorySummaryAsync(candidate, decision, cancellationToken);
             await _memoryGateway.PushSummaryAsync(summary, cancellationToken);
 
-            return new ProcessReminderCandidateResponse
-            {
-                Executed = true,
-                ShouldSpeak = decision.ShouldSpeak,
-                NaturalLanguagePhrase = decision.NaturalLanguagePhrase,
-                Reason = shouldAutoExecute ? $"Auto-executed (confidence: {candidate.Confidence:P0})" : decision.Reason
-            };
+            return await RecordTraceAsync(
+                candidate,
+                trace,
+                ReminderCheckOutcome.Executed,
+                request,
+                new ProcessReminderCandidateResponse
+                {
+                    Executed = true,
+                    ShouldSpeak = decision.ShouldSpeak,
+                    NaturalLanguagePhrase = decision.NaturalLanguagePhrase,
+                    Reason = shouldAutoExecute ? $"Auto-executed (confidence: {candidate.Confidence:P0})" : decision.Reason
+                },
+                cancellationToken);
         }
         else
         {
@@ -198,20 +260,83 @@ public class ProcessReminderCandidateCommandHandler : IRequestHandler<ProcessRem
                 null,
                 cancellationToken);
 
-            return new ProcessReminderCandidateResponse
-            {
-                Executed = true,
-                ShouldSpeak = false,
-                Reason = decision.Reason
-            };
+            return await RecordTraceAsync(
+                candidate,
+                trace,
+                ReminderCheckOutcome.Skipped,
+                request,
+                new ProcessReminderCandidateResponse
+                {
+                    Executed = true,
+                    ShouldSpeak = false,
+                    Reason = decision.Reason
+                },
+                cancellationToken);
+        }
+    }
+
+    private static void TraceExecutionAction(
+        DecisionTrace trace,
+        ReminderCandidate candidate,
+        bool shouldAutoExecute,
+        bool isRoutineCandidate,
+        double minProbabilityForExecution)
+    {
+        if (shouldAutoExecute)
+        {
+            trace.Passed(
+                DecisionGate.ExecutionAction,
+                "Runs automatically; the gates below only decide whether to speak",
+                candidate.Confidence,
+                minProbabilityForExecution);
+            return;
         }
+
+        var reason =
+            candidate.PreferredExecutionAction is ExecutionAction.Ask or ExecutionAction.Suggest
+                ? $"The reminder is set to {candidate.PreferredExecutionAction}"
+                : isRoutineCandidate && !candidate.IsSafeToAutoExecute
+                    ? "Routine reminder is not marked safe to auto-execute"
+                    : "Confidence is below the auto-execute threshold";
+        trace.Skipped(
+            DecisionGate.ExecutionAction,
+            $"Not auto-executed: {reason}; the gates below decide",
+            candidate.Confidence,
+            minProbabilityForExecution);
+    }
+
+    private async Task<ProcessReminderCandidateResponse> RecordTraceAsync(
+        ReminderCandidate candidate,
+        DecisionTrace trace,
+        ReminderCheckOutcome outcome,
+        ProcessReminderCandidateCommand request,
+        ProcessReminderCandidateResponse response,
+        CancellationToken cancellationToken)
+    {
+        var decisionTrace = new ReminderDecisionTrace(
+            candidate,
+            trace,
+            outcome,
+            response.ShouldSpeak,
+            response.Reason,
+            request.BypassDateCheck);
+        await _traceRepository.AddAsync(
+            decisionTrace,
+            _configuration.GetValue<int>("DecisionTrace:MaxPerReminder", 50),
+            cancellationToken);
+
+        response.Outcome = outcome;
+        response.TraceId = decisionTrace.Id;
+        response.Trace = _mapper.Map<List<DecisionTraceStepDto>>(trace.Steps);
+        return response;
     }
 }
 
 // Interfaces to be implemented in Infrastructure
 public interface IReminderEvaluationService
 {
-    Task<ReminderDecision> EvaluateAsync(ReminderCandidate candidate, CancellationToken cancellationToken);
+    // Records each gate it checks on the trace, stopping at the first that fails
+    Task<ReminderDecision> EvaluateAsync(ReminderCandidate candidate, DecisionTrace trace, CancellationToken cancellationToken);
     Task<string> GenerateMemorySummaryAsync(ReminderCandidate candidate, ReminderDecision decision, CancellationToken cancellationToken);
 }
 
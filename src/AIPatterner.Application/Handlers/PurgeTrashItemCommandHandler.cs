@@ -0,0 +1,27 @@
+// MediatR handler for permanently removing an item from the trash
+namespace AIPatterner.Application.Handlers;
+
+using AIPatterner.Application.Commands;
+using MediatR;
+
+public class PurgeTrashItemCommandHandler : IRequestHandler<PurgeTrashItemCommand, bool>
+{
+    private readonly ITrashRepository _repository;
+
+    public PurgeTrashItemCommandHandler(ITrashRepository repository)
+    {
+        _repository = repository;
+    }
+
+    public async Task<bool> Handle(PurgeTrashItemCommand request, CancellationToken cancellationToken)
+    {
+        var item = await _repository.GetDeletedByIdAsync(request.Type, request.Id, cancellationToken);
+
+        if (item == null)
+            return false;
+
+        await _repository.PurgeAsync(item, cancellationToken);
+
+        return true;
+    }
+}
@@ -0,0 +1,39 @@
+// MediatR handler for restoring an item from the trash
+namespace AIPatterner.Application.Handlers;
+
+using AIPatterner.Application.Commands;
+using AIPatterner.Application.DTOs;
+using AIPatterner.Domain.Entities;
+using MediatR;
+
+public class RestoreTrashItemCommandHandler : IRequestHandler<RestoreTrashItemCommand, RestoreTrashItemResult>
+{
+    private readonly ITrashRepository _repository;
+
+    public RestoreTrashItemCommandHandler(ITrashRepository repository)
+    {
+        _repository = repository;
+    }
+
+    public async Task<RestoreTrashItemResult> Handle(RestoreTrashItemCommand request, CancellationToken cancellationToken)
+    {
+        var item = await _repository.GetDeletedByIdAsync(request.Type, request.Id, cancellationToken);
+        if (item == null)
+        {
+            return new RestoreTrashItemResult { Status = TrashRestoreStatus.NotFound };
+        }
+
+        // Usernames and emails are only unique among live users, so someone may have taken them meanwhile
+        if (item is User user && await _repository.IsUserIdentityTakenAsync(user.Username, user.Email, cancellationToken))
+        {
+            return new RestoreTrashItemResult
+            {
+                Status = TrashRestoreStatus.Conflict,
+                Message = $"Another user already has the username '{user.Username}' or email '{user.Email}'"
+            };
+        }
+
+        await _repository.RestoreAsync(item, cancellationToken);
+        return new RestoreTrashItemResult { Status = TrashRestoreStatus.Restored };
+    }
+}
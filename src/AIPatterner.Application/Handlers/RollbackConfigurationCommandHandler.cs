@@ -0,0 +1,63 @@
+// MediatR handler for restoring a category's values as they were right after a past change
+namespace AIPatterner.Application.Handlers;
+
+using AIPatterner.Application.Commands;
+using AIPatterner.Application.DTOs;
+using AIPatterner.Domain.Entities;
+using MediatR;
+
+public class RollbackConfigurationCommandHandler : IRequestHandler<RollbackConfigurationCommand, ConfigurationRollbackResponse>
+{
+    private readonly IConfigurationChangeRepository _changeRepository;
+    private readonly IConfigurationRepository _configurationRepository;
+
+    public RollbackConfigurationCommandHandler(
+        IConfigurationChangeRepository changeRepository,
+        IConfigurationRepository configurationRepository)
+    {
+        _changeRepository = changeRepository;
+        _configurationRepository = configurationRepository;
+    }
+
+    public async Task<ConfigurationRollbackResponse> Handle(RollbackConfigurationCommand request, CancellationToken cancellationToken)
+    {
+        var target = await _changeRepository.GetByIdAsync(request.ChangeId, cancellationToken);
+        if (target == null)
+        {
+            throw new InvalidOperationException($"Configuration change {request.ChangeId} not found");
+        }
+
+        var restoredValues = await _changeRepository.GetValuesAsOfAsync(target.Category, target.ChangedAtUtc, cancellationToken);
+        var configurations = await _configurationRepository.GetByCategoryAsync(target.Category, cancellationToken);
+
+        // Keys created after the target change had no value then, so they keep their current one
+        var restored = configurations
+            .Where(c => request.Key == null || c.Key == request.Key)
+            .Where(c => restoredValues.TryGetValue(c.Key, out var value) && value != c.Value)
+            .ToList();
+
+        foreach (var configuration in restored)
+        {
+            configuration.RollBackTo(target, restoredValues[configuration.Key], request.ChangedBy);
+        }
+
+        // One save, so either every value is restored or none is
+        await _configurationRepository.SaveRangeAsync(Array.Empty<Configuration>(), restored, cancellationToken);
+
+        return new ConfigurationRollbackResponse
+        {
+            RolledBackToChangeId = target.Id,
+            Category = target.Category,
+            Restored = restored.Select(c => new ConfigurationDto
+            {
+                Id = c.Id,
+                Key = c.Key,
+                Value = c.Value,
+                Category = c.Category,
+                Description = c.Description,
+                CreatedAtUtc = c.CreatedAtUtc,
+                UpdatedAtUtc = c.UpdatedAtUtc
+            }).ToList()
+        };
+    }
+}
@@ -41,6 +41,10 @@ public class SetExecutionActionCommandHandler : IRequestHandler<SetExecutionActi
         // Note: PersonId access validation is done in the controller
         // This handler assumes the controller has already validated access
 
+        // Persist the chosen action (Execute also marks the reminder safe to auto-execute)
+        reminder.SetPreferredExecutionAction(request.ExecutionAction);
+        await _reminderRepository.UpdateAsync(reminder, cancellationToken);
+
         // If Execute action is requested, process the reminder
         if (request.ExecutionAction == ExecutionAction.Execute)
         {
@@ -0,0 +1,77 @@
+// MediatR handler for setting execution action on a routine reminder
+namespace AIPatterner.Application.Handlers;
+
+using AIPatterner.Application.Commands;
+using MediatR;
+
+public class SetRoutineReminderExecutionActionCommandHandler : IRequestHandler<SetRoutineReminderExecutionActionCommand, SetExecutionActionResponse>
+{
+    private readonly IRoutineReminderRepository _routineReminderRepository;
+    private readonly IExecutionHistoryService _executionHistoryService;
+
+    public SetRoutineReminderExecutionActionCommandHandler(
+        IRoutineReminderRepository routineReminderRepository,
+        IExecutionHistoryService executionHistoryService)
+    {
+        _routineReminderRepository = routineReminderRepository;
+        _executionHistoryService = executionHistoryService;
+    }
+
+    public async Task<SetExecutionActionResponse> Handle(SetRoutineReminderExecutionActionCommand request, CancellationToken cancellationToken)
+    {
+        var reminder = await _routineReminderRepository.GetByIdAsync(request.RoutineReminderId, cancellationToken);
+        if (reminder == null || reminder.RoutineId != request.RoutineId)
+        {
+            return new SetExecutionActionResponse
+            {
+                Success = false,
+                Message = "Routine reminder not found"
+            };
+        }
+
+        // Note: PersonId access validation is done in the controller
+
+        // Routine reminders are not executed directly; the choice applies to the
+        // reminder candidates created from them when the routine is activated
+        reminder.SetPreferredExecutionAction(request.ExecutionAction);
+        await _routineReminderRepository.UpdateAsync(reminder, cancellationToken);
+
+        // Record audit event
+        var requestPayload = System.Text.Json.JsonSerializer.Serialize(new
+        {
+            routineId = reminder.RoutineId,
+            routineReminderId = reminder.Id,
+            personId = reminder.PersonId,
+            suggestedAction = reminder.SuggestedAction,
+            confidence = reminder.Confidence,
+            executionAction = request.ExecutionAction.ToString(),
+            manualOverride = true
+        });
+
+        var responsePayload = System.Text.Json.JsonSerializer.Serialize(new
+        {
+            success = true,
+            executionAction = request.ExecutionAction.ToString(),
+            isSafeToAutoExecute = reminder.IsSafeToAutoExecute,
+            manualOverride = true
+        });
+
+        await _executionHistoryService.RecordExecutionAsync(
+            $"/api/v1/routines/{reminder.RoutineId}/reminders/{reminder.Id}/execution",
+            requestPayload,
+            responsePayload,
+            DateTime.UtcNow,
+            reminder.PersonId,
+            null,
+            reminder.SuggestedAction,
+            null,
+            null,
+            cancellationToken);
+
+        return new SetExecutionActionResponse
+        {
+            Success = true,
+            Message = $"Execution action set to {request.ExecutionAction}"
+        };
+    }
+}
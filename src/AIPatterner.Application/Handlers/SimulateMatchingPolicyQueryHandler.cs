@@ -0,0 +1,37 @@
+// MediatR handler for replaying past events under a proposed matching policy
+namespace AIPatterner.Application.Handlers;
+
+using AIPatterner.Application.DTOs;
+using AIPatterner.Application.Queries;
+using AIPatterner.Application.Services;
+using MediatR;
+
+public class SimulateMatchingPolicyQueryHandler : IRequestHandler<SimulateMatchingPolicyQuery, MatchingPolicySimulationResponse>
+{
+    // Keeps a replay (two matching passes per event) well inside the request timeout
+    private const int MaxEvents = 500;
+
+    private readonly IMatchingRemindersService _matchingService;
+    private readonly IMatchingPolicyService _matchingPolicyService;
+
+    public SimulateMatchingPolicyQueryHandler(
+        IMatchingRemindersService matchingService,
+        IMatchingPolicyService matchingPolicyService)
+    {
+        _matchingService = matchingService;
+        _matchingPolicyService = matchingPolicyService;
+    }
+
+    public async Task<MatchingPolicySimulationResponse> Handle(SimulateMatchingPolicyQuery request, CancellationToken cancellationToken)
+    {
+        var current = await _matchingPolicyService.GetMatchingCriteriaAsync(cancellationToken);
+
+        return await _matchingService.SimulateAsync(
+            request.PersonId,
+            DateTime.UtcNow.AddDays(-request.Days),
+            current,
+            request.Criteria,
+            MaxEvents,
+            cancellationToken);
+    }
+}
@@ -7,6 +7,10 @@ using MediatR;
 
 public class SubmitFeedbackCommandHandler : IRequestHandler<SubmitFeedbackCommand, Unit>
 {
+    // Candidate confidence steps applied per feedback type (mirrored by the UI for optimistic updates)
+    public const double PositiveFeedbackConfidenceStep = 0.1;
+    public const double NegativeFeedbackConfidenceStep = 0.2;
+
     private readonly IReminderCandidateRepository _candidateRepository;
     private readonly ITransitionRepository _transitionRepository;
     private readonly ICooldownService _cooldownService;
@@ -47,6 +51,9 @@ public class SubmitFeedbackCommandHandler : IRequestHandler<SubmitFeedbackComman
                 TimeSpan.FromHours(24),
                 "User declined reminder",
                 cancellationToken);
+
+            candidate.DecreaseConfidence(NegativeFeedbackConfidenceStep, ConfidenceChangeSource.Feedback);
+            await _candidateRepository.UpdateAsync(candidate, cancellationToken);
         }
         else if (request.Feedback.FeedbackType == "yes")
         {
@@ -60,6 +67,9 @@ public class SubmitFeedbackCommandHandler : IRequestHandler<SubmitFeedbackComman
                     await _transitionRepository.UpdateAsync(transition, cancellationToken);
                 }
             }
+
+            candidate.IncreaseConfidence(PositiveFeedbackConfidenceStep, ConfidenceChangeSource.Feedback);
+            await _candidateRepository.UpdateAsync(candidate, cancellationToken);
         }
 
         return Unit.Value;
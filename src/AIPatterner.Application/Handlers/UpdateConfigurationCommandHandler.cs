@@ -23,7 +23,7 @@ public class UpdateConfigurationCommandHandler : IRequestHandler<UpdateConfigura
             throw new InvalidOperationException($"Configuration with key '{request.Key}' and category '{request.Category}' not found");
         }
 
-        config.UpdateValue(request.Value);
+        config.UpdateValue(request.Value, request.ChangedBy);
         if (request.Description != null)
         {
             config.UpdateDescription(request.Description);
@@ -0,0 +1,28 @@
+// MediatR handler for changing how a reminder is delivered
+namespace AIPatterner.Application.Handlers;
+
+using AIPatterner.Application.Commands;
+using MediatR;
+
+public class UpdateReminderStyleCommandHandler : IRequestHandler<UpdateReminderStyleCommand, bool>
+{
+    private readonly IReminderCandidateRepository _repository;
+
+    public UpdateReminderStyleCommandHandler(IReminderCandidateRepository repository)
+    {
+        _repository = repository;
+    }
+
+    public async Task<bool> Handle(UpdateReminderStyleCommand request, CancellationToken cancellationToken)
+    {
+        var candidate = await _repository.GetByIdAsync(request.ReminderCandidateId, cancellationToken);
+        if (candidate == null)
+        {
+            return false;
+        }
+
+        candidate.SetStyle(request.Style);
+        await _repository.UpdateAsync(candidate, cancellationToken);
+        return true;
+    }
+}
@@ -25,6 +25,7 @@ public class UpdateUserPreferencesCommandHandler : IRequestHandler<UpdateUserPre
                 request.DefaultStyle ?? ReminderStyle.Ask,
                 request.DailyLimit ?? 10,
                 request.MinimumInterval);
+            preferences.Update(enabled: request.Enabled, allowAutoExecute: request.AllowAutoExecute);
             await _repository.AddAsync(preferences, cancellationToken);
         }
         else
@@ -33,7 +34,8 @@ public class UpdateUserPreferencesCommandHandler : IRequestHandler<UpdateUserPre
                 request.DefaultStyle,
                 request.DailyLimit,
                 request.MinimumInterval,
-                request.Enabled);
+                request.Enabled,
+                request.AllowAutoExecute);
             await _repository.UpdateAsync(preferences, cancellationToken);
         }
 
@@ -49,7 +49,18 @@ public class MappingProfile : Profile
                         })
                 } : null))
             .ForMember(dest => dest.SignalProfileUpdatedAtUtc, opt => opt.MapFrom(src => src.SignalProfileUpdatedAtUtc))
-            .ForMember(dest => dest.SignalProfileSamplesCount, opt => opt.MapFrom(src => src.SignalProfileSamplesCount));
+            .ForMember(dest => dest.SignalProfileSamplesCount, opt => opt.MapFrom(src => src.SignalProfileSamplesCount))
+            .ForMember(dest => dest.ExecutionAction, opt => opt.MapFrom(src => src.PreferredExecutionAction))
+            .ForMember(dest => dest.ObservedDayOfWeekHistogram, opt => opt.MapFrom(src => src.GetDayOfWeekHistogram()))
+            .ForMember(dest => dest.ObservedTimeBucketHistogram, opt => opt.MapFrom(src => src.GetTimeBucketHistogram()))
+            .ForMember(dest => dest.ObservedDayTypeHistogram, opt => opt.MapFrom(src => src.GetDayTypeHistogram()))
+            .ForMember(dest => dest.PatternEvidence, opt => opt.MapFrom(src => src.GetPatternEvidence()));
+
+        CreateMap<PatternEvidenceSummary, PatternEvidenceDto>();
+
+        CreateMap<DecisionTraceStep, DecisionTraceStepDto>();
+        CreateMap<ReminderDecisionTrace, ReminderDecisionTraceDto>()
+            .ForMember(dest => dest.Steps, opt => opt.MapFrom(src => src.GetSteps()));
 
         CreateMap<ActionEvent, ActionEventListDto>()
             .ForMember(dest => dest.Context, opt => opt.MapFrom(src => new ActionContextDto
@@ -84,7 +95,13 @@ public class MappingProfile : Profile
                         })
                 } : null))
             .ForMember(dest => dest.SignalProfileUpdatedAtUtc, opt => opt.MapFrom(src => src.SignalProfileUpdatedAtUtc))
-            .ForMember(dest => dest.SignalProfileSamplesCount, opt => opt.MapFrom(src => src.SignalProfileSamplesCount));
+            .ForMember(dest => dest.SignalProfileSamplesCount, opt => opt.MapFrom(src => src.SignalProfileSamplesCount))
+            .ForMember(dest => dest.ExecutionAction, opt => opt.MapFrom(src => src.PreferredExecutionAction))
+            .ForMember(dest => dest.DelayEvidenceCount, opt => opt.MapFrom(src => src.GetDelayEvidence().Count))
+            .ForMember(dest => dest.DelayHistogram, opt => opt.MapFrom(src => src.GetDelayHistogramBins()));
+
+        CreateMap<RoutineDelayHistogramBin, DelayHistogramBinDto>();
+        CreateMap<RoutineDelayEvidenceItem, DelayEvidenceItemDto>();
     }
 
     private static string GetConfidenceLabel(double confidence)
@@ -0,0 +1,54 @@
+// Conversion from incoming signal state DTOs to domain signal states
+namespace AIPatterner.Application.Mappings;
+
+using System.Text.Json;
+using AIPatterner.Application.DTOs;
+using AIPatterner.Domain.ValueObjects;
+
+public static class SignalStateMapping
+{
+    /// <summary>
+    /// Converts signal state DTOs to domain signal states, unwrapping JSON values into string, number or boolean.
+    /// </summary>
+    public static List<SignalState> ToSignalStates(IEnumerable<SignalStateDto> dtos)
+    {
+        var signalStates = new List<SignalState>();
+        foreach (var dto in dtos)
+        {
+            // Convert JsonElement value to object
+            object? value = null;
+            if (dto.Value.ValueKind == JsonValueKind.String)
+            {
+                value = dto.Value.GetString();
+            }
+            else if (dto.Value.ValueKind == JsonValueKind.Number)
+            {
+                if (dto.Value.TryGetDouble(out var doubleVal))
+                {
+                    value = doubleVal;
+                }
+                else if (dto.Value.TryGetInt32(out var intVal))
+                {
+                    value = intVal;
+                }
+            }
+            else if (dto.Value.ValueKind == JsonValueKind.True)
+            {
+                value = true;
+            }
+            else if (dto.Value.ValueKind == JsonValueKind.False)
+            {
+                value = false;
+            }
+
+            signalStates.Add(new SignalState
+            {
+                SensorId = dto.SensorId,
+                Value = value ?? string.Empty,
+                RawImportance = dto.RawImportance
+            });
+        }
+
+        return signalStates;
+    }
+}
@@ -0,0 +1,11 @@
+// MediatR query for explaining how an event's signals compare to a reminder's signal profile
+namespace AIPatterner.Application.Queries;
+
+using AIPatterner.Application.DTOs;
+using MediatR;
+
+public class EvaluateSignalSimilarityQuery : IRequest<SignalSimilarityResultDto>
+{
+    public SignalProfileDto Baseline { get; set; } = new();
+    public List<SignalStateDto> SignalStates { get; set; } = new();
+}
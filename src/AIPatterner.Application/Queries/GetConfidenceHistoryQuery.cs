@@ -0,0 +1,13 @@
+// MediatR query for the confidence change log of a reminder candidate or routine reminder
+namespace AIPatterner.Application.Queries;
+
+using AIPatterner.Application.DTOs;
+using MediatR;
+
+public class GetConfidenceHistoryQuery : IRequest<ConfidenceHistoryResponse?>
+{
+    // Set exactly one of ReminderCandidateId and RoutineReminderId
+    public Guid? ReminderCandidateId { get; set; }
+    public Guid? RoutineReminderId { get; set; }
+    public Guid? RoutineId { get; set; } // When set, the routine reminder must belong to it
+}
@@ -0,0 +1,11 @@
+// MediatR query comparing a category's values as of a past change with its current values
+namespace AIPatterner.Application.Queries;
+
+using AIPatterner.Application.DTOs;
+using MediatR;
+
+public class GetConfigurationDiffQuery : IRequest<ConfigurationDiffDto?>
+{
+    public Guid ChangeId { get; set; }
+    public string? Key { get; set; } // Only compare this key instead of the whole category
+}
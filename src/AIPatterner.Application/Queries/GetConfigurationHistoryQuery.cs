@@ -0,0 +1,12 @@
+// MediatR query for the change history of configurations
+namespace AIPatterner.Application.Queries;
+
+using AIPatterner.Application.DTOs;
+using MediatR;
+
+public class GetConfigurationHistoryQuery : IRequest<List<ConfigurationChangeDto>>
+{
+    public string? Category { get; set; }
+    public string? Key { get; set; }
+    public int Limit { get; set; } = 100;
+}
@@ -0,0 +1,9 @@
+// MediatR query for the known configuration keys and the defaults the services use
+namespace AIPatterner.Application.Queries;
+
+using AIPatterner.Application.DTOs;
+using MediatR;
+
+public class GetConfigurationSchemaQuery : IRequest<List<ConfigurationKeySchemaDto>>
+{
+}
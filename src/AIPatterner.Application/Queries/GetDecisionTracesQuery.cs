@@ -0,0 +1,11 @@
+// MediatR query for the recent decision traces of a reminder candidate
+namespace AIPatterner.Application.Queries;
+
+using AIPatterner.Application.DTOs;
+using MediatR;
+
+public class GetDecisionTracesQuery : IRequest<DecisionTraceListResponse?>
+{
+    public Guid ReminderCandidateId { get; set; }
+    public int Limit { get; set; } = 20;
+}
@@ -0,0 +1,9 @@
+// MediatR query for the evidence thresholds used by gradual pattern inference
+namespace AIPatterner.Application.Queries;
+
+using AIPatterner.Application.DTOs;
+using MediatR;
+
+public class GetPatternInferencePolicyQuery : IRequest<PatternInferencePolicyDto>
+{
+}
@@ -0,0 +1,10 @@
+// MediatR query for looking up several reminder candidates at once
+namespace AIPatterner.Application.Queries;
+
+using AIPatterner.Application.DTOs;
+using MediatR;
+
+public class GetReminderCandidatesByIdsQuery : IRequest<List<ReminderCandidateDto>>
+{
+    public List<Guid> Ids { get; set; } = new();
+}
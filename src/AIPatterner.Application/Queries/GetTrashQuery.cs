@@ -0,0 +1,12 @@
+// MediatR query for listing soft-deleted items of one type
+namespace AIPatterner.Application.Queries;
+
+using AIPatterner.Application.DTOs;
+using MediatR;
+
+public class GetTrashQuery : IRequest<TrashListResponse>
+{
+    public TrashItemType Type { get; set; }
+    public int Page { get; set; } = 1;
+    public int PageSize { get; set; } = 20;
+}
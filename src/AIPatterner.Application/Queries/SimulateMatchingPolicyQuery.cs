@@ -0,0 +1,12 @@
+// MediatR query for comparing a person's past matches under the current and a proposed matching policy
+namespace AIPatterner.Application.Queries;
+
+using AIPatterner.Application.DTOs;
+using MediatR;
+
+public class SimulateMatchingPolicyQuery : IRequest<MatchingPolicySimulationResponse>
+{
+    public string PersonId { get; set; } = string.Empty;
+    public int Days { get; set; } = 7;
+    public MatchingCriteria Criteria { get; set; } = new();
+}
@@ -0,0 +1,401 @@
+// Known configuration keys per category: value types, defaults and how the configuration page presents them
+namespace AIPatterner.Application.Services;
+
+using System.Globalization;
+using Microsoft.Extensions.Configuration;
+
+public enum ConfigurationValueType
+{
+    Boolean,
+    Integer,
+    Number,
+    Url
+}
+
+public record ConfigurationKeyDefinition
+{
+    public string Category { get; init; } = string.Empty;
+    public string Key { get; init; } = string.Empty;
+    public ConfigurationValueType Type { get; init; }
+    public double? Min { get; init; }
+    public double? Max { get; init; }
+    public string DefaultValue { get; init; } = string.Empty; // Used when neither the store nor Setting has a value
+    public string? Setting { get; init; } // Server configuration path read before DefaultValue
+    public bool RestartRequired { get; init; } // Only read from the server configuration; stored values are ignored
+    public string Group { get; init; } = string.Empty; // Configuration page tab
+    public string Section { get; init; } = string.Empty; // Heading within the tab
+    public string Label { get; init; } = string.Empty;
+    public string Description { get; init; } = string.Empty;
+    public string? Unit { get; init; }
+}
+
+public static class ConfigurationSchema
+{
+    // Category with no fixed key list; any key and value is accepted
+    public const string CustomCategory = "custom";
+
+    // Categories whose settings tabs used to take any key; keys outside the schema are stored as they are
+    private static readonly HashSet<string> FreeFormCategories = new() { "notifications", "llm", "memory" };
+
+    public const string PoliciesGroup = "Policies";
+    public const string RoutinesGroup = "Routines";
+    public const string SignalsTimingGroup = "Signals & Timing";
+    public const string RemindersGroup = "Reminders";
+    public const string NotificationsGroup = "Notifications";
+    public const string LlmGroup = "LLM";
+    public const string MemoryGroup = "Memory";
+
+    // Defaults mirror what the reading services used before the schema existed, so an empty store behaves the same
+    public static IReadOnlyList<ConfigurationKeyDefinition> Definitions { get; } = new[]
+    {
+        Section(PoliciesGroup, "Matching criteria",
+            Boolean("MatchingPolicy", "MatchByActionType", "true") with
+            {
+                Label = "Match by action type",
+                Description = "Match reminders with the same action type as the event."
+            },
+            Boolean("MatchingPolicy", "MatchByDayType", "true") with
+            {
+                Label = "Match by day type",
+                Description = "Match reminders based on day type (weekday/weekend)."
+            },
+            Boolean("MatchingPolicy", "MatchByPeoplePresent", "true") with
+            {
+                Label = "Match by people present",
+                Description = "Match reminders when the same people are present."
+            },
+            Boolean("MatchingPolicy", "MatchByStateSignals", "true") with
+            {
+                Label = "Match by state signals",
+                Description = "Match reminders based on state signals (all must match)."
+            },
+            Boolean("MatchingPolicy", "MatchByTimeBucket", "false") with
+            {
+                Label = "Match by time bucket",
+                Description = "Match reminders based on time bucket (morning/afternoon/evening)."
+            },
+            Boolean("MatchingPolicy", "MatchByLocation", "false") with
+            {
+                Label = "Match by location",
+                Description = "Match reminders based on location."
+            },
+            Integer("MatchingPolicy", "TimeOffsetMinutes", 0, 1440, "45") with
+            {
+                Label = "Time offset",
+                Unit = "minutes",
+                Description = "Maximum time difference between an event and a reminder's check time for the reminder to match."
+            }),
+
+        Section(RoutinesGroup, "Routine learning",
+            Integer("Routine", "ObservationWindowMinutes", 1, 120, "60") with
+            {
+                Label = "Observation window",
+                Unit = "minutes",
+                Setting = "Policies:RoutineObservationWindowMinutes",
+                Description = "Given to routines created from now on: how long after the intent the actions that follow are learned."
+            },
+            Number("Routine", "DefaultRoutineProbability", 0, 1, "0.5") with
+            {
+                Label = "Default probability",
+                Setting = "Routine:DefaultRoutineProbability",
+                Description = "Starting probability of an action first seen in a routine's observation window."
+            },
+            Number("Routine", "ProbabilityIncreaseStep", 0, 1, "0.1") with
+            {
+                Label = "Probability increase step",
+                Setting = "Routine:ProbabilityIncreaseStep",
+                Description = "How much an action's probability rises each time it is seen again in the window."
+            }),
+
+        Section(SignalsTimingGroup, "Signal matching",
+            Boolean("MatchingPolicy", "SignalSelectionEnabled", "true") with
+            {
+                Label = "Use state signals",
+                Description = "When off, reminders match without looking at state signals and no signal profiles are learned."
+            },
+            Integer("MatchingPolicy", "SignalSelectionLimit", 1, 100, "10") with
+            {
+                Label = "Signals compared",
+                Setting = "Policies:SignalSelectionLimit",
+                Description = "Only the strongest signals of an event are kept. More signals give a finer match but make small, unrelated changes count."
+            },
+            Number("MatchingPolicy", "SignalSimilarityThreshold", 0, 1, "0.7") with
+            {
+                Label = "Similarity threshold",
+                Setting = "Policies:SignalSimilarityThreshold",
+                Description = "Minimum similarity between the current signals and a reminder's learned profile for the reminder to match. Higher is stricter."
+            },
+            Number("MatchingPolicy", "SignalProfileUpdateAlpha", 0, 1, "0.1") with
+            {
+                Label = "Profile learning rate",
+                Setting = "Policies:SignalProfileUpdateAlpha",
+                Description = "How far each new observation moves a reminder's signal profile. Higher adapts faster, lower stays steadier."
+            },
+            Number("MatchingPolicy", "SignalMismatchPenalty", 0, 1, "0") with
+            {
+                Label = "Mismatch penalty",
+                Setting = "Policies:SignalMismatchPenalty",
+                Description = "Shown in similarity explanations; matching currently uses the similarity score alone."
+            },
+            Boolean("MatchingPolicy", "StoreEventSignalSnapshot", "false") with
+            {
+                Label = "Store signal snapshots",
+                Setting = "Policies:StoreEventSignalSnapshot",
+                Description = "Reserved for keeping a copy of each event's selected signals; event processing does not read it yet."
+            }),
+
+        Section(SignalsTimingGroup, "Delay learning",
+            Number("DelayLearning", "BaseAlpha", 0.01, 0.5, "0.2") with
+            {
+                Label = "Delay learning rate",
+                Setting = "Routine:DelayLearning:BaseAlpha",
+                Description = "How far each observed delay moves the learned delay. Outliers count for a tenth of this."
+            },
+            Number("DelayLearning", "HalfLifeDays", 1, 365, "30") with
+            {
+                Label = "Half-life",
+                Unit = "days",
+                Setting = "Routine:DelayLearning:HalfLifeDays",
+                Description = "After this many days an observation counts half as much, so timing follows changes in habits."
+            },
+            Integer("DelayLearning", "MaxEvidenceItems", 1, 1000, "200") with
+            {
+                Label = "Observations kept",
+                Setting = "Routine:DelayLearning:MaxEvidenceItems",
+                Description = "The most recent observed delays kept per reminder for the delay histogram and evidence list."
+            },
+            Number("DelayLearning", "MinSamplesForTiming", 1, 50, "3") with
+            {
+                Label = "Samples before trusting timing",
+                Setting = "Routine:DelayLearning:MinSamplesForTiming",
+                Description = "Weighted observations a reminder needs before its learned delay is treated as reliable."
+            },
+            Integer("DelayLearning", "DefaultSuggestionDelaySeconds", 0, 7200, "120") with
+            {
+                Label = "Default delay",
+                Unit = "seconds",
+                Setting = "Routine:DelayLearning:DefaultSuggestionDelaySeconds",
+                Description = "When to suggest an action after the intent until a delay has been learned. Capped at the observation window."
+            }),
+
+        // Scheduling reads these straight from the server configuration, so they are shown but cannot be stored
+        Section(RemindersGroup, "Scheduling",
+            ServerSetting(Number("Policy", "DefaultReminderConfidence", 0, 1, "0.5")) with
+            {
+                Label = "Default confidence",
+                Description = "Confidence of a reminder when it is first scheduled from a learned transition."
+            },
+            ServerSetting(Number("Policy", "ConfidenceStepValue", 0, 1, "0.1")) with
+            {
+                Label = "Confidence step",
+                Description = "How much a reminder's confidence rises each time its action is seen again."
+            },
+            ServerSetting(Integer("Policy", "ReminderMatchTimeOffsetMinutes", 0, 1440, "30")) with
+            {
+                Label = "Duplicate window",
+                Unit = "minutes",
+                Description = "An existing reminder for the same action within this many minutes is strengthened instead of scheduling another."
+            },
+            ServerSetting(Integer("Policy", "MinimumOccurrences", 1, 100, "3")) with
+            {
+                Label = "Minimum occurrences",
+                Description = "Times a transition must be seen before a reminder is scheduled for it."
+            },
+            ServerSetting(Number("Policy", "MinimumConfidence", 0, 1, "0.4")) with
+            {
+                Label = "Minimum transition confidence",
+                Description = "Confidence a transition needs before a reminder is scheduled for it."
+            }),
+
+        Section(RemindersGroup, "Pattern inference",
+            ServerSetting(Integer("Policy", "MinDailyEvidence", 1, 100, "3")) with
+            {
+                Label = "Daily evidence",
+                Description = "Days a reminder's action must be seen on before it is inferred to be a daily pattern."
+            },
+            ServerSetting(Integer("Policy", "MinWeeklyEvidence", 1, 100, "3")) with
+            {
+                Label = "Weekly evidence",
+                Description = "Weeks a reminder's action must be seen in before it is inferred to be a weekly pattern."
+            }),
+
+        Section(RemindersGroup, "Execution",
+            ServerSetting(Number("Policy", "MinimumProbabilityForExecution", 0, 1, "0.7")) with
+            {
+                Label = "Minimum probability to execute",
+                Description = "Confidence a due reminder needs before it is processed. Reminders triggered by a routine are exempt."
+            },
+            ServerSetting(Number("Policy", "MaxInterruptionCost", 0, 1, "0.7")) with
+            {
+                Label = "Maximum interruption cost",
+                Description = "A reminder is not sent while the estimated cost of interrupting is higher than this."
+            }),
+
+        Section(NotificationsGroup, "Webhook",
+            Url("notifications", "WebhookUrl") with
+            {
+                Label = "Webhook URL",
+                Setting = "Notifications:WebhookUrl",
+                Description = "Where reminder notifications are posted."
+            }),
+
+        Section(LlmGroup, "LLM service",
+            Boolean("llm", "Enabled", "false") with
+            {
+                Label = "Enabled",
+                Setting = "LLM:Enabled",
+                Description = "Generate reminder phrases with the LLM instead of the fixed fallback phrase."
+            },
+            Url("llm", "Endpoint") with
+            {
+                Label = "Endpoint",
+                Setting = "LLM:Endpoint",
+                Description = "LLM service endpoint URL."
+            }),
+
+        Section(MemoryGroup, "Memory service",
+            Boolean("memory", "Enabled", "false") with
+            {
+                Label = "Enabled",
+                Setting = "Memory:Enabled",
+                Description = "Push reminder summaries to the memory service."
+            },
+            Url("memory", "Endpoint") with
+            {
+                Label = "Endpoint",
+                Setting = "Memory:Endpoint",
+                Description = "Memory service endpoint URL."
+            })
+    }.SelectMany(section => section).ToList();
+
+    public static bool IsKnownCategory(string category)
+    {
+        return category == CustomCategory || Definitions.Any(d => d.Category == category);
+    }
+
+    public static ConfigurationKeyDefinition? Find(string category, string key)
+    {
+        return Definitions.FirstOrDefault(d => d.Category == category && d.Key == key);
+    }
+
+    /// <summary>
+    /// Returns why the value cannot be stored under the category and key, or null when it can. Creating,
+    /// updating and importing all apply this, so whatever the store holds can be exported and imported again.
+    /// </summary>
+    public static string? Validate(string category, string key, string value)
+    {
+        if (string.IsNullOrWhiteSpace(category) || string.IsNullOrWhiteSpace(key))
+        {
+            return "Category and key are required";
+        }
+
+        if (category == CustomCategory)
+        {
+            return null;
+        }
+
+        if (!IsKnownCategory(category))
+        {
+            return $"Unknown category '{category}'";
+        }
+
+        var definition = Find(category, key);
+        if (definition == null)
+        {
+            return FreeFormCategories.Contains(category) ? null : $"Unknown key '{key}' in category '{category}'";
+        }
+
+        if (definition.RestartRequired)
+        {
+            return $"Set {definition.Setting} in the server configuration and restart; a stored value would be ignored";
+        }
+
+        return ValidateValue(definition, value);
+    }
+
+    /// <summary>
+    /// The value used when nothing valid is stored: the server configuration setting when it holds a valid
+    /// value, otherwise the definition's default.
+    /// </summary>
+    public static string ResolveDefault(ConfigurationKeyDefinition definition, IConfiguration configuration)
+    {
+        var configured = definition.Setting == null ? null : configuration[definition.Setting];
+        if (string.IsNullOrEmpty(configured))
+        {
+            return definition.DefaultValue;
+        }
+
+        // JSON settings bind booleans as "True"; the store and the matching code use the lowercase literal
+        if (definition.Type == ConfigurationValueType.Boolean && bool.TryParse(configured, out var flag))
+        {
+            configured = flag ? "true" : "false";
+        }
+
+        return ValidateValue(definition, configured) == null ? configured : definition.DefaultValue;
+    }
+
+    private static string? ValidateValue(ConfigurationKeyDefinition definition, string value)
+    {
+        switch (definition.Type)
+        {
+            case ConfigurationValueType.Boolean:
+                // Matching compares against the lowercase literal, so "True" would silently read as false
+                return value is "true" or "false" ? null : "Expected true or false";
+
+            case ConfigurationValueType.Integer:
+                if (!int.TryParse(value, NumberStyles.Integer, CultureInfo.InvariantCulture, out var integer))
+                {
+                    return "Expected a whole number";
+                }
+                return CheckRange(definition, integer);
+
+            case ConfigurationValueType.Number:
+                if (!double.TryParse(value, NumberStyles.Float, CultureInfo.InvariantCulture, out var number))
+                {
+                    return "Expected a number";
+                }
+                return CheckRange(definition, number);
+
+            case ConfigurationValueType.Url:
+                // Empty clears the endpoint
+                if (value.Length == 0)
+                {
+                    return null;
+                }
+                return Uri.TryCreate(value, UriKind.Absolute, out var uri) && (uri.Scheme == Uri.UriSchemeHttp || uri.Scheme == Uri.UriSchemeHttps)
+                    ? null
+                    : "Expected an http or https URL";
+
+            default:
+                return null;
+        }
+    }
+
+    private static string? CheckRange(ConfigurationKeyDefinition definition, double value)
+    {
+        if ((definition.Min.HasValue && value < definition.Min.Value) || (definition.Max.HasValue && value > definition.Max.Value))
+        {
+            return string.Format(CultureInfo.InvariantCulture, "Expected a value between {0} and {1}", definition.Min, definition.Max);
+        }
+
+        return null;
+    }
+
+    private static IEnumerable<ConfigurationKeyDefinition> Section(string group, string section, params ConfigurationKeyDefinition[] definitions) =>
+        definitions.Select(d => d with { Group = group, Section = section });
+
+    private static ConfigurationKeyDefinition ServerSetting(ConfigurationKeyDefinition definition) =>
+        definition with { Setting = $"{definition.Category}:{definition.Key}", RestartRequired = true };
+
+    private static ConfigurationKeyDefinition Boolean(string category, string key, string defaultValue) =>
+        new() { Category = category, Key = key, Type = ConfigurationValueType.Boolean, DefaultValue = defaultValue };
+
+    private static ConfigurationKeyDefinition Integer(string category, string key, double min, double max, string defaultValue) =>
+        new() { Category = category, Key = key, Type = ConfigurationValueType.Integer, Min = min, Max = max, DefaultValue = defaultValue };
+
+    private static ConfigurationKeyDefinition Number(string category, string key, double min, double max, string defaultValue) =>
+        new() { Category = category, Key = key, Type = ConfigurationValueType.Number, Min = min, Max = max, DefaultValue = defaultValue };
+
+    private static ConfigurationKeyDefinition Url(string category, string key) =>
+        new() { Category = category, Key = key, Type = ConfigurationValueType.Url };
+}
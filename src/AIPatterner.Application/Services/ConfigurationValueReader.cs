@@ -0,0 +1,48 @@
+// Reads the values of one configuration category as the services use them, falling back to the schema defaults
+namespace AIPatterner.Application.Services;
+
+using System.Globalization;
+using AIPatterner.Domain.Entities;
+using Microsoft.Extensions.Configuration;
+
+/// <summary>
+/// Resolves a key to its stored value when that value is valid for the key, otherwise to the
+/// schema default (the server configuration setting, then the literal default).
+/// </summary>
+public class ConfigurationValueReader
+{
+    private readonly string _category;
+    private readonly IReadOnlyList<Configuration> _stored;
+    private readonly IConfiguration _configuration;
+
+    public ConfigurationValueReader(string category, IEnumerable<Configuration> stored, IConfiguration configuration)
+    {
+        _category = category;
+        _stored = stored.Where(c => c.Category == category).ToList();
+        _configuration = configuration;
+    }
+
+    // For categories that are only read from the server configuration, such as Policy
+    public ConfigurationValueReader(string category, IConfiguration configuration)
+        : this(category, Array.Empty<Configuration>(), configuration)
+    {
+    }
+
+    public string GetString(string key)
+    {
+        var definition = ConfigurationSchema.Find(_category, key)
+            ?? throw new ArgumentException($"Unknown key '{key}' in category '{_category}'", nameof(key));
+
+        // An empty stored value falls back too, so clearing a field restores the server setting
+        var stored = _stored.FirstOrDefault(c => c.Key == key)?.Value;
+        return !string.IsNullOrEmpty(stored) && ConfigurationSchema.Validate(_category, key, stored) == null
+            ? stored
+            : ConfigurationSchema.ResolveDefault(definition, _configuration);
+    }
+
+    public bool GetBoolean(string key) => GetString(key) == "true";
+
+    public int GetInteger(string key) => int.Parse(GetString(key), NumberStyles.Integer, CultureInfo.InvariantCulture);
+
+    public double GetNumber(string key) => double.Parse(GetString(key), NumberStyles.Float, CultureInfo.InvariantCulture);
+}
@@ -0,0 +1,19 @@
+// Service interface for getting the delay-learning settings of routine reminders
+namespace AIPatterner.Application.Services;
+
+/// <summary>
+/// Service for getting how routine reminders learn the delay between an intent and the action that follows it.
+/// </summary>
+public interface IDelayLearningPolicyService
+{
+    Task<DelayLearningPolicy> GetPolicyAsync(CancellationToken cancellationToken);
+}
+
+public class DelayLearningPolicy
+{
+    public double BaseAlpha { get; set; } // EMA coefficient for each new delay observation
+    public double HalfLifeDays { get; set; } // How fast older observations fade
+    public int MaxEvidenceItems { get; set; } // Observations kept per reminder for inspection
+    public double MinSamplesForTiming { get; set; } // Samples needed before the learned delay is trusted
+    public int DefaultSuggestionDelaySeconds { get; set; } // Used until a delay has been learned
+}
@@ -24,24 +24,3 @@ public interface IExecutionActionEvaluator
         double executeAutoThreshold = 0.95);
 }
 
-/// <summary>
-/// Represents the execution action for a reminder.
-/// </summary>
-public enum ExecutionAction
-{
-    /// <summary>
-    /// Suggest the action to the user (low confidence)
-    /// </summary>
-    Suggest,
-    
-    /// <summary>
-    /// Ask the user before executing (medium confidence)
-    /// </summary>
-    Ask,
-    
-    /// <summary>
-    /// Execute automatically (high confidence + safety + opt-in)
-    /// </summary>
-    Execute
-}
-
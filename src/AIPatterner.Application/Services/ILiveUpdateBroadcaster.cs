@@ -0,0 +1,24 @@
+// Service interface for broadcasting real-time updates to connected clients
+namespace AIPatterner.Application.Services;
+
+using System.Threading.Channels;
+using AIPatterner.Application.DTOs;
+
+public interface ILiveUpdateBroadcaster
+{
+    /// <summary>
+    /// Publishes an update to all subscribers interested in its personId.
+    /// </summary>
+    void Publish(LiveUpdateDto update);
+
+    /// <summary>
+    /// Subscribes to updates. A null personId receives updates for every person (admin).
+    /// Dispose the subscription to stop receiving updates.
+    /// </summary>
+    ILiveUpdateSubscription Subscribe(string? personId);
+}
+
+public interface ILiveUpdateSubscription : IDisposable
+{
+    ChannelReader<LiveUpdateDto> Reader { get; }
+}
@@ -11,6 +11,18 @@ public interface IMatchingRemindersService
         MatchingCriteria criteria,
         List<AIPatterner.Domain.ValueObjects.SignalState>? signalStates,
         CancellationToken cancellationToken);
+
+    /// <summary>
+    /// Replays the person's action events since <paramref name="fromUtc"/> (newest first, at most
+    /// <paramref name="maxEvents"/>) against their scheduled reminders under both criteria, without saving anything.
+    /// </summary>
+    Task<MatchingPolicySimulationResponse> SimulateAsync(
+        string personId,
+        DateTime fromUtc,
+        MatchingCriteria current,
+        MatchingCriteria proposed,
+        int maxEvents,
+        CancellationToken cancellationToken);
 }
 
 
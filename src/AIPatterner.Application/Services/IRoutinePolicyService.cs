@@ -0,0 +1,17 @@
+// Service interface for getting the settings routines are learned with
+namespace AIPatterner.Application.Services;
+
+/// <summary>
+/// Service for getting how new routines observe the actions after an intent and how those actions gain probability.
+/// </summary>
+public interface IRoutinePolicyService
+{
+    Task<RoutinePolicy> GetPolicyAsync(CancellationToken cancellationToken);
+}
+
+public class RoutinePolicy
+{
+    public int ObservationWindowMinutes { get; set; } // Window given to routines created from now on
+    public double DefaultRoutineProbability { get; set; } // Probability of an action first seen in a window
+    public double ProbabilityIncreaseStep { get; set; } // Added each time the action is seen again
+}
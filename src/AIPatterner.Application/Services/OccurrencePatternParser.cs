@@ -101,8 +101,36 @@ public class OccurrencePatternParser : IOccurrencePatternParser
             }
         }
 
-        // Parse "Occurs every [DayName] at [time]" or "every [DayName]" (weekly)
         var dayNames = new[] { "sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday" };
+
+        // Parse multiple days like "every Monday, Wednesday, Friday". Checked before single days,
+        // otherwise the first listed day matches on its own and the other days never run.
+        var multipleDaysMatch = Regex.Match(pattern, @"every\s+(monday|tuesday|wednesday|thursday|friday|saturday|sunday)(?:,\s*(monday|tuesday|wednesday|thursday|friday|saturday|sunday))*", RegexOptions.IgnoreCase);
+        if (multipleDaysMatch.Success)
+        {
+            var dayMatches = Regex.Matches(pattern, @"(monday|tuesday|wednesday|thursday|friday|saturday|sunday)", RegexOptions.IgnoreCase);
+            var targetDays = dayMatches.Cast<Match>().Select(m => 
+            {
+                var dayName = m.Value.ToLowerInvariant();
+                return Array.IndexOf(dayNames, dayName);
+            }).Where(i => i >= 0).Distinct().ToList();
+
+            if (targetDays.Count > 1)
+            {
+                // Find next matching day
+                for (int i = 0; i < 14; i++) // Check up to 2 weeks ahead
+                {
+                    var checkDate = nextTime.AddDays(i);
+                    var checkDayOfWeek = (int)checkDate.DayOfWeek;
+                    if (targetDays.Contains(checkDayOfWeek) && checkDate > currentTime)
+                    {
+                        return checkDate;
+                    }
+                }
+            }
+        }
+
+        // Parse "Occurs every [DayName] at [time]" or "every [DayName]" (weekly)
         for (int i = 0; i < dayNames.Length; i++)
         {
             // Match patterns like "Occurs every Monday at 14:30" or "every Monday at 09:00" or just "Monday"
@@ -131,32 +159,6 @@ public class OccurrencePatternParser : IOccurrencePatternParser
             }
         }
 
-        // Parse multiple days like "every Monday, Wednesday, Friday"
-        var multipleDaysMatch = Regex.Match(pattern, @"every\s+(monday|tuesday|wednesday|thursday|friday|saturday|sunday)(?:,\s*(monday|tuesday|wednesday|thursday|friday|saturday|sunday))*", RegexOptions.IgnoreCase);
-        if (multipleDaysMatch.Success)
-        {
-            var dayMatches = Regex.Matches(pattern, @"(monday|tuesday|wednesday|thursday|friday|saturday|sunday)", RegexOptions.IgnoreCase);
-            var targetDays = dayMatches.Cast<Match>().Select(m => 
-            {
-                var dayName = m.Value.ToLowerInvariant();
-                return Array.IndexOf(dayNames, dayName);
-            }).Where(i => i >= 0).ToList();
-
-            if (targetDays.Any())
-            {
-                // Find next matching day
-                for (int i = 0; i < 14; i++) // Check up to 2 weeks ahead
-                {
-                    var checkDate = nextTime.AddDays(i);
-                    var checkDayOfWeek = (int)checkDate.DayOfWeek;
-                    if (targetDays.Contains(checkDayOfWeek) && checkDate > currentTime)
-                    {
-                        return checkDate;
-                    }
-                }
-            }
-        }
-
         // If no specific pattern matches, treat as daily
         if (nextTime <= currentTime)
         {
@@ -1,7 +1,7 @@
 // Domain entity representing a raw action event from external systems
 namespace AIPatterner.Domain.Entities;
 
-public class ActionEvent
+public class ActionEvent : ISoftDeletable
 {
     public Guid Id { get; private set; }
     public string PersonId { get; private set; }
@@ -14,6 +14,7 @@ public class ActionEvent
     public Guid? RelatedReminderId { get; private set; }
     public Dictionary<string, string>? CustomData { get; private set; }
     public EventType EventType { get; private set; } = EventType.Action; // Default to Action for backward compatibility
+    public DateTime? DeletedAtUtc { get; private set; }
 
     private ActionEvent() { } // EF Core
 
@@ -48,5 +49,15 @@ public class ActionEvent
     {
         RelatedReminderId = reminderId;
     }
+
+    public void MarkDeleted()
+    {
+        DeletedAtUtc ??= DateTime.UtcNow;
+    }
+
+    public void Restore()
+    {
+        DeletedAtUtc = null;
+    }
 }
 
@@ -1,7 +1,7 @@
 // Domain entity representing an API key
 namespace AIPatterner.Domain.Entities;
 
-public class ApiKey
+public class ApiKey : ISoftDeletable
 {
     public Guid Id { get; private set; }
     public string Name { get; private set; }
@@ -14,6 +14,7 @@ public class ApiKey
     public DateTime? LastUsedAtUtc { get; private set; }
     public DateTime CreatedAtUtc { get; private set; }
     public bool IsActive { get; private set; }
+    public DateTime? DeletedAtUtc { get; private set; }
 
     private ApiKey() { } // EF Core
 
@@ -64,6 +65,16 @@ public class ApiKey
     {
         return IsActive && !IsExpired();
     }
+
+    public void MarkDeleted()
+    {
+        DeletedAtUtc ??= DateTime.UtcNow;
+    }
+
+    public void Restore()
+    {
+        DeletedAtUtc = null;
+    }
 }
 
 
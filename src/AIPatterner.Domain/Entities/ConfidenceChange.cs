@@ -0,0 +1,51 @@
+// Domain entity recording one change to a reminder candidate's or routine reminder's confidence
+namespace AIPatterner.Domain.Entities;
+
+public class ConfidenceChange
+{
+    public Guid Id { get; private set; }
+    public string PersonId { get; private set; }
+    public Guid? ReminderCandidateId { get; private set; }
+    public Guid? RoutineReminderId { get; private set; }
+    public double? PreviousConfidence { get; private set; } // Null for the starting value
+    public double NewConfidence { get; private set; }
+    public ConfidenceChangeSource Source { get; private set; }
+    public Guid? SourceEventId { get; private set; }
+    public DateTime ChangedAtUtc { get; private set; }
+
+    private ConfidenceChange() { } // EF Core
+
+    private ConfidenceChange(
+        string personId,
+        Guid? reminderCandidateId,
+        Guid? routineReminderId,
+        double? previousConfidence,
+        double newConfidence,
+        ConfidenceChangeSource source,
+        Guid? sourceEventId)
+    {
+        Id = Guid.NewGuid();
+        PersonId = personId;
+        ReminderCandidateId = reminderCandidateId;
+        RoutineReminderId = routineReminderId;
+        PreviousConfidence = previousConfidence;
+        NewConfidence = newConfidence;
+        Source = source;
+        SourceEventId = sourceEventId;
+        ChangedAtUtc = DateTime.UtcNow;
+    }
+
+    public static ConfidenceChange ForReminderCandidate(
+        ReminderCandidate candidate,
+        double? previousConfidence,
+        ConfidenceChangeSource source,
+        Guid? sourceEventId) =>
+        new(candidate.PersonId, candidate.Id, null, previousConfidence, candidate.Confidence, source, sourceEventId);
+
+    public static ConfidenceChange ForRoutineReminder(
+        RoutineReminder reminder,
+        double? previousConfidence,
+        ConfidenceChangeSource source,
+        Guid? sourceEventId) =>
+        new(reminder.PersonId, null, reminder.Id, previousConfidence, reminder.Confidence, source, sourceEventId);
+}
@@ -0,0 +1,10 @@
+// Enum for what caused a reminder's confidence to change
+namespace AIPatterner.Domain.Entities;
+
+public enum ConfidenceChangeSource
+{
+    Created,
+    Event,
+    Feedback,
+    Manual
+}
@@ -11,9 +11,17 @@ public class Configuration
     public DateTime CreatedAtUtc { get; private set; }
     public DateTime UpdatedAtUtc { get; private set; }
 
+    private readonly List<ConfigurationChange> _pendingChanges = new();
+
+    /// <summary>
+    /// Value changes made since the last save. Written to the configuration history and
+    /// cleared when the DbContext saves this entity.
+    /// </summary>
+    public IReadOnlyList<ConfigurationChange> PendingChanges => _pendingChanges;
+
     private Configuration() { } // EF Core
 
-    public Configuration(string key, string value, string category, string? description = null)
+    public Configuration(string key, string value, string category, string? description = null, string? changedBy = null)
     {
         if (string.IsNullOrWhiteSpace(key))
             throw new ArgumentException("Key cannot be null or empty", nameof(key));
@@ -27,12 +35,28 @@ public class Configuration
         Description = description;
         CreatedAtUtc = DateTime.UtcNow;
         UpdatedAtUtc = DateTime.UtcNow;
+        _pendingChanges.Add(new ConfigurationChange(this, null, ConfigurationChangeType.Created, changedBy));
     }
 
-    public void UpdateValue(string value)
+    public void UpdateValue(string value, string? changedBy = null)
     {
+        var previousValue = Value;
         Value = value ?? string.Empty;
         UpdatedAtUtc = DateTime.UtcNow;
+
+        // Saving a form rewrites every key; only the ones that actually changed belong in the history
+        if (Value != previousValue)
+        {
+            _pendingChanges.Add(new ConfigurationChange(this, previousValue, ConfigurationChangeType.Updated, changedBy));
+        }
+    }
+
+    public void RollBackTo(ConfigurationChange target, string value, string? changedBy)
+    {
+        var previousValue = Value;
+        Value = value ?? string.Empty;
+        UpdatedAtUtc = DateTime.UtcNow;
+        _pendingChanges.Add(new ConfigurationChange(this, previousValue, ConfigurationChangeType.RolledBack, changedBy, target.Id));
     }
 
     public void UpdateDescription(string? description)
@@ -40,6 +64,9 @@ public class Configuration
         Description = description;
         UpdatedAtUtc = DateTime.UtcNow;
     }
-}
-
 
+    public void ClearPendingChanges()
+    {
+        _pendingChanges.Clear();
+    }
+}
@@ -0,0 +1,40 @@
+// Domain entity recording one change to a configuration value, with who made it
+namespace AIPatterner.Domain.Entities;
+
+public class ConfigurationChange
+{
+    public Guid Id { get; private set; }
+    public Guid ConfigurationId { get; private set; }
+    public string Category { get; private set; }
+    public string Key { get; private set; }
+    public string? PreviousValue { get; private set; } // Null when the configuration was created
+    public string NewValue { get; private set; }
+    public ConfigurationChangeType ChangeType { get; private set; }
+    public Guid? RolledBackToChangeId { get; private set; } // The change whose values a rollback restored
+    public string? ChangedBy { get; private set; } // Username or API key name; null for changes made before the audit log
+    public DateTime ChangedAtUtc { get; private set; }
+
+    private ConfigurationChange() { } // EF Core
+
+    public ConfigurationChange(
+        Configuration configuration,
+        string? previousValue,
+        ConfigurationChangeType changeType,
+        string? changedBy,
+        Guid? rolledBackToChangeId = null)
+    {
+        if (configuration == null)
+            throw new ArgumentNullException(nameof(configuration));
+
+        Id = Guid.NewGuid();
+        ConfigurationId = configuration.Id;
+        Category = configuration.Category;
+        Key = configuration.Key;
+        PreviousValue = previousValue;
+        NewValue = configuration.Value;
+        ChangeType = changeType;
+        RolledBackToChangeId = rolledBackToChangeId;
+        ChangedBy = changedBy;
+        ChangedAtUtc = DateTime.UtcNow;
+    }
+}
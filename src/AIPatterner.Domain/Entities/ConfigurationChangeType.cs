@@ -0,0 +1,9 @@
+// Enum for how a configuration value came to change
+namespace AIPatterner.Domain.Entities;
+
+public enum ConfigurationChangeType
+{
+    Created,
+    Updated,
+    RolledBack
+}
@@ -0,0 +1,15 @@
+// Enum for the gates a reminder check passes through, in the order they run
+namespace AIPatterner.Domain.Entities;
+
+public enum DecisionGate
+{
+    DueTime,
+    MinimumProbability,
+    ExecutionAction,
+    Preferences,
+    Cooldown,
+    DailyLimit,
+    MinimumInterval,
+    InterruptionCost,
+    SignalSimilarity
+}
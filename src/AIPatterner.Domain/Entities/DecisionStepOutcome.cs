@@ -0,0 +1,9 @@
+// Enum for how a single gate of a reminder check turned out
+namespace AIPatterner.Domain.Entities;
+
+public enum DecisionStepOutcome
+{
+    Passed,
+    Failed,
+    Skipped // Did not apply, e.g. bypassed by "Execute now" or no signal baseline yet
+}
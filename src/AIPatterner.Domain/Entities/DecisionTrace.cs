@@ -0,0 +1,39 @@
+// Step-by-step record of the gates a reminder check went through, collected while it runs
+namespace AIPatterner.Domain.Entities;
+
+public class DecisionTraceStep
+{
+    public DecisionGate Gate { get; set; }
+    public DecisionStepOutcome Outcome { get; set; }
+    public double? Value { get; set; } // What was measured, e.g. reminders sent today
+    public double? Threshold { get; set; } // The limit it was compared against
+    public string Detail { get; set; } = string.Empty;
+}
+
+public class DecisionTrace
+{
+    private readonly List<DecisionTraceStep> _steps = new();
+
+    public IReadOnlyList<DecisionTraceStep> Steps => _steps;
+
+    public void Passed(DecisionGate gate, string detail, double? value = null, double? threshold = null) =>
+        Add(gate, DecisionStepOutcome.Passed, detail, value, threshold);
+
+    public void Failed(DecisionGate gate, string detail, double? value = null, double? threshold = null) =>
+        Add(gate, DecisionStepOutcome.Failed, detail, value, threshold);
+
+    public void Skipped(DecisionGate gate, string detail, double? value = null, double? threshold = null) =>
+        Add(gate, DecisionStepOutcome.Skipped, detail, value, threshold);
+
+    private void Add(DecisionGate gate, DecisionStepOutcome outcome, string detail, double? value, double? threshold)
+    {
+        _steps.Add(new DecisionTraceStep
+        {
+            Gate = gate,
+            Outcome = outcome,
+            Value = value,
+            Threshold = threshold,
+            Detail = detail
+        });
+    }
+}
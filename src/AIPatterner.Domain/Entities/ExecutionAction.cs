@@ -0,0 +1,23 @@
+// Enum for reminder execution actions
+namespace AIPatterner.Domain.Entities;
+
+/// <summary>
+/// Represents the execution action for a reminder.
+/// </summary>
+public enum ExecutionAction
+{
+    /// <summary>
+    /// Suggest the action to the user (low confidence)
+    /// </summary>
+    Suggest,
+    
+    /// <summary>
+    /// Ask the user before executing (medium confidence)
+    /// </summary>
+    Ask,
+    
+    /// <summary>
+    /// Execute automatically (high confidence + safety + opt-in)
+    /// </summary>
+    Execute
+}
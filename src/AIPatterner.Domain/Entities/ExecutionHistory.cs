@@ -1,7 +1,7 @@
 // Domain entity representing execution history of actions and reminders
 namespace AIPatterner.Domain.Entities;
 
-public class ExecutionHistory
+public class ExecutionHistory : ISoftDeletable
 {
     public Guid Id { get; private set; }
     public string Endpoint { get; private set; }
@@ -14,6 +14,7 @@ public class ExecutionHistory
     public Guid? ReminderCandidateId { get; private set; }
     public Guid? EventId { get; private set; }
     public DateTime CreatedAtUtc { get; private set; }
+    public DateTime? DeletedAtUtc { get; private set; }
 
     private ExecutionHistory() { } // EF Core
 
@@ -47,6 +48,14 @@ public class ExecutionHistory
         EventId = eventId;
         CreatedAtUtc = DateTime.UtcNow;
     }
-}
 
+    public void MarkDeleted()
+    {
+        DeletedAtUtc ??= DateTime.UtcNow;
+    }
 
+    public void Restore()
+    {
+        DeletedAtUtc = null;
+    }
+}
@@ -0,0 +1,20 @@
+// Enum for a user's role within the household
+namespace AIPatterner.Domain.Entities;
+
+public enum HouseholdRole
+{
+    /// <summary>
+    /// Can view and manage every household member's data
+    /// </summary>
+    Owner,
+
+    /// <summary>
+    /// Can manage their own data and view other members' data
+    /// </summary>
+    Member,
+
+    /// <summary>
+    /// Can only view their own data and give feedback on it
+    /// </summary>
+    Guest
+}
@@ -0,0 +1,12 @@
+// Contract for entities that go to the trash before being permanently removed
+namespace AIPatterner.Domain.Entities;
+
+public interface ISoftDeletable
+{
+    /// <summary>When the entity was moved to the trash; null while it is live.</summary>
+    DateTime? DeletedAtUtc { get; }
+
+    void MarkDeleted();
+
+    void Restore();
+}
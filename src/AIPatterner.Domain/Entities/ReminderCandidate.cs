@@ -43,7 +43,7 @@ public enum PatternInferenceStatus
     Weekly
 }
 
-public class ReminderCandidate
+public class ReminderCandidate : ISoftDeletable
 {
     public Guid Id { get; private set; }
     public string PersonId { get; private set; }
@@ -57,6 +57,7 @@ public class ReminderCandidate
     public string? Occurrence { get; private set; } // Occurrence pattern (e.g., "daily", "weekly", "every 3 days", "weekdays")
     public DateTime CreatedAtUtc { get; private set; }
     public DateTime? ExecutedAtUtc { get; private set; }
+    public DateTime? DeletedAtUtc { get; private set; }
     public Guid? SourceEventId { get; private set; } // Event ID that created this reminder
     public Dictionary<string, string>? CustomData { get; private set; } // Custom data from source event
     
@@ -137,6 +138,12 @@ public class ReminderCandidate
     /// </summary>
     public bool IsSafeToAutoExecute { get; private set; } = false;
     
+    /// <summary>
+    /// Execution action chosen by the user for this reminder.
+    /// Null means the action is evaluated automatically from confidence.
+    /// </summary>
+    public ExecutionAction? PreferredExecutionAction { get; private set; }
+    
     /// <summary>
     /// Signal profile (baseline vector) for this reminder.
     /// Stored as JSONB object mapping sensorId -> { weight: double, normalizedValue: number }.
@@ -153,6 +160,14 @@ public class ReminderCandidate
     /// </summary>
     public int SignalProfileSamplesCount { get; private set; } = 0;
 
+    private readonly List<ConfidenceChange> _pendingConfidenceChanges = new();
+
+    /// <summary>
+    /// Confidence changes made since the last save, with what caused them. Written to the
+    /// confidence history and cleared when the DbContext saves this entity.
+    /// </summary>
+    public IReadOnlyList<ConfidenceChange> PendingConfidenceChanges => _pendingConfidenceChanges;
+
     private ReminderCandidate() { } // EF Core
 
     public ReminderCandidate(
@@ -185,6 +200,8 @@ public class ReminderCandidate
         CustomData = customData;
         Status = ReminderCandidateStatus.Scheduled;
         CreatedAtUtc = DateTime.UtcNow;
+        _pendingConfidenceChanges.Add(
+            ConfidenceChange.ForReminderCandidate(this, null, ConfidenceChangeSource.Created, sourceEventId));
         
         // Initialize evidence tracking from the first event
         // Note: Time bucket and day type will be set when first evidence is recorded with context
@@ -250,42 +267,73 @@ public class ReminderCandidate
         PatternInferenceStatus = PatternInferenceStatus.Unknown;
     }
 
-    public void IncreaseConfidence(double stepValue)
+    public void IncreaseConfidence(
+        double stepValue,
+        ConfidenceChangeSource source = ConfidenceChangeSource.Manual,
+        Guid? sourceEventId = null)
     {
         if (stepValue < 0.0)
             throw new ArgumentException("Step value must be non-negative", nameof(stepValue));
         
-        Confidence = Math.Min(1.0, Confidence + stepValue);
+        SetConfidence(Math.Min(1.0, Confidence + stepValue), source, sourceEventId);
     }
 
-    public void DecreaseConfidence(double stepValue)
+    public void DecreaseConfidence(
+        double stepValue,
+        ConfidenceChangeSource source = ConfidenceChangeSource.Manual,
+        Guid? sourceEventId = null)
     {
         if (stepValue < 0.0)
             throw new ArgumentException("Step value must be non-negative", nameof(stepValue));
         
-        Confidence = Math.Max(0.0, Confidence - stepValue);
+        SetConfidence(Math.Max(0.0, Confidence - stepValue), source, sourceEventId);
     }
 
-    public void UpdateConfidence(double value, ProbabilityAction action)
+    public void UpdateConfidence(
+        double value,
+        ProbabilityAction action,
+        ConfidenceChangeSource source = ConfidenceChangeSource.Manual,
+        Guid? sourceEventId = null)
     {
         if (value < 0.0)
             throw new ArgumentException("Value must be non-negative", nameof(value));
 
         if (action == ProbabilityAction.Increase)
         {
-            IncreaseConfidence(value);
+            IncreaseConfidence(value, source, sourceEventId);
         }
         else
         {
-            DecreaseConfidence(value);
+            DecreaseConfidence(value, source, sourceEventId);
         }
     }
 
+    private void SetConfidence(double confidence, ConfidenceChangeSource source, Guid? sourceEventId)
+    {
+        // Steps clamped at 0 or 1 leave nothing to chart
+        if (confidence == Confidence)
+            return;
+
+        var previous = Confidence;
+        Confidence = confidence;
+        _pendingConfidenceChanges.Add(ConfidenceChange.ForReminderCandidate(this, previous, source, sourceEventId));
+    }
+
+    public void ClearPendingConfidenceChanges()
+    {
+        _pendingConfidenceChanges.Clear();
+    }
+
     public void SetOccurrence(string? occurrence)
     {
         Occurrence = occurrence;
     }
 
+    public void SetStyle(ReminderStyle style)
+    {
+        Style = style;
+    }
+
     public void UpdateCheckAtUtc(DateTime checkAtUtc)
     {
         CheckAtUtc = checkAtUtc;
@@ -351,6 +399,16 @@ public class ReminderCandidate
     {
         IsSafeToAutoExecute = isSafe;
     }
+
+    /// <summary>
+    /// Sets the user-chosen execution action. Choosing Execute marks the reminder
+    /// as safe to auto-execute; Suggest and Ask revoke it.
+    /// </summary>
+    public void SetPreferredExecutionAction(ExecutionAction action)
+    {
+        PreferredExecutionAction = action;
+        IsSafeToAutoExecute = action == ExecutionAction.Execute;
+    }
     
     /// <summary>
     /// Gets the signal profile (parsed from JSON).
@@ -471,6 +529,16 @@ public class ReminderCandidate
         Status = ReminderCandidateStatus.Expired;
     }
 
+    public void MarkDeleted()
+    {
+        DeletedAtUtc ??= DateTime.UtcNow;
+    }
+
+    public void Restore()
+    {
+        DeletedAtUtc = null;
+    }
+
     public bool IsDue(DateTime now)
     {
         return Status == ReminderCandidateStatus.Scheduled && CheckAtUtc <= now;
@@ -674,6 +742,46 @@ public class ReminderCandidate
         }
     }
     
+    /// <summary>
+    /// Summarizes the evidence UpdateInferredPattern decides on, so callers can show how far
+    /// a reminder is from a daily or weekly pattern.
+    /// </summary>
+    public PatternEvidenceSummary GetPatternEvidence()
+    {
+        var histogram = GetDayOfWeekHistogram();
+        var observedDays = GetObservedDays().OrderBy(d => d).ToList();
+        
+        // Longest run of observed days with gaps of at most 2 days
+        var longestRun = observedDays.Count > 0 ? 1 : 0;
+        var run = 1;
+        for (int i = 1; i < observedDays.Count; i++)
+        {
+            run = (observedDays[i] - observedDays[i - 1]).TotalDays <= 2 ? run + 1 : 1;
+            longestRun = Math.Max(longestRun, run);
+        }
+        
+        var maxWeekdayCount = histogram.Values.DefaultIfEmpty(0).Max();
+        int? dominantWeekday = maxWeekdayCount > 0
+            ? histogram.First(kvp => kvp.Value == maxWeekdayCount).Key
+            : null;
+        var datesForWeekday = dominantWeekday.HasValue
+            ? observedDays.Where(d => (int)d.DayOfWeek == dominantWeekday.Value).ToList()
+            : new List<DateTime>();
+        
+        return new PatternEvidenceSummary
+        {
+            ObservedDayCount = observedDays.Count,
+            LongestDailyRunDays = longestRun,
+            DistinctWeekdays = histogram.Values.Count(c => c > 0),
+            DominantWeekday = dominantWeekday,
+            DominantWeekdayEvidence = maxWeekdayCount,
+            DominantWeekdayDays = datesForWeekday.Count,
+            DominantWeekdaySpanDays = datesForWeekday.Count > 1
+                ? (int)(datesForWeekday.Last() - datesForWeekday.First()).TotalDays
+                : 0
+        };
+    }
+    
     /// <summary>
     /// Updates the inferred pattern status and occurrence string based on accumulated evidence.
     /// This should be called periodically or after significant evidence accumulation.
@@ -717,33 +825,23 @@ public class ReminderCandidate
             return;
         }
         
-        var histogram = GetDayOfWeekHistogram();
-        var observedDays = GetObservedDays();
+        var evidence = GetPatternEvidence();
         
-        if (observedDays.Count == 0)
+        if (evidence.ObservedDayCount == 0)
         {
             PatternInferenceStatus = PatternInferenceStatus.Unknown;
             return;
         }
         
-        // Check for weekly pattern: same weekday across multiple weeks
-        var weekdayCounts = histogram.Values.Where(c => c > 0).ToList();
-        var maxWeekdayCount = histogram.Values.Max();
-        var maxWeekday = histogram.FirstOrDefault(kvp => kvp.Value == maxWeekdayCount).Key;
-        
         // Weekly pattern: one weekday dominates, and we have multiple weeks of evidence
-        if (maxWeekdayCount >= minWeeklyEvidence && weekdayCounts.Count == 1)
+        var maxWeekday = evidence.DominantWeekday ?? 0;
+        if (evidence.DominantWeekdayEvidence >= minWeeklyEvidence && evidence.DistinctWeekdays == 1)
         {
             // Verify it's across multiple weeks, not just consecutive days
-            var datesForWeekday = observedDays.Where(d => (int)d.DayOfWeek == maxWeekday).OrderBy(d => d).ToList();
-            if (datesForWeekday.Count >= minWeeklyEvidence)
+            if (evidence.DominantWeekdayDays >= minWeeklyEvidence)
             {
                 // Check if dates span multiple weeks (at least 7 days apart for first and last)
-                var firstDate = datesForWeekday.First();
-                var lastDate = datesForWeekday.Last();
-                var daysSpan = (lastDate - firstDate).TotalDays;
-                
-                if (daysSpan >= 7) // At least one week apart
+                if (evidence.DominantWeekdaySpanDays >= 7) // At least one week apart
                 {
                     PatternInferenceStatus = PatternInferenceStatus.Weekly;
                     InferredWeekday = maxWeekday;
@@ -784,25 +882,7 @@ public class ReminderCandidate
         }
         
         // Check for daily pattern: observed on multiple consecutive or near-consecutive days
-        var sortedDays = observedDays.OrderBy(d => d).ToList();
-        var consecutiveCount = 1;
-        var maxConsecutive = 1;
-        
-        for (int i = 1; i < sortedDays.Count; i++)
-        {
-            var daysDiff = (sortedDays[i] - sortedDays[i - 1]).TotalDays;
-            if (daysDiff <= 2) // Allow 1-2 day gaps
-            {
-                consecutiveCount++;
-                maxConsecutive = Math.Max(maxConsecutive, consecutiveCount);
-            }
-            else
-            {
-                consecutiveCount = 1;
-            }
-        }
-        
-        if (maxConsecutive >= minDailyEvidence)
+        if (evidence.LongestDailyRunDays >= minDailyEvidence)
         {
             PatternInferenceStatus = PatternInferenceStatus.Daily;
             InferredWeekday = null;
@@ -888,6 +968,20 @@ public class ReminderCandidate
     }
 }
 
+/// <summary>
+/// The counts UpdateInferredPattern compares against MinDailyEvidence and MinWeeklyEvidence.
+/// </summary>
+public class PatternEvidenceSummary
+{
+    public int ObservedDayCount { get; set; }
+    public int LongestDailyRunDays { get; set; } // Observed days with gaps of at most 2 days
+    public int DistinctWeekdays { get; set; }
+    public int? DominantWeekday { get; set; } // 0=Sunday, 6=Saturday
+    public int DominantWeekdayEvidence { get; set; }
+    public int DominantWeekdayDays { get; set; }
+    public int DominantWeekdaySpanDays { get; set; } // Days between the first and last observation on it
+}
+
 /// <summary>
 /// Represents a user prompt entry in a reminder's userPromptsList.
 /// </summary>
@@ -0,0 +1,9 @@
+// Enum for what a reminder check did to the candidate
+namespace AIPatterner.Domain.Entities;
+
+public enum ReminderCheckOutcome
+{
+    Executed,
+    Skipped,
+    Deferred // Stopped before evaluation (not due, or too unlikely); the candidate stays scheduled
+}
@@ -0,0 +1,63 @@
+// Domain entity persisting the decision trace of one reminder check
+namespace AIPatterner.Domain.Entities;
+
+using System.Text.Json;
+using System.Text.Json.Serialization;
+
+public class ReminderDecisionTrace
+{
+    private static readonly JsonSerializerOptions StepsJsonOptions = new()
+    {
+        Converters = { new JsonStringEnumConverter() }
+    };
+
+    public Guid Id { get; private set; }
+    public Guid ReminderCandidateId { get; private set; }
+    public string PersonId { get; private set; }
+    public DateTime EvaluatedAtUtc { get; private set; }
+    public ReminderCheckOutcome Outcome { get; private set; }
+    public bool ShouldSpeak { get; private set; }
+    public string Reason { get; private set; }
+    public bool BypassedDateCheck { get; private set; } // "Execute now" rather than a scheduled or forced check
+    public double Confidence { get; private set; } // Candidate confidence at the time of the check
+    public string StepsJson { get; private set; } // JSON array of DecisionTraceStep, in pipeline order
+
+    private ReminderDecisionTrace() { } // EF Core
+
+    public ReminderDecisionTrace(
+        ReminderCandidate candidate,
+        DecisionTrace trace,
+        ReminderCheckOutcome outcome,
+        bool shouldSpeak,
+        string reason,
+        bool bypassedDateCheck)
+    {
+        if (candidate == null)
+            throw new ArgumentNullException(nameof(candidate));
+        if (trace == null)
+            throw new ArgumentNullException(nameof(trace));
+
+        Id = Guid.NewGuid();
+        ReminderCandidateId = candidate.Id;
+        PersonId = candidate.PersonId;
+        EvaluatedAtUtc = DateTime.UtcNow;
+        Outcome = outcome;
+        ShouldSpeak = shouldSpeak;
+        Reason = reason;
+        BypassedDateCheck = bypassedDateCheck;
+        Confidence = candidate.Confidence;
+        StepsJson = JsonSerializer.Serialize(trace.Steps, StepsJsonOptions);
+    }
+
+    public List<DecisionTraceStep> GetSteps()
+    {
+        try
+        {
+            return JsonSerializer.Deserialize<List<DecisionTraceStep>>(StepsJson, StepsJsonOptions) ?? new List<DecisionTraceStep>();
+        }
+        catch
+        {
+            return new List<DecisionTraceStep>();
+        }
+    }
+}
@@ -48,6 +48,12 @@ public class RoutineReminder
     /// </summary>
     public bool IsSafeToAutoExecute { get; private set; } = false;
     
+    /// <summary>
+    /// Execution action chosen by the user for this reminder.
+    /// Null means the action is evaluated automatically from confidence.
+    /// </summary>
+    public ExecutionAction? PreferredExecutionAction { get; private set; }
+    
     /// <summary>
     /// Signal profile (baseline vector) for this reminder.
     /// Stored as JSONB object mapping sensorId -> { weight: double, normalizedValue: number }.
@@ -64,6 +70,14 @@ public class RoutineReminder
     /// </summary>
     public int SignalProfileSamplesCount { get; private set; } = 0;
 
+    private readonly List<ConfidenceChange> _pendingConfidenceChanges = new();
+
+    /// <summary>
+    /// Confidence changes made since the last save, with what caused them. Written to the
+    /// confidence history and cleared when the DbContext saves this entity.
+    /// </summary>
+    public IReadOnlyList<ConfidenceChange> PendingConfidenceChanges => _pendingConfidenceChanges;
+
     private RoutineReminder() { } // EF Core
 
     public RoutineReminder(
@@ -72,7 +86,8 @@ public class RoutineReminder
         string suggestedAction,
         double confidence,
         Dictionary<string, string>? customData = null,
-        string timeContextBucket = "evening")
+        string timeContextBucket = "evening",
+        Guid? sourceEventId = null)
     {
         if (string.IsNullOrWhiteSpace(personId))
             throw new ArgumentException("PersonId cannot be null or empty", nameof(personId));
@@ -89,39 +104,67 @@ public class RoutineReminder
         Confidence = confidence;
         CreatedAtUtc = DateTime.UtcNow;
         CustomData = customData;
+        _pendingConfidenceChanges.Add(
+            ConfidenceChange.ForRoutineReminder(this, null, ConfidenceChangeSource.Created, sourceEventId));
     }
 
-    public void IncreaseConfidence(double stepValue)
+    public void IncreaseConfidence(
+        double stepValue,
+        ConfidenceChangeSource source = ConfidenceChangeSource.Manual,
+        Guid? sourceEventId = null)
     {
         if (stepValue < 0.0)
             throw new ArgumentException("Step value must be non-negative", nameof(stepValue));
         
-        Confidence = Math.Min(1.0, Confidence + stepValue);
+        SetConfidence(Math.Min(1.0, Confidence + stepValue), source, sourceEventId);
     }
 
-    public void DecreaseConfidence(double stepValue)
+    public void DecreaseConfidence(
+        double stepValue,
+        ConfidenceChangeSource source = ConfidenceChangeSource.Manual,
+        Guid? sourceEventId = null)
     {
         if (stepValue < 0.0)
             throw new ArgumentException("Step value must be non-negative", nameof(stepValue));
         
-        Confidence = Math.Max(0.0, Confidence - stepValue);
+        SetConfidence(Math.Max(0.0, Confidence - stepValue), source, sourceEventId);
     }
 
-    public void UpdateConfidence(double value, ProbabilityAction action)
+    public void UpdateConfidence(
+        double value,
+        ProbabilityAction action,
+        ConfidenceChangeSource source = ConfidenceChangeSource.Manual,
+        Guid? sourceEventId = null)
     {
         if (value < 0.0)
             throw new ArgumentException("Value must be non-negative", nameof(value));
 
         if (action == ProbabilityAction.Increase)
         {
-            IncreaseConfidence(value);
+            IncreaseConfidence(value, source, sourceEventId);
         }
         else
         {
-            DecreaseConfidence(value);
+            DecreaseConfidence(value, source, sourceEventId);
         }
     }
 
+    private void SetConfidence(double confidence, ConfidenceChangeSource source, Guid? sourceEventId)
+    {
+        // Steps clamped at 0 or 1 leave nothing to chart
+        if (confidence == Confidence)
+            return;
+
+        var previous = Confidence;
+        Confidence = confidence;
+        _pendingConfidenceChanges.Add(ConfidenceChange.ForRoutineReminder(this, previous, source, sourceEventId));
+    }
+
+    public void ClearPendingConfidenceChanges()
+    {
+        _pendingConfidenceChanges.Clear();
+    }
+
     /// <summary>
     /// Records an observation of this action occurring within the routine window.
     /// </summary>
@@ -171,6 +214,24 @@ public class RoutineReminder
         }
     }
 
+    /// <summary>
+    /// Every histogram bin in ascending order, including the ones no delay has fallen into yet.
+    /// </summary>
+    public List<RoutineDelayHistogramBin> GetDelayHistogramBins()
+    {
+        var histogram = GetDelayHistogram();
+        var bins = GetDefaultDelayHistogramBinsSeconds();
+        return bins
+            .Select((upper, index) => new RoutineDelayHistogramBin
+            {
+                LowerBoundSeconds = index == 0 ? 0 : bins[index - 1],
+                UpperBoundSeconds = upper,
+                Weight = histogram.GetValueOrDefault(upper, 0.0),
+                IsOverflow = index == bins.Length - 1
+            })
+            .ToList();
+    }
+
     public void ApplyDelayDecay(DateTime nowUtc, double halfLifeDays)
     {
         if (halfLifeDays <= 0)
@@ -403,6 +464,16 @@ public class RoutineReminder
     {
         IsSafeToAutoExecute = isSafe;
     }
+
+    /// <summary>
+    /// Sets the user-chosen execution action. Choosing Execute marks the reminder
+    /// as safe to auto-execute; Suggest and Ask revoke it.
+    /// </summary>
+    public void SetPreferredExecutionAction(ExecutionAction action)
+    {
+        PreferredExecutionAction = action;
+        IsSafeToAutoExecute = action == ExecutionAction.Execute;
+    }
     
     /// <summary>
     /// Gets the signal profile (parsed from JSON).
@@ -514,6 +585,14 @@ public class RoutineDelayEvidenceItem
     public DateTime CreatedAtUtc { get; set; }
 }
 
+public class RoutineDelayHistogramBin
+{
+    public int LowerBoundSeconds { get; set; }
+    public int UpperBoundSeconds { get; set; }
+    public double Weight { get; set; }
+    public bool IsOverflow { get; set; } // Last bin, which also holds every longer delay
+}
+
 public class RoutineDelayStatsUpdateResult
 {
     public bool IsOutlier { get; set; }
@@ -1,19 +1,26 @@
 // Domain entity representing a user account
 namespace AIPatterner.Domain.Entities;
 
-public class User
+public class User : ISoftDeletable
 {
     public Guid Id { get; private set; }
     public string Username { get; private set; }
     public string Email { get; private set; }
     public string PasswordHash { get; private set; }
     public string Role { get; private set; }
+    public HouseholdRole HouseholdRole { get; private set; } = HouseholdRole.Member;
     public DateTime CreatedAtUtc { get; private set; }
     public DateTime UpdatedAtUtc { get; private set; }
+    public DateTime? DeletedAtUtc { get; private set; }
 
     private User() { } // EF Core
 
-    public User(string username, string email, string passwordHash, string role = "user")
+    public User(
+        string username,
+        string email,
+        string passwordHash,
+        string role = "user",
+        HouseholdRole householdRole = HouseholdRole.Member)
     {
         if (string.IsNullOrWhiteSpace(username))
             throw new ArgumentException("Username cannot be null or empty", nameof(username));
@@ -27,6 +34,7 @@ public class User
         Email = email;
         PasswordHash = passwordHash;
         Role = role ?? "user";
+        HouseholdRole = householdRole;
         CreatedAtUtc = DateTime.UtcNow;
         UpdatedAtUtc = DateTime.UtcNow;
     }
@@ -57,6 +65,20 @@ public class User
         Role = role;
         UpdatedAtUtc = DateTime.UtcNow;
     }
-}
 
+    public void UpdateHouseholdRole(HouseholdRole householdRole)
+    {
+        HouseholdRole = householdRole;
+        UpdatedAtUtc = DateTime.UtcNow;
+    }
+
+    public void MarkDeleted()
+    {
+        DeletedAtUtc ??= DateTime.UtcNow;
+    }
 
+    public void Restore()
+    {
+        DeletedAtUtc = null;
+    }
+}
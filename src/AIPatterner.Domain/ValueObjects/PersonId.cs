@@ -3,6 +3,12 @@ namespace AIPatterner.Domain.ValueObjects;
 
 public record PersonId(string Value)
 {
+    // Throwaway people the UI sandbox replays simulated days into; never notified or executed
+    public const string SandboxPrefix = "sandbox_";
+
+    public static bool IsSandbox(string? value) =>
+        value != null && value.StartsWith(SandboxPrefix, StringComparison.Ordinal);
+
     public static PersonId From(string value)
     {
         if (string.IsNullOrWhiteSpace(value))
@@ -0,0 +1,38 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace AIPatterner.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddPreferredExecutionAction : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "PreferredExecutionAction",
+                table: "routinereminders",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "PreferredExecutionAction",
+                table: "remindercandidates",
+                type: "integer",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "PreferredExecutionAction",
+                table: "routinereminders");
+
+            migrationBuilder.DropColumn(
+                name: "PreferredExecutionAction",
+                table: "remindercandidates");
+        }
+    }
+}
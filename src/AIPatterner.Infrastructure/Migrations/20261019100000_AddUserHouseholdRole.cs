@@ -0,0 +1,32 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace AIPatterner.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddUserHouseholdRole : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "HouseholdRole",
+                table: "users",
+                type: "integer",
+                nullable: false,
+                defaultValue: 1);
+
+            // Existing admins own the household; everyone else starts as a member
+            migrationBuilder.Sql("UPDATE users SET \"HouseholdRole\" = 0 WHERE \"Role\" = 'admin';");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "HouseholdRole",
+                table: "users");
+        }
+    }
+}
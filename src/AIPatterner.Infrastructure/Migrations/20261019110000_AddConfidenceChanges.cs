@@ -0,0 +1,56 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace AIPatterner.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddConfidenceChanges : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "confidencechanges",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false),
+                    PersonId = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    ReminderCandidateId = table.Column<Guid>(type: "uuid", nullable: true),
+                    RoutineReminderId = table.Column<Guid>(type: "uuid", nullable: true),
+                    PreviousConfidence = table.Column<double>(type: "double precision", precision: 18, scale: 4, nullable: true),
+                    NewConfidence = table.Column<double>(type: "double precision", precision: 18, scale: 4, nullable: false),
+                    Source = table.Column<string>(type: "character varying(20)", maxLength: 20, nullable: false),
+                    SourceEventId = table.Column<Guid>(type: "uuid", nullable: true),
+                    ChangedAtUtc = table.Column<DateTime>(type: "timestamp with time zone", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_confidencechanges", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_confidencechanges_PersonId",
+                table: "confidencechanges",
+                column: "PersonId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_confidencechanges_ReminderCandidateId_ChangedAtUtc",
+                table: "confidencechanges",
+                columns: new[] { "ReminderCandidateId", "ChangedAtUtc" });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_confidencechanges_RoutineReminderId_ChangedAtUtc",
+                table: "confidencechanges",
+                columns: new[] { "RoutineReminderId", "ChangedAtUtc" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "confidencechanges");
+        }
+    }
+}
@@ -0,0 +1,156 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace AIPatterner.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddSoftDelete : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<DateTime>(
+                name: "DeletedAtUtc",
+                table: "actionevents",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "DeletedAtUtc",
+                table: "remindercandidates",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "DeletedAtUtc",
+                table: "executionhistories",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "DeletedAtUtc",
+                table: "apikeys",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "DeletedAtUtc",
+                table: "users",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_actionevents_DeletedAtUtc",
+                table: "actionevents",
+                column: "DeletedAtUtc");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_remindercandidates_DeletedAtUtc",
+                table: "remindercandidates",
+                column: "DeletedAtUtc");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_executionhistories_DeletedAtUtc",
+                table: "executionhistories",
+                column: "DeletedAtUtc");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_apikeys_DeletedAtUtc",
+                table: "apikeys",
+                column: "DeletedAtUtc");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_users_DeletedAtUtc",
+                table: "users",
+                column: "DeletedAtUtc");
+
+            migrationBuilder.DropIndex(
+                name: "IX_users_Username",
+                table: "users");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_users_Username",
+                table: "users",
+                column: "Username",
+                unique: true,
+                filter: "\"DeletedAtUtc\" IS NULL");
+
+            migrationBuilder.DropIndex(
+                name: "IX_users_Email",
+                table: "users");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_users_Email",
+                table: "users",
+                column: "Email",
+                unique: true,
+                filter: "\"DeletedAtUtc\" IS NULL");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_users_Username",
+                table: "users");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_users_Username",
+                table: "users",
+                column: "Username",
+                unique: true);
+
+            migrationBuilder.DropIndex(
+                name: "IX_users_Email",
+                table: "users");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_users_Email",
+                table: "users",
+                column: "Email",
+                unique: true);
+
+            migrationBuilder.DropIndex(
+                name: "IX_actionevents_DeletedAtUtc",
+                table: "actionevents");
+
+            migrationBuilder.DropIndex(
+                name: "IX_remindercandidates_DeletedAtUtc",
+                table: "remindercandidates");
+
+            migrationBuilder.DropIndex(
+                name: "IX_executionhistories_DeletedAtUtc",
+                table: "executionhistories");
+
+            migrationBuilder.DropIndex(
+                name: "IX_apikeys_DeletedAtUtc",
+                table: "apikeys");
+
+            migrationBuilder.DropIndex(
+                name: "IX_users_DeletedAtUtc",
+                table: "users");
+
+            migrationBuilder.DropColumn(
+                name: "DeletedAtUtc",
+                table: "actionevents");
+
+            migrationBuilder.DropColumn(
+                name: "DeletedAtUtc",
+                table: "remindercandidates");
+
+            migrationBuilder.DropColumn(
+                name: "DeletedAtUtc",
+                table: "executionhistories");
+
+            migrationBuilder.DropColumn(
+                name: "DeletedAtUtc",
+                table: "apikeys");
+
+            migrationBuilder.DropColumn(
+                name: "DeletedAtUtc",
+                table: "users");
+        }
+    }
+}
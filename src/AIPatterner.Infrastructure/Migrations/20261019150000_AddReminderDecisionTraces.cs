@@ -0,0 +1,52 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace AIPatterner.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddReminderDecisionTraces : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "reminderdecisiontraces",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false),
+                    ReminderCandidateId = table.Column<Guid>(type: "uuid", nullable: false),
+                    PersonId = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    EvaluatedAtUtc = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    Outcome = table.Column<string>(type: "character varying(20)", maxLength: 20, nullable: false),
+                    ShouldSpeak = table.Column<bool>(type: "boolean", nullable: false),
+                    Reason = table.Column<string>(type: "character varying(500)", maxLength: 500, nullable: false),
+                    BypassedDateCheck = table.Column<bool>(type: "boolean", nullable: false),
+                    Confidence = table.Column<double>(type: "double precision", precision: 18, scale: 4, nullable: false),
+                    StepsJson = table.Column<string>(type: "jsonb", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_reminderdecisiontraces", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_reminderdecisiontraces_PersonId",
+                table: "reminderdecisiontraces",
+                column: "PersonId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_reminderdecisiontraces_ReminderCandidateId_EvaluatedAtUtc",
+                table: "reminderdecisiontraces",
+                columns: new[] { "ReminderCandidateId", "EvaluatedAtUtc" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "reminderdecisiontraces");
+        }
+    }
+}
@@ -0,0 +1,57 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace AIPatterner.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddConfigurationChanges : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "configurationchanges",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false),
+                    ConfigurationId = table.Column<Guid>(type: "uuid", nullable: false),
+                    Category = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    Key = table.Column<string>(type: "character varying(200)", maxLength: 200, nullable: false),
+                    PreviousValue = table.Column<string>(type: "character varying(2000)", maxLength: 2000, nullable: true),
+                    NewValue = table.Column<string>(type: "character varying(2000)", maxLength: 2000, nullable: false),
+                    ChangeType = table.Column<string>(type: "character varying(20)", maxLength: 20, nullable: false),
+                    RolledBackToChangeId = table.Column<Guid>(type: "uuid", nullable: true),
+                    ChangedBy = table.Column<string>(type: "character varying(200)", maxLength: 200, nullable: true),
+                    ChangedAtUtc = table.Column<DateTime>(type: "timestamp with time zone", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_configurationchanges", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_configurationchanges_Category_Key_ChangedAtUtc",
+                table: "configurationchanges",
+                columns: new[] { "Category", "Key", "ChangedAtUtc" });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_configurationchanges_ChangedAtUtc",
+                table: "configurationchanges",
+                column: "ChangedAtUtc");
+
+            // Start each existing configuration's history at its current value, so rollbacks can restore it
+            migrationBuilder.Sql(
+                "INSERT INTO configurationchanges (\"Id\", \"ConfigurationId\", \"Category\", \"Key\", \"NewValue\", \"ChangeType\", \"ChangedAtUtc\") " +
+                "SELECT gen_random_uuid(), \"Id\", \"Category\", \"Key\", \"Value\", 'Created', \"UpdatedAtUtc\" FROM configurations;");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "configurationchanges");
+        }
+    }
+}
@@ -39,6 +39,9 @@ namespace AIPatterner.Infrastructure.Migrations
                     b.Property<string>("CustomData")
                         .HasColumnType("jsonb");
 
+                    b.Property<DateTime?>("DeletedAtUtc")
+                        .HasColumnType("timestamp with time zone");
+
                     b.Property<int>("EventType")
                         .ValueGeneratedOnAdd()
                         .HasColumnType("integer")
@@ -65,6 +68,8 @@ namespace AIPatterner.Infrastructure.Migrations
 
                     b.HasKey("Id");
 
+                    b.HasIndex("DeletedAtUtc");
+
                     b.HasIndex("RelatedReminderId");
 
                     b.HasIndex("PersonId", "TimestampUtc");
@@ -135,6 +140,9 @@ namespace AIPatterner.Infrastructure.Migrations
                     b.Property<DateTime>("CreatedAtUtc")
                         .HasColumnType("timestamp with time zone");
 
+                    b.Property<DateTime?>("DeletedAtUtc")
+                        .HasColumnType("timestamp with time zone");
+
                     b.Property<DateTime?>("ExpiresAtUtc")
                         .HasColumnType("timestamp with time zone");
 
@@ -173,6 +181,8 @@ namespace AIPatterner.Infrastructure.Migrations
 
                     b.HasKey("Id");
 
+                    b.HasIndex("DeletedAtUtc");
+
                     b.HasIndex("KeyHash");
 
                     b.HasIndex("UserId");
@@ -180,6 +190,53 @@ namespace AIPatterner.Infrastructure.Migrations
                     b.ToTable("apikeys", (string)null);
                 });
 
+            modelBuilder.Entity("AIPatterner.Domain.Entities.ConfidenceChange", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid");
+
+                    b.Property<DateTime>("ChangedAtUtc")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<double>("NewConfidence")
+                        .HasPrecision(18, 4)
+                        .HasColumnType("double precision");
+
+                    b.Property<string>("PersonId")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)");
+
+                    b.Property<double?>("PreviousConfidence")
+                        .HasPrecision(18, 4)
+                        .HasColumnType("double precision");
+
+                    b.Property<Guid?>("ReminderCandidateId")
+                        .HasColumnType("uuid");
+
+                    b.Property<Guid?>("RoutineReminderId")
+                        .HasColumnType("uuid");
+
+                    b.Property<string>("Source")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)");
+
+                    b.Property<Guid?>("SourceEventId")
+                        .HasColumnType("uuid");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("PersonId");
+
+                    b.HasIndex("ReminderCandidateId", "ChangedAtUtc");
+
+                    b.HasIndex("RoutineReminderId", "ChangedAtUtc");
+
+                    b.ToTable("confidencechanges", (string)null);
+                });
+
             modelBuilder.Entity("AIPatterner.Domain.Entities.Configuration", b =>
                 {
                     b.Property<Guid>("Id")
@@ -219,6 +276,58 @@ namespace AIPatterner.Infrastructure.Migrations
                     b.ToTable("configurations", (string)null);
                 });
 
+            modelBuilder.Entity("AIPatterner.Domain.Entities.ConfigurationChange", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid");
+
+                    b.Property<string>("Category")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)");
+
+                    b.Property<string>("ChangeType")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)");
+
+                    b.Property<DateTime>("ChangedAtUtc")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<string>("ChangedBy")
+                        .HasMaxLength(200)
+                        .HasColumnType("character varying(200)");
+
+                    b.Property<Guid>("ConfigurationId")
+                        .HasColumnType("uuid");
+
+                    b.Property<string>("Key")
+                        .IsRequired()
+                        .HasMaxLength(200)
+                        .HasColumnType("character varying(200)");
+
+                    b.Property<string>("NewValue")
+                        .IsRequired()
+                        .HasMaxLength(2000)
+                        .HasColumnType("character varying(2000)");
+
+                    b.Property<string>("PreviousValue")
+                        .HasMaxLength(2000)
+                        .HasColumnType("character varying(2000)");
+
+                    b.Property<Guid?>("RolledBackToChangeId")
+                        .HasColumnType("uuid");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("ChangedAtUtc");
+
+                    b.HasIndex("Category", "Key", "ChangedAtUtc");
+
+                    b.ToTable("configurationchanges", (string)null);
+                });
+
             modelBuilder.Entity("AIPatterner.Domain.Entities.ExecutionHistory", b =>
                 {
                     b.Property<Guid>("Id")
@@ -232,6 +341,9 @@ namespace AIPatterner.Infrastructure.Migrations
                     b.Property<DateTime>("CreatedAtUtc")
                         .HasColumnType("timestamp with time zone");
 
+                    b.Property<DateTime?>("DeletedAtUtc")
+                        .HasColumnType("timestamp with time zone");
+
                     b.Property<string>("Endpoint")
                         .IsRequired()
                         .HasMaxLength(500)
@@ -264,6 +376,8 @@ namespace AIPatterner.Infrastructure.Migrations
 
                     b.HasKey("Id");
 
+                    b.HasIndex("DeletedAtUtc");
+
                     b.HasIndex("EventId");
 
                     b.HasIndex("ExecutedAtUtc");
@@ -294,6 +408,9 @@ namespace AIPatterner.Infrastructure.Migrations
                     b.Property<string>("CustomData")
                         .HasColumnType("jsonb");
 
+                    b.Property<DateTime?>("DeletedAtUtc")
+                        .HasColumnType("timestamp with time zone");
+
                     b.Property<int>("EvidenceCount")
                         .ValueGeneratedOnAdd()
                         .HasColumnType("integer")
@@ -342,6 +459,9 @@ namespace AIPatterner.Infrastructure.Migrations
                         .HasMaxLength(100)
                         .HasColumnType("character varying(100)");
 
+                    b.Property<int?>("PreferredExecutionAction")
+                        .HasColumnType("integer");
+
                     b.Property<string>("SignalProfileJson")
                         .HasColumnType("jsonb");
 
@@ -385,6 +505,8 @@ namespace AIPatterner.Infrastructure.Migrations
 
                     b.HasIndex("CheckAtUtc");
 
+                    b.HasIndex("DeletedAtUtc");
+
                     b.HasIndex("SourceEventId");
 
                     b.HasIndex("PersonId", "Status");
@@ -426,6 +548,56 @@ namespace AIPatterner.Infrastructure.Migrations
                     b.ToTable("remindercooldowns", (string)null);
                 });
 
+            modelBuilder.Entity("AIPatterner.Domain.Entities.ReminderDecisionTrace", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid");
+
+                    b.Property<bool>("BypassedDateCheck")
+                        .HasColumnType("boolean");
+
+                    b.Property<double>("Confidence")
+                        .HasPrecision(18, 4)
+                        .HasColumnType("double precision");
+
+                    b.Property<DateTime>("EvaluatedAtUtc")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<string>("Outcome")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)");
+
+                    b.Property<string>("PersonId")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)");
+
+                    b.Property<string>("Reason")
+                        .IsRequired()
+                        .HasMaxLength(500)
+                        .HasColumnType("character varying(500)");
+
+                    b.Property<Guid>("ReminderCandidateId")
+                        .HasColumnType("uuid");
+
+                    b.Property<bool>("ShouldSpeak")
+                        .HasColumnType("boolean");
+
+                    b.Property<string>("StepsJson")
+                        .IsRequired()
+                        .HasColumnType("jsonb");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("PersonId");
+
+                    b.HasIndex("ReminderCandidateId", "EvaluatedAtUtc");
+
+                    b.ToTable("reminderdecisiontraces", (string)null);
+                });
+
             modelBuilder.Entity("AIPatterner.Domain.Entities.Routine", b =>
                 {
                     b.Property<Guid>("Id")
@@ -534,6 +706,9 @@ namespace AIPatterner.Infrastructure.Migrations
                         .HasMaxLength(100)
                         .HasColumnType("character varying(100)");
 
+                    b.Property<int?>("PreferredExecutionAction")
+                        .HasColumnType("integer");
+
                     b.Property<Guid>("RoutineId")
                         .HasColumnType("uuid");
 
@@ -584,11 +759,19 @@ namespace AIPatterner.Infrastructure.Migrations
                     b.Property<DateTime>("CreatedAtUtc")
                         .HasColumnType("timestamp with time zone");
 
+                    b.Property<DateTime?>("DeletedAtUtc")
+                        .HasColumnType("timestamp with time zone");
+
                     b.Property<string>("Email")
                         .IsRequired()
                         .HasMaxLength(255)
                         .HasColumnType("character varying(255)");
 
+                    b.Property<int>("HouseholdRole")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("integer")
+                        .HasDefaultValue(1);
+
                     b.Property<string>("PasswordHash")
                         .IsRequired()
                         .HasMaxLength(500)
@@ -609,11 +792,15 @@ namespace AIPatterner.Infrastructure.Migrations
 
                     b.HasKey("Id");
 
+                    b.HasIndex("DeletedAtUtc");
+
                     b.HasIndex("Email")
-                        .IsUnique();
+                        .IsUnique()
+                        .HasFilter("\"DeletedAtUtc\" IS NULL");
 
                     b.HasIndex("Username")
-                        .IsUnique();
+                        .IsUnique()
+                        .HasFilter("\"DeletedAtUtc\" IS NULL");
 
                     b.ToTable("users", (string)null);
                 });
@@ -22,6 +22,9 @@ public class ApplicationDbContext : DbContext
     public DbSet<ExecutionHistory> ExecutionHistories { get; set; }
     public DbSet<Routine> Routines { get; set; }
     public DbSet<RoutineReminder> RoutineReminders { get; set; }
+    public DbSet<ConfidenceChange> ConfidenceChanges { get; set; }
+    public DbSet<ConfigurationChange> ConfigurationChanges { get; set; }
+    public DbSet<ReminderDecisionTrace> ReminderDecisionTraces { get; set; }
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -45,6 +48,8 @@ public class ApplicationDbContext : DbContext
                 .HasColumnType("jsonb");
             entity.HasIndex(e => new { e.PersonId, e.TimestampUtc });
             entity.HasIndex(e => e.RelatedReminderId);
+            entity.HasIndex(e => e.DeletedAtUtc);
+            entity.HasQueryFilter(e => e.DeletedAtUtc == null);
             entity.OwnsOne(e => e.Context, context =>
             {
                 context.Property(c => c.TimeBucket).IsRequired().HasMaxLength(50);
@@ -107,14 +112,21 @@ public class ApplicationDbContext : DbContext
             entity.Property(e => e.InferredWeekday).IsRequired(false);
             entity.Property(e => e.UserPromptsListJson).HasColumnType("jsonb");
             entity.Property(e => e.IsSafeToAutoExecute).HasDefaultValue(false);
+            entity.Property(e => e.PreferredExecutionAction)
+                .HasConversion<int?>()
+                .IsRequired(false);
             entity.Property(e => e.SignalProfileJson).HasColumnType("jsonb");
             entity.Property(e => e.SignalProfileUpdatedAtUtc).IsRequired(false);
             entity.Property(e => e.SignalProfileSamplesCount).HasDefaultValue(0);
             
+            entity.Ignore(e => e.PendingConfidenceChanges);
+            
             entity.HasIndex(e => e.CheckAtUtc);
             entity.HasIndex(e => e.SourceEventId);
             entity.HasIndex(e => new { e.PersonId, e.Status });
             entity.HasIndex(e => new { e.PersonId, e.SuggestedAction, e.CheckAtUtc });
+            entity.HasIndex(e => e.DeletedAtUtc);
+            entity.HasQueryFilter(e => e.DeletedAtUtc == null);
             entity.OwnsOne(e => e.Decision, decision =>
             {
                 decision.Property(d => d.ShouldSpeak);
@@ -152,8 +164,14 @@ public class ApplicationDbContext : DbContext
             entity.Property(e => e.Email).IsRequired().HasMaxLength(255);
             entity.Property(e => e.PasswordHash).IsRequired().HasMaxLength(500);
             entity.Property(e => e.Role).IsRequired().HasMaxLength(50);
-            entity.HasIndex(e => e.Username).IsUnique();
-            entity.HasIndex(e => e.Email).IsUnique();
+            entity.Property(e => e.HouseholdRole)
+                .HasConversion<int>()
+                .HasDefaultValue(HouseholdRole.Member);
+            // Trashed users keep their rows, so uniqueness only applies to live ones
+            entity.HasIndex(e => e.Username).IsUnique().HasFilter("\"DeletedAtUtc\" IS NULL");
+            entity.HasIndex(e => e.Email).IsUnique().HasFilter("\"DeletedAtUtc\" IS NULL");
+            entity.HasIndex(e => e.DeletedAtUtc);
+            entity.HasQueryFilter(e => e.DeletedAtUtc == null);
         });
 
         modelBuilder.Entity<ApiKey>(entity =>
@@ -167,6 +185,8 @@ public class ApplicationDbContext : DbContext
             entity.Property(e => e.PersonId).HasMaxLength(100);
             entity.HasIndex(e => e.KeyHash);
             entity.HasIndex(e => e.UserId);
+            entity.HasIndex(e => e.DeletedAtUtc);
+            entity.HasQueryFilter(e => e.DeletedAtUtc == null);
         });
 
         modelBuilder.Entity<Configuration>(entity =>
@@ -178,6 +198,21 @@ public class ApplicationDbContext : DbContext
             entity.Property(e => e.Category).IsRequired().HasMaxLength(100);
             entity.Property(e => e.Description).HasMaxLength(500);
             entity.HasIndex(e => new { e.Key, e.Category }).IsUnique();
+            entity.Ignore(e => e.PendingChanges);
+        });
+
+        modelBuilder.Entity<ConfigurationChange>(entity =>
+        {
+            entity.ToTable("configurationchanges");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Category).IsRequired().HasMaxLength(100);
+            entity.Property(e => e.Key).IsRequired().HasMaxLength(200);
+            entity.Property(e => e.PreviousValue).HasMaxLength(2000);
+            entity.Property(e => e.NewValue).IsRequired().HasMaxLength(2000);
+            entity.Property(e => e.ChangeType).HasConversion<string>().HasMaxLength(20);
+            entity.Property(e => e.ChangedBy).HasMaxLength(200);
+            entity.HasIndex(e => new { e.Category, e.Key, e.ChangedAtUtc });
+            entity.HasIndex(e => e.ChangedAtUtc);
         });
 
         modelBuilder.Entity<ExecutionHistory>(entity =>
@@ -194,6 +229,8 @@ public class ApplicationDbContext : DbContext
             entity.HasIndex(e => new { e.PersonId, e.ExecutedAtUtc });
             entity.HasIndex(e => e.ReminderCandidateId);
             entity.HasIndex(e => e.EventId);
+            entity.HasIndex(e => e.DeletedAtUtc);
+            entity.HasQueryFilter(e => e.DeletedAtUtc == null);
         });
 
         modelBuilder.Entity<Routine>(entity =>
@@ -236,13 +273,43 @@ public class ApplicationDbContext : DbContext
 
             entity.Property(e => e.UserPromptsListJson).HasColumnType("jsonb");
             entity.Property(e => e.IsSafeToAutoExecute).HasDefaultValue(false);
+            entity.Property(e => e.PreferredExecutionAction)
+                .HasConversion<int?>()
+                .IsRequired(false);
             entity.Property(e => e.SignalProfileJson).HasColumnType("jsonb");
             entity.Property(e => e.SignalProfileUpdatedAtUtc).IsRequired(false);
             entity.Property(e => e.SignalProfileSamplesCount).HasDefaultValue(0);
+            entity.Ignore(e => e.PendingConfidenceChanges);
             entity.HasIndex(e => new { e.RoutineId, e.TimeContextBucket, e.SuggestedAction }).IsUnique();
             entity.HasIndex(e => e.RoutineId);
             entity.HasIndex(e => e.PersonId);
         });
+
+        modelBuilder.Entity<ConfidenceChange>(entity =>
+        {
+            entity.ToTable("confidencechanges");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.PersonId).IsRequired().HasMaxLength(100);
+            entity.Property(e => e.PreviousConfidence).HasPrecision(18, 4);
+            entity.Property(e => e.NewConfidence).HasPrecision(18, 4);
+            entity.Property(e => e.Source).HasConversion<string>().HasMaxLength(20);
+            entity.HasIndex(e => new { e.ReminderCandidateId, e.ChangedAtUtc });
+            entity.HasIndex(e => new { e.RoutineReminderId, e.ChangedAtUtc });
+            entity.HasIndex(e => e.PersonId);
+        });
+
+        modelBuilder.Entity<ReminderDecisionTrace>(entity =>
+        {
+            entity.ToTable("reminderdecisiontraces");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.PersonId).IsRequired().HasMaxLength(100);
+            entity.Property(e => e.Outcome).HasConversion<string>().HasMaxLength(20);
+            entity.Property(e => e.Reason).HasMaxLength(500);
+            entity.Property(e => e.Confidence).HasPrecision(18, 4);
+            entity.Property(e => e.StepsJson).IsRequired().HasColumnType("jsonb");
+            entity.HasIndex(e => new { e.ReminderCandidateId, e.EvaluatedAtUtc });
+            entity.HasIndex(e => e.PersonId);
+        });
     }
 }
 
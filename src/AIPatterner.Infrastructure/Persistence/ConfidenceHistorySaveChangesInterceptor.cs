@@ -0,0 +1,48 @@
+// EF Core interceptor that writes reminder confidence changes to the confidence history
+namespace AIPatterner.Infrastructure.Persistence;
+
+using AIPatterner.Domain.Entities;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Diagnostics;
+
+/// <summary>
+/// Adds the confidence changes queued on reminder candidates and routine reminders to the
+/// same save, so the history is written in the transaction that changed the confidence.
+/// </summary>
+public class ConfidenceHistorySaveChangesInterceptor : SaveChangesInterceptor
+{
+    public override InterceptionResult<int> SavingChanges(DbContextEventData eventData, InterceptionResult<int> result)
+    {
+        AddPendingChanges(eventData.Context);
+        return base.SavingChanges(eventData, result);
+    }
+
+    public override ValueTask<InterceptionResult<int>> SavingChangesAsync(
+        DbContextEventData eventData,
+        InterceptionResult<int> result,
+        CancellationToken cancellationToken = default)
+    {
+        AddPendingChanges(eventData.Context);
+        return base.SavingChangesAsync(eventData, result, cancellationToken);
+    }
+
+    private static void AddPendingChanges(DbContext? context)
+    {
+        if (context == null)
+        {
+            return;
+        }
+
+        foreach (var entry in context.ChangeTracker.Entries<ReminderCandidate>().Where(e => e.State != EntityState.Deleted))
+        {
+            context.Set<ConfidenceChange>().AddRange(entry.Entity.PendingConfidenceChanges);
+            entry.Entity.ClearPendingConfidenceChanges();
+        }
+
+        foreach (var entry in context.ChangeTracker.Entries<RoutineReminder>().Where(e => e.State != EntityState.Deleted))
+        {
+            context.Set<ConfidenceChange>().AddRange(entry.Entity.PendingConfidenceChanges);
+            entry.Entity.ClearPendingConfidenceChanges();
+        }
+    }
+}
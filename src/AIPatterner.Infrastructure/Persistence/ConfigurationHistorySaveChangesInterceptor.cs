@@ -0,0 +1,42 @@
+// EF Core interceptor that writes configuration value changes to the configuration history
+namespace AIPatterner.Infrastructure.Persistence;
+
+using AIPatterner.Domain.Entities;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Diagnostics;
+
+/// <summary>
+/// Adds the changes queued on configurations to the same save, so a value and its history
+/// entry (and every value restored by a rollback) are written in one transaction.
+/// </summary>
+public class ConfigurationHistorySaveChangesInterceptor : SaveChangesInterceptor
+{
+    public override InterceptionResult<int> SavingChanges(DbContextEventData eventData, InterceptionResult<int> result)
+    {
+        AddPendingChanges(eventData.Context);
+        return base.SavingChanges(eventData, result);
+    }
+
+    public override ValueTask<InterceptionResult<int>> SavingChangesAsync(
+        DbContextEventData eventData,
+        InterceptionResult<int> result,
+        CancellationToken cancellationToken = default)
+    {
+        AddPendingChanges(eventData.Context);
+        return base.SavingChangesAsync(eventData, result, cancellationToken);
+    }
+
+    private static void AddPendingChanges(DbContext? context)
+    {
+        if (context == null)
+        {
+            return;
+        }
+
+        foreach (var entry in context.ChangeTracker.Entries<Configuration>().Where(e => e.State != EntityState.Deleted))
+        {
+            context.Set<ConfigurationChange>().AddRange(entry.Entity.PendingChanges);
+            entry.Entity.ClearPendingChanges();
+        }
+    }
+}
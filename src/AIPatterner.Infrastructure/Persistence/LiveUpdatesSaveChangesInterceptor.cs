@@ -0,0 +1,182 @@
+// EF Core interceptor that turns persisted entity changes into live updates
+namespace AIPatterner.Infrastructure.Persistence;
+
+using AIPatterner.Application.DTOs;
+using AIPatterner.Application.Services;
+using AIPatterner.Domain.Entities;
+using AutoMapper;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Diagnostics;
+
+/// <summary>
+/// Detects candidate created/executed/skipped, event ingested and routine window
+/// opened/closed changes while saving, and publishes them once the save succeeds.
+/// Registered per scope so pending updates never leak between DbContext instances.
+/// </summary>
+public class LiveUpdatesSaveChangesInterceptor : SaveChangesInterceptor
+{
+    private readonly ILiveUpdateBroadcaster _broadcaster;
+    private readonly IMapper _mapper;
+    private readonly List<LiveUpdateDto> _pending = new();
+
+    public LiveUpdatesSaveChangesInterceptor(ILiveUpdateBroadcaster broadcaster, IMapper mapper)
+    {
+        _broadcaster = broadcaster;
+        _mapper = mapper;
+    }
+
+    public override InterceptionResult<int> SavingChanges(DbContextEventData eventData, InterceptionResult<int> result)
+    {
+        CollectUpdates(eventData.Context);
+        return base.SavingChanges(eventData, result);
+    }
+
+    public override ValueTask<InterceptionResult<int>> SavingChangesAsync(
+        DbContextEventData eventData,
+        InterceptionResult<int> result,
+        CancellationToken cancellationToken = default)
+    {
+        CollectUpdates(eventData.Context);
+        return base.SavingChangesAsync(eventData, result, cancellationToken);
+    }
+
+    public override int SavedChanges(SaveChangesCompletedEventData eventData, int result)
+    {
+        PublishPending();
+        return base.SavedChanges(eventData, result);
+    }
+
+    public override ValueTask<int> SavedChangesAsync(
+        SaveChangesCompletedEventData eventData,
+        int result,
+        CancellationToken cancellationToken = default)
+    {
+        PublishPending();
+        return base.SavedChangesAsync(eventData, result, cancellationToken);
+    }
+
+    public override void SaveChangesFailed(DbContextErrorEventData eventData)
+    {
+        _pending.Clear();
+        base.SaveChangesFailed(eventData);
+    }
+
+    public override Task SaveChangesFailedAsync(DbContextErrorEventData eventData, CancellationToken cancellationToken = default)
+    {
+        _pending.Clear();
+        return base.SaveChangesFailedAsync(eventData, cancellationToken);
+    }
+
+    private void CollectUpdates(DbContext? context)
+    {
+        if (context == null)
+        {
+            return;
+        }
+
+        var now = DateTime.UtcNow;
+
+        foreach (var entry in context.ChangeTracker.Entries<ReminderCandidate>())
+        {
+            var candidate = entry.Entity;
+            string? type = null;
+
+            if (entry.State == EntityState.Added)
+            {
+                type = LiveUpdateTypes.CandidateCreated;
+            }
+            else if (entry.State == EntityState.Modified)
+            {
+                // Compare against original values: repositories call Update(), which marks every property as modified
+                var executedAt = entry.Property(c => c.ExecutedAtUtc);
+                var status = entry.Property(c => c.Status);
+
+                if (executedAt.CurrentValue.HasValue && executedAt.CurrentValue != executedAt.OriginalValue)
+                {
+                    // Recurring reminders are rescheduled in the same save, so ExecutedAtUtc is the reliable signal
+                    type = LiveUpdateTypes.CandidateExecuted;
+                }
+                else if (status.CurrentValue == ReminderCandidateStatus.Skipped &&
+                         status.OriginalValue != ReminderCandidateStatus.Skipped)
+                {
+                    type = LiveUpdateTypes.CandidateSkipped;
+                }
+            }
+
+            if (type != null)
+            {
+                _pending.Add(new LiveUpdateDto
+                {
+                    Type = type,
+                    PersonId = candidate.PersonId,
+                    EntityId = candidate.Id,
+                    OccurredAtUtc = now,
+                    Payload = _mapper.Map<ReminderCandidateDto>(candidate)
+                });
+            }
+        }
+
+        foreach (var entry in context.ChangeTracker.Entries<ActionEvent>().Where(e => e.State == EntityState.Added))
+        {
+            var actionEvent = entry.Entity;
+            _pending.Add(new LiveUpdateDto
+            {
+                Type = LiveUpdateTypes.EventIngested,
+                PersonId = actionEvent.PersonId,
+                EntityId = actionEvent.Id,
+                OccurredAtUtc = now,
+                Payload = new
+                {
+                    actionEvent.ActionType,
+                    actionEvent.EventType,
+                    actionEvent.TimestampUtc
+                }
+            });
+        }
+
+        foreach (var entry in context.ChangeTracker.Entries<Routine>())
+        {
+            var routine = entry.Entity;
+            var windowStart = entry.Property(r => r.ObservationWindowStartUtc);
+            var wasOpen = entry.State != EntityState.Added && windowStart.OriginalValue.HasValue;
+            var isOpen = windowStart.CurrentValue.HasValue;
+            string? type = null;
+
+            if (isOpen && (!wasOpen || windowStart.CurrentValue != windowStart.OriginalValue))
+            {
+                type = LiveUpdateTypes.RoutineWindowOpened;
+            }
+            else if (wasOpen && !isOpen)
+            {
+                type = LiveUpdateTypes.RoutineWindowClosed;
+            }
+
+            if (type != null)
+            {
+                _pending.Add(new LiveUpdateDto
+                {
+                    Type = type,
+                    PersonId = routine.PersonId,
+                    EntityId = routine.Id,
+                    OccurredAtUtc = now,
+                    Payload = new
+                    {
+                        routine.IntentType,
+                        ObservationWindowStartUtc = routine.ObservationWindowStartUtc,
+                        ObservationWindowEndsUtc = routine.ObservationWindowEndsAtUtc,
+                        routine.ActiveTimeContextBucket
+                    }
+                });
+            }
+        }
+    }
+
+    private void PublishPending()
+    {
+        foreach (var update in _pending)
+        {
+            _broadcaster.Publish(update);
+        }
+        _pending.Clear();
+    }
+}
@@ -43,7 +43,7 @@ public class ApiKeyRepository : IApiKeyRepository
 
     public async Task DeleteAsync(ApiKey apiKey, CancellationToken cancellationToken)
     {
-        _context.ApiKeys.Remove(apiKey);
+        apiKey.MarkDeleted();
         await _context.SaveChangesAsync(cancellationToken);
     }
 }
@@ -0,0 +1,33 @@
+// EF Core repository implementation for ConfidenceChange
+namespace AIPatterner.Infrastructure.Persistence.Repositories;
+
+using AIPatterner.Application.Handlers;
+using AIPatterner.Domain.Entities;
+using AIPatterner.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore;
+
+public class ConfidenceChangeRepository : IConfidenceChangeRepository
+{
+    private readonly ApplicationDbContext _context;
+
+    public ConfidenceChangeRepository(ApplicationDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<List<ConfidenceChange>> GetByReminderCandidateAsync(Guid reminderCandidateId, CancellationToken cancellationToken)
+    {
+        return await _context.ConfidenceChanges
+            .Where(c => c.ReminderCandidateId == reminderCandidateId)
+            .OrderBy(c => c.ChangedAtUtc)
+            .ToListAsync(cancellationToken);
+    }
+
+    public async Task<List<ConfidenceChange>> GetByRoutineReminderAsync(Guid routineReminderId, CancellationToken cancellationToken)
+    {
+        return await _context.ConfidenceChanges
+            .Where(c => c.RoutineReminderId == routineReminderId)
+            .OrderBy(c => c.ChangedAtUtc)
+            .ToListAsync(cancellationToken);
+    }
+}
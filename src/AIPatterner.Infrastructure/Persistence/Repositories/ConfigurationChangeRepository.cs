@@ -0,0 +1,59 @@
+// EF Core repository implementation for ConfigurationChange
+namespace AIPatterner.Infrastructure.Persistence.Repositories;
+
+using AIPatterner.Application.Handlers;
+using AIPatterner.Domain.Entities;
+using AIPatterner.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore;
+
+public class ConfigurationChangeRepository : IConfigurationChangeRepository
+{
+    private readonly ApplicationDbContext _context;
+
+    public ConfigurationChangeRepository(ApplicationDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<ConfigurationChange?> GetByIdAsync(Guid id, CancellationToken cancellationToken)
+    {
+        return await _context.ConfigurationChanges.FindAsync(new object[] { id }, cancellationToken);
+    }
+
+    public async Task<List<ConfigurationChange>> GetRecentAsync(string? category, string? key, int limit, CancellationToken cancellationToken)
+    {
+        var query = _context.ConfigurationChanges.AsQueryable();
+
+        if (!string.IsNullOrWhiteSpace(category))
+        {
+            query = query.Where(c => c.Category == category);
+        }
+
+        if (!string.IsNullOrWhiteSpace(key))
+        {
+            query = query.Where(c => c.Key == key);
+        }
+
+        return await query
+            .OrderByDescending(c => c.ChangedAtUtc)
+            .Take(limit)
+            .ToListAsync(cancellationToken);
+    }
+
+    public async Task<Dictionary<string, string>> GetValuesAsOfAsync(string category, DateTime asOfUtc, CancellationToken cancellationToken)
+    {
+        var changes = await _context.ConfigurationChanges
+            .Where(c => c.Category == category && c.ChangedAtUtc <= asOfUtc)
+            .OrderBy(c => c.ChangedAtUtc)
+            .Select(c => new { c.Key, c.NewValue })
+            .ToListAsync(cancellationToken);
+
+        // Ordered oldest first, so each key ends up with its latest value
+        var values = new Dictionary<string, string>();
+        foreach (var change in changes)
+        {
+            values[change.Key] = change.NewValue;
+        }
+        return values;
+    }
+}
@@ -47,5 +47,12 @@ public class ConfigurationRepository : IConfigurationRepository
         _context.Configurations.Update(configuration);
         await _context.SaveChangesAsync(cancellationToken);
     }
+
+    public async Task SaveRangeAsync(IEnumerable<Configuration> added, IEnumerable<Configuration> updated, CancellationToken cancellationToken)
+    {
+        _context.Configurations.AddRange(added);
+        _context.Configurations.UpdateRange(updated);
+        await _context.SaveChangesAsync(cancellationToken);
+    }
 }
 
@@ -41,6 +41,13 @@ public class EventRepository : IEventRepository
             .FirstOrDefaultAsync(e => e.Id == id, cancellationToken);
     }
 
+    public async Task<List<ActionEvent>> GetByIdsAsync(IReadOnlyCollection<Guid> ids, CancellationToken cancellationToken)
+    {
+        return await _context.ActionEvents
+            .Where(e => ids.Contains(e.Id))
+            .ToListAsync(cancellationToken);
+    }
+
     public async Task<List<ActionEvent>> GetFilteredAsync(
         string? personId,
         string? actionType,
@@ -97,7 +104,7 @@ public class EventRepository : IEventRepository
 
     public async Task DeleteAsync(ActionEvent actionEvent, CancellationToken cancellationToken)
     {
-        _context.ActionEvents.Remove(actionEvent);
+        actionEvent.MarkDeleted();
         await _context.SaveChangesAsync(cancellationToken);
     }
 }
@@ -77,7 +77,7 @@ public class ExecutionHistoryRepository : IExecutionHistoryRepository
 
     public async Task DeleteAsync(ExecutionHistory history, CancellationToken cancellationToken)
     {
-        _context.ExecutionHistories.Remove(history);
+        history.MarkDeleted();
         await _context.SaveChangesAsync(cancellationToken);
     }
 }
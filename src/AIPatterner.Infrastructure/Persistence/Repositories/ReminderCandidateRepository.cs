@@ -3,6 +3,7 @@ namespace AIPatterner.Infrastructure.Persistence.Repositories;
 
 using AIPatterner.Application.Handlers;
 using AIPatterner.Domain.Entities;
+using AIPatterner.Domain.ValueObjects;
 using AIPatterner.Infrastructure.Persistence;
 using Microsoft.EntityFrameworkCore;
 
@@ -75,10 +76,18 @@ public class ReminderCandidateRepository : IReminderCandidateRepository
         return await _context.ReminderCandidates.FindAsync(new object[] { id }, cancellationToken);
     }
 
+    public async Task<List<ReminderCandidate>> GetByIdsAsync(IReadOnlyCollection<Guid> ids, CancellationToken cancellationToken)
+    {
+        return await _context.ReminderCandidates
+            .Where(c => ids.Contains(c.Id))
+            .ToListAsync(cancellationToken);
+    }
+
     public async Task<List<ReminderCandidate>> GetDueCandidatesAsync(DateTime now, int limit, CancellationToken cancellationToken)
     {
         return await _context.ReminderCandidates
             .Where(c => c.Status == ReminderCandidateStatus.Scheduled && c.CheckAtUtc <= now)
+            .Where(c => !c.PersonId.StartsWith(PersonId.SandboxPrefix))
             .OrderBy(c => c.CheckAtUtc)
             .Take(limit)
             .ToListAsync(cancellationToken);
@@ -114,7 +123,7 @@ public class ReminderCandidateRepository : IReminderCandidateRepository
 
     public async Task DeleteAsync(ReminderCandidate candidate, CancellationToken cancellationToken)
     {
-        _context.ReminderCandidates.Remove(candidate);
+        candidate.MarkDeleted();
         await _context.SaveChangesAsync(cancellationToken);
     }
 }
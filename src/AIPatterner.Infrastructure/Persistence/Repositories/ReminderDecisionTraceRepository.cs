@@ -0,0 +1,45 @@
+// EF Core repository implementation for ReminderDecisionTrace
+namespace AIPatterner.Infrastructure.Persistence.Repositories;
+
+using AIPatterner.Application.Handlers;
+using AIPatterner.Domain.Entities;
+using AIPatterner.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore;
+
+public class ReminderDecisionTraceRepository : IReminderDecisionTraceRepository
+{
+    private readonly ApplicationDbContext _context;
+
+    public ReminderDecisionTraceRepository(ApplicationDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task AddAsync(ReminderDecisionTrace trace, int keepLatest, CancellationToken cancellationToken)
+    {
+        await _context.ReminderDecisionTraces.AddAsync(trace, cancellationToken);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        // Recurring reminders are checked every occurrence, so only the recent checks are kept
+        var keptIds = _context.ReminderDecisionTraces
+            .Where(t => t.ReminderCandidateId == trace.ReminderCandidateId)
+            .OrderByDescending(t => t.EvaluatedAtUtc)
+            .Take(Math.Max(1, keepLatest))
+            .Select(t => t.Id);
+        await _context.ReminderDecisionTraces
+            .Where(t => t.ReminderCandidateId == trace.ReminderCandidateId && !keptIds.Contains(t.Id))
+            .ExecuteDeleteAsync(cancellationToken);
+    }
+
+    public async Task<List<ReminderDecisionTrace>> GetRecentByReminderCandidateAsync(
+        Guid reminderCandidateId,
+        int limit,
+        CancellationToken cancellationToken)
+    {
+        return await _context.ReminderDecisionTraces
+            .Where(t => t.ReminderCandidateId == reminderCandidateId)
+            .OrderByDescending(t => t.EvaluatedAtUtc)
+            .Take(limit)
+            .ToListAsync(cancellationToken);
+    }
+}
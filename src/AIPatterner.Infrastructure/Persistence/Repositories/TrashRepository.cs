@@ -0,0 +1,99 @@
+// Repository implementation for soft-deleted items across entity types
+namespace AIPatterner.Infrastructure.Persistence.Repositories;
+
+using AIPatterner.Application.DTOs;
+using AIPatterner.Application.Handlers;
+using AIPatterner.Domain.Entities;
+using AIPatterner.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore;
+
+public class TrashRepository : ITrashRepository
+{
+    private readonly ApplicationDbContext _context;
+
+    public TrashRepository(ApplicationDbContext context)
+    {
+        _context = context;
+    }
+
+    public Task<List<ISoftDeletable>> GetDeletedAsync(TrashItemType type, int page, int pageSize, CancellationToken cancellationToken)
+    {
+        return type switch
+        {
+            TrashItemType.Event => GetPageAsync(_context.ActionEvents, page, pageSize, cancellationToken),
+            TrashItemType.ReminderCandidate => GetPageAsync(_context.ReminderCandidates, page, pageSize, cancellationToken),
+            TrashItemType.ExecutionHistory => GetPageAsync(_context.ExecutionHistories, page, pageSize, cancellationToken),
+            TrashItemType.ApiKey => GetPageAsync(_context.ApiKeys, page, pageSize, cancellationToken),
+            TrashItemType.User => GetPageAsync(_context.Users, page, pageSize, cancellationToken),
+            _ => throw new ArgumentOutOfRangeException(nameof(type), type, null)
+        };
+    }
+
+    public async Task<Dictionary<TrashItemType, int>> GetDeletedCountsAsync(CancellationToken cancellationToken)
+    {
+        return new Dictionary<TrashItemType, int>
+        {
+            [TrashItemType.Event] = await Deleted(_context.ActionEvents).CountAsync(cancellationToken),
+            [TrashItemType.ReminderCandidate] = await Deleted(_context.ReminderCandidates).CountAsync(cancellationToken),
+            [TrashItemType.ExecutionHistory] = await Deleted(_context.ExecutionHistories).CountAsync(cancellationToken),
+            [TrashItemType.ApiKey] = await Deleted(_context.ApiKeys).CountAsync(cancellationToken),
+            [TrashItemType.User] = await Deleted(_context.Users).CountAsync(cancellationToken)
+        };
+    }
+
+    public async Task<ISoftDeletable?> GetDeletedByIdAsync(TrashItemType type, Guid id, CancellationToken cancellationToken)
+    {
+        return type switch
+        {
+            TrashItemType.Event => await Deleted(_context.ActionEvents).FirstOrDefaultAsync(e => e.Id == id, cancellationToken),
+            TrashItemType.ReminderCandidate => await Deleted(_context.ReminderCandidates).FirstOrDefaultAsync(c => c.Id == id, cancellationToken),
+            TrashItemType.ExecutionHistory => await Deleted(_context.ExecutionHistories).FirstOrDefaultAsync(h => h.Id == id, cancellationToken),
+            TrashItemType.ApiKey => await Deleted(_context.ApiKeys).FirstOrDefaultAsync(k => k.Id == id, cancellationToken),
+            TrashItemType.User => await Deleted(_context.Users).FirstOrDefaultAsync(u => u.Id == id, cancellationToken),
+            _ => throw new ArgumentOutOfRangeException(nameof(type), type, null)
+        };
+    }
+
+    public async Task<bool> IsUserIdentityTakenAsync(string username, string email, CancellationToken cancellationToken)
+    {
+        // The query filter limits this to live users
+        return await _context.Users.AnyAsync(u => u.Username == username || u.Email == email, cancellationToken);
+    }
+
+    public async Task RestoreAsync(ISoftDeletable item, CancellationToken cancellationToken)
+    {
+        // A user's keys were trashed with them; keys removed on their own before that stay in the trash
+        if (item is User { DeletedAtUtc: { } userDeletedAtUtc } user)
+        {
+            var apiKeys = await Deleted(_context.ApiKeys)
+                .Where(k => k.UserId == user.Id && k.DeletedAtUtc >= userDeletedAtUtc)
+                .ToListAsync(cancellationToken);
+            apiKeys.ForEach(k => k.Restore());
+        }
+
+        item.Restore();
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+
+    public async Task PurgeAsync(ISoftDeletable item, CancellationToken cancellationToken)
+    {
+        _context.Remove(item);
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+
+    private static IQueryable<T> Deleted<T>(DbSet<T> set) where T : class, ISoftDeletable
+    {
+        return set.IgnoreQueryFilters().Where(e => e.DeletedAtUtc != null);
+    }
+
+    private static async Task<List<ISoftDeletable>> GetPageAsync<T>(
+        DbSet<T> set, int page, int pageSize, CancellationToken cancellationToken) where T : class, ISoftDeletable
+    {
+        var items = await Deleted(set)
+            .OrderByDescending(e => e.DeletedAtUtc)
+            .Skip((page - 1) * pageSize)
+            .Take(pageSize)
+            .ToListAsync(cancellationToken);
+        return items.Cast<ISoftDeletable>().ToList();
+    }
+}
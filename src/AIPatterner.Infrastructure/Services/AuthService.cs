@@ -18,6 +18,8 @@ public interface IAuthService
 
 public class AuthService : IAuthService
 {
+    public const string HouseholdRoleClaimType = "household_role";
+
     private readonly IConfiguration _configuration;
     private readonly ILogger<AuthService> _logger;
 
@@ -70,6 +72,7 @@ public class AuthService : IAuthService
             new Claim(ClaimTypes.Name, user.Username),
             new Claim(ClaimTypes.Email, user.Email),
             new Claim(ClaimTypes.Role, user.Role),
+            new Claim(HouseholdRoleClaimType, user.HouseholdRole.ToString()),
             new Claim(JwtRegisteredClaimNames.Jti, Guid.NewGuid().ToString())
         };
 
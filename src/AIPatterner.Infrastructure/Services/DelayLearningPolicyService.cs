@@ -0,0 +1,42 @@
+// Service implementation for getting the delay-learning settings of routine reminders
+namespace AIPatterner.Infrastructure.Services;
+
+using AIPatterner.Application.Handlers;
+using AIPatterner.Application.Services;
+using Microsoft.Extensions.Configuration;
+
+/// <summary>
+/// Reads the DelayLearning configuration category, falling back to the Routine:DelayLearning settings.
+/// </summary>
+public class DelayLearningPolicyService : IDelayLearningPolicyService
+{
+    public const string Category = "DelayLearning";
+
+    private readonly IConfigurationRepository _configRepository;
+    private readonly IConfiguration _configuration;
+
+    public DelayLearningPolicyService(
+        IConfigurationRepository configRepository,
+        IConfiguration configuration)
+    {
+        _configRepository = configRepository;
+        _configuration = configuration;
+    }
+
+    public async Task<DelayLearningPolicy> GetPolicyAsync(CancellationToken cancellationToken)
+    {
+        var settings = new ConfigurationValueReader(
+            Category,
+            await _configRepository.GetByCategoryAsync(Category, cancellationToken),
+            _configuration);
+
+        return new DelayLearningPolicy
+        {
+            BaseAlpha = settings.GetNumber("BaseAlpha"),
+            HalfLifeDays = settings.GetNumber("HalfLifeDays"),
+            MaxEvidenceItems = settings.GetInteger("MaxEvidenceItems"),
+            MinSamplesForTiming = settings.GetNumber("MinSamplesForTiming"),
+            DefaultSuggestionDelaySeconds = settings.GetInteger("DefaultSuggestionDelaySeconds")
+        };
+    }
+}
@@ -2,6 +2,7 @@
 namespace AIPatterner.Infrastructure.Services;
 
 using AIPatterner.Application.Services;
+using AIPatterner.Domain.Entities;
 
 /// <summary>
 /// Evaluates the appropriate execution action (Suggest/Ask/Execute) for reminders.
@@ -1,6 +1,8 @@
 // Service implementation for LLM client (optional, can be disabled)
 namespace AIPatterner.Infrastructure.Services;
 
+using AIPatterner.Application.Handlers;
+using AIPatterner.Application.Services;
 using Microsoft.Extensions.Configuration;
 using Microsoft.Extensions.Logging;
 using System.Net.Http.Json;
@@ -8,25 +10,37 @@ using System.Net.Http.Json;
 public class LLMClient : ILLMClient
 {
     private readonly IConfiguration _configuration;
+    private readonly IConfigurationRepository _configRepository;
     private readonly ILogger<LLMClient> _logger;
     private readonly HttpClient? _httpClient;
 
-    public LLMClient(IConfiguration configuration, ILogger<LLMClient> logger, IHttpClientFactory? httpClientFactory = null)
+    public LLMClient(
+        IConfiguration configuration,
+        IConfigurationRepository configRepository,
+        ILogger<LLMClient> logger,
+        IHttpClientFactory? httpClientFactory = null)
     {
         _configuration = configuration;
+        _configRepository = configRepository;
         _logger = logger;
         _httpClient = httpClientFactory?.CreateClient("LLM");
     }
 
     public async Task<string?> GeneratePhraseAsync(string action, string personId, CancellationToken cancellationToken)
     {
-        var enabled = _configuration.GetValue<bool>("LLM:Enabled", false);
+        // The llm configuration category overrides the LLM section of appsettings.json
+        var settings = new ConfigurationValueReader(
+            "llm",
+            await _configRepository.GetByCategoryAsync("llm", cancellationToken),
+            _configuration);
+
+        var enabled = settings.GetBoolean("Enabled");
         if (!enabled)
         {
             return $"Would you like me to {action} now?";
         }
 
-        var endpoint = _configuration.GetValue<string>("LLM:Endpoint");
+        var endpoint = settings.GetString("Endpoint");
         if (string.IsNullOrEmpty(endpoint) || _httpClient == null)
         {
             _logger.LogWarning("LLM enabled but endpoint not configured, using fallback phrase");
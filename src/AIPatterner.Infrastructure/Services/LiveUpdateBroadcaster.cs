@@ -0,0 +1,68 @@
+// In-memory broadcaster fanning out live updates to server-sent events subscribers
+namespace AIPatterner.Infrastructure.Services;
+
+using System.Collections.Concurrent;
+using System.Threading.Channels;
+using AIPatterner.Application.DTOs;
+using AIPatterner.Application.Services;
+
+/// <summary>
+/// Keeps one bounded channel per connected client. Slow clients drop their oldest
+/// updates rather than blocking publishers.
+/// </summary>
+public class LiveUpdateBroadcaster : ILiveUpdateBroadcaster
+{
+    private const int SubscriberBufferSize = 100;
+
+    private readonly ConcurrentDictionary<Guid, Subscription> _subscriptions = new();
+
+    public void Publish(LiveUpdateDto update)
+    {
+        foreach (var subscription in _subscriptions.Values)
+        {
+            if (subscription.PersonId == null || subscription.PersonId == update.PersonId)
+            {
+                subscription.Channel.Writer.TryWrite(update);
+            }
+        }
+    }
+
+    public ILiveUpdateSubscription Subscribe(string? personId)
+    {
+        var subscription = new Subscription(this, personId);
+        _subscriptions[subscription.Id] = subscription;
+        return subscription;
+    }
+
+    private void Unsubscribe(Subscription subscription)
+    {
+        if (_subscriptions.TryRemove(subscription.Id, out _))
+        {
+            subscription.Channel.Writer.TryComplete();
+        }
+    }
+
+    private sealed class Subscription : ILiveUpdateSubscription
+    {
+        private readonly LiveUpdateBroadcaster _owner;
+
+        public Subscription(LiveUpdateBroadcaster owner, string? personId)
+        {
+            _owner = owner;
+            PersonId = personId;
+            Channel = System.Threading.Channels.Channel.CreateBounded<LiveUpdateDto>(
+                new BoundedChannelOptions(SubscriberBufferSize)
+                {
+                    FullMode = BoundedChannelFullMode.DropOldest,
+                    SingleReader = true
+                });
+        }
+
+        public Guid Id { get; } = Guid.NewGuid();
+        public string? PersonId { get; }
+        public Channel<LiveUpdateDto> Channel { get; }
+        public ChannelReader<LiveUpdateDto> Reader => Channel.Reader;
+
+        public void Dispose() => _owner.Unsubscribe(this);
+    }
+}
@@ -21,23 +21,20 @@ public class MatchingPolicyService : IMatchingPolicyService
 
     public async Task<MatchingCriteria> GetMatchingCriteriaAsync(CancellationToken cancellationToken)
     {
-        var policies = await _configRepository.GetByCategoryAsync("MatchingPolicy", cancellationToken);
-
-        var getValue = (string key, string defaultValue) =>
-        {
-            var config = policies.FirstOrDefault(c => c.Key == key);
-            return config?.Value ?? defaultValue;
-        };
+        var policies = new ConfigurationValueReader(
+            "MatchingPolicy",
+            await _configRepository.GetByCategoryAsync("MatchingPolicy", cancellationToken),
+            _configuration);
 
         return new MatchingCriteria
         {
-            MatchByActionType = getValue("MatchByActionType", "true") == "true",
-            MatchByDayType = getValue("MatchByDayType", "true") == "true",
-            MatchByPeoplePresent = getValue("MatchByPeoplePresent", "true") == "true",
-            MatchByStateSignals = getValue("MatchByStateSignals", "true") == "true",
-            MatchByTimeBucket = getValue("MatchByTimeBucket", "false") == "true",
-            MatchByLocation = getValue("MatchByLocation", "false") == "true",
-            TimeOffsetMinutes = int.TryParse(getValue("TimeOffsetMinutes", "45"), out var offset) ? offset : 45
+            MatchByActionType = policies.GetBoolean("MatchByActionType"),
+            MatchByDayType = policies.GetBoolean("MatchByDayType"),
+            MatchByPeoplePresent = policies.GetBoolean("MatchByPeoplePresent"),
+            MatchByStateSignals = policies.GetBoolean("MatchByStateSignals"),
+            MatchByTimeBucket = policies.GetBoolean("MatchByTimeBucket"),
+            MatchByLocation = policies.GetBoolean("MatchByLocation"),
+            TimeOffsetMinutes = policies.GetInteger("TimeOffsetMinutes")
         };
     }
 }
@@ -73,15 +73,111 @@ public class MatchingRemindersService : IMatchingRemindersService
         }
 
         // Start with all scheduled reminders for this person
-        var allReminders = await _context.ReminderCandidates
-            .Where(r => r.PersonId == actionEvent.PersonId)
+        var allReminders = await GetScheduledRemindersAsync(actionEvent.PersonId, cancellationToken);
+        var sortedReminders = await MatchAsync(
+            actionEvent, allReminders, criteria, signalStates, new Dictionary<Guid, List<ActionEvent>>(), cancellationToken);
+
+        return new ReminderCandidateListResponse
+        {
+            Items = _mapper.Map<List<ReminderCandidateDto>>(sortedReminders),
+            TotalCount = sortedReminders.Count,
+            Page = 1,
+            PageSize = sortedReminders.Count
+        };
+    }
+
+    public async Task<MatchingPolicySimulationResponse> SimulateAsync(
+        string personId,
+        DateTime fromUtc,
+        MatchingCriteria current,
+        MatchingCriteria proposed,
+        int maxEvents,
+        CancellationToken cancellationToken)
+    {
+        // StateChange events never match reminders under any policy, so only actions are replayed
+        var events = await _context.ActionEvents
+            .AsNoTracking()
+            .Where(e => e.PersonId == personId)
+            .Where(e => e.EventType != EventType.StateChange)
+            .Where(e => e.TimestampUtc >= fromUtc)
+            .OrderByDescending(e => e.TimestampUtc)
+            .Take(maxEvents + 1)
+            .ToListAsync(cancellationToken);
+
+        var reminders = await GetScheduledRemindersAsync(personId, cancellationToken);
+        var relatedEventsByReminder = new Dictionary<Guid, List<ActionEvent>>();
+        var response = new MatchingPolicySimulationResponse
+        {
+            PersonId = personId,
+            FromUtc = fromUtc,
+            Current = current,
+            Proposed = proposed,
+            Truncated = events.Count > maxEvents
+        };
+
+        foreach (var actionEvent in events.Take(maxEvents))
+        {
+            // Signal states are not stored with events, so the replay skips the similarity check like GET matching-reminders does
+            var before = await MatchAsync(actionEvent, reminders, current, null, relatedEventsByReminder, cancellationToken);
+            var after = await MatchAsync(actionEvent, reminders, proposed, null, relatedEventsByReminder, cancellationToken);
+            var beforeIds = before.Select(r => r.Id).ToHashSet();
+            var afterIds = after.Select(r => r.Id).ToHashSet();
+
+            var simulatedEvent = new MatchingSimulationEventDto
+            {
+                EventId = actionEvent.Id,
+                ActionType = actionEvent.ActionType,
+                TimestampUtc = actionEvent.TimestampUtc,
+                MatchedBefore = before.Count,
+                MatchedAfter = after.Count,
+                Reminders = after
+                    .Concat(before.Where(r => !afterIds.Contains(r.Id)))
+                    .Select(r => new MatchingSimulationReminderDto
+                    {
+                        ReminderId = r.Id,
+                        SuggestedAction = r.SuggestedAction,
+                        Confidence = r.Confidence,
+                        Change = !beforeIds.Contains(r.Id)
+                            ? MatchingSimulationChange.Gained
+                            : afterIds.Contains(r.Id) ? MatchingSimulationChange.Kept : MatchingSimulationChange.Lost
+                    })
+                    .ToList()
+            };
+
+            response.Events.Add(simulatedEvent);
+            response.GainedMatches += simulatedEvent.Reminders.Count(r => r.Change == MatchingSimulationChange.Gained);
+            response.LostMatches += simulatedEvent.Reminders.Count(r => r.Change == MatchingSimulationChange.Lost);
+            response.KeptMatches += simulatedEvent.Reminders.Count(r => r.Change == MatchingSimulationChange.Kept);
+            if (simulatedEvent.Reminders.Any(r => r.Change != MatchingSimulationChange.Kept))
+            {
+                response.ChangedEventCount++;
+            }
+        }
+
+        response.EventCount = response.Events.Count;
+        return response;
+    }
+
+    private async Task<List<ReminderCandidate>> GetScheduledRemindersAsync(string personId, CancellationToken cancellationToken)
+    {
+        return await _context.ReminderCandidates
+            .Where(r => r.PersonId == personId)
             .Where(r => r.Status == ReminderCandidateStatus.Scheduled)
             .ToListAsync(cancellationToken);
+    }
 
+    private async Task<List<ReminderCandidate>> MatchAsync(
+        ActionEvent actionEvent,
+        IReadOnlyList<ReminderCandidate> reminders,
+        MatchingCriteria criteria,
+        List<AIPatterner.Domain.ValueObjects.SignalState>? signalStates,
+        Dictionary<Guid, List<ActionEvent>> relatedEventsByReminder,
+        CancellationToken cancellationToken)
+    {
         var eventTime = actionEvent.TimestampUtc;
         var matchingReminders = new List<ReminderCandidate>();
 
-        foreach (var reminder in allReminders)
+        foreach (var reminder in reminders)
         {
             var matches = true;
 
@@ -160,19 +256,24 @@ public class MatchingRemindersService : IMatchingRemindersService
                 (criteria.MatchByDayType || criteria.MatchByPeoplePresent || 
                  criteria.MatchByTimeBucket || criteria.MatchByLocation))
             {
-                // Find events related to this reminder
-                var relatedEvents = await _context.ActionEvents
-                    .Where(e => e.RelatedReminderId == reminder.Id)
-                    .ToListAsync(cancellationToken);
-
-                // If no related events, check the source event that created this reminder
-                if (!relatedEvents.Any() && reminder.SourceEventId.HasValue)
+                // Find events related to this reminder; a replay asks for the same reminder once per event
+                if (!relatedEventsByReminder.TryGetValue(reminder.Id, out var relatedEvents))
                 {
-                    var sourceEvent = await _eventRepository.GetByIdAsync(reminder.SourceEventId.Value, cancellationToken);
-                    if (sourceEvent != null)
+                    relatedEvents = await _context.ActionEvents
+                        .Where(e => e.RelatedReminderId == reminder.Id)
+                        .ToListAsync(cancellationToken);
+
+                    // If no related events, check the source event that created this reminder
+                    if (!relatedEvents.Any() && reminder.SourceEventId.HasValue)
                     {
-                        relatedEvents = new List<ActionEvent> { sourceEvent };
+                        var sourceEvent = await _eventRepository.GetByIdAsync(reminder.SourceEventId.Value, cancellationToken);
+                        if (sourceEvent != null)
+                        {
+                            relatedEvents = new List<ActionEvent> { sourceEvent };
+                        }
                     }
+
+                    relatedEventsByReminder[reminder.Id] = relatedEvents;
                 }
 
                 // If still no events found, allow matching based on time and action type alone
@@ -228,8 +329,8 @@ public class MatchingRemindersService : IMatchingRemindersService
             // to allow gradual pattern learning across different days/contexts
 
             // 5. Signal similarity check (if signal selection is enabled)
-            var isSignalSelectionEnabled = await _signalPolicyService.IsSignalSelectionEnabledAsync(cancellationToken);
-            if (isSignalSelectionEnabled && signalStates != null && signalStates.Count > 0)
+            if (signalStates != null && signalStates.Count > 0 &&
+                await _signalPolicyService.IsSignalSelectionEnabledAsync(cancellationToken))
             {
                 var reminderBaseline = reminder.GetSignalProfile();
                 
@@ -263,18 +364,10 @@ public class MatchingRemindersService : IMatchingRemindersService
         }
 
         // Sort by confidence (highest first), then by check time (earliest first)
-        var sortedReminders = matchingReminders
+        return matchingReminders
             .OrderByDescending(r => r.Confidence)
             .ThenBy(r => r.CheckAtUtc)
             .ToList();
-
-        return new ReminderCandidateListResponse
-        {
-            Items = _mapper.Map<List<ReminderCandidateDto>>(sortedReminders),
-            TotalCount = sortedReminders.Count,
-            Page = 1,
-            PageSize = sortedReminders.Count
-        };
     }
 }
 
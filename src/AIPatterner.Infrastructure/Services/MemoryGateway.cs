@@ -2,6 +2,7 @@
 namespace AIPatterner.Infrastructure.Services;
 
 using AIPatterner.Application.Handlers;
+using AIPatterner.Application.Services;
 using Microsoft.Extensions.Configuration;
 using Microsoft.Extensions.Logging;
 using System.Net.Http.Json;
@@ -9,29 +10,38 @@ using System.Net.Http.Json;
 public class MemoryGateway : IMemoryGateway
 {
     private readonly IConfiguration _configuration;
+    private readonly IConfigurationRepository _configRepository;
     private readonly ILogger<MemoryGateway> _logger;
     private readonly HttpClient? _httpClient;
 
     public MemoryGateway(
         IConfiguration configuration,
+        IConfigurationRepository configRepository,
         ILogger<MemoryGateway> logger,
         IHttpClientFactory? httpClientFactory = null)
     {
         _configuration = configuration;
+        _configRepository = configRepository;
         _logger = logger;
         _httpClient = httpClientFactory?.CreateClient("Memory");
     }
 
     public async Task PushSummaryAsync(string summary, CancellationToken cancellationToken)
     {
-        var enabled = _configuration.GetValue<bool>("Memory:Enabled", false);
+        // The memory configuration category overrides the Memory section of appsettings.json
+        var settings = new ConfigurationValueReader(
+            "memory",
+            await _configRepository.GetByCategoryAsync("memory", cancellationToken),
+            _configuration);
+
+        var enabled = settings.GetBoolean("Enabled");
         if (!enabled)
         {
             _logger.LogDebug("Memory gateway disabled, skipping summary push");
             return;
         }
 
-        var endpoint = _configuration.GetValue<string>("Memory:Endpoint");
+        var endpoint = settings.GetString("Endpoint");
         if (string.IsNullOrEmpty(endpoint) || _httpClient == null)
         {
             _logger.LogWarning("Memory enabled but endpoint not configured, skipping summary push");
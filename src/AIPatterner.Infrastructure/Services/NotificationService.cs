@@ -2,6 +2,7 @@
 namespace AIPatterner.Infrastructure.Services;
 
 using AIPatterner.Application.Handlers;
+using AIPatterner.Application.Services;
 using AIPatterner.Domain.Entities;
 using Microsoft.Extensions.Configuration;
 using Microsoft.Extensions.Logging;
@@ -35,15 +36,12 @@ public class NotificationService : INotificationService
         ReminderDecision decision,
         CancellationToken cancellationToken)
     {
-        // Try to get webhook URL from database configuration first, fallback to appsettings.json
-        var webhookConfig = await _configurationRepository.GetByKeyAndCategoryAsync("WebhookUrl", "Notifications", cancellationToken);
-        var webhookUrl = webhookConfig?.Value;
-        
-        if (string.IsNullOrEmpty(webhookUrl))
-        {
-            // Fallback to appsettings.json
-            webhookUrl = _configuration.GetValue<string>("Notifications:WebhookUrl");
-        }
+        // Database configuration first, falling back to Notifications:WebhookUrl in appsettings.json
+        var notifications = new ConfigurationValueReader(
+            "notifications",
+            await _configurationRepository.GetByCategoryAsync("notifications", cancellationToken),
+            _configuration);
+        var webhookUrl = notifications.GetString("WebhookUrl");
         
         if (string.IsNullOrEmpty(webhookUrl))
         {
@@ -2,6 +2,7 @@
 namespace AIPatterner.Infrastructure.Services;
 
 using AIPatterner.Application.Handlers;
+using AIPatterner.Application.Services;
 using AIPatterner.Domain.Entities;
 using AIPatterner.Infrastructure.Persistence;
 using Microsoft.EntityFrameworkCore;
@@ -14,6 +15,7 @@ public class ReminderEvaluationService : IReminderEvaluationService
     private readonly AIPatterner.Application.Handlers.ICooldownService _cooldownService;
     private readonly IContextService _contextService;
     private readonly ILLMClient _llmClient;
+    private readonly ISignalPolicyService _signalPolicyService;
     private readonly IConfiguration _configuration;
     private readonly ILogger<ReminderEvaluationService> _logger;
 
@@ -22,6 +24,7 @@ public class ReminderEvaluationService : IReminderEvaluationService
         AIPatterner.Application.Handlers.ICooldownService cooldownService,
         IContextService contextService,
         ILLMClient llmClient,
+        ISignalPolicyService signalPolicyService,
         IConfiguration configuration,
         ILogger<ReminderEvaluationService> logger)
     {
@@ -29,22 +32,30 @@ public class ReminderEvaluationService : IReminderEvaluationService
         _cooldownService = cooldownService;
         _contextService = contextService;
         _llmClient = llmClient;
+        _signalPolicyService = signalPolicyService;
         _configuration = configuration;
         _logger = logger;
     }
 
-    public async Task<ReminderDecision> EvaluateAsync(ReminderCandidate candidate, CancellationToken cancellationToken)
+    public async Task<ReminderDecision> EvaluateAsync(
+        ReminderCandidate candidate,
+        DecisionTrace trace,
+        CancellationToken cancellationToken)
     {
         var preferences = await _context.UserReminderPreferences
             .FirstOrDefaultAsync(p => p.PersonId == candidate.PersonId, cancellationToken);
 
         if (preferences == null || !preferences.Enabled)
         {
+            trace.Failed(
+                DecisionGate.Preferences,
+                preferences == null ? "No reminder preferences for this person" : "Reminders are turned off in the person's preferences");
             return new ReminderDecision(
                 false,
                 "User preferences disabled",
                 0.0);
         }
+        trace.Passed(DecisionGate.Preferences, "Reminders are on for this person");
 
         var isCooldownActive = await _cooldownService.IsCooldownActiveAsync(
             candidate.PersonId,
@@ -53,11 +64,13 @@ public class ReminderEvaluationService : IReminderEvaluationService
 
         if (isCooldownActive)
         {
+            trace.Failed(DecisionGate.Cooldown, $"A cooldown is active for {candidate.SuggestedAction}");
             return new ReminderDecision(
                 false,
                 "Cooldown period active",
                 0.0);
         }
+        trace.Passed(DecisionGate.Cooldown, "No active cooldown");
 
         var todayCount = await _context.ReminderCandidates
             .CountAsync(c =>
@@ -69,11 +82,13 @@ public class ReminderEvaluationService : IReminderEvaluationService
 
         if (todayCount >= preferences.DailyLimit)
         {
+            trace.Failed(DecisionGate.DailyLimit, "Daily reminder limit reached", todayCount, preferences.DailyLimit);
             return new ReminderDecision(
                 false,
                 $"Daily limit reached: {todayCount}/{preferences.DailyLimit}",
                 0.0);
         }
+        trace.Passed(DecisionGate.DailyLimit, "Below the daily reminder limit", todayCount, preferences.DailyLimit);
 
         var lastReminder = await _context.ReminderCandidates
             .Where(c =>
@@ -88,23 +103,47 @@ public class ReminderEvaluationService : IReminderEvaluationService
             var timeSinceLast = DateTime.UtcNow - lastReminder.ExecutedAtUtc.Value;
             if (timeSinceLast < preferences.MinimumInterval)
             {
+                trace.Failed(
+                    DecisionGate.MinimumInterval,
+                    "Too soon after the last reminder (minutes)",
+                    timeSinceLast.TotalMinutes,
+                    preferences.MinimumInterval.TotalMinutes);
                 return new ReminderDecision(
                     false,
                     $"Minimum interval not met: {timeSinceLast.TotalMinutes:F1} min < {preferences.MinimumInterval.TotalMinutes} min",
                     0.0);
             }
+            trace.Passed(
+                DecisionGate.MinimumInterval,
+                "Enough time since the last reminder (minutes)",
+                timeSinceLast.TotalMinutes,
+                preferences.MinimumInterval.TotalMinutes);
+        }
+        else
+        {
+            trace.Passed(
+                DecisionGate.MinimumInterval,
+                "No earlier reminder has been sent",
+                null,
+                preferences.MinimumInterval.TotalMinutes);
         }
 
         var currentContext = await _contextService.GetCurrentContextAsync(candidate.PersonId, cancellationToken);
         var interruptionCost = await _contextService.EvaluateInterruptionCostAsync(currentContext, cancellationToken);
 
-        if (interruptionCost > _configuration.GetValue<double>("Policy:MaxInterruptionCost", 0.7))
+        var maxInterruptionCost = new ConfigurationValueReader("Policy", _configuration).GetNumber("MaxInterruptionCost");
+
+        if (interruptionCost > maxInterruptionCost)
         {
+            trace.Failed(DecisionGate.InterruptionCost, "Interrupting now would cost too much", interruptionCost, maxInterruptionCost);
             return new ReminderDecision(
                 false,
                 $"Interruption cost too high: {interruptionCost:F2}",
                 0.0);
         }
+        trace.Passed(DecisionGate.InterruptionCost, "Interruption cost is acceptable", interruptionCost, maxInterruptionCost);
+
+        await TraceSignalSimilarityAsync(candidate, trace, cancellationToken);
 
         var confidence = 0.7;
         if (candidate.TransitionId.HasValue)
@@ -130,6 +169,31 @@ public class ReminderEvaluationService : IReminderEvaluationService
             naturalLanguagePhrase);
     }
 
+    // Signals are only known when an event arrives, so similarity is enforced while matching events
+    // to reminders; a check can only report whether that gate is in play for this reminder.
+    private async Task TraceSignalSimilarityAsync(ReminderCandidate candidate, DecisionTrace trace, CancellationToken cancellationToken)
+    {
+        if (!await _signalPolicyService.IsSignalSelectionEnabledAsync(cancellationToken))
+        {
+            trace.Skipped(DecisionGate.SignalSimilarity, "Signal matching is turned off");
+            return;
+        }
+
+        var threshold = await _signalPolicyService.GetSignalSimilarityThresholdAsync(cancellationToken);
+        var baseline = candidate.GetSignalProfile();
+        if (baseline == null || baseline.Signals.Count == 0)
+        {
+            trace.Skipped(DecisionGate.SignalSimilarity, "No signal baseline learned yet", null, threshold);
+            return;
+        }
+
+        trace.Skipped(
+            DecisionGate.SignalSimilarity,
+            $"Checked against the {baseline.Signals.Count}-signal baseline when events arrive, not at check time",
+            null,
+            threshold);
+    }
+
     public async Task<string> GenerateMemorySummaryAsync(
         ReminderCandidate candidate,
         ReminderDecision decision,
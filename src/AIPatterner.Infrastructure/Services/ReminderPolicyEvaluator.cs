@@ -1,6 +1,7 @@
 // Domain service implementation for evaluating reminder policies
 namespace AIPatterner.Infrastructure.Services;
 
+using AIPatterner.Application.Services;
 using AIPatterner.Domain.Entities;
 using AIPatterner.Domain.Services;
 using Microsoft.Extensions.Configuration;
@@ -28,7 +29,7 @@ public class ReminderPolicyEvaluator : IReminderPolicyEvaluator
             return Task.FromResult<ReminderPolicyDecision?>(null);
         }
 
-        var minOccurrences = _configuration.GetValue<int>("Policy:MinimumOccurrences", 3);
+        var minOccurrences = new ConfigurationValueReader("Policy", _configuration).GetInteger("MinimumOccurrences");
         if (transition.OccurrenceCount < minOccurrences)
         {
             _logger.LogDebug(
@@ -37,7 +38,7 @@ public class ReminderPolicyEvaluator : IReminderPolicyEvaluator
             return Task.FromResult<ReminderPolicyDecision?>(null);
         }
 
-        var minConfidence = _configuration.GetValue<double>("Policy:MinimumConfidence", 0.4);
+        var minConfidence = new ConfigurationValueReader("Policy", _configuration).GetNumber("MinimumConfidence");
         if (transition.Confidence < minConfidence)
         {
             _logger.LogDebug(
@@ -78,9 +78,10 @@ public class ReminderScheduler : IReminderScheduler
             await _context.SaveChangesAsync(cancellationToken);
         }
 
-        var defaultConfidence = _configuration.GetValue<double>("Policy:DefaultReminderConfidence", 0.5);
-        var confidenceStep = _configuration.GetValue<double>("Policy:ConfidenceStepValue", 0.1);
-        var timeOffsetMinutes = _configuration.GetValue<int>("Policy:ReminderMatchTimeOffsetMinutes", 30);
+        var policy = new ConfigurationValueReader("Policy", _configuration);
+        var defaultConfidence = policy.GetNumber("DefaultReminderConfidence");
+        var confidenceStep = policy.GetNumber("ConfidenceStepValue");
+        var timeOffsetMinutes = policy.GetInteger("ReminderMatchTimeOffsetMinutes");
 
         foreach (var transition in recentTransitions)
         {
@@ -108,7 +109,7 @@ public class ReminderScheduler : IReminderScheduler
                 if (existingReminder != null)
                 {
                     // Increase confidence of existing reminder
-                    existingReminder.IncreaseConfidence(confidenceStep);
+                    existingReminder.IncreaseConfidence(confidenceStep, ConfidenceChangeSource.Event, actionEvent.Id);
                     
                     // Record evidence with context information
                     existingReminder.RecordEvidence(
@@ -117,8 +118,8 @@ public class ReminderScheduler : IReminderScheduler
                         actionEvent.Context.DayType);
                     
                     // Update pattern inference
-                    var minDailyEvidence = _configuration.GetValue<int>("Policy:MinDailyEvidence", 3);
-                    var minWeeklyEvidence = _configuration.GetValue<int>("Policy:MinWeeklyEvidence", 3);
+                    var minDailyEvidence = policy.GetInteger("MinDailyEvidence");
+                    var minWeeklyEvidence = policy.GetInteger("MinWeeklyEvidence");
                     existingReminder.UpdateInferredPattern(minDailyEvidence, minWeeklyEvidence);
                     
                     _context.ReminderCandidates.Update(existingReminder);
@@ -153,8 +154,8 @@ public class ReminderScheduler : IReminderScheduler
                         actionEvent.Context.DayType);
                     
                     // Update pattern inference
-                    var minDailyEvidence = _configuration.GetValue<int>("Policy:MinDailyEvidence", 3);
-                    var minWeeklyEvidence = _configuration.GetValue<int>("Policy:MinWeeklyEvidence", 3);
+                    var minDailyEvidence = policy.GetInteger("MinDailyEvidence");
+                    var minWeeklyEvidence = policy.GetInteger("MinWeeklyEvidence");
                     candidate.UpdateInferredPattern(minDailyEvidence, minWeeklyEvidence);
 
                     await _context.ReminderCandidates.AddAsync(candidate, cancellationToken);
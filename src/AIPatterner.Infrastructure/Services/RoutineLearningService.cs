@@ -21,6 +21,8 @@ public class RoutineLearningService : IRoutineLearningService
     private readonly AIPatterner.Domain.Services.ISignalSelector _signalSelector;
     private readonly AIPatterner.Domain.Services.ISignalSimilarityEvaluator _similarityEvaluator;
     private readonly AIPatterner.Application.Services.ISignalPolicyService _signalPolicyService;
+    private readonly IDelayLearningPolicyService _delayLearningPolicyService;
+    private readonly IRoutinePolicyService _routinePolicyService;
 
     public RoutineLearningService(
         IRoutineRepository routineRepository,
@@ -31,7 +33,9 @@ public class RoutineLearningService : IRoutineLearningService
         ILogger<RoutineLearningService> logger,
         AIPatterner.Domain.Services.ISignalSelector signalSelector,
         AIPatterner.Domain.Services.ISignalSimilarityEvaluator similarityEvaluator,
-        AIPatterner.Application.Services.ISignalPolicyService signalPolicyService)
+        AIPatterner.Application.Services.ISignalPolicyService signalPolicyService,
+        IDelayLearningPolicyService delayLearningPolicyService,
+        IRoutinePolicyService routinePolicyService)
     {
         _routineRepository = routineRepository;
         _routineReminderRepository = routineReminderRepository;
@@ -42,6 +46,8 @@ public class RoutineLearningService : IRoutineLearningService
         _signalSelector = signalSelector;
         _similarityEvaluator = similarityEvaluator;
         _signalPolicyService = signalPolicyService;
+        _delayLearningPolicyService = delayLearningPolicyService;
+        _routinePolicyService = routinePolicyService;
     }
 
     /// <summary>
@@ -79,8 +85,8 @@ public class RoutineLearningService : IRoutineLearningService
             intentEvent.ActionType,
             cancellationToken);
 
-        // Get observation window from Policies configuration (default 60 minutes) for new routines
-        var defaultObservationWindowMinutes = _configuration.GetValue<int>("Policies:RoutineObservationWindowMinutes", 60);
+        // Observation window for new routines (Routine category, default 60 minutes)
+        var defaultObservationWindowMinutes = (await _routinePolicyService.GetPolicyAsync(cancellationToken)).ObservationWindowMinutes;
 
         if (routine == null)
         {
@@ -281,13 +287,14 @@ public class RoutineLearningService : IRoutineLearningService
             observedEvent.ActionType,
             cancellationToken);
 
-        var defaultProbability = _configuration.GetValue<double>("Routine:DefaultRoutineProbability", 0.5);
-        var increaseStep = _configuration.GetValue<double>("Routine:ProbabilityIncreaseStep", 0.1);
+        var routinePolicy = await _routinePolicyService.GetPolicyAsync(cancellationToken);
+        var defaultProbability = routinePolicy.DefaultRoutineProbability;
+        var increaseStep = routinePolicy.ProbabilityIncreaseStep;
 
         if (reminder != null)
         {
             // Update existing reminder - increase probability
-            reminder.IncreaseConfidence(increaseStep);
+            reminder.IncreaseConfidence(increaseStep, ConfidenceChangeSource.Event, observedEvent.Id);
             reminder.RecordObservation(observedEvent.TimestampUtc);
 
             // Delay learning (relative to routine activation; updated only within learning window)
@@ -296,18 +303,16 @@ public class RoutineLearningService : IRoutineLearningService
                 var observedDelaySeconds = (observedEvent.TimestampUtc - routine.ObservationWindowStartUtc.Value).TotalSeconds;
                 if (observedDelaySeconds >= 0)
                 {
-                    var baseAlpha = _configuration.GetValue<double>("Routine:DelayLearning:BaseAlpha", 0.2);
-                    var halfLifeDays = _configuration.GetValue<double>("Routine:DelayLearning:HalfLifeDays", 30.0);
-                    var maxEvidence = _configuration.GetValue<int>("Routine:DelayLearning:MaxEvidenceItems", 200);
+                    var delayPolicy = await _delayLearningPolicyService.GetPolicyAsync(cancellationToken);
 
                     reminder.RecordDelayObservation(
                         routine.ObservationWindowStartUtc.Value,
                         observedEvent.TimestampUtc,
                         observedDelaySeconds,
                         observedEvent.Id,
-                        baseAlpha,
-                        halfLifeDays,
-                        maxEvidence);
+                        delayPolicy.BaseAlpha,
+                        delayPolicy.HalfLifeDays,
+                        delayPolicy.MaxEvidenceItems);
                 }
             }
             
@@ -357,7 +362,8 @@ public class RoutineLearningService : IRoutineLearningService
                 observedEvent.ActionType,
                 defaultProbability,
                 customData.Count > 0 ? customData : null,
-                activeBucket);
+                activeBucket,
+                observedEvent.Id);
             
             newReminder.RecordObservation(observedEvent.TimestampUtc);
 
@@ -366,18 +372,16 @@ public class RoutineLearningService : IRoutineLearningService
                 var observedDelaySeconds = (observedEvent.TimestampUtc - routine.ObservationWindowStartUtc.Value).TotalSeconds;
                 if (observedDelaySeconds >= 0)
                 {
-                    var baseAlpha = _configuration.GetValue<double>("Routine:DelayLearning:BaseAlpha", 0.2);
-                    var halfLifeDays = _configuration.GetValue<double>("Routine:DelayLearning:HalfLifeDays", 30.0);
-                    var maxEvidence = _configuration.GetValue<int>("Routine:DelayLearning:MaxEvidenceItems", 200);
+                    var delayPolicy = await _delayLearningPolicyService.GetPolicyAsync(cancellationToken);
 
                     newReminder.RecordDelayObservation(
                         routine.ObservationWindowStartUtc.Value,
                         observedEvent.TimestampUtc,
                         observedDelaySeconds,
                         observedEvent.Id,
-                        baseAlpha,
-                        halfLifeDays,
-                        maxEvidence);
+                        delayPolicy.BaseAlpha,
+                        delayPolicy.HalfLifeDays,
+                        delayPolicy.MaxEvidenceItems);
                 }
             }
             
@@ -422,8 +426,9 @@ public class RoutineLearningService : IRoutineLearningService
             return;
         }
 
-        var minSamples = _configuration.GetValue<double>("Routine:DelayLearning:MinSamplesForTiming", 3.0);
-        var defaultSuggestionDelaySeconds = _configuration.GetValue<int>("Routine:DelayLearning:DefaultSuggestionDelaySeconds", 120);
+        var delayPolicy = await _delayLearningPolicyService.GetPolicyAsync(cancellationToken);
+        var minSamples = delayPolicy.MinSamplesForTiming;
+        var defaultSuggestionDelaySeconds = delayPolicy.DefaultSuggestionDelaySeconds;
 
         foreach (var rr in remindersInBucket)
         {
@@ -466,6 +471,10 @@ public class RoutineLearningService : IRoutineLearningService
                 customData);
 
             candidate.SetIsSafeToAutoExecute(rr.IsSafeToAutoExecute);
+            if (rr.PreferredExecutionAction.HasValue)
+            {
+                candidate.SetPreferredExecutionAction(rr.PreferredExecutionAction.Value);
+            }
             await _reminderCandidateRepository.AddAsync(candidate, cancellationToken);
         }
     }
@@ -487,7 +496,7 @@ public class RoutineLearningService : IRoutineLearningService
             return;
         }
 
-        reminder.UpdateConfidence(value, action);
+        reminder.UpdateConfidence(value, action, ConfidenceChangeSource.Feedback);
         await _routineReminderRepository.UpdateAsync(reminder, cancellationToken);
         
         _logger.LogInformation(
@@ -0,0 +1,40 @@
+// Service implementation for getting the settings routines are learned with
+namespace AIPatterner.Infrastructure.Services;
+
+using AIPatterner.Application.Handlers;
+using AIPatterner.Application.Services;
+using Microsoft.Extensions.Configuration;
+
+/// <summary>
+/// Reads the Routine configuration category, falling back to the settings the schema names for each key.
+/// </summary>
+public class RoutinePolicyService : IRoutinePolicyService
+{
+    public const string Category = "Routine";
+
+    private readonly IConfigurationRepository _configRepository;
+    private readonly IConfiguration _configuration;
+
+    public RoutinePolicyService(
+        IConfigurationRepository configRepository,
+        IConfiguration configuration)
+    {
+        _configRepository = configRepository;
+        _configuration = configuration;
+    }
+
+    public async Task<RoutinePolicy> GetPolicyAsync(CancellationToken cancellationToken)
+    {
+        var settings = new ConfigurationValueReader(
+            Category,
+            await _configRepository.GetByCategoryAsync(Category, cancellationToken),
+            _configuration);
+
+        return new RoutinePolicy
+        {
+            ObservationWindowMinutes = settings.GetInteger("ObservationWindowMinutes"),
+            DefaultRoutineProbability = settings.GetNumber("DefaultRoutineProbability"),
+            ProbabilityIncreaseStep = settings.GetNumber("ProbabilityIncreaseStep")
+        };
+    }
+}
@@ -3,6 +3,7 @@ namespace AIPatterner.Infrastructure.Workers;
 
 using AIPatterner.Application.Commands;
 using AIPatterner.Application.Handlers;
+using AIPatterner.Application.Services;
 using MediatR;
 using Microsoft.Extensions.Configuration;
 using Microsoft.Extensions.DependencyInjection;
@@ -50,7 +51,7 @@ public class CandidateSchedulerWorker : BackgroundService
                 // Default behavior: only auto-process high-confidence + safe candidates.
                 // Routine-triggered candidates are an exception: they are contextual (user intent) and should be processed
                 // even when confidence is low, so we can Ask/Suggest during/after activation.
-                var minProbability = configuration.GetValue<double>("Policy:MinimumProbabilityForExecution", 0.7);
+                var minProbability = new ConfigurationValueReader("Policy", configuration).GetNumber("MinimumProbabilityForExecution");
                 var candidatesToProcess = dueCandidates
                     .Where(c =>
                         IsRoutineCandidate(c) ||
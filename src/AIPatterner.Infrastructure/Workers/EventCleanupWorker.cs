@@ -41,6 +41,7 @@ public class EventCleanupWorker : BackgroundService
 
                 var cutoffDate = DateTime.UtcNow.AddDays(-retentionDays);
                 var deletedCount = await context.ActionEvents
+                    .IgnoreQueryFilters()
                     .Where(e => e.CreatedAtUtc < cutoffDate)
                     .ExecuteDeleteAsync(stoppingToken);
 
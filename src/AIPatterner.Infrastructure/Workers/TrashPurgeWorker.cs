@@ -0,0 +1,71 @@
+// Background worker for permanently removing soft-deleted items once their retention runs out
+namespace AIPatterner.Infrastructure.Workers;
+
+using AIPatterner.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+
+public class TrashPurgeWorker : BackgroundService
+{
+    private readonly IServiceProvider _serviceProvider;
+    private readonly IConfiguration _configuration;
+    private readonly ILogger<TrashPurgeWorker> _logger;
+
+    public TrashPurgeWorker(
+        IServiceProvider serviceProvider,
+        IConfiguration configuration,
+        ILogger<TrashPurgeWorker> logger)
+    {
+        _serviceProvider = serviceProvider;
+        _configuration = configuration;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        var interval = TimeSpan.FromHours(
+            _configuration.GetValue<int>("Trash:PurgeIntervalHours", 6));
+        var retentionDays = _configuration.GetValue<int>("Trash:RetentionDays", 30);
+
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try
+            {
+                await Task.Delay(interval, stoppingToken);
+
+                using var scope = _serviceProvider.CreateScope();
+                var context = scope.ServiceProvider.GetRequiredService<ApplicationDbContext>();
+
+                var cutoffDate = DateTime.UtcNow.AddDays(-retentionDays);
+                var purgedCount =
+                    await context.ActionEvents.IgnoreQueryFilters()
+                        .Where(e => e.DeletedAtUtc < cutoffDate)
+                        .ExecuteDeleteAsync(stoppingToken) +
+                    await context.ReminderCandidates.IgnoreQueryFilters()
+                        .Where(c => c.DeletedAtUtc < cutoffDate)
+                        .ExecuteDeleteAsync(stoppingToken) +
+                    await context.ExecutionHistories.IgnoreQueryFilters()
+                        .Where(h => h.DeletedAtUtc < cutoffDate)
+                        .ExecuteDeleteAsync(stoppingToken) +
+                    await context.ApiKeys.IgnoreQueryFilters()
+                        .Where(k => k.DeletedAtUtc < cutoffDate)
+                        .ExecuteDeleteAsync(stoppingToken) +
+                    await context.Users.IgnoreQueryFilters()
+                        .Where(u => u.DeletedAtUtc < cutoffDate)
+                        .ExecuteDeleteAsync(stoppingToken);
+
+                if (purgedCount > 0)
+                {
+                    _logger.LogInformation("Purged {Count} trashed items deleted before {CutoffDate}", purgedCount, cutoffDate);
+                }
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error during trash purge");
+            }
+        }
+    }
+}
@@ -66,6 +66,8 @@ public class EventIngestionFlowTests
         var signalSelector = new AIPatterner.Infrastructure.Services.SignalSelector(config, loggerFactory.CreateLogger<AIPatterner.Infrastructure.Services.SignalSelector>());
         var similarityEvaluator = new AIPatterner.Infrastructure.Services.SignalSimilarityEvaluator(loggerFactory.CreateLogger<AIPatterner.Infrastructure.Services.SignalSimilarityEvaluator>());
         var signalPolicyService = new AIPatterner.Infrastructure.Services.SignalPolicyService(configRepo, config);
+        var delayLearningPolicyService = new AIPatterner.Infrastructure.Services.DelayLearningPolicyService(configRepo, config);
+        var routinePolicyService = new AIPatterner.Infrastructure.Services.RoutinePolicyService(configRepo, config);
         var matchingRemindersService = new MatchingRemindersService(eventRepo, context, mapper, signalSelector, similarityEvaluator, signalPolicyService, loggerFactory.CreateLogger<MatchingRemindersService>());
         
         var routineRepository = new RoutineRepository(context);
@@ -79,7 +81,9 @@ public class EventIngestionFlowTests
             loggerFactory.CreateLogger<RoutineLearningService>(),
             signalSelector,
             similarityEvaluator,
-            signalPolicyService);
+            signalPolicyService,
+            delayLearningPolicyService,
+            routinePolicyService);
 
         var reminderScheduler = new ReminderScheduler(
             context,
@@ -3,6 +3,7 @@ namespace AIPatterner.Tests.Integration;
 
 using AIPatterner.Application.Commands;
 using AIPatterner.Application.DTOs;
+using AIPatterner.Application.Queries;
 using AIPatterner.Domain.Entities;
 using Microsoft.EntityFrameworkCore;
 using Xunit;
@@ -403,5 +404,46 @@ public class EventMatchingPatternTests : RealDatabaseTestBase
             $"Expected at most 2 reminders, but got {remindersCreated.Count}. " +
             $"This suggests events beyond 30 minutes created new reminders.");
     }
-}
 
+    [Fact]
+    public async Task SimulateMatchingPolicy_WithoutActionTypeMatching_ShouldGainMatchesWithoutSaving()
+    {
+        // Arrange - two actions ten minutes apart learn two reminders
+        var personId = "simulation_user";
+        var baseTime = DateTime.UtcNow.AddHours(-2);
+
+        foreach (var (actionType, offset) in new[] { ("make_coffee", 0), ("make_tea", 10) })
+        {
+            var eventDto = new ActionEventDto
+            {
+                PersonId = personId,
+                ActionType = actionType,
+                TimestampUtc = baseTime.AddMinutes(offset),
+                Context = new ActionContextDto
+                {
+                    TimeBucket = "afternoon",
+                    DayType = "weekday"
+                },
+                ProbabilityValue = 0.1,
+                ProbabilityAction = ProbabilityAction.Increase
+            };
+            await EventHandler.Handle(new IngestEventCommand { Event = eventDto }, CancellationToken.None);
+        }
+
+        var reminderCount = await Context.ReminderCandidates.CountAsync(r => r.PersonId == personId);
+        var current = new MatchingCriteria { TimeOffsetMinutes = 45 };
+        var proposed = new MatchingCriteria { MatchByActionType = false, TimeOffsetMinutes = 45 };
+
+        // Act
+        var result = await MatchingRemindersService.SimulateAsync(
+            personId, DateTime.UtcNow.AddDays(-1), current, proposed, 500, CancellationToken.None);
+
+        // Assert - each event now also matches the other action's reminder, and nothing was saved
+        Assert.Equal(2, result.EventCount);
+        Assert.False(result.Truncated);
+        Assert.True(result.GainedMatches > 0);
+        Assert.Equal(0, result.LostMatches);
+        Assert.All(result.Events, e => Assert.True(e.MatchedAfter >= e.MatchedBefore));
+        Assert.Equal(reminderCount, await Context.ReminderCandidates.CountAsync(r => r.PersonId == personId));
+    }
+}
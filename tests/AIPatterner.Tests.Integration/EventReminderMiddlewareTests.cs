@@ -73,6 +73,8 @@ public class EventReminderMiddlewareTests : IDisposable
         var signalSelector = new AIPatterner.Infrastructure.Services.SignalSelector(_configuration, loggerFactory.CreateLogger<AIPatterner.Infrastructure.Services.SignalSelector>());
         var similarityEvaluator = new AIPatterner.Infrastructure.Services.SignalSimilarityEvaluator(loggerFactory.CreateLogger<AIPatterner.Infrastructure.Services.SignalSimilarityEvaluator>());
         var signalPolicyService = new AIPatterner.Infrastructure.Services.SignalPolicyService(configRepo, _configuration);
+        var delayLearningPolicyService = new AIPatterner.Infrastructure.Services.DelayLearningPolicyService(configRepo, _configuration);
+        var routinePolicyService = new AIPatterner.Infrastructure.Services.RoutinePolicyService(configRepo, _configuration);
         var matchingRemindersService = new MatchingRemindersService(_eventRepository, _context, mapper, signalSelector, similarityEvaluator, signalPolicyService, loggerFactory.CreateLogger<MatchingRemindersService>());
         
         var routineRepository = new RoutineRepository(_context);
@@ -86,7 +88,9 @@ public class EventReminderMiddlewareTests : IDisposable
             loggerFactory.CreateLogger<RoutineLearningService>(),
             signalSelector,
             similarityEvaluator,
-            signalPolicyService);
+            signalPolicyService,
+            delayLearningPolicyService,
+            routinePolicyService);
 
         var reminderScheduler = new ReminderScheduler(
             _context,
@@ -79,6 +79,8 @@ public class FeedbackTests : IDisposable
         var signalSelector = new AIPatterner.Infrastructure.Services.SignalSelector(config, loggerFactory.CreateLogger<AIPatterner.Infrastructure.Services.SignalSelector>());
         var similarityEvaluator = new AIPatterner.Infrastructure.Services.SignalSimilarityEvaluator(loggerFactory.CreateLogger<AIPatterner.Infrastructure.Services.SignalSimilarityEvaluator>());
         var signalPolicyService = new AIPatterner.Infrastructure.Services.SignalPolicyService(configRepo, config);
+        var delayLearningPolicyService = new AIPatterner.Infrastructure.Services.DelayLearningPolicyService(configRepo, config);
+        var routinePolicyService = new AIPatterner.Infrastructure.Services.RoutinePolicyService(configRepo, config);
         var matchingRemindersService = new MatchingRemindersService(eventRepo, _context, mapper, signalSelector, similarityEvaluator, signalPolicyService, loggerFactory.CreateLogger<MatchingRemindersService>());
         
         var routineRepository = new RoutineRepository(_context);
@@ -92,7 +94,9 @@ public class FeedbackTests : IDisposable
             loggerFactory.CreateLogger<RoutineLearningService>(),
             signalSelector,
             similarityEvaluator,
-            signalPolicyService);
+            signalPolicyService,
+            delayLearningPolicyService,
+            routinePolicyService);
 
         var reminderScheduler = new ReminderScheduler(
             _context,
@@ -250,6 +254,43 @@ public class FeedbackTests : IDisposable
         updatedTransition!.Confidence.Should().BeGreaterThan(initialConfidence);
     }
 
+    [Fact]
+    public async Task SubmitFeedback_YesAndNo_ShouldAdjustReminderConfidence()
+    {
+        // Arrange - Create reminder
+        var eventDto = new ActionEventDto
+        {
+            PersonId = "feedback_user5",
+            ActionType = "water_plants",
+            TimestampUtc = DateTime.UtcNow,
+            Context = new ActionContextDto { TimeBucket = "morning", DayType = "weekend" },
+            ProbabilityValue = 0.3,
+            ProbabilityAction = ProbabilityAction.Increase
+        };
+
+        var command = new IngestEventCommand { Event = eventDto };
+        var response = await _eventHandler.Handle(command, CancellationToken.None);
+        var reminder = await _reminderRepository.GetByIdAsync(response.RelatedReminderId!.Value, CancellationToken.None);
+        var initialConfidence = reminder!.Confidence;
+
+        // Act & Assert - "yes" raises the reminder's own confidence
+        await _feedbackHandler.Handle(
+            new SubmitFeedbackCommand { Feedback = new FeedbackDto { CandidateId = reminder.Id, FeedbackType = "yes" } },
+            CancellationToken.None);
+
+        var afterYes = await _reminderRepository.GetByIdAsync(reminder.Id, CancellationToken.None);
+        afterYes!.Confidence.Should().BeApproximately(
+            Math.Min(1.0, initialConfidence + SubmitFeedbackCommandHandler.PositiveFeedbackConfidenceStep), 0.0001);
+
+        // Act & Assert - "no" lowers it again
+        await _feedbackHandler.Handle(
+            new SubmitFeedbackCommand { Feedback = new FeedbackDto { CandidateId = reminder.Id, FeedbackType = "no" } },
+            CancellationToken.None);
+
+        var afterNo = await _reminderRepository.GetByIdAsync(reminder.Id, CancellationToken.None);
+        afterNo!.Confidence.Should().BeLessThan(afterYes.Confidence);
+    }
+
     [Fact]
     public async Task SubmitFeedback_ViaAPI_ShouldReturnNoContent()
     {
@@ -97,6 +97,8 @@ public class LifeDataBuilder : IDisposable
         var signalSelector = new AIPatterner.Infrastructure.Services.SignalSelector(configuration, loggerFactory.CreateLogger<AIPatterner.Infrastructure.Services.SignalSelector>());
         var similarityEvaluator = new AIPatterner.Infrastructure.Services.SignalSimilarityEvaluator(loggerFactory.CreateLogger<AIPatterner.Infrastructure.Services.SignalSimilarityEvaluator>());
         var signalPolicyService = new AIPatterner.Infrastructure.Services.SignalPolicyService(configRepo, configuration);
+        var delayLearningPolicyService = new AIPatterner.Infrastructure.Services.DelayLearningPolicyService(configRepo, configuration);
+        var routinePolicyService = new AIPatterner.Infrastructure.Services.RoutinePolicyService(configRepo, configuration);
         var matchingRemindersService = new MatchingRemindersService(eventRepo, _context, mapper, signalSelector, similarityEvaluator, signalPolicyService, loggerFactory.CreateLogger<MatchingRemindersService>());
         
         var routineRepo = new RoutineRepository(_context);
@@ -110,7 +112,9 @@ public class LifeDataBuilder : IDisposable
             loggerFactory.CreateLogger<RoutineLearningService>(),
             signalSelector,
             similarityEvaluator,
-            signalPolicyService);
+            signalPolicyService,
+            delayLearningPolicyService,
+            routinePolicyService);
 
         var reminderScheduler = new ReminderScheduler(
             _context,
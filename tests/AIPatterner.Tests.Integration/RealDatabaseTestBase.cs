@@ -22,6 +22,7 @@ public abstract class RealDatabaseTestBase : IDisposable
     protected readonly ITransitionRepository TransitionRepository;
     protected readonly IConfiguration Configuration;
     protected readonly IngestEventCommandHandler EventHandler;
+    protected readonly MatchingRemindersService MatchingRemindersService;
     protected readonly HttpClient HttpClient;
     protected readonly string ApiBaseUrl;
     protected readonly string ApiKey;
@@ -102,7 +103,9 @@ public abstract class RealDatabaseTestBase : IDisposable
         var signalSelector = new AIPatterner.Infrastructure.Services.SignalSelector(Configuration, loggerFactory.CreateLogger<AIPatterner.Infrastructure.Services.SignalSelector>());
         var similarityEvaluator = new AIPatterner.Infrastructure.Services.SignalSimilarityEvaluator(loggerFactory.CreateLogger<AIPatterner.Infrastructure.Services.SignalSimilarityEvaluator>());
         var signalPolicyService = new AIPatterner.Infrastructure.Services.SignalPolicyService(configRepo, Configuration);
-        var matchingRemindersService = new MatchingRemindersService(EventRepository, Context, mapper, signalSelector, similarityEvaluator, signalPolicyService, loggerFactory.CreateLogger<MatchingRemindersService>());
+        var delayLearningPolicyService = new AIPatterner.Infrastructure.Services.DelayLearningPolicyService(configRepo, Configuration);
+        var routinePolicyService = new AIPatterner.Infrastructure.Services.RoutinePolicyService(configRepo, Configuration);
+        MatchingRemindersService = new MatchingRemindersService(EventRepository, Context, mapper, signalSelector, similarityEvaluator, signalPolicyService, loggerFactory.CreateLogger<MatchingRemindersService>());
         
         var routineRepository = new RoutineRepository(Context);
         var routineReminderRepository = new RoutineReminderRepository(Context);
@@ -115,7 +118,9 @@ public abstract class RealDatabaseTestBase : IDisposable
             loggerFactory.CreateLogger<RoutineLearningService>(),
             signalSelector,
             similarityEvaluator,
-            signalPolicyService);
+            signalPolicyService,
+            delayLearningPolicyService,
+            routinePolicyService);
 
         var reminderScheduler = new ReminderScheduler(
             Context,
@@ -133,7 +138,7 @@ public abstract class RealDatabaseTestBase : IDisposable
             mapper,
             mockExecutionHistoryService,
             Configuration,
-            matchingRemindersService,
+            MatchingRemindersService,
             matchingPolicyService,
             routineLearningService,
             signalSelector,
@@ -181,7 +186,7 @@ public abstract class RealDatabaseTestBase : IDisposable
             "event_person", "reminder_person", "routine_person", "duplicate_test_person", "matched_user",
             "user_for_id", "testuser_dual", "testuser1", "testuser2", "adminuser", "comprehensive_test_user",
             "household_person_a", "household_person_b", "household_person_c", 
-            "life_sim_piotr", "life_sim_victoria", "life_sim_andrii" };
+            "life_sim_piotr", "life_sim_victoria", "life_sim_andrii", "simulation_user" };
 
         // Also clean up personIds that start with comprehensive_test_user (for sub-tests)
         var comprehensiveTestPersonIds = Context.ActionEvents
@@ -44,6 +44,8 @@ public class RoutineLearningComprehensiveTests : RealDatabaseTestBase
         var similarityEvaluator = new AIPatterner.Infrastructure.Services.SignalSimilarityEvaluator(loggerFactory.CreateLogger<AIPatterner.Infrastructure.Services.SignalSimilarityEvaluator>());
         var configRepo = new ConfigurationRepository(Context);
         var signalPolicyService = new AIPatterner.Infrastructure.Services.SignalPolicyService(configRepo, config);
+        var delayLearningPolicyService = new AIPatterner.Infrastructure.Services.DelayLearningPolicyService(configRepo, config);
+        var routinePolicyService = new AIPatterner.Infrastructure.Services.RoutinePolicyService(configRepo, config);
         _routineLearningService = new RoutineLearningService(
             _routineRepository,
             _routineReminderRepository,
@@ -53,7 +55,9 @@ public class RoutineLearningComprehensiveTests : RealDatabaseTestBase
             loggerFactory.CreateLogger<RoutineLearningService>(),
             signalSelector,
             similarityEvaluator,
-            signalPolicyService);
+            signalPolicyService,
+            delayLearningPolicyService,
+            routinePolicyService);
     }
 
     #region Test 1: Single StateChange Opens Learning Window
@@ -41,6 +41,8 @@ public class RoutineLearningTests : RealDatabaseTestBase
         var similarityEvaluator = new AIPatterner.Infrastructure.Services.SignalSimilarityEvaluator(loggerFactory.CreateLogger<AIPatterner.Infrastructure.Services.SignalSimilarityEvaluator>());
         var configRepo = new ConfigurationRepository(Context);
         var signalPolicyService = new AIPatterner.Infrastructure.Services.SignalPolicyService(configRepo, config);
+        var delayLearningPolicyService = new AIPatterner.Infrastructure.Services.DelayLearningPolicyService(configRepo, config);
+        var routinePolicyService = new AIPatterner.Infrastructure.Services.RoutinePolicyService(configRepo, config);
         _routineLearningService = new RoutineLearningService(
             _routineRepository,
             _routineReminderRepository,
@@ -50,7 +52,9 @@ public class RoutineLearningTests : RealDatabaseTestBase
             loggerFactory.CreateLogger<RoutineLearningService>(),
             signalSelector,
             similarityEvaluator,
-            signalPolicyService);
+            signalPolicyService,
+            delayLearningPolicyService,
+            routinePolicyService);
     }
 
     [Fact]
@@ -31,6 +31,8 @@ public class RoutineReminderDuplicationTest : RealDatabaseTestBase
         var signalSelector = new AIPatterner.Infrastructure.Services.SignalSelector(Configuration, loggerFactory.CreateLogger<AIPatterner.Infrastructure.Services.SignalSelector>());
         var similarityEvaluator = new AIPatterner.Infrastructure.Services.SignalSimilarityEvaluator(loggerFactory.CreateLogger<AIPatterner.Infrastructure.Services.SignalSimilarityEvaluator>());
         var signalPolicyService = new AIPatterner.Infrastructure.Services.SignalPolicyService(configRepo, Configuration);
+        var delayLearningPolicyService = new AIPatterner.Infrastructure.Services.DelayLearningPolicyService(configRepo, Configuration);
+        var routinePolicyService = new AIPatterner.Infrastructure.Services.RoutinePolicyService(configRepo, Configuration);
         _routineLearningService = new RoutineLearningService(
             _routineRepository,
             _routineReminderRepository,
@@ -40,7 +42,9 @@ public class RoutineReminderDuplicationTest : RealDatabaseTestBase
             loggerFactory.CreateLogger<RoutineLearningService>(),
             signalSelector,
             similarityEvaluator,
-            signalPolicyService);
+            signalPolicyService,
+            delayLearningPolicyService,
+            routinePolicyService);
     }
 
     [Fact]
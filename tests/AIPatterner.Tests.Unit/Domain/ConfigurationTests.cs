@@ -0,0 +1,54 @@
+// Unit tests for Configuration domain entity
+namespace AIPatterner.Tests.Unit.Domain;
+
+using AIPatterner.Domain.Entities;
+using FluentAssertions;
+using Xunit;
+
+public class ConfigurationTests
+{
+    [Fact]
+    public void Constructor_ShouldQueueCreatedChange()
+    {
+        var configuration = new Configuration("TimeOffsetMinutes", "30", "MatchingPolicy", changedBy: "alice");
+
+        var change = configuration.PendingChanges.Should().ContainSingle().Subject;
+        change.ChangeType.Should().Be(ConfigurationChangeType.Created);
+        change.PreviousValue.Should().BeNull();
+        change.NewValue.Should().Be("30");
+        change.ChangedBy.Should().Be("alice");
+    }
+
+    [Fact]
+    public void UpdateValue_ShouldOnlyQueueChangesThatChangeTheValue()
+    {
+        var configuration = new Configuration("TimeOffsetMinutes", "30", "MatchingPolicy");
+        configuration.ClearPendingChanges();
+
+        configuration.UpdateValue("30", "alice");
+        configuration.UpdateValue("45", "alice");
+
+        var change = configuration.PendingChanges.Should().ContainSingle().Subject;
+        change.ChangeType.Should().Be(ConfigurationChangeType.Updated);
+        change.PreviousValue.Should().Be("30");
+        change.NewValue.Should().Be("45");
+    }
+
+    [Fact]
+    public void RollBackTo_ShouldQueueRolledBackChangeReferencingTheTarget()
+    {
+        var configuration = new Configuration("TimeOffsetMinutes", "30", "MatchingPolicy");
+        var target = configuration.PendingChanges[0];
+        configuration.UpdateValue("45", "alice");
+        configuration.ClearPendingChanges();
+
+        configuration.RollBackTo(target, target.NewValue, "bob");
+
+        configuration.Value.Should().Be("30");
+        var change = configuration.PendingChanges.Should().ContainSingle().Subject;
+        change.ChangeType.Should().Be(ConfigurationChangeType.RolledBack);
+        change.PreviousValue.Should().Be("45");
+        change.RolledBackToChangeId.Should().Be(target.Id);
+        change.ChangedBy.Should().Be("bob");
+    }
+}
@@ -0,0 +1,88 @@
+// Unit tests for ReminderCandidate domain entity
+namespace AIPatterner.Tests.Unit.Domain;
+
+using AIPatterner.Domain.Entities;
+using FluentAssertions;
+using Xunit;
+
+public class ReminderCandidateTests
+{
+    [Fact]
+    public void SetPreferredExecutionAction_Execute_ShouldMarkSafeToAutoExecute()
+    {
+        var candidate = new ReminderCandidate("person1", "play_music", DateTime.UtcNow, ReminderStyle.Suggest);
+
+        candidate.SetPreferredExecutionAction(ExecutionAction.Execute);
+
+        candidate.PreferredExecutionAction.Should().Be(ExecutionAction.Execute);
+        candidate.IsSafeToAutoExecute.Should().BeTrue();
+    }
+
+    [Theory]
+    [InlineData(ExecutionAction.Suggest)]
+    [InlineData(ExecutionAction.Ask)]
+    public void SetPreferredExecutionAction_SuggestOrAsk_ShouldRevokeAutoExecute(ExecutionAction action)
+    {
+        var candidate = new ReminderCandidate("person1", "play_music", DateTime.UtcNow, ReminderStyle.Suggest);
+        candidate.SetIsSafeToAutoExecute(true);
+
+        candidate.SetPreferredExecutionAction(action);
+
+        candidate.PreferredExecutionAction.Should().Be(action);
+        candidate.IsSafeToAutoExecute.Should().BeFalse();
+    }
+
+    [Fact]
+    public void GetPatternEvidence_SameWeekdayAcrossWeeks_ShouldReportDominantWeekdayAndSpan()
+    {
+        var firstMonday = new DateTime(2026, 1, 5, 7, 30, 0, DateTimeKind.Utc);
+        var candidate = new ReminderCandidate("person1", "make_coffee", firstMonday, ReminderStyle.Suggest);
+        candidate.RecordEvidence(firstMonday.AddDays(7));
+        candidate.RecordEvidence(firstMonday.AddDays(14));
+
+        var evidence = candidate.GetPatternEvidence();
+        candidate.UpdateInferredPattern(minDailyEvidence: 3, minWeeklyEvidence: 3);
+
+        evidence.ObservedDayCount.Should().Be(3);
+        evidence.LongestDailyRunDays.Should().Be(1);
+        evidence.DistinctWeekdays.Should().Be(1);
+        evidence.DominantWeekday.Should().Be((int)DayOfWeek.Monday);
+        evidence.DominantWeekdayDays.Should().Be(3);
+        evidence.DominantWeekdaySpanDays.Should().Be(14);
+        candidate.PatternInferenceStatus.Should().Be(PatternInferenceStatus.Weekly);
+    }
+
+    [Fact]
+    public void GetPatternEvidence_NearConsecutiveDays_ShouldCountOneRun()
+    {
+        var start = new DateTime(2026, 1, 5, 7, 30, 0, DateTimeKind.Utc);
+        var candidate = new ReminderCandidate("person1", "make_coffee", start, ReminderStyle.Suggest);
+        candidate.RecordEvidence(start.AddDays(2)); // A one-day gap still continues the run
+        candidate.RecordEvidence(start.AddDays(3));
+        candidate.RecordEvidence(start.AddDays(10));
+
+        var evidence = candidate.GetPatternEvidence();
+        candidate.UpdateInferredPattern(minDailyEvidence: 3, minWeeklyEvidence: 3);
+
+        evidence.LongestDailyRunDays.Should().Be(3);
+        evidence.DistinctWeekdays.Should().Be(3);
+        candidate.PatternInferenceStatus.Should().Be(PatternInferenceStatus.Daily);
+    }
+
+    [Fact]
+    public void MarkDeleted_Twice_ShouldKeepFirstDeletionTimeUntilRestored()
+    {
+        var candidate = new ReminderCandidate("person1", "play_music", DateTime.UtcNow, ReminderStyle.Suggest);
+
+        candidate.MarkDeleted();
+        var deletedAt = candidate.DeletedAtUtc;
+        candidate.MarkDeleted();
+
+        deletedAt.Should().NotBeNull();
+        candidate.DeletedAtUtc.Should().Be(deletedAt);
+
+        candidate.Restore();
+
+        candidate.DeletedAtUtc.Should().BeNull();
+    }
+}
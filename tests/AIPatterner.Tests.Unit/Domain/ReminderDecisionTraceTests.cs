@@ -0,0 +1,44 @@
+// Unit tests for ReminderDecisionTrace domain entity
+namespace AIPatterner.Tests.Unit.Domain;
+
+using AIPatterner.Domain.Entities;
+using FluentAssertions;
+using Xunit;
+
+public class ReminderDecisionTraceTests
+{
+    [Fact]
+    public void GetSteps_ShouldReturnStepsInPipelineOrder()
+    {
+        var candidate = new ReminderCandidate("person1", "play_music", DateTime.UtcNow, ReminderStyle.Suggest);
+        var trace = new DecisionTrace();
+        trace.Passed(DecisionGate.DueTime, "Due");
+        trace.Passed(DecisionGate.Preferences, "Reminders are on");
+        trace.Failed(DecisionGate.DailyLimit, "Daily reminder limit reached", 10, 10);
+
+        var decisionTrace = new ReminderDecisionTrace(
+            candidate, trace, ReminderCheckOutcome.Skipped, false, "Daily limit reached: 10/10", false);
+
+        var steps = decisionTrace.GetSteps();
+        steps.Select(s => s.Gate).Should().Equal(DecisionGate.DueTime, DecisionGate.Preferences, DecisionGate.DailyLimit);
+        steps[2].Outcome.Should().Be(DecisionStepOutcome.Failed);
+        steps[2].Value.Should().Be(10);
+        steps[2].Threshold.Should().Be(10);
+        decisionTrace.PersonId.Should().Be("person1");
+        decisionTrace.ReminderCandidateId.Should().Be(candidate.Id);
+    }
+
+    [Fact]
+    public void StepsJson_ShouldStoreEnumsAsStrings()
+    {
+        var candidate = new ReminderCandidate("person1", "play_music", DateTime.UtcNow, ReminderStyle.Suggest);
+        var trace = new DecisionTrace();
+        trace.Skipped(DecisionGate.SignalSimilarity, "Signal matching is turned off");
+
+        var decisionTrace = new ReminderDecisionTrace(
+            candidate, trace, ReminderCheckOutcome.Executed, true, "All checks passed", true);
+
+        decisionTrace.StepsJson.Should().Contain("\"SignalSimilarity\"").And.Contain("\"Skipped\"");
+        decisionTrace.BypassedDateCheck.Should().BeTrue();
+    }
+}
@@ -0,0 +1,72 @@
+// Unit tests for ConfigurationSchema value validation and default resolution
+namespace AIPatterner.Tests.Unit.Services;
+
+using AIPatterner.Application.Services;
+using FluentAssertions;
+using Microsoft.Extensions.Configuration;
+using Xunit;
+
+public class ConfigurationSchemaTests
+{
+    [Theory]
+    [InlineData("MatchingPolicy", "MatchByLocation", "true")]
+    [InlineData("MatchingPolicy", "TimeOffsetMinutes", "45")]
+    [InlineData("MatchingPolicy", "SignalSimilarityThreshold", "0.7")]
+    [InlineData("Routine", "ObservationWindowMinutes", "120")]
+    [InlineData("notifications", "WebhookUrl", "https://hooks.example.com/reminders")]
+    [InlineData("notifications", "WebhookUrl", "")]
+    [InlineData("custom", "AnythingGoes", "any value")]
+    [InlineData("llm", "Model", "any value")]
+    public void Validate_ShouldAcceptValuesTheServicesCanParse(string category, string key, string value)
+    {
+        ConfigurationSchema.Validate(category, key, value).Should().BeNull();
+    }
+
+    [Theory]
+    [InlineData("MatchingPolicy", "MatchByLocation", "True", "Expected true or false")]
+    [InlineData("MatchingPolicy", "TimeOffsetMinutes", "4.5", "Expected a whole number")]
+    [InlineData("MatchingPolicy", "SignalSimilarityThreshold", "1.5", "Expected a value between 0 and 1")]
+    [InlineData("Routine", "ObservationWindowMinutes", "0", "Expected a value between 1 and 120")]
+    [InlineData("llm", "Endpoint", "localhost:8080", "Expected an http or https URL")]
+    [InlineData("MatchingPolicy", "MatchByWeather", "true", "Unknown key 'MatchByWeather' in category 'MatchingPolicy'")]
+    [InlineData("Scheduling", "Interval", "5", "Unknown category 'Scheduling'")]
+    [InlineData("Policy", "MinDailyEvidence", "5", "Set Policy:MinDailyEvidence in the server configuration and restart; a stored value would be ignored")]
+    public void Validate_ShouldExplainRejectedValues(string category, string key, string value, string expected)
+    {
+        ConfigurationSchema.Validate(category, key, value).Should().Be(expected);
+    }
+
+    [Fact]
+    public void Definitions_ShouldHaveValidDefaults()
+    {
+        var empty = new ConfigurationBuilder().Build();
+
+        foreach (var definition in ConfigurationSchema.Definitions)
+        {
+            var resolved = ConfigurationSchema.ResolveDefault(definition, empty);
+            resolved.Should().Be(definition.DefaultValue);
+            if (!definition.RestartRequired)
+            {
+                ConfigurationSchema.Validate(definition.Category, definition.Key, resolved)
+                    .Should().BeNull($"{definition.Category}.{definition.Key} defaults to {resolved}");
+            }
+        }
+    }
+
+    [Fact]
+    public void ResolveDefault_ShouldPreferTheServerSetting()
+    {
+        var configuration = new ConfigurationBuilder()
+            .AddInMemoryCollection(new Dictionary<string, string?>
+            {
+                { "Policy:ReminderMatchTimeOffsetMinutes", "20" },
+                { "LLM:Enabled", "True" },
+                { "Policies:SignalSelectionLimit", "not a number" }
+            })
+            .Build();
+
+        ConfigurationSchema.ResolveDefault(ConfigurationSchema.Find("Policy", "ReminderMatchTimeOffsetMinutes")!, configuration).Should().Be("20");
+        ConfigurationSchema.ResolveDefault(ConfigurationSchema.Find("llm", "Enabled")!, configuration).Should().Be("true");
+        ConfigurationSchema.ResolveDefault(ConfigurationSchema.Find("MatchingPolicy", "SignalSelectionLimit")!, configuration).Should().Be("10");
+    }
+}
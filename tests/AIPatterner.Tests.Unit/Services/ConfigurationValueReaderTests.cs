@@ -0,0 +1,78 @@
+// Unit tests for ConfigurationValueReader
+namespace AIPatterner.Tests.Unit.Services;
+
+using AIPatterner.Application.Services;
+using AIPatterner.Domain.Entities;
+using FluentAssertions;
+using Microsoft.Extensions.Configuration;
+using Xunit;
+
+public class ConfigurationValueReaderTests
+{
+    private static readonly IConfiguration ServerConfiguration = new ConfigurationBuilder()
+        .AddInMemoryCollection(new Dictionary<string, string?>
+        {
+            { "Policies:SignalSimilarityThreshold", "0.8" },
+            { "Notifications:WebhookUrl", "https://hooks.example.com/server" }
+        })
+        .Build();
+
+    [Fact]
+    public void Get_ShouldReturnValidStoredValues()
+    {
+        var reader = new ConfigurationValueReader(
+            "MatchingPolicy",
+            new[]
+            {
+                new Configuration("TimeOffsetMinutes", "15", "MatchingPolicy"),
+                new Configuration("SignalSimilarityThreshold", "0.55", "MatchingPolicy"),
+                new Configuration("MatchByLocation", "true", "MatchingPolicy")
+            },
+            ServerConfiguration);
+
+        reader.GetInteger("TimeOffsetMinutes").Should().Be(15);
+        reader.GetNumber("SignalSimilarityThreshold").Should().Be(0.55);
+        reader.GetBoolean("MatchByLocation").Should().BeTrue();
+    }
+
+    [Fact]
+    public void Get_ShouldFallBackToTheServerSettingThenTheDefault()
+    {
+        var reader = new ConfigurationValueReader("MatchingPolicy", Array.Empty<Configuration>(), ServerConfiguration);
+
+        reader.GetNumber("SignalSimilarityThreshold").Should().Be(0.8);
+        reader.GetInteger("TimeOffsetMinutes").Should().Be(45);
+        reader.GetBoolean("MatchByActionType").Should().BeTrue();
+    }
+
+    [Fact]
+    public void Get_ShouldIgnoreInvalidOrEmptyStoredValues()
+    {
+        var reader = new ConfigurationValueReader(
+            "MatchingPolicy",
+            new[]
+            {
+                new Configuration("TimeOffsetMinutes", "5000", "MatchingPolicy"),
+                new Configuration("MatchByTimeBucket", "True", "MatchingPolicy")
+            },
+            ServerConfiguration);
+        var notifications = new ConfigurationValueReader(
+            "notifications",
+            new[] { new Configuration("WebhookUrl", "", "notifications") },
+            ServerConfiguration);
+
+        reader.GetInteger("TimeOffsetMinutes").Should().Be(45);
+        reader.GetBoolean("MatchByTimeBucket").Should().BeFalse();
+        notifications.GetString("WebhookUrl").Should().Be("https://hooks.example.com/server");
+    }
+
+    [Fact]
+    public void Get_ShouldRejectKeysOutsideTheSchema()
+    {
+        var reader = new ConfigurationValueReader("MatchingPolicy", Array.Empty<Configuration>(), ServerConfiguration);
+
+        var act = () => reader.GetString("MatchByWeather");
+
+        act.Should().Throw<ArgumentException>();
+    }
+}
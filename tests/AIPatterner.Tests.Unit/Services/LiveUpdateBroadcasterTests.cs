@@ -0,0 +1,45 @@
+// Unit tests for LiveUpdateBroadcaster
+namespace AIPatterner.Tests.Unit.Services;
+
+using AIPatterner.Application.DTOs;
+using AIPatterner.Infrastructure.Services;
+using FluentAssertions;
+using Xunit;
+
+public class LiveUpdateBroadcasterTests
+{
+    [Fact]
+    public void Publish_ShouldOnlyDeliverToMatchingPersonAndAdminSubscribers()
+    {
+        var broadcaster = new LiveUpdateBroadcaster();
+        using var alice = broadcaster.Subscribe("alice");
+        using var bob = broadcaster.Subscribe("bob");
+        using var admin = broadcaster.Subscribe(null);
+
+        broadcaster.Publish(new LiveUpdateDto
+        {
+            Type = LiveUpdateTypes.CandidateCreated,
+            PersonId = "alice",
+            EntityId = Guid.NewGuid(),
+            OccurredAtUtc = DateTime.UtcNow
+        });
+
+        alice.Reader.TryRead(out var aliceUpdate).Should().BeTrue();
+        aliceUpdate!.Type.Should().Be(LiveUpdateTypes.CandidateCreated);
+        admin.Reader.TryRead(out _).Should().BeTrue();
+        bob.Reader.TryRead(out _).Should().BeFalse();
+    }
+
+    [Fact]
+    public void Dispose_ShouldStopDeliveringAndCompleteReader()
+    {
+        var broadcaster = new LiveUpdateBroadcaster();
+        var subscription = broadcaster.Subscribe("alice");
+
+        subscription.Dispose();
+        broadcaster.Publish(new LiveUpdateDto { Type = LiveUpdateTypes.EventIngested, PersonId = "alice" });
+
+        subscription.Reader.TryRead(out _).Should().BeFalse();
+        subscription.Reader.Completion.IsCompleted.Should().BeTrue();
+    }
+}
@@ -0,0 +1,56 @@
+// Unit tests for OccurrencePatternParser, run against the fixtures shared with the UI's TypeScript port
+namespace AIPatterner.Tests.Unit.Services;
+
+using System.Globalization;
+using System.Text.Json;
+using AIPatterner.Application.Services;
+using FluentAssertions;
+using Xunit;
+
+public class OccurrencePatternParserTests
+{
+    private static readonly string FixturesPath = Path.Combine(AppContext.BaseDirectory, "Fixtures", "occurrence-patterns.json");
+
+    public static IEnumerable<object?[]> Fixtures()
+    {
+        var fixtures = JsonSerializer.Deserialize<List<OccurrencePatternFixture>>(
+            File.ReadAllText(FixturesPath),
+            new JsonSerializerOptions { PropertyNameCaseInsensitive = true })!;
+
+        return fixtures.Select(f => new object?[] { f.Description, f.Pattern, f.CurrentTime, f.LastExecutionTime, f.Expected });
+    }
+
+    [Theory]
+    [MemberData(nameof(Fixtures))]
+    public void CalculateNextExecutionTime_ShouldMatchSharedFixtures(
+        string description, string? pattern, string currentTime, string? lastExecutionTime, string? expected)
+    {
+        var parser = new OccurrencePatternParser();
+
+        var result = parser.CalculateNextExecutionTime(
+            pattern,
+            ParseUtc(currentTime),
+            lastExecutionTime == null ? null : ParseUtc(lastExecutionTime));
+
+        if (expected == null)
+        {
+            result.Should().BeNull(description);
+        }
+        else
+        {
+            result.Should().Be(ParseUtc(expected), description);
+        }
+    }
+
+    private static DateTime ParseUtc(string value) =>
+        DateTime.Parse(value, CultureInfo.InvariantCulture, DateTimeStyles.AdjustToUniversal | DateTimeStyles.AssumeUniversal);
+
+    private class OccurrencePatternFixture
+    {
+        public string Description { get; set; } = string.Empty;
+        public string? Pattern { get; set; }
+        public string CurrentTime { get; set; } = string.Empty;
+        public string? LastExecutionTime { get; set; }
+        public string? Expected { get; set; }
+    }
+}
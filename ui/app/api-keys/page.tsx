@@ -4,7 +4,9 @@
 import React, { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Layout } from '@/components/Layout';
-import { apiService } from '@/services/api';
+import { apiClient } from '@/services/api';
+import { useUndoableDelete } from '@/hooks/useUndoableDelete';
+import { TrashItemType } from '@/types';
 import type { ApiKey, CreateApiKeyRequest } from '@/types';
 
 export default function ApiKeysPage() {
@@ -18,11 +20,11 @@ export default function ApiKeysPage() {
 
   const { data: apiKeys, isLoading } = useQuery({
     queryKey: ['apiKeys'],
-    queryFn: () => apiService.getApiKeys(),
+    queryFn: () => apiClient.getApiKeys(),
   });
 
   const createMutation = useMutation({
-    mutationFn: (request: CreateApiKeyRequest) => apiService.createApiKey(request),
+    mutationFn: (request: CreateApiKeyRequest) => apiClient.createApiKey(request),
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['apiKeys'] });
       setCreatedKey(data.fullKey);
@@ -34,11 +36,10 @@ export default function ApiKeysPage() {
     },
   });
 
-  const deleteMutation = useMutation({
-    mutationFn: (id: string) => apiService.deleteApiKey(id),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['apiKeys'] });
-    },
+  const { deleteItem } = useUndoableDelete({
+    type: TrashItemType.ApiKey,
+    deleteFn: (id) => apiClient.deleteApiKey(undefined, { params: { id } }),
+    invalidateKeys: [['apiKeys']],
   });
 
   const handleCreate = (e: React.FormEvent) => {
@@ -51,10 +52,8 @@ export default function ApiKeysPage() {
     createMutation.mutate(request);
   };
 
-  const handleDelete = (id: string) => {
-    if (confirm('Are you sure you want to delete this API key? This action cannot be undone.')) {
-      deleteMutation.mutate(id);
-    }
+  const handleDelete = (key: ApiKey) => {
+    deleteItem(key.id, key.name);
   };
 
   const copyToClipboard = (text: string) => {
@@ -228,7 +227,7 @@ export default function ApiKeysPage() {
                         </td>
                         <td className="px-3 py-2 whitespace-nowrap text-sm">
                           <button
-                            onClick={() => handleDelete(key.id)}
+                            onClick={() => handleDelete(key)}
                             className="text-red-600 hover:text-red-900"
                           >
                             🗑️ Delete
@@ -1,434 +1,31 @@
 // Configuration management page
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSearchParams } from 'next/navigation';
 import { Layout } from '@/components/Layout';
-import { apiService } from '@/services/api';
+import { apiClient } from '@/services/api';
 import { useAuth } from '@/context/AuthContext';
+import { useUndoableDelete } from '@/hooks/useUndoableDelete';
+import { ConfigurationBundleTab } from '@/components/ConfigurationBundleTab';
+import { ConfigurationGroupTab } from '@/components/ConfigurationGroupTab';
+import { ConfigurationHistoryPanel } from '@/components/ConfigurationHistoryPanel';
+import { settingGroups } from '@/services/configurationSchema';
 import type { Configuration, CreateConfigurationRequest, UpdateConfigurationRequest, CreateApiKeyRequest, ApiKey } from '@/types';
-import { ReminderStyle } from '@/types';
+import { ReminderStyle, TrashItemType } from '@/types';
 
-const CONFIG_TABS = [
-  { value: 'policies', label: 'Policies', description: 'Reminder matching policies' },
-  { value: 'routines', label: 'Routines', description: 'Routine learning settings' },
+// Shown after the tabs built from the configuration schema
+const FIXED_TABS = [
   { value: 'user-preferences', label: 'User Preferences', description: 'User reminder preferences' },
   { value: 'api-keys', label: 'API Keys', description: 'API key management' },
-  { value: 'notifications', label: 'Notifications', description: 'Webhook and notification endpoints' },
-  { value: 'llm', label: 'LLM', description: 'Large Language Model endpoints' },
-  { value: 'memory', label: 'Memory', description: 'Memory service endpoints' },
   { value: 'custom', label: 'Custom', description: 'Custom endpoint configurations' },
+  { value: 'import-export', label: 'Import / Export', description: 'Configuration bundles in JSON or YAML' },
 ];
 
-const CONFIG_CATEGORIES = [
-  { value: 'notifications', label: 'Notifications', description: 'Webhook and notification endpoints' },
-  { value: 'llm', label: 'LLM', description: 'Large Language Model endpoints' },
-  { value: 'memory', label: 'Memory', description: 'Memory service endpoints' },
-  { value: 'custom', label: 'Custom', description: 'Custom endpoint configurations' },
-];
-
-const DEFAULT_CONFIGS = {
-  notifications: [
-    { key: 'WebhookUrl', description: 'Webhook URL for reminder notifications' },
-  ],
-  llm: [
-    { key: 'Endpoint', description: 'LLM service endpoint URL' },
-    { key: 'Enabled', description: 'Enable LLM service (true/false)' },
-  ],
-  memory: [
-    { key: 'Endpoint', description: 'Memory service endpoint URL' },
-    { key: 'Enabled', description: 'Enable memory service (true/false)' },
-  ],
-};
-
-// Policies Tab Component
-function PoliciesTab() {
-  const queryClient = useQueryClient();
-  const [policy, setPolicy] = useState({
-    matchByActionType: true,
-    matchByDayType: true,
-    matchByPeoplePresent: true,
-    matchByStateSignals: true,
-    matchByTimeBucket: false,
-    matchByLocation: false,
-    timeOffsetMinutes: 30,
-  });
-  const [isDirty, setIsDirty] = useState(false);
-  const POLICY_CATEGORY = 'MatchingPolicy';
-
-  const { data: configurations, isLoading } = useQuery({
-    queryKey: ['configurations', POLICY_CATEGORY],
-    queryFn: () => apiService.getConfigurations(POLICY_CATEGORY),
-  });
-
-  const updateConfigMutation = useMutation({
-    mutationFn: ({ key, value, description }: { key: string; value: string; description?: string }) =>
-      apiService.updateConfiguration(POLICY_CATEGORY, key, { value, description }),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['configurations'] });
-      setIsDirty(false);
-    },
-  });
-
-  const createConfigMutation = useMutation({
-    mutationFn: ({ key, value, description }: { key: string; value: string; description?: string }) =>
-      apiService.createConfiguration({ key, value, category: POLICY_CATEGORY, description }),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['configurations'] });
-      setIsDirty(false);
-    },
-  });
-
-  useEffect(() => {
-    if (configurations) {
-      const getConfigValue = (key: string, defaultValue: string): string => {
-        const config = configurations.find((c) => c.key === key);
-        return config?.value || defaultValue;
-      };
-      setPolicy({
-        matchByActionType: getConfigValue('MatchByActionType', 'true') === 'true',
-        matchByDayType: getConfigValue('MatchByDayType', 'true') === 'true',
-        matchByPeoplePresent: getConfigValue('MatchByPeoplePresent', 'true') === 'true',
-        matchByStateSignals: getConfigValue('MatchByStateSignals', 'true') === 'true',
-        matchByTimeBucket: getConfigValue('MatchByTimeBucket', 'false') === 'true',
-        matchByLocation: getConfigValue('MatchByLocation', 'false') === 'true',
-        timeOffsetMinutes: parseInt(getConfigValue('TimeOffsetMinutes', '30'), 10),
-      });
-      setIsDirty(false);
-    }
-  }, [configurations]);
-
-  const saveConfig = async (key: string, value: string, description?: string) => {
-    const existing = configurations?.find((c) => c.key === key);
-    if (existing) {
-      await updateConfigMutation.mutateAsync({ key, value, description });
-    } else {
-      await createConfigMutation.mutateAsync({ key, value, description });
-    }
-  };
-
-  const handleSave = async () => {
-    await Promise.all([
-      saveConfig('MatchByActionType', policy.matchByActionType.toString(), 'Match reminders by action type'),
-      saveConfig('MatchByDayType', policy.matchByDayType.toString(), 'Match reminders by day type'),
-      saveConfig('MatchByPeoplePresent', policy.matchByPeoplePresent.toString(), 'Match reminders by people present'),
-      saveConfig('MatchByStateSignals', policy.matchByStateSignals.toString(), 'Match reminders by state signals'),
-      saveConfig('MatchByTimeBucket', policy.matchByTimeBucket.toString(), 'Match reminders by time bucket'),
-      saveConfig('MatchByLocation', policy.matchByLocation.toString(), 'Match reminders by location'),
-      saveConfig('TimeOffsetMinutes', policy.timeOffsetMinutes.toString(), 'Time offset in minutes for matching reminders'),
-    ]);
-  };
-
-  if (isLoading) {
-    return <div className="bg-white shadow rounded-lg p-6 text-center text-gray-500">Loading...</div>;
-  }
-
-  return (
-    <div className="bg-white shadow rounded-lg p-6">
-      <div className="flex justify-between items-center mb-6">
-        <h2 className="text-xl font-semibold text-gray-900">Matching Policies</h2>
-        <div className="space-x-2">
-          <button
-            onClick={() => {
-              setPolicy({
-                matchByActionType: true,
-                matchByDayType: true,
-                matchByPeoplePresent: true,
-                matchByStateSignals: true,
-                matchByTimeBucket: false,
-                matchByLocation: false,
-                timeOffsetMinutes: 30,
-              });
-              setIsDirty(true);
-            }}
-            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
-          >
-            🔄 Reset to Defaults
-          </button>
-          <button
-            onClick={handleSave}
-            disabled={!isDirty || updateConfigMutation.isPending || createConfigMutation.isPending}
-            className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 inline-flex items-center gap-2"
-          >
-            {updateConfigMutation.isPending || createConfigMutation.isPending ? '⏳ Saving...' : '💾 Save Changes'}
-          </button>
-        </div>
-      </div>
-      <p className="text-sm text-gray-600 mb-6">
-        Configure how reminders are matched to events. When enabled, ALL selected criteria must match exactly for a reminder to be considered a match.
-      </p>
-      <div className="space-y-4">
-        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-          {[
-            { key: 'matchByActionType', label: 'Match by Action Type', desc: 'Match reminders with the same action type as the event' },
-            { key: 'matchByDayType', label: 'Match by Day Type', desc: 'Match reminders based on day type (weekday/weekend)' },
-            { key: 'matchByPeoplePresent', label: 'Match by People Present', desc: 'Match reminders when the same people are present' },
-            { key: 'matchByStateSignals', label: 'Match by State Signals', desc: 'Match reminders based on state signals (all must match)' },
-            { key: 'matchByTimeBucket', label: 'Match by Time Bucket', desc: 'Match reminders based on time bucket (morning/afternoon/evening)' },
-            { key: 'matchByLocation', label: 'Match by Location', desc: 'Match reminders based on location' },
-          ].map((item) => (
-            <label key={item.key} className="flex items-center p-3 border border-gray-200 rounded-md hover:bg-gray-50 cursor-pointer">
-              <input
-                type="checkbox"
-                checked={policy[item.key as keyof typeof policy] as boolean}
-                onChange={(e) => {
-                  setPolicy({ ...policy, [item.key]: e.target.checked });
-                  setIsDirty(true);
-                }}
-                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
-              />
-              <div className="ml-3">
-                <span className="text-sm font-medium text-gray-900">{item.label}</span>
-                <p className="text-xs text-gray-500">{item.desc}</p>
-              </div>
-            </label>
-          ))}
-        </div>
-        <div className="mt-6 pt-6 border-t border-gray-200">
-          <label htmlFor="timeOffset" className="block text-sm font-medium text-gray-900 mb-2">
-            Time Offset (minutes)
-          </label>
-          <input
-            type="number"
-            id="timeOffset"
-            min="0"
-            value={policy.timeOffsetMinutes}
-            onChange={(e) => {
-              setPolicy({ ...policy, timeOffsetMinutes: parseInt(e.target.value) || 0 });
-              setIsDirty(true);
-            }}
-            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-          />
-          <p className="mt-1 text-sm text-gray-500">
-            Maximum time difference (in minutes) between event timestamp and reminder check time for matching
-          </p>
-        </div>
-      </div>
-    </div>
-  );
-}
-
-// Routines Tab Component
-function RoutinesTab() {
-  const queryClient = useQueryClient();
-  const [settings, setSettings] = useState({
-    observationWindowMinutes: 45,
-    defaultRoutineProbability: 0.5,
-    probabilityIncreaseStep: 0.1,
-    probabilityDecreaseStep: 0.1,
-    autoExecuteThreshold: 0.7,
-  });
-  const [isDirty, setIsDirty] = useState(false);
-  const ROUTINE_CATEGORY = 'Routine';
-
-  const { data: configurations, isLoading } = useQuery({
-    queryKey: ['configurations', ROUTINE_CATEGORY],
-    queryFn: () => apiService.getConfigurations(ROUTINE_CATEGORY),
-  });
+// The one category without a schema: free-form keys and values
+const CUSTOM_CATEGORY = 'custom';
 
-  const updateConfigMutation = useMutation({
-    mutationFn: ({ key, value, description }: { key: string; value: string; description?: string }) =>
-      apiService.updateConfiguration(ROUTINE_CATEGORY, key, { value, description }),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['configurations'] });
-      setIsDirty(false);
-    },
-  });
-
-  const createConfigMutation = useMutation({
-    mutationFn: ({ key, value, description }: { key: string; value: string; description?: string }) =>
-      apiService.createConfiguration({ key, value, category: ROUTINE_CATEGORY, description }),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['configurations'] });
-      setIsDirty(false);
-    },
-  });
-
-  useEffect(() => {
-    if (configurations) {
-      const getConfigValue = (key: string, defaultValue: string): string => {
-        const config = configurations.find((c) => c.key === key);
-        return config?.value || defaultValue;
-      };
-      setSettings({
-        observationWindowMinutes: parseInt(getConfigValue('ObservationWindowMinutes', '45'), 10),
-        defaultRoutineProbability: parseFloat(getConfigValue('DefaultRoutineProbability', '0.5')),
-        probabilityIncreaseStep: parseFloat(getConfigValue('ProbabilityIncreaseStep', '0.1')),
-        probabilityDecreaseStep: parseFloat(getConfigValue('ProbabilityDecreaseStep', '0.1')),
-        autoExecuteThreshold: parseFloat(getConfigValue('AutoExecuteThreshold', '0.7')),
-      });
-      setIsDirty(false);
-    }
-  }, [configurations]);
-
-  const saveConfig = async (key: string, value: string, description?: string) => {
-    const existing = configurations?.find((c) => c.key === key);
-    if (existing) {
-      await updateConfigMutation.mutateAsync({ key, value, description });
-    } else {
-      await createConfigMutation.mutateAsync({ key, value, description });
-    }
-  };
-
-  const handleSave = async () => {
-    await Promise.all([
-      saveConfig('ObservationWindowMinutes', settings.observationWindowMinutes.toString(), 'How long (in minutes) to observe actions after an intent occurs'),
-      saveConfig('DefaultRoutineProbability', settings.defaultRoutineProbability.toString(), 'Default confidence for new routine reminders'),
-      saveConfig('ProbabilityIncreaseStep', settings.probabilityIncreaseStep.toString(), 'How much to increase confidence when action is observed'),
-      saveConfig('ProbabilityDecreaseStep', settings.probabilityDecreaseStep.toString(), 'How much to decrease confidence when action is rejected'),
-      saveConfig('AutoExecuteThreshold', settings.autoExecuteThreshold.toString(), 'Minimum confidence for automatic execution (high confidence)'),
-    ]);
-  };
-
-  if (isLoading) {
-    return <div className="bg-white shadow rounded-lg p-6 text-center text-gray-500">Loading...</div>;
-  }
-
-  return (
-    <div className="bg-white shadow rounded-lg p-6">
-      <div className="flex justify-between items-center mb-6">
-        <div>
-          <h2 className="text-xl font-semibold text-gray-900">Routine Learning Settings</h2>
-          <p className="text-sm text-gray-600 mt-1">
-            Configure how routines learn from your behavior after you express intents
-          </p>
-        </div>
-        <div className="space-x-2">
-          <button
-            onClick={() => {
-              setSettings({
-                observationWindowMinutes: 45,
-                defaultRoutineProbability: 0.5,
-                probabilityIncreaseStep: 0.1,
-                probabilityDecreaseStep: 0.1,
-                autoExecuteThreshold: 0.7,
-              });
-              setIsDirty(true);
-            }}
-            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
-          >
-            🔄 Reset to Defaults
-          </button>
-          <button
-            onClick={handleSave}
-            disabled={!isDirty || updateConfigMutation.isPending || createConfigMutation.isPending}
-            className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 inline-flex items-center gap-2"
-          >
-            {updateConfigMutation.isPending || createConfigMutation.isPending ? '⏳ Saving...' : '💾 Save Changes'}
-          </button>
-        </div>
-      </div>
-      <div className="space-y-6">
-        <div>
-          <label htmlFor="observationWindow" className="block text-sm font-medium text-gray-900 mb-2">
-            Observation Window (minutes)
-          </label>
-          <input
-            type="number"
-            id="observationWindow"
-            min="1"
-            max="120"
-            value={settings.observationWindowMinutes}
-            onChange={(e) => {
-              setSettings({ ...settings, observationWindowMinutes: parseInt(e.target.value) || 45 });
-              setIsDirty(true);
-            }}
-            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-          />
-          <p className="mt-1 text-sm text-gray-500">
-            How long after you express an intent should the system observe your actions? Actions during this window are considered part of your routine.
-          </p>
-        </div>
-        <div>
-          <label htmlFor="defaultProbability" className="block text-sm font-medium text-gray-900 mb-2">
-            Default Routine Probability
-          </label>
-          <input
-            type="number"
-            id="defaultProbability"
-            min="0"
-            max="1"
-            step="0.1"
-            value={settings.defaultRoutineProbability}
-            onChange={(e) => {
-              setSettings({ ...settings, defaultRoutineProbability: parseFloat(e.target.value) || 0.5 });
-              setIsDirty(true);
-            }}
-            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-          />
-          <p className="mt-1 text-sm text-gray-500">
-            Starting confidence for newly learned routine actions. Higher values mean the system is more confident from the start.
-          </p>
-        </div>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <div>
-            <label htmlFor="increaseStep" className="block text-sm font-medium text-gray-900 mb-2">
-              Probability Increase Step
-            </label>
-            <input
-              type="number"
-              id="increaseStep"
-              min="0"
-              max="1"
-              step="0.05"
-              value={settings.probabilityIncreaseStep}
-              onChange={(e) => {
-                setSettings({ ...settings, probabilityIncreaseStep: parseFloat(e.target.value) || 0.1 });
-                setIsDirty(true);
-              }}
-              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            />
-            <p className="mt-1 text-sm text-gray-500">
-              How much confidence increases when an action is observed within the routine window.
-            </p>
-          </div>
-          <div>
-            <label htmlFor="decreaseStep" className="block text-sm font-medium text-gray-900 mb-2">
-              Probability Decrease Step
-            </label>
-            <input
-              type="number"
-              id="decreaseStep"
-              min="0"
-              max="1"
-              step="0.05"
-              value={settings.probabilityDecreaseStep}
-              onChange={(e) => {
-                setSettings({ ...settings, probabilityDecreaseStep: parseFloat(e.target.value) || 0.1 });
-                setIsDirty(true);
-              }}
-              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            />
-            <p className="mt-1 text-sm text-gray-500">
-              How much confidence decreases when you reject or skip a routine action.
-            </p>
-          </div>
-        </div>
-        <div>
-          <label htmlFor="autoExecuteThreshold" className="block text-sm font-medium text-gray-900 mb-2">
-            Auto-Execute Threshold
-          </label>
-          <input
-            type="number"
-            id="autoExecuteThreshold"
-            min="0"
-            max="1"
-            step="0.1"
-            value={settings.autoExecuteThreshold}
-            onChange={(e) => {
-              setSettings({ ...settings, autoExecuteThreshold: parseFloat(e.target.value) || 0.7 });
-              setIsDirty(true);
-            }}
-            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-          />
-          <p className="mt-1 text-sm text-gray-500">
-            Minimum confidence required for automatic execution. Actions above this threshold will execute automatically; below it, they will ask first.
-          </p>
-        </div>
-      </div>
-    </div>
-  );
-}
 
 // User Preferences Tab Component  
 function UserPreferencesTab() {
@@ -439,6 +36,7 @@ function UserPreferencesTab() {
     dailyLimit: 10,
     minimumInterval: 'PT15M',
     enabled: true,
+    allowAutoExecute: false,
   });
   const [isDirty, setIsDirty] = useState(false);
   const [intervalMinutes, setIntervalMinutes] = useState(15);
@@ -448,12 +46,12 @@ function UserPreferencesTab() {
 
   const { data: loadedPreferences, isLoading } = useQuery({
     queryKey: ['userPreferences', personId],
-    queryFn: () => apiService.getUserPreferences(personId),
+    queryFn: () => apiClient.getUserPreferences({ params: { personId } }),
     enabled: !!personId,
   });
 
   const updateMutation = useMutation({
-    mutationFn: () => apiService.updateUserPreferences(personId, preferences),
+    mutationFn: () => apiClient.updateUserPreferences(preferences, { params: { personId } }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['userPreferences', personId] });
       setIsDirty(false);
@@ -492,6 +90,7 @@ function UserPreferencesTab() {
         dailyLimit: loadedPreferences.dailyLimit,
         minimumInterval: loadedPreferences.minimumInterval,
         enabled: loadedPreferences.enabled,
+        allowAutoExecute: loadedPreferences.allowAutoExecute,
       });
       setIntervalMinutes(parsedInterval);
       setIsDirty(false);
@@ -541,6 +140,24 @@ function UserPreferencesTab() {
                 When disabled, no reminders will be sent
               </p>
             </div>
+            <div>
+              <label htmlFor="allowAutoExecute" className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="allowAutoExecute"
+                  checked={preferences.allowAutoExecute}
+                  onChange={(e) => {
+                    setPreferences({ ...preferences, allowAutoExecute: e.target.checked });
+                    setIsDirty(true);
+                  }}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="ml-2 text-sm font-medium text-gray-900">Allow Auto-Execute</span>
+              </label>
+              <p className="mt-1 text-sm text-gray-500">
+                When disabled, reminders are never executed without asking, even if marked safe to auto-execute
+              </p>
+            </div>
             <div>
               <label htmlFor="defaultStyle" className="block text-sm font-medium text-gray-900 mb-2">
                 Default Reminder Style
@@ -627,11 +244,11 @@ function ApiKeysTab() {
 
   const { data: apiKeys, isLoading } = useQuery({
     queryKey: ['apiKeys'],
-    queryFn: () => apiService.getApiKeys(),
+    queryFn: () => apiClient.getApiKeys(),
   });
 
   const createMutation = useMutation({
-    mutationFn: (request: CreateApiKeyRequest) => apiService.createApiKey(request),
+    mutationFn: (request: CreateApiKeyRequest) => apiClient.createApiKey(request),
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['apiKeys'] });
       setCreatedKey(data.fullKey);
@@ -643,11 +260,10 @@ function ApiKeysTab() {
     },
   });
 
-  const deleteMutation = useMutation({
-    mutationFn: (id: string) => apiService.deleteApiKey(id),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['apiKeys'] });
-    },
+  const { deleteItem } = useUndoableDelete({
+    type: TrashItemType.ApiKey,
+    deleteFn: (id) => apiClient.deleteApiKey(undefined, { params: { id } }),
+    invalidateKeys: [['apiKeys']],
   });
 
   return (
@@ -824,11 +440,7 @@ function ApiKeysTab() {
                       </td>
                       <td className="px-3 py-2 whitespace-nowrap text-sm">
                         <button
-                          onClick={() => {
-                            if (confirm('Are you sure you want to delete this API key? This action cannot be undone.')) {
-                              deleteMutation.mutate(key.id);
-                            }
-                          }}
+                          onClick={() => deleteItem(key.id, key.name)}
                           className="text-red-600 hover:text-red-900"
                         >
                           🗑️ Delete
@@ -850,34 +462,51 @@ export default function ConfigurationPage() {
   const { isAdmin } = useAuth();
   const queryClient = useQueryClient();
   const [selectedTab, setSelectedTab] = useState<string>('policies');
-  const [selectedCategory, setSelectedCategory] = useState<string>('notifications');
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [editingKey, setEditingKey] = useState<string | null>(null);
   const [newConfig, setNewConfig] = useState<CreateConfigurationRequest>({
     key: '',
     value: '',
-    category: 'notifications',
+    category: CUSTOM_CATEGORY,
     description: '',
   });
   const [editValue, setEditValue] = useState('');
 
+  // Every setting the services read, with its default, comes from the backend's schema
+  const { data: schema, isLoading: isSchemaLoading } = useQuery({
+    queryKey: ['configurationSchema'],
+    queryFn: () => apiClient.getSchema(),
+  });
+  const groups = useMemo(() => settingGroups(schema ?? []), [schema]);
+  const tabs = [...groups.map((group) => ({ value: group.tab, label: group.label })), ...FIXED_TABS];
+  const selectedGroup = groups.find((group) => group.tab === selectedTab);
+
+  // Configuration keys found in the command palette link to the tab that lists them
+  const searchParams = useSearchParams();
+  useEffect(() => {
+    const tab = searchParams.get('tab');
+    if (tab && (groups.some((g) => g.tab === tab) || FIXED_TABS.some((t) => t.value === tab))) {
+      setSelectedTab(tab);
+    }
+  }, [searchParams, groups]);
+
   const { data: configurations, isLoading } = useQuery({
-    queryKey: ['configurations', selectedCategory],
-    queryFn: () => apiService.getConfigurations(selectedCategory),
+    queryKey: ['configurations', CUSTOM_CATEGORY],
+    queryFn: () => apiClient.getConfigurations({ queries: { category: CUSTOM_CATEGORY } }),
   });
 
   const createMutation = useMutation({
-    mutationFn: (request: CreateConfigurationRequest) => apiService.createConfiguration(request),
+    mutationFn: (request: CreateConfigurationRequest) => apiClient.createConfiguration(request),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['configurations'] });
       setShowCreateForm(false);
-      setNewConfig({ key: '', value: '', category: selectedCategory, description: '' });
+      setNewConfig({ key: '', value: '', category: CUSTOM_CATEGORY, description: '' });
     },
   });
 
   const updateMutation = useMutation({
     mutationFn: ({ category, key, request }: { category: string; key: string; request: UpdateConfigurationRequest }) =>
-      apiService.updateConfiguration(category, key, request),
+      apiClient.updateConfiguration(request, { params: { category, key } }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['configurations'] });
       setEditingKey(null);
@@ -887,7 +516,7 @@ export default function ConfigurationPage() {
 
   const handleCreate = (e: React.FormEvent) => {
     e.preventDefault();
-    createMutation.mutate({ ...newConfig, category: selectedCategory });
+    createMutation.mutate({ ...newConfig, category: CUSTOM_CATEGORY });
   };
 
   const handleEdit = (config: Configuration) => {
@@ -908,30 +537,15 @@ export default function ConfigurationPage() {
     setEditValue('');
   };
 
-  const createDefaultConfig = (key: string) => {
-    const defaultConfig = DEFAULT_CONFIGS[selectedCategory as keyof typeof DEFAULT_CONFIGS]?.find(
-      (c) => c.key === key
-    );
-    if (defaultConfig) {
-      setNewConfig({
-        key: defaultConfig.key,
-        value: '',
-        category: selectedCategory,
-        description: defaultConfig.description,
-      });
-      setShowCreateForm(true);
-    }
-  };
-
   return (
     <Layout>
       <div className="px-4 py-6 sm:px-0">
         <div className="flex justify-between items-center mb-6">
           <h1 className="text-3xl font-bold text-gray-900">Configuration</h1>
-          {isAdmin && (
+          {isAdmin && selectedTab === 'custom' && (
             <button
               onClick={() => {
-                setNewConfig({ key: '', value: '', category: selectedCategory, description: '' });
+                setNewConfig({ key: '', value: '', category: CUSTOM_CATEGORY, description: '' });
                 setShowCreateForm(!showCreateForm);
               }}
               className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700"
@@ -944,16 +558,13 @@ export default function ConfigurationPage() {
         {/* Main Tabs */}
         <div className="mb-6 border-b border-gray-200">
           <nav className="-mb-px flex space-x-8 overflow-x-auto">
-            {CONFIG_TABS.map((tab) => (
+            {tabs.map((tab) => (
               <button
                 key={tab.value}
                 onClick={() => {
                   setSelectedTab(tab.value);
                   setShowCreateForm(false);
                   setEditingKey(null);
-                  if (CONFIG_CATEGORIES.some(c => c.value === tab.value)) {
-                    setSelectedCategory(tab.value);
-                  }
                 }}
                 className={`py-4 px-1 border-b-2 font-medium text-sm whitespace-nowrap ${
                   selectedTab === tab.value
@@ -968,11 +579,11 @@ export default function ConfigurationPage() {
         </div>
 
         {/* Render content based on selected tab */}
-        {selectedTab === 'policies' && (
-          <PoliciesTab />
+        {isSchemaLoading && (
+          <div className="bg-white shadow rounded-lg p-6 text-center text-gray-500">Loading...</div>
         )}
-        {selectedTab === 'routines' && (
-          <RoutinesTab />
+        {selectedGroup && (
+          <ConfigurationGroupTab group={selectedGroup} />
         )}
         {selectedTab === 'user-preferences' && (
           <UserPreferencesTab />
@@ -980,7 +591,10 @@ export default function ConfigurationPage() {
         {selectedTab === 'api-keys' && isAdmin && (
           <ApiKeysTab />
         )}
-        {selectedTab !== 'policies' && selectedTab !== 'routines' && selectedTab !== 'user-preferences' && selectedTab !== 'api-keys' && (
+        {selectedTab === 'import-export' && (
+          <ConfigurationBundleTab />
+        )}
+        {selectedTab === 'custom' && (
           <>
             {/* Create Form */}
             {showCreateForm && isAdmin && (
@@ -1021,7 +635,7 @@ export default function ConfigurationPage() {
                 </label>
                 <textarea
                   id="newDescription"
-                  value={newConfig.description}
+                  value={newConfig.description ?? ''}
                   onChange={(e) => setNewConfig({ ...newConfig, description: e.target.value })}
                   rows={2}
                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
@@ -1045,27 +659,6 @@ export default function ConfigurationPage() {
                 </button>
               </div>
             </form>
-
-            {/* Quick Add Defaults */}
-            {DEFAULT_CONFIGS[selectedCategory as keyof typeof DEFAULT_CONFIGS] && (
-              <div className="mt-4 pt-4 border-t border-gray-200">
-                <p className="text-sm text-gray-600 mb-2">Quick add:</p>
-                <div className="flex flex-wrap gap-2">
-                  {DEFAULT_CONFIGS[selectedCategory as keyof typeof DEFAULT_CONFIGS]
-                    ?.filter((c) => !configurations?.some((config) => config.key === c.key))
-                    .map((config) => (
-                      <button
-                        key={config.key}
-                        type="button"
-                        onClick={() => createDefaultConfig(config.key)}
-                        className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
-                      >
-                        + {config.key}
-                      </button>
-                    ))}
-                </div>
-              </div>
-            )}
           </div>
         )}
 
@@ -1073,7 +666,7 @@ export default function ConfigurationPage() {
         <div className="bg-white shadow rounded-lg overflow-hidden">
           <div className="px-4 py-5 sm:p-6">
             <h2 className="text-lg font-medium text-gray-900 mb-4">
-              {CONFIG_CATEGORIES.find((c) => c.value === selectedCategory)?.label} Configurations
+              Custom Configurations
             </h2>
             {isLoading ? (
               <div className="text-sm text-gray-500">Loading...</div>
@@ -1139,6 +732,7 @@ export default function ConfigurationPage() {
                 ))}
               </div>
             )}
+            <ConfigurationHistoryPanel category={CUSTOM_CATEGORY} />
           </div>
         </div>
           </>
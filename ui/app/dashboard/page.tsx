@@ -7,8 +7,9 @@ import { Layout } from '@/components/Layout';
 import { ConfidenceIndicator } from '@/components/ConfidenceIndicator';
 import { LearningBadge } from '@/components/LearningBadge';
 import { DateTimeDisplay } from '@/components/DateTimeDisplay';
-import { apiService } from '@/services/api';
-import { useAuth } from '@/context/AuthContext';
+import { ReminderFeedbackControls } from '@/components/ReminderFeedbackControls';
+import { apiClient } from '@/services/api';
+import { usePermissions } from '@/hooks/usePermissions';
 import type { ReminderCandidateDto, RoutineDto } from '@/types';
 import Link from 'next/link';
 import { formatDistanceToNow, format, isPast, isToday, isTomorrow, differenceInMinutes, differenceInHours, differenceInDays } from 'date-fns';
@@ -48,16 +49,16 @@ function formatTimeUntilExecution(date: string | Date): string {
 }
 
 export default function DashboardPage() {
-  const { user, isAdmin } = useAuth();
+  const { can, ownPersonId } = usePermissions();
   const [selectedPersonId, setSelectedPersonId] = useState<string>('');
   const [currentTime, setCurrentTime] = useState(new Date());
 
-  // For non-admin users, set personId to their username on mount
+  // Users who cannot list everyone start on their own personId
   useEffect(() => {
-    if (!isAdmin && user?.username) {
-      setSelectedPersonId(user.username);
+    if (!can('people:view-all') && ownPersonId) {
+      setSelectedPersonId(ownPersonId);
     }
-  }, [isAdmin, user]);
+  }, [can, ownPersonId]);
 
   // Update current time every minute for accurate time-before-execution display
   useEffect(() => {
@@ -67,11 +68,11 @@ export default function DashboardPage() {
     return () => clearInterval(interval);
   }, []);
 
-  // Fetch personIds for admin dropdown
+  // Fetch personIds for the person dropdown
   const { data: personIdsData } = useQuery({
     queryKey: ['personIds'],
-    queryFn: () => apiService.getPersonIds(),
-    enabled: isAdmin,
+    queryFn: () => apiClient.getPersonIds(),
+    enabled: can('people:view-others'),
   });
 
   // Get today's active reminders (high probability only)
@@ -82,21 +83,21 @@ export default function DashboardPage() {
 
   const { data: candidates, isLoading: candidatesLoading } = useQuery({
     queryKey: ['reminderCandidates', { page: 1, pageSize: 10, status: 'Scheduled', personId: selectedPersonId || undefined }],
-    queryFn: () => apiService.getReminderCandidates({ 
+    queryFn: () => apiClient.getReminderCandidates({ queries: { 
       page: 1, 
       pageSize: 10,
       status: 'Scheduled',
       personId: selectedPersonId || undefined,
-    }),
+    } }),
   });
 
   const { data: routinesData } = useQuery({
     queryKey: ['routines', { page: 1, pageSize: 5, personId: selectedPersonId || undefined }],
-    queryFn: () => apiService.getRoutines({ 
+    queryFn: () => apiClient.getRoutines({ queries: { 
       page: 1, 
       pageSize: 5,
       personId: selectedPersonId || undefined,
-    }),
+    } }),
   });
 
   // Filter high probability reminders
@@ -121,7 +122,7 @@ export default function DashboardPage() {
         </div>
 
         {/* Person ID Filter */}
-        {isAdmin && (
+        {can('people:view-others') && (
           <div className="bg-white shadow rounded-lg mb-6 p-4">
             <div className="flex gap-4">
               <div className="flex-1">
@@ -135,7 +136,7 @@ export default function DashboardPage() {
                   onChange={(e) => setSelectedPersonId(e.target.value)}
                   className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
                 >
-                  <option value="">All Persons</option>
+                  {can('people:view-all') && <option value="">All Persons</option>}
                   {personIdsData?.map((p) => (
                     <option key={p.personId} value={p.personId}>
                       {p.displayName} ({p.personId})
@@ -184,6 +185,9 @@ export default function DashboardPage() {
                           {format(new Date(reminder.checkAtUtc), 'h:mm a')}
                         </p>
                       </div>
+                      <div className="mt-2">
+                        <ReminderFeedbackControls candidate={reminder} compact />
+                      </div>
                     </div>
                     <div title={`Confidence: ${((reminder.confidence || 0) * 100).toFixed(0)}%`}>
                       <ConfidenceIndicator 
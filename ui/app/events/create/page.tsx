@@ -3,12 +3,13 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { useMutation, useQuery } from '@tanstack/react-query';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { Layout } from '@/components/Layout';
 import { ConfidenceIndicator } from '@/components/ConfidenceIndicator';
 import { LearningBadge } from '@/components/LearningBadge';
-import { apiService } from '@/services/api';
-import { useAuth } from '@/context/AuthContext';
+import { apiClient } from '@/services/api';
+import { getDayType, getTimeBucket } from '@/services/eventContext';
+import { usePermissions } from '@/hooks/usePermissions';
 import type { ActionEventDto, ReminderCandidateDto, RoutineDto, SignalStateDto } from '@/types';
 import { ProbabilityAction, EventType } from '@/types';
 
@@ -33,7 +34,7 @@ const COMMON_TOOLS = [
 
 export default function CreateEventPage() {
   const router = useRouter();
-  const { user, isAdmin } = useAuth();
+  const { can, ownPersonId } = usePermissions();
   const [eventType, setEventType] = useState<EventType>(EventType.Action);
   const [intentType, setIntentType] = useState<string>('');
   const [customIntentType, setCustomIntentType] = useState('');
@@ -60,49 +61,56 @@ export default function CreateEventPage() {
     probabilityAction: undefined,
   });
 
-  // For non-admin users, set personId to their username on mount
+  // "Create event for …" in the command palette arrives with the person in the URL
+  const searchParams = useSearchParams();
   useEffect(() => {
-    if (!isAdmin && user?.username) {
-      setFormData(prev => ({ ...prev, personId: user.username }));
+    const personId = searchParams.get('personId');
+    if (personId) setFormData(prev => ({ ...prev, personId }));
+  }, [searchParams]);
+
+  // Users who cannot manage others create for their own personId
+  useEffect(() => {
+    if (!can('people:manage-others') && ownPersonId) {
+      setFormData(prev => ({ ...prev, personId: ownPersonId }));
     }
-  }, [isAdmin, user]);
+  }, [can, ownPersonId]);
 
-  // Fetch personIds for admin dropdown
+  // Fetch personIds for the person dropdown
   const { data: personIdsData } = useQuery({
     queryKey: ['personIds'],
-    queryFn: () => apiService.getPersonIds(),
-    enabled: isAdmin,
+    queryFn: () => apiClient.getPersonIds(),
+    enabled: can('people:manage-others'),
   });
 
   // Fetch existing reminders and routines for preview
   const { data: remindersData } = useQuery({
     queryKey: ['reminderCandidates', { personId: formData.personId }],
-    queryFn: () => apiService.getReminderCandidates({ 
+    queryFn: () => apiClient.getReminderCandidates({ queries: { 
       personId: formData.personId || undefined,
       page: 1,
       pageSize: 50,
-    }),
+    } }),
     enabled: !!formData.personId && formData.actionType.length > 0,
   });
 
   const { data: routinesData } = useQuery({
     queryKey: ['routines', { personId: formData.personId }],
-    queryFn: () => apiService.getRoutines({ 
+    queryFn: () => apiClient.getRoutines({ queries: { 
       personId: formData.personId || undefined,
       page: 1,
       pageSize: 20,
-    }),
+    } }),
     enabled: !!formData.personId,
   });
 
   const { data: activeRoutinesData } = useQuery({
     queryKey: ['activeRoutines', { personId: formData.personId }],
-    queryFn: () => apiService.getActiveRoutines(formData.personId),
+    queryFn: () => apiClient.getActiveRoutines({ queries: { personId: formData.personId } }),
     enabled: !!formData.personId && eventType === EventType.StateChange,
   });
 
   const createMutation = useMutation({
-    mutationFn: (event: ActionEventDto) => apiService.ingestEvent(event),
+    mutationFn: (event: ActionEventDto) => apiClient.ingestEvent(event),
     onSuccess: () => {
       alert('Event created successfully!');
       router.push('/events');
@@ -112,21 +120,6 @@ export default function CreateEventPage() {
     },
   });
 
-  // Helper functions
-  function getTimeBucket(date: Date): string {
-    const hour = date.getHours();
-    if (hour >= 5 && hour < 12) return 'morning';
-    if (hour >= 12 && hour < 17) return 'afternoon';
-    if (hour >= 17 && hour < 22) return 'evening';
-    return 'night';
-  }
-
-  function getDayType(date: Date): string {
-    const day = date.getDay();
-    if (day === 0 || day === 6) return 'weekend';
-    return 'weekday';
-  }
-
   // Update action type based on selections
   useEffect(() => {
     if (eventType === EventType.StateChange) {
@@ -207,7 +200,7 @@ export default function CreateEventPage() {
   };
 
   return (
-    <Layout>
+    <Layout permission="events:create">
       <div className="px-4 py-6 sm:px-0 max-w-6xl mx-auto">
         <div className="mb-6">
           <button
@@ -372,7 +365,7 @@ export default function CreateEventPage() {
                   <label htmlFor="personId" className="block text-sm font-medium text-gray-900 mb-2">
                     Person ID *
                   </label>
-                  {isAdmin ? (
+                  {can('people:manage-others') ? (
                     <select
                       id="personId"
                       value={formData.personId}
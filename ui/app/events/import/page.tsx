@@ -0,0 +1,678 @@
+// Bulk event import from CSV, NDJSON or a Home Assistant export, with a dry run before ingesting
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import type { AxiosError } from 'axios';
+import { Layout } from '@/components/Layout';
+import { apiClient } from '@/services/api';
+import { usePermissions } from '@/hooks/usePermissions';
+import { downloadFile, exportFileName } from '@/services/dataExport';
+import { useToast } from '@/context/ToastContext';
+import {
+  buildImportRows,
+  chunk,
+  detectImportFormat,
+  EMPTY_MAPPING,
+  IMPORT_FORMAT_LABELS,
+  markDuplicates,
+  parseImportSource,
+  reconcileFailedBatch,
+  suggestMapping,
+  toErrorReportCsv,
+  type ColumnMapping,
+  type ImportFormat,
+  type ImportRow,
+  type ImportSource,
+} from '@/services/eventImport';
+import type { ActionEventDto, ActionEventListDto } from '@/types';
+import { EventType, IngestEventBatchItemStatus } from '@/types';
+
+// The API accepts up to 100 events per batch; smaller chunks keep progress moving
+const IMPORT_CHUNK_SIZE = 50;
+const MAX_CHUNK_ATTEMPTS = 3;
+const EXISTING_EVENTS_PAGE_SIZE = 500;
+const PREVIEW_ROW_LIMIT = 200;
+
+const MAPPED_FIELDS: { field: Exclude<keyof ColumnMapping, 'signalColumns' | 'defaultPersonId'>; label: string; hint: string }[] = [
+  { field: 'personId', label: 'Person ID', hint: 'Falls back to the default person' },
+  { field: 'actionType', label: 'Action type *', hint: 'e.g. play_music' },
+  { field: 'timestampUtc', label: 'Timestamp *', hint: 'ISO 8601 or epoch; no timezone = local time' },
+  { field: 'eventType', label: 'Event type', hint: 'Action or StateChange; defaults to Action' },
+  { field: 'timeBucket', label: 'Time bucket', hint: 'Derived from the timestamp if not mapped' },
+  { field: 'dayType', label: 'Day type', hint: 'Derived from the timestamp if not mapped' },
+  { field: 'location', label: 'Location', hint: '' },
+  { field: 'presentPeople', label: 'Present people', hint: 'Separated by ; | or ,' },
+];
+
+interface ImportFailure {
+  rowNumber: number;
+  event: ActionEventDto;
+  error: string;
+  isDuplicate: boolean; // Kept so a retry still knows the event existed before the import
+}
+
+const toFailure = (row: ImportRow, error: string): ImportFailure => ({
+  rowNumber: row.rowNumber,
+  event: row.event!,
+  error,
+  isDuplicate: row.isDuplicate,
+});
+
+interface ImportProgress {
+  total: number;
+  ingested: number;
+  failures: ImportFailure[];
+  isRunning: boolean;
+  wasCancelled: boolean;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Network errors and server errors are worth retrying; a 4xx will fail the same way again
+function isRetryable(error: unknown) {
+  const status = (error as AxiosError).response?.status;
+  return status === undefined || status >= 500;
+}
+
+function describeError(error: unknown) {
+  const axiosError = error as AxiosError<{ message?: string }>;
+  return axiosError.response?.data?.message || axiosError.message || 'Request failed';
+}
+
+export default function ImportEventsPage() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+  const { can, ownPersonId } = usePermissions();
+
+  const [fileName, setFileName] = useState<string | undefined>();
+  const [text, setText] = useState('');
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
+  const [dryRunRows, setDryRunRows] = useState<ImportRow[] | null>(null);
+  const [isCheckingDuplicates, setIsCheckingDuplicates] = useState(false);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [showProblemsOnly, setShowProblemsOnly] = useState(false);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const cancelRef = useRef(false);
+
+  const { data: personIdsData } = useQuery({
+    queryKey: ['personIds'],
+    queryFn: () => apiClient.getPersonIds(),
+    enabled: can('people:manage-others'),
+  });
+
+  // Users who cannot manage others import for their own personId
+  useEffect(() => {
+    if (!can('people:manage-others') && ownPersonId) {
+      setMapping((prev) => ({ ...prev, defaultPersonId: ownPersonId }));
+    }
+  }, [can, ownPersonId]);
+
+  const parsed = useMemo((): { source: ImportSource | null; error: string | null } => {
+    if (!text.trim()) return { source: null, error: null };
+    try {
+      return { source: parseImportSource(text, format), error: null };
+    } catch (error) {
+      return { source: null, error: (error as Error).message };
+    }
+  }, [text, format]);
+  const source = parsed.source;
+  const columns = source && source.format !== 'ndjson' ? source.columns : [];
+
+  // Re-guess the mapping only when the columns change, so edits to pasted rows keep it
+  const suggestMappingFor = (value: string, nextFormat: ImportFormat) => {
+    try {
+      const next = parseImportSource(value, nextFormat);
+      if (next.format !== 'ndjson' && next.columns.join('\n') !== columns.join('\n')) {
+        setMapping((prev) => ({ ...suggestMapping(next.columns), defaultPersonId: prev.defaultPersonId }));
+      }
+    } catch {
+      // Reported from the parsed source
+    }
+  };
+
+  const loadText = (value: string, name?: string) => {
+    const detected = detectImportFormat(value, name);
+    setFileName(name);
+    setText(value);
+    setFormat(detected);
+    setDryRunRows(null);
+    setProgress(null);
+    suggestMappingFor(value, detected);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    loadText(await file.text(), file.name);
+  };
+
+  const updateMapping = (changes: Partial<ColumnMapping>) => {
+    setMapping((prev) => ({ ...prev, ...changes }));
+    setDryRunRows(null);
+  };
+
+  const toggleSignalColumn = (column: string) => {
+    updateMapping({
+      signalColumns: mapping.signalColumns.includes(column)
+        ? mapping.signalColumns.filter((c) => c !== column)
+        : [...mapping.signalColumns, column],
+    });
+  };
+
+  // Pages through what each person already has in the file's time range
+  const fetchExistingEvents = async (rows: ImportRow[]) => {
+    const events = rows.flatMap((row) => (row.event ? [row.event] : []));
+    if (events.length === 0) return [];
+
+    const fromUtc = events[0].timestampUtc;
+    const toUtc = new Date(new Date(events[events.length - 1].timestampUtc).getTime() + 1000).toISOString();
+    const personIds = Array.from(new Set(events.map((event) => event.personId)));
+    const existing: ActionEventListDto[] = [];
+
+    for (const personId of personIds) {
+      for (let page = 1; ; page++) {
+        const result = await apiClient.getEvents({
+          queries: { personId, fromUtc, toUtc, page, pageSize: EXISTING_EVENTS_PAGE_SIZE },
+        });
+        existing.push(...result.items);
+        if (result.items.length === 0 || page * EXISTING_EVENTS_PAGE_SIZE >= result.totalCount) break;
+      }
+    }
+    return existing;
+  };
+
+  const handleDryRun = async () => {
+    if (!source) return;
+    const rows = buildImportRows(source, mapping).map((row) =>
+      row.event && row.errors.length === 0 && !can('events:create', row.event.personId)
+        ? { ...row, errors: [`You cannot create events for ${row.event.personId}`] }
+        : row
+    );
+
+    setIsCheckingDuplicates(true);
+    try {
+      const validRows = rows.filter((row) => row.errors.length === 0);
+      setDryRunRows(markDuplicates(rows, await fetchExistingEvents(validRows)));
+    } catch (error) {
+      showToast({ message: `Could not check for existing events: ${describeError(error)}`, variant: 'error' });
+      setDryRunRows(markDuplicates(rows, []));
+    } finally {
+      setIsCheckingDuplicates(false);
+    }
+  };
+
+  const summary = useMemo(() => {
+    const rows = dryRunRows ?? [];
+    const invalid = rows.filter((row) => row.errors.length > 0);
+    const duplicates = rows.filter((row) => row.errors.length === 0 && row.isDuplicate);
+    const toImport = rows.filter((row) => row.errors.length === 0 && (includeDuplicates || !row.isDuplicate));
+    return { invalid, duplicates, toImport };
+  }, [dryRunRows, includeDuplicates]);
+
+  const ingestChunk = async (rows: ImportRow[]): Promise<ImportFailure[]> => {
+    const failures: ImportFailure[] = [];
+    let pending = rows;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await apiClient.ingestEventBatch({ events: pending.map((row) => row.event!) });
+        return [
+          ...failures,
+          ...response.results
+            .filter((result) => result.status !== IngestEventBatchItemStatus.Ingested)
+            .map((result) => toFailure(pending[result.index], result.error ?? result.status)),
+        ];
+      } catch (error) {
+        if (!isRetryable(error)) {
+          return [...failures, ...pending.map((row) => toFailure(row, describeError(error)))];
+        }
+        await sleep(1000 * 2 ** (attempt - 1));
+
+        // The server may have saved part of the chunk before failing, so only what it does not have is sent again
+        const existing = await fetchExistingEvents(pending).catch(() => null);
+        if (!existing) {
+          return [...failures, ...pending.map((row) => toFailure(row, describeError(error)))];
+        }
+        const reconciled = reconcileFailedBatch(pending, existing);
+        failures.push(
+          ...reconciled.unconfirmed.map((row) =>
+            toFailure(row, 'Could not confirm whether this event was saved, as an identical event already existed')
+          )
+        );
+        pending = reconciled.pending;
+        if (pending.length === 0 || attempt >= MAX_CHUNK_ATTEMPTS) {
+          return [...failures, ...pending.map((row) => toFailure(row, describeError(error)))];
+        }
+      }
+    }
+  };
+
+  const runImport = async (rows: ImportRow[]) => {
+    if (rows.length === 0) return;
+    cancelRef.current = false;
+    setProgress({ total: rows.length, ingested: 0, failures: [], isRunning: true, wasCancelled: false });
+
+    let ingested = 0;
+    const failures: ImportFailure[] = [];
+    for (const rowsInChunk of chunk(rows, IMPORT_CHUNK_SIZE)) {
+      if (cancelRef.current) break;
+      const chunkFailures = await ingestChunk(rowsInChunk);
+      ingested += rowsInChunk.length - chunkFailures.length;
+      failures.push(...chunkFailures);
+      setProgress({ total: rows.length, ingested, failures: [...failures], isRunning: true, wasCancelled: false });
+    }
+
+    setProgress({ total: rows.length, ingested, failures, isRunning: false, wasCancelled: cancelRef.current });
+    queryClient.invalidateQueries({ queryKey: ['events'] });
+    queryClient.invalidateQueries({ queryKey: ['reminderCandidates'] });
+    queryClient.invalidateQueries({ queryKey: ['routines'] });
+    showToast({
+      message: `Imported ${ingested} of ${rows.length} events${failures.length > 0 ? `, ${failures.length} failed` : ''}`,
+      variant: failures.length > 0 ? 'error' : 'success',
+    });
+  };
+
+  const retryFailures = () => {
+    if (!progress) return;
+    runImport(
+      progress.failures
+        .map((failure) => ({ rowNumber: failure.rowNumber, event: failure.event, errors: [], isDuplicate: failure.isDuplicate }))
+        .sort((a, b) => a.event.timestampUtc.localeCompare(b.event.timestampUtc))
+    );
+  };
+
+  const downloadErrorReport = () => {
+    if (!progress) return;
+    downloadFile([toErrorReportCsv(progress.failures)], exportFileName('event-import-errors', 'csv'), 'text/csv');
+  };
+
+  const previewRows = (dryRunRows ?? [])
+    .filter((row) => !showProblemsOnly || row.errors.length > 0 || row.isDuplicate)
+    .slice(0, PREVIEW_ROW_LIMIT);
+  const isImporting = progress?.isRunning ?? false;
+  const selectClassName =
+    'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm';
+
+  return (
+    <Layout permission="events:create">
+      <div className="px-4 py-6 sm:px-0 max-w-6xl mx-auto space-y-6">
+        <div>
+          <button
+            onClick={() => router.push('/events')}
+            className="text-indigo-600 hover:text-indigo-800 mb-4 flex items-center gap-2"
+          >
+            ← Back to Events
+          </button>
+          <h1 className="text-3xl font-bold text-gray-900">Import Events</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Seed a household from a CSV, an NDJSON file of events, or a Home Assistant logbook or history export
+          </p>
+        </div>
+
+        {/* 1. Source */}
+        <div className="bg-white shadow rounded-lg p-6 space-y-4">
+          <h2 className="text-lg font-medium text-gray-900">1. Source</h2>
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div>
+              <label htmlFor="importFile" className="block text-sm font-medium text-gray-700">
+                File
+              </label>
+              <input
+                id="importFile"
+                type="file"
+                accept=".csv,.tsv,.ndjson,.jsonl,.json"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                disabled={isImporting}
+                className="mt-1 block w-full text-sm text-gray-700"
+              />
+              {fileName && <p className="text-xs text-gray-500 mt-1">{fileName}</p>}
+            </div>
+            <div>
+              <label htmlFor="importFormat" className="block text-sm font-medium text-gray-700">
+                Format
+              </label>
+              <select
+                id="importFormat"
+                value={format}
+                onChange={(e) => {
+                  setFormat(e.target.value as ImportFormat);
+                  setDryRunRows(null);
+                  suggestMappingFor(text, e.target.value as ImportFormat);
+                }}
+                disabled={isImporting}
+                className={selectClassName}
+              >
+                {(Object.keys(IMPORT_FORMAT_LABELS) as ImportFormat[]).map((value) => (
+                  <option key={value} value={value}>
+                    {IMPORT_FORMAT_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="defaultPersonId" className="block text-sm font-medium text-gray-700">
+                Default person
+              </label>
+              {can('people:manage-others') ? (
+                <select
+                  id="defaultPersonId"
+                  value={mapping.defaultPersonId}
+                  onChange={(e) => updateMapping({ defaultPersonId: e.target.value })}
+                  disabled={isImporting}
+                  className={selectClassName}
+                >
+                  <option value="">None - every row needs a person</option>
+                  {personIdsData?.map((p) => (
+                    <option key={p.personId} value={p.personId}>
+                      {p.displayName}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  id="defaultPersonId"
+                  type="text"
+                  value={mapping.defaultPersonId}
+                  disabled
+                  className={`${selectClassName} bg-gray-50`}
+                />
+              )}
+            </div>
+          </div>
+          <div>
+            <label htmlFor="importText" className="block text-sm font-medium text-gray-700">
+              Or paste the contents
+            </label>
+            <textarea
+              id="importText"
+              value={text}
+              onChange={(e) => loadText(e.target.value)}
+              rows={6}
+              disabled={isImporting}
+              placeholder={'personId,actionType,timestamp,location,sensor.presence.kitchen\nalex,play_music,2026-10-19T19:30:00Z,living_room,on'}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-xs font-mono"
+            />
+          </div>
+          {parsed.error && <p className="text-sm text-red-600">{parsed.error}</p>}
+          {source && (
+            <p className="text-sm text-gray-600">
+              {source.format === 'ndjson'
+                ? `${source.records.length} records`
+                : `${source.rows.length} rows, ${source.columns.length} columns`}
+            </p>
+          )}
+        </div>
+
+        {/* 2. Mapping */}
+        {source && source.format !== 'ndjson' && (
+          <div className="bg-white shadow rounded-lg p-6 space-y-4">
+            <h2 className="text-lg font-medium text-gray-900">2. Map columns</h2>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              {MAPPED_FIELDS.map(({ field, label, hint }) => (
+                <div key={field}>
+                  <label htmlFor={`map-${field}`} className="block text-sm font-medium text-gray-700">
+                    {label}
+                  </label>
+                  <select
+                    id={`map-${field}`}
+                    value={mapping[field]}
+                    onChange={(e) => updateMapping({ [field]: e.target.value })}
+                    disabled={isImporting}
+                    className={selectClassName}
+                  >
+                    <option value="">Not mapped</option>
+                    {columns.map((column) => (
+                      <option key={column} value={column}>
+                        {column}
+                      </option>
+                    ))}
+                  </select>
+                  {hint && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
+                </div>
+              ))}
+            </div>
+            <div>
+              <div className="text-sm font-medium text-gray-700">Signal columns</div>
+              <p className="text-xs text-gray-500 mb-2">
+                Each selected column becomes a signal state named after the column. Empty cells are skipped.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {columns.map((column) => (
+                  <label
+                    key={column}
+                    className={`flex items-center gap-1 px-2 py-1 rounded border text-xs cursor-pointer ${
+                      mapping.signalColumns.includes(column)
+                        ? 'border-indigo-500 bg-indigo-50 text-indigo-900'
+                        : 'border-gray-200 text-gray-700'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={mapping.signalColumns.includes(column)}
+                      onChange={() => toggleSignalColumn(column)}
+                      disabled={isImporting}
+                      className="h-3 w-3"
+                    />
+                    {column}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* 3. Dry run */}
+        {source && (
+          <div className="bg-white shadow rounded-lg p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-medium text-gray-900">{source.format === 'ndjson' ? '2' : '3'}. Dry run</h2>
+              <button
+                onClick={handleDryRun}
+                disabled={isCheckingDuplicates || isImporting}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isCheckingDuplicates ? 'Checking...' : dryRunRows ? 'Check again' : 'Validate'}
+              </button>
+            </div>
+
+            {dryRunRows && (
+              <>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="rounded-lg bg-green-50 border border-green-200 p-3">
+                    <div className="text-2xl font-semibold text-green-800">{summary.toImport.length}</div>
+                    <div className="text-xs text-green-700">will be created</div>
+                  </div>
+                  <div className="rounded-lg bg-yellow-50 border border-yellow-200 p-3">
+                    <div className="text-2xl font-semibold text-yellow-800">{summary.duplicates.length}</div>
+                    <div className="text-xs text-yellow-700">
+                      already exist {includeDuplicates ? '(imported again)' : '(skipped)'}
+                    </div>
+                  </div>
+                  <div className="rounded-lg bg-red-50 border border-red-200 p-3">
+                    <div className="text-2xl font-semibold text-red-800">{summary.invalid.length}</div>
+                    <div className="text-xs text-red-700">invalid (skipped)</div>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={includeDuplicates}
+                      onChange={(e) => setIncludeDuplicates(e.target.checked)}
+                    />
+                    Import duplicates anyway
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={showProblemsOnly}
+                      onChange={(e) => setShowProblemsOnly(e.target.checked)}
+                    />
+                    Show only problems
+                  </label>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        {['Row', 'Status', 'Person', 'Action', 'Timestamp', 'Context', 'Signals'].map((heading) => (
+                          <th key={heading} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                            {heading}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {previewRows.map((row) => (
+                        <tr key={row.rowNumber}>
+                          <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                          <td className="px-3 py-2">
+                            {row.errors.length > 0 ? (
+                              <span className="text-red-700">{row.errors.join('; ')}</span>
+                            ) : row.isDuplicate ? (
+                              <span className="px-2 py-0.5 rounded bg-yellow-100 text-yellow-800 text-xs">Exists</span>
+                            ) : (
+                              <span className="px-2 py-0.5 rounded bg-green-100 text-green-800 text-xs">New</span>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-gray-900">{row.event?.personId}</td>
+                          <td className="px-3 py-2 text-gray-900">
+                            {row.event?.actionType}
+                            {row.event?.eventType && row.event.eventType !== EventType.Action && (
+                              <span className="ml-1 text-xs text-gray-500">({row.event.eventType})</span>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-gray-700 whitespace-nowrap">
+                            {row.event && new Date(row.event.timestampUtc).toLocaleString()}
+                          </td>
+                          <td className="px-3 py-2 text-xs text-gray-500">
+                            {row.event &&
+                              [row.event.context.timeBucket, row.event.context.dayType, row.event.context.location]
+                                .filter(Boolean)
+                                .join(' • ')}
+                          </td>
+                          <td className="px-3 py-2 text-xs text-gray-500">{row.event?.signalStates?.length ?? 0}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {dryRunRows.length > PREVIEW_ROW_LIMIT && !showProblemsOnly && (
+                    <p className="text-xs text-gray-500 mt-2">
+                      Showing the first {PREVIEW_ROW_LIMIT} of {dryRunRows.length} rows.
+                    </p>
+                  )}
+                </div>
+
+                <div className="flex items-center justify-end gap-3">
+                  <p className="text-xs text-gray-500">
+                    Events are sent oldest first, {IMPORT_CHUNK_SIZE} per request, so patterns are learned in order.
+                  </p>
+                  {isImporting ? (
+                    <button
+                      onClick={() => {
+                        cancelRef.current = true;
+                      }}
+                      className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                    >
+                      Stop after this chunk
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => runImport(summary.toImport)}
+                      disabled={summary.toImport.length === 0}
+                      className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      Import {summary.toImport.length} events
+                    </button>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Progress and error report */}
+        {progress && (
+          <div className="bg-white shadow rounded-lg p-6 space-y-4">
+            <h2 className="text-lg font-medium text-gray-900">Import progress</h2>
+            <div>
+              <div className="flex justify-between text-sm text-gray-700 mb-1">
+                <span>
+                  {progress.ingested} ingested, {progress.failures.length} failed of {progress.total}
+                </span>
+                <span>
+                  {progress.isRunning
+                    ? 'Importing...'
+                    : progress.wasCancelled
+                      ? 'Stopped'
+                      : 'Done'}
+                </span>
+              </div>
+              <div className="h-3 bg-gray-200 rounded flex overflow-hidden">
+                <div
+                  className="h-3 bg-green-500"
+                  style={{ width: `${(progress.ingested / progress.total) * 100}%` }}
+                />
+                <div
+                  className="h-3 bg-red-500"
+                  style={{ width: `${(progress.failures.length / progress.total) * 100}%` }}
+                />
+              </div>
+            </div>
+
+            {progress.failures.length > 0 && (
+              <>
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-medium text-gray-900">Failed rows</h3>
+                  {!progress.isRunning && (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={downloadErrorReport}
+                        className="px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                      >
+                        Download report
+                      </button>
+                      <button
+                        onClick={retryFailures}
+                        className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700"
+                      >
+                        Retry failed rows
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <div className="max-h-80 overflow-y-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        {['Row', 'Person', 'Action', 'Error'].map((heading) => (
+                          <th key={heading} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                            {heading}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {progress.failures.map((failure) => (
+                        <tr key={failure.rowNumber}>
+                          <td className="px-3 py-2 text-gray-500">{failure.rowNumber}</td>
+                          <td className="px-3 py-2 text-gray-900">{failure.event.personId}</td>
+                          <td className="px-3 py-2 text-gray-900">{failure.event.actionType}</td>
+                          <td className="px-3 py-2 text-red-700">{failure.error}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -2,22 +2,31 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { useRouter } from 'next/navigation';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { Layout } from '@/components/Layout';
 import { DateTimeDisplay } from '@/components/DateTimeDisplay';
 import { ConfidenceBadge } from '@/components/ConfidenceBadge';
 import { MatchingRemindersModal } from '@/components/MatchingRemindersModal';
-import { apiService } from '@/services/api';
-import { useAuth } from '@/context/AuthContext';
+import { Guard } from '@/components/Guard';
+import { ExportMenu } from '@/components/ExportMenu';
+import { BulkActionBar } from '@/components/BulkActionBar';
+import { useToast } from '@/context/ToastContext';
+import { apiClient } from '@/services/api';
+import { EVENT_EXPORT_COLUMNS, listExportOptions } from '@/services/dataExport';
+import { collectMatchingIds, describeBatchOutcome, runInBatches, summarizeBatch } from '@/services/bulkSelection';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useBulkSelection } from '@/hooks/useBulkSelection';
 import type { ActionEventListDto } from '@/types';
-import { ProbabilityAction } from '@/types';
+import { EventType, ProbabilityAction } from '@/types';
 
 const CONFIDENCE_THRESHOLD = 0.7;
 
 export default function EventsPage() {
   const router = useRouter();
-  const { user, isAdmin } = useAuth();
+  const { can, ownPersonId } = usePermissions();
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
   const [personId, setPersonId] = useState('');
   const [actionType, setActionType] = useState('');
   const [fromDate, setFromDate] = useState('');
@@ -27,32 +36,81 @@ export default function EventsPage() {
   const [selectedEvent, setSelectedEvent] = useState<ActionEventListDto | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
 
-  // For non-admin users, set personId to their username on mount
+  // Links from elsewhere (e.g. a reminder's confidence history) arrive with filters in the URL
+  const searchParams = useSearchParams();
   useEffect(() => {
-    if (!isAdmin && user?.username) {
-      setPersonId(user.username);
+    setPersonId((current) => searchParams.get('personId') ?? current);
+    setActionType(searchParams.get('actionType') ?? '');
+    setFromDate(searchParams.get('from') ?? '');
+    setToDate(searchParams.get('to') ?? '');
+  }, [searchParams]);
+
+  // Users who cannot list everyone start on their own personId
+  useEffect(() => {
+    if (!can('people:view-all') && ownPersonId) {
+      setPersonId(ownPersonId);
     }
-  }, [isAdmin, user]);
+  }, [can, ownPersonId]);
 
-  // Fetch personIds for admin dropdown
+  // Fetch personIds for the person dropdown
   const { data: personIdsData } = useQuery({
     queryKey: ['personIds'],
-    queryFn: () => apiService.getPersonIds(),
-    enabled: isAdmin,
+    queryFn: () => apiClient.getPersonIds(),
+    enabled: can('people:view-others'),
   });
 
+  const filters = {
+    personId: personId || undefined,
+    actionType: actionType || undefined,
+    fromUtc: fromDate ? new Date(fromDate).toISOString() : undefined,
+    toUtc: toDate ? new Date(toDate).toISOString() : undefined,
+  };
+
   const { data, isLoading } = useQuery({
     queryKey: ['events', { personId, actionType, fromDate, toDate, page, pageSize }],
-    queryFn: () => apiService.getEvents({
-      personId: personId || undefined,
-      actionType: actionType || undefined,
-      fromUtc: fromDate ? new Date(fromDate).toISOString() : undefined,
-      toUtc: toDate ? new Date(toDate).toISOString() : undefined,
-      page,
-      pageSize,
-    }),
+    queryFn: () => apiClient.getEvents({ queries: { ...filters, page, pageSize } }),
+  });
+
+  const canDelete = can('events:delete');
+  const selection = useBulkSelection(data?.items.map((e: ActionEventListDto) => e.id) ?? []);
+  const { clear: clearSelection } = selection;
+
+  // A selection only makes sense for the filters it was made under
+  useEffect(() => {
+    clearSelection();
+  }, [personId, actionType, fromDate, toDate, clearSelection]);
+
+  const batchDeleteMutation = useMutation({
+    mutationFn: (ids: string[]) => runInBatches(ids, (chunk) => apiClient.deleteEventBatch({ ids: chunk })),
+    onSuccess: (results) => {
+      const summary = summarizeBatch(results);
+      queryClient.invalidateQueries({ queryKey: ['events'] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      // Failed items stay selected so they can be retried
+      selection.replace(summary.failedIds);
+      showToast({
+        message: `${describeBatchOutcome('Deleted', 'event', summary)}. Deleted events can be restored from the trash.`,
+        variant: summary.failedIds.length > 0 ? 'error' : 'success',
+      });
+    },
+    onError: (error: any) => {
+      showToast({ message: error.response?.data?.message || 'Failed to delete events', variant: 'error' });
+    },
   });
 
+  const handleBatchDelete = () => {
+    const count = selection.selectedIds.size;
+    if (confirm(`Delete ${count} event${count === 1 ? '' : 's'}? They move to the trash, where they can be restored.`)) {
+      batchDeleteMutation.mutate(Array.from(selection.selectedIds));
+    }
+  };
+
+  const exportOptions = listExportOptions(
+    'events',
+    (exportPage, exportPageSize) => apiClient.getEvents({ queries: { ...filters, page: exportPage, pageSize: exportPageSize } }),
+    EVENT_EXPORT_COLUMNS
+  );
+
   const getProbabilityActionLabel = (action?: ProbabilityAction): string => {
     if (!action) return 'N/A';
     return action === ProbabilityAction.Increase ? 'Increase' : 'Decrease';
@@ -68,12 +126,23 @@ export default function EventsPage() {
       <div className="px-4 py-6 sm:px-0">
         <div className="flex justify-between items-center mb-6">
           <h1 className="text-3xl font-bold text-gray-900">Events</h1>
-          <button
-            onClick={() => router.push('/events/create')}
-            className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700"
-          >
-            Create New Event
-          </button>
+          <div className="flex gap-2">
+            <ExportMenu options={exportOptions} />
+            <Guard permission="events:create">
+              <button
+                onClick={() => router.push('/events/import')}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+              >
+                Import Events
+              </button>
+              <button
+                onClick={() => router.push('/events/create')}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700"
+              >
+                Create New Event
+              </button>
+            </Guard>
+          </div>
         </div>
 
         {/* Filters */}
@@ -83,7 +152,7 @@ export default function EventsPage() {
               <label htmlFor="personId" className="block text-sm font-medium text-gray-700">
                 Person ID
               </label>
-              {isAdmin ? (
+              {can('people:view-others') ? (
                 <select
                   id="personId"
                   value={personId}
@@ -93,7 +162,7 @@ export default function EventsPage() {
                   }}
                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
                 >
-                  <option value="">All Persons</option>
+                  {can('people:view-all') && <option value="">All Persons</option>}
                   {personIdsData?.map((p) => (
                     <option key={p.personId} value={p.personId}>
                       {p.displayName} ({p.personId})
@@ -172,6 +241,30 @@ export default function EventsPage() {
             <div className="bg-white shadow rounded-lg overflow-hidden mb-6">
               <div className="px-4 py-5 sm:p-6">
                 <h2 className="text-lg font-medium text-gray-900 mb-4">Event Timeline</h2>
+                {canDelete && (
+                  <BulkActionBar
+                    noun="events"
+                    selectedCount={selection.selectedIds.size}
+                    pageIds={data?.items.map((e: ActionEventListDto) => e.id) ?? []}
+                    totalCount={data?.totalCount ?? 0}
+                    fetchAllIds={() =>
+                      collectMatchingIds((selectPage, selectPageSize) =>
+                        apiClient.getEvents({ queries: { ...filters, page: selectPage, pageSize: selectPageSize } })
+                      )
+                    }
+                    onSelect={selection.select}
+                    onClear={selection.clear}
+                    isBusy={batchDeleteMutation.isPending}
+                  >
+                    <button
+                      onClick={handleBatchDelete}
+                      disabled={batchDeleteMutation.isPending}
+                      className="px-3 py-1 text-red-600 hover:bg-red-100 rounded disabled:opacity-50"
+                    >
+                      {batchDeleteMutation.isPending ? 'Deleting...' : 'Delete'}
+                    </button>
+                  </BulkActionBar>
+                )}
                 {data && data.items.length === 0 ? (
                   <div className="text-center py-8">
                     <p className="text-sm text-gray-500">No events found.</p>
@@ -180,7 +273,7 @@ export default function EventsPage() {
                 ) : (
                   <div className="space-y-4">
                     {data?.items.map((event: ActionEventListDto) => {
-                      const isStateChange = (event as any).eventType === 'StateChange';
+                      const isStateChange = event.eventType === EventType.StateChange;
                       const learningNote = event.probabilityAction 
                         ? (event.probabilityAction === ProbabilityAction.Increase 
                             ? 'This increased the confidence of related reminders'
@@ -194,6 +287,16 @@ export default function EventsPage() {
                           key={event.id}
                           className="flex gap-4 p-4 border-l-4 border-gray-200 hover:border-indigo-400 bg-gray-50 hover:bg-gray-100 rounded-r-lg transition-colors"
                         >
+                          {canDelete && (
+                            <input
+                              type="checkbox"
+                              checked={selection.isSelected(event.id)}
+                              readOnly
+                              onClick={(e) => selection.toggle(event.id, e.shiftKey)}
+                              className="mt-3 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                              aria-label={`Select event: ${event.actionType}`}
+                            />
+                          )}
                           <div className="flex-shrink-0">
                             <div className="w-10 h-10 rounded-full bg-indigo-100 flex items-center justify-center">
                               {isStateChange ? '🎯' : '⚡'}
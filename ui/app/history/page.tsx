@@ -2,15 +2,21 @@
 'use client';
 
 import React, { useState } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery } from '@tanstack/react-query';
 import { Layout } from '@/components/Layout';
 import { DateTimeDisplay } from '@/components/DateTimeDisplay';
-import { apiService } from '@/services/api';
-import { useAuth } from '@/context/AuthContext';
+import { ExportMenu } from '@/components/ExportMenu';
+import { apiClient } from '@/services/api';
+import { EXECUTION_HISTORY_EXPORT_COLUMNS, listExportOptions } from '@/services/dataExport';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useListKeyboardNavigation } from '@/hooks/useListKeyboardNavigation';
+import { useUndoableDelete } from '@/hooks/useUndoableDelete';
+import { TrashItemType } from '@/types';
 import type { ExecutionHistoryDto } from '@/types';
 
 export default function HistoryPage() {
-  const { isAdmin } = useAuth();
+  const { can } = usePermissions();
+  const canDelete = can('history:delete');
   const [personId, setPersonId] = useState('');
   const [actionType, setActionType] = useState('');
   const [fromDate, setFromDate] = useState('');
@@ -18,37 +24,47 @@ export default function HistoryPage() {
   const [page, setPage] = useState(1);
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const pageSize = 20;
-  const queryClient = useQueryClient();
+
+  const filters = {
+    personId: personId || undefined,
+    actionType: actionType || undefined,
+    fromUtc: fromDate || undefined,
+    toUtc: toDate || undefined,
+  };
 
   const { data, isLoading } = useQuery({
     queryKey: ['executionHistory', { personId, actionType, fromDate, toDate, page, pageSize }],
-    queryFn: () => apiService.getExecutionHistory({
-      personId: personId || undefined,
-      actionType: actionType || undefined,
-      fromUtc: fromDate || undefined,
-      toUtc: toDate || undefined,
-      page,
-      pageSize,
-    }),
+    queryFn: () => apiClient.getExecutionHistory({ queries: { ...filters, page, pageSize } }),
   });
 
-  const deleteMutation = useMutation({
-    mutationFn: (id: string) => apiService.deleteExecutionHistory(id),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['executionHistory'] });
-    },
+  const exportOptions = listExportOptions(
+    'execution-history',
+    (exportPage, exportPageSize) =>
+      apiClient.getExecutionHistory({ queries: { ...filters, page: exportPage, pageSize: exportPageSize } }),
+    EXECUTION_HISTORY_EXPORT_COLUMNS
+  );
+
+  const { deleteItem } = useUndoableDelete({
+    type: TrashItemType.ExecutionHistory,
+    deleteFn: (id) => apiClient.deleteExecutionHistory(undefined, { params: { id } }),
+    invalidateKeys: [['executionHistory']],
   });
 
-  const handleDelete = (id: string) => {
-    if (confirm('Are you sure you want to delete this execution history entry?')) {
-      deleteMutation.mutate(id);
-    }
+  const handleDelete = (entry: ExecutionHistoryDto) => {
+    deleteItem(entry.id, entry.actionType || entry.endpoint);
   };
 
   const toggleExpand = (id: string) => {
     setExpandedId(expandedId === id ? null : id);
   };
 
+  // j/k through the entries; Enter shows details and d deletes after confirming
+  const { activeIndex } = useListKeyboardNavigation({
+    items: data?.items ?? [],
+    onOpen: (entry) => toggleExpand(entry.id),
+    onDelete: canDelete ? handleDelete : undefined,
+  });
+
   const formatJson = (jsonString: string) => {
     try {
       const parsed = JSON.parse(jsonString);
@@ -61,7 +77,10 @@ export default function HistoryPage() {
   return (
     <Layout>
       <div className="px-4 py-6 sm:px-0">
-        <h1 className="text-3xl font-bold text-gray-900 mb-6">Execution History</h1>
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">Execution History</h1>
+          <ExportMenu options={exportOptions} />
+        </div>
 
         {/* Filters */}
         <div className="bg-white shadow rounded-lg mb-6 p-4">
@@ -148,15 +167,15 @@ export default function HistoryPage() {
                       <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Person</th>
                       <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Action Type</th>
                       <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Details</th>
-                      {isAdmin && (
+                      {canDelete && (
                         <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
                       )}
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {data.items.map((entry: ExecutionHistoryDto) => (
+                    {data.items.map((entry: ExecutionHistoryDto, index: number) => (
                       <React.Fragment key={entry.id}>
-                        <tr>
+                        <tr data-keyboard-index={index} className={activeIndex === index ? 'bg-indigo-50' : undefined}>
                           <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
                             <DateTimeDisplay date={entry.executedAtUtc} />
                           </td>
@@ -171,10 +190,10 @@ export default function HistoryPage() {
                               {expandedId === entry.id ? 'Hide' : 'Show'} Details
                             </button>
                           </td>
-                          {isAdmin && (
+                          {canDelete && (
                             <td className="px-3 py-2 whitespace-nowrap text-sm">
                               <button
-                                onClick={() => handleDelete(entry.id)}
+                                onClick={() => handleDelete(entry)}
                                 className="text-red-600 hover:text-red-900"
                               >
                                 Delete
@@ -184,7 +203,7 @@ export default function HistoryPage() {
                         </tr>
                         {expandedId === entry.id && (
                           <tr>
-                            <td colSpan={isAdmin ? 6 : 5} className="px-3 py-4 bg-gray-50">
+                            <td colSpan={canDelete ? 6 : 5} className="px-3 py-4 bg-gray-50">
                               <div className="space-y-4">
                                 <div>
                                   <h4 className="text-sm font-semibold text-gray-700 mb-2">Request Payload:</h4>
@@ -16,7 +16,9 @@ export default function LoginPage() {
 
   React.useEffect(() => {
     if (isAuthenticated) {
-      router.push('/dashboard');
+      // Go back to the page that sent us here; only same-origin paths are allowed
+      const returnTo = new URLSearchParams(window.location.search).get('returnTo');
+      router.push(returnTo && returnTo.startsWith('/') && !returnTo.startsWith('//') ? returnTo : '/dashboard');
     }
   }, [isAuthenticated, router]);
 
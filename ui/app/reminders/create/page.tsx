@@ -1,18 +1,19 @@
 // Manual reminder creation page
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useMutation, useQuery } from '@tanstack/react-query';
 import { useRouter } from 'next/navigation';
 import { Layout } from '@/components/Layout';
-import { apiService } from '@/services/api';
-import { useAuth } from '@/context/AuthContext';
+import { OccurrencePatternBuilder } from '@/components/OccurrencePatternBuilder';
+import { apiClient } from '@/services/api';
+import { usePermissions } from '@/hooks/usePermissions';
 import type { CreateManualReminderRequest } from '@/types';
 import { ReminderStyle } from '@/types';
 
 export default function CreateReminderPage() {
   const router = useRouter();
-  const { user, isAdmin } = useAuth();
+  const { can, ownPersonId } = usePermissions();
   const [formData, setFormData] = useState<CreateManualReminderRequest>({
     personId: '',
     suggestedAction: '',
@@ -20,23 +21,29 @@ export default function CreateReminderPage() {
     style: ReminderStyle.Suggest,
     occurrence: '',
   });
+  const [isOccurrenceValid, setIsOccurrenceValid] = useState(true);
 
-  // For non-admin users, set personId to their username on mount
+  const handleOccurrenceChange = useCallback((occurrence: string, isValid: boolean) => {
+    setFormData((prev) => ({ ...prev, occurrence: occurrence || undefined }));
+    setIsOccurrenceValid(isValid);
+  }, []);
+
+  // Users who cannot manage others create for their own personId
   useEffect(() => {
-    if (!isAdmin && user?.username) {
-      setFormData(prev => ({ ...prev, personId: user.username }));
+    if (!can('people:manage-others') && ownPersonId) {
+      setFormData(prev => ({ ...prev, personId: ownPersonId }));
     }
-  }, [isAdmin, user]);
+  }, [can, ownPersonId]);
 
-  // Fetch personIds for admin dropdown
+  // Fetch personIds for the person dropdown
   const { data: personIdsData } = useQuery({
     queryKey: ['personIds'],
-    queryFn: () => apiService.getPersonIds(),
-    enabled: isAdmin,
+    queryFn: () => apiClient.getPersonIds(),
+    enabled: can('people:manage-others'),
   });
 
   const createMutation = useMutation({
-    mutationFn: (request: CreateManualReminderRequest) => apiService.createManualReminder(request),
+    mutationFn: (request: CreateManualReminderRequest) => apiClient.createManualReminder(request),
     onSuccess: () => {
       alert('Reminder created successfully!');
       router.push('/reminders');
@@ -58,7 +65,7 @@ export default function CreateReminderPage() {
   };
 
   return (
-    <Layout>
+    <Layout permission="reminders:create">
       <div className="px-4 py-6 sm:px-0">
         <div className="mb-6">
           <button
@@ -76,7 +83,7 @@ export default function CreateReminderPage() {
               <label htmlFor="personId" className="block text-sm font-medium text-gray-700">
                 Person ID *
               </label>
-              {isAdmin ? (
+              {can('people:manage-others') ? (
                 <select
                   id="personId"
                   value={formData.personId}
@@ -132,7 +139,9 @@ export default function CreateReminderPage() {
                 className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
               />
               <p className="mt-1 text-sm text-gray-500">
-                The reminder will be checked at this time
+                {formData.occurrence
+                  ? 'Ignored for repeating reminders - the first run is calculated from the occurrence pattern'
+                  : 'The reminder will be checked at this time'}
               </p>
             </div>
 
@@ -142,7 +151,7 @@ export default function CreateReminderPage() {
               </label>
               <select
                 id="style"
-                value={formData.style}
+                value={formData.style ?? ''}
                 onChange={(e) => setFormData({ ...formData, style: e.target.value as ReminderStyle })}
                 required
                 className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
@@ -159,26 +168,14 @@ export default function CreateReminderPage() {
             </div>
 
             <div>
-              <label htmlFor="occurrence" className="block text-sm font-medium text-gray-700">
-                Occurrence (optional)
-              </label>
-              <input
-                type="text"
-                id="occurrence"
-                value={formData.occurrence ?? ''}
-                onChange={(e) => setFormData({ ...formData, occurrence: e.target.value || undefined })}
-                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                placeholder="e.g., daily, weekly, every 3 days, weekdays"
-              />
-              <p className="mt-1 text-sm text-gray-500">
-                Define how often the reminder should occur (e.g., &quot;daily&quot;, &quot;weekly&quot;, &quot;every 3 days&quot;, &quot;weekdays&quot;)
-              </p>
+              <span className="block text-sm font-medium text-gray-700 mb-2">Occurrence (optional)</span>
+              <OccurrencePatternBuilder onChange={handleOccurrenceChange} />
             </div>
 
             <div className="flex gap-2">
               <button
                 type="submit"
-                disabled={createMutation.isPending}
+                disabled={createMutation.isPending || !isOccurrenceValid}
                 className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
               >
                 {createMutation.isPending ? 'Creating...' : 'Create Reminder'}
@@ -2,8 +2,8 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useRouter } from 'next/navigation';
+import { useQuery, useMutation, useQueryClient, useIsMutating } from '@tanstack/react-query';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { Layout } from '@/components/Layout';
 import { StatusBadge } from '@/components/StatusBadge';
 import { DateTimeDisplay } from '@/components/DateTimeDisplay';
@@ -11,14 +11,45 @@ import { ConfidenceBadge } from '@/components/ConfidenceBadge';
 import { EditOccurrenceModal } from '@/components/EditOccurrenceModal';
 import { ReminderDetailModal } from '@/components/ReminderDetailModal';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
-import { apiService } from '@/services/api';
-import { useAuth } from '@/context/AuthContext';
-import type { ReminderCandidateDto, RoutineDto, RoutineDetailDto, RoutineReminderDto } from '@/types';
-import { ReminderCandidateStatus, ReminderStyle } from '@/types';
+import { ReminderFeedbackControls } from '@/components/ReminderFeedbackControls';
+import { Guard } from '@/components/Guard';
+import { ExportMenu } from '@/components/ExportMenu';
+import { BulkActionBar } from '@/components/BulkActionBar';
+import { REMINDER_FEEDBACK_MUTATION_KEY } from '@/hooks/useReminderFeedback';
+import { useLiveUpdates } from '@/hooks/useLiveUpdates';
+import { apiClient } from '@/services/api';
+import { listExportOptions, REMINDER_EXPORT_COLUMNS } from '@/services/dataExport';
+import { calendarExportOption } from '@/services/icalendar';
+import { noPatternEvidence } from '@/services/patternInference';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useListKeyboardNavigation } from '@/hooks/useListKeyboardNavigation';
+import { useUndoableDelete, UNDO_DELETE_WINDOW_MS } from '@/hooks/useUndoableDelete';
+import { useBulkSelection } from '@/hooks/useBulkSelection';
+import { collectMatchingIds, describeBatchOutcome, runInBatches, summarizeBatch } from '@/services/bulkSelection';
+import { useToast } from '@/context/ToastContext';
+import type {
+  ExecutionAction,
+  FeedbackType,
+  ReminderCandidateBatchRequest,
+  ReminderCandidateDto,
+  RoutineDto,
+  RoutineDetailDto,
+  RoutineReminderDto,
+} from '@/types';
+import { ReminderCandidateBatchOperation, ReminderCandidateStatus, ReminderStyle, TrashItemType } from '@/types';
 import { differenceInMinutes, differenceInDays, differenceInHours, format, isPast, isToday, isTomorrow } from 'date-fns';
 
 const CONFIDENCE_THRESHOLD = 0.7; // High probability threshold
 
+// Verb for the outcome toast of each batch operation
+const BATCH_OPERATION_VERBS: Record<ReminderCandidateBatchOperation, string> = {
+  [ReminderCandidateBatchOperation.Delete]: 'Deleted',
+  [ReminderCandidateBatchOperation.SetOccurrence]: 'Updated the pattern of',
+  [ReminderCandidateBatchOperation.SetStyle]: 'Changed the style of',
+  [ReminderCandidateBatchOperation.ForceCheck]: 'Checked',
+  [ReminderCandidateBatchOperation.Feedback]: 'Gave feedback on',
+};
+
 // Helper function to format time until execution (for reminder items)
 function formatTimeUntilExecutionShort(date: string | Date): string {
   const dateObj = typeof date === 'string' ? new Date(date) : date;
@@ -69,61 +100,99 @@ function routineReminderToReminderCandidate(
     signalProfile: reminder.signalProfile,
     signalProfileUpdatedAtUtc: reminder.signalProfileUpdatedAtUtc,
     signalProfileSamplesCount: reminder.signalProfileSamplesCount,
+    executionAction: reminder.executionAction,
+    isSafeToAutoExecute: reminder.isSafeToAutoExecute,
+    ...noPatternEvidence(),
   };
 }
 
 export default function RemindersPage() {
   const router = useRouter();
-  const { user, isAdmin } = useAuth();
+  const { can, ownPersonId } = usePermissions();
   const [personId, setPersonId] = useState('');
   const [actionType, setActionType] = useState('');
   const [status, setStatus] = useState('');
   const [page, setPage] = useState(1);
   const pageSize = 20;
   const queryClient = useQueryClient();
+  const { showToast } = useToast();
   const [editingReminder, setEditingReminder] = useState<ReminderCandidateDto | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [detailReminder, setDetailReminder] = useState<ReminderCandidateDto | null>(null);
+  const [detailRoutineReminder, setDetailRoutineReminder] = useState<RoutineReminderDto | null>(null);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
   const [executingReminders, setExecutingReminders] = useState<Set<string>>(new Set());
   const [activeTab, setActiveTab] = useState<'high' | 'low' | 'routines'>('high');
   const [expandedRoutines, setExpandedRoutines] = useState<Set<string>>(new Set());
+  const [isBatchOccurrenceOpen, setIsBatchOccurrenceOpen] = useState(false);
+
+  // Links from elsewhere (e.g. the command palette) arrive with filters in the URL
+  const searchParams = useSearchParams();
+  useEffect(() => {
+    setPersonId((current) => searchParams.get('personId') ?? current);
+    setActionType(searchParams.get('actionType') ?? '');
+    setPage(1);
+  }, [searchParams]);
 
-  // For non-admin users, set personId to their username on mount
+  // Users who cannot list everyone start on their own personId
   useEffect(() => {
-    if (!isAdmin && user?.username) {
-      setPersonId(user.username);
+    if (!can('people:view-all') && ownPersonId) {
+      setPersonId(ownPersonId);
     }
-  }, [isAdmin, user]);
+  }, [can, ownPersonId]);
 
-  // Fetch personIds for admin dropdown
+  // Fetch personIds for the person dropdown
   const { data: personIdsData } = useQuery({
     queryKey: ['personIds'],
-    queryFn: () => apiService.getPersonIds(),
-    enabled: isAdmin,
+    queryFn: () => apiClient.getPersonIds(),
+    enabled: can('people:view-others'),
   });
 
+  // Pause polling while feedback is waiting out its undo window so optimistic values are not overwritten
+  const pendingFeedbackCount = useIsMutating({ mutationKey: REMINDER_FEEDBACK_MUTATION_KEY });
+
+  // Server push keeps the list current; polling is only a fallback while the stream is down
+  const { isLive } = useLiveUpdates(personId || undefined);
+
+  const filters = {
+    personId: personId || undefined,
+    actionType: actionType || undefined,
+    status: status || undefined,
+  };
+
   const { data, isLoading } = useQuery({
     queryKey: ['reminderCandidates', { personId, actionType, status, page, pageSize }],
-    queryFn: () => apiService.getReminderCandidates({ 
-      personId: personId || undefined,
-      actionType: actionType || undefined,
-      status: status || undefined, 
-      page, 
-      pageSize 
-    }),
-    refetchInterval: 3000, // Refetch every 3 seconds for real-time updates
+    queryFn: () => apiClient.getReminderCandidates({ queries: { ...filters, page, pageSize } }),
+    refetchInterval: isLive || pendingFeedbackCount > 0 ? false : 3000, // Poll every 3 seconds only when live updates are unavailable
     enabled: activeTab !== 'routines', // Only fetch when not on routines tab
   });
 
+  const exportOptions = [
+    ...listExportOptions(
+      'reminders',
+      (exportPage, exportPageSize) =>
+        apiClient.getReminderCandidates({ queries: { ...filters, page: exportPage, pageSize: exportPageSize } }),
+      REMINDER_EXPORT_COLUMNS
+    ),
+    // Calendars only make sense for what is still going to happen
+    calendarExportOption((exportPage, exportPageSize) =>
+      apiClient.getReminderCandidates({ queries: {
+        ...filters,
+        status: ReminderCandidateStatus.Scheduled,
+        page: exportPage,
+        pageSize: exportPageSize,
+      } })
+    ),
+  ];
+
   // Fetch routines for the Routines tab (always fetch to get count for tab label)
   const { data: routinesData, isLoading: routinesLoading } = useQuery({
     queryKey: ['routines', { personId: personId || undefined, page: 1, pageSize: 100 }],
-    queryFn: () => apiService.getRoutines({ 
+    queryFn: () => apiClient.getRoutines({ queries: { 
       personId: personId || undefined,
       page: 1, 
       pageSize: 100 
-    }),
+    } }),
     staleTime: 5000, // Consider data fresh for 5 seconds
   });
 
@@ -133,7 +202,7 @@ export default function RemindersPage() {
     queryFn: async () => {
       if (!routinesData?.items || routinesData.items.length === 0) return [];
       const details = await Promise.all(
-        routinesData.items.map((routine: RoutineDto) => apiService.getRoutine(routine.id))
+        routinesData.items.map((routine: RoutineDto) => apiClient.getRoutine({ params: { id: routine.id } }))
       );
       return details;
     },
@@ -147,7 +216,7 @@ export default function RemindersPage() {
     queryFn: async () => {
       if (!routinesData?.items || routinesData.items.length === 0) return [];
       const details = await Promise.all(
-        routinesData.items.map((routine: RoutineDto) => apiService.getRoutine(routine.id))
+        routinesData.items.map((routine: RoutineDto) => apiClient.getRoutine({ params: { id: routine.id } }))
       );
       return details;
     },
@@ -159,12 +228,13 @@ export default function RemindersPage() {
   const routinesReminderCount = (activeTab === 'routines' ? routineDetails : routineDetailsForCount)?.reduce((sum, r) => sum + (r.reminders?.length || 0), 0) || 0;
 
   const forceCheckMutation = useMutation({
-    mutationFn: (candidateId: string) => apiService.processReminderCandidate(candidateId),
+    mutationFn: (candidateId: string) => apiClient.forceCheck(undefined, { params: { candidateId } }),
     onMutate: (candidateId: string) => {
       setExecutingReminders((prev) => new Set(prev).add(candidateId));
     },
-    onSuccess: () => {
+    onSuccess: (_, candidateId: string) => {
       queryClient.invalidateQueries({ queryKey: ['reminderCandidates'] });
+      queryClient.invalidateQueries({ queryKey: ['decisionTraces', candidateId] });
     },
     onSettled: (_, __, candidateId: string) => {
       setExecutingReminders((prev) => {
@@ -176,12 +246,14 @@ export default function RemindersPage() {
   });
 
   const executeNowMutation = useMutation({
-    mutationFn: (candidateId: string) => apiService.executeReminderNow(candidateId),
+    mutationFn: (candidateId: string) =>
+      apiClient.forceCheck(undefined, { params: { candidateId }, queries: { bypassDateCheck: true } }),
     onMutate: (candidateId: string) => {
       setExecutingReminders((prev) => new Set(prev).add(candidateId));
     },
-    onSuccess: () => {
+    onSuccess: (_, candidateId: string) => {
       queryClient.invalidateQueries({ queryKey: ['reminderCandidates'] });
+      queryClient.invalidateQueries({ queryKey: ['decisionTraces', candidateId] });
     },
     onSettled: (_, __, candidateId: string) => {
       setExecutingReminders((prev) => {
@@ -192,16 +264,27 @@ export default function RemindersPage() {
     },
   });
 
-  const deleteMutation = useMutation({
-    mutationFn: (id: string) => apiService.deleteReminderCandidate(id),
-    onSuccess: () => {
+  const { deleteItem } = useUndoableDelete({
+    type: TrashItemType.ReminderCandidate,
+    deleteFn: (id) => apiClient.deleteReminderCandidate(undefined, { params: { id } }),
+    invalidateKeys: [['reminderCandidates']],
+  });
+
+  const executionActionMutation = useMutation({
+    mutationFn: ({ id, executionAction }: { id: string; executionAction: ExecutionAction }) =>
+      apiClient.setExecutionAction({ executionAction }, { params: { id } }),
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['reminderCandidates'] });
+      showToast({ message: result.message || 'Execution action updated', variant: 'success' });
+    },
+    onError: () => {
+      showToast({ message: 'Failed to update execution action', variant: 'error' });
     },
   });
 
   const updateOccurrenceMutation = useMutation({
     mutationFn: ({ id, occurrence }: { id: string; occurrence: string | null }) =>
-      apiService.updateReminderOccurrence(id, occurrence),
+      apiClient.updateReminderOccurrence({ occurrence: occurrence || null }, { params: { id } }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['reminderCandidates'] });
     },
@@ -220,9 +303,7 @@ export default function RemindersPage() {
   };
 
   const handleDelete = (id: string, action: string) => {
-    if (confirm(`Are you sure you want to delete reminder for "${action}"?`)) {
-      deleteMutation.mutate(id);
-    }
+    deleteItem(id, action);
   };
 
   const handleEdit = (candidate: ReminderCandidateDto) => {
@@ -233,7 +314,7 @@ export default function RemindersPage() {
   const handleCardClick = (candidate: ReminderCandidateDto, e: React.MouseEvent) => {
     // Don't open modal if clicking on buttons
     const target = e.target as HTMLElement;
-    if (target.closest('button')) {
+    if (target.closest('button, input')) {
       return;
     }
     setDetailReminder(candidate);
@@ -295,6 +376,121 @@ export default function RemindersPage() {
     (c: ReminderCandidateDto) => (c.confidence || 0) < CONFIDENCE_THRESHOLD
   ) || [];
 
+  const visibleCandidates =
+    activeTab === 'high' ? highProbabilityCandidates : activeTab === 'low' ? lowProbabilityCandidates : [];
+  const selection = useBulkSelection(visibleCandidates.map((c: ReminderCandidateDto) => c.id));
+  const { clear: clearSelection } = selection;
+
+  // A selection only makes sense for the filters it was made under
+  useEffect(() => {
+    clearSelection();
+  }, [personId, actionType, status, clearSelection]);
+
+  const restoreDeletedBatch = async (ids: string[]) => {
+    let restored = 0;
+    for (const id of ids) {
+      try {
+        await apiClient.restoreItem(undefined, { params: { type: TrashItemType.ReminderCandidate, id } });
+        restored++;
+      } catch {
+        // Counted below; the rest can still be restored from the trash
+      }
+    }
+    queryClient.invalidateQueries({ queryKey: ['reminderCandidates'] });
+    queryClient.invalidateQueries({ queryKey: ['trash'] });
+    showToast({
+      message:
+        restored === ids.length
+          ? `Restored ${restored} reminder${restored === 1 ? '' : 's'}`
+          : `Restored ${restored} of ${ids.length} reminders; the rest are still in the trash`,
+      variant: restored === ids.length ? 'success' : 'error',
+    });
+  };
+
+  const batchMutation = useMutation({
+    mutationFn: (request: Omit<ReminderCandidateBatchRequest, 'ids'>) =>
+      runInBatches(Array.from(selection.selectedIds), (ids) => apiClient.processBatch({ ...request, ids })),
+    onSuccess: (results, request) => {
+      const summary = summarizeBatch(results);
+      const isDelete = request.operation === ReminderCandidateBatchOperation.Delete;
+      queryClient.invalidateQueries({ queryKey: ['reminderCandidates'] });
+      if (isDelete) queryClient.invalidateQueries({ queryKey: ['trash'] });
+      // Failed items stay selected so they can be retried
+      selection.replace(summary.failedIds);
+      showToast({
+        message: describeBatchOutcome(BATCH_OPERATION_VERBS[request.operation], 'reminder', summary),
+        variant: summary.failedIds.length > 0 ? 'error' : 'success',
+        ...(isDelete && summary.succeededIds.length > 0
+          ? {
+              durationMs: UNDO_DELETE_WINDOW_MS,
+              action: { label: 'Undo', onClick: () => restoreDeletedBatch(summary.succeededIds) },
+            }
+          : {}),
+      });
+    },
+    onError: (error: any) => {
+      showToast({ message: error.response?.data?.message || 'Batch operation failed', variant: 'error' });
+    },
+  });
+
+  const selectedCount = selection.selectedIds.size;
+  const selectedLabel = `${selectedCount} reminder${selectedCount === 1 ? '' : 's'}`;
+
+  const handleBatchDelete = () => {
+    if (confirm(`Delete ${selectedLabel}? They move to the trash, where an admin can restore them.`)) {
+      batchMutation.mutate({ operation: ReminderCandidateBatchOperation.Delete });
+    }
+  };
+
+  const handleBatchForceCheck = () => {
+    if (confirm(`Force check ${selectedLabel} now?`)) {
+      batchMutation.mutate({ operation: ReminderCandidateBatchOperation.ForceCheck });
+    }
+  };
+
+  const handleBatchStyle = (style: ReminderStyle) => {
+    if (confirm(`Change the style of ${selectedLabel} to ${style}?`)) {
+      batchMutation.mutate({ operation: ReminderCandidateBatchOperation.SetStyle, style });
+    }
+  };
+
+  const handleBatchFeedback = (feedbackType: FeedbackType) => {
+    if (confirm(`Answer "${feedbackType}" for ${selectedLabel}?`)) {
+      batchMutation.mutate({ operation: ReminderCandidateBatchOperation.Feedback, feedbackType });
+    }
+  };
+
+  const handleBatchOccurrence = async (occurrence: string | null) => {
+    await batchMutation.mutateAsync({ operation: ReminderCandidateBatchOperation.SetOccurrence, occurrence });
+  };
+
+  // Keep the detail modal in sync with the (optimistically updated) list; routine reminders are not candidates
+  const detailCandidate = detailReminder
+    ? data?.items.find((c: ReminderCandidateDto) => c.id === detailReminder.id)
+    : undefined;
+  const liveDetailReminder = detailCandidate ?? detailReminder;
+  const isDetailCandidate = !!detailCandidate;
+
+  // j/k through the open tab's cards; Enter opens, e executes and d deletes, each behind its usual confirm
+  const { activeIndex, setActiveIndex } = useListKeyboardNavigation({
+    items: visibleCandidates,
+    enabled: !isDetailModalOpen && !isEditModalOpen && !isBatchOccurrenceOpen,
+    onOpen: (candidate) => {
+      setDetailReminder(candidate);
+      setIsDetailModalOpen(true);
+    },
+    onExecute: (candidate) => {
+      if (can('reminders:execute', candidate.personId)) handleExecuteNow(candidate.id);
+    },
+    onDelete: (candidate) => {
+      if (can('reminders:delete', candidate.personId)) handleDelete(candidate.id, candidate.suggestedAction);
+    },
+  });
+
+  useEffect(() => {
+    setActiveIndex(null);
+  }, [activeTab, setActiveIndex]);
+
   // Other status reminders (only Skipped and Expired, not Executed)
   const isScheduled = (status: ReminderCandidateStatus | string) => 
     status === 'Scheduled' || status === ReminderCandidateStatus.Scheduled;
@@ -332,8 +528,9 @@ export default function RemindersPage() {
     });
   };
 
-  const renderReminderCard = (candidate: ReminderCandidateDto) => {
+  const renderReminderCard = (candidate: ReminderCandidateDto, index: number) => {
     const isExecuting = executingReminders.has(candidate.id);
+    const isKeyboardActive = activeIndex === index;
     const isHighProbability = (candidate.confidence || 0) >= CONFIDENCE_THRESHOLD;
     const cardBgColor = isHighProbability 
       ? 'bg-green-50 border-green-200 hover:border-green-300' 
@@ -349,7 +546,8 @@ export default function RemindersPage() {
     return (
       <div
         key={candidate.id}
-        className={`border rounded-lg p-4 transition-all ${cardBgColor} ${isExecuting ? 'ring-2 ring-indigo-500' : ''} cursor-pointer`}
+        className={`border rounded-lg p-4 transition-all ${cardBgColor} ${isExecuting || isKeyboardActive ? 'ring-2 ring-indigo-500' : ''} cursor-pointer`}
+        data-keyboard-index={index}
         onClick={(e) => handleCardClick(candidate, e)}
         role="button"
         tabIndex={0}
@@ -362,6 +560,18 @@ export default function RemindersPage() {
         aria-label={`View details for reminder: ${candidate.suggestedAction}`}
       >
         <div className="flex items-start justify-between mb-3">
+          <input
+            type="checkbox"
+            checked={selection.isSelected(candidate.id)}
+            readOnly
+            onClick={(e) => {
+              e.stopPropagation();
+              selection.toggle(candidate.id, e.shiftKey);
+            }}
+            onKeyDown={(e) => e.stopPropagation()}
+            className="mt-1 mr-3 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            aria-label={`Select reminder: ${candidate.suggestedAction}`}
+          />
           <div className="flex-1">
             <h3 className="font-semibold text-gray-900 mb-1">{candidate.suggestedAction}</h3>
             <p className="text-xs text-gray-500">{candidate.personId}</p>
@@ -437,6 +647,12 @@ export default function RemindersPage() {
           </div>
         )}
 
+        {can('reminders:feedback', candidate.personId) && (
+          <div className="mb-3">
+            <ReminderFeedbackControls candidate={candidate} />
+          </div>
+        )}
+
         <div className="flex items-center justify-between pt-3 border-t border-gray-200">
           {/* Time until execution - bottom left (only for high probability reminders) */}
           {isHighProbability && (
@@ -447,40 +663,46 @@ export default function RemindersPage() {
           {!isHighProbability && <div></div>}
           {/* Action buttons - bottom right */}
           <div className="flex items-center gap-2">
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                handleForceCheck(candidate.id);
-              }}
-              disabled={isExecuting}
-              className="text-xs px-3 py-1.5 text-indigo-600 hover:bg-indigo-50 rounded disabled:opacity-50"
-              title="Check this reminder now (force evaluation)"
-            >
-              Check
-            </button>
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                handleExecuteNow(candidate.id);
-              }}
-              disabled={isExecuting}
-              className="text-xs px-3 py-1.5 text-green-600 hover:bg-green-50 rounded disabled:opacity-50"
-              title="Execute this reminder immediately (bypass time check)"
-            >
-              Execute
-            </button>
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                handleEdit(candidate);
-              }}
-              disabled={isExecuting}
-              className="text-xs px-3 py-1.5 text-blue-600 hover:bg-blue-50 rounded disabled:opacity-50"
-              title="Edit the occurrence pattern for this reminder"
-            >
-              Edit
-            </button>
-            {isAdmin && (
+            {can('reminders:execute', candidate.personId) && (
+              <>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleForceCheck(candidate.id);
+                  }}
+                  disabled={isExecuting}
+                  className="text-xs px-3 py-1.5 text-indigo-600 hover:bg-indigo-50 rounded disabled:opacity-50"
+                  title="Check this reminder now (force evaluation)"
+                >
+                  Check
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleExecuteNow(candidate.id);
+                  }}
+                  disabled={isExecuting}
+                  className="text-xs px-3 py-1.5 text-green-600 hover:bg-green-50 rounded disabled:opacity-50"
+                  title="Execute this reminder immediately (bypass time check)"
+                >
+                  Execute
+                </button>
+              </>
+            )}
+            {can('reminders:edit', candidate.personId) && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleEdit(candidate);
+                }}
+                disabled={isExecuting}
+                className="text-xs px-3 py-1.5 text-blue-600 hover:bg-blue-50 rounded disabled:opacity-50"
+                title="Edit the occurrence pattern for this reminder"
+              >
+                Edit
+              </button>
+            )}
+            {can('reminders:delete', candidate.personId) && (
               <button
                 onClick={(e) => {
                   e.stopPropagation();
@@ -504,18 +726,34 @@ export default function RemindersPage() {
       <div className="px-4 py-6 sm:px-0">
         <div className="flex justify-between items-center mb-6">
           <div>
-            <h1 className="text-3xl font-bold text-gray-900">Reminders</h1>
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-bold text-gray-900">Reminders</h1>
+              <span
+                className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${
+                  isLive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                }`}
+                title={isLive ? 'Receiving live updates from the server' : 'Live updates unavailable, refreshing every few seconds'}
+              >
+                <span className={`h-2 w-2 rounded-full ${isLive ? 'bg-green-500' : 'bg-gray-400'}`} />
+                {isLive ? 'Live' : 'Polling'}
+              </span>
+            </div>
             <p className="text-sm text-gray-500 mt-1">
               Manage reminders organized by confidence and routines
             </p>
           </div>
-          <button
-            onClick={() => router.push('/reminders/create')}
-            className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 inline-flex items-center gap-2"
-            title="Create a new manual reminder"
-          >
-            ➕ Create Reminder
-          </button>
+          <div className="flex gap-2">
+            <ExportMenu options={exportOptions} />
+            <Guard permission="reminders:create">
+              <button
+                onClick={() => router.push('/reminders/create')}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 inline-flex items-center gap-2"
+                title="Create a new manual reminder"
+              >
+                ➕ Create Reminder
+              </button>
+            </Guard>
+          </div>
         </div>
 
         {/* Filters */}
@@ -526,7 +764,7 @@ export default function RemindersPage() {
                 Person ID
                 <span className="ml-1 text-gray-400" title="Filter reminders by person">ℹ️</span>
               </label>
-              {isAdmin ? (
+              {can('people:view-others') ? (
                 <select
                   id="personId"
                   value={personId}
@@ -536,7 +774,7 @@ export default function RemindersPage() {
                   }}
                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
                 >
-                  <option value="">All Persons</option>
+                  {can('people:view-all') && <option value="">All Persons</option>}
                   {personIdsData?.map((p) => (
                     <option key={p.personId} value={p.personId}>
                       {p.displayName} ({p.personId})
@@ -646,6 +884,85 @@ export default function RemindersPage() {
               </div>
 
               <div className="p-6">
+                {activeTab !== 'routines' && (
+                  <BulkActionBar
+                    noun="reminders"
+                    selectedCount={selectedCount}
+                    pageIds={visibleCandidates.map((c: ReminderCandidateDto) => c.id)}
+                    totalCount={data?.totalCount ?? 0}
+                    fetchAllIds={() =>
+                      collectMatchingIds((selectPage, selectPageSize) =>
+                        apiClient.getReminderCandidates({ queries: { ...filters, page: selectPage, pageSize: selectPageSize } })
+                      )
+                    }
+                    onSelect={selection.select}
+                    onClear={selection.clear}
+                    isBusy={batchMutation.isPending}
+                  >
+                    {batchMutation.isPending && <LoadingSpinner size="sm" />}
+                    {can('reminders:feedback') && (
+                      <select
+                        value=""
+                        onChange={(e) => handleBatchFeedback(e.target.value as FeedbackType)}
+                        disabled={batchMutation.isPending}
+                        aria-label="Give feedback on selected reminders"
+                        className="rounded-md border-gray-300 py-1 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500 disabled:opacity-50"
+                      >
+                        <option value="" disabled>
+                          Feedback…
+                        </option>
+                        <option value="yes">Yes</option>
+                        <option value="no">No</option>
+                        <option value="later">Later</option>
+                      </select>
+                    )}
+                    {can('reminders:edit') && (
+                      <>
+                        <select
+                          value=""
+                          onChange={(e) => handleBatchStyle(e.target.value as ReminderStyle)}
+                          disabled={batchMutation.isPending}
+                          aria-label="Change style of selected reminders"
+                          className="rounded-md border-gray-300 py-1 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500 disabled:opacity-50"
+                        >
+                          <option value="" disabled>
+                            Style…
+                          </option>
+                          {Object.values(ReminderStyle).map((style) => (
+                            <option key={style} value={style}>
+                              {style}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => setIsBatchOccurrenceOpen(true)}
+                          disabled={batchMutation.isPending}
+                          className="px-3 py-1 text-blue-600 hover:bg-blue-100 rounded disabled:opacity-50"
+                        >
+                          Edit pattern
+                        </button>
+                      </>
+                    )}
+                    {can('reminders:execute') && (
+                      <button
+                        onClick={handleBatchForceCheck}
+                        disabled={batchMutation.isPending}
+                        className="px-3 py-1 text-indigo-600 hover:bg-indigo-100 rounded disabled:opacity-50"
+                      >
+                        Check
+                      </button>
+                    )}
+                    {can('reminders:delete') && (
+                      <button
+                        onClick={handleBatchDelete}
+                        disabled={batchMutation.isPending}
+                        className="px-3 py-1 text-red-600 hover:bg-red-100 rounded disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </BulkActionBar>
+                )}
                 {activeTab === 'high' ? (
                   <>
                     <div className="mb-4">
@@ -757,6 +1074,7 @@ export default function RemindersPage() {
                                             onClick={(e) => {
                                               e.stopPropagation();
                                               setDetailReminder(convertedReminder);
+                                              setDetailRoutineReminder(reminder);
                                               setIsDetailModalOpen(true);
                                             }}
                                             role="button"
@@ -765,6 +1083,7 @@ export default function RemindersPage() {
                                               if (e.key === 'Enter' || e.key === ' ') {
                                                 e.preventDefault();
                                                 setDetailReminder(convertedReminder);
+                                                setDetailRoutineReminder(reminder);
                                                 setIsDetailModalOpen(true);
                                               }
                                             }}
@@ -838,7 +1157,7 @@ export default function RemindersPage() {
                                 <DateTimeDisplay date={candidate.checkAtUtc} />
                               </td>
                               <td className="px-3 py-2 whitespace-nowrap text-sm font-medium">
-                                {isAdmin && (
+                                {can('reminders:delete', candidate.personId) && (
                                   <button
                                     onClick={() => handleDelete(candidate.id, candidate.suggestedAction)}
                                     className="text-red-600 hover:text-red-900 text-lg"
@@ -913,6 +1232,7 @@ export default function RemindersPage() {
           <EditOccurrenceModal
             isOpen={isEditModalOpen}
             currentOccurrence={editingReminder.occurrence}
+            lastExecutionTime={editingReminder.checkAtUtc}
             onClose={() => {
               setIsEditModalOpen(false);
               setEditingReminder(null);
@@ -921,15 +1241,36 @@ export default function RemindersPage() {
           />
         )}
 
+        {isBatchOccurrenceOpen && (
+          <EditOccurrenceModal
+            isOpen={isBatchOccurrenceOpen}
+            title={`Set Occurrence Pattern for ${selectedLabel}`}
+            currentOccurrence={null}
+            onClose={() => setIsBatchOccurrenceOpen(false)}
+            onSave={handleBatchOccurrence}
+          />
+        )}
+
         {/* Reminder Detail Modal */}
         <ReminderDetailModal
-          reminder={detailReminder}
+          reminder={liveDetailReminder}
           isOpen={isDetailModalOpen}
           onClose={() => {
             setIsDetailModalOpen(false);
             setDetailReminder(null);
+            setDetailRoutineReminder(null);
           }}
           confidenceThreshold={CONFIDENCE_THRESHOLD}
+          enableFeedback={isDetailCandidate && can('reminders:feedback', liveDetailReminder?.personId)}
+          onExecutionActionChange={
+            isDetailCandidate && liveDetailReminder && can('reminders:edit', liveDetailReminder.personId)
+              ? (executionAction) =>
+                  executionActionMutation.mutate({ id: liveDetailReminder.id, executionAction })
+              : undefined
+          }
+          isExecutionActionPending={executionActionMutation.isPending}
+          autoExecuteWarning="The action runs once right away. After that, the assistant will run it automatically, without asking, whenever confidence is high enough."
+          routineReminder={isDetailCandidate ? undefined : detailRoutineReminder ?? undefined}
         />
       </div>
     </Layout>
@@ -3,7 +3,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { Layout } from '@/components/Layout';
 import { ConfidenceIndicator } from '@/components/ConfidenceIndicator';
 import { LearningBadge } from '@/components/LearningBadge';
@@ -11,15 +11,20 @@ import { DateTimeDisplay } from '@/components/DateTimeDisplay';
 import { LearningWindowCountdown } from '@/components/LearningWindowCountdown';
 import { TimeContextBucketBadge } from '@/components/TimeContextBucketBadge';
 import { DelayStatsDisplay } from '@/components/DelayStatsDisplay';
-import { apiService } from '@/services/api';
-import { useAuth } from '@/context/AuthContext';
+import { ConfidenceHistoryChart } from '@/components/ConfidenceHistoryChart';
+import { apiClient } from '@/services/api';
+import { noPatternEvidence } from '@/services/patternInference';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useListKeyboardNavigation } from '@/hooks/useListKeyboardNavigation';
+import { useToast } from '@/context/ToastContext';
+import { useLiveUpdates } from '@/hooks/useLiveUpdates';
 import type { RoutineDto, RoutineDetailDto, RoutineReminderDto, ReminderCandidateDto } from '@/types';
-import { ProbabilityAction, ReminderStyle, ReminderCandidateStatus } from '@/types';
+import { ProbabilityAction, ReminderStyle, ReminderCandidateStatus, ExecutionAction } from '@/types';
 import { ReminderDetailModal } from '@/components/ReminderDetailModal';
 
 export default function RoutinesPage() {
   const router = useRouter();
-  const { user, isAdmin } = useAuth();
+  const { can, ownPersonId } = usePermissions();
   const [selectedRoutineId, setSelectedRoutineId] = useState<string | null>(null);
   const [personId, setPersonId] = useState('');
   const [page, setPage] = useState(1);
@@ -29,49 +34,79 @@ export default function RoutinesPage() {
   const [isEditingWindow, setIsEditingWindow] = useState(false);
   const [editingWindowMinutes, setEditingWindowMinutes] = useState<number>(60);
 
-  // For non-admin users, set personId to their username on mount
+  // The command palette links straight to a routine
+  const searchParams = useSearchParams();
   useEffect(() => {
-    if (!isAdmin && user?.username) {
-      setPersonId(user.username);
+    const routineId = searchParams.get('routineId');
+    if (routineId) setSelectedRoutineId(routineId);
+  }, [searchParams]);
+
+  // Users who cannot list everyone start on their own personId
+  useEffect(() => {
+    if (!can('people:view-all') && ownPersonId) {
+      setPersonId(ownPersonId);
     }
-  }, [isAdmin, user]);
+  }, [can, ownPersonId]);
 
-  // Fetch personIds for admin dropdown
+  // Fetch personIds for the person dropdown
   const { data: personIdsData } = useQuery({
     queryKey: ['personIds'],
-    queryFn: () => apiService.getPersonIds(),
-    enabled: isAdmin,
+    queryFn: () => apiClient.getPersonIds(),
+    enabled: can('people:view-others'),
   });
 
   const { data: routinesData, isLoading } = useQuery({
     queryKey: ['routines', { personId, page, pageSize }],
-    queryFn: () => apiService.getRoutines({ 
+    queryFn: () => apiClient.getRoutines({ queries: { 
       personId: personId || undefined,
       page, 
       pageSize 
-    }),
+    } }),
   });
 
   const queryClient = useQueryClient();
+  const { showToast } = useToast();
+
+  // Server push keeps the detail view current; polling is only a fallback while the stream is down
+  const { isLive } = useLiveUpdates(personId || undefined);
 
   const { data: routineDetail } = useQuery({
     queryKey: ['routine', selectedRoutineId],
-    queryFn: () => apiService.getRoutine(selectedRoutineId!),
+    queryFn: () => apiClient.getRoutine({ params: { id: selectedRoutineId! } }),
     enabled: !!selectedRoutineId,
-    refetchInterval: 5000, // Refetch every 5 seconds to show live updates
+    refetchInterval: isLive ? false : 5000, // Poll every 5 seconds only when live updates are unavailable
   });
 
   const feedbackMutation = useMutation({
     mutationFn: ({ reminderId, action, value }: { reminderId: string; action: ProbabilityAction; value: number }) =>
-      apiService.submitRoutineReminderFeedback(selectedRoutineId!, reminderId, action, value),
+      apiClient.submitRoutineReminderFeedback(
+        { action, value },
+        { params: { routineId: selectedRoutineId!, reminderId } }
+      ),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['routine', selectedRoutineId] });
+      queryClient.invalidateQueries({ queryKey: ['confidenceHistory', selectedRoutineId] });
+    },
+  });
+
+  const executionActionMutation = useMutation({
+    mutationFn: ({ reminderId, executionAction }: { reminderId: string; executionAction: ExecutionAction }) =>
+      apiClient.setRoutineReminderExecutionAction(
+        { executionAction },
+        { params: { routineId: selectedRoutineId!, reminderId } }
+      ),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['routine', selectedRoutineId] });
+      showToast({ message: result.message || 'Execution action updated', variant: 'success' });
+    },
+    onError: () => {
+      showToast({ message: 'Failed to update execution action', variant: 'error' });
     },
   });
 
   const updateRoutineMutation = useMutation({
     mutationFn: (observationWindowMinutes: number) =>
-      apiService.updateRoutine(selectedRoutineId!, { observationWindowMinutes }),
+      apiClient.updateRoutine({ observationWindowMinutes }, { params: { id: selectedRoutineId! } }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['routine', selectedRoutineId] });
       queryClient.invalidateQueries({ queryKey: ['routines'] });
@@ -125,9 +160,29 @@ export default function RoutinesPage() {
       signalProfile: reminder.signalProfile,
       signalProfileUpdatedAtUtc: reminder.signalProfileUpdatedAtUtc,
       signalProfileSamplesCount: reminder.signalProfileSamplesCount,
+      executionAction: reminder.executionAction,
+      isSafeToAutoExecute: reminder.isSafeToAutoExecute,
+      ...noPatternEvidence(),
+    ...noPatternEvidence(),
     };
   };
 
+  // Keep the detail modal in sync with the polled routine detail
+  const liveDetailRoutineReminder = detailReminder
+    ? routineDetail?.reminders.find((r) => r.id === detailReminder.id)
+    : undefined;
+  const liveDetailReminder =
+    liveDetailRoutineReminder && routineDetail
+      ? routineReminderToReminderCandidate(liveDetailRoutineReminder, routineDetail)
+      : detailReminder;
+
+  // j/k through the routine cards, Enter to open one
+  const { activeIndex } = useListKeyboardNavigation({
+    items: routinesData?.items ?? [],
+    enabled: !selectedRoutineId,
+    onOpen: (routine) => setSelectedRoutineId(routine.id),
+  });
+
   if (selectedRoutineId && routineDetail) {
     return (
       <Layout>
@@ -341,12 +396,13 @@ export default function RoutinesPage() {
                           )}
                         </div>
                       </div>
-                      <div title={`Confidence: ${(reminder.confidence * 100).toFixed(0)}%`}>
+                      <div className="flex flex-col items-end gap-1" title={`Confidence: ${(reminder.confidence * 100).toFixed(0)}%`}>
                         <ConfidenceIndicator 
                           confidence={reminder.confidence} 
                           size="sm" 
                           showLabel={false}
                         />
+                        <ConfidenceHistoryChart reminderId={reminder.id} routineId={routineDetail.id} compact />
                       </div>
                         </div>
                       <div className="mt-3 pt-3 border-t border-gray-200 space-y-3">
@@ -370,10 +426,18 @@ export default function RoutinesPage() {
                         
                         <div className="flex items-center justify-between text-xs mb-2">
                           <span className="text-gray-600">
-                            {reminder.confidence >= 0.7 ? 'Auto' : reminder.confidence >= 0.4 ? 'Ask' : 'Suggest'}
+                            {reminder.executionAction
+                              ? reminder.executionAction
+                              : reminder.confidence >= 0.7 ? 'Auto' : reminder.confidence >= 0.4 ? 'Ask' : 'Suggest'}
                           </span>
                           <span className="text-gray-500">
-                            {reminder.confidence >= 0.7 
+                            {reminder.executionAction === ExecutionAction.Execute
+                              ? 'Set to execute automatically'
+                              : reminder.executionAction === ExecutionAction.Ask
+                              ? 'Set to ask before executing'
+                              : reminder.executionAction === ExecutionAction.Suggest
+                              ? 'Set to suggest only'
+                              : reminder.confidence >= 0.7 
                               ? 'Will execute automatically'
                               : reminder.confidence >= 0.4
                               ? 'Will ask before executing'
@@ -414,13 +478,22 @@ export default function RoutinesPage() {
 
           {/* Reminder Detail Modal */}
           <ReminderDetailModal
-            reminder={detailReminder}
+            reminder={liveDetailReminder}
             isOpen={isDetailModalOpen}
             onClose={() => {
               setIsDetailModalOpen(false);
               setDetailReminder(null);
             }}
             confidenceThreshold={0.7}
+            onExecutionActionChange={
+              liveDetailReminder && can('routines:edit', liveDetailReminder.personId)
+                ? (executionAction) =>
+                    executionActionMutation.mutate({ reminderId: liveDetailReminder.id, executionAction })
+                : undefined
+            }
+            isExecutionActionPending={executionActionMutation.isPending}
+            autoExecuteWarning="Reminders created by this routine will run this action automatically, without asking, whenever confidence is high enough."
+            routineReminder={liveDetailRoutineReminder}
           />
         </div>
       </Layout>
@@ -447,7 +520,7 @@ export default function RoutinesPage() {
                 Person ID
                 <span className="ml-1 text-gray-400" title="Filter routines by person">ℹ️</span>
               </label>
-              {isAdmin ? (
+              {can('people:view-others') ? (
                 <select
                   id="personId"
                   value={personId}
@@ -457,7 +530,7 @@ export default function RoutinesPage() {
                   }}
                   className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
                 >
-                  <option value="">All Persons</option>
+                  {can('people:view-all') && <option value="">All Persons</option>}
                   {personIdsData?.map((p) => (
                     <option key={p.personId} value={p.personId}>
                       {p.displayName} ({p.personId})
@@ -484,13 +557,16 @@ export default function RoutinesPage() {
           <>
             {/* Routine Cards */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {routinesData.items.map((routine: RoutineDto) => {
+              {routinesData.items.map((routine: RoutineDto, index: number) => {
                 const avgConfidence = 0; // Would need to fetch reminders to calculate
                 return (
                     <div
                       key={routine.id}
                       onClick={() => setSelectedRoutineId(routine.id)}
-                      className="bg-white border border-gray-200 rounded-lg p-6 hover:shadow-lg transition-all cursor-pointer"
+                      data-keyboard-index={index}
+                      className={`bg-white border border-gray-200 rounded-lg p-6 hover:shadow-lg transition-all cursor-pointer ${
+                        activeIndex === index ? 'ring-2 ring-indigo-500' : ''
+                      }`}
                       title={`Click to view details for ${getIntentDisplayName(routine.intentType)} routine`}
                     >
                     <div className="flex items-start justify-between mb-4">
@@ -0,0 +1,499 @@
+// Sandbox for scripting a routine, replaying simulated days into a throwaway person and watching what is learned
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { Layout } from '@/components/Layout';
+import { ConfidenceCurveChart } from '@/components/ConfidenceCurveChart';
+import { apiClient } from '@/services/api';
+import { chunk } from '@/services/eventImport';
+import {
+  appendConfidenceSnapshot,
+  SIMULATION_DAYS_LABELS,
+  simulateDays,
+  toSandboxPersonId,
+  type ConfidenceCurve,
+  type SimulationDays,
+  type SimulationScript,
+  type SimulationStep,
+} from '@/services/lifeSimulation';
+import { useToast } from '@/context/ToastContext';
+import type { ReminderCandidateDto, RoutineDetailDto } from '@/types';
+import { IngestEventBatchItemStatus } from '@/types';
+
+// Matches the API's batch limit
+const MAX_BATCH_SIZE = 100;
+const SNAPSHOT_PAGE_SIZE = 100;
+const MAX_PERIOD_DAYS = 90;
+
+const DEFAULT_SCRIPT: SimulationScript = {
+  sandboxName: 'anna',
+  intent: 'ArrivalHome',
+  startTime: '18:00',
+  startJitterMinutes: 10,
+  steps: [
+    { actionType: 'TurnOnLights', delayMinutes: 2, jitterMinutes: 1, location: 'hallway' },
+    { actionType: 'PlayMusic', delayMinutes: 10, jitterMinutes: 5, location: 'living_room' },
+  ],
+  days: 'weekdays',
+  periodDays: 14,
+  seed: 1,
+};
+
+interface Snapshot {
+  reminders: ReminderCandidateDto[];
+  routines: RoutineDetailDto[];
+}
+
+interface ReplayState {
+  isRunning: boolean;
+  wasCancelled: boolean;
+  completedDays: number;
+  totalDays: number;
+  failedEvents: number;
+  dayLabels: string[];
+  curves: ConfidenceCurve[];
+  snapshot: Snapshot | null;
+}
+
+async function fetchSnapshot(personId: string): Promise<Snapshot> {
+  const [reminders, routines] = await Promise.all([
+    apiClient.getReminderCandidates({ queries: { personId, page: 1, pageSize: SNAPSHOT_PAGE_SIZE } }),
+    apiClient.getRoutines({ queries: { personId, page: 1, pageSize: SNAPSHOT_PAGE_SIZE } }),
+  ]);
+  return {
+    reminders: reminders.items,
+    routines: await Promise.all(routines.items.map((routine) => apiClient.getRoutine({ params: { id: routine.id } }))),
+  };
+}
+
+const describeError = (error: any) => error.response?.data?.message || error.message || 'Request failed';
+
+export default function SandboxPage() {
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+  const [script, setScript] = useState<SimulationScript>(DEFAULT_SCRIPT);
+  const [cleanBeforeReplay, setCleanBeforeReplay] = useState(true);
+  const [replay, setReplay] = useState<ReplayState | null>(null);
+  const [isCleaning, setIsCleaning] = useState(false);
+  const cancelRef = useRef(false);
+
+  const personId = toSandboxPersonId(script.sandboxName);
+  const simulatedDays = useMemo(() => simulateDays(script), [script]);
+  const eventCount = simulatedDays.reduce((sum, day) => sum + day.events.length, 0);
+  const isRunning = replay?.isRunning ?? false;
+
+  const validationError = useMemo(() => {
+    if (!/^\d{2}:\d{2}$/.test(script.startTime)) return 'Start time must be HH:mm';
+    if (script.periodDays < 1 || script.periodDays > MAX_PERIOD_DAYS) return `Period must be 1 to ${MAX_PERIOD_DAYS} days`;
+    if (!script.intent.trim() && script.steps.length === 0) return 'Add an intent or at least one action';
+    if (script.steps.some((step) => !step.actionType.trim())) return 'Every action needs an action type';
+    if (simulatedDays.length === 0) return 'No days in the period match the selected days';
+    return null;
+  }, [script, simulatedDays]);
+
+  const updateScript = (changes: Partial<SimulationScript>) => setScript((prev) => ({ ...prev, ...changes }));
+
+  const updateStep = (index: number, changes: Partial<SimulationStep>) =>
+    updateScript({ steps: script.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)) });
+
+  const handleReplay = async () => {
+    cancelRef.current = false;
+    let state: ReplayState = {
+      isRunning: true,
+      wasCancelled: false,
+      completedDays: 0,
+      totalDays: simulatedDays.length,
+      failedEvents: 0,
+      dayLabels: [],
+      curves: [],
+      snapshot: null,
+    };
+    setReplay(state);
+
+    try {
+      if (cleanBeforeReplay) {
+        // Zodios does not encode path parameters, and sandbox personIds are free text
+        await apiClient.deleteSandboxData(undefined, { params: { personId: encodeURIComponent(personId) } });
+      }
+
+      for (const [index, day] of simulatedDays.entries()) {
+        if (cancelRef.current) {
+          state = { ...state, wasCancelled: true };
+          break;
+        }
+
+        let failedEvents = 0;
+        for (const events of chunk(day.events, MAX_BATCH_SIZE)) {
+          const response = await apiClient.ingestEventBatch({ events });
+          failedEvents += response.results.filter((r) => r.status !== IngestEventBatchItemStatus.Ingested).length;
+        }
+
+        const snapshot = await fetchSnapshot(personId);
+        state = {
+          ...state,
+          completedDays: index + 1,
+          failedEvents: state.failedEvents + failedEvents,
+          dayLabels: [...state.dayLabels, format(parseISO(day.date), 'EEE d MMM')],
+          curves: appendConfidenceSnapshot(state.curves, index, snapshot.reminders, snapshot.routines),
+          snapshot,
+        };
+        setReplay(state);
+      }
+    } catch (error) {
+      showToast({ message: `Replay stopped: ${describeError(error)}`, variant: 'error' });
+    } finally {
+      setReplay({ ...state, isRunning: false });
+      queryClient.invalidateQueries({ queryKey: ['personIds'] });
+    }
+  };
+
+  const handleCleanup = async () => {
+    if (!confirm(`Delete all events, reminders and routines stored for ${personId}?`)) return;
+
+    setIsCleaning(true);
+    try {
+      const result = await apiClient.deleteSandboxData(undefined, {
+        params: { personId: encodeURIComponent(personId) },
+      });
+      setReplay(null);
+      queryClient.invalidateQueries({ queryKey: ['personIds'] });
+      showToast({
+        message: `Deleted ${result.eventsDeleted} events, ${result.reminderCandidatesDeleted} reminders and ${result.routinesDeleted} routines for ${personId}`,
+        variant: 'success',
+      });
+    } catch (error) {
+      showToast({ message: `Cleanup failed: ${describeError(error)}`, variant: 'error' });
+    } finally {
+      setIsCleaning(false);
+    }
+  };
+
+  const inputClassName =
+    'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm';
+
+  return (
+    <Layout permission="sandbox:use">
+      <div className="px-4 py-6 sm:px-0 max-w-6xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Life Simulation Sandbox</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Script a routine, replay it into a throwaway person and see which reminders and routines are learned.
+            The scheduler never sends or executes sandbox reminders.
+          </p>
+        </div>
+
+        {/* Script */}
+        <div className="bg-white shadow rounded-lg p-6 space-y-4">
+          <h2 className="text-lg font-medium text-gray-900">Routine</h2>
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+            <div>
+              <label htmlFor="sandboxName" className="block text-sm font-medium text-gray-700">
+                Sandbox person
+              </label>
+              <input
+                id="sandboxName"
+                type="text"
+                value={script.sandboxName}
+                onChange={(e) => updateScript({ sandboxName: e.target.value })}
+                disabled={isRunning}
+                className={inputClassName}
+              />
+              <p className="text-xs text-gray-500 mt-1 font-mono">{personId}</p>
+            </div>
+            <div>
+              <label htmlFor="intent" className="block text-sm font-medium text-gray-700">
+                Intent (StateChange)
+              </label>
+              <input
+                id="intent"
+                type="text"
+                value={script.intent}
+                onChange={(e) => updateScript({ intent: e.target.value })}
+                disabled={isRunning}
+                placeholder="Leave empty for actions only"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="startTime" className="block text-sm font-medium text-gray-700">
+                Starts at
+              </label>
+              <input
+                id="startTime"
+                type="time"
+                value={script.startTime}
+                onChange={(e) => updateScript({ startTime: e.target.value })}
+                disabled={isRunning}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="startJitter" className="block text-sm font-medium text-gray-700">
+                Start jitter (± min)
+              </label>
+              <input
+                id="startJitter"
+                type="number"
+                min={0}
+                value={script.startJitterMinutes}
+                onChange={(e) => updateScript({ startJitterMinutes: Math.max(0, Number(e.target.value)) })}
+                disabled={isRunning}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-2">Actions</div>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Action type</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Delay after previous (min)</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Jitter (± min)</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Location</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {script.steps.map((step, index) => (
+                  <tr key={index}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        aria-label={`Action ${index + 1} type`}
+                        value={step.actionType}
+                        onChange={(e) => updateStep(index, { actionType: e.target.value })}
+                        disabled={isRunning}
+                        className={inputClassName}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        min={0}
+                        aria-label={`Action ${index + 1} delay`}
+                        value={step.delayMinutes}
+                        onChange={(e) => updateStep(index, { delayMinutes: Math.max(0, Number(e.target.value)) })}
+                        disabled={isRunning || (index === 0 && !script.intent.trim())}
+                        className={inputClassName}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        min={0}
+                        aria-label={`Action ${index + 1} jitter`}
+                        value={step.jitterMinutes}
+                        onChange={(e) => updateStep(index, { jitterMinutes: Math.max(0, Number(e.target.value)) })}
+                        disabled={isRunning}
+                        className={inputClassName}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        aria-label={`Action ${index + 1} location`}
+                        value={step.location}
+                        onChange={(e) => updateStep(index, { location: e.target.value })}
+                        disabled={isRunning}
+                        className={inputClassName}
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => updateScript({ steps: script.steps.filter((_, i) => i !== index) })}
+                        disabled={isRunning}
+                        className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <button
+              onClick={() =>
+                updateScript({
+                  steps: [...script.steps, { actionType: '', delayMinutes: 5, jitterMinutes: 2, location: 'home' }],
+                })
+              }
+              disabled={isRunning}
+              className="mt-2 text-sm text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+            >
+              + Add action
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+            <div>
+              <label htmlFor="simulationDays" className="block text-sm font-medium text-gray-700">
+                Days
+              </label>
+              <select
+                id="simulationDays"
+                value={script.days}
+                onChange={(e) => updateScript({ days: e.target.value as SimulationDays })}
+                disabled={isRunning}
+                className={inputClassName}
+              >
+                {(Object.keys(SIMULATION_DAYS_LABELS) as SimulationDays[]).map((value) => (
+                  <option key={value} value={value}>
+                    {SIMULATION_DAYS_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="periodDays" className="block text-sm font-medium text-gray-700">
+                Over the last (days)
+              </label>
+              <input
+                id="periodDays"
+                type="number"
+                min={1}
+                max={MAX_PERIOD_DAYS}
+                value={script.periodDays}
+                onChange={(e) => updateScript({ periodDays: Number(e.target.value) })}
+                disabled={isRunning}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="seed" className="block text-sm font-medium text-gray-700">
+                Random seed
+              </label>
+              <input
+                id="seed"
+                type="number"
+                value={script.seed}
+                onChange={(e) => updateScript({ seed: Number(e.target.value) })}
+                disabled={isRunning}
+                className={inputClassName}
+              />
+              <p className="text-xs text-gray-500 mt-1">The same seed replays the same jitter</p>
+            </div>
+            <div className="flex items-end">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={cleanBeforeReplay}
+                  onChange={(e) => setCleanBeforeReplay(e.target.checked)}
+                  disabled={isRunning}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Clean up {personId} first
+              </label>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between border-t border-gray-200 pt-4">
+            <p className={`text-sm ${validationError ? 'text-red-600' : 'text-gray-600'}`}>
+              {validationError ?? `${simulatedDays.length} days, ${eventCount} events`}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={handleCleanup}
+                disabled={isRunning || isCleaning}
+                className="px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 disabled:opacity-50"
+              >
+                {isCleaning ? 'Cleaning up...' : 'Delete sandbox data'}
+              </button>
+              {isRunning ? (
+                <button
+                  onClick={() => (cancelRef.current = true)}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                >
+                  Stop
+                </button>
+              ) : (
+                <button
+                  onClick={handleReplay}
+                  disabled={validationError !== null || isCleaning}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  ▶ Replay
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Results */}
+        {replay && (
+          <div className="bg-white shadow rounded-lg p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-medium text-gray-900">Confidence after each day</h2>
+              <span className="text-sm text-gray-600">
+                {replay.isRunning
+                  ? `Replaying day ${replay.completedDays + 1} of ${replay.totalDays}`
+                  : `${replay.completedDays} of ${replay.totalDays} days replayed${replay.wasCancelled ? ' (stopped)' : ''}`}
+              </span>
+            </div>
+            <div className="w-full h-2 bg-gray-100 rounded">
+              <div
+                className="h-2 rounded bg-indigo-500"
+                style={{ width: `${(replay.completedDays / Math.max(1, replay.totalDays)) * 100}%` }}
+              />
+            </div>
+            {replay.failedEvents > 0 && (
+              <p className="text-sm text-red-600">{replay.failedEvents} events were not ingested</p>
+            )}
+            <ConfidenceCurveChart curves={replay.curves} dayLabels={replay.dayLabels} />
+          </div>
+        )}
+
+        {replay?.snapshot && (
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            <div className="bg-white shadow rounded-lg p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-3">Reminders ({replay.snapshot.reminders.length})</h2>
+              {replay.snapshot.reminders.length === 0 ? (
+                <p className="text-sm text-gray-500">No reminders yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {replay.snapshot.reminders.map((reminder) => (
+                    <li key={reminder.id} className="py-2 flex items-center justify-between gap-4">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{reminder.suggestedAction}</div>
+                        <div className="text-xs text-gray-500">
+                          {reminder.occurrence || 'One-off'} · {reminder.status}
+                        </div>
+                      </div>
+                      <span className="text-sm font-mono text-gray-700">{(reminder.confidence * 100).toFixed(0)}%</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <div className="bg-white shadow rounded-lg p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-3">Routines ({replay.snapshot.routines.length})</h2>
+              {replay.snapshot.routines.length === 0 ? (
+                <p className="text-sm text-gray-500">No routines yet. Routines are learned from an intent.</p>
+              ) : (
+                replay.snapshot.routines.map((routine) => (
+                  <div key={routine.id} className="mb-3">
+                    <div className="text-sm font-medium text-gray-900">{routine.intentType}</div>
+                    <ul className="divide-y divide-gray-100">
+                      {routine.reminders.map((reminder) => (
+                        <li key={reminder.id} className="py-1 flex items-center justify-between gap-4 text-sm">
+                          <span className="text-gray-700">
+                            {reminder.suggestedAction}
+                            <span className="text-xs text-gray-500"> · {reminder.timeContextBucket} · seen {reminder.observationCount}×</span>
+                          </span>
+                          <span className="font-mono text-gray-700">{(reminder.confidence * 100).toFixed(0)}%</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
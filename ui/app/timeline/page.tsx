@@ -0,0 +1,179 @@
+// Household timeline page - every person's events, reminders and routine windows side by side
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Layout } from '@/components/Layout';
+import { HouseholdTimeline, type TimelineLane } from '@/components/HouseholdTimeline';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { useLiveUpdates } from '@/hooks/useLiveUpdates';
+import { usePermissions } from '@/hooks/usePermissions';
+import { apiClient } from '@/services/api';
+import {
+  getSharedPresenceWindows,
+  getTimelineRange,
+  shiftTimelineAnchor,
+  type TimelineZoom,
+} from '@/services/timeline';
+
+// Enough to cover a busy week per person without paging
+const TIMELINE_PAGE_SIZE = 500;
+
+const ZOOM_LABELS: Record<TimelineZoom, string> = {
+  hour: 'Hour',
+  day: 'Day',
+  week: 'Week',
+};
+
+const RANGE_FORMAT: Record<TimelineZoom, string> = {
+  hour: 'EEE d MMM yyyy, HH:00',
+  day: 'EEEE d MMMM yyyy',
+  week: "'Week of' d MMMM yyyy",
+};
+
+export default function TimelinePage() {
+  const { can, ownPersonId } = usePermissions();
+  const [zoom, setZoom] = useState<TimelineZoom>('day');
+  const [anchor, setAnchor] = useState(() => new Date());
+
+  const range = useMemo(() => getTimelineRange(zoom, anchor), [zoom, anchor]);
+  const fromUtc = range.start.toISOString();
+  const toUtc = range.end.toISOString();
+
+  const { isLive } = useLiveUpdates();
+  const refetchInterval = isLive ? false : 30000;
+
+  // Everyone the user may see gets a lane; guests only see their own
+  const { data: personIdsData, isLoading: personIdsLoading } = useQuery({
+    queryKey: ['personIds'],
+    queryFn: () => apiClient.getPersonIds(),
+    enabled: can('people:view-others'),
+  });
+
+  const people = useMemo(() => {
+    if (can('people:view-others')) {
+      return (personIdsData ?? []).filter((p) => can('events:view', p.personId));
+    }
+    return ownPersonId ? [{ personId: ownPersonId, displayName: ownPersonId }] : [];
+  }, [can, ownPersonId, personIdsData]);
+
+  const eventQueries = useQueries({
+    queries: people.map((p) => ({
+      queryKey: ['events', { personId: p.personId, fromUtc, toUtc, page: 1, pageSize: TIMELINE_PAGE_SIZE }],
+      queryFn: () =>
+        apiClient.getEvents({ queries: { personId: p.personId, fromUtc, toUtc, page: 1, pageSize: TIMELINE_PAGE_SIZE } }),
+      refetchInterval,
+    })),
+  });
+
+  const reminderQueries = useQueries({
+    queries: people.map((p) => ({
+      queryKey: ['reminderCandidates', { personId: p.personId, fromUtc, toUtc, page: 1, pageSize: TIMELINE_PAGE_SIZE }],
+      queryFn: () =>
+        apiClient.getReminderCandidates({ queries: {
+          personId: p.personId,
+          fromUtc,
+          toUtc,
+          page: 1,
+          pageSize: TIMELINE_PAGE_SIZE,
+        } }),
+      refetchInterval,
+    })),
+  });
+
+  const routineQueries = useQueries({
+    queries: people.map((p) => ({
+      queryKey: ['routines', { personId: p.personId, page: 1, pageSize: TIMELINE_PAGE_SIZE }],
+      queryFn: () => apiClient.getRoutines({ queries: { personId: p.personId, page: 1, pageSize: TIMELINE_PAGE_SIZE } }),
+      refetchInterval,
+    })),
+  });
+
+  const lanes: TimelineLane[] = people.map((p, index) => ({
+    personId: p.personId,
+    displayName: p.displayName,
+    events: eventQueries[index]?.data?.items ?? [],
+    reminders: reminderQueries[index]?.data?.items ?? [],
+    routines: routineQueries[index]?.data?.items ?? [],
+  }));
+
+  const presenceWindows = getSharedPresenceWindows(lanes.flatMap((lane) => lane.events));
+
+  const isLoading =
+    personIdsLoading ||
+    [...eventQueries, ...reminderQueries, ...routineQueries].some((query) => query.isLoading);
+  const hasError = [...eventQueries, ...reminderQueries, ...routineQueries].some((query) => query.isError);
+
+  return (
+    <Layout permission="events:view">
+      <div className="px-4 py-6 sm:px-0">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">Household Timeline</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            What everyone did, what the assistant plans next, and when people were together
+          </p>
+        </div>
+
+        {/* Zoom and navigation */}
+        <div className="bg-white shadow rounded-lg mb-6 p-4 flex flex-wrap items-center justify-between gap-4">
+          <div className="inline-flex rounded-md shadow-sm" role="group" aria-label="Zoom">
+            {(Object.keys(ZOOM_LABELS) as TimelineZoom[]).map((level, index, levels) => (
+              <button
+                key={level}
+                onClick={() => setZoom(level)}
+                aria-pressed={zoom === level}
+                className={`px-4 py-2 text-sm font-medium border border-gray-300 ${
+                  index === 0 ? 'rounded-l-md' : ''
+                } ${index === levels.length - 1 ? 'rounded-r-md' : ''} ${
+                  zoom === level ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {ZOOM_LABELS[level]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setAnchor((current) => shiftTimelineAnchor(zoom, current, -1))}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+              aria-label={`Previous ${zoom}`}
+            >
+              ←
+            </button>
+            <button
+              onClick={() => setAnchor(new Date())}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Now
+            </button>
+            <button
+              onClick={() => setAnchor((current) => shiftTimelineAnchor(zoom, current, 1))}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+              aria-label={`Next ${zoom}`}
+            >
+              →
+            </button>
+            <span className="ml-2 text-sm font-medium text-gray-900">{format(range.start, RANGE_FORMAT[zoom])}</span>
+          </div>
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-4">
+          {hasError && (
+            <div className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-800">
+              Some activity could not be loaded. The timeline may be incomplete.
+            </div>
+          )}
+          {isLoading ? (
+            <LoadingSpinner />
+          ) : lanes.length === 0 ? (
+            <div className="text-sm text-gray-500">No people to show yet.</div>
+          ) : (
+            <HouseholdTimeline lanes={lanes} range={range} zoom={zoom} presenceWindows={presenceWindows} />
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
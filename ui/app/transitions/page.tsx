@@ -0,0 +1,238 @@
+// Transitions explorer page - learned fromAction → toAction chains per person
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Layout } from '@/components/Layout';
+import { DateTimeDisplay } from '@/components/DateTimeDisplay';
+import { TimeContextBucketBadge } from '@/components/TimeContextBucketBadge';
+import { TransitionGraph, formatAverageDelay } from '@/components/TransitionGraph';
+import { useTransitions } from '@/hooks/useTransitions';
+import { apiClient } from '@/services/api';
+import { usePermissions } from '@/hooks/usePermissions';
+import type { TransitionDto } from '@/types';
+import { ConfidenceLevel } from '@/types';
+
+const CONFIDENCE_LABEL_CLASSES: Record<ConfidenceLevel, string> = {
+  [ConfidenceLevel.High]: 'bg-green-100 text-green-800 border-green-300',
+  [ConfidenceLevel.Medium]: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  [ConfidenceLevel.Low]: 'bg-red-100 text-red-800 border-red-300',
+};
+
+export default function TransitionsPage() {
+  const { can, ownPersonId } = usePermissions();
+  const [personId, setPersonId] = useState('');
+  const [contextBucket, setContextBucket] = useState('');
+  const [confidence, setConfidence] = useState<ConfidenceLevel | ''>('');
+  const [view, setView] = useState<'graph' | 'table'>('graph');
+
+  // Users who cannot list everyone start on their own personId
+  useEffect(() => {
+    if (!can('people:view-all') && ownPersonId) {
+      setPersonId(ownPersonId);
+    }
+  }, [can, ownPersonId]);
+
+  // Fetch personIds for the person dropdown
+  const { data: personIdsData } = useQuery({
+    queryKey: ['personIds'],
+    queryFn: () => apiClient.getPersonIds(),
+    enabled: can('people:view-others'),
+  });
+
+  const { data, isLoading } = useTransitions(personId);
+
+  const transitions = data?.transitions || [];
+
+  const contextBuckets = Array.from(new Set(transitions.map((t: TransitionDto) => t.contextBucket))).sort();
+
+  const filteredTransitions = transitions
+    .filter((t: TransitionDto) => !contextBucket || t.contextBucket === contextBucket)
+    .filter((t: TransitionDto) => !confidence || t.confidenceLabel === confidence)
+    .sort((a: TransitionDto, b: TransitionDto) => b.occurrenceCount - a.occurrenceCount);
+
+  return (
+    <Layout>
+      <div className="px-4 py-6 sm:px-0">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">Transitions</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Learned action chains: what usually happens after each action
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white shadow rounded-lg mb-6 p-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+            <div>
+              <label htmlFor="personId" className="block text-sm font-medium text-gray-700">
+                Person ID
+                <span className="ml-1 text-gray-400" title="Transitions are learned per person">ℹ️</span>
+              </label>
+              {can('people:view-others') ? (
+                <select
+                  id="personId"
+                  value={personId}
+                  onChange={(e) => {
+                    setPersonId(e.target.value);
+                    setContextBucket('');
+                  }}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  <option value="">Select a person</option>
+                  {personIdsData?.map((p) => (
+                    <option key={p.personId} value={p.personId}>
+                      {p.displayName} ({p.personId})
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  id="personId"
+                  value={personId}
+                  disabled
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm bg-gray-100 text-gray-600 sm:text-sm cursor-not-allowed"
+                  title="Your personId is fixed to your username"
+                />
+              )}
+            </div>
+            <div>
+              <label htmlFor="contextBucket" className="block text-sm font-medium text-gray-700">
+                Context Bucket
+                <span className="ml-1 text-gray-400" title="The day type, time bucket and location the transition was learned in">ℹ️</span>
+              </label>
+              <select
+                id="contextBucket"
+                value={contextBucket}
+                onChange={(e) => setContextBucket(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                <option value="">All</option>
+                {contextBuckets.map((bucket) => (
+                  <option key={bucket} value={bucket}>
+                    {bucket}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="confidence" className="block text-sm font-medium text-gray-700">
+                Confidence
+              </label>
+              <select
+                id="confidence"
+                value={confidence}
+                onChange={(e) => setConfidence(e.target.value as ConfidenceLevel | '')}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                <option value="">All</option>
+                <option value={ConfidenceLevel.High}>High</option>
+                <option value={ConfidenceLevel.Medium}>Medium</option>
+                <option value={ConfidenceLevel.Low}>Low</option>
+              </select>
+            </div>
+            <div className="flex items-end">
+              <div className="inline-flex w-full rounded-md shadow-sm" role="group">
+                <button
+                  onClick={() => setView('graph')}
+                  className={`flex-1 px-4 py-2 text-sm font-medium border rounded-l-md ${
+                    view === 'graph'
+                      ? 'bg-indigo-600 text-white border-indigo-600'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  Graph
+                </button>
+                <button
+                  onClick={() => setView('table')}
+                  className={`flex-1 px-4 py-2 text-sm font-medium border rounded-r-md ${
+                    view === 'table'
+                      ? 'bg-indigo-600 text-white border-indigo-600'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  Table
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {!personId ? (
+          <div className="bg-white shadow rounded-lg p-12 text-center">
+            <p className="text-gray-500 mb-2">Select a person to explore their transitions</p>
+            <p className="text-sm text-gray-400">Transitions are learned separately for every person</p>
+          </div>
+        ) : isLoading ? (
+          <div className="bg-white shadow rounded-lg p-6 text-center text-gray-500">Loading transitions...</div>
+        ) : filteredTransitions.length === 0 ? (
+          <div className="bg-white shadow rounded-lg p-12 text-center">
+            <p className="text-gray-500 mb-2">No transitions found</p>
+            <p className="text-sm text-gray-400">
+              Transitions appear when one action regularly follows another
+            </p>
+          </div>
+        ) : view === 'graph' ? (
+          <div className="bg-white shadow rounded-lg p-6">
+            <TransitionGraph transitions={filteredTransitions} />
+          </div>
+        ) : (
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">From</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">To</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Context</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Occurrences</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Confidence</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Avg Delay</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Last Observed</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {filteredTransitions.map((transition: TransitionDto) => (
+                    <tr key={transition.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {transition.fromAction}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        → {transition.toAction}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        <span className="inline-flex items-center gap-2">
+                          <TimeContextBucketBadge bucket={transition.contextBucket} />
+                          <span className="font-mono text-xs">{transition.contextBucket}</span>
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {transition.occurrenceCount}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${
+                            CONFIDENCE_LABEL_CLASSES[transition.confidenceLabel as ConfidenceLevel] ?? 'bg-gray-100 text-gray-800 border-gray-300'
+                          }`}
+                        >
+                          {transition.confidenceLabel} {Math.round(transition.confidencePercent)}%
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatAverageDelay(transition.averageDelay)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        <DateTimeDisplay date={transition.lastObservedUtc} showRelative />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,195 @@
+// Trash page listing soft-deleted items per type, with restore and permanent purge (admin only)
+'use client';
+
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Layout } from '@/components/Layout';
+import { DateTimeDisplay } from '@/components/DateTimeDisplay';
+import { useToast } from '@/context/ToastContext';
+import { apiClient } from '@/services/api';
+import { TRASH_TYPES, describePurge, trashTypeLabel } from '@/services/trash';
+import { TrashItemType } from '@/types';
+import type { TrashItemDto } from '@/types';
+
+// Lists that show a restored item again
+const LIST_QUERY_KEYS: Record<TrashItemType, string> = {
+  [TrashItemType.Event]: 'events',
+  [TrashItemType.ReminderCandidate]: 'reminderCandidates',
+  [TrashItemType.ExecutionHistory]: 'executionHistory',
+  [TrashItemType.ApiKey]: 'apiKeys',
+  [TrashItemType.User]: 'users',
+};
+
+export default function TrashPage() {
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+  const [type, setType] = useState<TrashItemType>(TrashItemType.ReminderCandidate);
+  const [page, setPage] = useState(1);
+  const pageSize = 20;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['trash', { type, page, pageSize }],
+    queryFn: () => apiClient.getTrash({ queries: { type, page, pageSize } }),
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (item: TrashItemDto) => apiClient.restoreItem(undefined, { params: { type: item.type, id: item.id } }),
+    onSuccess: (_, item) => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      queryClient.invalidateQueries({ queryKey: [LIST_QUERY_KEYS[item.type]] });
+      showToast({ message: `Restored ${trashTypeLabel(item.type)} "${item.title}"`, variant: 'success' });
+    },
+    onError: (error: any, item) => {
+      showToast({
+        message: error.response?.data?.message || `Failed to restore ${trashTypeLabel(item.type)} "${item.title}"`,
+        variant: 'error',
+      });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (item: TrashItemDto) => apiClient.purgeItem(undefined, { params: { type: item.type, id: item.id } }),
+    onSuccess: (_, item) => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      showToast({ message: `Permanently deleted ${trashTypeLabel(item.type)} "${item.title}"`, variant: 'success' });
+    },
+    onError: (_, item) => {
+      showToast({ message: `Failed to delete ${trashTypeLabel(item.type)} "${item.title}"`, variant: 'error' });
+    },
+  });
+
+  const handlePurge = (item: TrashItemDto) => {
+    if (confirm(`Permanently delete ${trashTypeLabel(item.type)} "${item.title}"? This cannot be undone.`)) {
+      purgeMutation.mutate(item);
+    }
+  };
+
+  const selectType = (next: TrashItemType) => {
+    setType(next);
+    setPage(1);
+  };
+
+  const isBusy = restoreMutation.isPending || purgeMutation.isPending;
+
+  return (
+    <Layout permission="trash:manage">
+      <div className="px-4 py-6 sm:px-0">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">Trash</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Deleted items stay here for {data?.retentionDays ?? '…'} days and are then permanently removed.
+          </p>
+        </div>
+
+        <div className="border-b border-gray-200 mb-6">
+          <nav className="-mb-px flex space-x-8" aria-label="Item types">
+            {TRASH_TYPES.map((tab) => {
+              const count = data?.countsByType[tab];
+              return (
+                <button
+                  key={tab}
+                  onClick={() => selectType(tab)}
+                  className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                    type === tab
+                      ? 'border-indigo-500 text-indigo-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  {trashTypeLabel(tab, 'plural')}
+                  {count ? (
+                    <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">{count}</span>
+                  ) : null}
+                </button>
+              );
+            })}
+          </nav>
+        </div>
+
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          {isLoading ? (
+            <div className="p-6 text-center text-gray-500">Loading...</div>
+          ) : !data || data.items.length === 0 ? (
+            <div className="p-6 text-center text-gray-500">
+              No deleted {trashTypeLabel(type, 'plural').toLowerCase()}.
+            </div>
+          ) : (
+            <>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Person</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Deleted</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Purge</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {data.items.map((item) => (
+                      <tr key={item.id}>
+                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{item.title}</td>
+                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{item.personId || '-'}</td>
+                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
+                          <DateTimeDisplay date={item.deletedAtUtc} />
+                        </td>
+                        <td
+                          className="px-3 py-2 whitespace-nowrap text-sm text-gray-500"
+                          title={new Date(item.purgeAtUtc).toLocaleString()}
+                        >
+                          {describePurge(item.purgeAtUtc)}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap text-sm space-x-4">
+                          <button
+                            onClick={() => restoreMutation.mutate(item)}
+                            disabled={isBusy}
+                            className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                          >
+                            Restore
+                          </button>
+                          <button
+                            onClick={() => handlePurge(item)}
+                            disabled={isBusy}
+                            className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                          >
+                            Delete forever
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {data.totalCount > pageSize && (
+                <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
+                  <p className="text-sm text-gray-700">
+                    Showing <span className="font-medium">{(page - 1) * pageSize + 1}</span> to{' '}
+                    <span className="font-medium">{Math.min(page * pageSize, data.totalCount)}</span> of{' '}
+                    <span className="font-medium">{data.totalCount}</span> results
+                  </p>
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => setPage((p) => Math.max(1, p - 1))}
+                      disabled={page === 1}
+                      className="relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Previous
+                    </button>
+                    <button
+                      onClick={() => setPage((p) => p + 1)}
+                      disabled={page * pageSize >= data.totalCount}
+                      className="relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Next
+                    </button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
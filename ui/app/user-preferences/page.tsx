@@ -3,7 +3,7 @@
 import React, { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Layout } from '@/components/Layout';
-import { apiService } from '@/services/api';
+import { apiClient } from '@/services/api';
 import { useAuth } from '@/context/AuthContext';
 import { ReminderStyle } from '@/types';
 
@@ -11,10 +11,11 @@ export default function UserPreferencesPage() {
   const queryClient = useQueryClient();
   const { user } = useAuth();
   const [preferences, setPreferences] = useState({
-    defaultStyle: ReminderStyle.Suggest,
+    defaultStyle: ReminderStyle.Suggest as ReminderStyle,
     dailyLimit: 10,
     minimumInterval: 'PT15M', // 15 minutes in ISO 8601
     enabled: true,
+    allowAutoExecute: false,
   });
   const [isDirty, setIsDirty] = useState(false);
 
@@ -23,12 +24,12 @@ export default function UserPreferencesPage() {
 
   const { data: loadedPreferences, isLoading } = useQuery({
     queryKey: ['userPreferences', personId],
-    queryFn: () => apiService.getUserPreferences(personId),
+    queryFn: () => apiClient.getUserPreferences({ params: { personId } }),
     enabled: !!personId,
   });
 
   const updateMutation = useMutation({
-    mutationFn: () => apiService.updateUserPreferences(personId, preferences),
+    mutationFn: () => apiClient.updateUserPreferences(preferences, { params: { personId } }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['userPreferences', personId] });
       setIsDirty(false);
@@ -47,6 +48,7 @@ export default function UserPreferencesPage() {
         dailyLimit: loadedPreferences.dailyLimit,
         minimumInterval: loadedPreferences.minimumInterval,
         enabled: loadedPreferences.enabled,
+        allowAutoExecute: loadedPreferences.allowAutoExecute,
       });
       setIntervalMinutes(parsedInterval);
       setIsDirty(false);
@@ -138,6 +140,25 @@ export default function UserPreferencesPage() {
                 </p>
               </div>
 
+              <div>
+                <label htmlFor="allowAutoExecute" className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="allowAutoExecute"
+                    checked={preferences.allowAutoExecute}
+                    onChange={(e) => {
+                      setPreferences({ ...preferences, allowAutoExecute: e.target.checked });
+                      setIsDirty(true);
+                    }}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span className="ml-2 text-sm font-medium text-gray-900">Allow Auto-Execute</span>
+                </label>
+                <p className="mt-1 text-sm text-gray-500">
+                  When disabled, reminders are never executed without asking, even if marked safe to auto-execute
+                </p>
+              </div>
+
               <div>
                 <label htmlFor="defaultStyle" className="block text-sm font-medium text-gray-900 mb-2">
                   Default Reminder Style
@@ -4,38 +4,60 @@
 import React, { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Layout } from '@/components/Layout';
-import { apiService } from '@/services/api';
+import { useToast } from '@/context/ToastContext';
+import { apiClient } from '@/services/api';
+import { useUndoableDelete } from '@/hooks/useUndoableDelete';
+import { HouseholdRole, TrashItemType } from '@/types';
 import type { User, CreateUserRequest } from '@/types';
 
+const HOUSEHOLD_ROLE_DESCRIPTIONS: Record<HouseholdRole, string> = {
+  [HouseholdRole.Owner]: 'Views and manages every household member',
+  [HouseholdRole.Member]: 'Manages their own data and views other members',
+  [HouseholdRole.Guest]: 'Views and gives feedback on their own reminders only',
+};
+
 export default function UsersPage() {
   const queryClient = useQueryClient();
+  const { showToast } = useToast();
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [formData, setFormData] = useState<CreateUserRequest>({
     username: '',
     email: '',
     password: '',
     role: 'user',
+    householdRole: HouseholdRole.Member,
   });
 
   const { data: users, isLoading } = useQuery({
     queryKey: ['users'],
-    queryFn: () => apiService.getUsers(),
+    queryFn: () => apiClient.getUsers(),
   });
 
   const createMutation = useMutation({
-    mutationFn: (request: CreateUserRequest) => apiService.createUser(request),
+    mutationFn: (request: CreateUserRequest) => apiClient.createUser(request),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['users'] });
       setShowCreateForm(false);
-      setFormData({ username: '', email: '', password: '', role: 'user' });
+      setFormData({ username: '', email: '', password: '', role: 'user', householdRole: HouseholdRole.Member });
     },
   });
 
-  const deleteMutation = useMutation({
-    mutationFn: (id: string) => apiService.deleteUser(id),
-    onSuccess: () => {
+  const householdRoleMutation = useMutation({
+    mutationFn: ({ id, householdRole }: { id: string; householdRole: HouseholdRole }) =>
+      apiClient.updateHouseholdRole({ householdRole }, { params: { id } }),
+    onSuccess: (user) => {
       queryClient.invalidateQueries({ queryKey: ['users'] });
+      showToast({ message: `${user.username} is now a household ${user.householdRole.toLowerCase()}`, variant: 'success' });
     },
+    onError: (error: any) => {
+      showToast({ message: error.response?.data?.message || 'Failed to update household role', variant: 'error' });
+    },
+  });
+
+  const { deleteItem } = useUndoableDelete({
+    type: TrashItemType.User,
+    deleteFn: (id) => apiClient.deleteUser(undefined, { params: { id } }),
+    invalidateKeys: [['users']],
   });
 
   const handleCreate = (e: React.FormEvent) => {
@@ -44,9 +66,7 @@ export default function UsersPage() {
   };
 
   const handleDelete = (id: string, username: string) => {
-    if (confirm(`Are you sure you want to delete user "${username}"? This action cannot be undone.`)) {
-      deleteMutation.mutate(id);
-    }
+    deleteItem(id, username);
   };
 
   return (
@@ -115,7 +135,7 @@ export default function UsersPage() {
                 </label>
                 <select
                   id="role"
-                  value={formData.role}
+                  value={formData.role ?? ''}
                   onChange={(e) => setFormData({ ...formData, role: e.target.value as 'admin' | 'user' })}
                   required
                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
@@ -124,6 +144,27 @@ export default function UsersPage() {
                   <option value="admin">Admin</option>
                 </select>
               </div>
+              <div>
+                <label htmlFor="householdRole" className="block text-sm font-medium text-gray-700">
+                  Household Role *
+                </label>
+                <select
+                  id="householdRole"
+                  value={formData.householdRole ?? ''}
+                  onChange={(e) => setFormData({ ...formData, householdRole: e.target.value as HouseholdRole })}
+                  required
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  {Object.values(HouseholdRole).map((householdRole) => (
+                    <option key={householdRole} value={householdRole}>
+                      {householdRole}
+                    </option>
+                  ))}
+                </select>
+                {formData.householdRole && (
+                  <p className="mt-1 text-xs text-gray-500">{HOUSEHOLD_ROLE_DESCRIPTIONS[formData.householdRole]}</p>
+                )}
+              </div>
               <div className="flex gap-2">
                 <button
                   type="submit"
@@ -160,6 +201,7 @@ export default function UsersPage() {
                       <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Username</th>
                       <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Email</th>
                       <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Role</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Household Role</th>
                       <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Created</th>
                       <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
                     </tr>
@@ -179,6 +221,24 @@ export default function UsersPage() {
                             {user.role}
                           </span>
                         </td>
+                        <td className="px-3 py-2 whitespace-nowrap text-sm">
+                          <select
+                            aria-label={`Household role for ${user.username}`}
+                            value={user.householdRole}
+                            onChange={(e) =>
+                              householdRoleMutation.mutate({ id: user.id, householdRole: e.target.value as HouseholdRole })
+                            }
+                            disabled={householdRoleMutation.isPending}
+                            title={HOUSEHOLD_ROLE_DESCRIPTIONS[user.householdRole]}
+                            className="block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm disabled:opacity-50"
+                          >
+                            {Object.values(HouseholdRole).map((householdRole) => (
+                              <option key={householdRole} value={householdRole}>
+                                {householdRole}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
                         <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
                           {new Date(user.createdAt).toLocaleDateString()}
                         </td>
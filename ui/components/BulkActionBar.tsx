@@ -0,0 +1,86 @@
+// Selection toolbar for list pages: select the page or everything matching the filters, then act on it
+'use client';
+
+import React, { ReactNode, useState } from 'react';
+import { useToast } from '@/context/ToastContext';
+
+interface BulkActionBarProps {
+  noun: string; // Plural, e.g. "reminders"
+  selectedCount: number;
+  pageIds: string[];
+  totalCount: number; // Items matching the current filters across all pages
+  fetchAllIds: () => Promise<string[]>;
+  onSelect: (ids: string[]) => void;
+  onClear: () => void;
+  isBusy?: boolean;
+  children: ReactNode; // Batch actions, shown once something is selected
+}
+
+export function BulkActionBar({
+  noun,
+  selectedCount,
+  pageIds,
+  totalCount,
+  fetchAllIds,
+  onSelect,
+  onClear,
+  isBusy = false,
+  children,
+}: BulkActionBarProps) {
+  const { showToast } = useToast();
+  const [isLoadingAll, setIsLoadingAll] = useState(false);
+
+  const selectAllMatching = async () => {
+    setIsLoadingAll(true);
+    try {
+      onSelect(await fetchAllIds());
+    } catch (error: any) {
+      showToast({
+        message: `Failed to select all ${noun}: ${error.response?.data?.message || error.message}`,
+        variant: 'error',
+      });
+    } finally {
+      setIsLoadingAll(false);
+    }
+  };
+
+  if (totalCount === 0 && selectedCount === 0) return null;
+
+  return (
+    <div
+      className={`mb-4 flex flex-wrap items-center gap-3 rounded-md border px-4 py-2 text-sm ${
+        selectedCount > 0 ? 'border-indigo-200 bg-indigo-50' : 'border-gray-200 bg-gray-50'
+      }`}
+      aria-label="Bulk selection"
+    >
+      <span className="font-medium text-gray-700">
+        {selectedCount > 0 ? `${selectedCount} selected` : 'Shift-click checkboxes to select a range'}
+      </span>
+      <button
+        onClick={() => onSelect(pageIds)}
+        disabled={isBusy || pageIds.length === 0}
+        className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+      >
+        Select page
+      </button>
+      {totalCount > pageIds.length && (
+        <button
+          onClick={selectAllMatching}
+          disabled={isBusy || isLoadingAll}
+          className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+          title={`Select ${noun} matching the current filters on every page`}
+        >
+          {isLoadingAll ? 'Selecting...' : `Select all ${totalCount} matching`}
+        </button>
+      )}
+      {selectedCount > 0 && (
+        <>
+          <button onClick={onClear} disabled={isBusy} className="text-gray-600 hover:text-gray-900 disabled:opacity-50">
+            Clear
+          </button>
+          <div className="ml-auto flex flex-wrap items-center gap-2">{children}</div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+// Ctrl/Cmd+K palette for jumping to pages, people, reminders, routines and configuration keys
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import { apiClient } from '@/services/api';
+import {
+  configurationCommands,
+  pageCommands,
+  personCommands,
+  reminderCommands,
+  routineCommands,
+  searchCommands,
+  type PaletteCommand,
+} from '@/services/commandPalette';
+import { isCommandPaletteShortcut } from '@/services/keyboardShortcuts';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useToast } from '@/context/ToastContext';
+
+// Enough for a household; the palette searches what it has rather than paging the API per keystroke
+const SEARCH_PAGE_SIZE = 100;
+
+export function CommandPalette() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+  const { can, ownPersonId } = usePermissions();
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isCommandPaletteShortcut(event)) {
+        event.preventDefault();
+        setIsOpen((open) => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setSelectedIndex(0);
+      inputRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  // Users who cannot list everyone only search their own data
+  const scopedPersonId = can('people:view-all') ? undefined : ownPersonId ?? undefined;
+
+  const { data: people } = useQuery({
+    queryKey: ['personIds'],
+    queryFn: () => apiClient.getPersonIds(),
+    enabled: isOpen && can('people:view-others'),
+  });
+
+  const { data: reminders } = useQuery({
+    queryKey: ['reminderCandidates', { personId: scopedPersonId, page: 1, pageSize: SEARCH_PAGE_SIZE }],
+    queryFn: () =>
+      apiClient.getReminderCandidates({ queries: { personId: scopedPersonId, page: 1, pageSize: SEARCH_PAGE_SIZE } }),
+    enabled: isOpen,
+  });
+
+  const { data: routines } = useQuery({
+    queryKey: ['routines', { personId: scopedPersonId, page: 1, pageSize: SEARCH_PAGE_SIZE }],
+    queryFn: () => apiClient.getRoutines({ queries: { personId: scopedPersonId, page: 1, pageSize: SEARCH_PAGE_SIZE } }),
+    enabled: isOpen,
+  });
+
+  const { data: configurations } = useQuery({
+    queryKey: ['configurations', 'all'],
+    queryFn: () => apiClient.getConfigurations(),
+    enabled: isOpen,
+  });
+
+  const commands = useMemo(() => {
+    const ownPerson = ownPersonId ? [{ personId: ownPersonId, displayName: ownPersonId }] : [];
+    return [
+      ...pageCommands(can),
+      ...personCommands(people ?? ownPerson, can),
+      ...reminderCommands(reminders?.items ?? [], can),
+      ...routineCommands(routines?.items ?? []),
+      ...configurationCommands(configurations ?? []),
+    ];
+  }, [can, ownPersonId, people, reminders, routines, configurations]);
+
+  const results = useMemo(() => searchCommands(commands, query), [commands, query]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    document.querySelector(`[data-palette-index="${selectedIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const run = async (command: PaletteCommand) => {
+    setIsOpen(false);
+    const { action } = command;
+    if (action.type === 'navigate') {
+      router.push(action.href);
+      return;
+    }
+
+    if (!confirm(`Execute "${action.suggestedAction}" for ${action.personId} now (bypassing date/time checks)?`)) return;
+    try {
+      const result = await apiClient.forceCheck(undefined, {
+        params: { candidateId: action.candidateId },
+        queries: { bypassDateCheck: true },
+      });
+      queryClient.invalidateQueries({ queryKey: ['reminderCandidates'] });
+      showToast({
+        message: result.reason || `Executed ${action.suggestedAction}`,
+        variant: result.executed ? 'success' : 'info',
+      });
+    } catch {
+      showToast({ message: `Failed to execute ${action.suggestedAction}`, variant: 'error' });
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setSelectedIndex((index) => Math.min(results.length - 1, index + 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setSelectedIndex((index) => Math.max(0, index - 1));
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      const command = results[selectedIndex];
+      if (command) run(command);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      setIsOpen(false);
+    }
+  };
+
+  const trigger = (
+    <button
+      onClick={() => setIsOpen(true)}
+      className="px-3 py-1.5 text-sm text-gray-500 border border-gray-300 rounded-md hover:text-gray-700 hover:bg-gray-50"
+      title="Search and run commands (Ctrl+K or Cmd+K)"
+    >
+      🔍 Search <kbd className="ml-1 text-xs text-gray-400">Ctrl K</kbd>
+    </button>
+  );
+
+  if (!isOpen) return trigger;
+
+  return (
+    <>
+      {trigger}
+      <div className="fixed inset-0 z-50 overflow-y-auto" role="dialog" aria-modal="true" aria-label="Command palette">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75" onClick={() => setIsOpen(false)} aria-hidden="true" />
+        <div className="relative mx-auto mt-24 max-w-xl px-4">
+          <div className="bg-white rounded-lg shadow-xl overflow-hidden" onKeyDown={handleKeyDown}>
+            <input
+              ref={inputRef}
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search pages, people, reminders, routines, settings…"
+              className="w-full border-0 border-b border-gray-200 px-4 py-3 text-sm focus:ring-0"
+              aria-controls="command-palette-results"
+              aria-activedescendant={results[selectedIndex] ? `palette-${results[selectedIndex].id}` : undefined}
+            />
+            <ul id="command-palette-results" role="listbox" className="max-h-96 overflow-y-auto py-2">
+              {results.length === 0 && <li className="px-4 py-6 text-center text-sm text-gray-500">No matches</li>}
+              {results.map((command, index) => (
+                <li
+                  key={command.id}
+                  id={`palette-${command.id}`}
+                  role="option"
+                  aria-selected={index === selectedIndex}
+                  data-palette-index={index}
+                  onMouseEnter={() => setSelectedIndex(index)}
+                  onClick={() => run(command)}
+                  className={`flex items-center justify-between gap-3 px-4 py-2 cursor-pointer text-sm ${
+                    index === selectedIndex ? 'bg-indigo-50 text-indigo-900' : 'text-gray-900'
+                  }`}
+                >
+                  <span className="truncate">
+                    {command.label}
+                    {command.detail && <span className="ml-2 text-xs text-gray-500">{command.detail}</span>}
+                  </span>
+                  <span className="flex-shrink-0 text-xs text-gray-400">{command.group}</span>
+                </li>
+              ))}
+            </ul>
+            <div className="border-t border-gray-200 px-4 py-2 text-xs text-gray-500">
+              ↑↓ to move · Enter to run · Esc to close · On lists: j/k to move, Enter to open, e to execute, d to delete
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,95 @@
+// Line chart of reminder confidence after each simulated day, rendered as SVG
+'use client';
+
+import React, { useState } from 'react';
+import type { ConfidenceCurve } from '@/services/lifeSimulation';
+
+interface ConfidenceCurveChartProps {
+  curves: ConfidenceCurve[];
+  dayLabels: string[];
+  width?: number;
+  height?: number;
+}
+
+const CURVE_COLORS = ['#4f46e5', '#16a34a', '#dc2626', '#ca8a04', '#0891b2', '#c026d3', '#ea580c', '#64748b'];
+const PADDING = { top: 12, right: 16, bottom: 28, left: 40 };
+
+export function ConfidenceCurveChart({ curves, dayLabels, width = 720, height = 280 }: ConfidenceCurveChartProps) {
+  const [hoveredCurve, setHoveredCurve] = useState<string | null>(null);
+
+  if (curves.length === 0 || dayLabels.length === 0) {
+    return <div className="text-sm text-gray-500">No reminders have been learned yet.</div>;
+  }
+
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const x = (day: number) => PADDING.left + (dayLabels.length === 1 ? plotWidth / 2 : (day / (dayLabels.length - 1)) * plotWidth);
+  const y = (confidence: number) => PADDING.top + (1 - confidence) * plotHeight;
+  // Label every day when there are few, otherwise about eight evenly spaced ones
+  const labelEvery = Math.max(1, Math.ceil(dayLabels.length / 8));
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        width="100%"
+        style={{ maxWidth: width, minWidth: 360 }}
+        role="img"
+        aria-label="Confidence of learned reminders after each simulated day"
+      >
+        {[0, 0.25, 0.5, 0.75, 1].map((tick) => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={width - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+            <text x={PADDING.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#6b7280">
+              {Math.round(tick * 100)}%
+            </text>
+          </g>
+        ))}
+        {dayLabels.map((label, day) =>
+          day % labelEvery === 0 ? (
+            <text key={label} x={x(day)} y={height - 8} textAnchor="middle" fontSize="10" fill="#6b7280">
+              {label}
+            </text>
+          ) : null
+        )}
+        {curves.map((curve, index) => {
+          const color = CURVE_COLORS[index % CURVE_COLORS.length];
+          const isDimmed = hoveredCurve !== null && hoveredCurve !== curve.key;
+          return (
+            <g key={curve.key} opacity={isDimmed ? 0.15 : 1}>
+              <polyline
+                points={curve.points.map((p) => `${x(p.day)},${y(p.confidence)}`).join(' ')}
+                fill="none"
+                stroke={color}
+                strokeWidth={2}
+                strokeDasharray={curve.kind === 'routine' ? '6 3' : undefined}
+              />
+              {curve.points.map((p) => (
+                <circle key={p.day} cx={x(p.day)} cy={y(p.confidence)} r={3} fill={color}>
+                  <title>{`${curve.label}: ${(p.confidence * 100).toFixed(1)}% after ${dayLabels[p.day]}`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+      <ul className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+        {curves.map((curve, index) => (
+          <li
+            key={curve.key}
+            className="flex items-center gap-1 cursor-default"
+            onMouseEnter={() => setHoveredCurve(curve.key)}
+            onMouseLeave={() => setHoveredCurve(null)}
+          >
+            <span
+              className="inline-block w-3 h-1 rounded"
+              style={{ backgroundColor: CURVE_COLORS[index % CURVE_COLORS.length] }}
+            />
+            {curve.label}
+            {curve.kind === 'routine' && <span className="text-gray-400">(routine)</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+// Step chart of how a reminder's confidence changed over time, with points linking to their causes
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { apiClient } from '@/services/api';
+import {
+  CONFIDENCE_SOURCE_COLORS,
+  CONFIDENCE_SOURCE_LABELS,
+  describeChange,
+  sourceEventHref,
+  toHistoryPoints,
+} from '@/services/confidenceHistory';
+import { ConfidenceChangeSource } from '@/types';
+
+interface ConfidenceHistoryChartProps {
+  reminderId: string;
+  routineId?: string; // Set for routine reminders
+  compact?: boolean; // Sparkline without axes, legend or change list
+}
+
+const PADDING = { top: 8, right: 12, bottom: 20, left: 36 };
+const RECENT_CHANGES = 5;
+
+export function ConfidenceHistoryChart({ reminderId, routineId, compact = false }: ConfidenceHistoryChartProps) {
+  const { data: history, isLoading, error } = useQuery({
+    queryKey: ['confidenceHistory', routineId ?? null, reminderId],
+    queryFn: () =>
+      routineId
+        ? apiClient.getRoutineReminderConfidenceHistory({ params: { routineId, reminderId } })
+        : apiClient.getConfidenceHistory({ params: { id: reminderId } }),
+  });
+
+  if (isLoading) {
+    return compact ? null : <div className="text-sm text-gray-500">Loading confidence history...</div>;
+  }
+  if (error || !history) {
+    return compact ? null : <div className="text-sm text-red-600">Could not load confidence history.</div>;
+  }
+  if (history.changes.length === 0) {
+    return compact ? null : (
+      <div className="text-sm text-gray-500">No confidence changes have been recorded for this reminder yet.</div>
+    );
+  }
+
+  const width = compact ? 120 : 560;
+  const height = compact ? 32 : 180;
+  const padding = compact ? { top: 3, right: 3, bottom: 3, left: 3 } : PADDING;
+  const points = toHistoryPoints(history);
+  const first = points[0].at;
+  const span = Math.max(1, points[points.length - 1].at - first);
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+  const x = (at: number) => padding.left + ((at - first) / span) * plotWidth;
+  const y = (confidence: number) => padding.top + (1 - confidence) * plotHeight;
+
+  // Confidence holds its value until the next change, so the line steps rather than slopes
+  const path = points
+    .map((point, index) =>
+      index === 0
+        ? `${x(point.at)},${y(point.confidence)}`
+        : `${x(point.at)},${y(points[index - 1].confidence)} ${x(point.at)},${y(point.confidence)}`
+    )
+    .join(' ');
+
+  const chart = (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      width={compact ? width : '100%'}
+      height={compact ? height : undefined}
+      style={compact ? undefined : { maxWidth: width }}
+      role="img"
+      aria-label={`Confidence history, now ${(history.currentConfidence * 100).toFixed(0)}%`}
+    >
+      {!compact &&
+        [0, 0.5, 1].map((tick) => (
+          <g key={tick}>
+            <line x1={padding.left} x2={width - padding.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+            <text x={padding.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#6b7280">
+              {Math.round(tick * 100)}%
+            </text>
+          </g>
+        ))}
+      {!compact && (
+        <>
+          <text x={padding.left} y={height - 6} fontSize="10" fill="#6b7280">
+            {new Date(first).toLocaleDateString()}
+          </text>
+          <text x={width - padding.right} y={height - 6} textAnchor="end" fontSize="10" fill="#6b7280">
+            Now
+          </text>
+        </>
+      )}
+      <polyline points={path} fill="none" stroke="#4f46e5" strokeWidth={compact ? 1.5 : 2} />
+      {!compact &&
+        points.map((point) => {
+          if (!point.change) return null;
+          const href = sourceEventHref(history.personId, point.change);
+          const marker = (
+            <circle
+              cx={x(point.at)}
+              cy={y(point.confidence)}
+              r={href ? 5 : 4}
+              fill={CONFIDENCE_SOURCE_COLORS[point.change.source]}
+              stroke="#fff"
+              strokeWidth={1}
+            >
+              <title>{`${new Date(point.at).toLocaleString()}: ${describeChange(point.change)}`}</title>
+            </circle>
+          );
+          return href ? (
+            <a key={point.change.id} href={href}>
+              {marker}
+            </a>
+          ) : (
+            <g key={point.change.id}>{marker}</g>
+          );
+        })}
+    </svg>
+  );
+
+  if (compact) return chart;
+
+  const usedSources = Object.values(ConfidenceChangeSource).filter((source) =>
+    history.changes.some((change) => change.source === source)
+  );
+  const recentChanges = history.changes.slice(-RECENT_CHANGES).reverse();
+
+  return (
+    <div>
+      {chart}
+      <ul className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+        {usedSources.map((source) => (
+          <li key={source} className="flex items-center gap-1">
+            <span
+              className="inline-block w-2 h-2 rounded-full"
+              style={{ backgroundColor: CONFIDENCE_SOURCE_COLORS[source] }}
+            />
+            {CONFIDENCE_SOURCE_LABELS[source]}
+          </li>
+        ))}
+      </ul>
+      <ul className="mt-3 space-y-1">
+        {recentChanges.map((change) => {
+          const href = sourceEventHref(history.personId, change);
+          return (
+            <li key={change.id} className="flex items-start justify-between gap-3 text-xs">
+              <span className="text-gray-700">
+                {describeChange(change)}
+                {href && (
+                  <Link href={href} className="ml-2 text-indigo-600 hover:text-indigo-800">
+                    View event
+                  </Link>
+                )}
+              </span>
+              <span className="text-gray-500 whitespace-nowrap">{new Date(change.changedAtUtc).toLocaleString()}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
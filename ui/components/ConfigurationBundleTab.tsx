@@ -0,0 +1,324 @@
+// Export configuration categories to a JSON or YAML bundle, and import one after previewing it against the current values
+'use client';
+
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/services/api';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/context/ToastContext';
+import { downloadFile, exportFileName } from '@/services/dataExport';
+import {
+  BUNDLE_MIME_TYPES,
+  IMPORT_STATUS_STYLES,
+  buildBundle,
+  bundleEntries,
+  configurationCategories,
+  parseBundle,
+  serializeBundle,
+  summarizeImport,
+  type BundleFormat,
+  type ConfigurationBundle,
+} from '@/services/configurationBundle';
+import { formatConfigValue } from '@/services/configurationHistory';
+import { ConfigurationImportStatus } from '@/types';
+import type { ConfigurationImportResultDto } from '@/types';
+
+export function ConfigurationBundleTab() {
+  const { isAdmin } = useAuth();
+  return (
+    <div className="space-y-6">
+      <ExportSection />
+      {isAdmin && <ImportSection />}
+    </div>
+  );
+}
+
+function ExportSection() {
+  const [format, setFormat] = useState<BundleFormat>('json');
+  // Tracks the unticked categories, so categories added later start out ticked
+  const [excluded, setExcluded] = useState<string[]>([]);
+
+  const { data: configurations, isLoading } = useQuery({
+    queryKey: ['configurations', 'all'],
+    queryFn: () => apiClient.getConfigurations(),
+  });
+
+  const categories = configurationCategories(configurations ?? []);
+  const selected = categories.filter((c) => !excluded.includes(c));
+
+  const toggle = (category: string) =>
+    setExcluded((prev) => (prev.includes(category) ? prev.filter((c) => c !== category) : [...prev, category]));
+
+  const handleExport = () => {
+    const bundle = buildBundle(configurations ?? [], selected);
+    downloadFile([serializeBundle(bundle, format)], exportFileName('configuration', format), BUNDLE_MIME_TYPES[format]);
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h2 className="text-lg font-medium text-gray-900">Export</h2>
+      <p className="text-sm text-gray-500 mt-1 mb-4">
+        Download the values of the chosen categories to copy them to another installation or keep as a backup.
+      </p>
+      {isLoading ? (
+        <div className="text-sm text-gray-500">Loading...</div>
+      ) : categories.length === 0 ? (
+        <div className="text-sm text-gray-500">There are no configuration values to export yet.</div>
+      ) : (
+        <div className="space-y-4">
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700 mb-2">Categories</legend>
+            <div className="flex flex-wrap gap-4">
+              {categories.map((category) => (
+                <label key={category} className="inline-flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={!excluded.includes(category)}
+                    onChange={() => toggle(category)}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  {category}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <div className="flex items-center gap-3">
+            <label htmlFor="bundleFormat" className="text-sm text-gray-700">
+              Format
+            </label>
+            <select
+              id="bundleFormat"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as BundleFormat)}
+              className="rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="json">JSON</option>
+              <option value="yaml">YAML</option>
+            </select>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={selected.length === 0}
+              className="px-4 py-2 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              ⬇️ Download
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ImportSection() {
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [bundle, setBundle] = useState<ConfigurationBundle | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [results, setResults] = useState<ConfigurationImportResultDto[] | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [fileInputKey, setFileInputKey] = useState(0); // Bumped to clear the chosen file
+
+  const previewMutation = useMutation({
+    mutationFn: (parsed: ConfigurationBundle) =>
+      apiClient.import({
+        entries: bundleEntries(parsed, Object.keys(parsed.categories)),
+        dryRun: true,
+      }),
+    onSuccess: (response) => setResults(response.results),
+    onError: (error: any) => {
+      showToast({
+        message: `Preview failed: ${error.response?.data?.message || error.message}`,
+        variant: 'error',
+      });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: (categories: string[]) =>
+      apiClient.import({ entries: bundleEntries(bundle!, categories), dryRun: false }),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['configurations'] });
+      const counts = summarizeImport(response.results);
+      showToast({
+        message: `Imported configuration: ${counts.Added} added, ${counts.Changed} changed`,
+        variant: 'success',
+      });
+      clear();
+    },
+    onError: (error: any) => {
+      // Rejected bundles come back with the per-entry results saying which values were refused
+      if (error.response?.data?.results) {
+        setResults(error.response.data.results);
+      }
+      showToast({
+        message: `Import failed: ${error.response?.data?.message || 'some values were rejected, nothing was changed'}`,
+        variant: 'error',
+      });
+    },
+  });
+
+  const reset = () => {
+    setFileName(null);
+    setBundle(null);
+    setParseError(null);
+    setExcluded([]);
+    setResults(null);
+  };
+
+  const clear = () => {
+    reset();
+    setFileInputKey((key) => key + 1);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      const parsed = parseBundle(await file.text());
+      setBundle(parsed);
+      previewMutation.mutate(parsed);
+    } catch (error: any) {
+      setParseError(error.message);
+    }
+  };
+
+  const categories = bundle ? Object.keys(bundle.categories) : [];
+  const selected = categories.filter((c) => !excluded.includes(c));
+  const selectedResults = (results ?? []).filter((r) => selected.includes(r.category));
+  const counts = summarizeImport(selectedResults);
+  const canApply = counts.Invalid === 0 && counts.Added + counts.Changed > 0 && !applyMutation.isPending;
+
+  const toggle = (category: string) =>
+    setExcluded((prev) => (prev.includes(category) ? prev.filter((c) => c !== category) : [...prev, category]));
+
+  const handleApply = () => {
+    if (confirm(`Apply ${counts.Added} new and ${counts.Changed} changed values from ${fileName}?`)) {
+      applyMutation.mutate(selected);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h2 className="text-lg font-medium text-gray-900">Import</h2>
+      <p className="text-sm text-gray-500 mt-1 mb-4">
+        Load a JSON or YAML bundle to compare it with the current values. Nothing changes until you apply it, and the
+        whole bundle is applied at once or not at all.
+      </p>
+      <input
+        key={fileInputKey}
+        type="file"
+        accept=".json,.yaml,.yml"
+        aria-label="Configuration bundle file"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        disabled={applyMutation.isPending}
+        className="block w-full text-sm text-gray-700"
+      />
+      {parseError && <p className="mt-2 text-sm text-red-600">Could not read {fileName}: {parseError}</p>}
+      {previewMutation.isPending && <p className="mt-2 text-sm text-gray-500">Comparing with the current values...</p>}
+
+      {bundle && results && (
+        <div className="mt-4 space-y-4">
+          {bundle.exportedAtUtc && (
+            <p className="text-xs text-gray-500">Exported {new Date(bundle.exportedAtUtc).toLocaleString()}</p>
+          )}
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            {(Object.keys(IMPORT_STATUS_STYLES) as ConfigurationImportStatus[]).map((status) => (
+              <span key={status} className={`px-2 py-0.5 rounded-full text-xs font-medium ${IMPORT_STATUS_STYLES[status].className}`}>
+                {counts[status]} {IMPORT_STATUS_STYLES[status].label.toLowerCase()}
+              </span>
+            ))}
+            <label className="inline-flex items-center gap-2 text-gray-700 ml-auto">
+              <input
+                type="checkbox"
+                checked={showUnchanged}
+                onChange={(e) => setShowUnchanged(e.target.checked)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Show unchanged values
+            </label>
+          </div>
+
+          {categories.map((category) => {
+            const rows = (results ?? []).filter(
+              (r) => r.category === category && (showUnchanged || r.status !== ConfigurationImportStatus.Unchanged)
+            );
+            return (
+              <div key={category} className="border border-gray-200 rounded-md">
+                <label className="flex items-center gap-2 px-3 py-2 bg-gray-50 text-sm font-medium text-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={!excluded.includes(category)}
+                    onChange={() => toggle(category)}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  {category}
+                </label>
+                {!excluded.includes(category) &&
+                  (rows.length === 0 ? (
+                    <p className="px-3 py-2 text-xs text-gray-500">No differences from the current values.</p>
+                  ) : (
+                    <table className="min-w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="px-3 py-1 font-medium">Key</th>
+                          <th className="px-3 py-1 font-medium">Current</th>
+                          <th className="px-3 py-1 font-medium">In the bundle</th>
+                          <th className="px-3 py-1 font-medium">Status</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {rows.map((row) => (
+                          <tr key={row.key} className="border-t border-gray-100">
+                            <td className="px-3 py-1 font-medium text-gray-900">{row.key}</td>
+                            <td className="px-3 py-1 break-all">
+                              <code>{formatConfigValue(row.currentValue)}</code>
+                            </td>
+                            <td className="px-3 py-1 break-all">
+                              <code>{formatConfigValue(row.newValue)}</code>
+                            </td>
+                            <td className="px-3 py-1">
+                              <span
+                                className={`px-2 py-0.5 rounded-full font-medium ${IMPORT_STATUS_STYLES[row.status].className}`}
+                              >
+                                {IMPORT_STATUS_STYLES[row.status].label}
+                              </span>
+                              {row.error && <div className="mt-1 text-red-600">{row.error}</div>}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ))}
+              </div>
+            );
+          })}
+
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={!canApply}
+              className="px-4 py-2 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {applyMutation.isPending ? '⏳ Applying...' : '⬆️ Apply import'}
+            </button>
+            <button
+              type="button"
+              onClick={clear}
+              className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              ❌ Cancel
+            </button>
+            {counts.Invalid > 0 && (
+              <span className="text-sm text-red-600">Fix or untick the categories with invalid values to apply.</span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
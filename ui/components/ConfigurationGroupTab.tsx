@@ -0,0 +1,218 @@
+// One configuration tab rendered from the schema: every field validated as typed and saved together
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/services/api';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/context/ToastContext';
+import {
+  type SettingGroup,
+  changedSettings,
+  currentSettingValues,
+  settingId,
+  settingStep,
+  validateSetting,
+} from '@/services/configurationSchema';
+import { hasMatchingCriteria } from '@/services/matchingSimulation';
+import { ConfigurationValueType } from '@/types';
+import type { ConfigurationImportEntryDto, ConfigurationKeySchemaDto } from '@/types';
+import { ConfigurationHistoryPanel } from './ConfigurationHistoryPanel';
+import { MatchingPolicySimulator } from './MatchingPolicySimulator';
+
+interface ConfigurationGroupTabProps {
+  group: SettingGroup;
+}
+
+export function ConfigurationGroupTab({ group }: ConfigurationGroupTabProps) {
+  const { isAdmin } = useAuth();
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const fields = group.sections.flatMap((section) => section.fields);
+  const editableFields = fields.filter((field) => !field.restartRequired);
+  const categories = Array.from(new Set(editableFields.map((field) => field.category)));
+
+  const { data: configs, isLoading } = useQuery({
+    queryKey: ['configurations', 'all'],
+    queryFn: () => apiClient.getConfigurations(),
+  });
+
+  useEffect(() => {
+    if (configs) {
+      setValues(currentSettingValues(group.sections.flatMap((section) => section.fields), configs));
+    }
+  }, [configs, group]);
+
+  const saveMutation = useMutation({
+    // Sent as one import so every value is validated and saved together, or none is
+    mutationFn: (entries: ConfigurationImportEntryDto[]) =>
+      apiClient.import({ entries, dryRun: false }),
+    onSuccess: (_, entries) => {
+      queryClient.invalidateQueries({ queryKey: ['configurations'] });
+      showToast({
+        message: `Saved ${entries.length} ${entries.length === 1 ? 'setting' : 'settings'}`,
+        variant: 'success',
+      });
+    },
+    onError: (error: any) => {
+      const rejected = error.response?.data?.results?.find((r: { error?: string }) => r.error);
+      showToast({
+        message: `Save failed: ${rejected ? `${rejected.key}: ${rejected.error}` : error.response?.data?.message || error.message}`,
+        variant: 'error',
+      });
+    },
+  });
+
+  if (isLoading || fields.some((field) => values[settingId(field)] === undefined)) {
+    return <div className="bg-white shadow rounded-lg p-6 text-center text-gray-500">Loading...</div>;
+  }
+
+  const errors = Object.fromEntries(editableFields.map((field) => [settingId(field), validateSetting(field, values[settingId(field)])]));
+  const hasErrors = Object.values(errors).some((error) => error !== null);
+  const changes = changedSettings(fields, values, configs ?? []);
+  const canEdit = isAdmin && editableFields.length > 0;
+
+  const setValue = (field: ConfigurationKeySchemaDto, value: string) =>
+    setValues((prev) => ({ ...prev, [settingId(field)]: value }));
+
+  const resetAll = () =>
+    setValues((prev) => ({
+      ...prev,
+      ...Object.fromEntries(editableFields.map((field) => [settingId(field), field.defaultValue])),
+    }));
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-semibold text-gray-900">{group.label}</h2>
+        {canEdit && (
+          <div className="space-x-2">
+            <button
+              onClick={resetAll}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              🔄 Reset to Defaults
+            </button>
+            <button
+              onClick={() => saveMutation.mutate(changes)}
+              disabled={changes.length === 0 || hasErrors || saveMutation.isPending}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 inline-flex items-center gap-2"
+            >
+              {saveMutation.isPending ? '⏳ Saving...' : '💾 Save Changes'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-8">
+        {group.sections.map((section) => (
+          <section key={section.title}>
+            <h3 className="text-lg font-medium text-gray-900 mb-4">{section.title}</h3>
+            <div className="space-y-5">
+              {section.fields.map((field) => (
+                <SettingInput
+                  key={settingId(field)}
+                  field={field}
+                  value={values[settingId(field)]}
+                  error={errors[settingId(field)] ?? null}
+                  disabled={!isAdmin || field.restartRequired}
+                  onChange={(value) => setValue(field, value)}
+                />
+              ))}
+            </div>
+          </section>
+        ))}
+      </div>
+
+      {hasMatchingCriteria(fields) && <MatchingPolicySimulator values={values} />}
+
+      {categories.map((category) => (
+        <ConfigurationHistoryPanel
+          key={category}
+          category={category}
+          label={categories.length > 1 ? `${category} history` : undefined}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface SettingInputProps {
+  field: ConfigurationKeySchemaDto;
+  value: string;
+  error: string | null;
+  disabled: boolean;
+  onChange: (value: string) => void;
+}
+
+function SettingInput({ field, value, error, disabled, onChange }: SettingInputProps) {
+  const id = `setting-${field.category}-${field.key}`;
+  const isDefault = value.trim() === field.defaultValue;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3">
+        {field.type === ConfigurationValueType.Boolean ? (
+          <label htmlFor={id} className="inline-flex items-center gap-2 text-sm font-medium text-gray-900">
+            <input
+              type="checkbox"
+              id={id}
+              checked={value === 'true'}
+              disabled={disabled}
+              onChange={(e) => onChange(e.target.checked ? 'true' : 'false')}
+              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            {field.label}
+          </label>
+        ) : (
+          <label htmlFor={id} className="block text-sm font-medium text-gray-900">
+            {field.label}
+            {field.unit && <span className="font-normal text-gray-500"> ({field.unit})</span>}
+          </label>
+        )}
+        {field.restartRequired ? (
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">Restart required</span>
+        ) : (
+          !disabled &&
+          !isDefault && (
+            <button
+              type="button"
+              onClick={() => onChange(field.defaultValue)}
+              className="text-xs text-indigo-600 hover:text-indigo-800"
+            >
+              {field.defaultValue === '' ? 'Clear' : `Reset to ${field.defaultValue}`}
+            </button>
+          )
+        )}
+      </div>
+      {field.type !== ConfigurationValueType.Boolean && (
+        <input
+          type={field.type === ConfigurationValueType.Url ? 'url' : 'number'}
+          id={id}
+          min={field.min ?? undefined}
+          max={field.max ?? undefined}
+          step={field.type === ConfigurationValueType.Url ? undefined : settingStep(field)}
+          value={value}
+          disabled={disabled}
+          aria-invalid={error !== null}
+          placeholder={field.type === ConfigurationValueType.Url ? 'https://' : undefined}
+          onChange={(e) => onChange(e.target.value)}
+          className={`mt-1 block w-full rounded-md shadow-sm sm:text-sm ${
+            error ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : 'border-gray-300 focus:border-indigo-500 focus:ring-indigo-500'
+          }`}
+        />
+      )}
+      {error ? (
+        <p className="mt-1 text-sm text-red-600">{error}</p>
+      ) : (
+        <p className="mt-1 text-sm text-gray-500">
+          {field.description}
+          {field.min !== null && field.min !== undefined && ` Range ${field.min}–${field.max}.`}
+          {field.restartRequired && ` Set ${field.setting} in the server configuration and restart to change it.`}
+        </p>
+      )}
+    </div>
+  );
+}
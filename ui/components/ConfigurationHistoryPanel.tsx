@@ -0,0 +1,208 @@
+// Change history of a configuration category, with a side-by-side diff and rollback to any past change
+'use client';
+
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/services/api';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/context/ToastContext';
+import {
+  CHANGE_TYPE_STYLES,
+  describeRollback,
+  formatConfigValue,
+  historyKeys,
+} from '@/services/configurationHistory';
+import type { ConfigurationChangeDto } from '@/types';
+import { DateTimeDisplay } from './DateTimeDisplay';
+
+interface ConfigurationHistoryPanelProps {
+  category: string;
+  label?: string; // Tells panels apart when a tab shows more than one category
+}
+
+const HISTORY_LIMIT = 100;
+
+export function ConfigurationHistoryPanel({ category, label = 'Change history' }: ConfigurationHistoryPanelProps) {
+  const { isAdmin } = useAuth();
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [keyFilter, setKeyFilter] = useState('');
+  const [comparedChange, setComparedChange] = useState<ConfigurationChangeDto | null>(null);
+
+  const { data: changes, isLoading, error } = useQuery({
+    // Under 'configurations', so every save that refreshes the values refreshes the history too
+    queryKey: ['configurations', category, 'history'],
+    queryFn: () => apiClient.getHistory({ queries: { category, limit: HISTORY_LIMIT } }),
+    enabled: isOpen,
+  });
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery({
+    queryKey: ['configurations', category, 'diff', comparedChange?.id, keyFilter],
+    queryFn: () =>
+      apiClient.getDiff({ params: { changeId: comparedChange!.id }, queries: { key: keyFilter || undefined } }),
+    enabled: !!comparedChange,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (changeId: string) =>
+      apiClient.rollback(undefined, { params: { changeId }, queries: { key: keyFilter || undefined } }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['configurations'] });
+      setComparedChange(null);
+      showToast({
+        message: `Restored ${result.restored.length} ${result.restored.length === 1 ? 'value' : 'values'} in ${result.category}`,
+        variant: 'success',
+      });
+    },
+    onError: (error: any) => {
+      showToast({
+        message: `Rollback failed: ${error.response?.data?.message || error.message}`,
+        variant: 'error',
+      });
+    },
+  });
+
+  const handleRollback = () => {
+    if (!diff) return;
+    const description = describeRollback(diff);
+    if (description && confirm(description)) {
+      rollbackMutation.mutate(diff.changeId);
+    }
+  };
+
+  const visibleChanges = (changes ?? []).filter((c) => !keyFilter || c.key === keyFilter);
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+      >
+        {isOpen ? '▾' : '▸'} {label}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-4">
+          {isLoading ? (
+            <div className="text-sm text-gray-500">Loading history...</div>
+          ) : error ? (
+            <div className="text-sm text-red-600">Could not load the change history.</div>
+          ) : !changes || changes.length === 0 ? (
+            <div className="text-sm text-gray-500">No changes have been recorded for this category yet.</div>
+          ) : (
+            <>
+              <div className="flex items-center gap-2">
+                <label htmlFor={`history-key-${category}`} className="text-sm text-gray-700">
+                  Key
+                </label>
+                <select
+                  id={`history-key-${category}`}
+                  value={keyFilter}
+                  onChange={(e) => setKeyFilter(e.target.value)}
+                  className="rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                >
+                  <option value="">All keys</option>
+                  {historyKeys(changes).map((key) => (
+                    <option key={key} value={key}>
+                      {key}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md max-h-80 overflow-y-auto">
+                {visibleChanges.map((change) => (
+                  <li
+                    key={change.id}
+                    className={`px-3 py-2 text-sm flex items-start justify-between gap-3 ${
+                      comparedChange?.id === change.id ? 'bg-indigo-50' : ''
+                    }`}
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs font-medium ${CHANGE_TYPE_STYLES[change.changeType].className}`}
+                        >
+                          {CHANGE_TYPE_STYLES[change.changeType].label}
+                        </span>
+                        <span className="font-medium text-gray-900">{change.key}</span>
+                      </div>
+                      <div className="mt-1 text-xs text-gray-700 break-all">
+                        {change.previousValue !== null && change.previousValue !== undefined && (
+                          <>
+                            <code className="bg-red-50 px-1 rounded">{formatConfigValue(change.previousValue)}</code>
+                            {' → '}
+                          </>
+                        )}
+                        <code className="bg-green-50 px-1 rounded">{formatConfigValue(change.newValue)}</code>
+                      </div>
+                      <div className="mt-1 text-xs text-gray-500">
+                        {change.changedBy ?? 'Unknown'} · <DateTimeDisplay date={change.changedAtUtc} />
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setComparedChange(comparedChange?.id === change.id ? null : change)}
+                      className="shrink-0 text-xs text-indigo-600 hover:text-indigo-800"
+                    >
+                      {comparedChange?.id === change.id ? 'Close' : 'Compare'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              {comparedChange && (
+                <div className="border border-gray-200 rounded-md p-3">
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="text-sm font-medium text-gray-900">
+                      {keyFilter || category} as of <DateTimeDisplay date={comparedChange.changedAtUtc} /> vs now
+                    </h4>
+                    {isAdmin && (
+                      <button
+                        type="button"
+                        onClick={handleRollback}
+                        disabled={!diff || !diff.entries.some((e) => e.changed) || rollbackMutation.isPending}
+                        className="px-3 py-1 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+                      >
+                        {rollbackMutation.isPending ? '⏳ Restoring...' : '↩️ Restore these values'}
+                      </button>
+                    )}
+                  </div>
+                  {isDiffLoading || !diff ? (
+                    <div className="text-sm text-gray-500">Loading comparison...</div>
+                  ) : (
+                    <table className="min-w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-1 pr-3 font-medium">Key</th>
+                          <th className="py-1 pr-3 font-medium">At that point</th>
+                          <th className="py-1 font-medium">Current</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {diff.entries.map((entry) => (
+                          <tr key={entry.key} className={entry.changed ? 'bg-amber-50' : ''}>
+                            <td className="py-1 pr-3 font-medium text-gray-900">{entry.key}</td>
+                            <td className="py-1 pr-3 break-all">
+                              <code>{formatConfigValue(entry.restoredValue)}</code>
+                            </td>
+                            <td className="py-1 break-all">
+                              <code>{formatConfigValue(entry.currentValue)}</code>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
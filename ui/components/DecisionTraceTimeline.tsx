@@ -0,0 +1,125 @@
+// Recent checks of a reminder, each expandable into the gates it passed, failed or never reached
+'use client';
+
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiClient } from '@/services/api';
+import {
+  CHECK_OUTCOME_STYLES,
+  DECISION_GATE_LABELS,
+  type TimelineRowState,
+  decidingStep,
+  formatStepMeasure,
+  toTimelineRows,
+} from '@/services/decisionTrace';
+import { DecisionStepOutcome } from '@/types';
+import type { ReminderDecisionTraceDto } from '@/types';
+import { DateTimeDisplay } from './DateTimeDisplay';
+
+interface DecisionTraceTimelineProps {
+  reminderId: string;
+}
+
+const STATE_STYLES: Record<TimelineRowState, { marker: string; dot: string; label: string }> = {
+  [DecisionStepOutcome.Passed]: { marker: '✓', dot: 'bg-green-500 text-white', label: 'Passed' },
+  [DecisionStepOutcome.Failed]: { marker: '✕', dot: 'bg-red-500 text-white', label: 'Failed' },
+  [DecisionStepOutcome.Skipped]: { marker: '–', dot: 'bg-gray-300 text-gray-700', label: 'Skipped' },
+  NotReached: { marker: '', dot: 'border border-dashed border-gray-300 bg-white', label: 'Not reached' },
+};
+
+const RECENT_CHECKS = 10;
+
+export function DecisionTraceTimeline({ reminderId }: DecisionTraceTimelineProps) {
+  const [expandedId, setExpandedId] = useState<string | null | undefined>(undefined); // Undefined until the user toggles a check
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['decisionTraces', reminderId],
+    queryFn: () => apiClient.getDecisionTraces({ params: { id: reminderId }, queries: { limit: RECENT_CHECKS } }),
+  });
+
+  if (isLoading) {
+    return <div className="text-sm text-gray-500">Loading decision traces...</div>;
+  }
+  if (error || !data) {
+    return <div className="text-sm text-red-600">Could not load decision traces.</div>;
+  }
+  if (data.traces.length === 0) {
+    return <div className="text-sm text-gray-500">This reminder has not been checked since traces were recorded.</div>;
+  }
+
+  // The newest check starts open
+  const openId = expandedId === undefined ? data.traces[0].id : expandedId;
+
+  return (
+    <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+      {data.traces.map((trace) => (
+        <li key={trace.id}>
+          <button
+            type="button"
+            onClick={() => setExpandedId(openId === trace.id ? null : trace.id)}
+            aria-expanded={openId === trace.id}
+            className="w-full flex items-center justify-between gap-3 px-3 py-2 text-left hover:bg-gray-50"
+          >
+            <span className="flex items-center gap-2 min-w-0">
+              <span
+                className={`px-2 py-0.5 rounded-full text-xs font-medium ${CHECK_OUTCOME_STYLES[trace.outcome].className}`}
+              >
+                {CHECK_OUTCOME_STYLES[trace.outcome].label}
+              </span>
+              <span className="text-sm text-gray-700 truncate">{summarize(trace)}</span>
+            </span>
+            <span className="text-xs text-gray-500 whitespace-nowrap">
+              <DateTimeDisplay date={trace.evaluatedAtUtc} showRelative />
+            </span>
+          </button>
+          {openId === trace.id && <TraceSteps trace={trace} />}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function summarize(trace: ReminderDecisionTraceDto): string {
+  const failed = decidingStep(trace);
+  const suffix = trace.bypassedDateCheck ? ' (Execute now)' : '';
+  return failed
+    ? `Stopped at ${DECISION_GATE_LABELS[failed.gate].toLowerCase()}${suffix}`
+    : `${trace.reason}${suffix}`;
+}
+
+function TraceSteps({ trace }: { trace: ReminderDecisionTraceDto }) {
+  const rows = toTimelineRows(trace.steps);
+  return (
+    <div className="px-3 pb-3">
+      <p className="text-xs text-gray-500 mb-2">
+        Confidence at check: {(trace.confidence * 100).toFixed(0)}% · {trace.reason}
+      </p>
+      <ol className="relative">
+        {rows.map((row, index) => {
+          const style = STATE_STYLES[row.state];
+          const measure = row.step ? formatStepMeasure(row.step) : null;
+          return (
+            <li key={row.gate} className="relative flex gap-3 pb-3 last:pb-0">
+              {index < rows.length - 1 && (
+                <span className="absolute left-2.5 top-5 bottom-0 w-px bg-gray-200" aria-hidden="true" />
+              )}
+              <span
+                className={`relative z-10 flex h-5 w-5 shrink-0 items-center justify-center rounded-full text-xs ${style.dot}`}
+                title={style.label}
+              >
+                {style.marker}
+              </span>
+              <div className={`min-w-0 ${row.step ? '' : 'opacity-50'}`}>
+                <div className="text-sm font-medium text-gray-900">
+                  {DECISION_GATE_LABELS[row.gate]}
+                  <span className="ml-2 text-xs font-normal text-gray-500">{style.label}</span>
+                </div>
+                {row.step?.detail && <div className="text-xs text-gray-600">{row.step.detail}</div>}
+                {measure && <div className="text-xs text-gray-500">{measure}</div>}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+// Learned delay distribution of a routine reminder, with its statistics and the evidence behind it
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { DateTimeDisplay } from './DateTimeDisplay';
+import { binLabel, delayToBinPosition, emaBand, formatDelay } from '@/services/delayHistogram';
+import { eventsOnDayHref } from '@/services/eventLinks';
+import type { RoutineReminderDto } from '@/types';
+
+interface DelayHistogramChartProps {
+  reminder: RoutineReminderDto;
+  personId: string;
+  width?: number;
+  height?: number;
+}
+
+const PADDING = { top: 16, right: 12, bottom: 36, left: 12 };
+const MARKERS = { median: '#4f46e5', p90: '#dc2626', ema: '#16a34a' };
+
+export function DelayHistogramChart({ reminder, personId, width = 560, height = 200 }: DelayHistogramChartProps) {
+  const bins = reminder.delayHistogram;
+  const maxWeight = Math.max(0, ...bins.map((bin) => bin.weight));
+
+  if (bins.length === 0 || maxWeight === 0) {
+    return <div className="text-sm text-gray-500">No delays have been observed for this action yet.</div>;
+  }
+
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const binWidth = plotWidth / bins.length;
+  const x = (position: number) => PADDING.left + position * binWidth;
+  const xForDelay = (seconds: number) => x(delayToBinPosition(seconds, bins));
+  const band = emaBand(reminder.emaDelaySeconds, reminder.emaVarianceSeconds);
+
+  // Median and P90 are estimated from the bins, so they sit on a bin's upper edge
+  const markers = [
+    { key: 'median', label: 'Median', seconds: reminder.medianDelayApproxSeconds, color: MARKERS.median },
+    { key: 'p90', label: 'P90', seconds: reminder.p90DelayApproxSeconds, color: MARKERS.p90 },
+    { key: 'ema', label: 'EMA', seconds: reminder.emaDelaySeconds, color: MARKERS.ema },
+  ].filter((marker): marker is typeof marker & { seconds: number } => marker.seconds !== null && marker.seconds !== undefined);
+
+  const evidence = [...reminder.delayEvidence].reverse();
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        width="100%"
+        style={{ maxWidth: width }}
+        role="img"
+        aria-label={`Delay distribution for ${reminder.suggestedAction}`}
+      >
+        {band && (
+          <rect
+            x={xForDelay(band.low)}
+            y={PADDING.top}
+            width={Math.max(1, xForDelay(band.high) - xForDelay(band.low))}
+            height={plotHeight}
+            fill={MARKERS.ema}
+            opacity={0.1}
+          >
+            <title>{`EMA ± 1 SD: ${formatDelay(band.low)} – ${formatDelay(band.high)}`}</title>
+          </rect>
+        )}
+        {bins.map((bin, index) => {
+          const barHeight = (bin.weight / maxWeight) * plotHeight;
+          return (
+            <g key={bin.upperBoundSeconds}>
+              <rect
+                x={x(index) + 1}
+                y={PADDING.top + plotHeight - barHeight}
+                width={binWidth - 2}
+                height={barHeight}
+                fill="#a5b4fc"
+              >
+                <title>{`${binLabel(bin)}: weight ${bin.weight.toFixed(2)}`}</title>
+              </rect>
+              {/* Alternate labels so they don't overlap on narrow charts */}
+              {index % 2 === 0 && (
+                <text
+                  x={x(index) + binWidth / 2}
+                  y={height - PADDING.bottom + 14}
+                  textAnchor="middle"
+                  fontSize="9"
+                  fill="#6b7280"
+                >
+                  {binLabel(bin)}
+                </text>
+              )}
+            </g>
+          );
+        })}
+        <line
+          x1={PADDING.left}
+          x2={width - PADDING.right}
+          y1={PADDING.top + plotHeight}
+          y2={PADDING.top + plotHeight}
+          stroke="#d1d5db"
+        />
+        {markers.map((marker) => (
+          <line
+            key={marker.key}
+            x1={xForDelay(marker.seconds)}
+            x2={xForDelay(marker.seconds)}
+            y1={PADDING.top - 4}
+            y2={PADDING.top + plotHeight}
+            stroke={marker.color}
+            strokeWidth={2}
+            strokeDasharray={marker.key === 'ema' ? '4 2' : undefined}
+          >
+            <title>{`${marker.label}: ${formatDelay(marker.seconds)}`}</title>
+          </line>
+        ))}
+        {reminder.delayEvidence.map((item, index) => (
+          <circle
+            key={`${item.sourceEventId}-${index}`}
+            cx={xForDelay(item.observedDelaySeconds)}
+            cy={height - PADDING.bottom + 24}
+            r={3}
+            fill={item.isOutlier ? '#dc2626' : '#374151'}
+            opacity={0.4 + 0.6 * Math.min(1, item.confidenceWeight)}
+          >
+            <title>{`${formatDelay(item.observedDelaySeconds)}${item.isOutlier ? ' (outlier)' : ''}`}</title>
+          </circle>
+        ))}
+      </svg>
+
+      <ul className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+        {markers.map((marker) => (
+          <li key={marker.key} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-1 rounded" style={{ backgroundColor: marker.color }} />
+            {marker.label} {formatDelay(marker.seconds)}
+          </li>
+        ))}
+        {band && <li className="text-gray-500">Shaded: EMA ± 1 SD</li>}
+        <li className="text-gray-500">Dots: observed delays, outliers in red</li>
+      </ul>
+
+      {evidence.length > 0 && (
+        <div className="mt-4">
+          <div className="text-sm font-medium text-gray-600 mb-2">Evidence ({evidence.length}, newest first)</div>
+          <ul className="divide-y divide-gray-100 max-h-48 overflow-y-auto">
+            {evidence.map((item, index) => (
+              <li key={`${item.sourceEventId}-${index}`} className="py-1.5 flex items-center justify-between gap-3 text-xs">
+                <span className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">{formatDelay(item.observedDelaySeconds)}</span>
+                  {item.isOutlier && (
+                    <span className="px-1.5 py-0.5 rounded bg-red-100 text-red-700">Outlier</span>
+                  )}
+                  <span className="text-gray-500">weight {item.confidenceWeight.toFixed(2)}</span>
+                </span>
+                <span className="flex items-center gap-2 text-gray-500">
+                  <DateTimeDisplay date={item.eventTimestampUtc} />
+                  <Link
+                    href={eventsOnDayHref(personId, reminder.suggestedAction, item.eventTimestampUtc)}
+                    className="text-indigo-600 hover:text-indigo-800"
+                  >
+                    View event
+                  </Link>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
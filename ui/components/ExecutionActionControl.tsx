@@ -0,0 +1,128 @@
+// Segmented Suggest / Ask / Execute control with a confirmation step before enabling auto-execute
+'use client';
+
+import React, { useState } from 'react';
+import { ExecutionAction } from '@/types';
+
+interface ExecutionActionControlProps {
+  value?: ExecutionAction | null;
+  isSafeToAutoExecute: boolean;
+  onChange: (action: ExecutionAction) => void;
+  disabled?: boolean;
+  autoExecuteWarning?: string;
+}
+
+const SEGMENTS: { action: ExecutionAction; label: string; title: string; activeClassName: string }[] = [
+  {
+    action: ExecutionAction.Suggest,
+    label: 'Suggest',
+    title: 'Only suggest this action',
+    activeClassName: 'bg-gray-700 text-white',
+  },
+  {
+    action: ExecutionAction.Ask,
+    label: 'Ask',
+    title: 'Ask before running this action',
+    activeClassName: 'bg-indigo-600 text-white',
+  },
+  {
+    action: ExecutionAction.Execute,
+    label: 'Execute',
+    title: 'Run this action automatically without asking',
+    activeClassName: 'bg-red-600 text-white',
+  },
+];
+
+const DEFAULT_AUTO_EXECUTE_WARNING =
+  'The assistant will run this action automatically, without asking, whenever confidence is high enough.';
+
+export function ExecutionActionControl({
+  value,
+  isSafeToAutoExecute,
+  onChange,
+  disabled = false,
+  autoExecuteWarning = DEFAULT_AUTO_EXECUTE_WARNING,
+}: ExecutionActionControlProps) {
+  const [confirmingExecute, setConfirmingExecute] = useState(false);
+
+  const handleSelect = (action: ExecutionAction) => {
+    if (action === value) return;
+    if (action === ExecutionAction.Execute) {
+      setConfirmingExecute(true);
+      return;
+    }
+    setConfirmingExecute(false);
+    onChange(action);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div
+          className="inline-flex rounded-md border border-gray-300 overflow-hidden"
+          role="radiogroup"
+          aria-label="Execution action"
+        >
+          {SEGMENTS.map((segment, index) => {
+            const isActive = value === segment.action;
+            return (
+              <button
+                key={segment.action}
+                type="button"
+                role="radio"
+                aria-checked={isActive}
+                onClick={() => handleSelect(segment.action)}
+                disabled={disabled}
+                title={segment.title}
+                className={`px-3 py-1.5 text-sm font-medium focus:outline-none focus:ring-2 focus:ring-inset focus:ring-indigo-500 disabled:opacity-50 ${
+                  index > 0 ? 'border-l border-gray-300' : ''
+                } ${isActive ? segment.activeClassName : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              >
+                {segment.label}
+              </button>
+            );
+          })}
+        </div>
+        <span
+          className={`text-xs ${isSafeToAutoExecute ? 'text-red-700' : 'text-gray-500'}`}
+          title="Whether this reminder is marked as safe to auto-execute"
+        >
+          {isSafeToAutoExecute ? '⚡ Auto-execute enabled' : 'Auto-execute off'}
+        </span>
+      </div>
+
+      {!value && !confirmingExecute && (
+        <p className="text-xs text-gray-500">
+          No action chosen yet - the assistant decides from confidence.
+        </p>
+      )}
+
+      {confirmingExecute && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3" role="alert">
+          <p className="text-sm font-medium text-red-800">Enable auto-execute?</p>
+          <p className="mt-1 text-xs text-red-700">{autoExecuteWarning}</p>
+          <div className="mt-3 flex gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setConfirmingExecute(false);
+                onChange(ExecutionAction.Execute);
+              }}
+              disabled={disabled}
+              className="px-3 py-1 text-xs font-medium text-white bg-red-600 rounded hover:bg-red-700 disabled:opacity-50"
+            >
+              Enable auto-execute
+            </button>
+            <button
+              type="button"
+              onClick={() => setConfirmingExecute(false)}
+              className="px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+// Dropdown of export formats for a list page, with progress while pages are fetched
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useToast } from '@/context/ToastContext';
+import type { ExportOption } from '@/services/dataExport';
+
+interface ExportMenuProps {
+  options: ExportOption[];
+}
+
+export function ExportMenu({ options }: ExportMenuProps) {
+  const { showToast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const runExport = async (option: ExportOption) => {
+    setIsOpen(false);
+    setProgress({ loaded: 0, total: 0 });
+    try {
+      await option.run((loaded, total) => setProgress({ loaded, total }));
+    } catch (error: any) {
+      showToast({
+        message: `Export failed: ${error.response?.data?.message || error.message}`,
+        variant: 'error',
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={progress !== null}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 inline-flex items-center gap-2"
+      >
+        {progress
+          ? `Exporting${progress.total > 0 ? ` ${progress.loaded} / ${progress.total}` : '...'}`
+          : 'Export ▾'}
+      </button>
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 z-20 mt-2 w-64 rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5 py-1"
+        >
+          <div className="px-4 py-2 text-xs text-gray-500">Everything matching the current filters</div>
+          {options.map((option) => (
+            <button
+              key={option.label}
+              role="menuitem"
+              onClick={() => runExport(option)}
+              className="block w-full text-left px-4 py-2 hover:bg-gray-50"
+            >
+              <div className="text-sm font-medium text-gray-900">{option.label}</div>
+              {option.description && <div className="text-xs text-gray-500">{option.description}</div>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
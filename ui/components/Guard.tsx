@@ -0,0 +1,18 @@
+// Renders children only when the signed-in user has a permission
+'use client';
+
+import React, { ReactNode } from 'react';
+import { usePermissions } from '@/hooks/usePermissions';
+import type { Permission } from '@/services/permissions';
+
+interface GuardProps {
+  permission: Permission;
+  personId?: string; // Defaults to the user's own personId
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+export function Guard({ permission, personId, fallback = null, children }: GuardProps) {
+  const { can } = usePermissions();
+  return <>{can(permission, personId) ? children : fallback}</>;
+}
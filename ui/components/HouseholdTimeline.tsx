@@ -0,0 +1,208 @@
+// Swim-lane timeline with one lane per person: events, scheduled reminders and routine observation windows
+'use client';
+
+import React from 'react';
+import { format } from 'date-fns';
+import {
+  getOffsetPercent,
+  getSpanPercent,
+  getTimelineTicks,
+  isInRange,
+  type SharedPresenceWindow,
+  type TimelineRange,
+  type TimelineZoom,
+} from '@/services/timeline';
+import type { ActionEventListDto, ReminderCandidateDto, RoutineDto } from '@/types';
+import { EventType, ReminderCandidateStatus } from '@/types';
+
+export interface TimelineLane {
+  personId: string;
+  displayName: string;
+  events: ActionEventListDto[];
+  reminders: ReminderCandidateDto[];
+  routines: RoutineDto[];
+}
+
+interface HouseholdTimelineProps {
+  lanes: TimelineLane[];
+  range: TimelineRange;
+  zoom: TimelineZoom;
+  presenceWindows: SharedPresenceWindow[];
+  now?: Date;
+}
+
+const TICK_FORMAT: Record<TimelineZoom, string> = {
+  hour: 'HH:mm',
+  day: 'HH:mm',
+  week: 'EEE d MMM',
+};
+
+// Instant presence windows still need to be visible
+const MIN_PRESENCE_WIDTH_PERCENT = 0.6;
+
+const reminderColor = (status: ReminderCandidateStatus) => {
+  switch (status) {
+    case ReminderCandidateStatus.Executed:
+      return 'bg-green-500';
+    case ReminderCandidateStatus.Skipped:
+    case ReminderCandidateStatus.Expired:
+      return 'bg-gray-400';
+    default:
+      return 'bg-indigo-500';
+  }
+};
+
+const formatMoment = (date: Date | string) => format(new Date(date), 'EEE d MMM, HH:mm');
+
+function presenceStyle(window: SharedPresenceWindow, range: TimelineRange): React.CSSProperties | null {
+  const span = getSpanPercent(window.start, new Date(window.end.getTime() + 1), range);
+  if (!span) return null;
+  return { left: `${span.left}%`, width: `${Math.max(span.width, MIN_PRESENCE_WIDTH_PERCENT)}%` };
+}
+
+export function HouseholdTimeline({ lanes, range, zoom, presenceWindows, now = new Date() }: HouseholdTimelineProps) {
+  const ticks = getTimelineTicks(zoom, range);
+  const showNow = isInRange(now, range);
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="min-w-[720px]">
+        {/* Time axis */}
+        <div className="flex border-b border-gray-200">
+          <div className="w-40 flex-shrink-0" />
+          <div className="relative flex-1 h-8">
+            {ticks.map((tick) => (
+              <div
+                key={tick.toISOString()}
+                className="absolute top-0 h-full border-l border-gray-200 pl-1 text-xs text-gray-500 whitespace-nowrap"
+                style={{ left: `${getOffsetPercent(tick, range)}%` }}
+              >
+                {format(tick, TICK_FORMAT[zoom])}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="relative">
+          {/* Shared presence bands run across every lane */}
+          <div className="absolute inset-y-0 left-40 right-0 pointer-events-none">
+            {presenceWindows.map((window) => {
+              const style = presenceStyle(window, range);
+              return style ? (
+                <div
+                  key={`${window.people.join('|')}-${window.start.toISOString()}`}
+                  className="absolute inset-y-0 bg-amber-100 opacity-60"
+                  style={style}
+                />
+              ) : null;
+            })}
+            {showNow && (
+              <div
+                className="absolute inset-y-0 w-px bg-red-500"
+                style={{ left: `${getOffsetPercent(now, range)}%` }}
+                title={`Now: ${formatMoment(now)}`}
+              />
+            )}
+          </div>
+
+          {lanes.map((lane) => (
+            <div key={lane.personId} className="flex border-b border-gray-100">
+              <div className="w-40 flex-shrink-0 py-2 pr-2">
+                <div className="text-sm font-medium text-gray-900 truncate" title={lane.displayName}>
+                  {lane.displayName}
+                </div>
+                <div className="text-xs text-gray-500 truncate">{lane.personId}</div>
+              </div>
+
+              <div className="relative flex-1 h-16">
+                {/* Presence windows this person was part of */}
+                {presenceWindows
+                  .filter((window) => window.people.includes(lane.personId) || window.people.includes(lane.displayName))
+                  .map((window) => {
+                    const style = presenceStyle(window, range);
+                    return style ? (
+                      <div
+                        key={`${window.people.join('|')}-${window.start.toISOString()}`}
+                        className="absolute inset-y-1 rounded border border-amber-400 bg-amber-200 opacity-70"
+                        style={style}
+                        title={`Together: ${window.people.join(', ')} (${formatMoment(window.start)})`}
+                      />
+                    ) : null;
+                  })}
+
+                {/* Routine observation windows */}
+                {lane.routines.map((routine) => {
+                  if (!routine.observationWindowStartUtc || !routine.observationWindowEndsUtc) return null;
+                  const span = getSpanPercent(routine.observationWindowStartUtc, routine.observationWindowEndsUtc, range);
+                  return span ? (
+                    <div
+                      key={routine.id}
+                      className="absolute top-1 h-3 rounded bg-purple-300 border border-purple-500"
+                      style={{ left: `${span.left}%`, width: `${Math.max(span.width, 0.3)}%` }}
+                      title={`Routine "${routine.intentType}" observing ${formatMoment(routine.observationWindowStartUtc)} – ${formatMoment(routine.observationWindowEndsUtc)}`}
+                    />
+                  ) : null;
+                })}
+
+                {/* Events */}
+                {lane.events
+                  .filter((event) => isInRange(event.timestampUtc, range))
+                  .map((event) => (
+                    <div
+                      key={event.id}
+                      className={`absolute top-6 -ml-1.5 h-3 w-3 rounded-full border border-white ${
+                        event.eventType === EventType.StateChange ? 'bg-sky-500' : 'bg-gray-700'
+                      }`}
+                      style={{ left: `${getOffsetPercent(event.timestampUtc, range)}%` }}
+                      title={`${event.actionType} at ${formatMoment(event.timestampUtc)}${
+                        event.context.presentPeople?.length ? ` with ${event.context.presentPeople.join(', ')}` : ''
+                      }`}
+                    />
+                  ))}
+
+                {/* Scheduled reminders */}
+                {lane.reminders
+                  .filter((reminder) => isInRange(reminder.checkAtUtc, range))
+                  .map((reminder) => (
+                    <div
+                      key={reminder.id}
+                      className={`absolute top-11 -ml-1.5 h-3 w-3 rotate-45 ${reminderColor(reminder.status)}`}
+                      style={{ left: `${getOffsetPercent(reminder.checkAtUtc, range)}%` }}
+                      title={`Reminder "${reminder.suggestedAction}" (${reminder.status}, ${Math.round(
+                        reminder.confidence * 100
+                      )}%) at ${formatMoment(reminder.checkAtUtc)}`}
+                    />
+                  ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Legend */}
+        <div className="flex flex-wrap gap-4 pt-3 text-xs text-gray-600">
+          <span className="inline-flex items-center gap-1">
+            <span className="h-3 w-3 rounded-full bg-gray-700" /> Action event
+          </span>
+          <span className="inline-flex items-center gap-1">
+            <span className="h-3 w-3 rounded-full bg-sky-500" /> State change
+          </span>
+          <span className="inline-flex items-center gap-1">
+            <span className="h-3 w-3 rotate-45 bg-indigo-500" /> Scheduled reminder
+          </span>
+          <span className="inline-flex items-center gap-1">
+            <span className="h-3 w-3 rotate-45 bg-green-500" /> Executed reminder
+          </span>
+          <span className="inline-flex items-center gap-1">
+            <span className="h-3 w-5 rounded bg-purple-300 border border-purple-500" /> Routine observation window
+          </span>
+          <span className="inline-flex items-center gap-1">
+            <span className="h-3 w-5 rounded bg-amber-200 border border-amber-400" /> Shared presence
+          </span>
+          <span className="inline-flex items-center gap-1">
+            <span className="h-3 w-px bg-red-500" /> Now
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,27 +4,34 @@
 import React, { ReactNode } from 'react';
 import Link from 'next/link';
 import { useAuth } from '@/context/AuthContext';
-import { useRouter } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
+import { usePermissions } from '@/hooks/usePermissions';
+import { CommandPalette } from './CommandPalette';
+import type { Permission } from '@/services/permissions';
 
 interface LayoutProps {
   children: ReactNode;
   requireAuth?: boolean;
   requireAdmin?: boolean;
+  permission?: Permission; // Checked against the user's own personId
 }
 
-export function Layout({ children, requireAuth = true, requireAdmin = false }: LayoutProps) {
+export function Layout({ children, requireAuth = true, requireAdmin = false, permission }: LayoutProps) {
   const { isAuthenticated, isLoading, isAdmin, logout } = useAuth();
+  const { can } = usePermissions();
   const router = useRouter();
+  const pathname = usePathname();
+  const isAllowed = (!requireAdmin || isAdmin) && (!permission || can(permission));
 
   React.useEffect(() => {
     if (!isLoading) {
       if (requireAuth && !isAuthenticated) {
-        router.push('/login');
-      } else if (requireAdmin && !isAdmin) {
+        router.push(`/login?returnTo=${encodeURIComponent(pathname)}`);
+      } else if (isAuthenticated && !isAllowed) {
         router.push('/dashboard');
       }
     }
-  }, [isLoading, isAuthenticated, isAdmin, requireAuth, requireAdmin, router]);
+  }, [isLoading, isAuthenticated, isAllowed, requireAuth, router, pathname]);
 
   if (isLoading) {
     return (
@@ -38,7 +45,7 @@ export function Layout({ children, requireAuth = true, requireAdmin = false }: L
     return null;
   }
 
-  if (requireAdmin && !isAdmin) {
+  if (isAuthenticated && !isAllowed) {
     return null;
   }
 
@@ -76,6 +83,18 @@ export function Layout({ children, requireAuth = true, requireAdmin = false }: L
                 >
                   Events
                 </Link>
+                <Link
+                  href="/timeline"
+                  className="inline-flex items-center px-1 pt-1 text-sm font-medium text-gray-500 hover:text-gray-700"
+                >
+                  Timeline
+                </Link>
+                <Link
+                  href="/transitions"
+                  className="inline-flex items-center px-1 pt-1 text-sm font-medium text-gray-500 hover:text-gray-700"
+                >
+                  Transitions
+                </Link>
                 <Link
                   href="/history"
                   className="inline-flex items-center px-1 pt-1 text-sm font-medium text-gray-500 hover:text-gray-700"
@@ -88,7 +107,15 @@ export function Layout({ children, requireAuth = true, requireAdmin = false }: L
                 >
                   Configuration
                 </Link>
-                {isAdmin && (
+                {can('sandbox:use') && (
+                  <Link
+                    href="/sandbox"
+                    className="inline-flex items-center px-1 pt-1 text-sm font-medium text-gray-500 hover:text-gray-700"
+                  >
+                    Sandbox
+                  </Link>
+                )}
+                {can('users:manage') && (
                   <Link
                     href="/users"
                     className="inline-flex items-center px-1 pt-1 text-sm font-medium text-gray-500 hover:text-gray-700"
@@ -96,9 +123,18 @@ export function Layout({ children, requireAuth = true, requireAdmin = false }: L
                     Users
                   </Link>
                 )}
+                {can('trash:manage') && (
+                  <Link
+                    href="/trash"
+                    className="inline-flex items-center px-1 pt-1 text-sm font-medium text-gray-500 hover:text-gray-700"
+                  >
+                    Trash
+                  </Link>
+                )}
               </div>
             </div>
-            <div className="flex items-center">
+            <div className="flex items-center gap-2">
+              {isAuthenticated && <CommandPalette />}
               <button
                 onClick={logout}
                 className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900"
@@ -4,8 +4,8 @@
 import React, { useState, useEffect } from 'react';
 
 interface LearningWindowCountdownProps {
-  windowEndsUtc?: string;
-  windowStartUtc?: string;
+  windowEndsUtc?: string | null;
+  windowStartUtc?: string | null;
   className?: string;
 }
 
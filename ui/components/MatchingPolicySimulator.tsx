@@ -0,0 +1,227 @@
+// What-if panel for the Policies tab: replays a person's recent events under the unsaved matching criteria
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import axios from 'axios';
+import { apiClient } from '@/services/api';
+import { usePermissions } from '@/hooks/usePermissions';
+import { criteriaFromSettings, describeCriteriaChanges, eventHasChanges } from '@/services/matchingSimulation';
+import { MatchingSimulationChange } from '@/types';
+import type { MatchingPolicySimulationRequest } from '@/types';
+import { DateTimeDisplay } from './DateTimeDisplay';
+
+const DAY_OPTIONS = [1, 3, 7, 14, 30];
+
+const CHANGE_STYLES: Record<MatchingSimulationChange, string> = {
+  [MatchingSimulationChange.Kept]: 'bg-gray-100 text-gray-700',
+  [MatchingSimulationChange.Gained]: 'bg-green-100 text-green-800',
+  [MatchingSimulationChange.Lost]: 'bg-red-100 text-red-800 line-through',
+};
+
+interface MatchingPolicySimulatorProps {
+  values: Record<string, string>; // Current form values, keyed by settingId
+}
+
+export function MatchingPolicySimulator({ values }: MatchingPolicySimulatorProps) {
+  const { can, ownPersonId } = usePermissions();
+  const [personId, setPersonId] = useState('');
+  const [days, setDays] = useState(7);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  // Users who cannot list everyone simulate their own personId
+  useEffect(() => {
+    if (!can('people:view-all') && ownPersonId) {
+      setPersonId(ownPersonId);
+    }
+  }, [can, ownPersonId]);
+
+  const { data: personIdsData } = useQuery({
+    queryKey: ['personIds'],
+    queryFn: () => apiClient.getPersonIds(),
+    enabled: can('people:view-others'),
+  });
+
+  const simulation = useMutation({
+    mutationFn: (request: MatchingPolicySimulationRequest) => apiClient.simulateMatchingPolicy(request),
+  });
+
+  const criteria = criteriaFromSettings(values);
+  const result = simulation.data;
+  const criteriaChanges = result ? describeCriteriaChanges(result.current, result.proposed) : [];
+  const events = result ? result.events.filter((event) => showUnchanged || eventHasChanges(event)) : [];
+
+  return (
+    <section className="mt-8 border-t border-gray-200 pt-6">
+      <h3 className="text-lg font-medium text-gray-900">What-if simulation</h3>
+      <p className="mt-1 text-sm text-gray-500">
+        Replays a person&apos;s recent events against their scheduled reminders under the saved matching criteria and
+        the values above, before you save. Nothing is changed.
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-end gap-4">
+        <div>
+          <label htmlFor="simulation-person" className="block text-sm font-medium text-gray-700">
+            Person ID
+          </label>
+          {can('people:view-others') ? (
+            <select
+              id="simulation-person"
+              value={personId}
+              onChange={(e) => setPersonId(e.target.value)}
+              className="mt-1 block w-56 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            >
+              <option value="">Select a person</option>
+              {personIdsData?.map((p) => (
+                <option key={p.personId} value={p.personId}>
+                  {p.displayName} ({p.personId})
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type="text"
+              id="simulation-person"
+              value={personId}
+              disabled
+              title="Your personId is fixed to your username"
+              className="mt-1 block w-56 rounded-md border-gray-300 bg-gray-100 shadow-sm sm:text-sm"
+            />
+          )}
+        </div>
+        <div>
+          <label htmlFor="simulation-days" className="block text-sm font-medium text-gray-700">
+            Events from the last
+          </label>
+          <select
+            id="simulation-days"
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          >
+            {DAY_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option} {option === 1 ? 'day' : 'days'}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={() => criteria && simulation.mutate({ personId, days, criteria })}
+          disabled={!personId || !criteria || simulation.isPending}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {simulation.isPending ? '⏳ Simulating...' : '▶️ Run Simulation'}
+        </button>
+      </div>
+      {!criteria && <p className="mt-2 text-sm text-red-600">Enter a valid time offset to run the simulation.</p>}
+      {simulation.isError && (
+        <p className="mt-2 text-sm text-red-600">
+          Simulation failed:{' '}
+          {(axios.isAxiosError<{ message?: string }>(simulation.error) && simulation.error.response?.data?.message) ||
+            simulation.error.message}
+        </p>
+      )}
+
+      {result && (
+        <div className="mt-6">
+          {criteriaChanges.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              The values above match the saved criteria, so every match is kept. Change a criterion and run again.
+            </p>
+          ) : (
+            <p className="text-sm text-gray-700">Comparing: {criteriaChanges.join(', ')}</p>
+          )}
+
+          <dl className="mt-4 grid grid-cols-2 gap-4 sm:grid-cols-5">
+            <SummaryStat label="Events replayed" value={result.eventCount} />
+            <SummaryStat label="Events changed" value={result.changedEventCount} />
+            <SummaryStat label="Matches gained" value={result.gainedMatches} className="text-green-700" prefix="+" />
+            <SummaryStat label="Matches lost" value={result.lostMatches} className="text-red-700" prefix="−" />
+            <SummaryStat label="Matches kept" value={result.keptMatches} />
+          </dl>
+          {result.truncated && (
+            <p className="mt-2 text-sm text-amber-700">
+              Only the newest {result.eventCount} events were replayed. Pick a shorter period to cover all of them.
+            </p>
+          )}
+
+          <div className="mt-4 flex items-center justify-between">
+            <h4 className="text-sm font-medium text-gray-900">Per event</h4>
+            <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={showUnchanged}
+                onChange={(e) => setShowUnchanged(e.target.checked)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Show unchanged events
+            </label>
+          </div>
+          {events.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">
+              {result.eventCount === 0 ? 'No events in this period.' : 'No event matches differently.'}
+            </p>
+          ) : (
+            <table className="mt-2 min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Time</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Action</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Matches</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Reminders</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {events.map((event) => (
+                  <tr key={event.eventId}>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-700">
+                      <DateTimeDisplay date={event.timestampUtc} />
+                    </td>
+                    <td className="px-3 py-2 text-gray-900">{event.actionType}</td>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-700">
+                      {event.matchedBefore} → {event.matchedAfter}
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="flex flex-wrap gap-1">
+                        {event.reminders.map((reminder) => (
+                          <span
+                            key={reminder.reminderId}
+                            title={`${reminder.change} · confidence ${Math.round(reminder.confidence * 100)}%`}
+                            className={`px-2 py-0.5 rounded-full text-xs font-medium ${CHANGE_STYLES[reminder.change]}`}
+                          >
+                            {reminder.suggestedAction}
+                          </span>
+                        ))}
+                        {event.reminders.length === 0 && <span className="text-gray-400">None</span>}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
+
+interface SummaryStatProps {
+  label: string;
+  value: number;
+  className?: string;
+  prefix?: string;
+}
+
+function SummaryStat({ label, value, className = 'text-gray-900', prefix = '' }: SummaryStatProps) {
+  return (
+    <div className="rounded-md bg-gray-50 px-4 py-3">
+      <dt className="text-xs font-medium text-gray-500">{label}</dt>
+      <dd className={`mt-1 text-2xl font-semibold ${className}`}>
+        {value > 0 ? prefix : ''}
+        {value}
+      </dd>
+    </div>
+  );
+}
@@ -2,11 +2,11 @@
 
 import React, { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiService } from '@/services/api';
+import { apiClient } from '@/services/api';
 import { DateTimeDisplay } from './DateTimeDisplay';
 import { ConfidenceBadge } from './ConfidenceBadge';
 import { StatusBadge } from './StatusBadge';
-import type { ReminderCandidateDto, ActionEventListDto } from '@/types';
+import type { ReminderCandidateDto, ActionEventListDto, MatchingCriteria } from '@/types';
 
 interface MatchingRemindersModalProps {
   event: ActionEventListDto;
@@ -14,16 +14,6 @@ interface MatchingRemindersModalProps {
   onClose: () => void;
 }
 
-interface MatchingCriteria {
-  matchByActionType: boolean;
-  matchByDayType: boolean;
-  matchByPeoplePresent: boolean;
-  matchByStateSignals: boolean;
-  matchByTimeBucket: boolean;
-  matchByLocation: boolean;
-  timeOffsetMinutes: number;
-}
-
 const DEFAULT_CRITERIA: MatchingCriteria = {
   matchByActionType: true,
   matchByDayType: true,
@@ -49,7 +39,7 @@ export function MatchingRemindersModal({ event, isOpen, onClose }: MatchingRemin
   // Load default criteria from Policies configuration
   const { data: policies } = useQuery({
     queryKey: ['configurations', 'MatchingPolicy'],
-    queryFn: () => apiService.getConfigurations('MatchingPolicy'),
+    queryFn: () => apiClient.getConfigurations({ queries: { category: 'MatchingPolicy' } }),
     enabled: isOpen,
   });
 
@@ -75,7 +65,7 @@ export function MatchingRemindersModal({ event, isOpen, onClose }: MatchingRemin
   // Get related reminders by SourceEventId (primary query)
   const { data: relatedData, isLoading: isLoadingRelated } = useQuery({
     queryKey: ['relatedReminders', event.id],
-    queryFn: () => apiService.getRelatedReminders(event.id),
+    queryFn: () => apiClient.getRelatedReminders({ params: { id: event.id } }),
     enabled: isOpen && !showMatching,
     refetchOnWindowFocus: false,
   });
@@ -83,7 +73,7 @@ export function MatchingRemindersModal({ event, isOpen, onClose }: MatchingRemin
   // Get matching reminders using criteria (secondary query, for matching criteria modal)
   const { data: matchingData, isLoading: isLoadingMatching, refetch } = useQuery({
     queryKey: ['matchingReminders', event.id, criteria],
-    queryFn: () => apiService.getMatchingReminders(event.id, criteria),
+    queryFn: () => apiClient.getMatchingReminders({ params: { id: event.id }, queries: criteria }),
     enabled: isOpen && showMatching, // Only fetch when explicitly requested
     refetchOnWindowFocus: false,
   });
@@ -93,7 +83,8 @@ export function MatchingRemindersModal({ event, isOpen, onClose }: MatchingRemin
   const isLoading = showMatching ? isLoadingMatching : isLoadingRelated;
 
   const executeNowMutation = useMutation({
-    mutationFn: (candidateId: string) => apiService.executeReminderNow(candidateId),
+    mutationFn: (candidateId: string) =>
+      apiClient.forceCheck(undefined, { params: { candidateId }, queries: { bypassDateCheck: true } }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['matchingReminders'] });
       queryClient.invalidateQueries({ queryKey: ['relatedReminders', event.id] });
@@ -0,0 +1,272 @@
+// Visual builder for reminder occurrence patterns with a preview of the scheduler's next runs
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  DAY_NAMES,
+  getUpcomingExecutionTimes,
+  parseOccurrencePattern,
+  type OccurrenceFrequency,
+} from '@/services/occurrencePattern';
+
+type FrequencyType = 'none' | OccurrenceFrequency | 'custom';
+
+interface OccurrencePatternBuilderProps {
+  initialValue?: string | null;
+  // Previous run, which the scheduler counts from when the pattern changes
+  lastExecutionTime?: string | null;
+  previewCount?: number;
+  onChange: (occurrence: string, isValid: boolean) => void;
+}
+
+const FREQUENCY_OPTIONS: { value: FrequencyType; label: string; description: string }[] = [
+  { value: 'none', label: 'No repeat', description: 'Runs once' },
+  { value: 'daily', label: 'Daily', description: 'Every day' },
+  { value: 'weekdays', label: 'Weekdays', description: 'Mon - Fri' },
+  { value: 'weekends', label: 'Weekends', description: 'Sat - Sun' },
+  { value: 'everyXDays', label: 'Every X Days', description: 'Custom interval' },
+  { value: 'weekly', label: 'Weekly', description: 'Select days' },
+  { value: 'custom', label: 'Custom', description: 'Free text' },
+];
+
+const SHORT_DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// The scheduler only understands full day names
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+function getInitialState(initialValue: string | null | undefined) {
+  const state = {
+    frequencyType: 'none' as FrequencyType,
+    time: '09:00',
+    everyXDays: 1,
+    selectedDays: [] as number[],
+    customText: '',
+  };
+  if (!initialValue?.trim()) return state;
+
+  const parsed = parseOccurrencePattern(initialValue);
+  if (!parsed.ok || parsed.value.isFallback) {
+    return { ...state, frequencyType: 'custom' as FrequencyType, customText: initialValue };
+  }
+
+  return {
+    ...state,
+    frequencyType: parsed.value.frequency,
+    time: parsed.value.time,
+    everyXDays: parsed.value.intervalDays ?? 1,
+    selectedDays: parsed.value.days ?? [],
+  };
+}
+
+export function OccurrencePatternBuilder({
+  initialValue,
+  lastExecutionTime,
+  previewCount = 10,
+  onChange,
+}: OccurrencePatternBuilderProps) {
+  const [initialState] = useState(() => getInitialState(initialValue));
+  const [frequencyType, setFrequencyType] = useState<FrequencyType>(initialState.frequencyType);
+  const [time, setTime] = useState(initialState.time);
+  const [everyXDays, setEveryXDays] = useState(initialState.everyXDays);
+  const [selectedDays, setSelectedDays] = useState<number[]>(initialState.selectedDays);
+  const [customText, setCustomText] = useState(initialState.customText);
+
+  const timeZone = useMemo(() => Intl.DateTimeFormat().resolvedOptions().timeZone, []);
+
+  const toggleDay = (day: number) => {
+    setSelectedDays((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b)
+    );
+  };
+
+  const occurrence = (() => {
+    const timeStr = ` at ${time}`;
+    switch (frequencyType) {
+      case 'none':
+        return '';
+      case 'daily':
+        return `daily${timeStr}`;
+      case 'weekdays':
+        return `weekdays${timeStr}`;
+      case 'weekends':
+        return `weekends${timeStr}`;
+      case 'everyXDays':
+        return `every ${everyXDays} day${everyXDays !== 1 ? 's' : ''}${timeStr}`;
+      case 'weekly':
+        return selectedDays.length > 0
+          ? `every ${selectedDays.map((d) => capitalize(DAY_NAMES[d])).join(', ')}${timeStr}`
+          : '';
+      case 'custom':
+        return customText.trim();
+    }
+  })();
+
+  const validation = (() => {
+    if (frequencyType === 'none') return { error: null, warning: null };
+    if (frequencyType === 'weekly' && selectedDays.length === 0) {
+      return { error: 'Select at least one day.', warning: null };
+    }
+    if (frequencyType !== 'custom' && !time) {
+      return { error: 'Choose a time.', warning: null };
+    }
+    const parsed = parseOccurrencePattern(occurrence);
+    return parsed.ok ? { error: null, warning: parsed.warning ?? null } : { error: parsed.error, warning: null };
+  })();
+
+  const isValid = validation.error === null;
+
+  const upcomingRuns = useMemo(
+    () =>
+      isValid && occurrence
+        ? getUpcomingExecutionTimes(occurrence, new Date(), previewCount, lastExecutionTime ? new Date(lastExecutionTime) : null)
+        : [],
+    [isValid, occurrence, previewCount, lastExecutionTime]
+  );
+
+  // Report through a ref so parents can pass inline callbacks without re-triggering this effect
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  useEffect(() => {
+    onChangeRef.current(occurrence, isValid);
+  }, [occurrence, isValid]);
+
+  return (
+    <div className="space-y-6">
+      {/* Frequency Type Selection */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">
+          Frequency
+          <span className="ml-1 text-gray-400" title="How often should this reminder occur?">ℹ️</span>
+        </label>
+        <div className="grid grid-cols-2 gap-3">
+          {FREQUENCY_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setFrequencyType(option.value)}
+              aria-pressed={frequencyType === option.value}
+              className={`px-4 py-3 rounded-lg border-2 text-left transition-all ${
+                frequencyType === option.value
+                  ? 'border-indigo-500 bg-indigo-50 text-indigo-900'
+                  : 'border-gray-200 bg-white text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <div className="font-medium">{option.label}</div>
+              <div className="text-xs text-gray-500 mt-1">{option.description}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Every X Days Input */}
+      {frequencyType === 'everyXDays' && (
+        <div>
+          <label htmlFor="everyXDays" className="block text-sm font-medium text-gray-700 mb-2">
+            Repeat every X days
+          </label>
+          <div className="flex items-center gap-3">
+            <input
+              type="number"
+              id="everyXDays"
+              min="1"
+              max="365"
+              value={everyXDays}
+              onChange={(e) => setEveryXDays(Math.min(365, Math.max(1, parseInt(e.target.value) || 1)))}
+              className="block w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+            <span className="text-sm text-gray-600">day{everyXDays !== 1 ? 's' : ''}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Weekly Day Selection */}
+      {frequencyType === 'weekly' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-3">
+            Select Days
+            <span className="ml-1 text-gray-400" title="Choose which days of the week">ℹ️</span>
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {SHORT_DAY_NAMES.map((day, index) => (
+              <button
+                key={index}
+                type="button"
+                onClick={() => toggleDay(index)}
+                aria-pressed={selectedDays.includes(index)}
+                className={`px-4 py-2 rounded-lg border-2 text-sm font-medium transition-all ${
+                  selectedDays.includes(index)
+                    ? 'border-indigo-500 bg-indigo-500 text-white'
+                    : 'border-gray-200 bg-white text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                {day}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Custom Text Input */}
+      {frequencyType === 'custom' && (
+        <div>
+          <label htmlFor="customText" className="block text-sm font-medium text-gray-700 mb-2">
+            Custom Pattern
+            <span className="ml-1 text-gray-400" title="Free text in the scheduler's pattern language">ℹ️</span>
+          </label>
+          <input
+            type="text"
+            id="customText"
+            value={customText}
+            onChange={(e) => setCustomText(e.target.value)}
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            placeholder="e.g., every Tuesday, Thursday at 18:00"
+          />
+        </div>
+      )}
+
+      {/* Time Selection */}
+      {frequencyType !== 'custom' && frequencyType !== 'none' && (
+        <div>
+          <label htmlFor="time" className="block text-sm font-medium text-gray-700 mb-2">
+            Time (UTC)
+            <span className="ml-1 text-gray-400" title="The scheduler reads pattern times as UTC">ℹ️</span>
+          </label>
+          <input
+            type="time"
+            id="time"
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+            className="block w-full max-w-xs rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+        </div>
+      )}
+
+      {/* Preview */}
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+        <div>
+          <div className="text-xs font-medium text-gray-500 mb-1">Pattern:</div>
+          <div className="text-sm font-medium text-gray-900">{occurrence || 'No pattern set'}</div>
+        </div>
+
+        {validation.error && <p className="text-sm text-red-600">{validation.error}</p>}
+        {validation.warning && <p className="text-sm text-yellow-700">⚠️ {validation.warning}</p>}
+
+        {upcomingRuns.length > 0 && (
+          <div>
+            <div className="text-xs font-medium text-gray-500 mb-1">
+              Next {upcomingRuns.length} runs ({timeZone}):
+            </div>
+            <ol className="text-sm text-gray-700 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-0.5">
+              {upcomingRuns.map((run) => (
+                <li key={run.toISOString()} title={run.toISOString()}>
+                  {format(run, 'EEE d MMM yyyy, HH:mm')}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+// Observed weekday/time spread of a reminder candidate, its inferred pattern and the evidence still missing
+'use client';
+
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiClient } from '@/services/api';
+import {
+  buildHeatmap,
+  evidenceRequirements,
+  TIME_BUCKETS,
+  WEEKDAY_LABELS,
+  type EvidenceRequirement,
+} from '@/services/patternInference';
+import { PatternInferenceStatus } from '@/types';
+import type { ReminderCandidateDto } from '@/types';
+
+interface PatternInferencePanelProps {
+  reminder: ReminderCandidateDto;
+}
+
+const STATUS_STYLES: Record<PatternInferenceStatus, string> = {
+  [PatternInferenceStatus.Unknown]: 'bg-gray-100 text-gray-700',
+  [PatternInferenceStatus.Flexible]: 'bg-yellow-100 text-yellow-800',
+  [PatternInferenceStatus.Daily]: 'bg-green-100 text-green-800',
+  [PatternInferenceStatus.Weekly]: 'bg-blue-100 text-blue-800',
+};
+
+function describePattern(reminder: ReminderCandidateDto): string {
+  const around = reminder.timeWindowCenter
+    ? ` around ${reminder.timeWindowCenter.slice(0, 5)} UTC (±${reminder.timeWindowSizeMinutes ?? 0} min)`
+    : '';
+  switch (reminder.patternInferenceStatus) {
+    case PatternInferenceStatus.Daily:
+      return `Every day${around}`;
+    case PatternInferenceStatus.Weekly:
+      return reminder.inferredWeekday != null
+        ? `Every ${WEEKDAY_LABELS[reminder.inferredWeekday]}${around}`
+        : `Weekly${around}`;
+    case PatternInferenceStatus.Flexible:
+      return 'Seen often enough, but not yet on a daily or weekly rhythm';
+    default:
+      return 'Not enough evidence for a pattern yet';
+  }
+}
+
+function RequirementList({ title, requirements }: { title: string; requirements: EvidenceRequirement[] }) {
+  return (
+    <div>
+      <div className="text-xs font-medium text-gray-600 mb-1">{title}</div>
+      <ul className="space-y-1">
+        {requirements.map((requirement) => (
+          <li key={requirement.label} className="flex items-center justify-between gap-3 text-xs">
+            <span className={requirement.met ? 'text-green-700' : 'text-gray-700'}>
+              {requirement.met ? '✓' : '○'} {requirement.label}
+            </span>
+            <span className="text-gray-500">
+              {requirement.have} / {requirement.need}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function PatternInferencePanel({ reminder }: PatternInferencePanelProps) {
+  const { data: policy } = useQuery({
+    queryKey: ['patternInferencePolicy'],
+    queryFn: () => apiClient.getPatternInferencePolicy(),
+  });
+
+  const status = reminder.patternInferenceStatus ?? PatternInferenceStatus.Unknown;
+  const heatmap = buildHeatmap(reminder);
+  const dayTypes = Object.entries(reminder.observedDayTypeHistogram ?? {});
+  const requirements = policy ? evidenceRequirements(reminder, policy) : null;
+  const cellStyle = (value: number) => ({
+    backgroundColor: `rgba(79, 70, 229, ${heatmap.max > 0 ? (0.08 + 0.82 * value / heatmap.max).toFixed(2) : 0})`,
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[status]}`}>{status}</span>
+        <span className="text-sm text-gray-900">{describePattern(reminder)}</span>
+      </div>
+
+      {heatmap.max === 0 ? (
+        <div className="text-sm text-gray-500">No days have been observed for this reminder yet.</div>
+      ) : (
+        <div>
+          <table className="text-xs">
+            <thead>
+              <tr>
+                <th />
+                {(heatmap.hasTimeBuckets ? TIME_BUCKETS : ['events']).map((bucket) => (
+                  <th key={bucket} className="px-1 pb-1 font-normal text-gray-500 capitalize">
+                    {bucket}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {heatmap.rows.map((row) => (
+                <tr key={row.weekday}>
+                  <td className="pr-2 text-gray-600">{WEEKDAY_LABELS[row.weekday].slice(0, 3)}</td>
+                  {(heatmap.hasTimeBuckets ? row.cells : [row.total]).map((value, index) => (
+                    <td key={index} className="p-0.5">
+                      <div
+                        className="w-16 h-6 rounded flex items-center justify-center text-gray-900"
+                        style={value > 0 ? cellStyle(value) : undefined}
+                        title={`${WEEKDAY_LABELS[row.weekday]}: ${row.total} event${row.total === 1 ? '' : 's'}`}
+                      >
+                        {value > 0 ? (Number.isInteger(value) ? value : value.toFixed(1)) : ''}
+                      </div>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-1 text-xs text-gray-500">
+            {heatmap.hasTimeBuckets
+              ? 'Weekdays and times of day are counted separately, so each cell is an estimate: the weekday count split by the overall time-of-day mix.'
+              : 'No time of day was recorded for these events.'}
+          </p>
+        </div>
+      )}
+
+      {dayTypes.length > 0 && (
+        <div className="flex flex-wrap gap-2 text-xs">
+          {dayTypes.map(([dayType, count]) => (
+            <span key={dayType} className="px-2 py-0.5 rounded bg-gray-100 text-gray-700">
+              {dayType}: {count}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {requirements && (
+        <div className="space-y-3">
+          <RequirementList title="Before any pattern" requirements={[requirements.prerequisite]} />
+          {status !== PatternInferenceStatus.Daily && <RequirementList title="For daily" requirements={requirements.daily} />}
+          {status !== PatternInferenceStatus.Weekly && (
+            <RequirementList title="For weekly" requirements={requirements.weekly} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
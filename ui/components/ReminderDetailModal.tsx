@@ -4,13 +4,26 @@ import React, { useEffect, useState } from 'react';
 import { ConfidenceBadge } from './ConfidenceBadge';
 import { StatusBadge } from './StatusBadge';
 import { DateTimeDisplay } from './DateTimeDisplay';
-import type { ReminderCandidateDto } from '@/types';
+import { ReminderFeedbackControls } from './ReminderFeedbackControls';
+import { ExecutionActionControl } from './ExecutionActionControl';
+import { SignalProfileChart } from './SignalProfileChart';
+import { SignalSimilarityExplainer } from './SignalSimilarityExplainer';
+import { ConfidenceHistoryChart } from './ConfidenceHistoryChart';
+import { DecisionTraceTimeline } from './DecisionTraceTimeline';
+import { DelayHistogramChart } from './DelayHistogramChart';
+import { PatternInferencePanel } from './PatternInferencePanel';
+import type { ExecutionAction, ReminderCandidateDto, RoutineReminderDto } from '@/types';
 
 interface ReminderDetailModalProps {
   reminder: ReminderCandidateDto | null;
   isOpen: boolean;
   onClose: () => void;
   confidenceThreshold?: number;
+  enableFeedback?: boolean;
+  onExecutionActionChange?: (action: ExecutionAction) => void;
+  isExecutionActionPending?: boolean;
+  autoExecuteWarning?: string;
+  routineReminder?: RoutineReminderDto; // Set when the reminder is a routine reminder, for its history and delays
 }
 
 interface Condition {
@@ -25,7 +38,12 @@ export function ReminderDetailModal({
   reminder, 
   isOpen, 
   onClose,
-  confidenceThreshold = 0.7 
+  confidenceThreshold = 0.7,
+  enableFeedback = false,
+  onExecutionActionChange,
+  isExecutionActionPending = false,
+  autoExecuteWarning,
+  routineReminder,
 }: ReminderDetailModalProps) {
   const [showAdvanced, setShowAdvanced] = useState(false);
 
@@ -223,6 +241,76 @@ export function ReminderDetailModal({
               </div>
             </div>
 
+            {/* Confidence History */}
+            <div className="mb-6 border-t border-gray-200 pt-6">
+              <h4 className="text-lg font-medium text-gray-900 mb-2">Confidence History</h4>
+              <p className="text-xs text-gray-500 mb-3">
+                How the probability got here. Hover a point for its cause; points from events link to the event.
+              </p>
+              <ConfidenceHistoryChart reminderId={reminder.id} routineId={routineReminder?.routineId} />
+            </div>
+
+            {/* Decision Trace */}
+            {!routineReminder && (
+              <div className="mb-6 border-t border-gray-200 pt-6">
+                <h4 className="text-lg font-medium text-gray-900 mb-2">Decision Trace</h4>
+                <p className="text-xs text-gray-500 mb-3">
+                  Why recent checks executed, skipped or deferred this reminder, gate by gate, with the thresholds each one used.
+                </p>
+                <DecisionTraceTimeline reminderId={reminder.id} />
+              </div>
+            )}
+
+            {/* Delay Distribution */}
+            {routineReminder && (
+              <div className="mb-6 border-t border-gray-200 pt-6">
+                <h4 className="text-lg font-medium text-gray-900 mb-2">Delay Distribution</h4>
+                <p className="text-xs text-gray-500 mb-3">
+                  How long after the routine starts this action usually happens. Older observations count for less.
+                </p>
+                <DelayHistogramChart reminder={routineReminder} personId={reminder.personId} />
+              </div>
+            )}
+
+            {/* Pattern Inference */}
+            {reminder.patternInferenceStatus && (
+              <div className="mb-6 border-t border-gray-200 pt-6">
+                <h4 className="text-lg font-medium text-gray-900 mb-2">Pattern Inference</h4>
+                <p className="text-xs text-gray-500 mb-3">
+                  When this action has been seen, and what is still needed before it is treated as daily or weekly.
+                </p>
+                <PatternInferencePanel reminder={reminder} />
+              </div>
+            )}
+
+            {/* Feedback */}
+            {enableFeedback && (
+              <div className="mb-6 border-t border-gray-200 pt-6">
+                <h4 className="text-lg font-medium text-gray-900 mb-2">Feedback</h4>
+                <p className="text-xs text-gray-500 mb-3">
+                  Tell the assistant whether this reminder was right, wrong or mistimed. Feedback adjusts its confidence.
+                </p>
+                <ReminderFeedbackControls candidate={reminder} />
+              </div>
+            )}
+
+            {/* Execution Action */}
+            {onExecutionActionChange && (
+              <div className="mb-6 border-t border-gray-200 pt-6">
+                <h4 className="text-lg font-medium text-gray-900 mb-2">Execution</h4>
+                <p className="text-xs text-gray-500 mb-3">
+                  Choose whether the assistant only suggests this action, asks before running it, or runs it automatically.
+                </p>
+                <ExecutionActionControl
+                  value={reminder.executionAction}
+                  isSafeToAutoExecute={reminder.isSafeToAutoExecute}
+                  onChange={onExecutionActionChange}
+                  disabled={isExecutionActionPending}
+                  autoExecuteWarning={autoExecuteWarning}
+                />
+              </div>
+            )}
+
             {/* Section 2: Conditions */}
             {hasConditions && (
               <div className="mb-6 border-t border-gray-200 pt-6">
@@ -322,29 +410,7 @@ export function ReminderDetailModal({
                         <div className="text-xs text-gray-500 mb-2">
                           Learned sensor context for this reminder. Events with similar signals will match.
                         </div>
-                        {Object.entries(reminder.signalProfile.signals)
-                          .sort((a, b) => b[1].weight - a[1].weight) // Sort by weight descending
-                          .slice(0, 5) // Show top 5
-                          .map(([sensorId, entry]) => (
-                            <div key={sensorId} className="bg-blue-50 border border-blue-200 rounded-lg p-2">
-                              <div className="flex items-center justify-between">
-                                <span className="text-sm font-medium text-gray-900">{sensorId}</span>
-                                <div className="flex items-center gap-3 text-xs">
-                                  <span className="text-gray-600">
-                                    Value: <span className="font-mono">{entry.normalizedValue.toFixed(3)}</span>
-                                  </span>
-                                  <span className="text-gray-600">
-                                    Weight: <span className="font-mono">{(entry.weight * 100).toFixed(1)}%</span>
-                                  </span>
-                                </div>
-                              </div>
-                            </div>
-                          ))}
-                        {Object.keys(reminder.signalProfile.signals).length > 5 && (
-                          <div className="text-xs text-gray-500 text-center">
-                            + {Object.keys(reminder.signalProfile.signals).length - 5} more sensors
-                          </div>
-                        )}
+                        <SignalProfileChart profile={reminder.signalProfile} />
                         {reminder.signalProfileUpdatedAtUtc && (
                           <div className="text-xs text-gray-500 mt-2">
                             Last updated: {new Date(reminder.signalProfileUpdatedAtUtc).toLocaleString()}
@@ -356,6 +422,13 @@ export function ReminderDetailModal({
                           </div>
                         )}
                       </div>
+                      <div className="mt-4">
+                        <span className="text-sm font-medium text-gray-600">Similarity Explainer</span>
+                        <div className="text-xs text-gray-500 mt-1 mb-2">
+                          Score an event&apos;s signals against this baseline to see which sensors made it match or not.
+                        </div>
+                        <SignalSimilarityExplainer key={reminder.id} baseline={reminder.signalProfile} />
+                      </div>
                     </div>
                   )}
                 </div>
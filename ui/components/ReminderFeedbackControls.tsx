@@ -0,0 +1,88 @@
+// Yes / No / Later feedback controls with optional comment for a reminder candidate
+'use client';
+
+import React, { useState } from 'react';
+import { useReminderFeedback } from '@/hooks/useReminderFeedback';
+import type { FeedbackType, ReminderCandidateDto } from '@/types';
+
+interface ReminderFeedbackControlsProps {
+  candidate: ReminderCandidateDto;
+  compact?: boolean;
+}
+
+const FEEDBACK_BUTTONS: { type: FeedbackType; label: string; title: string; className: string }[] = [
+  {
+    type: 'yes',
+    label: '👍 Yes',
+    title: 'This reminder was right',
+    className: 'bg-green-100 text-green-700 hover:bg-green-200',
+  },
+  {
+    type: 'no',
+    label: '👎 No',
+    title: 'This reminder was wrong',
+    className: 'bg-red-100 text-red-700 hover:bg-red-200',
+  },
+  {
+    type: 'later',
+    label: '⏰ Later',
+    title: 'Right reminder, wrong time',
+    className: 'bg-gray-100 text-gray-700 hover:bg-gray-200',
+  },
+];
+
+export function ReminderFeedbackControls({ candidate, compact = false }: ReminderFeedbackControlsProps) {
+  const { submitFeedback, isPending } = useReminderFeedback();
+  const [showComment, setShowComment] = useState(false);
+  const [comment, setComment] = useState('');
+
+  const handleFeedback = (feedbackType: FeedbackType) => {
+    submitFeedback({ candidate, feedbackType, comment });
+    setComment('');
+    setShowComment(false);
+  };
+
+  return (
+    <div
+      className="space-y-2"
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center gap-2">
+        {!compact && <span className="text-xs text-gray-500">Was this right?</span>}
+        {FEEDBACK_BUTTONS.map((button) => (
+          <button
+            key={button.type}
+            onClick={() => handleFeedback(button.type)}
+            disabled={isPending}
+            className={`text-xs px-2 py-1 rounded disabled:opacity-50 ${button.className}`}
+            title={button.title}
+          >
+            {button.label}
+          </button>
+        ))}
+        <button
+          onClick={() => setShowComment(!showComment)}
+          disabled={isPending}
+          className={`text-xs px-2 py-1 rounded hover:bg-gray-100 disabled:opacity-50 ${
+            showComment ? 'text-indigo-700' : 'text-gray-500'
+          }`}
+          title="Add a comment to your feedback"
+          aria-expanded={showComment}
+        >
+          💬
+        </button>
+      </div>
+      {showComment && (
+        <input
+          type="text"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="Optional comment, then choose Yes / No / Later"
+          maxLength={500}
+          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-xs"
+        />
+      )}
+    </div>
+  );
+}
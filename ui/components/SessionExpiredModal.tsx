@@ -0,0 +1,102 @@
+// Re-authentication prompt shown over the current page when the session token expires
+'use client';
+
+import React, { useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/context/AuthContext';
+
+export function SessionExpiredModal() {
+  const { user, sessionExpired, login, logout } = useAuth();
+  const queryClient = useQueryClient();
+  const router = useRouter();
+  const pathname = usePathname();
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!sessionExpired || !user) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      await login({ username: user.username, password });
+      setPassword('');
+      // Retry whatever failed while the session was expired
+      queryClient.invalidateQueries();
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Sign in failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSwitchAccount = () => {
+    logout();
+    router.push(`/login?returnTo=${encodeURIComponent(pathname)}`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" role="dialog" aria-modal="true" aria-labelledby="session-expired-title">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"></div>
+
+        <form
+          onSubmit={handleSubmit}
+          className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-md sm:w-full"
+        >
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4 space-y-4">
+            <h3 id="session-expired-title" className="text-xl leading-6 font-semibold text-gray-900">
+              Session expired
+            </h3>
+            <p className="text-sm text-gray-600">
+              Your session has expired. Sign in again as <span className="font-medium">{user.username}</span> to
+              continue - this page and anything you haven&apos;t saved will stay as they are.
+            </p>
+
+            {error && (
+              <div className="rounded-md bg-red-50 p-3">
+                <div className="text-sm text-red-800">{error}</div>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="session-expired-password" className="block text-sm font-medium text-gray-700 mb-1">
+                Password
+              </label>
+              <input
+                id="session-expired-password"
+                type="password"
+                required
+                autoFocus
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+          </div>
+
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="submit"
+              disabled={isSubmitting || !password}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-base font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? 'Signing in...' : 'Sign in'}
+            </button>
+            <button
+              type="button"
+              onClick={handleSwitchAccount}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+            >
+              Use a different account
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+// Bar chart of every sensor in a signal profile, showing its weight and normalized value
+'use client';
+
+import React from 'react';
+import type { SignalProfileDto } from '@/types';
+
+interface SignalProfileChartProps {
+  profile: SignalProfileDto;
+}
+
+function Bar({ value, className, label }: { value: number; className: string; label: string }) {
+  const percent = Math.max(0, Math.min(1, value)) * 100;
+  return (
+    <div className="flex items-center gap-2" title={`${label}: ${value.toFixed(3)}`}>
+      <span className="w-12 text-xs text-gray-500">{label}</span>
+      <div className="flex-1 h-2 bg-gray-100 rounded">
+        <div className={`h-2 rounded ${className}`} style={{ width: `${percent}%` }} />
+      </div>
+      <span className="w-12 text-right text-xs font-mono text-gray-600">{value.toFixed(3)}</span>
+    </div>
+  );
+}
+
+export function SignalProfileChart({ profile }: SignalProfileChartProps) {
+  const entries = Object.entries(profile.signals).sort((a, b) => b[1].weight - a[1].weight);
+
+  if (entries.length === 0) {
+    return <div className="text-xs text-gray-500">No sensors in this profile yet.</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-4 text-xs text-gray-500">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-2 rounded bg-indigo-500" /> Weight
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-2 rounded bg-emerald-500" /> Normalized value
+        </span>
+      </div>
+      <ul className="space-y-2">
+        {entries.map(([sensorId, entry]) => (
+          <li key={sensorId} className="bg-blue-50 border border-blue-200 rounded-lg p-2">
+            <div className="text-sm font-medium text-gray-900 mb-1 break-all">{sensorId}</div>
+            <Bar value={entry.weight} className="bg-indigo-500" label="Weight" />
+            <Bar value={entry.normalizedValue} className="bg-emerald-500" label="Value" />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+// Explains why an event's sensor signals did or didn't match a reminder's signal profile
+'use client';
+
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { apiClient } from '@/services/api';
+import { explainSignalSimilarity, parseSignalStatesInput, type SensorMatchStatus } from '@/services/signalSimilarity';
+import type { SignalProfileDto, SignalStateDto } from '@/types';
+
+interface SignalSimilarityExplainerProps {
+  baseline: SignalProfileDto;
+}
+
+const STATUS_LABELS: Record<SensorMatchStatus, { label: string; className: string }> = {
+  shared: { label: 'In both', className: 'bg-green-100 text-green-800' },
+  'baseline-only': { label: 'Missing from event', className: 'bg-yellow-100 text-yellow-800' },
+  'event-only': { label: 'Not in baseline', className: 'bg-gray-100 text-gray-700' },
+};
+
+const PLACEHOLDER = `[
+  { "sensorId": "sensor.presence.living_room", "value": "on" },
+  { "sensorId": "sensor.light.living_room", "value": 120, "rawImportance": 0.8 }
+]`;
+
+export function SignalSimilarityExplainer({ baseline }: SignalSimilarityExplainerProps) {
+  const [input, setInput] = useState('');
+  const [inputError, setInputError] = useState<string | null>(null);
+
+  const evaluateMutation = useMutation({
+    mutationFn: (signalStates: SignalStateDto[]) =>
+      apiClient.evaluateSimilarity({ baseline, signalStates }),
+  });
+
+  const handleEvaluate = () => {
+    const parsed = parseSignalStatesInput(input);
+    if (!parsed.ok) {
+      setInputError(parsed.error);
+      return;
+    }
+    setInputError(null);
+    evaluateMutation.mutate(parsed.value);
+  };
+
+  const result = evaluateMutation.data;
+  const explanation = result ? explainSignalSimilarity(baseline, result.eventProfile) : null;
+  const isMatch = result ? result.similarity >= result.threshold : false;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor="signalStatesInput" className="block text-xs font-medium text-gray-600 mb-1">
+          Event signalStates (JSON)
+        </label>
+        <textarea
+          id="signalStatesInput"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          rows={5}
+          placeholder={PLACEHOLDER}
+          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-xs font-mono"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Paste the signalStates array an event was ingested with, or the whole event payload.
+        </p>
+        {inputError && <p className="text-xs text-red-600 mt-1">{inputError}</p>}
+        {evaluateMutation.isError && (
+          <p className="text-xs text-red-600 mt-1">Could not evaluate these signals. Please try again.</p>
+        )}
+        <button
+          type="button"
+          onClick={handleEvaluate}
+          disabled={!input.trim() || evaluateMutation.isPending}
+          className="mt-2 px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {evaluateMutation.isPending ? 'Evaluating...' : 'Explain match'}
+        </button>
+      </div>
+
+      {result && explanation && (
+        <div className="space-y-3">
+          <div
+            className={`rounded-lg border p-3 ${
+              isMatch ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <span className={`text-sm font-semibold ${isMatch ? 'text-green-800' : 'text-red-800'}`}>
+                {isMatch ? 'Signals match' : 'Signals do not match'}
+              </span>
+              <span className="text-sm font-mono text-gray-900">
+                {(result.similarity * 100).toFixed(1)}% {isMatch ? '≥' : '<'} {(result.threshold * 100).toFixed(1)}%
+              </span>
+            </div>
+            {/* Threshold marker over the similarity score */}
+            <div className="relative mt-2 h-2 bg-gray-200 rounded">
+              <div
+                className={`h-2 rounded ${isMatch ? 'bg-green-500' : 'bg-red-500'}`}
+                style={{ width: `${result.similarity * 100}%` }}
+              />
+              <div
+                className="absolute -top-1 h-4 w-0.5 bg-gray-900"
+                style={{ left: `${result.threshold * 100}%` }}
+                title={`Threshold ${(result.threshold * 100).toFixed(1)}%`}
+              />
+            </div>
+            <div className="mt-2 text-xs text-gray-600 space-y-0.5">
+              <div>
+                Top {result.selectionLimit} signals compared. Mismatch penalty: {result.mismatchPenalty.toFixed(2)}
+                {result.mismatchPenalty > 0 && ' (configured, but matching currently uses the similarity score alone)'}
+              </div>
+              {!result.isSignalSelectionEnabled && (
+                <div className="text-yellow-700">
+                  Signal matching is disabled, so signals don&apos;t affect whether this reminder matches.
+                </div>
+              )}
+            </div>
+          </div>
+
+          <table className="min-w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1 pr-2 font-medium">Sensor</th>
+                <th className="py-1 pr-2 font-medium text-right">Baseline</th>
+                <th className="py-1 pr-2 font-medium text-right">Event</th>
+                <th className="py-1 font-medium">Contribution</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {explanation.contributions.map((row) => (
+                <tr key={row.sensorId}>
+                  <td className="py-1 pr-2">
+                    <div className="font-medium text-gray-900 break-all">{row.sensorId}</div>
+                    <span className={`inline-block mt-0.5 px-1.5 rounded ${STATUS_LABELS[row.status].className}`}>
+                      {STATUS_LABELS[row.status].label}
+                    </span>
+                  </td>
+                  <td className="py-1 pr-2 text-right font-mono text-gray-700">{row.baselineComponent.toFixed(3)}</td>
+                  <td className="py-1 pr-2 text-right font-mono text-gray-700">{row.eventComponent.toFixed(3)}</td>
+                  <td className="py-1">
+                    <div className="flex items-center gap-2">
+                      <div className="w-24 h-2 bg-gray-100 rounded">
+                        <div
+                          className="h-2 rounded bg-indigo-500"
+                          style={{ width: `${Math.min(1, row.contribution) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-12 text-right font-mono text-gray-700">
+                        {(row.contribution * 100).toFixed(1)}%
+                      </span>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500">
+            Baseline and event columns are weight × normalized value. Contributions add up to the similarity score;
+            sensors missing on one side contribute nothing and lower the score.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+// Directed graph of learned fromAction → toAction transitions rendered as SVG
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type { TransitionDto } from '@/types';
+import { ConfidenceLevel } from '@/types';
+
+interface TransitionGraphProps {
+  transitions: TransitionDto[];
+  width?: number;
+  height?: number;
+}
+
+interface GraphEdge {
+  key: string;
+  from: string;
+  to: string;
+  occurrenceCount: number;
+  confidenceLabel: ConfidenceLevel;
+  confidencePercent: number;
+  transitions: TransitionDto[];
+}
+
+const EDGE_COLORS: Record<ConfidenceLevel, string> = {
+  [ConfidenceLevel.High]: '#16a34a',
+  [ConfidenceLevel.Medium]: '#ca8a04',
+  [ConfidenceLevel.Low]: '#dc2626',
+};
+
+const NODE_RADIUS = 26;
+const MIN_EDGE_WIDTH = 1.5;
+const MAX_EDGE_WIDTH = 10;
+
+// Formats a serialized TimeSpan ("d.hh:mm:ss" or "hh:mm:ss") as a short human-readable delay
+export function formatAverageDelay(averageDelay?: string | null): string {
+  if (!averageDelay) return 'N/A';
+  const match = averageDelay.match(/^(?:(\d+)\.)?(\d{1,2}):(\d{2}):(\d{2})/);
+  if (!match) return averageDelay;
+  const days = parseInt(match[1] || '0', 10);
+  const hours = parseInt(match[2], 10);
+  const minutes = parseInt(match[3], 10);
+  const seconds = parseInt(match[4], 10);
+  const parts: string[] = [];
+  if (days > 0) parts.push(`${days}d`);
+  if (hours > 0) parts.push(`${hours}h`);
+  if (minutes > 0) parts.push(`${minutes}m`);
+  if (seconds > 0 && days === 0 && hours === 0) parts.push(`${seconds}s`);
+  return parts.length > 0 ? parts.join(' ') : '0s';
+}
+
+export function TransitionGraph({ transitions, width = 720, height = 520 }: TransitionGraphProps) {
+  const [hoveredNode, setHoveredNode] = useState<string | null>(null);
+
+  // Unique actions laid out on a circle
+  const nodes = useMemo(() => {
+    const actions = Array.from(
+      new Set(transitions.flatMap((t) => [t.fromAction, t.toAction]))
+    ).sort();
+    const cx = width / 2;
+    const cy = height / 2;
+    const radius = Math.max(Math.min(width, height) / 2 - NODE_RADIUS * 3, 40);
+    return actions.map((action, index) => {
+      const angle = (2 * Math.PI * index) / actions.length - Math.PI / 2;
+      return {
+        id: action,
+        x: actions.length === 1 ? cx : cx + radius * Math.cos(angle),
+        y: actions.length === 1 ? cy : cy + radius * Math.sin(angle),
+      };
+    });
+  }, [transitions, width, height]);
+
+  // Transitions across context buckets are merged into a single edge per action pair
+  const edges = useMemo(() => {
+    const byPair = new Map<string, GraphEdge>();
+    transitions.forEach((t) => {
+      const key = `${t.fromAction}→${t.toAction}`;
+      const existing = byPair.get(key);
+      if (!existing) {
+        byPair.set(key, {
+          key,
+          from: t.fromAction,
+          to: t.toAction,
+          occurrenceCount: t.occurrenceCount,
+          confidenceLabel: t.confidenceLabel as ConfidenceLevel,
+          confidencePercent: t.confidencePercent,
+          transitions: [t],
+        });
+        return;
+      }
+      existing.occurrenceCount += t.occurrenceCount;
+      existing.transitions.push(t);
+      if (t.confidencePercent > existing.confidencePercent) {
+        existing.confidencePercent = t.confidencePercent;
+        existing.confidenceLabel = t.confidenceLabel as ConfidenceLevel;
+      }
+    });
+    return Array.from(byPair.values());
+  }, [transitions]);
+
+  const maxCount = Math.max(1, ...edges.map((e) => e.occurrenceCount));
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+
+  const getEdgeWidth = (count: number): number =>
+    MIN_EDGE_WIDTH + ((MAX_EDGE_WIDTH - MIN_EDGE_WIDTH) * count) / maxCount;
+
+  const getEdgeTooltip = (edge: GraphEdge): string => {
+    const lines = edge.transitions.map(
+      (t) =>
+        `${t.contextBucket}: ${t.occurrenceCount}× • ${Math.round(t.confidencePercent)}% (${t.confidenceLabel}) • avg delay ${formatAverageDelay(t.averageDelay)}`
+    );
+    return [`${edge.from} → ${edge.to}`, ...lines].join('\n');
+  };
+
+  if (nodes.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-gray-500 text-sm">No transitions to display</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        width="100%"
+        style={{ maxWidth: width, minWidth: 360 }}
+        role="img"
+        aria-label="Directed graph of learned action transitions"
+      >
+        <defs>
+          {Object.entries(EDGE_COLORS).map(([level, color]) => (
+            <marker
+              key={level}
+              id={`transition-arrow-${level}`}
+              viewBox="0 0 10 10"
+              refX="9"
+              refY="5"
+              markerWidth="5"
+              markerHeight="5"
+              orient="auto-start-reverse"
+            >
+              <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+            </marker>
+          ))}
+        </defs>
+
+        {edges.map((edge) => {
+          const from = nodeById.get(edge.from);
+          const to = nodeById.get(edge.to);
+          if (!from || !to) return null;
+
+          const color = EDGE_COLORS[edge.confidenceLabel] ?? '#6b7280';
+          const strokeWidth = getEdgeWidth(edge.occurrenceCount);
+          const isDimmed = hoveredNode !== null && hoveredNode !== edge.from && hoveredNode !== edge.to;
+
+          let path: string;
+          if (edge.from === edge.to) {
+            // Self-loop drawn above the node
+            const r = NODE_RADIUS;
+            path = `M ${from.x - r * 0.5} ${from.y - r * 0.85} C ${from.x - r * 1.8} ${from.y - r * 3}, ${from.x + r * 1.8} ${from.y - r * 3}, ${from.x + r * 0.5} ${from.y - r * 0.85}`;
+          } else {
+            // Curve slightly so that A→B and B→A do not overlap
+            const dx = to.x - from.x;
+            const dy = to.y - from.y;
+            const length = Math.sqrt(dx * dx + dy * dy) || 1;
+            const ux = dx / length;
+            const uy = dy / length;
+            const startX = from.x + ux * NODE_RADIUS;
+            const startY = from.y + uy * NODE_RADIUS;
+            const endX = to.x - ux * (NODE_RADIUS + 4);
+            const endY = to.y - uy * (NODE_RADIUS + 4);
+            const bend = Math.min(40, length * 0.15);
+            const ctrlX = (startX + endX) / 2 - uy * bend;
+            const ctrlY = (startY + endY) / 2 + ux * bend;
+            path = `M ${startX} ${startY} Q ${ctrlX} ${ctrlY} ${endX} ${endY}`;
+          }
+
+          return (
+            <path
+              key={edge.key}
+              d={path}
+              fill="none"
+              stroke={color}
+              strokeWidth={strokeWidth}
+              strokeOpacity={isDimmed ? 0.15 : 0.8}
+              markerEnd={`url(#transition-arrow-${edge.confidenceLabel})`}
+            >
+              <title>{getEdgeTooltip(edge)}</title>
+            </path>
+          );
+        })}
+
+        {nodes.map((node) => (
+          <g
+            key={node.id}
+            onMouseEnter={() => setHoveredNode(node.id)}
+            onMouseLeave={() => setHoveredNode(null)}
+            className="cursor-default"
+          >
+            <circle
+              cx={node.x}
+              cy={node.y}
+              r={NODE_RADIUS}
+              fill={hoveredNode === node.id ? '#e0e7ff' : '#ffffff'}
+              stroke="#6366f1"
+              strokeWidth={2}
+            />
+            <text
+              x={node.x}
+              y={node.y + NODE_RADIUS + 14}
+              textAnchor="middle"
+              className="fill-gray-700"
+              fontSize={12}
+            >
+              {node.id.length > 22 ? `${node.id.slice(0, 20)}…` : node.id}
+            </text>
+            <title>{node.id}</title>
+          </g>
+        ))}
+      </svg>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-4 mt-4 text-xs text-gray-600">
+        {Object.entries(EDGE_COLORS).map(([level, color]) => (
+          <span key={level} className="inline-flex items-center gap-1">
+            <span className="inline-block w-6 h-1 rounded" style={{ backgroundColor: color }}></span>
+            <span className="capitalize">{level} confidence</span>
+          </span>
+        ))}
+        <span className="text-gray-500">Thicker edges were observed more often. Hover an edge for details.</span>
+      </div>
+    </div>
+  );
+}
@@ -2,14 +2,29 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { apiService } from '@/services/api';
-import type { User, LoginRequest } from '@/types';
+import axios from 'axios';
+import {
+  apiClient,
+  login as requestLogin,
+  logout as clearStoredAuth,
+  onSessionExpired,
+  refreshToken,
+  register as requestRegister,
+} from '@/services/api';
+import { getTokenExpiry, isTokenExpired } from '@/services/session';
+import type { AuthenticatedUser, LoginRequest } from '@/types';
+
+// Refresh this long before the token expires so requests never go out with a stale token
+const REFRESH_BEFORE_EXPIRY_MS = 2 * 60 * 1000;
+// setTimeout fires immediately for delays above 2^31 - 1 ms
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
 
 interface AuthContextType {
-  user: User | null;
+  user: AuthenticatedUser | null;
   isLoading: boolean;
   isAuthenticated: boolean;
   isAdmin: boolean;
+  sessionExpired: boolean;
   login: (credentials: LoginRequest) => Promise<void>;
   register: (data: { username: string; email: string; password: string }) => Promise<void>;
   logout: () => void;
@@ -18,11 +33,13 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthenticatedUser | null>(null);
+  const [token, setToken] = useState<string | null>(null);
+  const [sessionExpired, setSessionExpired] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
   // Helper function to save user to localStorage
-  const saveUserToStorage = (userData: User | null) => {
+  const saveUserToStorage = (userData: AuthenticatedUser | null) => {
     if (typeof window !== 'undefined') {
       if (userData) {
         localStorage.setItem('auth_user', JSON.stringify(userData));
@@ -33,12 +50,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   // Helper function to load user from localStorage
-  const loadUserFromStorage = (): User | null => {
+  const loadUserFromStorage = (): AuthenticatedUser | null => {
     if (typeof window === 'undefined') return null;
     const userData = localStorage.getItem('auth_user');
     if (userData) {
       try {
-        return JSON.parse(userData) as User;
+        return JSON.parse(userData) as AuthenticatedUser;
       } catch (e) {
         console.error('Failed to parse user data from localStorage', e);
         return null;
@@ -47,43 +64,115 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return null;
   };
 
+  const clearSession = () => {
+    setUser(null);
+    setToken(null);
+    setSessionExpired(false);
+  };
+
   useEffect(() => {
-    // Check for existing token and restore user from localStorage
-    const token = typeof window !== 'undefined' ? localStorage.getItem('auth_token') : null;
-    if (token) {
-      // Restore user from localStorage if token exists
-      const savedUser = loadUserFromStorage();
-      if (savedUser) {
-        setUser(savedUser);
-      } else {
-        // Token exists but no user data - clear invalid token
-        apiService.logout();
+    // Restore the session from localStorage, then confirm the token with the backend
+    const storedToken = localStorage.getItem('auth_token');
+    const savedUser = loadUserFromStorage();
+
+    if (!storedToken || !savedUser || isTokenExpired(storedToken)) {
+      if (storedToken) {
+        clearStoredAuth();
       }
-      // TODO: Validate token with backend
-      // In production, you'd decode and validate the JWT
-    } else {
-      // No token means not authenticated, clear any stale user data
       saveUserToStorage(null);
+      setIsLoading(false);
+      return;
     }
-    setIsLoading(false);
+
+    setUser(savedUser);
+    setToken(storedToken);
+    apiClient
+      .me()
+      .then((currentUser) => {
+        setUser(currentUser);
+        saveUserToStorage(currentUser);
+      })
+      .catch((error) => {
+        // Keep the stored session when the API is unreachable; only a rejected token logs out
+        if (axios.isAxiosError(error) && error.response?.status === 401) {
+          clearStoredAuth();
+          saveUserToStorage(null);
+          clearSession();
+        }
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    // Any 401 from the API means the token was rejected; prompt instead of redirecting
+    return onSessionExpired(() => setSessionExpired(true));
+  }, []);
+
+  useEffect(() => {
+    // Refresh shortly before expiry; if that fails, flag the session as expired at expiry
+    if (!token) return;
+    const expiresAt = getTokenExpiry(token);
+    if (expiresAt === null) return;
+
+    const untilExpiry = expiresAt - Date.now();
+    const refreshTimer = setTimeout(async () => {
+      try {
+        const response = await refreshToken();
+        setUser(response.user);
+        saveUserToStorage(response.user);
+        setToken(response.token);
+      } catch {
+        // The expiry timer below takes over
+      }
+    }, Math.min(Math.max(untilExpiry - REFRESH_BEFORE_EXPIRY_MS, 0), MAX_TIMER_DELAY_MS));
+    const expiryTimer = setTimeout(
+      () => setSessionExpired(true),
+      Math.min(Math.max(untilExpiry, 0), MAX_TIMER_DELAY_MS)
+    );
+
+    return () => {
+      clearTimeout(refreshTimer);
+      clearTimeout(expiryTimer);
+    };
+  }, [token]);
+
+  useEffect(() => {
+    // Keep tabs in sync: logging in, refreshing or logging out in one tab applies to all of them
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === null || (event.key === 'auth_token' && !event.newValue)) {
+        clearSession();
+      } else if (event.key === 'auth_token' && event.newValue) {
+        setToken(event.newValue);
+        setSessionExpired(false);
+      } else if (event.key === 'auth_user' && event.newValue) {
+        setUser(loadUserFromStorage());
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
   }, []);
 
   const login = async (credentials: LoginRequest) => {
-    const response = await apiService.login(credentials);
+    const response = await requestLogin(credentials);
     setUser(response.user);
     saveUserToStorage(response.user);
+    setToken(response.token);
+    setSessionExpired(false);
   };
 
   const register = async (data: { username: string; email: string; password: string }) => {
-    const response = await apiService.register(data);
+    const response = await requestRegister(data);
     setUser(response.user);
     saveUserToStorage(response.user);
+    setToken(response.token);
+    setSessionExpired(false);
   };
 
   const logout = () => {
-    apiService.logout();
-    setUser(null);
+    clearStoredAuth();
     saveUserToStorage(null);
+    clearSession();
   };
 
   const value: AuthContextType = {
@@ -91,6 +180,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     isLoading,
     isAuthenticated: !!user,
     isAdmin: user?.role === 'admin',
+    sessionExpired: sessionExpired && !!user,
     login,
     register,
     logout,
@@ -106,4 +196,3 @@ export function useAuth() {
   }
   return context;
 }
-
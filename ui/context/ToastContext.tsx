@@ -0,0 +1,112 @@
+// Toast notification context for transient messages with an optional action (e.g. Undo)
+'use client';
+
+import React, { createContext, useContext, useState, useCallback, useRef, useEffect, ReactNode } from 'react';
+
+export type ToastVariant = 'info' | 'success' | 'error';
+
+export interface ToastOptions {
+  message: string;
+  variant?: ToastVariant;
+  durationMs?: number;
+  action?: {
+    label: string;
+    onClick: () => void;
+  };
+}
+
+interface Toast extends ToastOptions {
+  id: number;
+}
+
+interface ToastContextType {
+  showToast: (options: ToastOptions) => number;
+  dismissToast: (id: number) => void;
+}
+
+const DEFAULT_DURATION_MS = 5000;
+
+const ToastContext = createContext<ToastContextType | undefined>(undefined);
+
+export function ToastProvider({ children }: { children: ReactNode }) {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(1);
+  const timers = useRef<Map<number, ReturnType<typeof setTimeout>>>(new Map());
+
+  const dismissToast = useCallback((id: number) => {
+    const timer = timers.current.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      timers.current.delete(id);
+    }
+    setToasts((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  const showToast = useCallback(
+    (options: ToastOptions) => {
+      const id = nextId.current++;
+      setToasts((prev) => [...prev, { ...options, id }]);
+      timers.current.set(
+        id,
+        setTimeout(() => dismissToast(id), options.durationMs ?? DEFAULT_DURATION_MS)
+      );
+      return id;
+    },
+    [dismissToast]
+  );
+
+  // Clear pending timers on unmount
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  const variantClasses: Record<ToastVariant, string> = {
+    info: 'bg-gray-900 text-white',
+    success: 'bg-green-700 text-white',
+    error: 'bg-red-700 text-white',
+  };
+
+  return (
+    <ToastContext.Provider value={{ showToast, dismissToast }}>
+      {children}
+      <div className="fixed bottom-4 right-4 z-[60] flex flex-col gap-2" aria-live="polite">
+        {toasts.map((toast) => (
+          <div
+            key={toast.id}
+            className={`flex items-center gap-4 px-4 py-3 rounded-lg shadow-lg text-sm ${variantClasses[toast.variant ?? 'info']}`}
+            role="status"
+          >
+            <span>{toast.message}</span>
+            {toast.action && (
+              <button
+                onClick={() => {
+                  toast.action!.onClick();
+                  dismissToast(toast.id);
+                }}
+                className="font-semibold underline hover:no-underline focus:outline-none"
+              >
+                {toast.action.label}
+              </button>
+            )}
+            <button
+              onClick={() => dismissToast(toast.id)}
+              className="opacity-70 hover:opacity-100 focus:outline-none"
+              aria-label="Dismiss notification"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+    </ToastContext.Provider>
+  );
+}
+
+export function useToast() {
+  const context = useContext(ToastContext);
+  if (context === undefined) {
+    throw new Error('useToast must be used within a ToastProvider');
+  }
+  return context;
+}
@@ -0,0 +1,38 @@
+// Custom hook for checkbox multi-select over a list, with shift-click ranges
+import { useCallback, useRef, useState } from 'react';
+import { toggleSelection } from '@/services/bulkSelection';
+
+/**
+ * @param orderedIds Ids in the order they are shown, used to resolve shift-click ranges
+ */
+export function useBulkSelection(orderedIds: string[]) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const anchorRef = useRef<string | null>(null);
+
+  const toggle = (id: string, shiftKey: boolean) => {
+    setSelectedIds((current) => toggleSelection(current, orderedIds, id, anchorRef.current, shiftKey));
+    if (!shiftKey) anchorRef.current = id;
+  };
+
+  const select = useCallback((ids: string[]) => {
+    setSelectedIds((current) => new Set([...Array.from(current), ...ids]));
+  }, []);
+
+  const replace = useCallback((ids: string[]) => {
+    setSelectedIds(new Set(ids));
+  }, []);
+
+  const clear = useCallback(() => {
+    setSelectedIds(new Set());
+    anchorRef.current = null;
+  }, []);
+
+  return {
+    selectedIds,
+    isSelected: (id: string) => selectedIds.has(id),
+    toggle,
+    select,
+    replace, // e.g. keep only the ids a batch failed on, so they can be retried
+    clear,
+  };
+}
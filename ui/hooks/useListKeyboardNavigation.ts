@@ -0,0 +1,84 @@
+// Custom hook for j/k navigation over a list page's items, with Enter to open, e to execute and d to delete
+import { useEffect, useRef, useState } from 'react';
+import { listShortcut } from '@/services/keyboardShortcuts';
+
+interface ListKeyboardNavigationOptions<T> {
+  items: T[];
+  enabled?: boolean; // Turn off while a modal or a detail view covers the list
+  onOpen?: (item: T) => void;
+  onExecute?: (item: T) => void;
+  onDelete?: (item: T) => void; // Expected to confirm before deleting
+}
+
+/**
+ * Tracks the highlighted item. Rows mark themselves with `data-keyboard-index` so the highlighted one
+ * can be scrolled into view.
+ */
+export function useListKeyboardNavigation<T>({
+  items,
+  enabled = true,
+  onOpen,
+  onExecute,
+  onDelete,
+}: ListKeyboardNavigationOptions<T>) {
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+  // Handlers change every render; read the latest without re-subscribing
+  const latest = useRef({ items, activeIndex, onOpen, onExecute, onDelete });
+  latest.current = { items, activeIndex, onOpen, onExecute, onDelete };
+
+  // Keep the highlight inside the list as it shrinks (deletes, filters, live updates)
+  useEffect(() => {
+    if (activeIndex !== null && activeIndex >= items.length) {
+      setActiveIndex(items.length > 0 ? items.length - 1 : null);
+    }
+  }, [activeIndex, items.length]);
+
+  useEffect(() => {
+    if (activeIndex === null) return;
+    document.querySelector(`[data-keyboard-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented) return;
+      const shortcut = listShortcut(event);
+      const { items, activeIndex, onOpen, onExecute, onDelete } = latest.current;
+      if (!shortcut || items.length === 0) return;
+
+      const active = activeIndex === null ? undefined : items[activeIndex];
+      switch (shortcut) {
+        case 'next':
+          setActiveIndex(activeIndex === null ? 0 : Math.min(items.length - 1, activeIndex + 1));
+          break;
+        case 'previous':
+          setActiveIndex(activeIndex === null ? 0 : Math.max(0, activeIndex - 1));
+          break;
+        case 'clear':
+          if (activeIndex === null) return;
+          setActiveIndex(null);
+          break;
+        case 'open':
+          if (!active || !onOpen) return;
+          onOpen(active);
+          break;
+        case 'execute':
+          if (!active || !onExecute) return;
+          onExecute(active);
+          break;
+        case 'delete':
+          if (!active || !onDelete) return;
+          onDelete(active);
+          break;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+
+  return { activeIndex, setActiveIndex };
+}
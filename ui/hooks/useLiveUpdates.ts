@@ -0,0 +1,111 @@
+// Custom hook that subscribes to the server-sent live updates stream and patches the React Query cache
+import { useEffect, useState } from 'react';
+import { useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { streamLiveUpdates } from '@/services/api';
+import { REMINDER_FEEDBACK_MUTATION_KEY } from '@/hooks/useReminderFeedback';
+import type { LiveUpdateDto, ReminderCandidateDto, ReminderCandidateListResponse } from '@/types';
+
+// Reconnect backoff while the stream is down; pages fall back to polling in the meantime
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+function applyLiveUpdate(queryClient: QueryClient, update: LiveUpdateDto) {
+  switch (update.type) {
+    case 'candidate.created':
+    case 'candidate.executed':
+    case 'candidate.skipped': {
+      // Don't overwrite optimistic feedback that is still inside its undo window
+      if (queryClient.isMutating({ mutationKey: REMINDER_FEEDBACK_MUTATION_KEY }) > 0) {
+        return;
+      }
+
+      const candidate = update.payload as ReminderCandidateDto | undefined;
+      let patched = false;
+      if (candidate) {
+        queryClient.setQueriesData<ReminderCandidateListResponse>(
+          { queryKey: ['reminderCandidates'] },
+          (old) => {
+            if (!old || !old.items.some((c) => c.id === candidate.id)) return old;
+            patched = true;
+            return { ...old, items: old.items.map((c) => (c.id === candidate.id ? candidate : c)) };
+          }
+        );
+      }
+
+      // New candidates (or ones outside the cached pages) need the server's filtering and paging
+      if (!patched) {
+        queryClient.invalidateQueries({ queryKey: ['reminderCandidates'] });
+      }
+      if (update.type === 'candidate.executed') {
+        queryClient.invalidateQueries({ queryKey: ['executionHistory'] });
+      }
+      queryClient.invalidateQueries({ queryKey: ['confidenceHistory'] });
+      queryClient.invalidateQueries({ queryKey: ['decisionTraces', update.entityId] });
+      return;
+    }
+    case 'event.ingested':
+      queryClient.invalidateQueries({ queryKey: ['events'] });
+      queryClient.invalidateQueries({ queryKey: ['relatedReminders'] });
+      // Events inside an open window teach the routine new reminders
+      queryClient.invalidateQueries({ queryKey: ['routine'] });
+      queryClient.invalidateQueries({ queryKey: ['confidenceHistory'] });
+      return;
+    case 'routine.window_opened':
+    case 'routine.window_closed':
+      queryClient.invalidateQueries({ queryKey: ['routines'] });
+      queryClient.invalidateQueries({ queryKey: ['activeRoutines'] });
+      queryClient.invalidateQueries({ queryKey: ['routine', update.entityId] });
+      queryClient.invalidateQueries({ queryKey: ['routineDetails'] });
+      queryClient.invalidateQueries({ queryKey: ['routineDetailsForCount'] });
+      return;
+  }
+}
+
+/**
+ * Keeps the reminder, event and routine caches up to date from the server push channel.
+ * Returns isLive = false while the stream is connecting or has dropped, so callers can
+ * fall back to polling (e.g. refetchInterval: isLive ? false : 3000).
+ */
+export function useLiveUpdates(personId?: string) {
+  const queryClient = useQueryClient();
+  const [isLive, setIsLive] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryDelay = INITIAL_RETRY_DELAY_MS;
+
+    const connect = async () => {
+      try {
+        await streamLiveUpdates({
+          personId,
+          signal: controller.signal,
+          onOpen: () => {
+            setIsLive(true);
+            retryDelay = INITIAL_RETRY_DELAY_MS;
+            // Catch up on anything missed while disconnected
+            queryClient.invalidateQueries({ queryKey: ['reminderCandidates'] });
+          },
+          onUpdate: (update) => applyLiveUpdate(queryClient, update),
+        });
+      } catch {
+        // Stream failed or was aborted; handled below
+      }
+
+      if (controller.signal.aborted) return;
+      setIsLive(false);
+      retryTimer = setTimeout(connect, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      clearTimeout(retryTimer);
+      setIsLive(false);
+    };
+  }, [personId, queryClient]);
+
+  return { isLive };
+}
@@ -0,0 +1,15 @@
+// Custom hook binding the permissions model to the signed-in user
+import { useCallback } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { can as canForUser, getOwnPersonId, type Permission } from '@/services/permissions';
+
+export function usePermissions() {
+  const { user } = useAuth();
+
+  const can = useCallback(
+    (permission: Permission, personId?: string) => canForUser(user, permission, personId),
+    [user]
+  );
+
+  return { can, ownPersonId: getOwnPersonId(user) };
+}
@@ -1,6 +1,6 @@
 // Custom hook for fetching reminder candidates with filters
 import { useQuery } from '@tanstack/react-query';
-import { apiService } from '@/services/api';
+import { apiClient } from '@/services/api';
 
 interface UseReminderCandidatesParams {
   personId?: string;
@@ -14,7 +14,7 @@ interface UseReminderCandidatesParams {
 export function useReminderCandidates(params: UseReminderCandidatesParams = {}) {
   return useQuery({
     queryKey: ['reminderCandidates', params],
-    queryFn: () => apiService.getReminderCandidates(params),
+    queryFn: () => apiClient.getReminderCandidates({ queries: params }),
   });
 }
 
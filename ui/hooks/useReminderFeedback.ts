@@ -0,0 +1,123 @@
+// Custom hook for submitting yes/no/later feedback on reminder candidates with optimistic updates and undo
+import { useRef } from 'react';
+import { useMutation, useQueryClient, type QueryKey } from '@tanstack/react-query';
+import { apiClient } from '@/services/api';
+import { useToast } from '@/context/ToastContext';
+import type { FeedbackType, ReminderCandidateDto, ReminderCandidateListResponse } from '@/types';
+
+export const REMINDER_FEEDBACK_MUTATION_KEY = ['reminderFeedback'];
+
+// How long the user can undo feedback before it is sent to the backend
+const UNDO_WINDOW_MS = 5000;
+
+// Mirrors SubmitFeedbackCommandHandler confidence steps on the backend
+const CONFIDENCE_DELTA: Record<FeedbackType, number> = {
+  yes: 0.1,
+  no: -0.2,
+  later: 0,
+};
+
+const FEEDBACK_LABELS: Record<FeedbackType, string> = {
+  yes: 'Marked as right',
+  no: 'Marked as wrong',
+  later: 'Marked as mistimed',
+};
+
+class FeedbackUndoneError extends Error {
+  constructor() {
+    super('Feedback undone');
+    this.name = 'FeedbackUndoneError';
+  }
+}
+
+interface SubmitFeedbackVariables {
+  candidate: ReminderCandidateDto;
+  feedbackType: FeedbackType;
+  comment?: string;
+}
+
+interface FeedbackMutationContext {
+  previousData: [QueryKey, ReminderCandidateListResponse | undefined][];
+}
+
+export function useReminderFeedback() {
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+  const undoHandlers = useRef<Map<string, () => void>>(new Map());
+
+  // Resolves once the undo window has passed, rejects if the user pressed Undo
+  const waitForUndoWindow = (candidateId: string): Promise<void> =>
+    new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        undoHandlers.current.delete(candidateId);
+        resolve();
+      }, UNDO_WINDOW_MS);
+      undoHandlers.current.set(candidateId, () => {
+        clearTimeout(timer);
+        undoHandlers.current.delete(candidateId);
+        reject(new FeedbackUndoneError());
+      });
+    });
+
+  const mutation = useMutation<void, Error, SubmitFeedbackVariables, FeedbackMutationContext>({
+    mutationKey: REMINDER_FEEDBACK_MUTATION_KEY,
+    mutationFn: async ({ candidate, feedbackType, comment }) => {
+      await waitForUndoWindow(candidate.id);
+      await apiClient.submitFeedback({
+        candidateId: candidate.id,
+        feedbackType,
+        comment: comment?.trim() || undefined,
+      });
+    },
+    onMutate: async ({ candidate, feedbackType }) => {
+      await queryClient.cancelQueries({ queryKey: ['reminderCandidates'] });
+      const previousData = queryClient.getQueriesData<ReminderCandidateListResponse>({
+        queryKey: ['reminderCandidates'],
+      });
+
+      const delta = CONFIDENCE_DELTA[feedbackType];
+      if (delta !== 0) {
+        queryClient.setQueriesData<ReminderCandidateListResponse>(
+          { queryKey: ['reminderCandidates'] },
+          (old) =>
+            old && {
+              ...old,
+              items: old.items.map((c) =>
+                c.id === candidate.id
+                  ? { ...c, confidence: Math.min(1, Math.max(0, (c.confidence || 0) + delta)) }
+                  : c
+              ),
+            }
+        );
+      }
+
+      showToast({
+        message: `${FEEDBACK_LABELS[feedbackType]}: ${candidate.suggestedAction}`,
+        durationMs: UNDO_WINDOW_MS,
+        action: {
+          label: 'Undo',
+          onClick: () => undoHandlers.current.get(candidate.id)?.(),
+        },
+      });
+
+      return { previousData };
+    },
+    onError: (error, _variables, context) => {
+      context?.previousData.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+      if (!(error instanceof FeedbackUndoneError)) {
+        showToast({ message: 'Failed to submit feedback', variant: 'error' });
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['reminderCandidates'] });
+      queryClient.invalidateQueries({ queryKey: ['confidenceHistory'] });
+    },
+  });
+
+  return {
+    submitFeedback: (variables: SubmitFeedbackVariables) => mutation.mutate(variables),
+    isPending: mutation.isPending,
+  };
+}
@@ -1,11 +1,11 @@
 // Custom hook for fetching transitions for a person
 import { useQuery } from '@tanstack/react-query';
-import { apiService } from '@/services/api';
+import { apiClient } from '@/services/api';
 
 export function useTransitions(personId: string) {
   return useQuery({
     queryKey: ['transitions', personId],
-    queryFn: () => apiService.getTransitions(personId),
+    queryFn: () => apiClient.getTransitions({ params: { personId } }),
     enabled: !!personId,
   });
 }
@@ -0,0 +1,68 @@
+// Custom hook for deletes that move an item to the trash: confirm first, then offer Undo for a few seconds
+import { useMutation, useQueryClient, type QueryKey } from '@tanstack/react-query';
+import { apiClient } from '@/services/api';
+import { trashTypeLabel } from '@/services/trash';
+import { useToast } from '@/context/ToastContext';
+import type { TrashItemType } from '@/types';
+
+// How long the Undo button stays on screen; afterwards the item can still be restored from the trash
+export const UNDO_DELETE_WINDOW_MS = 10000;
+
+interface UndoableDeleteOptions {
+  type: TrashItemType;
+  deleteFn: (id: string) => Promise<void>;
+  invalidateKeys: QueryKey[]; // Lists that show the item, refreshed after delete and restore
+}
+
+interface DeleteVariables {
+  id: string;
+  name: string; // Shown in the confirmation and toasts, e.g. the action type or username
+}
+
+const errorMessage = (error: any, fallback: string): string => error?.response?.data?.message || fallback;
+
+export function useUndoableDelete({ type, deleteFn, invalidateKeys }: UndoableDeleteOptions) {
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+  const label = trashTypeLabel(type);
+
+  const invalidate = () => {
+    invalidateKeys.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+    queryClient.invalidateQueries({ queryKey: ['trash'] });
+  };
+
+  const restore = async ({ id, name }: DeleteVariables) => {
+    try {
+      await apiClient.restoreItem(undefined, { params: { type, id } });
+      invalidate();
+      showToast({ message: `Restored ${label} "${name}"`, variant: 'success' });
+    } catch (error) {
+      showToast({ message: errorMessage(error, `Failed to restore ${label} "${name}"`), variant: 'error' });
+    }
+  };
+
+  const mutation = useMutation({
+    mutationFn: ({ id }: DeleteVariables) => deleteFn(id),
+    onSuccess: (_, variables) => {
+      invalidate();
+      showToast({
+        message: `Moved ${label} "${variables.name}" to the trash`,
+        durationMs: UNDO_DELETE_WINDOW_MS,
+        action: { label: 'Undo', onClick: () => restore(variables) },
+      });
+    },
+    onError: (error, { name }) => {
+      showToast({ message: errorMessage(error, `Failed to delete ${label} "${name}"`), variant: 'error' });
+    },
+  });
+
+  return {
+    /** Asks for confirmation, then deletes. Returns false when the user cancelled. */
+    deleteItem: (id: string, name: string): boolean => {
+      if (!confirm(`Delete ${label} "${name}"? It moves to the trash, where an admin can restore it.`)) return false;
+      mutation.mutate({ id, name });
+      return true;
+    },
+    isPending: mutation.isPending,
+  };
+}
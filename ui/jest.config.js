@@ -9,6 +9,8 @@ const customJestConfig = {
   testEnvironment: 'jest-environment-jsdom',
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/$1',
+    // jsdom resolves yaml to its ES module browser build, which Jest cannot load
+    '^yaml$': '<rootDir>/node_modules/yaml/dist/index.js',
   },
 }
 
@@ -1,11 +1,11 @@
-// Unit test for API service
-import { apiService } from '../api';
+// Unit test for API client
+import { apiClient } from '../api';
 import axios from 'axios';
 
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
-describe('ApiService', () => {
+describe('apiClient', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     if (typeof window !== 'undefined') {
@@ -0,0 +1,89 @@
+// Tests for multi-select ranges and chunked batch requests
+import { collectMatchingIds, describeBatchOutcome, runInBatches, summarizeBatch, toggleSelection } from '../bulkSelection';
+import { BatchItemStatus } from '@/types';
+
+const ids = ['a', 'b', 'c', 'd', 'e'];
+
+describe('toggleSelection', () => {
+  it('toggles a single id on a plain click', () => {
+    expect(Array.from(toggleSelection(new Set(['a']), ids, 'c', 'a', false))).toEqual(['a', 'c']);
+    expect(Array.from(toggleSelection(new Set(['a', 'c']), ids, 'c', 'a', false))).toEqual(['a']);
+  });
+
+  it('selects the range between the anchor and a shift-clicked id in either direction', () => {
+    expect(Array.from(toggleSelection(new Set(['b']), ids, 'd', 'b', true)).sort()).toEqual(['b', 'c', 'd']);
+    expect(Array.from(toggleSelection(new Set(['d']), ids, 'b', 'd', true)).sort()).toEqual(['b', 'c', 'd']);
+  });
+
+  it('clears the range when the shift-clicked id was already selected', () => {
+    expect(Array.from(toggleSelection(new Set(['a', 'b', 'c', 'd']), ids, 'c', 'a', true))).toEqual(['d']);
+  });
+
+  it('falls back to a single toggle when the anchor is no longer listed', () => {
+    expect(Array.from(toggleSelection(new Set(), ids, 'c', 'gone', true))).toEqual(['c']);
+  });
+});
+
+describe('collectMatchingIds', () => {
+  it('gathers ids from every page', async () => {
+    const items = [{ id: '1' }, { id: '2' }, { id: '3' }];
+    const fetchPage = async (page: number, pageSize: number) => ({
+      items: items.slice((page - 1) * pageSize, page * pageSize),
+      totalCount: items.length,
+    });
+    expect(await collectMatchingIds(fetchPage)).toEqual(['1', '2', '3']);
+  });
+});
+
+describe('runInBatches', () => {
+  it('splits ids into chunks and merges the results in order', async () => {
+    const send = jest.fn(async (chunk: string[]) => ({
+      results: chunk.map((id) => ({ id, status: BatchItemStatus.Succeeded })),
+    }));
+
+    const results = await runInBatches(ids, send, 2);
+
+    expect(send.mock.calls.map(([chunk]) => chunk)).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+    expect(results.map((r) => r.id)).toEqual(ids);
+  });
+
+  it('reports every id of a rejected chunk as failed and carries on', async () => {
+    const send = jest.fn(async (chunk: string[]) => {
+      if (chunk.includes('a')) throw { response: { data: { message: 'Forbidden' } } };
+      return { results: chunk.map((id) => ({ id, status: BatchItemStatus.Succeeded })) };
+    });
+
+    const results = await runInBatches(['a', 'b', 'c'], send, 2);
+
+    expect(results).toEqual([
+      { id: 'a', status: BatchItemStatus.Failed, error: 'Forbidden' },
+      { id: 'b', status: BatchItemStatus.Failed, error: 'Forbidden' },
+      { id: 'c', status: BatchItemStatus.Succeeded },
+    ]);
+  });
+});
+
+describe('summarizeBatch / describeBatchOutcome', () => {
+  const summary = summarizeBatch([
+    { id: 'a', status: BatchItemStatus.Succeeded },
+    { id: 'b', status: BatchItemStatus.Failed, error: 'Access denied' },
+    { id: 'c', status: BatchItemStatus.Failed, error: 'Not found' },
+    { id: 'd', status: BatchItemStatus.Failed, error: 'Access denied' },
+  ]);
+
+  it('splits ids by outcome and groups errors, most common first', () => {
+    expect(summary.succeededIds).toEqual(['a']);
+    expect(summary.failedIds).toEqual(['b', 'c', 'd']);
+    expect(summary.errors).toEqual([
+      { error: 'Access denied', count: 2 },
+      { error: 'Not found', count: 1 },
+    ]);
+  });
+
+  it('describes the outcome in one line', () => {
+    expect(describeBatchOutcome('Deleted', 'reminder', summary)).toBe(
+      'Deleted 1 reminder; 3 failed (Access denied ×2, Not found)'
+    );
+    expect(describeBatchOutcome('Checked', 'reminder', summarizeBatch([]))).toBe('Checked 0 reminders');
+  });
+});
@@ -0,0 +1,103 @@
+// Tests for building and searching command palette entries
+import {
+  configurationCommands,
+  pageCommands,
+  personCommands,
+  reminderCommands,
+  routineCommands,
+  searchCommands,
+} from '../commandPalette';
+import type { Permission } from '../permissions';
+import { ReminderCandidateStatus, ReminderStyle } from '@/types';
+import type { ReminderCandidateDto } from '@/types';
+import { noPatternEvidence } from '../patternInference';
+
+const canEverything = () => true;
+const canOnlyView = (permission: Permission) => !permission.endsWith(':create') && permission !== 'reminders:execute';
+
+const reminder = (overrides: Partial<ReminderCandidateDto>): ReminderCandidateDto => ({
+  id: 'r1',
+  personId: 'alex',
+  suggestedAction: 'play_music',
+  checkAtUtc: '2026-01-05T07:30:00Z',
+  style: ReminderStyle.Suggest,
+  status: ReminderCandidateStatus.Scheduled,
+  confidence: 0.8,
+  isSafeToAutoExecute: false,
+  signalProfileSamplesCount: 0,
+  ...noPatternEvidence(),
+  ...overrides,
+});
+
+describe('pageCommands', () => {
+  it('hides pages the user may not use', () => {
+    const labels = pageCommands(canOnlyView).map((command) => command.label);
+    expect(labels).toContain('Events');
+    expect(labels).not.toContain('Create event');
+  });
+});
+
+describe('personCommands', () => {
+  it('links to the person’s reminders and events and offers to create an event', () => {
+    const commands = personCommands([{ personId: 'alex', displayName: 'Alex' }], canEverything);
+    expect(commands.map((command) => command.action)).toEqual([
+      { type: 'navigate', href: '/reminders?personId=alex' },
+      { type: 'navigate', href: '/events?personId=alex' },
+      { type: 'navigate', href: '/events/create?personId=alex' },
+    ]);
+  });
+});
+
+describe('reminderCommands', () => {
+  it('offers execution only for scheduled reminders the user may execute', () => {
+    const scheduled = reminder({});
+    const skipped = reminder({ id: 'r2', status: ReminderCandidateStatus.Skipped });
+
+    expect(reminderCommands([scheduled, skipped], canEverything).map((command) => command.id)).toEqual([
+      'reminder:r1',
+      'reminder:r1:execute',
+      'reminder:r2',
+    ]);
+    expect(reminderCommands([scheduled], canOnlyView)).toHaveLength(1);
+  });
+});
+
+describe('routineCommands and configurationCommands', () => {
+  it('open the routine and the configuration tab listing the key', () => {
+    const [routine] = routineCommands([
+      { id: 'x1', personId: 'alex', intentType: 'ArrivalHome', createdAtUtc: '', observationWindowMinutes: 60 },
+    ]);
+    expect(routine.label).toBe('Open routine Arrival Home');
+    expect(routine.action).toEqual({ type: 'navigate', href: '/routines?routineId=x1' });
+
+    const [policy, custom] = configurationCommands([
+      { id: 'c1', key: 'MinDailyEvidence', value: '3', category: 'MatchingPolicy', createdAtUtc: '', updatedAtUtc: '' },
+      { id: 'c2', key: 'Token', value: 'x', category: 'homeassistant', createdAtUtc: '', updatedAtUtc: '' },
+    ]);
+    expect(policy.action).toEqual({ type: 'navigate', href: '/configuration?tab=policies' });
+    expect(custom.action).toEqual({ type: 'navigate', href: '/configuration?tab=custom' });
+  });
+});
+
+describe('searchCommands', () => {
+  const commands = [
+    ...pageCommands(canEverything),
+    ...reminderCommands([reminder({}), reminder({ id: 'r2', suggestedAction: 'lights_on', personId: 'sam' })], canEverything),
+  ];
+
+  it('lists pages for an empty query', () => {
+    expect(searchCommands(commands, '  ').every((command) => command.group === 'Pages')).toBe(true);
+  });
+
+  it('requires every word and ranks label prefixes first', () => {
+    expect(searchCommands(commands, 'execute sam').map((command) => command.id)).toEqual(['reminder:r2:execute']);
+    expect(searchCommands(commands, 'ev')[0].label).toBe('Events');
+  });
+
+  it('matches keywords and details as well as labels', () => {
+    expect(searchCommands(commands, 'settings').map((command) => command.label)).toEqual([
+      'Configuration',
+      'User preferences',
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+// Tests for turning a reminder's confidence change log into chart points and event links
+import { describeChange, sourceEventHref, toHistoryPoints } from '../confidenceHistory';
+import { ConfidenceChangeSource } from '@/types';
+import type { ConfidenceChangeDto, ConfidenceHistoryResponse } from '@/types';
+
+const created: ConfidenceChangeDto = {
+  id: 'c1',
+  newConfidence: 0.5,
+  source: ConfidenceChangeSource.Created,
+  sourceEventId: 'e1',
+  sourceEventActionType: 'turn_on_lights',
+  sourceEventTimestampUtc: '2026-10-01T23:30:00Z',
+  changedAtUtc: '2026-10-01T23:30:01Z',
+};
+
+const fromEvent: ConfidenceChangeDto = {
+  id: 'c2',
+  previousConfidence: 0.5,
+  newConfidence: 0.6,
+  source: ConfidenceChangeSource.Event,
+  sourceEventId: 'e2',
+  sourceEventActionType: 'turn_on_lights',
+  sourceEventTimestampUtc: '2026-10-02T23:30:00Z',
+  changedAtUtc: '2026-10-02T23:30:01Z',
+};
+
+const fromFeedback: ConfidenceChangeDto = {
+  id: 'c3',
+  previousConfidence: 0.6,
+  newConfidence: 0.45,
+  source: ConfidenceChangeSource.Feedback,
+  changedAtUtc: '2026-10-03T08:00:00Z',
+};
+
+const history: ConfidenceHistoryResponse = {
+  personId: 'alice',
+  currentConfidence: 0.45,
+  changes: [created, fromEvent, fromFeedback],
+};
+
+describe('toHistoryPoints', () => {
+  it('adds a closing point at the current confidence', () => {
+    const points = toHistoryPoints(history, new Date('2026-10-05T00:00:00Z'));
+
+    expect(points.map((p) => p.confidence)).toEqual([0.5, 0.6, 0.45, 0.45]);
+    expect(points[3]).toEqual({ at: Date.parse('2026-10-05T00:00:00Z'), confidence: 0.45, change: null });
+  });
+
+  it('ends at the current confidence even when the log is empty', () => {
+    const now = new Date('2026-10-05T00:00:00Z');
+    const points = toHistoryPoints({ personId: 'alice', currentConfidence: 0.3, changes: [] }, now);
+
+    expect(points).toEqual([{ at: now.getTime(), confidence: 0.3, change: null }]);
+  });
+});
+
+describe('describeChange', () => {
+  it('describes the starting value, event increases and feedback drops', () => {
+    expect(describeChange(created)).toBe('Created: started at 50.0%');
+    expect(describeChange(fromEvent)).toBe('Event from turn_on_lights: +10.0 pts to 60.0%');
+    expect(describeChange(fromFeedback)).toBe('Feedback: -15.0 pts to 45.0%');
+  });
+
+  it('notes when the causing event has been deleted', () => {
+    const orphaned = { ...fromEvent, sourceEventActionType: undefined, sourceEventTimestampUtc: undefined };
+    expect(describeChange(orphaned)).toBe('Event from a deleted event: +10.0 pts to 60.0%');
+  });
+});
+
+describe('sourceEventHref', () => {
+  it("filters the events page to the event's action type and UTC day", () => {
+    expect(sourceEventHref('alice', fromEvent)).toBe(
+      '/events?personId=alice&actionType=turn_on_lights&from=2026-10-02&to=2026-10-03'
+    );
+  });
+
+  it('returns null without a known event', () => {
+    expect(sourceEventHref('alice', fromFeedback)).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+// Tests for exporting configuration bundles and reading them back
+import {
+  buildBundle,
+  bundleEntries,
+  configurationCategories,
+  parseBundle,
+  serializeBundle,
+  summarizeImport,
+} from '../configurationBundle';
+import { ConfigurationImportStatus } from '@/types';
+import type { Configuration } from '@/types';
+
+const config = (category: string, key: string, value: string): Configuration => ({
+  id: `${category}-${key}`,
+  category,
+  key,
+  value,
+  createdAtUtc: '2026-10-19T08:00:00Z',
+  updatedAtUtc: '2026-10-19T08:00:00Z',
+});
+
+const configs = [
+  config('MatchingPolicy', 'TimeOffsetMinutes', '45'),
+  config('MatchingPolicy', 'MatchByLocation', 'true'),
+  config('notifications', 'WebhookUrl', 'https://hooks.example.com/a?b=1#c'),
+  config('custom', 'Greeting', 'He said "hi": it\'s # not a comment'),
+];
+const now = new Date('2026-10-19T08:00:00Z');
+
+describe('buildBundle', () => {
+  it('groups the selected categories by key', () => {
+    expect(buildBundle(configs, ['MatchingPolicy'], now)).toEqual({
+      version: 1,
+      exportedAtUtc: '2026-10-19T08:00:00.000Z',
+      categories: { MatchingPolicy: { TimeOffsetMinutes: '45', MatchByLocation: 'true' } },
+    });
+  });
+
+  it('lists categories once, sorted', () => {
+    expect(configurationCategories(configs)).toEqual(['MatchingPolicy', 'custom', 'notifications']);
+  });
+});
+
+describe('serializeBundle and parseBundle', () => {
+  const bundle = buildBundle(configs, configurationCategories(configs), now);
+
+  it.each(['json', 'yaml'] as const)('round-trips every value through %s', (format) => {
+    expect(parseBundle(serializeBundle(bundle, format))).toEqual(bundle);
+  });
+
+  it('writes YAML with quoted values', () => {
+    expect(serializeBundle(buildBundle(configs, ['MatchingPolicy'], now), 'yaml')).toBe(
+      '# AIPatterner configuration bundle\n' +
+        'version: 1\n' +
+        'exportedAtUtc: "2026-10-19T08:00:00.000Z"\n' +
+        'categories:\n' +
+        '  MatchingPolicy:\n' +
+        '    TimeOffsetMinutes: "45"\n' +
+        '    MatchByLocation: "true"\n'
+    );
+  });
+
+  it('reads hand-written YAML with plain values, comments and empty values', () => {
+    const text = [
+      'version: 1',
+      'categories:',
+      '  # Matching',
+      '  MatchingPolicy:',
+      '    TimeOffsetMinutes: 30   # minutes',
+      "    MatchByLocation: 'false'",
+      '  notifications:',
+      '    WebhookUrl:',
+      '  llm:',
+    ].join('\n');
+
+    expect(parseBundle(text).categories).toEqual({
+      MatchingPolicy: { TimeOffsetMinutes: '30', MatchByLocation: 'false' },
+      notifications: { WebhookUrl: '' },
+    });
+  });
+
+  it('reads plain JSON numbers and booleans as strings', () => {
+    const text = JSON.stringify({ version: 1, categories: { Routine: { ObservationWindowMinutes: 45, Enabled: true } } });
+    expect(parseBundle(text).categories).toEqual({ Routine: { ObservationWindowMinutes: '45', Enabled: 'true' } });
+  });
+
+  it.each([
+    ['', 'The file is empty'],
+    ['{"version": 1,', 'Invalid JSON'],
+    ['version: 2\ncategories:\n  a:\n    b: "c"', 'Unsupported bundle version: 2'],
+    ['version: 1\ncategories:\n  a:\n    - b', 'Expected a to map keys to values'],
+    ['version: 1\ncategories:\n  a:\n    b: "c"\n      d: "e"', 'Line 5: All mapping items must start at the same column'],
+    ['version: 1\ncategories:\n  a:\n    b: "c"\n    b: "d"', 'Line 5: Map keys must be unique'],
+    ['version: 1\ncategories:\n  a:\n    b:\n      c: "d"', 'Expected a.b to be a single value'],
+  ])('rejects %j', (text, message) => {
+    expect(() => parseBundle(text)).toThrow(message);
+  });
+});
+
+describe('bundleEntries', () => {
+  it('flattens only the chosen categories', () => {
+    const bundle = buildBundle(configs, configurationCategories(configs), now);
+    expect(bundleEntries(bundle, ['notifications'])).toEqual([
+      { category: 'notifications', key: 'WebhookUrl', value: 'https://hooks.example.com/a?b=1#c' },
+    ]);
+  });
+});
+
+describe('summarizeImport', () => {
+  it('counts results by status', () => {
+    const result = (status: ConfigurationImportStatus) => ({ category: 'c', key: 'k', newValue: 'v', status });
+    expect(
+      summarizeImport([
+        result(ConfigurationImportStatus.Changed),
+        result(ConfigurationImportStatus.Changed),
+        result(ConfigurationImportStatus.Invalid),
+      ])
+    ).toEqual({ Added: 0, Changed: 2, Unchanged: 0, Invalid: 1 });
+  });
+});
@@ -0,0 +1,55 @@
+// Tests for describing configuration changes and rollbacks
+import { describeRollback, formatConfigValue, historyKeys } from '../configurationHistory';
+import { ConfigurationChangeType } from '@/types';
+import type { ConfigurationChangeDto, ConfigurationDiffDto } from '@/types';
+
+const change = (key: string, newValue: string): ConfigurationChangeDto => ({
+  id: `${key}-${newValue}`,
+  configurationId: key,
+  category: 'MatchingPolicy',
+  key,
+  newValue,
+  changeType: ConfigurationChangeType.Updated,
+  changedAtUtc: '2026-10-19T08:00:00Z',
+});
+
+describe('historyKeys', () => {
+  it('lists each key once, sorted', () => {
+    expect(
+      historyKeys([change('TimeOffsetMinutes', '45'), change('MatchByLocation', 'true'), change('TimeOffsetMinutes', '30')])
+    ).toEqual(['MatchByLocation', 'TimeOffsetMinutes']);
+  });
+});
+
+describe('formatConfigValue', () => {
+  it('distinguishes empty values from missing ones', () => {
+    expect(formatConfigValue('')).toBe('(empty)');
+    expect(formatConfigValue(undefined)).toBe('(not set)');
+    expect(formatConfigValue('30')).toBe('30');
+  });
+});
+
+describe('describeRollback', () => {
+  const diff: ConfigurationDiffDto = {
+    changeId: 'c1',
+    category: 'MatchingPolicy',
+    asOfUtc: '2026-10-19T08:00:00Z',
+    entries: [
+      { key: 'MatchByLocation', currentValue: 'true', restoredValue: 'true', changed: false },
+      { key: 'TimeOffsetMinutes', currentValue: '45', restoredValue: '30', changed: true },
+      { key: 'MatchByTimeBucket', currentValue: 'false', changed: false },
+    ],
+  };
+
+  it('lists the values that would change and the keys left as they are', () => {
+    expect(describeRollback(diff)).toBe(
+      'Restore 1 value in MatchingPolicy?\n\n' +
+        'TimeOffsetMinutes: 45 → 30\n' +
+        'Not set at that point, left as they are: MatchByTimeBucket'
+    );
+  });
+
+  it('returns null when the values already match', () => {
+    expect(describeRollback({ ...diff, entries: [diff.entries[0]] })).toBeNull();
+  });
+});
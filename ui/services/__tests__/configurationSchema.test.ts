@@ -0,0 +1,141 @@
+// Tests for building settings forms from the configuration schema
+import {
+  changedSettings,
+  currentSettingValues,
+  groupTab,
+  settingGroups,
+  settingStep,
+  validateSetting,
+} from '../configurationSchema';
+import { ConfigurationValueType } from '@/types';
+import type { Configuration, ConfigurationKeySchemaDto } from '@/types';
+
+const definition = (
+  category: string,
+  key: string,
+  type: ConfigurationValueType,
+  defaultValue: string,
+  extra: Partial<ConfigurationKeySchemaDto> = {}
+): ConfigurationKeySchemaDto => ({
+  category,
+  key,
+  type,
+  defaultValue,
+  restartRequired: false,
+  group: 'Signals & Timing',
+  section: category === 'DelayLearning' ? 'Delay learning' : 'Signal matching',
+  label: key,
+  description: '',
+  ...extra,
+});
+
+const SCHEMA: ConfigurationKeySchemaDto[] = [
+  definition('MatchingPolicy', 'SignalSelectionEnabled', ConfigurationValueType.Boolean, 'true'),
+  definition('MatchingPolicy', 'SignalSelectionLimit', ConfigurationValueType.Integer, '10', { min: 1, max: 100 }),
+  definition('MatchingPolicy', 'SignalSimilarityThreshold', ConfigurationValueType.Number, '0.7', { min: 0, max: 1 }),
+  definition('DelayLearning', 'BaseAlpha', ConfigurationValueType.Number, '0.2', { min: 0.01, max: 0.5 }),
+  definition('DelayLearning', 'HalfLifeDays', ConfigurationValueType.Number, '30', { min: 1, max: 365 }),
+  definition('DelayLearning', 'MaxEvidenceItems', ConfigurationValueType.Integer, '200', { min: 1, max: 1000 }),
+  definition('notifications', 'WebhookUrl', ConfigurationValueType.Url, '', { group: 'Notifications', section: 'Webhook' }),
+  definition('Policy', 'MinDailyEvidence', ConfigurationValueType.Integer, '3', {
+    min: 1,
+    max: 100,
+    restartRequired: true,
+    setting: 'Policy:MinDailyEvidence',
+    group: 'Reminders',
+    section: 'Pattern inference',
+  }),
+];
+const field = (key: string) => SCHEMA.find((f) => f.key === key) as ConfigurationKeySchemaDto;
+
+const stored = (category: string, key: string, value: string): Configuration => ({
+  id: key,
+  category,
+  key,
+  value,
+  createdAtUtc: '2026-10-19T08:00:00Z',
+  updatedAtUtc: '2026-10-19T08:00:00Z',
+});
+
+describe('settingGroups', () => {
+  it('groups fields into tabs and sections in schema order', () => {
+    const groups = settingGroups(SCHEMA);
+    expect(groups.map((g) => [g.tab, g.label])).toEqual([
+      ['signals-timing', 'Signals & Timing'],
+      ['notifications', 'Notifications'],
+      ['reminders', 'Reminders'],
+    ]);
+    expect(groups[0].sections.map((s) => [s.title, s.fields.length])).toEqual([
+      ['Signal matching', 3],
+      ['Delay learning', 3],
+    ]);
+  });
+
+  it('turns group names into tab values', () => {
+    expect(groupTab('LLM')).toBe('llm');
+    expect(groupTab('Signals & Timing')).toBe('signals-timing');
+  });
+});
+
+describe('settingStep', () => {
+  it('steps by whole numbers, hundredths for fractions of one, and freely otherwise', () => {
+    expect(settingStep(field('MaxEvidenceItems'))).toBe(1);
+    expect(settingStep(field('BaseAlpha'))).toBe(0.01);
+    expect(settingStep(field('HalfLifeDays'))).toBe('any');
+  });
+});
+
+describe('validateSetting', () => {
+  it('accepts values of the right type within range', () => {
+    expect(validateSetting(field('SignalSimilarityThreshold'), '0.85')).toBeNull();
+    expect(validateSetting(field('MaxEvidenceItems'), '500')).toBeNull();
+    expect(validateSetting(field('SignalSelectionEnabled'), 'false')).toBeNull();
+    expect(validateSetting(field('WebhookUrl'), 'https://hooks.example.com/reminders')).toBeNull();
+    expect(validateSetting(field('WebhookUrl'), '')).toBeNull();
+  });
+
+  it('explains what is wrong', () => {
+    expect(validateSetting(field('SignalSimilarityThreshold'), '')).toBe('Enter a number');
+    expect(validateSetting(field('MaxEvidenceItems'), '12.5')).toBe('Enter a whole number');
+    expect(validateSetting(field('BaseAlpha'), '0.9')).toBe('Enter a value between 0.01 and 0.5');
+    expect(validateSetting(field('WebhookUrl'), 'hooks.example.com')).toBe('Enter an http or https URL');
+  });
+});
+
+describe('currentSettingValues', () => {
+  it('uses stored values and falls back to the defaults', () => {
+    const values = currentSettingValues(SCHEMA, [stored('DelayLearning', 'HalfLifeDays', '14')]);
+    expect(values['DelayLearning.HalfLifeDays']).toBe('14');
+    expect(values['DelayLearning.BaseAlpha']).toBe('0.2');
+  });
+
+  it('shows the server value of restart-required settings even when one is stored', () => {
+    const values = currentSettingValues(SCHEMA, [stored('Policy', 'MinDailyEvidence', '9')]);
+    expect(values['Policy.MinDailyEvidence']).toBe('3');
+  });
+});
+
+describe('changedSettings', () => {
+  const configs = [stored('DelayLearning', 'HalfLifeDays', '14')];
+
+  it('returns nothing when every value matches what is stored or its default', () => {
+    expect(changedSettings(SCHEMA, currentSettingValues(SCHEMA, configs), configs)).toEqual([]);
+  });
+
+  it('includes edited values and a stored value reset to its default', () => {
+    const values = {
+      ...currentSettingValues(SCHEMA, configs),
+      'DelayLearning.HalfLifeDays': '30',
+      'MatchingPolicy.SignalSelectionLimit': ' 5 ',
+    };
+    expect(changedSettings(SCHEMA, values, configs)).toEqual([
+      { category: 'MatchingPolicy', key: 'SignalSelectionLimit', value: '5' },
+      { category: 'DelayLearning', key: 'HalfLifeDays', value: '30' },
+    ]);
+  });
+
+  it('never sends restart-required settings', () => {
+    const values = { ...currentSettingValues(SCHEMA, configs), 'Policy.MinDailyEvidence': '5' };
+    expect(changedSettings(SCHEMA, values, configs)).toEqual([]);
+  });
+});
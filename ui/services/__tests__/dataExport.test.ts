@@ -0,0 +1,68 @@
+// Unit tests for paginated CSV/JSON export
+import { exportFileName, exportToCsvParts, exportToJsonParts, forEachPage, toCsvRow } from '../dataExport';
+
+const pagesOf = <T,>(items: T[], pageSize: number) => {
+  const calls: number[] = [];
+  const fetchPage = async (page: number) => {
+    calls.push(page);
+    return { items: items.slice((page - 1) * pageSize, page * pageSize), totalCount: items.length };
+  };
+  return { calls, fetchPage };
+};
+
+describe('forEachPage', () => {
+  it('fetches until totalCount is reached and reports progress', async () => {
+    const { calls, fetchPage } = pagesOf([1, 2, 3, 4, 5], 2);
+    const seen: number[] = [];
+    const progress: [number, number][] = [];
+
+    const loaded = await forEachPage(fetchPage, (items) => seen.push(...items), (l, t) => progress.push([l, t]), 2);
+
+    expect(loaded).toBe(5);
+    expect(seen).toEqual([1, 2, 3, 4, 5]);
+    expect(calls).toEqual([1, 2, 3]);
+    expect(progress).toEqual([[2, 5], [4, 5], [5, 5]]);
+  });
+
+  it('stops on an empty page even if totalCount says there is more', async () => {
+    const fetchPage = jest.fn(async () => ({ items: [], totalCount: 10 }));
+    expect(await forEachPage(fetchPage, () => {})).toBe(0);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('CSV export', () => {
+  it('quotes cells containing delimiters, quotes or newlines', () => {
+    expect(toCsvRow(['plain', 'a,b', 'say "hi"', 'two\nlines', null, 3, true])).toBe(
+      'plain,"a,b","say ""hi""","two\nlines",,3,true'
+    );
+  });
+
+  it('writes a header and one row per item', async () => {
+    const { fetchPage } = pagesOf([{ id: 'a', n: 1 }, { id: 'b', n: 2 }], 1);
+    const parts = await exportToCsvParts(fetchPage, [
+      { header: 'id', value: (item) => item.id },
+      { header: 'n', value: (item) => item.n },
+    ]);
+    expect(parts.join('')).toBe('id,n\na,1\nb,2');
+  });
+});
+
+describe('JSON export', () => {
+  it('writes a valid array across pages', async () => {
+    const items = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+    const { fetchPage } = pagesOf(items, 2);
+    expect(JSON.parse((await exportToJsonParts(fetchPage)).join(''))).toEqual(items);
+  });
+
+  it('writes an empty array when nothing matches', async () => {
+    const { fetchPage } = pagesOf([], 2);
+    expect((await exportToJsonParts(fetchPage)).join('')).toBe('[]');
+  });
+});
+
+describe('exportFileName', () => {
+  it('stamps the name with a filesystem-safe UTC time', () => {
+    expect(exportFileName('events', 'csv', new Date('2024-03-05T07:08:09.123Z'))).toBe('events-2024-03-05T07-08-09.csv');
+  });
+});
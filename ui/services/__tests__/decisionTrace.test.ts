@@ -0,0 +1,85 @@
+// Tests for laying out reminder check decision traces as a per-gate timeline
+import { decidingStep, formatStepMeasure, toTimelineRows } from '../decisionTrace';
+import { DecisionGate, DecisionStepOutcome } from '@/types';
+import type { DecisionTraceStepDto } from '@/types';
+
+const step = (
+  gate: DecisionGate,
+  outcome: DecisionStepOutcome,
+  value?: number,
+  threshold?: number
+): DecisionTraceStepDto => ({ gate, outcome, value, threshold, detail: '' });
+
+describe('toTimelineRows', () => {
+  it('marks the gates after a failure as not reached', () => {
+    const rows = toTimelineRows([
+      step(DecisionGate.DueTime, DecisionStepOutcome.Passed),
+      step(DecisionGate.MinimumProbability, DecisionStepOutcome.Passed, 0.8, 0.7),
+      step(DecisionGate.ExecutionAction, DecisionStepOutcome.Skipped, 0.8, 0.7),
+      step(DecisionGate.Preferences, DecisionStepOutcome.Passed),
+      step(DecisionGate.Cooldown, DecisionStepOutcome.Failed),
+    ]);
+
+    expect(rows.map((r) => r.state)).toEqual([
+      DecisionStepOutcome.Passed,
+      DecisionStepOutcome.Passed,
+      DecisionStepOutcome.Skipped,
+      DecisionStepOutcome.Passed,
+      DecisionStepOutcome.Failed,
+      'NotReached',
+      'NotReached',
+      'NotReached',
+      'NotReached',
+    ]);
+    expect(rows[5]).toEqual({ gate: DecisionGate.DailyLimit, state: 'NotReached', step: null });
+  });
+
+  it('keeps pipeline order whatever order the steps arrive in', () => {
+    const rows = toTimelineRows([
+      step(DecisionGate.MinimumProbability, DecisionStepOutcome.Failed, 0.4, 0.7),
+      step(DecisionGate.DueTime, DecisionStepOutcome.Passed),
+    ]);
+
+    expect(rows[0].gate).toBe(DecisionGate.DueTime);
+    expect(rows[1].state).toBe(DecisionStepOutcome.Failed);
+  });
+});
+
+describe('decidingStep', () => {
+  it('returns the first failed gate, or null when every gate passed', () => {
+    const failed = step(DecisionGate.DailyLimit, DecisionStepOutcome.Failed, 5, 5);
+
+    expect(decidingStep({ steps: [step(DecisionGate.DueTime, DecisionStepOutcome.Passed), failed] })).toBe(failed);
+    expect(decidingStep({ steps: [step(DecisionGate.DueTime, DecisionStepOutcome.Passed)] })).toBeNull();
+  });
+});
+
+describe('formatStepMeasure', () => {
+  it('formats value and threshold in each gate’s units', () => {
+    expect(formatStepMeasure(step(DecisionGate.MinimumProbability, DecisionStepOutcome.Failed, 0.42, 0.7))).toBe(
+      'Confidence 42%, threshold 70%'
+    );
+    expect(formatStepMeasure(step(DecisionGate.DailyLimit, DecisionStepOutcome.Passed, 3, 5))).toBe(
+      '3 sent today, limit 5'
+    );
+    expect(formatStepMeasure(step(DecisionGate.MinimumInterval, DecisionStepOutcome.Failed, 12.345, 30))).toBe(
+      '12.3 min since the last reminder, minimum 30 min'
+    );
+    expect(formatStepMeasure(step(DecisionGate.InterruptionCost, DecisionStepOutcome.Passed, 0.3, 0.7))).toBe(
+      'Cost 0.30, maximum 0.70'
+    );
+  });
+
+  it('shows only the threshold when nothing was measured', () => {
+    expect(formatStepMeasure(step(DecisionGate.SignalSimilarity, DecisionStepOutcome.Skipped, undefined, 0.8))).toBe(
+      'Threshold 80%'
+    );
+    expect(formatStepMeasure(step(DecisionGate.MinimumInterval, DecisionStepOutcome.Passed, undefined, 15))).toBe(
+      'Minimum 15 min'
+    );
+  });
+
+  it('returns null for gates that compare nothing', () => {
+    expect(formatStepMeasure(step(DecisionGate.Cooldown, DecisionStepOutcome.Passed))).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+// Tests for laying out a routine reminder's delay histogram
+import { binLabel, delayToBinPosition, emaBand, formatDelay } from '../delayHistogram';
+import type { DelayHistogramBinDto } from '@/types';
+
+const bins: DelayHistogramBinDto[] = [
+  { lowerBoundSeconds: 0, upperBoundSeconds: 30, weight: 1, isOverflow: false },
+  { lowerBoundSeconds: 30, upperBoundSeconds: 60, weight: 0, isOverflow: false },
+  { lowerBoundSeconds: 60, upperBoundSeconds: 120, weight: 2.5, isOverflow: false },
+  { lowerBoundSeconds: 120, upperBoundSeconds: 7200, weight: 0.3, isOverflow: true },
+];
+
+describe('formatDelay', () => {
+  it('uses the two largest units that matter', () => {
+    expect(formatDelay(45)).toBe('45s');
+    expect(formatDelay(90)).toBe('1m30s');
+    expect(formatDelay(600)).toBe('10m');
+    expect(formatDelay(4500)).toBe('1h15m');
+    expect(formatDelay(7200)).toBe('2h');
+  });
+});
+
+describe('binLabel', () => {
+  it('labels bins by upper bound and the overflow bin by its lower bound', () => {
+    expect(binLabel(bins[2])).toBe('≤2m');
+    expect(binLabel(bins[3])).toBe('2m+');
+  });
+});
+
+describe('delayToBinPosition', () => {
+  it('places delays linearly inside their bin', () => {
+    expect(delayToBinPosition(15, bins)).toBe(0.5);
+    expect(delayToBinPosition(90, bins)).toBe(2.5);
+    expect(delayToBinPosition(60, bins)).toBe(2);
+  });
+
+  it('clamps delays past the last bin to the end', () => {
+    expect(delayToBinPosition(10000, bins)).toBe(4);
+  });
+});
+
+describe('emaBand', () => {
+  it('spans one standard deviation either side, never below zero', () => {
+    expect(emaBand(100, 400)).toEqual({ low: 80, high: 120 });
+    expect(emaBand(10, 400)).toEqual({ low: 0, high: 30 });
+  });
+
+  it('is null until both the mean and the variance are known', () => {
+    expect(emaBand(100, null)).toBeNull();
+    expect(emaBand(undefined, 400)).toBeNull();
+  });
+});
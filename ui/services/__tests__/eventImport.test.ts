@@ -0,0 +1,210 @@
+// Unit tests for bulk event import parsing, mapping and dry-run checks
+import {
+  buildImportRows,
+  chunk,
+  detectImportFormat,
+  markDuplicates,
+  parseCsv,
+  parseImportSource,
+  reconcileFailedBatch,
+  suggestMapping,
+  toErrorReportCsv,
+} from '../eventImport';
+import { EventType } from '@/types';
+import type { ActionEventListDto } from '@/types';
+
+describe('parseCsv', () => {
+  it('handles quoted cells, escaped quotes and embedded newlines', () => {
+    expect(parseCsv('a,b,c\r\n"x, y","say ""hi""","line 1\nline 2"\n\n1,2,3\n')).toEqual([
+      ['a', 'b', 'c'],
+      ['x, y', 'say "hi"', 'line 1\nline 2'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('picks up semicolon and tab delimiters from the header', () => {
+    expect(parseCsv('a;b\n1;2')).toEqual([['a', 'b'], ['1', '2']]);
+    expect(parseCsv('a\tb\n1\t2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('detectImportFormat', () => {
+  it('uses the file extension, then the content', () => {
+    expect(detectImportFormat('{}', 'events.csv')).toBe('csv');
+    expect(detectImportFormat('a,b', 'events.jsonl')).toBe('ndjson');
+    expect(detectImportFormat('{"personId":"alex"}\n{"personId":"sam"}')).toBe('ndjson');
+    expect(detectImportFormat('[{"personId":"alex","actionType":"play_music"}]')).toBe('ndjson');
+    expect(detectImportFormat('[[{"entity_id":"light.kitchen","state":"on"}]]')).toBe('home-assistant');
+    expect(detectImportFormat('personId,actionType')).toBe('csv');
+  });
+});
+
+describe('buildImportRows', () => {
+  it('maps CSV columns onto events, deriving context and reading signals', () => {
+    const source = parseImportSource(
+      [
+        'person,action,timestamp,room,present_people,sensor.presence.kitchen,sensor.temp.kitchen',
+        'alex,play_music,2026-10-19T19:30:00Z,kitchen,alex;sam,on,21.5',
+        'sam,,2026-10-19T08:00:00Z,,,,',
+      ].join('\n'),
+      'csv'
+    );
+    if (source.format === 'ndjson') throw new Error('expected CSV');
+    const mapping = suggestMapping(source.columns);
+
+    expect(mapping).toMatchObject({
+      personId: 'person',
+      actionType: 'action',
+      timestampUtc: 'timestamp',
+      location: 'room',
+      presentPeople: 'present_people',
+      signalColumns: ['sensor.presence.kitchen', 'sensor.temp.kitchen'],
+    });
+
+    const rows = buildImportRows(source, mapping);
+
+    // Oldest first
+    expect(rows.map((row) => row.rowNumber)).toEqual([3, 2]);
+    expect(rows[0].errors).toEqual(['ActionType is required']);
+    expect(rows[1].errors).toEqual([]);
+    expect(rows[1].event).toMatchObject({
+      personId: 'alex',
+      actionType: 'play_music',
+      eventType: EventType.Action,
+      timestampUtc: '2026-10-19T19:30:00.000Z',
+      context: { location: 'kitchen', presentPeople: ['alex', 'sam'] },
+      signalStates: [
+        { sensorId: 'sensor.presence.kitchen', value: 'on' },
+        { sensorId: 'sensor.temp.kitchen', value: 21.5 },
+      ],
+    });
+    expect(rows[1].event?.context.timeBucket).toBeTruthy();
+    expect(rows[1].event?.context.dayType).toBeTruthy();
+  });
+
+  it('flattens Home Assistant history into chronological rows with an action and entity columns', () => {
+    const source = parseImportSource(
+      JSON.stringify([
+        [{ entity_id: 'light.kitchen', state: 'on', last_changed: '2026-10-19T07:05:00Z', attributes: {} }],
+        [{ entity_id: 'media_player.living_room', state: 'playing', last_changed: '2026-10-19T07:00:00Z' }],
+      ]),
+      'home-assistant'
+    );
+    if (source.format === 'ndjson') throw new Error('expected Home Assistant rows');
+
+    expect(source.columns).toEqual(
+      expect.arrayContaining(['when', 'entity_id', 'state', 'action', 'light.kitchen', 'media_player.living_room'])
+    );
+
+    const rows = buildImportRows(source, {
+      ...suggestMapping(source.columns),
+      actionType: 'action',
+      defaultPersonId: 'alex',
+    });
+
+    expect(rows.map((row) => row.event?.actionType)).toEqual(['living_room_playing', 'kitchen_on']);
+    expect(rows.every((row) => row.event?.personId === 'alex')).toBe(true);
+  });
+
+  it('validates NDJSON records and reports the line of each problem', () => {
+    const source = parseImportSource(
+      [
+        JSON.stringify({
+          personId: 'alex',
+          actionType: 'play_music',
+          timestampUtc: '2026-10-19T19:30:00Z',
+          context: { timeBucket: 'evening', dayType: 'weekday' },
+          signalStates: [{ sensorId: 'sensor.presence.kitchen', value: 'on' }],
+        }),
+        'not json',
+        JSON.stringify({ actionType: 'lock_doors', timestampUtc: 'yesterday' }),
+        JSON.stringify({ actionType: 'lock_doors', timestampUtc: '2026-10-19T23:00:00Z', eventType: 'Other' }),
+      ].join('\n'),
+      'ndjson'
+    );
+
+    const rows = buildImportRows(source, { ...suggestMapping([]), defaultPersonId: 'sam' });
+    const byLine = Object.fromEntries(rows.map((row) => [row.rowNumber, row]));
+
+    expect(byLine[1].errors).toEqual([]);
+    expect(byLine[1].event?.context).toEqual({ timeBucket: 'evening', dayType: 'weekday' });
+    expect(byLine[2].errors).toEqual(['Line is not valid JSON']);
+    expect(byLine[3].errors).toEqual(['timestampUtc is missing or invalid']);
+    expect(byLine[4].event?.personId).toBe('sam');
+    expect(byLine[4].errors).toEqual(['EventType must be Action or StateChange']);
+  });
+});
+
+describe('markDuplicates', () => {
+  it('flags events that already exist or repeat earlier in the file', () => {
+    const source = parseImportSource(
+      [
+        'personId,actionType,timestamp',
+        'alex,play_music,2026-10-19T19:30:00Z',
+        'alex,play_music,2026-10-19T19:30:00.400Z',
+        'alex,lock_doors,2026-10-19T22:00:00Z',
+      ].join('\n'),
+      'csv'
+    );
+    if (source.format === 'ndjson') throw new Error('expected CSV');
+    const existing = {
+      personId: 'alex',
+      actionType: 'lock_doors',
+      timestampUtc: '2026-10-19T22:00:00Z',
+    } as ActionEventListDto;
+
+    const rows = markDuplicates(buildImportRows(source, suggestMapping(source.columns)), [existing]);
+
+    expect(rows.map((row) => row.isDuplicate)).toEqual([false, true, true]);
+  });
+});
+
+describe('reconcileFailedBatch', () => {
+  const row = (rowNumber: number, actionType: string, isDuplicate = false) => ({
+    rowNumber,
+    event: {
+      personId: 'alex',
+      actionType,
+      timestampUtc: '2026-10-19T19:30:00Z',
+      eventType: EventType.Action,
+      context: { timeBucket: 'evening', dayType: 'weekday' },
+    },
+    errors: [],
+    isDuplicate,
+  });
+  const onServer = (actionType: string) =>
+    ({ personId: 'alex', actionType, timestampUtc: '2026-10-19T19:30:00.250Z' }) as ActionEventListDto;
+
+  it('resends only the rows the server does not have yet', () => {
+    const rows = [row(2, 'play_music'), row(3, 'play_music'), row(4, 'lock_doors'), row(5, 'dim_lights', true)];
+
+    const result = reconcileFailedBatch(rows, [onServer('play_music'), onServer('dim_lights')]);
+
+    expect(result.saved.map((r) => r.rowNumber)).toEqual([2]);
+    expect(result.pending.map((r) => r.rowNumber)).toEqual([3, 4]);
+    expect(result.unconfirmed.map((r) => r.rowNumber)).toEqual([5]);
+  });
+});
+
+describe('chunk and error report', () => {
+  it('splits rows into chunks and writes a quoted CSV report', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(
+      toErrorReportCsv([
+        {
+          rowNumber: 4,
+          event: {
+            personId: 'alex',
+            actionType: 'play_music',
+            timestampUtc: '2026-10-19T19:30:00.000Z',
+            eventType: EventType.Action,
+            context: { timeBucket: 'evening', dayType: 'weekday' },
+          },
+          error: 'Access denied, "alex"',
+        },
+      ])
+    ).toBe(
+      'row,personId,actionType,timestampUtc,error\n4,alex,play_music,2026-10-19T19:30:00.000Z,"Access denied, ""alex"""'
+    );
+  });
+});
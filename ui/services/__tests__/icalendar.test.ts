@@ -0,0 +1,66 @@
+// Unit tests for the iCalendar reminder export
+import { occurrenceToRRule, toICalendar } from '../icalendar';
+import { noPatternEvidence } from '../patternInference';
+import { ReminderCandidateStatus, ReminderStyle } from '@/types';
+import type { ReminderCandidateDto } from '@/types';
+
+const reminder = (overrides: Partial<ReminderCandidateDto> = {}): ReminderCandidateDto => ({
+  id: 'r1',
+  personId: 'alex',
+  suggestedAction: 'Make tea',
+  checkAtUtc: '2024-01-15T19:30:00Z',
+  style: ReminderStyle.Suggest,
+  status: ReminderCandidateStatus.Scheduled,
+  confidence: 0.8,
+  isSafeToAutoExecute: false,
+  signalProfileSamplesCount: 0,
+  ...noPatternEvidence(),
+  ...overrides,
+});
+
+describe('occurrenceToRRule', () => {
+  it.each([
+    ['daily at 19:30', 'FREQ=DAILY'],
+    ['weekdays at 07:00', 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'],
+    ['weekends at 10:00', 'FREQ=WEEKLY;BYDAY=SA,SU'],
+    ['every 3 days at 18:00', 'FREQ=DAILY;INTERVAL=3'],
+    ['every Friday, Monday at 7:00', 'FREQ=WEEKLY;BYDAY=MO,FR'],
+  ])('maps "%s"', (occurrence, rrule) => {
+    expect(occurrenceToRRule(occurrence)).toBe(rrule);
+  });
+
+  it('returns null for one-off and unparseable reminders', () => {
+    expect(occurrenceToRRule(undefined)).toBeNull();
+    expect(occurrenceToRRule('  ')).toBeNull();
+    expect(occurrenceToRRule('every 2 weeks')).toBeNull();
+  });
+});
+
+describe('toICalendar', () => {
+  const now = new Date('2024-01-10T12:00:00Z');
+
+  it('writes one VEVENT per reminder with CRLF line endings', () => {
+    const ics = toICalendar([reminder(), reminder({ id: 'r2', occurrence: 'weekdays at 07:00' })], now);
+    const lines = ics.split('\r\n');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('UID:r1@aipatterner');
+    expect(lines).toContain('DTSTART:20240115T193000Z');
+    expect(lines).toContain('DTSTAMP:20240110T120000Z');
+    expect(lines).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR');
+    expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2);
+    expect(lines.filter((line) => line.startsWith('RRULE:'))).toHaveLength(1);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('escapes text and folds long lines', () => {
+    const ics = toICalendar([reminder({ suggestedAction: `Tea, biscuits; ${'x'.repeat(100)}` })], now);
+
+    expect(ics).toContain('SUMMARY:Tea\\, biscuits\\; x');
+    for (const line of ics.split('\r\n')) {
+      expect(line.length).toBeLessThanOrEqual(75);
+    }
+    // Unfolding restores the original line
+    expect(ics.replace(/\r\n /g, '')).toContain(`SUMMARY:Tea\\, biscuits\\; ${'x'.repeat(100)}\r\n`);
+  });
+});
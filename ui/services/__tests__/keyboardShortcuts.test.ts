@@ -0,0 +1,54 @@
+// Tests for the global and list keyboard shortcuts
+import { isCommandPaletteShortcut, isEditableTarget, listShortcut } from '../keyboardShortcuts';
+
+const key = (value: string, overrides: Partial<KeyboardEvent> = {}) =>
+  ({ key: value, ctrlKey: false, metaKey: false, altKey: false, target: null, ...overrides }) as KeyboardEvent;
+
+const element = (tagName: string, isContentEditable = false) =>
+  ({ tagName, isContentEditable }) as unknown as HTMLElement;
+
+describe('isCommandPaletteShortcut', () => {
+  it('accepts Ctrl+K and Cmd+K', () => {
+    expect(isCommandPaletteShortcut(key('k', { ctrlKey: true }))).toBe(true);
+    expect(isCommandPaletteShortcut(key('K', { metaKey: true }))).toBe(true);
+  });
+
+  it('ignores a plain or Alt-modified k', () => {
+    expect(isCommandPaletteShortcut(key('k'))).toBe(false);
+    expect(isCommandPaletteShortcut(key('k', { ctrlKey: true, altKey: true }))).toBe(false);
+  });
+});
+
+describe('isEditableTarget', () => {
+  it('treats form fields and contenteditable as editable', () => {
+    expect(isEditableTarget(element('INPUT'))).toBe(true);
+    expect(isEditableTarget(element('TEXTAREA'))).toBe(true);
+    expect(isEditableTarget(element('DIV', true))).toBe(true);
+    expect(isEditableTarget(element('DIV'))).toBe(false);
+    expect(isEditableTarget(null)).toBe(false);
+  });
+});
+
+describe('listShortcut', () => {
+  it('maps j, k, Enter, e, d and Escape', () => {
+    expect(['j', 'k', 'Enter', 'e', 'd', 'Escape'].map((value) => listShortcut(key(value)))).toEqual([
+      'next',
+      'previous',
+      'open',
+      'execute',
+      'delete',
+      'clear',
+    ]);
+    expect(listShortcut(key('x'))).toBeNull();
+  });
+
+  it('stays out of the way while typing or with modifiers', () => {
+    expect(listShortcut(key('j', { target: element('INPUT') }))).toBeNull();
+    expect(listShortcut(key('d', { ctrlKey: true }))).toBeNull();
+  });
+
+  it('lets Enter activate a focused button or link', () => {
+    expect(listShortcut(key('Enter', { target: element('BUTTON') }))).toBeNull();
+    expect(listShortcut(key('Enter', { target: element('DIV') }))).toBe('open');
+  });
+});
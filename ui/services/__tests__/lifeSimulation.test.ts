@@ -0,0 +1,126 @@
+// Unit tests for sandbox routine simulation and confidence curves
+import { appendConfidenceSnapshot, createRandom, simulateDays, toSandboxPersonId } from '../lifeSimulation';
+import type { SimulationScript } from '../lifeSimulation';
+import { noPatternEvidence } from '../patternInference';
+import { EventType, ReminderCandidateStatus, ReminderStyle } from '@/types';
+import type { ReminderCandidateDto, RoutineDetailDto } from '@/types';
+
+const script: SimulationScript = {
+  sandboxName: 'Anna',
+  intent: 'ArrivalHome',
+  startTime: '18:00',
+  startJitterMinutes: 0,
+  steps: [
+    { actionType: 'TurnOnLights', delayMinutes: 2, jitterMinutes: 0, location: 'hallway' },
+    { actionType: 'PlayMusic', delayMinutes: 10, jitterMinutes: 0, location: 'living_room' },
+  ],
+  days: 'weekdays',
+  periodDays: 14,
+  seed: 1,
+};
+
+// A Monday, so the two weeks before it hold ten weekdays
+const today = new Date(2026, 9, 19, 9, 30);
+
+describe('toSandboxPersonId', () => {
+  it('prefixes a slug of the name', () => {
+    expect(toSandboxPersonId(' Anna Smith ')).toBe('sandbox_anna_smith');
+    expect(toSandboxPersonId('***')).toBe('sandbox_person');
+  });
+});
+
+describe('createRandom', () => {
+  it('is deterministic per seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const values = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(values);
+    values.forEach((value) => expect(value).toBeGreaterThanOrEqual(0));
+    values.forEach((value) => expect(value).toBeLessThan(1));
+  });
+});
+
+describe('simulateDays', () => {
+  it('replays the routine on matching days before today', () => {
+    const days = simulateDays(script, today);
+
+    expect(days).toHaveLength(10);
+    expect(days[0].date).toBe('2026-10-05');
+    expect(days[days.length - 1].date).toBe('2026-10-16');
+
+    const [intent, lights, music] = days[0].events;
+    expect(intent).toMatchObject({ personId: 'sandbox_anna', actionType: 'ArrivalHome', eventType: EventType.StateChange });
+    expect(lights).toMatchObject({ actionType: 'TurnOnLights', eventType: EventType.Action });
+    expect(lights.context).toMatchObject({ timeBucket: 'evening', dayType: 'weekday', location: 'hallway' });
+    expect(new Date(lights.timestampUtc).getTime() - new Date(intent.timestampUtc).getTime()).toBe(2 * 60_000);
+    expect(new Date(music.timestampUtc).getTime() - new Date(lights.timestampUtc).getTime()).toBe(10 * 60_000);
+  });
+
+  it('keeps jittered events in order and within bounds', () => {
+    const days = simulateDays(
+      { ...script, days: 'everyDay', steps: [{ ...script.steps[0], delayMinutes: 1, jitterMinutes: 5 }] },
+      today
+    );
+
+    expect(days).toHaveLength(14);
+    days.forEach(({ events: [intent, action] }) => {
+      const gap = new Date(action.timestampUtc).getTime() - new Date(intent.timestampUtc).getTime();
+      expect(gap).toBeGreaterThanOrEqual(0);
+      expect(gap).toBeLessThanOrEqual(6 * 60_000);
+    });
+  });
+
+  it('starts with the first action when there is no intent', () => {
+    const [day] = simulateDays({ ...script, intent: '', days: 'weekends' }, today);
+
+    expect(day.date).toBe('2026-10-10');
+    expect(day.events.map((e) => e.actionType)).toEqual(['TurnOnLights', 'PlayMusic']);
+    expect(new Date(day.events[0].timestampUtc).getHours()).toBe(18);
+  });
+});
+
+describe('appendConfidenceSnapshot', () => {
+  const reminder = (confidence: number): ReminderCandidateDto => ({
+    id: 'r1',
+    personId: 'sandbox_anna',
+    suggestedAction: 'PlayMusic',
+    checkAtUtc: '2026-10-05T18:12:00Z',
+    style: ReminderStyle.Suggest,
+    status: ReminderCandidateStatus.Scheduled,
+    confidence,
+    occurrence: 'weekdays at 18:12',
+    isSafeToAutoExecute: false,
+    signalProfileSamplesCount: 0,
+    ...noPatternEvidence(),
+  });
+
+  const routine = (confidence: number): RoutineDetailDto =>
+    ({
+      id: 'routine1',
+      personId: 'sandbox_anna',
+      intentType: 'ArrivalHome',
+      createdAtUtc: '2026-10-05T18:00:00Z',
+      observationWindowMinutes: 45,
+      reminders: [{ id: 'rr1', suggestedAction: 'TurnOnLights', timeContextBucket: 'evening', confidence }],
+    }) as RoutineDetailDto;
+
+  it('adds a point per day and keeps curves in first-seen order', () => {
+    let curves = appendConfidenceSnapshot([], 0, [reminder(0.5)], []);
+    curves = appendConfidenceSnapshot(curves, 1, [reminder(0.6)], [routine(0.5)]);
+
+    expect(curves.map((c) => c.key)).toEqual(['reminder:r1', 'routine:rr1']);
+    expect(curves[0]).toMatchObject({ kind: 'reminder', label: 'PlayMusic (weekdays at 18:12)' });
+    expect(curves[0].points).toEqual([
+      { day: 0, confidence: 0.5 },
+      { day: 1, confidence: 0.6 },
+    ]);
+    expect(curves[1]).toMatchObject({ kind: 'routine', label: 'ArrivalHome → TurnOnLights (evening)' });
+    expect(curves[1].points).toEqual([{ day: 1, confidence: 0.5 }]);
+  });
+
+  it('does not change the curves it is given', () => {
+    const first = appendConfidenceSnapshot([], 0, [reminder(0.5)], []);
+    appendConfidenceSnapshot(first, 1, [reminder(0.6)], []);
+    expect(first[0].points).toHaveLength(1);
+  });
+});
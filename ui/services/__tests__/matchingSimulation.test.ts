@@ -0,0 +1,83 @@
+// Tests for the matching policy what-if helpers
+import { criteriaFromSettings, describeCriteriaChanges, eventHasChanges, hasMatchingCriteria } from '../matchingSimulation';
+import { ConfigurationValueType, MatchingSimulationChange } from '@/types';
+import type { ConfigurationKeySchemaDto, MatchingCriteria, MatchingSimulationEventDto } from '@/types';
+
+const VALUES: Record<string, string> = {
+  'MatchingPolicy.MatchByActionType': 'true',
+  'MatchingPolicy.MatchByDayType': 'true',
+  'MatchingPolicy.MatchByPeoplePresent': 'true',
+  'MatchingPolicy.MatchByStateSignals': 'false',
+  'MatchingPolicy.MatchByTimeBucket': 'false',
+  'MatchingPolicy.MatchByLocation': 'false',
+  'MatchingPolicy.TimeOffsetMinutes': ' 60 ',
+  'MatchingPolicy.SignalSelectionLimit': '10',
+};
+
+const SAVED: MatchingCriteria = {
+  matchByActionType: true,
+  matchByDayType: true,
+  matchByPeoplePresent: true,
+  matchByStateSignals: true,
+  matchByTimeBucket: false,
+  matchByLocation: false,
+  timeOffsetMinutes: 45,
+};
+
+describe('hasMatchingCriteria', () => {
+  const field = (category: string, key: string): ConfigurationKeySchemaDto => ({
+    category,
+    key,
+    type: ConfigurationValueType.Integer,
+    defaultValue: '45',
+    restartRequired: false,
+    group: 'Policies',
+    section: 'Matching criteria',
+    label: key,
+    description: '',
+  });
+
+  it('offers the simulation only on the tab that edits the time offset', () => {
+    expect(hasMatchingCriteria([field('MatchingPolicy', 'TimeOffsetMinutes')])).toBe(true);
+    expect(hasMatchingCriteria([field('MatchingPolicy', 'SignalSelectionLimit')])).toBe(false);
+  });
+});
+
+describe('criteriaFromSettings', () => {
+  it('reads the matching criteria from the form values', () => {
+    expect(criteriaFromSettings(VALUES)).toEqual({ ...SAVED, matchByStateSignals: false, timeOffsetMinutes: 60 });
+  });
+
+  it('returns null while the time offset is not a whole number of minutes', () => {
+    expect(criteriaFromSettings({ ...VALUES, 'MatchingPolicy.TimeOffsetMinutes': '' })).toBeNull();
+    expect(criteriaFromSettings({ ...VALUES, 'MatchingPolicy.TimeOffsetMinutes': '7.5' })).toBeNull();
+  });
+});
+
+describe('describeCriteriaChanges', () => {
+  it('lists each changed criterion', () => {
+    const proposed = criteriaFromSettings(VALUES) as MatchingCriteria;
+    expect(describeCriteriaChanges(SAVED, proposed)).toEqual(['State signals: on → off', 'Time offset: 45 → 60 min']);
+  });
+
+  it('is empty when nothing changed', () => {
+    expect(describeCriteriaChanges(SAVED, { ...SAVED })).toEqual([]);
+  });
+});
+
+describe('eventHasChanges', () => {
+  const event = (...changes: MatchingSimulationChange[]): MatchingSimulationEventDto => ({
+    eventId: 'e1',
+    actionType: 'make_coffee',
+    timestampUtc: '2026-10-18T07:30:00Z',
+    matchedBefore: 1,
+    matchedAfter: 1,
+    reminders: changes.map((change, i) => ({ reminderId: `r${i}`, suggestedAction: 'make_coffee', confidence: 0.6, change })),
+  });
+
+  it('is true when a reminder was gained or lost', () => {
+    expect(eventHasChanges(event(MatchingSimulationChange.Kept, MatchingSimulationChange.Lost))).toBe(true);
+    expect(eventHasChanges(event(MatchingSimulationChange.Kept))).toBe(false);
+    expect(eventHasChanges(event())).toBe(false);
+  });
+});
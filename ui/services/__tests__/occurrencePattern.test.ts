@@ -0,0 +1,78 @@
+// Unit tests for the OccurrencePatternParser port, using the same fixtures as the C# parser tests
+import {
+  calculateNextExecutionTime,
+  getUpcomingExecutionTimes,
+  parseOccurrencePattern,
+} from '../occurrencePattern';
+import fixtures from '../../../tests/fixtures/occurrence-patterns.json';
+
+interface OccurrencePatternFixture {
+  description: string;
+  pattern: string | null;
+  currentTime: string;
+  lastExecutionTime: string | null;
+  expected: string | null;
+}
+
+describe('calculateNextExecutionTime', () => {
+  it.each((fixtures as OccurrencePatternFixture[]).map((f) => [f.description, f] as const))(
+    '%s',
+    (_, fixture) => {
+      const result = calculateNextExecutionTime(
+        fixture.pattern,
+        new Date(fixture.currentTime),
+        fixture.lastExecutionTime ? new Date(fixture.lastExecutionTime) : null
+      );
+
+      expect(result?.toISOString() ?? null).toBe(
+        fixture.expected ? new Date(fixture.expected).toISOString() : null
+      );
+    }
+  );
+});
+
+describe('getUpcomingExecutionTimes', () => {
+  it('follows the scheduler from run to run', () => {
+    const runs = getUpcomingExecutionTimes(
+      'every Monday, Wednesday, Friday at 07:00',
+      new Date('2026-10-19T08:00:00Z'),
+      4
+    );
+
+    expect(runs.map((run) => run.toISOString())).toEqual([
+      '2026-10-21T07:00:00.000Z',
+      '2026-10-23T07:00:00.000Z',
+      '2026-10-26T07:00:00.000Z',
+      '2026-10-28T07:00:00.000Z',
+    ]);
+  });
+
+  it('returns nothing for patterns the scheduler cannot run', () => {
+    expect(getUpcomingExecutionTimes('every 2 weeks', new Date('2026-10-19T08:00:00Z'))).toEqual([]);
+  });
+});
+
+describe('parseOccurrencePattern', () => {
+  it('reads the frequency the scheduler will use', () => {
+    expect(parseOccurrencePattern('every 3 days at 18:00')).toEqual({
+      ok: true,
+      value: { frequency: 'everyXDays', intervalDays: 3, time: '18:00', isFallback: false },
+    });
+    expect(parseOccurrencePattern('every Friday, Monday at 7:00')).toEqual({
+      ok: true,
+      value: { frequency: 'weekly', days: [1, 5], time: '07:00', isFallback: false },
+    });
+  });
+
+  it('reports patterns without a valid time as errors', () => {
+    expect(parseOccurrencePattern('every 2 weeks').ok).toBe(false);
+    expect(parseOccurrencePattern('daily at 24:00').ok).toBe(false);
+  });
+
+  it('warns when the scheduler falls back to daily', () => {
+    const result = parseOccurrencePattern('monday at 09:00');
+
+    expect(result.ok && result.value.isFallback).toBe(true);
+    expect(result.ok && result.warning).toMatch(/every/);
+  });
+});
@@ -0,0 +1,92 @@
+// Tests for the pattern inference heatmap and evidence checklist
+import { buildHeatmap, evidenceRequirements, noPatternEvidence } from '../patternInference';
+import { ExecutionAction, PatternInferenceStatus, ReminderCandidateStatus, ReminderStyle } from '@/types';
+import type { ReminderCandidateDto } from '@/types';
+
+const candidate = (overrides: Partial<ReminderCandidateDto>): ReminderCandidateDto => ({
+  id: 'c1',
+  personId: 'alex',
+  suggestedAction: 'take_vitamins',
+  checkAtUtc: '2026-01-05T07:30:00Z',
+  style: ReminderStyle.Suggest,
+  status: ReminderCandidateStatus.Scheduled,
+  confidence: 0.5,
+  executionAction: ExecutionAction.Ask,
+  isSafeToAutoExecute: false,
+  signalProfileSamplesCount: 0,
+  ...noPatternEvidence(),
+  patternInferenceStatus: PatternInferenceStatus.Flexible,
+  ...overrides,
+});
+
+const policy = { minDailyEvidence: 3, minWeeklyEvidence: 3 };
+
+describe('buildHeatmap', () => {
+  it('splits each weekday by the overall time-bucket mix', () => {
+    const { rows, max, hasTimeBuckets } = buildHeatmap(
+      candidate({
+        observedDayOfWeekHistogram: { '1': 4, '3': 2 },
+        observedTimeBucketHistogram: { morning: 3, evening: 1 },
+      })
+    );
+
+    expect(hasTimeBuckets).toBe(true);
+    expect(rows[1]).toEqual({ weekday: 1, total: 4, cells: [3, 0, 1, 0] });
+    expect(rows[3].cells).toEqual([1.5, 0, 0.5, 0]);
+    expect(rows[0].total).toBe(0);
+    expect(max).toBe(3);
+  });
+
+  it('falls back to weekday totals when no time bucket was recorded', () => {
+    const { rows, max, hasTimeBuckets } = buildHeatmap(candidate({ observedDayOfWeekHistogram: { '2': 5 } }));
+
+    expect(hasTimeBuckets).toBe(false);
+    expect(rows[2].cells).toEqual([]);
+    expect(max).toBe(5);
+  });
+});
+
+describe('evidenceRequirements', () => {
+  it('reports what is still missing for daily and weekly', () => {
+    const { prerequisite, daily, weekly } = evidenceRequirements(
+      candidate({
+        evidenceCount: 2,
+        patternEvidence: {
+          observedDayCount: 2,
+          longestDailyRunDays: 2,
+          distinctWeekdays: 1,
+          dominantWeekday: 1,
+          dominantWeekdayEvidence: 2,
+          dominantWeekdayDays: 2,
+          dominantWeekdaySpanDays: 7,
+        },
+      }),
+      policy
+    );
+
+    expect(prerequisite).toEqual({ label: 'Matching events', have: 2, need: 3, met: false });
+    expect(daily[0].met).toBe(false);
+    expect(weekly.map((requirement) => requirement.met)).toEqual([true, false, false, true]);
+    expect(weekly[1].label).toBe('Events on Monday');
+  });
+
+  it('does not count several weekdays as a weekly pattern', () => {
+    const { weekly } = evidenceRequirements(
+      candidate({
+        evidenceCount: 6,
+        patternEvidence: {
+          observedDayCount: 6,
+          longestDailyRunDays: 6,
+          distinctWeekdays: 4,
+          dominantWeekday: 2,
+          dominantWeekdayEvidence: 2,
+          dominantWeekdayDays: 2,
+          dominantWeekdaySpanDays: 7,
+        },
+      }),
+      policy
+    );
+
+    expect(weekly[0]).toEqual({ label: 'Only one weekday seen', have: 4, need: 1, met: false });
+  });
+});
@@ -0,0 +1,54 @@
+// Unit tests for the role- and person-scoped permission model
+import { can } from '../permissions';
+import { HouseholdRole } from '@/types';
+import type { AuthenticatedUser } from '@/types';
+
+const makeUser = (householdRole: HouseholdRole, role: 'admin' | 'user' = 'user'): AuthenticatedUser => ({
+  id: '1',
+  username: 'alice',
+  email: 'alice@example.com',
+  role,
+  householdRole,
+});
+
+describe('can', () => {
+  it('denies everything without a user', () => {
+    expect(can(null, 'reminders:view')).toBe(false);
+  });
+
+  it('allows admins everything regardless of household role', () => {
+    const admin = makeUser(HouseholdRole.Guest, 'admin');
+
+    expect(can(admin, 'reminders:delete', 'bob')).toBe(true);
+    expect(can(admin, 'people:view-all')).toBe(true);
+  });
+
+  it('lets owners manage other members but not use admin-only actions', () => {
+    const owner = makeUser(HouseholdRole.Owner);
+
+    expect(can(owner, 'reminders:edit', 'bob')).toBe(true);
+    expect(can(owner, 'people:manage-others')).toBe(true);
+    expect(can(owner, 'reminders:delete', 'bob')).toBe(false);
+    expect(can(owner, 'people:view-all')).toBe(false);
+  });
+
+  it('lets members manage their own data and only view others', () => {
+    const member = makeUser(HouseholdRole.Member);
+
+    expect(can(member, 'reminders:edit')).toBe(true);
+    expect(can(member, 'reminders:edit', 'alice')).toBe(true);
+    expect(can(member, 'reminders:view', 'bob')).toBe(true);
+    expect(can(member, 'reminders:feedback', 'bob')).toBe(false);
+    expect(can(member, 'people:manage-others')).toBe(false);
+  });
+
+  it('limits guests to viewing and giving feedback on their own reminders', () => {
+    const guest = makeUser(HouseholdRole.Guest);
+
+    expect(can(guest, 'reminders:feedback')).toBe(true);
+    expect(can(guest, 'reminders:edit')).toBe(false);
+    expect(can(guest, 'events:create')).toBe(false);
+    expect(can(guest, 'reminders:view', 'bob')).toBe(false);
+    expect(can(guest, 'people:view-others')).toBe(false);
+  });
+});
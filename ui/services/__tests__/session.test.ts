@@ -0,0 +1,34 @@
+// Unit tests for JWT expiry helpers
+import { decodeToken, getTokenExpiry, isTokenExpired } from '../session';
+
+const encode = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const makeToken = (payload: object) => `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.signature`;
+
+describe('session token helpers', () => {
+  it('reads the exp claim as epoch milliseconds', () => {
+    const token = makeToken({ unique_name: 'alice', exp: 1767225600 });
+
+    expect(getTokenExpiry(token)).toBe(1767225600000);
+  });
+
+  it('decodes base64url payloads without padding', () => {
+    const token = makeToken({ name: '??>>', exp: 1 });
+
+    expect(decodeToken(token)).toEqual({ name: '??>>', exp: 1 });
+  });
+
+  it('treats tokens past exp as expired', () => {
+    const token = makeToken({ exp: 1000 });
+
+    expect(isTokenExpired(token, 999_000)).toBe(false);
+    expect(isTokenExpired(token, 1_000_000)).toBe(true);
+  });
+
+  it('returns null for malformed tokens', () => {
+    expect(decodeToken('not-a-jwt')).toBeNull();
+    expect(getTokenExpiry('a.%%%.c')).toBeNull();
+    expect(isTokenExpired('not-a-jwt')).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+// Unit tests for the per-sensor signal similarity breakdown
+import { explainSignalSimilarity, parseSignalStatesInput } from '../signalSimilarity';
+
+describe('explainSignalSimilarity', () => {
+  it('splits the cosine similarity into contributions that add up to the score', () => {
+    const { similarity, contributions } = explainSignalSimilarity(
+      {
+        signals: {
+          'sensor.presence.kitchen': { weight: 0.8, normalizedValue: 1 },
+          'sensor.light.kitchen': { weight: 0.6, normalizedValue: 0.5 },
+        },
+      },
+      {
+        signals: {
+          'sensor.presence.kitchen': { weight: 0.8, normalizedValue: 1 },
+          'sensor.door.front': { weight: 0.6, normalizedValue: 1 },
+        },
+      }
+    );
+
+    // B = (0.8, 0.3, 0), E = (0.8, 0, 0.6): 0.64 / (sqrt(0.73) * 1)
+    expect(similarity).toBeCloseTo(0.64 / Math.sqrt(0.73), 10);
+    expect(contributions.map((c) => [c.sensorId, c.status])).toEqual([
+      ['sensor.presence.kitchen', 'shared'],
+      ['sensor.light.kitchen', 'baseline-only'],
+      ['sensor.door.front', 'event-only'],
+    ]);
+    expect(contributions.reduce((sum, c) => sum + c.contribution, 0)).toBeCloseTo(similarity, 10);
+    expect(contributions[1].contribution).toBe(0);
+  });
+
+  it('scores 1 for identical profiles', () => {
+    const profile = { signals: { 'sensor.temp.hall': { weight: 1, normalizedValue: 0.21 } } };
+
+    expect(explainSignalSimilarity(profile, profile).similarity).toBeCloseTo(1, 10);
+  });
+
+  it('scores 0 when either side has no usable signal', () => {
+    const baseline = { signals: { 'sensor.audio.lounge': { weight: 1, normalizedValue: 0 } } };
+    const eventProfile = { signals: { 'sensor.audio.lounge': { weight: 1, normalizedValue: 1 } } };
+
+    expect(explainSignalSimilarity(baseline, eventProfile).similarity).toBe(0);
+    expect(explainSignalSimilarity(eventProfile, { signals: {} }).similarity).toBe(0);
+  });
+});
+
+describe('parseSignalStatesInput', () => {
+  it('accepts the signalStates array or a whole event payload', () => {
+    const states = [{ sensorId: 'sensor.presence.kitchen', value: 'on', rawImportance: 0.9 }];
+
+    expect(parseSignalStatesInput(JSON.stringify(states))).toEqual({ ok: true, value: states });
+    expect(parseSignalStatesInput(JSON.stringify({ personId: 'alice', signalStates: states }))).toEqual({
+      ok: true,
+      value: states,
+    });
+  });
+
+  it('reports malformed input', () => {
+    expect(parseSignalStatesInput('{').ok).toBe(false);
+    expect(parseSignalStatesInput('[]').ok).toBe(false);
+    expect(parseSignalStatesInput('[{"value": 1}]')).toEqual({ ok: false, error: 'Entry 1 needs a sensorId.' });
+    expect(parseSignalStatesInput('[{"sensorId": "sensor.door.front", "value": null}]').ok).toBe(false);
+  });
+});
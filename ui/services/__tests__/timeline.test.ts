@@ -0,0 +1,74 @@
+// Unit tests for household timeline layout helpers
+import {
+  getOffsetPercent,
+  getSharedPresenceWindows,
+  getSpanPercent,
+  getTimelineRange,
+  getTimelineTicks,
+} from '../timeline';
+import { EventType } from '@/types';
+import type { ActionEventListDto } from '@/types';
+
+const makeEvent = (id: string, timestampUtc: string, presentPeople?: string[]): ActionEventListDto => ({
+  id,
+  personId: 'alice',
+  actionType: 'play_music',
+  eventType: EventType.Action,
+  timestampUtc,
+  context: { timeBucket: 'evening', dayType: 'weekday', presentPeople },
+  createdAtUtc: timestampUtc,
+});
+
+describe('timeline helpers', () => {
+  it('aligns zoom ranges to the hour, day and Monday-based week', () => {
+    const anchor = new Date(2026, 9, 21, 14, 35); // Wednesday
+
+    expect(getTimelineRange('hour', anchor)).toEqual({
+      start: new Date(2026, 9, 21, 14),
+      end: new Date(2026, 9, 21, 15),
+    });
+    expect(getTimelineRange('day', anchor)).toEqual({
+      start: new Date(2026, 9, 21),
+      end: new Date(2026, 9, 22),
+    });
+    expect(getTimelineRange('week', anchor)).toEqual({
+      start: new Date(2026, 9, 19),
+      end: new Date(2026, 9, 26),
+    });
+  });
+
+  it('produces evenly spaced ticks per zoom level', () => {
+    const anchor = new Date(2026, 9, 21, 14, 35);
+
+    expect(getTimelineTicks('hour', getTimelineRange('hour', anchor))).toHaveLength(6);
+    expect(getTimelineTicks('day', getTimelineRange('day', anchor))).toHaveLength(8);
+    expect(getTimelineTicks('week', getTimelineRange('week', anchor))).toHaveLength(7);
+  });
+
+  it('positions moments and spans as clamped percentages', () => {
+    const range = { start: new Date(2026, 9, 21), end: new Date(2026, 9, 22) };
+
+    expect(getOffsetPercent(new Date(2026, 9, 21, 12), range)).toBe(50);
+    expect(getOffsetPercent(new Date(2026, 9, 23), range)).toBe(100);
+    expect(getSpanPercent(new Date(2026, 9, 20, 18), new Date(2026, 9, 21, 6), range)).toEqual({ left: 0, width: 25 });
+    expect(getSpanPercent(new Date(2026, 9, 22, 1), new Date(2026, 9, 22, 2), range)).toBeNull();
+  });
+
+  it('merges nearby events with the same people into one shared presence window', () => {
+    const windows = getSharedPresenceWindows([
+      makeEvent('1', '2026-10-21T18:00:00Z', ['bob', 'alice']),
+      makeEvent('2', '2026-10-21T18:20:00Z', ['alice', 'bob']),
+      makeEvent('3', '2026-10-21T18:25:00Z', ['alice']),
+      makeEvent('4', '2026-10-21T20:00:00Z', ['alice', 'bob']),
+    ]);
+
+    expect(windows).toHaveLength(2);
+    expect(windows[0]).toEqual({
+      start: new Date('2026-10-21T18:00:00Z'),
+      end: new Date('2026-10-21T18:20:00Z'),
+      people: ['alice', 'bob'],
+      eventIds: ['1', '2'],
+    });
+    expect(windows[1].eventIds).toEqual(['4']);
+  });
+});
@@ -0,0 +1,27 @@
+// Tests for trash labels and purge countdowns
+import { describePurge, trashTypeLabel } from '../trash';
+import { TrashItemType } from '@/types';
+
+describe('trashTypeLabel', () => {
+  it('names a single item in lowercase and the tab in title case', () => {
+    expect(trashTypeLabel(TrashItemType.ReminderCandidate)).toBe('reminder');
+    expect(trashTypeLabel(TrashItemType.ExecutionHistory, 'plural')).toBe('Execution history');
+  });
+});
+
+describe('describePurge', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  it('rounds the remaining time up to whole days', () => {
+    expect(describePurge('2026-03-08T11:00:00Z', now)).toBe('Purged in 7 days');
+    expect(describePurge('2026-03-02T13:00:00Z', now)).toBe('Purged in 2 days');
+  });
+
+  it('says within a day for the last day', () => {
+    expect(describePurge('2026-03-01T18:00:00Z', now)).toBe('Purged within a day');
+  });
+
+  it('reports overdue items as purging soon until the worker picks them up', () => {
+    expect(describePurge('2026-03-01T11:00:00Z', now)).toBe('Purging soon');
+  });
+});
@@ -0,0 +1,100 @@
+// Multi-select helpers and chunked batch requests with per-item results
+import { forEachPage, type FetchPage } from './dataExport';
+import { BatchItemStatus } from '@/types';
+import type { BatchItemResult, BatchOperationResponse } from '@/types';
+
+// Matches MaxBatchSize on the batch endpoints
+export const MAX_BATCH_SIZE = 100;
+
+/**
+ * Toggles one id, or with shift held the whole range from the anchor (the last plain click) to it.
+ * The range takes the state the clicked item is switching to, as in file managers.
+ */
+export function toggleSelection(
+  selected: ReadonlySet<string>,
+  orderedIds: string[],
+  id: string,
+  anchorId: string | null,
+  shiftKey: boolean
+): Set<string> {
+  const next = new Set(selected);
+  const select = !selected.has(id);
+  const anchorIndex = anchorId ? orderedIds.indexOf(anchorId) : -1;
+  const index = orderedIds.indexOf(id);
+
+  const range =
+    shiftKey && anchorIndex >= 0 && index >= 0
+      ? orderedIds.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+      : [id];
+  range.forEach((rangeId) => (select ? next.add(rangeId) : next.delete(rangeId)));
+  return next;
+}
+
+/**
+ * Ids of every item matching the list's filters, not just the page on screen.
+ */
+export async function collectMatchingIds<T extends { id: string }>(fetchPage: FetchPage<T>): Promise<string[]> {
+  const ids: string[] = [];
+  await forEachPage(fetchPage, (items) => items.forEach((item) => ids.push(item.id)));
+  return ids;
+}
+
+/**
+ * Sends ids in chunks the server accepts, one after another. A chunk whose request fails
+ * outright is reported as failed for each of its ids, so callers always get one result per id.
+ */
+export async function runInBatches(
+  ids: string[],
+  send: (chunk: string[]) => Promise<BatchOperationResponse>,
+  batchSize: number = MAX_BATCH_SIZE
+): Promise<BatchItemResult[]> {
+  const results: BatchItemResult[] = [];
+  for (let start = 0; start < ids.length; start += batchSize) {
+    const chunk = ids.slice(start, start + batchSize);
+    try {
+      results.push(...(await send(chunk)).results);
+    } catch (error: any) {
+      const message = error?.response?.data?.message || error?.message || 'Request failed';
+      results.push(...chunk.map((id) => ({ id, status: BatchItemStatus.Failed, error: message })));
+    }
+  }
+  return results;
+}
+
+export interface BatchSummary {
+  succeededIds: string[];
+  failedIds: string[];
+  errors: { error: string; count: number }[]; // Most common first
+}
+
+export function summarizeBatch(results: BatchItemResult[]): BatchSummary {
+  const errorCounts = new Map<string, number>();
+  const succeededIds: string[] = [];
+  const failedIds: string[] = [];
+
+  results.forEach((result) => {
+    if (result.status === BatchItemStatus.Succeeded) {
+      succeededIds.push(result.id);
+      return;
+    }
+    failedIds.push(result.id);
+    const error = result.error || 'Unknown error';
+    errorCounts.set(error, (errorCounts.get(error) ?? 0) + 1);
+  });
+
+  const errors = Array.from(errorCounts, ([error, count]) => ({ error, count })).sort((a, b) => b.count - a.count);
+  return { succeededIds, failedIds, errors };
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * One-line outcome for a toast, e.g. "Deleted 8 reminders; 2 failed (Access denied ×2)".
+ */
+export function describeBatchOutcome(verb: string, noun: string, summary: BatchSummary): string {
+  const done = `${verb} ${plural(summary.succeededIds.length, noun)}`;
+  if (summary.failedIds.length === 0) return done;
+
+  const reasons = summary.errors.map(({ error, count }) => (count > 1 ? `${error} ×${count}` : error)).join(', ');
+  return `${done}; ${summary.failedIds.length} failed (${reasons})`;
+}
@@ -0,0 +1,189 @@
+// Commands offered by the global command palette, and how a query ranks them
+import type { Permission } from './permissions';
+import type { Configuration, ReminderCandidateDto, RoutineDto } from '@/types';
+import { ReminderCandidateStatus } from '@/types';
+
+export type PaletteGroup = 'Pages' | 'People' | 'Reminders' | 'Routines' | 'Configuration';
+
+export type PaletteAction =
+  | { type: 'navigate'; href: string }
+  | { type: 'execute-reminder'; candidateId: string; suggestedAction: string; personId: string };
+
+export interface PaletteCommand {
+  id: string;
+  group: PaletteGroup;
+  label: string;
+  detail?: string;
+  keywords?: string[];
+  action: PaletteAction;
+}
+
+type Can = (permission: Permission, personId?: string) => boolean;
+
+const PAGES: { label: string; href: string; permission?: Permission; keywords?: string[] }[] = [
+  { label: 'Dashboard', href: '/dashboard', keywords: ['home'] },
+  { label: 'Reminders', href: '/reminders' },
+  { label: 'Create reminder', href: '/reminders/create', permission: 'reminders:create', keywords: ['new'] },
+  { label: 'Routines', href: '/routines' },
+  { label: 'Events', href: '/events' },
+  { label: 'Create event', href: '/events/create', permission: 'events:create', keywords: ['new'] },
+  { label: 'Import events', href: '/events/import', permission: 'events:create', keywords: ['csv', 'upload'] },
+  { label: 'Timeline', href: '/timeline' },
+  { label: 'Transitions', href: '/transitions' },
+  { label: 'History', href: '/history', keywords: ['execution'] },
+  { label: 'Configuration', href: '/configuration', keywords: ['settings', 'policies'] },
+  { label: 'User preferences', href: '/user-preferences', keywords: ['settings'] },
+  { label: 'Sandbox', href: '/sandbox', permission: 'sandbox:use', keywords: ['simulate'] },
+  { label: 'Users', href: '/users', permission: 'users:manage' },
+  { label: 'API keys', href: '/api-keys', permission: 'api-keys:manage' },
+  { label: 'Trash', href: '/trash', permission: 'trash:manage', keywords: ['deleted', 'restore', 'undo'] },
+];
+
+// Configuration page tabs that list a category's keys; anything else lives under Custom
+const CONFIGURATION_TABS: Record<string, string> = {
+  MatchingPolicy: 'policies',
+  Routine: 'routines',
+  DelayLearning: 'signals-timing',
+  notifications: 'notifications',
+  llm: 'llm',
+  memory: 'memory',
+};
+
+const withParams = (path: string, params: Record<string, string>) => `${path}?${new URLSearchParams(params).toString()}`;
+
+/** Same wording the routine pages use, e.g. ArrivalHome → Arrival Home. */
+export function intentDisplayName(intentType: string): string {
+  return intentType
+    .replace(/([A-Z])/g, ' $1')
+    .replace(/^./, (first) => first.toUpperCase())
+    .trim();
+}
+
+export function pageCommands(can: Can): PaletteCommand[] {
+  return PAGES.filter((page) => !page.permission || can(page.permission)).map((page) => ({
+    id: `page:${page.href}`,
+    group: 'Pages',
+    label: page.label,
+    keywords: page.keywords,
+    action: { type: 'navigate', href: page.href },
+  }));
+}
+
+export function personCommands(people: { personId: string; displayName: string }[], can: Can): PaletteCommand[] {
+  return people.flatMap(({ personId, displayName }) => {
+    const detail = displayName === personId ? undefined : displayName;
+    const commands: PaletteCommand[] = [
+      {
+        id: `person:${personId}:reminders`,
+        group: 'People',
+        label: `Reminders for ${personId}`,
+        detail,
+        action: { type: 'navigate', href: withParams('/reminders', { personId }) },
+      },
+      {
+        id: `person:${personId}:events`,
+        group: 'People',
+        label: `Events for ${personId}`,
+        detail,
+        action: { type: 'navigate', href: withParams('/events', { personId }) },
+      },
+    ];
+    if (can('events:create', personId)) {
+      commands.push({
+        id: `person:${personId}:create-event`,
+        group: 'People',
+        label: `Create event for ${personId}`,
+        detail,
+        keywords: ['new'],
+        action: { type: 'navigate', href: withParams('/events/create', { personId }) },
+      });
+    }
+    return commands;
+  });
+}
+
+export function reminderCommands(reminders: ReminderCandidateDto[], can: Can): PaletteCommand[] {
+  return reminders.flatMap((reminder) => {
+    const commands: PaletteCommand[] = [
+      {
+        id: `reminder:${reminder.id}`,
+        group: 'Reminders',
+        label: reminder.suggestedAction,
+        detail: reminder.personId,
+        action: {
+          type: 'navigate',
+          href: withParams('/reminders', { personId: reminder.personId, actionType: reminder.suggestedAction }),
+        },
+      },
+    ];
+    if (reminder.status === ReminderCandidateStatus.Scheduled && can('reminders:execute', reminder.personId)) {
+      commands.push({
+        id: `reminder:${reminder.id}:execute`,
+        group: 'Reminders',
+        label: `Execute reminder ${reminder.suggestedAction}`,
+        detail: reminder.personId,
+        keywords: ['run'],
+        action: {
+          type: 'execute-reminder',
+          candidateId: reminder.id,
+          suggestedAction: reminder.suggestedAction,
+          personId: reminder.personId,
+        },
+      });
+    }
+    return commands;
+  });
+}
+
+export function routineCommands(routines: RoutineDto[]): PaletteCommand[] {
+  return routines.map((routine) => ({
+    id: `routine:${routine.id}`,
+    group: 'Routines',
+    label: `Open routine ${intentDisplayName(routine.intentType)}`,
+    detail: routine.personId,
+    keywords: [routine.intentType],
+    action: { type: 'navigate', href: withParams('/routines', { routineId: routine.id }) },
+  }));
+}
+
+export function configurationCommands(configurations: Configuration[]): PaletteCommand[] {
+  return configurations.map((configuration) => ({
+    id: `configuration:${configuration.category}:${configuration.key}`,
+    group: 'Configuration',
+    label: configuration.key,
+    detail: configuration.category,
+    keywords: configuration.description ? [configuration.description] : undefined,
+    action: {
+      type: 'navigate',
+      href: withParams('/configuration', { tab: CONFIGURATION_TABS[configuration.category] ?? 'custom' }),
+    },
+  }));
+}
+
+// Lower is better: the label starts with the query, a label word does, or the query appears anywhere
+function score(command: PaletteCommand, query: string): number | null {
+  const label = command.label.toLowerCase();
+  const haystack = [label, command.detail ?? '', ...(command.keywords ?? [])].join(' ').toLowerCase();
+  const terms = query.split(/\s+/).filter(Boolean);
+  if (!terms.every((term) => haystack.includes(term))) return null;
+
+  if (label.startsWith(query)) return 0;
+  if (label.split(/[\s_-]+/).some((word) => word.startsWith(terms[0]))) return 1;
+  return 2;
+}
+
+/**
+ * Commands matching every word of the query, best first; ties keep their original order.
+ * An empty query lists the pages.
+ */
+export function searchCommands(commands: PaletteCommand[], query: string, limit = 30): PaletteCommand[] {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) return commands.filter((command) => command.group === 'Pages').slice(0, limit);
+
+  return commands
+    .map((command, index) => ({ command, index, score: score(command, normalized) }))
+    .filter((match): match is typeof match & { score: number } => match.score !== null)
+    .sort((a, b) => a.score - b.score || a.index - b.index)
+    .slice(0, limit)
+    .map((match) => match.command);
+}
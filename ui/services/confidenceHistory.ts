@@ -0,0 +1,66 @@
+// Confidence change log of a reminder, turned into chart points and links to the events that caused them
+import type { ConfidenceChangeDto, ConfidenceHistoryResponse } from '@/types';
+import { ConfidenceChangeSource } from '@/types';
+import { eventsOnDayHref } from './eventLinks';
+
+export const CONFIDENCE_SOURCE_LABELS: Record<ConfidenceChangeSource, string> = {
+  [ConfidenceChangeSource.Created]: 'Created',
+  [ConfidenceChangeSource.Event]: 'Event',
+  [ConfidenceChangeSource.Feedback]: 'Feedback',
+  [ConfidenceChangeSource.Manual]: 'Manual',
+};
+
+export const CONFIDENCE_SOURCE_COLORS: Record<ConfidenceChangeSource, string> = {
+  [ConfidenceChangeSource.Created]: '#64748b',
+  [ConfidenceChangeSource.Event]: '#4f46e5',
+  [ConfidenceChangeSource.Feedback]: '#16a34a',
+  [ConfidenceChangeSource.Manual]: '#c026d3',
+};
+
+export interface ConfidenceHistoryPoint {
+  at: number; // Epoch milliseconds
+  confidence: number;
+  change: ConfidenceChangeDto | null; // Null for the closing point at the current confidence
+}
+
+/**
+ * One point per recorded change, plus a closing point at `now` so the line reaches the current
+ * value. Reminders learned before changes were recorded start from their first recorded change.
+ */
+export function toHistoryPoints(history: ConfidenceHistoryResponse, now: Date = new Date()): ConfidenceHistoryPoint[] {
+  const points: ConfidenceHistoryPoint[] = history.changes.map((change) => ({
+    at: new Date(change.changedAtUtc).getTime(),
+    confidence: change.newConfidence,
+    change,
+  }));
+  const last = points[points.length - 1];
+  if (!last || last.at < now.getTime()) {
+    points.push({ at: Math.max(now.getTime(), last?.at ?? 0), confidence: history.currentConfidence, change: null });
+  }
+  return points;
+}
+
+export function describeChange(change: ConfidenceChangeDto): string {
+  const next = `${(change.newConfidence * 100).toFixed(1)}%`;
+  const delta =
+    change.previousConfidence === null || change.previousConfidence === undefined
+      ? `started at ${next}`
+      : `${change.newConfidence >= change.previousConfidence ? '+' : ''}${(
+          (change.newConfidence - change.previousConfidence) *
+          100
+        ).toFixed(1)} pts to ${next}`;
+
+  const cause =
+    change.source === ConfidenceChangeSource.Event && change.sourceEventId
+      ? change.sourceEventActionType
+        ? ` from ${change.sourceEventActionType}`
+        : ' from a deleted event'
+      : '';
+  return `${CONFIDENCE_SOURCE_LABELS[change.source]}${cause}: ${delta}`;
+}
+
+// Events page link for the event behind a change, or null when it has no event or the event was deleted
+export function sourceEventHref(personId: string, change: ConfidenceChangeDto): string | null {
+  if (!change.sourceEventActionType || !change.sourceEventTimestampUtc) return null;
+  return eventsOnDayHref(personId, change.sourceEventActionType, change.sourceEventTimestampUtc);
+}
@@ -0,0 +1,138 @@
+// Configuration bundles: exporting categories to JSON or YAML and reading a bundle back for import
+import type { Configuration, ConfigurationImportEntryDto, ConfigurationImportResultDto } from '@/types';
+import { ConfigurationImportStatus } from '@/types';
+import { Document, LineCounter, parseDocument } from 'yaml';
+
+export const BUNDLE_VERSION = 1;
+
+export type BundleFormat = 'json' | 'yaml';
+
+export const BUNDLE_MIME_TYPES: Record<BundleFormat, string> = {
+  json: 'application/json',
+  yaml: 'application/yaml',
+};
+
+export interface ConfigurationBundle {
+  version: number;
+  exportedAtUtc?: string;
+  categories: Record<string, Record<string, string>>;
+}
+
+export const IMPORT_STATUS_STYLES: Record<ConfigurationImportStatus, { label: string; className: string }> = {
+  [ConfigurationImportStatus.Added]: { label: 'New', className: 'bg-green-100 text-green-800' },
+  [ConfigurationImportStatus.Changed]: { label: 'Changed', className: 'bg-blue-100 text-blue-800' },
+  [ConfigurationImportStatus.Unchanged]: { label: 'Unchanged', className: 'bg-gray-100 text-gray-700' },
+  [ConfigurationImportStatus.Invalid]: { label: 'Invalid', className: 'bg-red-100 text-red-800' },
+};
+
+// Each category once, sorted, for the export selection
+export function configurationCategories(configs: Configuration[]): string[] {
+  return Array.from(new Set(configs.map((c) => c.category))).sort();
+}
+
+export function buildBundle(configs: Configuration[], categories: string[], now: Date = new Date()): ConfigurationBundle {
+  const bundle: ConfigurationBundle = { version: BUNDLE_VERSION, exportedAtUtc: now.toISOString(), categories: {} };
+  for (const config of configs) {
+    if (!categories.includes(config.category)) continue;
+    (bundle.categories[config.category] ??= {})[config.key] = config.value;
+  }
+  return bundle;
+}
+
+export function serializeBundle(bundle: ConfigurationBundle, format: BundleFormat): string {
+  if (format === 'json') {
+    return `${JSON.stringify(bundle, null, 2)}\n`;
+  }
+
+  // Values are always quoted, so "true" and "30" come back as the strings they were
+  const doc = new Document(bundle);
+  if (doc.contents) {
+    doc.contents.commentBefore = ' AIPatterner configuration bundle';
+  }
+  return doc.toString({ defaultStringType: 'QUOTE_DOUBLE', defaultKeyType: 'PLAIN' });
+}
+
+/**
+ * Reads a bundle from JSON or YAML text. Hand-edited files may use plain numbers and booleans;
+ * they are read as the same strings the configuration store holds. Throws with a readable message.
+ */
+export function parseBundle(text: string): ConfigurationBundle {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('The file is empty');
+  }
+
+  let data: unknown;
+  if (trimmed.startsWith('{')) {
+    try {
+      data = JSON.parse(trimmed);
+    } catch (error: any) {
+      throw new Error(`Invalid JSON: ${error.message}`);
+    }
+  } else {
+    data = parseYaml(text);
+  }
+
+  if (!isMap(data)) {
+    throw new Error('Expected an object with version and categories');
+  }
+  if (String(data.version) !== String(BUNDLE_VERSION)) {
+    throw new Error(`Unsupported bundle version: ${data.version ?? '(missing)'}`);
+  }
+  if (!isMap(data.categories)) {
+    throw new Error('Expected categories to map category names to their values');
+  }
+
+  const categories: ConfigurationBundle['categories'] = {};
+  for (const [category, values] of Object.entries(data.categories)) {
+    if (values === null || values === '') continue; // A category listed without values
+    if (!isMap(values)) {
+      throw new Error(`Expected ${category} to map keys to values`);
+    }
+    categories[category] = {};
+    for (const [key, value] of Object.entries(values)) {
+      if (value !== null && typeof value === 'object') {
+        throw new Error(`Expected ${category}.${key} to be a single value`);
+      }
+      categories[category][key] = value === null ? '' : String(value);
+    }
+  }
+
+  return {
+    version: BUNDLE_VERSION,
+    exportedAtUtc: typeof data.exportedAtUtc === 'string' ? data.exportedAtUtc : undefined,
+    categories,
+  };
+}
+
+export function bundleEntries(bundle: ConfigurationBundle, categories: string[]): ConfigurationImportEntryDto[] {
+  return Object.entries(bundle.categories)
+    .filter(([category]) => categories.includes(category))
+    .flatMap(([category, values]) => Object.entries(values).map(([key, value]) => ({ category, key, value })));
+}
+
+export function summarizeImport(results: ConfigurationImportResultDto[]): Record<ConfigurationImportStatus, number> {
+  const counts = {
+    [ConfigurationImportStatus.Added]: 0,
+    [ConfigurationImportStatus.Changed]: 0,
+    [ConfigurationImportStatus.Unchanged]: 0,
+    [ConfigurationImportStatus.Invalid]: 0,
+  };
+  results.forEach((r) => counts[r.status]++);
+  return counts;
+}
+
+function isMap(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Every scalar is read as a string (the failsafe schema), so "007" and "yes" are not turned into numbers or booleans
+function parseYaml(text: string): unknown {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(text, { schema: 'failsafe', lineCounter, prettyErrors: false });
+  const [error] = doc.errors;
+  if (error) {
+    throw new Error(`Line ${lineCounter.linePos(error.pos[0]).line}: ${error.message}`);
+  }
+  return doc.toJS();
+}
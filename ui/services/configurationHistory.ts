@@ -0,0 +1,37 @@
+// Configuration change history: describing changes and what restoring a past set of values would do
+import type { ConfigurationChangeDto, ConfigurationDiffDto } from '@/types';
+import { ConfigurationChangeType } from '@/types';
+
+export const CHANGE_TYPE_STYLES: Record<ConfigurationChangeType, { label: string; className: string }> = {
+  [ConfigurationChangeType.Created]: { label: 'Created', className: 'bg-green-100 text-green-800' },
+  [ConfigurationChangeType.Updated]: { label: 'Updated', className: 'bg-blue-100 text-blue-800' },
+  [ConfigurationChangeType.RolledBack]: { label: 'Rolled back', className: 'bg-amber-100 text-amber-800' },
+};
+
+export function formatConfigValue(value: string | null | undefined): string {
+  if (value === null || value === undefined) return '(not set)';
+  return value === '' ? '(empty)' : value;
+}
+
+// Keys that appear in the history, for the key filter
+export function historyKeys(changes: ConfigurationChangeDto[]): string[] {
+  return Array.from(new Set(changes.map((c) => c.key))).sort();
+}
+
+/**
+ * One line per restored key, plus a note for keys that did not exist at that point and so
+ * keep their current value. Null when the values already match, so there is nothing to restore.
+ */
+export function describeRollback(diff: ConfigurationDiffDto): string | null {
+  const changed = diff.entries.filter((e) => e.changed);
+  if (changed.length === 0) return null;
+
+  const lines = changed.map(
+    (e) => `${e.key}: ${formatConfigValue(e.currentValue)} → ${formatConfigValue(e.restoredValue)}`
+  );
+  const untouched = diff.entries.filter((e) => e.restoredValue === null || e.restoredValue === undefined).map((e) => e.key);
+  if (untouched.length > 0) {
+    lines.push(`Not set at that point, left as they are: ${untouched.join(', ')}`);
+  }
+  return `Restore ${changed.length} ${changed.length === 1 ? 'value' : 'values'} in ${diff.category}?\n\n${lines.join('\n')}`;
+}
@@ -0,0 +1,110 @@
+// Settings forms built from the configuration schema the backend publishes: tabs, sections, validation and the values to save
+import { ConfigurationValueType } from '@/types';
+import type { Configuration, ConfigurationImportEntryDto, ConfigurationKeySchemaDto } from '@/types';
+
+export interface SettingSection {
+  title: string;
+  fields: ConfigurationKeySchemaDto[];
+}
+
+export interface SettingGroup {
+  tab: string; // Value of the ?tab= parameter
+  label: string;
+  sections: SettingSection[];
+}
+
+export const settingId = (field: ConfigurationKeySchemaDto) => `${field.category}.${field.key}`;
+
+// "Signals & Timing" → "signals-timing"
+export const groupTab = (group: string) =>
+  group
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+// Groups and sections in the order the schema lists them
+export function settingGroups(schema: ConfigurationKeySchemaDto[]): SettingGroup[] {
+  const groups: SettingGroup[] = [];
+  for (const field of schema) {
+    let group = groups.find((g) => g.label === field.group);
+    if (!group) {
+      group = { tab: groupTab(field.group), label: field.group, sections: [] };
+      groups.push(group);
+    }
+    let section = group.sections.find((s) => s.title === field.section);
+    if (!section) {
+      section = { title: field.section, fields: [] };
+      group.sections.push(section);
+    }
+    section.fields.push(field);
+  }
+  return groups;
+}
+
+// Step for number inputs: whole numbers for integers, hundredths for fractions of one
+export function settingStep(field: ConfigurationKeySchemaDto): number | 'any' {
+  if (field.type === ConfigurationValueType.Integer) return 1;
+  return field.max !== null && field.max !== undefined && field.max <= 1 ? 0.01 : 'any';
+}
+
+// Stored value of each field, or its default when nothing is stored. Restart-required fields always show the server value.
+export function currentSettingValues(fields: ConfigurationKeySchemaDto[], configs: Configuration[]): Record<string, string> {
+  return Object.fromEntries(
+    fields.map((field) => {
+      const stored = field.restartRequired
+        ? undefined
+        : configs.find((c) => c.category === field.category && c.key === field.key);
+      return [settingId(field), stored?.value ?? field.defaultValue];
+    })
+  );
+}
+
+// Mirrors the backend's checks, so the form can explain a value before it is sent
+export function validateSetting(field: ConfigurationKeySchemaDto, value: string): string | null {
+  const trimmed = value.trim();
+  switch (field.type) {
+    case ConfigurationValueType.Boolean:
+      return value === 'true' || value === 'false' ? null : 'Expected true or false';
+
+    case ConfigurationValueType.Url:
+      if (trimmed === '') return null; // Empty clears the endpoint
+      try {
+        const url = new URL(trimmed);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? null : 'Enter an http or https URL';
+      } catch {
+        return 'Enter an http or https URL';
+      }
+
+    default: {
+      const number = Number(trimmed);
+      if (trimmed === '' || !Number.isFinite(number)) {
+        return 'Enter a number';
+      }
+      if (field.type === ConfigurationValueType.Integer && !Number.isInteger(number)) {
+        return 'Enter a whole number';
+      }
+      const belowMin = field.min !== null && field.min !== undefined && number < field.min;
+      const aboveMax = field.max !== null && field.max !== undefined && number > field.max;
+      if (belowMin || aboveMax) {
+        return `Enter a value between ${field.min} and ${field.max}`;
+      }
+      return null;
+    }
+  }
+}
+
+// Values that differ from what is stored; an unstored value still at its default is left unstored
+export function changedSettings(
+  fields: ConfigurationKeySchemaDto[],
+  values: Record<string, string>,
+  configs: Configuration[]
+): ConfigurationImportEntryDto[] {
+  return fields
+    .filter((field) => !field.restartRequired)
+    .flatMap((field) => {
+      const value = values[settingId(field)].trim();
+      const stored = configs.find((c) => c.category === field.category && c.key === field.key);
+      const unchanged = stored ? stored.value === value : value === field.defaultValue;
+      return unchanged ? [] : [{ category: field.category, key: field.key, value }];
+    });
+}
@@ -0,0 +1,152 @@
+// Exports every page of a filtered list to CSV or JSON, written page by page as it is fetched
+import type { ActionEventListDto, ExecutionHistoryDto, ReminderCandidateDto } from '@/types';
+
+export const EXPORT_PAGE_SIZE = 200;
+
+export type ExportProgress = (loaded: number, total: number) => void;
+
+export interface ExportOption {
+  label: string;
+  description?: string;
+  run: (onProgress: ExportProgress) => Promise<void>;
+}
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (item: T) => string | number | boolean | null | undefined;
+}
+
+export type FetchPage<T> = (page: number, pageSize: number) => Promise<{ items: T[]; totalCount: number }>;
+
+const csvCell = (value: string | number | boolean | null | undefined) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvRow = (values: (string | number | boolean | null | undefined)[]) => values.map(csvCell).join(',');
+
+/**
+ * Calls fetchPage until every matching item has been seen, handing each page to onPage
+ * as it arrives so large exports never hold more than one page of DTOs.
+ */
+export async function forEachPage<T>(
+  fetchPage: FetchPage<T>,
+  onPage: (items: T[]) => void,
+  onProgress?: ExportProgress,
+  pageSize: number = EXPORT_PAGE_SIZE
+): Promise<number> {
+  let loaded = 0;
+  for (let page = 1; ; page++) {
+    const result = await fetchPage(page, pageSize);
+    onPage(result.items);
+    loaded += result.items.length;
+    onProgress?.(loaded, result.totalCount);
+    if (result.items.length === 0 || loaded >= result.totalCount) return loaded;
+  }
+}
+
+export async function exportToCsvParts<T>(
+  fetchPage: FetchPage<T>,
+  columns: ExportColumn<T>[],
+  onProgress?: ExportProgress
+): Promise<string[]> {
+  const parts = [toCsvRow(columns.map((column) => column.header))];
+  await forEachPage(
+    fetchPage,
+    (items) => items.forEach((item) => parts.push('\n' + toCsvRow(columns.map((column) => column.value(item))))),
+    onProgress
+  );
+  return parts;
+}
+
+export async function exportToJsonParts<T>(fetchPage: FetchPage<T>, onProgress?: ExportProgress): Promise<string[]> {
+  const parts = ['['];
+  let isFirst = true;
+  await forEachPage(
+    fetchPage,
+    (items) =>
+      items.forEach((item) => {
+        parts.push(`${isFirst ? '' : ','}\n  ${JSON.stringify(item)}`);
+        isFirst = false;
+      }),
+    onProgress
+  );
+  parts.push(isFirst ? ']' : '\n]');
+  return parts;
+}
+
+export function downloadFile(parts: BlobPart[], fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob(parts, { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export const exportFileName = (baseName: string, extension: string, now: Date = new Date()) =>
+  `${baseName}-${now.toISOString().slice(0, 19).replace(/:/g, '-')}.${extension}`;
+
+/**
+ * CSV and JSON export options for a paginated list, fetching with the page's current filters.
+ */
+export function listExportOptions<T>(baseName: string, fetchPage: FetchPage<T>, columns: ExportColumn<T>[]): ExportOption[] {
+  return [
+    {
+      label: 'CSV',
+      description: 'One row per item, for spreadsheets',
+      run: async (onProgress) =>
+        downloadFile(await exportToCsvParts(fetchPage, columns, onProgress), exportFileName(baseName, 'csv'), 'text/csv'),
+    },
+    {
+      label: 'JSON',
+      description: 'Full API objects',
+      run: async (onProgress) =>
+        downloadFile(await exportToJsonParts(fetchPage, onProgress), exportFileName(baseName, 'json'), 'application/json'),
+    },
+  ];
+}
+
+export const EVENT_EXPORT_COLUMNS: ExportColumn<ActionEventListDto>[] = [
+  { header: 'id', value: (e) => e.id },
+  { header: 'personId', value: (e) => e.personId },
+  { header: 'actionType', value: (e) => e.actionType },
+  { header: 'eventType', value: (e) => e.eventType },
+  { header: 'timestampUtc', value: (e) => e.timestampUtc },
+  { header: 'timeBucket', value: (e) => e.context.timeBucket },
+  { header: 'dayType', value: (e) => e.context.dayType },
+  { header: 'location', value: (e) => e.context.location },
+  { header: 'presentPeople', value: (e) => e.context.presentPeople?.join(';') },
+  { header: 'probabilityValue', value: (e) => e.probabilityValue },
+  { header: 'probabilityAction', value: (e) => e.probabilityAction },
+  { header: 'relatedReminderId', value: (e) => e.relatedReminderId },
+  { header: 'createdAtUtc', value: (e) => e.createdAtUtc },
+];
+
+export const REMINDER_EXPORT_COLUMNS: ExportColumn<ReminderCandidateDto>[] = [
+  { header: 'id', value: (r) => r.id },
+  { header: 'personId', value: (r) => r.personId },
+  { header: 'suggestedAction', value: (r) => r.suggestedAction },
+  { header: 'status', value: (r) => r.status },
+  { header: 'checkAtUtc', value: (r) => r.checkAtUtc },
+  { header: 'occurrence', value: (r) => r.occurrence },
+  { header: 'confidence', value: (r) => r.confidence },
+  { header: 'style', value: (r) => r.style },
+  { header: 'executionAction', value: (r) => r.executionAction },
+  { header: 'isSafeToAutoExecute', value: (r) => r.isSafeToAutoExecute },
+  { header: 'sourceEventId', value: (r) => r.sourceEventId },
+  { header: 'transitionId', value: (r) => r.transitionId },
+];
+
+export const EXECUTION_HISTORY_EXPORT_COLUMNS: ExportColumn<ExecutionHistoryDto>[] = [
+  { header: 'id', value: (h) => h.id },
+  { header: 'executedAtUtc', value: (h) => h.executedAtUtc },
+  { header: 'endpoint', value: (h) => h.endpoint },
+  { header: 'personId', value: (h) => h.personId },
+  { header: 'userId', value: (h) => h.userId },
+  { header: 'actionType', value: (h) => h.actionType },
+  { header: 'reminderCandidateId', value: (h) => h.reminderCandidateId },
+  { header: 'eventId', value: (h) => h.eventId },
+  { header: 'requestPayload', value: (h) => h.requestPayload },
+  { header: 'responsePayload', value: (h) => h.responsePayload },
+];
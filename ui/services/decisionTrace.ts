@@ -0,0 +1,100 @@
+// Decision traces of reminder checks, laid out as one timeline row per gate of the evaluation pipeline
+import type { DecisionTraceStepDto, ReminderDecisionTraceDto } from '@/types';
+import { DecisionGate, DecisionStepOutcome, ReminderCheckOutcome } from '@/types';
+
+// Pipeline order: the handler's own gates, then the evaluation service's
+export const DECISION_GATE_ORDER: DecisionGate[] = [
+  DecisionGate.DueTime,
+  DecisionGate.MinimumProbability,
+  DecisionGate.ExecutionAction,
+  DecisionGate.Preferences,
+  DecisionGate.Cooldown,
+  DecisionGate.DailyLimit,
+  DecisionGate.MinimumInterval,
+  DecisionGate.InterruptionCost,
+  DecisionGate.SignalSimilarity,
+];
+
+export const DECISION_GATE_LABELS: Record<DecisionGate, string> = {
+  [DecisionGate.DueTime]: 'Due time',
+  [DecisionGate.MinimumProbability]: 'Minimum probability',
+  [DecisionGate.ExecutionAction]: 'Execution action',
+  [DecisionGate.Preferences]: 'Preferences',
+  [DecisionGate.Cooldown]: 'Cooldown',
+  [DecisionGate.DailyLimit]: 'Daily limit',
+  [DecisionGate.MinimumInterval]: 'Minimum interval',
+  [DecisionGate.InterruptionCost]: 'Interruption cost',
+  [DecisionGate.SignalSimilarity]: 'Signal similarity',
+};
+
+export const CHECK_OUTCOME_STYLES: Record<ReminderCheckOutcome, { label: string; className: string }> = {
+  [ReminderCheckOutcome.Executed]: { label: 'Executed', className: 'bg-green-100 text-green-800' },
+  [ReminderCheckOutcome.Skipped]: { label: 'Skipped', className: 'bg-red-100 text-red-800' },
+  [ReminderCheckOutcome.Deferred]: { label: 'Deferred', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+export type TimelineRowState = DecisionStepOutcome | 'NotReached';
+
+export interface DecisionTimelineRow {
+  gate: DecisionGate;
+  state: TimelineRowState;
+  step: DecisionTraceStepDto | null; // Null when the check stopped before this gate
+}
+
+/**
+ * Every gate in pipeline order, so the gates a check never reached (because an earlier one failed)
+ * still show up as "not reached" rather than silently disappearing from the timeline.
+ */
+export function toTimelineRows(steps: DecisionTraceStepDto[]): DecisionTimelineRow[] {
+  return DECISION_GATE_ORDER.map((gate) => {
+    const step = steps.find((s) => s.gate === gate) ?? null;
+    return { gate, state: step ? step.outcome : 'NotReached', step };
+  });
+}
+
+// The gate that stopped the check, or null when none failed
+export function decidingStep(trace: Pick<ReminderDecisionTraceDto, 'steps'>): DecisionTraceStepDto | null {
+  return trace.steps.find((s) => s.outcome === DecisionStepOutcome.Failed) ?? null;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const minutes = (value: number) => `${Number.isInteger(value) ? value : value.toFixed(1)} min`;
+
+const probability = {
+  value: (v: number) => `confidence ${percent(v)}`,
+  threshold: (t: number) => `threshold ${percent(t)}`,
+};
+
+const GATE_MEASURES: Partial<Record<DecisionGate, { value: (v: number) => string; threshold: (t: number) => string }>> = {
+  [DecisionGate.MinimumProbability]: probability,
+  [DecisionGate.ExecutionAction]: probability,
+  [DecisionGate.DailyLimit]: { value: (v) => `${v} sent today`, threshold: (t) => `limit ${t}` },
+  [DecisionGate.MinimumInterval]: {
+    value: (v) => `${minutes(v)} since the last reminder`,
+    threshold: (t) => `minimum ${minutes(t)}`,
+  },
+  [DecisionGate.InterruptionCost]: {
+    value: (v) => `cost ${v.toFixed(2)}`,
+    threshold: (t) => `maximum ${t.toFixed(2)}`,
+  },
+  [DecisionGate.SignalSimilarity]: {
+    value: (v) => `similarity ${percent(v)}`,
+    threshold: (t) => `threshold ${percent(t)}`,
+  },
+};
+
+/**
+ * Value and threshold in the units each gate compares them in, e.g. "3 sent today, limit 5".
+ * Returns null when the step compared nothing (preferences, cooldown, due time).
+ */
+export function formatStepMeasure(step: DecisionTraceStepDto): string | null {
+  const measure = GATE_MEASURES[step.gate] ?? { value: String, threshold: (t: number) => `threshold ${t}` };
+  const parts = [
+    step.value === null || step.value === undefined ? null : measure.value(step.value),
+    step.threshold === null || step.threshold === undefined ? null : measure.threshold(step.threshold),
+  ].filter((part): part is string => part !== null);
+  if (parts.length === 0) return null;
+
+  const text = parts.join(', ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
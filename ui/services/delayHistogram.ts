@@ -0,0 +1,43 @@
+// Layout helpers for a routine reminder's learned delay distribution
+import type { DelayHistogramBinDto } from '@/types';
+
+/** Delay in the most readable unit pair, e.g. 45s, 1m30s, 2h, 1h15m. */
+export function formatDelay(seconds: number): string {
+  const rounded = Math.round(seconds);
+  if (rounded < 60) return `${rounded}s`;
+  if (rounded < 3600) {
+    const remainder = rounded % 60;
+    return `${Math.floor(rounded / 60)}m${remainder ? `${remainder}s` : ''}`;
+  }
+  const minutes = Math.round((rounded % 3600) / 60);
+  return `${Math.floor(rounded / 3600)}h${minutes ? `${minutes}m` : ''}`;
+}
+
+export function binLabel(bin: DelayHistogramBinDto): string {
+  return bin.isOverflow ? `${formatDelay(bin.lowerBoundSeconds)}+` : `≤${formatDelay(bin.upperBoundSeconds)}`;
+}
+
+/**
+ * Position of a delay on a chart where every bin is one unit wide, since the bins grow from 30s
+ * to hours. Delays inside a bin are placed linearly between its bounds; longer ones clamp to the end.
+ */
+export function delayToBinPosition(seconds: number, bins: DelayHistogramBinDto[]): number {
+  if (bins.length === 0) return 0;
+  const index = bins.findIndex((bin) => seconds <= bin.upperBoundSeconds);
+  if (index === -1) return bins.length;
+
+  const bin = bins[index];
+  const fraction = (seconds - bin.lowerBoundSeconds) / (bin.upperBoundSeconds - bin.lowerBoundSeconds);
+  return index + Math.min(1, Math.max(0, fraction));
+}
+
+/** EMA ± one standard deviation, clamped at zero, or null until both have been learned. */
+export function emaBand(
+  emaDelaySeconds: number | null | undefined,
+  emaVarianceSeconds: number | null | undefined
+): { low: number; high: number } | null {
+  if (emaDelaySeconds === null || emaDelaySeconds === undefined) return null;
+  if (emaVarianceSeconds === null || emaVarianceSeconds === undefined) return null;
+  const deviation = Math.sqrt(Math.max(0, emaVarianceSeconds));
+  return { low: Math.max(0, emaDelaySeconds - deviation), high: emaDelaySeconds + deviation };
+}
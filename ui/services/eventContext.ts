@@ -0,0 +1,15 @@
+// Context buckets the backend groups events by, derived from an event's local time
+
+export function getTimeBucket(date: Date): string {
+  const hour = date.getHours();
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 22) return 'evening';
+  return 'night';
+}
+
+export function getDayType(date: Date): string {
+  const day = date.getDay();
+  if (day === 0 || day === 6) return 'weekend';
+  return 'weekday';
+}
@@ -0,0 +1,482 @@
+// Parsing, column mapping and dry-run validation for bulk event import
+import { EventType } from '@/types';
+import type { ActionEventDto, ActionEventListDto } from '@/types';
+import { toCsvRow } from './dataExport';
+import { getDayType, getTimeBucket } from './eventContext';
+import { readSignalStates } from './signalSimilarity';
+
+export type ImportFormat = 'csv' | 'ndjson' | 'home-assistant';
+
+// A flat record of column -> cell text, before it is mapped onto an event
+export type SourceRow = Record<string, string>;
+
+export type ImportSource =
+  | { format: 'csv' | 'home-assistant'; columns: string[]; rows: SourceRow[] }
+  | { format: 'ndjson'; records: { rowNumber: number; record: unknown; error?: string }[] };
+
+export interface ColumnMapping {
+  // Column names; an empty string means "not mapped"
+  personId: string;
+  actionType: string;
+  timestampUtc: string;
+  eventType: string;
+  timeBucket: string;
+  dayType: string;
+  location: string;
+  presentPeople: string;
+  // Each selected column becomes a signal state whose sensorId is the column name
+  signalColumns: string[];
+  // Used for rows without a personId
+  defaultPersonId: string;
+}
+
+export interface ImportRow {
+  rowNumber: number;
+  event?: ActionEventDto;
+  errors: string[];
+  isDuplicate: boolean;
+}
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: 'CSV',
+  ndjson: 'NDJSON (ActionEventDto per line)',
+  'home-assistant': 'Home Assistant logbook / history JSON',
+};
+
+export const EMPTY_MAPPING: ColumnMapping = {
+  personId: '',
+  actionType: '',
+  timestampUtc: '',
+  eventType: '',
+  timeBucket: '',
+  dayType: '',
+  location: '',
+  presentPeople: '',
+  signalColumns: [],
+  defaultPersonId: '',
+};
+
+/**
+ * Guesses the format from the file name, falling back to the content.
+ */
+export function detectImportFormat(text: string, fileName?: string): ImportFormat {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'csv' || extension === 'tsv') return 'csv';
+  if (extension === 'ndjson' || extension === 'jsonl') return 'ndjson';
+
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      // An array of ActionEventDto objects is read like NDJSON
+      if (Array.isArray(parsed) && parsed.length > 0 && isPlainObject(parsed[0]) && 'actionType' in parsed[0]) {
+        return 'ndjson';
+      }
+    } catch {
+      // Not a JSON array - let the Home Assistant parser report it
+    }
+    return 'home-assistant';
+  }
+  if (trimmed.startsWith('{')) return 'ndjson';
+  return 'csv';
+}
+
+export function parseImportSource(text: string, format: ImportFormat): ImportSource {
+  switch (format) {
+    case 'csv':
+      return parseCsvSource(text);
+    case 'ndjson':
+      return parseNdjsonSource(text);
+    case 'home-assistant':
+      return parseHomeAssistantSource(text);
+  }
+}
+
+/**
+ * Splits CSV text into cells, honouring quoted cells with embedded delimiters, quotes and
+ * newlines. The delimiter (comma, semicolon or tab) is taken from the header line.
+ */
+export function parseCsv(text: string): string[][] {
+  const headerLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+}
+
+function parseCsvSource(text: string): ImportSource {
+  const [header = [], ...body] = parseCsv(text);
+  const columns = header.map((column) => column.trim());
+  const rows = body.map((cells) =>
+    Object.fromEntries(columns.map((column, index) => [column, (cells[index] ?? '').trim()]))
+  );
+  return { format: 'csv', columns, rows };
+}
+
+function parseNdjsonSource(text: string): ImportSource {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) {
+        return { format: 'ndjson', records: parsed.map((record, index) => ({ rowNumber: index + 1, record })) };
+      }
+    } catch {
+      // Fall through to line-by-line parsing so the error points at a line
+    }
+  }
+
+  const records = text.split(/\r?\n/).flatMap((line, index) => {
+    if (!line.trim()) return [];
+    try {
+      return [{ rowNumber: index + 1, record: JSON.parse(line) as unknown }];
+    } catch {
+      return [{ rowNumber: index + 1, record: null, error: 'Line is not valid JSON' }];
+    }
+  });
+  return { format: 'ndjson', records };
+}
+
+interface HomeAssistantEntry {
+  when?: string;
+  last_changed?: string;
+  last_updated?: string;
+  entity_id?: string;
+  state?: string;
+  name?: string;
+  message?: string;
+  domain?: string;
+  attributes?: { friendly_name?: string };
+}
+
+const toIdentifier = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+/**
+ * Flattens a Home Assistant logbook export (an array of entries with `when`) or history export
+ * (an array per entity of state objects) into rows. Each row also carries an `action` column
+ * such as "kitchen_light_on", and a column named after its entity holding the new state, so
+ * entities can be mapped as signals.
+ */
+function parseHomeAssistantSource(text: string): ImportSource {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('Expected a JSON array of logbook entries or history state lists.');
+  }
+
+  const entries: HomeAssistantEntry[] = parsed.flatMap((item) => (Array.isArray(item) ? item : [item]));
+  const entityColumns = new Set<string>();
+
+  const rows = entries
+    .filter(isPlainObject)
+    .map((entry) => {
+      const entityId = entry.entity_id ?? '';
+      const state = entry.state ?? '';
+      const objectId = entityId.includes('.') ? entityId.split('.').slice(1).join('.') : entityId || entry.name || '';
+      const row: SourceRow = {
+        when: entry.when ?? entry.last_changed ?? entry.last_updated ?? '',
+        entity_id: entityId,
+        state,
+        domain: entry.domain ?? (entityId.includes('.') ? entityId.split('.')[0] : ''),
+        name: entry.name ?? entry.attributes?.friendly_name ?? '',
+        message: entry.message ?? '',
+        action: toIdentifier(state ? `${objectId}_${state}` : objectId),
+      };
+      if (entityId && state) {
+        row[entityId] = state;
+        entityColumns.add(entityId);
+      }
+      return row;
+    })
+    .sort((a, b) => new Date(a.when).getTime() - new Date(b.when).getTime());
+
+  return {
+    format: 'home-assistant',
+    columns: ['when', 'entity_id', 'state', 'domain', 'name', 'message', 'action', ...Array.from(entityColumns).sort()],
+    rows,
+  };
+}
+
+const COLUMN_GUESSES: Partial<Record<keyof ColumnMapping, RegExp>> = {
+  personId: /^(person(_?id)?|user|who)$/i,
+  actionType: /^(action(_?type)?|event|activity)$/i,
+  timestampUtc: /^(timestamp(_?utc)?|time|when|date(_?time)?|last_changed)$/i,
+  eventType: /^event_?type$/i,
+  timeBucket: /^time_?bucket$/i,
+  dayType: /^day_?type$/i,
+  location: /^(location|room|area)$/i,
+  presentPeople: /^(present_?people|people|present)$/i,
+};
+
+export function suggestMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = { ...EMPTY_MAPPING, signalColumns: [] };
+  for (const [field, pattern] of Object.entries(COLUMN_GUESSES) as [keyof ColumnMapping, RegExp][]) {
+    const column = columns.find((candidate) => pattern.test(candidate.trim()));
+    if (column) (mapping[field] as string) = column;
+  }
+  // Sensor-style columns (e.g. sensor.presence.kitchen) are signals in a CSV
+  mapping.signalColumns = columns.filter((column) => /^[a-z_]+\.[\w.]+$/i.test(column) && column !== mapping.actionType);
+  return mapping;
+}
+
+function parseTimestamp(value: unknown): Date | null {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d{9,13}$/.test(value.trim()))) {
+    const numeric = Number(value);
+    // Ten digits are epoch seconds, thirteen are milliseconds
+    const date = new Date(numeric < 1e12 ? numeric * 1000 : numeric);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// CSV cells arrive as text; signal values keep the type the selector normalizes on
+function parseSignalValue(value: string): string | number | boolean {
+  const lower = value.toLowerCase();
+  if (lower === 'true') return true;
+  if (lower === 'false') return false;
+  if (value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return value;
+}
+
+const splitPeople = (value: string) =>
+  value
+    .split(/[;|,]/)
+    .map((person) => person.trim())
+    .filter(Boolean);
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The same required fields as ActionEventDtoValidator, so problems show up in the dry run
+ * instead of as failed rows.
+ */
+function validateEvent(event: ActionEventDto): string[] {
+  const errors: string[] = [];
+  if (!event.personId) errors.push('PersonId is required');
+  if (!event.actionType) errors.push('ActionType is required');
+  if (!event.context.timeBucket) errors.push('TimeBucket is required');
+  if (!event.context.dayType) errors.push('DayType is required');
+  if (event.eventType && !Object.values(EventType).includes(event.eventType)) {
+    errors.push(`EventType must be ${Object.values(EventType).join(' or ')}`);
+  }
+  return errors;
+}
+
+function readEventType(value: unknown): EventType | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const match = Object.values(EventType).find((type) => type.toLowerCase() === String(value).trim().toLowerCase());
+  return match ?? (String(value) as EventType);
+}
+
+function mapSourceRow(row: SourceRow, rowNumber: number, mapping: ColumnMapping): ImportRow {
+  const cell = (column: string) => (column ? row[column] ?? '' : '');
+  const timestamp = parseTimestamp(cell(mapping.timestampUtc));
+  if (!timestamp) {
+    return {
+      rowNumber,
+      errors: [mapping.timestampUtc ? `Invalid timestamp "${cell(mapping.timestampUtc)}"` : 'Map a timestamp column'],
+      isDuplicate: false,
+    };
+  }
+
+  const signalStates = mapping.signalColumns
+    .filter((column) => cell(column) !== '')
+    .map((column) => ({ sensorId: column, value: parseSignalValue(cell(column)) }));
+  const presentPeople = splitPeople(cell(mapping.presentPeople));
+
+  const event: ActionEventDto = {
+    personId: cell(mapping.personId) || mapping.defaultPersonId,
+    actionType: cell(mapping.actionType),
+    eventType: readEventType(cell(mapping.eventType)) ?? EventType.Action,
+    timestampUtc: timestamp.toISOString(),
+    context: {
+      timeBucket: cell(mapping.timeBucket) || getTimeBucket(timestamp),
+      dayType: cell(mapping.dayType) || getDayType(timestamp),
+      location: cell(mapping.location) || undefined,
+      presentPeople: presentPeople.length > 0 ? presentPeople : undefined,
+    },
+    signalStates: signalStates.length > 0 ? signalStates : undefined,
+  };
+
+  return { rowNumber, event, errors: validateEvent(event), isDuplicate: false };
+}
+
+function mapNdjsonRecord(record: unknown, rowNumber: number, defaultPersonId: string): ImportRow {
+  if (!isPlainObject(record)) {
+    return { rowNumber, errors: ['Expected an ActionEventDto object'], isDuplicate: false };
+  }
+
+  const timestamp = parseTimestamp(record.timestampUtc);
+  if (!timestamp) {
+    return { rowNumber, errors: ['timestampUtc is missing or invalid'], isDuplicate: false };
+  }
+
+  const context = isPlainObject(record.context) ? record.context : {};
+  let signalStates: ActionEventDto['signalStates'];
+  if (Array.isArray(record.signalStates) && record.signalStates.length > 0) {
+    const parsed = readSignalStates(record.signalStates);
+    if (!parsed.ok) {
+      return { rowNumber, errors: [`signalStates: ${parsed.error}`], isDuplicate: false };
+    }
+    signalStates = parsed.value;
+  }
+
+  const event: ActionEventDto = {
+    ...(record as Partial<ActionEventDto>),
+    personId: typeof record.personId === 'string' && record.personId ? record.personId : defaultPersonId,
+    actionType: typeof record.actionType === 'string' ? record.actionType : '',
+    eventType: readEventType(record.eventType) ?? EventType.Action,
+    timestampUtc: timestamp.toISOString(),
+    context: {
+      ...context,
+      timeBucket: typeof context.timeBucket === 'string' && context.timeBucket ? context.timeBucket : getTimeBucket(timestamp),
+      dayType: typeof context.dayType === 'string' && context.dayType ? context.dayType : getDayType(timestamp),
+    },
+    signalStates,
+  };
+
+  return { rowNumber, event, errors: validateEvent(event), isDuplicate: false };
+}
+
+/**
+ * Turns a parsed file into events, in chronological order so the backend learns from them
+ * in the order they happened. Rows that can't become a valid event carry their errors.
+ */
+export function buildImportRows(source: ImportSource, mapping: ColumnMapping): ImportRow[] {
+  const rows =
+    source.format === 'ndjson'
+      ? source.records.map(({ rowNumber, record, error }) =>
+          error ? { rowNumber, errors: [error], isDuplicate: false } : mapNdjsonRecord(record, rowNumber, mapping.defaultPersonId)
+        )
+      : source.rows.map((row, index) => mapSourceRow(row, index + 2, mapping)); // +2: 1-based, after the header
+
+  return rows.sort((a, b) => {
+    if (!a.event || !b.event) return a.rowNumber - b.rowNumber;
+    return a.event.timestampUtc.localeCompare(b.event.timestampUtc) || a.rowNumber - b.rowNumber;
+  });
+}
+
+// Events are the same if the same person did the same thing in the same second
+const duplicateKey = (event: { personId: string; actionType: string; timestampUtc: string }) =>
+  `${event.personId}|${event.actionType.toLowerCase()}|${new Date(event.timestampUtc).toISOString().slice(0, 19)}`;
+
+/**
+ * Flags rows that already exist on the server, or earlier in the same file.
+ */
+export function markDuplicates(rows: ImportRow[], existing: ActionEventListDto[]): ImportRow[] {
+  const seen = new Set(existing.map(duplicateKey));
+  return rows.map((row) => {
+    if (!row.event || row.errors.length > 0) return row;
+    const key = duplicateKey(row.event);
+    const isDuplicate = seen.has(key);
+    seen.add(key);
+    return { ...row, isDuplicate };
+  });
+}
+
+/**
+ * Sorts the rows of a batch that failed without a response, since the server may have saved some of
+ * them first: rows it now has are saved, the rest are pending. A row that duplicates an existing event
+ * cannot be told apart from it, so it is unconfirmed rather than sent twice.
+ */
+export function reconcileFailedBatch(
+  rows: ImportRow[],
+  existing: ActionEventListDto[]
+): { saved: ImportRow[]; pending: ImportRow[]; unconfirmed: ImportRow[] } {
+  const counts = new Map<string, number>();
+  for (const event of existing) {
+    const key = duplicateKey(event);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const result = { saved: [] as ImportRow[], pending: [] as ImportRow[], unconfirmed: [] as ImportRow[] };
+  for (const row of rows) {
+    if (!row.event || row.isDuplicate) {
+      result.unconfirmed.push(row);
+      continue;
+    }
+    const key = duplicateKey(row.event);
+    const count = counts.get(key) ?? 0;
+    if (count > 0) {
+      counts.set(key, count - 1);
+      result.saved.push(row);
+    } else {
+      result.pending.push(row);
+    }
+  }
+  return result;
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export function toErrorReportCsv(
+  failures: { rowNumber: number; event?: ActionEventDto; error: string }[]
+): string {
+  const header = toCsvRow(['row', 'personId', 'actionType', 'timestampUtc', 'error']);
+  const lines = failures.map((failure) =>
+    toCsvRow([
+      failure.rowNumber,
+      failure.event?.personId,
+      failure.event?.actionType,
+      failure.event?.timestampUtc,
+      failure.error,
+    ])
+  );
+  return [header, ...lines].join('\n');
+}
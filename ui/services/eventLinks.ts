@@ -0,0 +1,17 @@
+// Links into the events page, which reads its filters from the URL
+
+/**
+ * Events page filtered to one action type on the UTC day of `timestampUtc`. The page filters by
+ * whole days, which its date inputs turn into UTC midnights, so the range is that UTC day.
+ */
+export function eventsOnDayHref(personId: string, actionType: string, timestampUtc: string): string {
+  const day = new Date(timestampUtc);
+  const nextDay = new Date(day.getTime() + 24 * 60 * 60 * 1000);
+  const params = new URLSearchParams({
+    personId,
+    actionType,
+    from: day.toISOString().slice(0, 10),
+    to: nextDay.toISOString().slice(0, 10),
+  });
+  return `/events?${params.toString()}`;
+}
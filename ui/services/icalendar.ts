@@ -0,0 +1,111 @@
+// iCalendar (RFC 5545) export of scheduled reminders, with occurrence patterns as RRULEs
+import type { ReminderCandidateDto } from '@/types';
+import { downloadFile, exportFileName, forEachPage, type ExportOption } from './dataExport';
+import { parseOccurrencePattern } from './occurrencePattern';
+
+// Indexed like DAY_NAMES: 0 = Sunday
+const ICAL_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Reminders are moments, but calendars show zero-length events poorly
+const REMINDER_DURATION = 'PT15M';
+
+/**
+ * Translates an occurrence pattern into an RRULE value. Returns null for reminders that
+ * don't repeat, or whose pattern the scheduler can't run.
+ */
+export function occurrenceToRRule(occurrence: string | null | undefined): string | null {
+  if (!occurrence?.trim()) return null;
+
+  const parsed = parseOccurrencePattern(occurrence);
+  if (!parsed.ok) return null;
+
+  const { frequency, intervalDays, days } = parsed.value;
+  switch (frequency) {
+    case 'daily':
+      // Also what the scheduler does with patterns it doesn't recognise
+      return 'FREQ=DAILY';
+    case 'weekdays':
+      return 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR';
+    case 'weekends':
+      return 'FREQ=WEEKLY;BYDAY=SA,SU';
+    case 'everyXDays':
+      return intervalDays === 1 ? 'FREQ=DAILY' : `FREQ=DAILY;INTERVAL=${intervalDays}`;
+    case 'weekly':
+      return `FREQ=WEEKLY;BYDAY=${(days ?? []).map((day) => ICAL_DAYS[day]).join(',')}`;
+  }
+}
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 characters continue on the next line after a single space
+function foldLine(line: string): string {
+  if (line.length <= 75) return line;
+  const segments = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    segments.push(' ' + line.slice(i, i + 74));
+  }
+  return segments.join('\r\n');
+}
+
+function reminderToEvent(reminder: ReminderCandidateDto, now: Date): string[] {
+  const rrule = occurrenceToRRule(reminder.occurrence);
+  const description = [
+    `Person: ${reminder.personId}`,
+    `Confidence: ${Math.round(reminder.confidence * 100)}%`,
+    reminder.occurrence ? `Repeats: ${reminder.occurrence} (UTC)` : null,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${reminder.id}@aipatterner`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART:${formatUtc(new Date(reminder.checkAtUtc))}`,
+    `DURATION:${REMINDER_DURATION}`,
+    ...(rrule ? [`RRULE:${rrule}`] : []),
+    `SUMMARY:${escapeText(reminder.suggestedAction)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    'TRIGGER:PT0M',
+    `DESCRIPTION:${escapeText(reminder.suggestedAction)}`,
+    'END:VALARM',
+    'END:VEVENT',
+  ];
+}
+
+export function toICalendar(reminders: ReminderCandidateDto[], now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//AIPatterner//Reminders//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:AIPatterner reminders',
+    ...reminders.flatMap((reminder) => reminderToEvent(reminder, now)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Export option that downloads every reminder fetchPage returns as a calendar file, which
+ * phone and desktop calendar apps can import.
+ */
+export function calendarExportOption(
+  fetchPage: (page: number, pageSize: number) => Promise<{ items: ReminderCandidateDto[]; totalCount: number }>
+): ExportOption {
+  return {
+    label: 'iCalendar (.ics)',
+    description: 'Scheduled reminders and their repeats, for calendar apps',
+    run: async (onProgress) => {
+      const reminders: ReminderCandidateDto[] = [];
+      await forEachPage(fetchPage, (items) => reminders.push(...items), onProgress);
+      downloadFile([toICalendar(reminders)], exportFileName('reminders', 'ics'), 'text/calendar');
+    },
+  };
+}
@@ -0,0 +1,40 @@
+// Keyboard shortcuts shared by the command palette and list pages
+
+export type ListShortcut = 'next' | 'previous' | 'open' | 'execute' | 'delete' | 'clear';
+
+const LIST_SHORTCUTS: Record<string, ListShortcut> = {
+  j: 'next',
+  k: 'previous',
+  Enter: 'open',
+  e: 'execute',
+  d: 'delete',
+  Escape: 'clear',
+};
+
+type ShortcutEvent = Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'target'>;
+
+/** Whether the keystroke is going into a form field, where single-letter shortcuts must not fire. */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!target || typeof (target as HTMLElement).tagName !== 'string') return false;
+  const element = target as HTMLElement;
+  return ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName) || element.isContentEditable;
+}
+
+/** Ctrl+K, or Cmd+K on macOS. */
+export function isCommandPaletteShortcut(event: ShortcutEvent): boolean {
+  return (event.ctrlKey || event.metaKey) && !event.altKey && event.key.toLowerCase() === 'k';
+}
+
+/**
+ * The list action for a keystroke, or null. Modified keys are left to the browser, and Enter is
+ * left alone when a button or link has focus so it still activates that control.
+ */
+export function listShortcut(event: ShortcutEvent): ListShortcut | null {
+  if (event.ctrlKey || event.metaKey || event.altKey || isEditableTarget(event.target)) return null;
+  const shortcut = LIST_SHORTCUTS[event.key] ?? null;
+  if (shortcut === 'open') {
+    const tagName = (event.target as HTMLElement | null)?.tagName;
+    if (tagName === 'BUTTON' || tagName === 'A') return null;
+  }
+  return shortcut;
+}
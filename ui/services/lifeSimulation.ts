@@ -0,0 +1,151 @@
+// Scripted routines replayed into a throwaway sandbox personId, and the confidence curves they produce
+import { addDays, format, startOfDay } from 'date-fns';
+import { getDayType, getTimeBucket } from './eventContext';
+import type { ActionEventDto, ReminderCandidateDto, RoutineDetailDto } from '@/types';
+import { EventType } from '@/types';
+
+// Must match PersonId.SandboxPrefix in the API, which only cleans up personIds with it
+export const SANDBOX_PREFIX = 'sandbox_';
+
+export type SimulationDays = 'everyDay' | 'weekdays' | 'weekends';
+
+export const SIMULATION_DAYS_LABELS: Record<SimulationDays, string> = {
+  everyDay: 'Every day',
+  weekdays: 'Weekdays',
+  weekends: 'Weekends',
+};
+
+export interface SimulationStep {
+  actionType: string;
+  delayMinutes: number; // After the previous event
+  jitterMinutes: number;
+  location: string;
+}
+
+export interface SimulationScript {
+  sandboxName: string;
+  intent: string; // StateChange that opens the routine; empty for plain actions
+  startTime: string; // HH:mm, local time
+  startJitterMinutes: number;
+  steps: SimulationStep[];
+  days: SimulationDays;
+  periodDays: number;
+  seed: number;
+}
+
+export interface SimulatedDay {
+  date: string; // yyyy-MM-dd
+  events: ActionEventDto[];
+}
+
+export interface ConfidenceCurve {
+  key: string;
+  label: string;
+  kind: 'reminder' | 'routine';
+  points: { day: number; confidence: number }[];
+}
+
+export const toSandboxPersonId = (name: string) =>
+  SANDBOX_PREFIX + (name.trim().toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '') || 'person');
+
+// mulberry32: small and deterministic, so the same seed replays the same days
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const jitter = (random: () => number, minutes: number) => Math.round((random() * 2 - 1) * minutes);
+
+const matchesDays = (date: Date, days: SimulationDays) =>
+  days === 'everyDay' || (getDayType(date) === 'weekend') === (days === 'weekends');
+
+function simulatedEvent(personId: string, actionType: string, eventType: EventType, at: Date, location: string): ActionEventDto {
+  return {
+    personId,
+    actionType,
+    eventType,
+    timestampUtc: at.toISOString(),
+    context: {
+      timeBucket: getTimeBucket(at),
+      dayType: getDayType(at),
+      location: location || undefined,
+      presentPeople: [personId],
+    },
+  };
+}
+
+/**
+ * Expands a script into one list of events per simulated day. The period ends the day before
+ * `today`, so weeks of behaviour replay in seconds with timestamps the scheduler has already passed.
+ */
+export function simulateDays(script: SimulationScript, today: Date = new Date()): SimulatedDay[] {
+  const personId = toSandboxPersonId(script.sandboxName);
+  const random = createRandom(script.seed);
+  const [hours, minutes] = script.startTime.split(':').map(Number);
+  const firstDay = addDays(startOfDay(today), -script.periodDays);
+
+  const days: SimulatedDay[] = [];
+  for (let offset = 0; offset < script.periodDays; offset++) {
+    const date = addDays(firstDay, offset);
+    if (!matchesDays(date, script.days)) continue;
+
+    const events: ActionEventDto[] = [];
+    let at = new Date(date);
+    at.setHours(hours, minutes + jitter(random, script.startJitterMinutes), 0, 0);
+
+    if (script.intent.trim()) {
+      events.push(simulatedEvent(personId, script.intent.trim(), EventType.StateChange, at, 'home'));
+    }
+    script.steps.forEach((step, index) => {
+      // The first step starts the day on its own when there is no intent
+      const delay = index === 0 && !script.intent.trim() ? 0 : step.delayMinutes;
+      at = new Date(at.getTime() + Math.max(0, delay + jitter(random, step.jitterMinutes)) * 60_000);
+      events.push(simulatedEvent(personId, step.actionType.trim(), EventType.Action, at, step.location.trim()));
+    });
+
+    days.push({ date: format(date, 'yyyy-MM-dd'), events });
+  }
+  return days;
+}
+
+/**
+ * Adds one point per reminder and routine reminder after a simulated day. Curves keep the
+ * order they first appeared in, so colours stay stable as the replay goes on.
+ */
+export function appendConfidenceSnapshot(
+  curves: ConfidenceCurve[],
+  day: number,
+  reminders: ReminderCandidateDto[],
+  routines: RoutineDetailDto[]
+): ConfidenceCurve[] {
+  const next = curves.map((curve) => ({ ...curve, points: [...curve.points] }));
+  const add = (key: string, label: string, kind: ConfidenceCurve['kind'], confidence: number) => {
+    let curve = next.find((c) => c.key === key);
+    if (!curve) {
+      curve = { key, label, kind, points: [] };
+      next.push(curve);
+    }
+    curve.points.push({ day, confidence });
+  };
+
+  reminders.forEach((reminder) =>
+    add(`reminder:${reminder.id}`, `${reminder.suggestedAction} (${reminder.occurrence || 'one-off'})`, 'reminder', reminder.confidence)
+  );
+  routines.forEach((routine) =>
+    routine.reminders.forEach((reminder) =>
+      add(
+        `routine:${reminder.id}`,
+        `${routine.intentType} → ${reminder.suggestedAction} (${reminder.timeContextBucket})`,
+        'routine',
+        reminder.confidence
+      )
+    )
+  );
+  return next;
+}
@@ -0,0 +1,49 @@
+// Matching policy what-if helpers: the proposed criteria from the Policies form and how they differ from the saved ones
+import type { ConfigurationKeySchemaDto, MatchingCriteria, MatchingSimulationEventDto } from '@/types';
+import { MatchingSimulationChange } from '@/types';
+
+const CATEGORY = 'MatchingPolicy';
+
+type MatchFlag = Exclude<keyof MatchingCriteria, 'timeOffsetMinutes'>;
+
+const MATCH_FLAGS: { flag: MatchFlag; key: string; label: string }[] = [
+  { flag: 'matchByActionType', key: 'MatchByActionType', label: 'Action type' },
+  { flag: 'matchByDayType', key: 'MatchByDayType', label: 'Day type' },
+  { flag: 'matchByPeoplePresent', key: 'MatchByPeoplePresent', label: 'People present' },
+  { flag: 'matchByStateSignals', key: 'MatchByStateSignals', label: 'State signals' },
+  { flag: 'matchByTimeBucket', key: 'MatchByTimeBucket', label: 'Time bucket' },
+  { flag: 'matchByLocation', key: 'MatchByLocation', label: 'Location' },
+];
+
+// Whether a settings tab edits the matching criteria, so it can offer the simulation
+export const hasMatchingCriteria = (fields: ConfigurationKeySchemaDto[]) =>
+  fields.some((field) => field.category === CATEGORY && field.key === 'TimeOffsetMinutes');
+
+// Criteria from the form values (keyed by settingId), or null while the time offset is not a whole number
+export function criteriaFromSettings(values: Record<string, string>): MatchingCriteria | null {
+  const raw = values[`${CATEGORY}.TimeOffsetMinutes`]?.trim() ?? '';
+  const offset = Number(raw);
+  if (raw === '' || !Number.isInteger(offset) || offset < 0) {
+    return null;
+  }
+
+  const criteria = { timeOffsetMinutes: offset } as MatchingCriteria;
+  for (const { flag, key } of MATCH_FLAGS) {
+    criteria[flag] = values[`${CATEGORY}.${key}`] === 'true';
+  }
+  return criteria;
+}
+
+// One line per criterion the proposal changes, e.g. "State signals: on → off"
+export function describeCriteriaChanges(current: MatchingCriteria, proposed: MatchingCriteria): string[] {
+  const changes = MATCH_FLAGS.filter(({ flag }) => current[flag] !== proposed[flag]).map(
+    ({ flag, label }) => `${label}: ${current[flag] ? 'on' : 'off'} → ${proposed[flag] ? 'on' : 'off'}`
+  );
+  if (current.timeOffsetMinutes !== proposed.timeOffsetMinutes) {
+    changes.push(`Time offset: ${current.timeOffsetMinutes} → ${proposed.timeOffsetMinutes} min`);
+  }
+  return changes;
+}
+
+export const eventHasChanges = (event: MatchingSimulationEventDto) =>
+  event.reminders.some((reminder) => reminder.change !== MatchingSimulationChange.Kept);
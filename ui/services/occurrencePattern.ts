@@ -0,0 +1,234 @@
+// TypeScript port of the backend OccurrencePatternParser, so previews match what the scheduler does.
+// Keep in sync with src/AIPatterner.Application/Services/OccurrencePatternParser.cs - both parsers
+// run the shared fixtures in tests/fixtures/occurrence-patterns.json.
+
+// Indexed like .NET DayOfWeek and Date.getUTCDay(): 0 = Sunday
+export const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_NAME_PATTERN = '(monday|tuesday|wednesday|thursday|friday|saturday|sunday)';
+const TIME_REGEX = /\b(\d{1,2}):(\d{2})\b/;
+const EVERY_X_DAYS_REGEX = /every\s+(\d+)\s+day/;
+const MULTIPLE_DAYS_REGEX = new RegExp(`every\\s+${DAY_NAME_PATTERN}(?:,\\s*${DAY_NAME_PATTERN})*`, 'i');
+
+export type OccurrenceFrequency = 'daily' | 'weekdays' | 'weekends' | 'everyXDays' | 'weekly';
+
+export interface ParsedOccurrence {
+  frequency: OccurrenceFrequency;
+  time: string; // HH:mm, interpreted as UTC by the scheduler
+  intervalDays?: number;
+  days?: number[]; // 0 = Sunday
+  // The scheduler didn't recognise a frequency and falls back to daily
+  isFallback: boolean;
+}
+
+export type OccurrenceParseResult =
+  | { ok: true; value: ParsedOccurrence; warning?: string }
+  | { ok: false; error: string };
+
+// Patterns carry no date, so all arithmetic is on UTC days like the backend's DateTime.Date
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+const startOfUtcDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+function parseTime(occurrencePattern: string): { hours: number; minutes: number } | null {
+  const timeMatch = occurrencePattern.match(TIME_REGEX);
+  if (!timeMatch) return null;
+  return { hours: parseInt(timeMatch[1], 10), minutes: parseInt(timeMatch[2], 10) };
+}
+
+const isValidTime = ({ hours, minutes }: { hours: number; minutes: number }) =>
+  hours >= 0 && hours <= 23 && minutes >= 0 && minutes <= 59;
+
+function findDays(pattern: string): number[] {
+  const matches = pattern.match(new RegExp(DAY_NAME_PATTERN, 'gi')) ?? [];
+  const days = matches
+    .map((day) => DAY_NAMES.indexOf(day.toLowerCase() as (typeof DAY_NAMES)[number]))
+    .filter((day) => day >= 0);
+  return Array.from(new Set(days));
+}
+
+/**
+ * Calculates the next execution time based on the occurrence pattern.
+ * Returns null if the pattern cannot be parsed.
+ */
+export function calculateNextExecutionTime(
+  occurrencePattern: string | null | undefined,
+  currentTime: Date,
+  lastExecutionTime?: Date | null
+): Date | null {
+  if (!occurrencePattern || !occurrencePattern.trim()) {
+    return null;
+  }
+
+  const pattern = occurrencePattern.trim().toLowerCase();
+
+  const time = parseTime(occurrencePattern);
+  if (!time || !isValidTime(time)) {
+    return null;
+  }
+
+  const baseDate = startOfUtcDay(lastExecutionTime ?? currentTime);
+  let nextTime = new Date(baseDate.getTime() + (time.hours * 60 + time.minutes) * 60 * 1000);
+  const isWeekend = (date: Date) => date.getUTCDay() === 0 || date.getUTCDay() === 6;
+
+  if (pattern.includes('daily') || pattern.includes('every day')) {
+    if (nextTime <= currentTime) {
+      nextTime = addDays(nextTime, 1);
+    }
+    return nextTime;
+  }
+
+  if (pattern.includes('weekdays')) {
+    if (!isWeekend(nextTime) && nextTime > currentTime) {
+      return nextTime;
+    }
+    while (isWeekend(nextTime) || nextTime <= currentTime) {
+      nextTime = addDays(nextTime, 1);
+    }
+    return nextTime;
+  }
+
+  if (pattern.includes('weekends')) {
+    if (isWeekend(nextTime) && nextTime > currentTime) {
+      return nextTime;
+    }
+    while (!isWeekend(nextTime) || nextTime <= currentTime) {
+      nextTime = addDays(nextTime, 1);
+    }
+    return nextTime;
+  }
+
+  const everyXDaysMatch = pattern.match(EVERY_X_DAYS_REGEX);
+  if (everyXDaysMatch) {
+    const days = parseInt(everyXDaysMatch[1], 10);
+    if (days > 0 && days <= 365) {
+      if (nextTime > currentTime) {
+        return nextTime;
+      }
+      return addDays(nextTime, days);
+    }
+  }
+
+  if (MULTIPLE_DAYS_REGEX.test(pattern)) {
+    const targetDays = findDays(pattern);
+    if (targetDays.length > 1) {
+      for (let i = 0; i < 14; i++) {
+        const checkDate = addDays(nextTime, i);
+        if (targetDays.includes(checkDate.getUTCDay()) && checkDate > currentTime) {
+          return checkDate;
+        }
+      }
+    }
+  }
+
+  for (let i = 0; i < DAY_NAMES.length; i++) {
+    // A bare day name (without "every") only counts when the base date already falls on that day
+    if (
+      pattern.includes(`every ${DAY_NAMES[i]}`) ||
+      (pattern.includes(`occurs every ${DAY_NAMES[i]}`) && pattern.includes('at')) ||
+      (i === nextTime.getUTCDay() && pattern.includes(DAY_NAMES[i]))
+    ) {
+      let daysUntilTarget = (i - nextTime.getUTCDay() + 7) % 7;
+
+      if (daysUntilTarget === 0 && nextTime > currentTime) {
+        return nextTime;
+      }
+      if (daysUntilTarget === 0) {
+        daysUntilTarget = 7;
+      }
+      return addDays(nextTime, daysUntilTarget);
+    }
+  }
+
+  // If no specific pattern matches, treat as daily
+  if (nextTime <= currentTime) {
+    nextTime = addDays(nextTime, 1);
+  }
+  return nextTime;
+}
+
+/**
+ * The next `count` execution times, following how the scheduler reschedules a recurring
+ * reminder after each run (the run time becomes both the current and last execution time).
+ */
+export function getUpcomingExecutionTimes(
+  occurrencePattern: string | null | undefined,
+  from: Date,
+  count: number = 10,
+  lastExecutionTime?: Date | null
+): Date[] {
+  const runs: Date[] = [];
+  let next = calculateNextExecutionTime(occurrencePattern, from, lastExecutionTime);
+
+  while (next && runs.length < count) {
+    runs.push(next);
+    const following = calculateNextExecutionTime(occurrencePattern, next, next);
+    // A pattern that doesn't move forward would reschedule to the same moment forever
+    if (!following || following <= next) break;
+    next = following;
+  }
+
+  return runs;
+}
+
+/**
+ * Reads a pattern the way the scheduler would, for populating the builder and reporting
+ * patterns it can't run. Mirrors the branch order of calculateNextExecutionTime.
+ */
+export function parseOccurrencePattern(occurrencePattern: string): OccurrenceParseResult {
+  const pattern = occurrencePattern.trim().toLowerCase();
+  if (!pattern) {
+    return { ok: false, error: 'Enter a pattern, e.g. "daily at 09:00".' };
+  }
+
+  const time = parseTime(occurrencePattern);
+  if (!time) {
+    return {
+      ok: false,
+      error: 'Add a time of day as HH:mm, e.g. "every 2 days at 08:30". The scheduler can\'t run a pattern without one.',
+    };
+  }
+  if (!isValidTime(time)) {
+    return { ok: false, error: `${time.hours}:${String(time.minutes).padStart(2, '0')} isn't a valid time of day.` };
+  }
+
+  const base = { time: `${String(time.hours).padStart(2, '0')}:${String(time.minutes).padStart(2, '0')}`, isFallback: false };
+
+  if (pattern.includes('daily') || pattern.includes('every day')) {
+    return { ok: true, value: { ...base, frequency: 'daily' } };
+  }
+  if (pattern.includes('weekdays')) {
+    return { ok: true, value: { ...base, frequency: 'weekdays' } };
+  }
+  if (pattern.includes('weekends')) {
+    return { ok: true, value: { ...base, frequency: 'weekends' } };
+  }
+
+  const everyXDaysMatch = pattern.match(EVERY_X_DAYS_REGEX);
+  const intervalDays = everyXDaysMatch ? parseInt(everyXDaysMatch[1], 10) : null;
+  if (intervalDays !== null && intervalDays > 0 && intervalDays <= 365) {
+    return { ok: true, value: { ...base, frequency: 'everyXDays', intervalDays } };
+  }
+
+  const days = findDays(pattern);
+  if (MULTIPLE_DAYS_REGEX.test(pattern) && days.length > 1) {
+    return { ok: true, value: { ...base, frequency: 'weekly', days: [...days].sort((a, b) => a - b) } };
+  }
+
+  const everyDay = DAY_NAMES.findIndex((day) => pattern.includes(`every ${day}`));
+  if (everyDay >= 0) {
+    return { ok: true, value: { ...base, frequency: 'weekly', days: [everyDay] } };
+  }
+
+  const fallback = { ok: true as const, value: { ...base, frequency: 'daily' as const, isFallback: true } };
+  if (days.length > 0) {
+    return {
+      ...fallback,
+      warning: `Put "every" before the day name. Without it the scheduler treats this as daily unless it happens to run on that day.`,
+    };
+  }
+  if (intervalDays !== null) {
+    return { ...fallback, warning: 'Intervals must be between 1 and 365 days, so the scheduler treats this as daily.' };
+  }
+  return { ...fallback, warning: 'The scheduler doesn\'t recognise a frequency in this pattern and will run it daily.' };
+}
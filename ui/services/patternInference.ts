@@ -0,0 +1,105 @@
+// How a reminder candidate's observations are spread over the week, and how far it is from a daily or weekly pattern
+import { PatternInferenceStatus } from '@/types';
+import type { PatternInferencePolicy, ReminderCandidateDto } from '@/types';
+
+export const TIME_BUCKETS = ['morning', 'afternoon', 'evening', 'night'] as const;
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+type PatternFields =
+  | 'patternInferenceStatus'
+  | 'timeWindowSizeMinutes'
+  | 'evidenceCount'
+  | 'observedDayOfWeekHistogram'
+  | 'observedTimeBucketHistogram'
+  | 'observedDayTypeHistogram'
+  | 'patternEvidence';
+
+// The pattern fields of a reminder nothing has been observed for, e.g. a routine reminder shown as a candidate
+export function noPatternEvidence(): Pick<ReminderCandidateDto, PatternFields> {
+  return {
+    patternInferenceStatus: PatternInferenceStatus.Unknown,
+    timeWindowSizeMinutes: 0,
+    evidenceCount: 0,
+    observedDayOfWeekHistogram: {},
+    observedTimeBucketHistogram: {},
+    observedDayTypeHistogram: {},
+    patternEvidence: {
+      observedDayCount: 0,
+      longestDailyRunDays: 0,
+      distinctWeekdays: 0,
+      dominantWeekday: null,
+      dominantWeekdayEvidence: 0,
+      dominantWeekdayDays: 0,
+      dominantWeekdaySpanDays: 0,
+    },
+  };
+}
+
+export interface HeatmapRow {
+  weekday: number; // 0 = Sunday
+  total: number;
+  cells: number[]; // One per TIME_BUCKETS entry
+}
+
+/**
+ * Weekday × time-bucket grid. The backend counts weekdays and time buckets separately, so each
+ * weekday's count is split by the overall time-bucket mix; rows and columns add up to the real counts.
+ * Cells are empty when no event carried a time bucket.
+ */
+export function buildHeatmap(candidate: ReminderCandidateDto): { rows: HeatmapRow[]; max: number; hasTimeBuckets: boolean } {
+  const days = candidate.observedDayOfWeekHistogram ?? {};
+  const buckets = candidate.observedTimeBucketHistogram ?? {};
+  const bucketTotal = TIME_BUCKETS.reduce((sum, bucket) => sum + (buckets[bucket] ?? 0), 0);
+
+  const rows = WEEKDAY_LABELS.map((_, weekday) => {
+    const total = days[weekday] ?? 0;
+    return {
+      weekday,
+      total,
+      cells: bucketTotal > 0 ? TIME_BUCKETS.map((bucket) => (total * (buckets[bucket] ?? 0)) / bucketTotal) : [],
+    };
+  });
+  const max = Math.max(0, ...rows.flatMap((row) => (bucketTotal > 0 ? row.cells : [row.total])));
+  return { rows, max, hasTimeBuckets: bucketTotal > 0 };
+}
+
+export interface EvidenceRequirement {
+  label: string;
+  have: number;
+  need: number;
+  met: boolean;
+}
+
+/**
+ * The checks UpdateInferredPattern makes, against the configured thresholds. Enough matching
+ * events are needed first; then a run of days makes it daily, or one weekday over weeks weekly.
+ */
+export function evidenceRequirements(
+  candidate: ReminderCandidateDto,
+  policy: PatternInferencePolicy
+): { prerequisite: EvidenceRequirement; daily: EvidenceRequirement[]; weekly: EvidenceRequirement[] } {
+  const evidence = candidate.patternEvidence;
+  const evidenceCount = candidate.evidenceCount ?? 0;
+  const atLeast = (label: string, have: number, need: number): EvidenceRequirement => ({
+    label,
+    have,
+    need,
+    met: have >= need,
+  });
+
+  const dayName =
+    evidence?.dominantWeekday != null ? WEEKDAY_LABELS[evidence.dominantWeekday] : 'the same weekday';
+  const distinctWeekdays = evidence?.distinctWeekdays ?? 0;
+
+  return {
+    prerequisite: atLeast('Matching events', evidenceCount, policy.minDailyEvidence),
+    daily: [atLeast('Days in a row (gaps of up to 2 days)', evidence?.longestDailyRunDays ?? 0, policy.minDailyEvidence)],
+    weekly: [
+      { label: 'Only one weekday seen', have: distinctWeekdays, need: 1, met: distinctWeekdays === 1 },
+      atLeast(`Events on ${dayName}`, evidence?.dominantWeekdayEvidence ?? 0, policy.minWeeklyEvidence),
+      atLeast(`Different ${dayName}s`, evidence?.dominantWeekdayDays ?? 0, policy.minWeeklyEvidence),
+      atLeast(`Days between the first and last ${dayName}`, evidence?.dominantWeekdaySpanDays ?? 0, 7),
+    ],
+  };
+}
@@ -0,0 +1,107 @@
+// Central permission checks mirroring the API's role- and person-scoped access rules
+import { HouseholdRole } from '@/types';
+import type { AuthenticatedUser } from '@/types';
+
+export type PersonPermission =
+  | 'reminders:view'
+  | 'reminders:feedback'
+  | 'reminders:create'
+  | 'reminders:edit'
+  | 'reminders:execute'
+  | 'reminders:delete'
+  | 'events:view'
+  | 'events:create'
+  | 'events:delete'
+  | 'routines:view'
+  | 'routines:edit'
+  | 'history:view'
+  | 'history:delete';
+
+export type GlobalPermission =
+  | 'people:view-all'
+  | 'people:view-others'
+  | 'people:manage-others'
+  | 'users:manage'
+  | 'api-keys:manage'
+  | 'configuration:manage'
+  | 'sandbox:use'
+  | 'trash:manage';
+
+export type Permission = PersonPermission | GlobalPermission;
+
+// Access needed for a permission: view < feedback < manage < admin
+type AccessLevel = 'view' | 'feedback' | 'manage' | 'admin';
+
+const ACCESS_ORDER: AccessLevel[] = ['view', 'feedback', 'manage', 'admin'];
+
+const PERSON_PERMISSIONS: Record<PersonPermission, AccessLevel> = {
+  'reminders:view': 'view',
+  'reminders:feedback': 'feedback',
+  'reminders:create': 'manage',
+  'reminders:edit': 'manage',
+  // Executing and deleting go through admin-only endpoints
+  'reminders:execute': 'admin',
+  'reminders:delete': 'admin',
+  'events:view': 'view',
+  'events:create': 'manage',
+  'events:delete': 'admin',
+  'routines:view': 'view',
+  'routines:edit': 'manage',
+  'history:view': 'view',
+  'history:delete': 'admin',
+};
+
+// Highest access each household role has to its own data and to other members' data
+const HOUSEHOLD_ACCESS: Record<HouseholdRole, { own: AccessLevel | null; others: AccessLevel | null }> = {
+  [HouseholdRole.Owner]: { own: 'manage', others: 'manage' },
+  [HouseholdRole.Member]: { own: 'manage', others: 'view' },
+  [HouseholdRole.Guest]: { own: 'feedback', others: null },
+};
+
+const allows = (granted: AccessLevel | null, required: AccessLevel) =>
+  granted !== null && ACCESS_ORDER.indexOf(granted) >= ACCESS_ORDER.indexOf(required);
+
+// JWT users act as their username, the same personId the API resolves for them
+export function getOwnPersonId(user: AuthenticatedUser | null): string {
+  return user?.username ?? '';
+}
+
+function getHouseholdAccess(user: AuthenticatedUser) {
+  // Sessions stored before household roles existed behave as members until revalidated
+  return HOUSEHOLD_ACCESS[user.householdRole ?? HouseholdRole.Member];
+}
+
+function canGlobal(user: AuthenticatedUser, permission: GlobalPermission): boolean {
+  switch (permission) {
+    case 'people:view-others':
+      return allows(getHouseholdAccess(user).others, 'view');
+    case 'people:manage-others':
+      return allows(getHouseholdAccess(user).others, 'manage');
+    // Listing every person at once, and system administration, stay with admins
+    case 'people:view-all':
+    case 'users:manage':
+    case 'api-keys:manage':
+    case 'configuration:manage':
+    case 'sandbox:use':
+    case 'trash:manage':
+      return false;
+  }
+}
+
+/**
+ * Whether the user may perform the permission, optionally for a specific personId
+ * (defaults to the user's own). Admins may do everything.
+ */
+export function can(user: AuthenticatedUser | null, permission: Permission, personId?: string): boolean {
+  if (!user) return false;
+  if (user.role === 'admin') return true;
+
+  if (!(permission in PERSON_PERMISSIONS)) {
+    return canGlobal(user, permission as GlobalPermission);
+  }
+
+  const required = PERSON_PERMISSIONS[permission as PersonPermission];
+  const access = getHouseholdAccess(user);
+  const isOwn = !personId || personId === getOwnPersonId(user);
+  return allows(isOwn ? access.own : access.others, required);
+}
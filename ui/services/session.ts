@@ -0,0 +1,30 @@
+// JWT helpers for tracking when the stored session token expires
+
+interface JwtPayload {
+  exp?: number;
+}
+
+// Decodes the payload without verifying the signature; the API is the authority on validity
+export function decodeToken(token: string): JwtPayload | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    return JSON.parse(atob(padded)) as JwtPayload;
+  } catch {
+    return null;
+  }
+}
+
+// Expiry as epoch milliseconds, or null when the token has no readable exp claim
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeToken(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
+
+export function isTokenExpired(token: string, now: number = Date.now()): boolean {
+  const expiresAt = getTokenExpiry(token);
+  return expiresAt !== null && expiresAt <= now;
+}
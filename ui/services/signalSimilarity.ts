@@ -0,0 +1,117 @@
+// Per-sensor breakdown of the weighted cosine similarity used for reminder signal matching.
+// Mirrors src/AIPatterner.Infrastructure/Services/SignalSimilarityEvaluator.cs.
+import type { SignalProfileDto, SignalProfileEntryDto, SignalStateDto } from '@/types';
+
+// Same guard as the evaluator: a near-zero vector scores 0 rather than dividing by ~0
+const EPSILON = 1e-10;
+
+export type SensorMatchStatus = 'shared' | 'baseline-only' | 'event-only';
+
+export interface SensorContribution {
+  sensorId: string;
+  status: SensorMatchStatus;
+  // weight * normalizedValue, the component each side puts into the cosine
+  baselineComponent: number;
+  eventComponent: number;
+  // This sensor's share of the similarity score; contributions sum to the score
+  contribution: number;
+}
+
+export interface SignalSimilarityExplanation {
+  similarity: number;
+  contributions: SensorContribution[];
+}
+
+const component = (entry: SignalProfileEntryDto | undefined) => (entry ? entry.weight * entry.normalizedValue : 0);
+
+/**
+ * Splits the similarity between a reminder's baseline and an event profile into one term per
+ * sensor: cos(B, E) = Σ b·e / (|B||E|). Sensors only one side has add nothing to the dot
+ * product but still count in that side's norm, which is how they pull the score down.
+ */
+export function explainSignalSimilarity(
+  baseline: SignalProfileDto | null | undefined,
+  eventProfile: SignalProfileDto | null | undefined
+): SignalSimilarityExplanation {
+  const baselineSignals = baseline?.signals ?? {};
+  const eventSignals = eventProfile?.signals ?? {};
+  const sensorIds = Array.from(new Set([...Object.keys(baselineSignals), ...Object.keys(eventSignals)]));
+
+  const rows = sensorIds.map((sensorId) => {
+    const inBaseline = sensorId in baselineSignals;
+    const inEvent = sensorId in eventSignals;
+    return {
+      sensorId,
+      status: (inBaseline && inEvent ? 'shared' : inBaseline ? 'baseline-only' : 'event-only') as SensorMatchStatus,
+      baselineComponent: component(baselineSignals[sensorId]),
+      eventComponent: component(eventSignals[sensorId]),
+    };
+  });
+
+  const baselineNorm = Math.sqrt(rows.reduce((sum, row) => sum + row.baselineComponent ** 2, 0));
+  const eventNorm = Math.sqrt(rows.reduce((sum, row) => sum + row.eventComponent ** 2, 0));
+  const isScorable =
+    Object.keys(baselineSignals).length > 0 &&
+    Object.keys(eventSignals).length > 0 &&
+    baselineNorm >= EPSILON &&
+    eventNorm >= EPSILON;
+
+  const contributions = rows
+    .map((row) => ({
+      ...row,
+      contribution: isScorable ? (row.baselineComponent * row.eventComponent) / (baselineNorm * eventNorm) : 0,
+    }))
+    .sort((a, b) => b.contribution - a.contribution || b.baselineComponent - a.baselineComponent);
+
+  const similarity = contributions.reduce((sum, row) => sum + row.contribution, 0);
+  return { similarity: Math.max(0, Math.min(1, similarity)), contributions };
+}
+
+export type SignalStatesParseResult = { ok: true; value: SignalStateDto[] } | { ok: false; error: string };
+
+/**
+ * Reads an event's signalStates pasted as JSON - either the array itself or an event
+ * payload that contains it.
+ */
+export function parseSignalStatesInput(input: string): SignalStatesParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(input);
+  } catch {
+    return { ok: false, error: 'Not valid JSON.' };
+  }
+
+  const states =
+    parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as { signalStates?: unknown }).signalStates
+      : parsed;
+  if (!Array.isArray(states) || states.length === 0) {
+    return { ok: false, error: 'Expected a non-empty signalStates array.' };
+  }
+  return readSignalStates(states);
+}
+
+/**
+ * Checks each entry has the shape of a SignalStateDto, keeping only the fields the backend reads.
+ */
+export function readSignalStates(states: unknown[]): SignalStatesParseResult {
+  const value: SignalStateDto[] = [];
+  for (let index = 0; index < states.length; index++) {
+    const { sensorId, value: sensorValue, rawImportance } = (states[index] ?? {}) as Record<string, unknown>;
+    if (typeof sensorId !== 'string' || !sensorId.trim()) {
+      return { ok: false, error: `Entry ${index + 1} needs a sensorId.` };
+    }
+    if (!['string', 'number', 'boolean'].includes(typeof sensorValue)) {
+      return { ok: false, error: `${sensorId}: value must be a string, number or boolean.` };
+    }
+    if (rawImportance !== undefined && rawImportance !== null && typeof rawImportance !== 'number') {
+      return { ok: false, error: `${sensorId}: rawImportance must be a number.` };
+    }
+    value.push({
+      sensorId,
+      value: sensorValue as SignalStateDto['value'],
+      ...(typeof rawImportance === 'number' ? { rawImportance } : {}),
+    });
+  }
+  return { ok: true, value };
+}
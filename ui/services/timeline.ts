@@ -0,0 +1,133 @@
+// Layout helpers for the household timeline: zoom ranges, axis ticks and shared presence windows
+import {
+  addDays,
+  addHours,
+  addMinutes,
+  addWeeks,
+  startOfDay,
+  startOfHour,
+  startOfWeek,
+} from 'date-fns';
+import type { ActionEventListDto } from '@/types';
+
+export type TimelineZoom = 'hour' | 'day' | 'week';
+
+export interface TimelineRange {
+  start: Date;
+  end: Date;
+}
+
+export interface SharedPresenceWindow {
+  start: Date;
+  end: Date;
+  people: string[];
+  eventIds: string[];
+}
+
+// Events with the same people present this close together are treated as one shared moment
+export const PRESENCE_MERGE_GAP_MS = 30 * 60 * 1000;
+
+const ZOOM_STEP: Record<TimelineZoom, (date: Date, amount: number) => Date> = {
+  hour: addHours,
+  day: addDays,
+  week: addWeeks,
+};
+
+// The hour, day or (Monday-based) week containing the anchor
+export function getTimelineRange(zoom: TimelineZoom, anchor: Date): TimelineRange {
+  const start =
+    zoom === 'hour'
+      ? startOfHour(anchor)
+      : zoom === 'day'
+        ? startOfDay(anchor)
+        : startOfWeek(anchor, { weekStartsOn: 1 });
+  return { start, end: ZOOM_STEP[zoom](start, 1) };
+}
+
+export function shiftTimelineAnchor(zoom: TimelineZoom, anchor: Date, direction: 1 | -1): Date {
+  return ZOOM_STEP[zoom](anchor, direction);
+}
+
+// Axis labels: every 10 minutes for an hour, every 3 hours for a day, every day for a week
+export function getTimelineTicks(zoom: TimelineZoom, range: TimelineRange): Date[] {
+  const step =
+    zoom === 'hour'
+      ? (date: Date) => addMinutes(date, 10)
+      : zoom === 'day'
+        ? (date: Date) => addHours(date, 3)
+        : (date: Date) => addDays(date, 1);
+
+  const ticks: Date[] = [];
+  for (let tick = range.start; tick < range.end; tick = step(tick)) {
+    ticks.push(tick);
+  }
+  return ticks;
+}
+
+// Horizontal position of a moment as a percentage of the range, clamped to the visible area
+export function getOffsetPercent(date: Date | string, range: TimelineRange): number {
+  const time = new Date(date).getTime();
+  const start = range.start.getTime();
+  const percent = ((time - start) / (range.end.getTime() - start)) * 100;
+  return Math.min(100, Math.max(0, percent));
+}
+
+export function isInRange(date: Date | string, range: TimelineRange): boolean {
+  const time = new Date(date).getTime();
+  return time >= range.start.getTime() && time < range.end.getTime();
+}
+
+// Position and width of a span, or null when it lies entirely outside the range
+export function getSpanPercent(
+  start: Date | string,
+  end: Date | string,
+  range: TimelineRange
+): { left: number; width: number } | null {
+  const startTime = new Date(start).getTime();
+  const endTime = new Date(end).getTime();
+  if (endTime <= range.start.getTime() || startTime >= range.end.getTime()) {
+    return null;
+  }
+
+  const left = getOffsetPercent(start, range);
+  return { left, width: getOffsetPercent(end, range) - left };
+}
+
+const presenceKey = (people: string[]) => [...people].sort().join('|');
+
+/**
+ * Groups events where two or more people were present into shared presence windows.
+ * Consecutive events with the same set of people within PRESENCE_MERGE_GAP_MS are merged.
+ */
+export function getSharedPresenceWindows(
+  events: ActionEventListDto[],
+  mergeGapMs: number = PRESENCE_MERGE_GAP_MS
+): SharedPresenceWindow[] {
+  const shared = events
+    .filter((event) => (event.context.presentPeople?.length ?? 0) >= 2)
+    .sort((a, b) => new Date(a.timestampUtc).getTime() - new Date(b.timestampUtc).getTime());
+
+  const windows: SharedPresenceWindow[] = [];
+  const openWindows = new Map<string, SharedPresenceWindow>();
+
+  for (const event of shared) {
+    const people = Array.from(new Set(event.context.presentPeople)).sort();
+    const key = presenceKey(people);
+    const timestamp = new Date(event.timestampUtc);
+    const open = openWindows.get(key);
+
+    if (open && timestamp.getTime() - open.end.getTime() <= mergeGapMs) {
+      open.end = timestamp;
+      if (!open.eventIds.includes(event.id)) {
+        open.eventIds.push(event.id);
+      }
+      continue;
+    }
+
+    const window: SharedPresenceWindow = { start: timestamp, end: timestamp, people, eventIds: [event.id] };
+    windows.push(window);
+    openWindows.set(key, window);
+  }
+
+  return windows;
+}
@@ -0,0 +1,37 @@
+// Labels and purge countdowns for the trash of soft-deleted items
+import { TrashItemType } from '@/types';
+
+export const TRASH_TYPES: TrashItemType[] = [
+  TrashItemType.ReminderCandidate,
+  TrashItemType.Event,
+  TrashItemType.ExecutionHistory,
+  TrashItemType.ApiKey,
+  TrashItemType.User,
+];
+
+const TRASH_TYPE_LABELS: Record<TrashItemType, { singular: string; plural: string }> = {
+  [TrashItemType.Event]: { singular: 'event', plural: 'Events' },
+  [TrashItemType.ReminderCandidate]: { singular: 'reminder', plural: 'Reminders' },
+  [TrashItemType.ExecutionHistory]: { singular: 'history entry', plural: 'Execution history' },
+  [TrashItemType.ApiKey]: { singular: 'API key', plural: 'API keys' },
+  [TrashItemType.User]: { singular: 'user', plural: 'Users' },
+};
+
+export function trashTypeLabel(type: TrashItemType, form: 'singular' | 'plural' = 'singular'): string {
+  return TRASH_TYPE_LABELS[type][form];
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * When the purge worker will remove an item, in whole days rounded up so an item is never shown
+ * as purged before it is. The worker runs periodically, so "today" may still last a few hours.
+ */
+export function describePurge(purgeAtUtc: string, now: Date = new Date()): string {
+  const remainingMs = new Date(purgeAtUtc).getTime() - now.getTime();
+  if (remainingMs <= 0) return 'Purging soon';
+
+  const days = Math.ceil(remainingMs / MS_PER_DAY);
+  if (days === 1) return 'Purged within a day';
+  return `Purged in ${days} days`;
+}
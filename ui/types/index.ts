@@ -1,305 +1,171 @@
-// TypeScript interfaces matching backend DTOs and domain models
+// TypeScript types for backend DTOs, inferred from the validators generated from the API's OpenAPI document
+import type { z } from 'zod';
+import { schemas } from '@/services/apiClient.generated';
 
-export enum ReminderStyle {
-  Ask = 'Ask',
-  Suggest = 'Suggest',
-  Silent = 'Silent',
-}
-
-export enum ReminderCandidateStatus {
-  Scheduled = 'Scheduled',
-  Executed = 'Executed',
-  Skipped = 'Skipped',
-  Expired = 'Expired',
-}
-
-export enum ConfidenceLevel {
-  Low = 'low',
-  Medium = 'medium',
-  High = 'high',
-}
-
-export enum ProbabilityAction {
-  Increase = 'Increase',
-  Decrease = 'Decrease',
-}
-
-export enum EventType {
-  Action = 'Action',
-  StateChange = 'StateChange',
-}
-
-export interface SignalStateDto {
-  sensorId: string;
-  value: string | number | boolean;
-  rawImportance?: number;
-}
-
-export interface SignalProfileEntryDto {
-  weight: number;
-  normalizedValue: number;
-}
-
-export interface SignalProfileDto {
-  signals: Record<string, SignalProfileEntryDto>;
-}
-
-export interface ActionEventDto {
-  personId: string;
-  actionType: string;
-  eventType?: EventType;
-  timestampUtc: string;
-  context: ActionContextDto;
-  probabilityValue?: number;
-  probabilityAction?: ProbabilityAction;
-  customData?: Record<string, string>;
-  userPrompt?: string;
-  signalStates?: SignalStateDto[];
-}
-
-export interface ActionContextDto {
-  timeBucket: string;
-  dayType: string;
-  location?: string;
-  presentPeople?: string[];
-  stateSignals?: Record<string, string>;
-}
-
-export interface ReminderCandidateDto {
-  id: string;
-  personId: string;
-  suggestedAction: string;
-  checkAtUtc: string;
-  style: ReminderStyle;
-  status: ReminderCandidateStatus;
-  transitionId?: string;
-  confidence: number;
-  occurrence?: string;
-  sourceEventId?: string;
-  customData?: Record<string, string>;
-  signalProfile?: SignalProfileDto;
-  signalProfileUpdatedAtUtc?: string;
-  signalProfileSamplesCount?: number;
-}
-
-export interface ReminderCandidateListResponse {
-  items: ReminderCandidateDto[];
-  totalCount: number;
-  page: number;
-  pageSize: number;
-}
-
-export interface TransitionDto {
-  id: string;
-  fromAction: string;
-  toAction: string;
-  contextBucket: string;
-  occurrenceCount: number;
-  confidenceLabel: ConfidenceLevel;
-  confidencePercent: number;
-  averageDelay?: string;
-  lastObservedUtc: string;
-}
-
-export interface TransitionListResponse {
-  transitions: TransitionDto[];
-}
+type Dto<Name extends keyof typeof schemas> = z.infer<(typeof schemas)[Name]>;
 
-export interface FeedbackDto {
-  candidateId: string;
-  feedbackType: 'yes' | 'no' | 'later';
-  comment?: string;
-}
+// Backend enums are serialized by name; each is a value (ReminderStyle.Ask) and a type
+export const ReminderStyle = schemas.ReminderStyle.enum;
+export type ReminderStyle = Dto<'ReminderStyle'>;
 
-export interface IngestEventResponse {
-  eventId: string;
-  scheduledCandidateIds: string[];
-  relatedReminderId?: string;
-}
+export const ReminderCandidateStatus = schemas.ReminderCandidateStatus.enum;
+export type ReminderCandidateStatus = Dto<'ReminderCandidateStatus'>;
 
-export interface ActionEventListDto {
-  id: string;
-  personId: string;
-  actionType: string;
-  eventType?: EventType;
-  timestampUtc: string;
-  context: ActionContextDto;
-  createdAtUtc: string;
-  probabilityValue?: number;
-  probabilityAction?: ProbabilityAction;
-  relatedReminderId?: string;
-  customData?: Record<string, string>;
-}
+export const ProbabilityAction = schemas.ProbabilityAction.enum;
+export type ProbabilityAction = Dto<'ProbabilityAction'>;
 
-export interface ActionEventListResponse {
-  items: ActionEventListDto[];
-  totalCount: number;
-  page: number;
-  pageSize: number;
-}
+export const EventType = schemas.EventType.enum;
+export type EventType = Dto<'EventType'>;
 
-export interface ProcessReminderCandidateResponse {
-  executed: boolean;
-  shouldSpeak: boolean;
-  naturalLanguagePhrase?: string;
-  reason: string;
-}
+export const HouseholdRole = schemas.HouseholdRole.enum;
+export type HouseholdRole = Dto<'HouseholdRole'>;
 
-export interface User {
-  id: string;
-  username: string;
-  email: string;
-  role: 'admin' | 'user';
-  createdAt: string;
-}
+export const ExecutionAction = schemas.ExecutionAction.enum;
+export type ExecutionAction = Dto<'ExecutionAction'>;
 
-export interface ApiKey {
-  id: string;
-  name: string;
-  keyPrefix: string;
-  role: 'admin' | 'user';
-  userId?: string;
-  createdAtUtc: string;
-  lastUsedAtUtc?: string;
-  expiresAtUtc?: string;
-  isActive: boolean;
-}
+export const ConfidenceChangeSource = schemas.ConfidenceChangeSource.enum;
+export type ConfidenceChangeSource = Dto<'ConfidenceChangeSource'>;
 
-export interface UserReminderPreferences {
-  personId: string;
-  defaultStyle: ReminderStyle;
-  dailyLimit: number;
-  minimumInterval: string;
-  enabled: boolean;
-}
+export const ConfigurationChangeType = schemas.ConfigurationChangeType.enum;
+export type ConfigurationChangeType = Dto<'ConfigurationChangeType'>;
 
-export interface LoginRequest {
-  username: string;
-  password: string;
-}
+export const ConfigurationImportStatus = schemas.ConfigurationImportStatus.enum;
+export type ConfigurationImportStatus = Dto<'ConfigurationImportStatus'>;
 
-export interface LoginResponse {
-  token: string;
-  user: User;
-}
+export const MatchingSimulationChange = schemas.MatchingSimulationChange.enum;
+export type MatchingSimulationChange = Dto<'MatchingSimulationChange'>;
 
-export interface CreateApiKeyRequest {
-  name: string;
-  role?: 'admin' | 'user';
-  expiresAtUtc?: string;
-}
+export const ConfigurationValueType = schemas.ConfigurationValueType.enum;
+export type ConfigurationValueType = Dto<'ConfigurationValueType'>;
 
-export interface CreateApiKeyResponse {
-  apiKey: ApiKey;
-  fullKey: string;
-}
+export const DecisionGate = schemas.DecisionGate.enum;
+export type DecisionGate = Dto<'DecisionGate'>;
 
-export interface Configuration {
-  id: string;
-  key: string;
-  value: string;
-  category: string;
-  description?: string;
-  createdAtUtc: string;
-  updatedAtUtc: string;
-}
+export const DecisionStepOutcome = schemas.DecisionStepOutcome.enum;
+export type DecisionStepOutcome = Dto<'DecisionStepOutcome'>;
 
-export interface CreateConfigurationRequest {
-  key: string;
-  value: string;
-  category: string;
-  description?: string;
-}
+export const ReminderCheckOutcome = schemas.ReminderCheckOutcome.enum;
+export type ReminderCheckOutcome = Dto<'ReminderCheckOutcome'>;
 
-export interface UpdateConfigurationRequest {
-  value: string;
-  description?: string;
-}
+export const TrashItemType = schemas.TrashItemType.enum;
+export type TrashItemType = Dto<'TrashItemType'>;
 
-export interface CreateManualReminderRequest {
-  personId: string;
-  suggestedAction: string;
-  checkAtUtc: string;
-  style?: ReminderStyle;
-  occurrence?: string;
-}
+export const PatternInferenceStatus = schemas.PatternInferenceStatus.enum;
+export type PatternInferenceStatus = Dto<'PatternInferenceStatus'>;
 
-export interface CreateUserRequest {
-  username: string;
-  email: string;
-  password: string;
-  role?: 'admin' | 'user';
-}
-
-export interface ExecutionHistoryDto {
-  id: string;
-  endpoint: string;
-  requestPayload: string;
-  responsePayload: string;
-  executedAtUtc: string;
-  personId?: string;
-  userId?: string;
-  actionType?: string;
-  reminderCandidateId?: string;
-  eventId?: string;
-}
-
-export interface ExecutionHistoryListResponse {
-  items: ExecutionHistoryDto[];
-  totalCount: number;
-  page: number;
-  pageSize: number;
-}
+export const IngestEventBatchItemStatus = schemas.IngestEventBatchItemStatus.enum;
+export type IngestEventBatchItemStatus = Dto<'IngestEventBatchItemStatus'>;
 
-// Routine types
-export interface RoutineDto {
-  id: string;
-  personId: string;
-  intentType: string;
-  createdAtUtc: string;
-  lastActivatedUtc?: string;
-  observationWindowStartUtc?: string;
-  observationWindowEndsUtc?: string;
-  observationWindowMinutes: number;
-  activeTimeContextBucket?: string | null;
-}
+export const ReminderCandidateBatchOperation = schemas.ReminderCandidateBatchOperation.enum;
+export type ReminderCandidateBatchOperation = Dto<'ReminderCandidateBatchOperation'>;
 
-export interface RoutineReminderDto {
-  id: string;
-  routineId: string;
-  suggestedAction: string;
-  timeContextBucket: string;
-  confidence: number;
-  createdAtUtc: string;
-  lastObservedAtUtc?: string;
-  observationCount: number;
-  customData?: Record<string, string>;
-  signalProfile?: SignalProfileDto;
-  signalProfileUpdatedAtUtc?: string;
-  signalProfileSamplesCount?: number;
-  // Delay learning statistics
-  delaySampleCount: number;
-  emaDelaySeconds?: number | null;
-  emaVarianceSeconds?: number | null;
-  medianDelayApproxSeconds?: number | null;
-  p90DelayApproxSeconds?: number | null;
-  delayStatsLastUpdatedUtc?: string | null;
-  delayStatsLastDecayUtc?: string | null;
-  delayEvidenceCount: number;
-}
+export const BatchItemStatus = schemas.BatchItemStatus.enum;
+export type BatchItemStatus = Dto<'BatchItemStatus'>;
 
-export interface RoutineListResponse {
-  items: RoutineDto[];
-  totalCount: number;
-  page: number;
-  pageSize: number;
-}
-
-export interface RoutineDetailDto extends RoutineDto {
-  reminders: RoutineReminderDto[];
-}
-
-export interface UpdateRoutineRequest {
-  observationWindowMinutes?: number;
+// Values the backend sends as plain strings
+export enum ConfidenceLevel {
+  Low = 'low',
+  Medium = 'medium',
+  High = 'high',
 }
 
+export type FeedbackType = 'yes' | 'no' | 'later';
+
+export type LiveUpdateType =
+  | 'candidate.created'
+  | 'candidate.executed'
+  | 'candidate.skipped'
+  | 'event.ingested'
+  | 'routine.window_opened'
+  | 'routine.window_closed';
+
+// Signals
+export type SignalStateDto = Dto<'SignalStateDto'>;
+export type SignalProfileEntryDto = Dto<'SignalProfileEntryDto'>;
+export type SignalProfileDto = Dto<'SignalProfileDto'>;
+export type EvaluateSignalSimilarityRequest = Dto<'EvaluateSignalSimilarityQuery'>;
+export type SignalSimilarityResult = Dto<'SignalSimilarityResultDto'>;
+
+// Events
+export type ActionEventDto = Dto<'ActionEventDto'>;
+export type ActionContextDto = Dto<'ActionContextDto'>;
+export type ActionEventListDto = Dto<'ActionEventListDto'>;
+export type ActionEventListResponse = Dto<'ActionEventListResponse'>;
+export type IngestEventResponse = Dto<'IngestEventResponse'>;
+export type IngestEventBatchItemResult = Dto<'IngestEventBatchItemResult'>;
+export type IngestEventBatchResponse = Dto<'IngestEventBatchResponse'>;
+
+// Reminder candidates
+export type ReminderCandidateDto = Dto<'ReminderCandidateDto'>;
+export type PatternEvidenceDto = Dto<'PatternEvidenceDto'>;
+export type PatternInferencePolicy = Dto<'PatternInferencePolicyDto'>;
+export type ReminderCandidateListResponse = Dto<'ReminderCandidateListResponse'>;
+export type FeedbackDto = Dto<'FeedbackDto'>;
+export type ReminderCandidateBatchRequest = Dto<'ReminderCandidateBatchRequest'>;
+export type BatchItemResult = Dto<'BatchItemResult'>;
+export type BatchOperationResponse = Dto<'BatchOperationResponse'>;
+export type ProcessReminderCandidateResponse = Dto<'ProcessReminderCandidateResponse'>;
+export type SetExecutionActionRequest = Dto<'SetExecutionActionRequest'>;
+export type SetExecutionActionResponse = Dto<'SetExecutionActionResponse'>;
+export type CreateManualReminderRequest = Dto<'CreateManualReminderRequest'>;
+export type TransitionDto = Dto<'TransitionDto'>;
+export type TransitionListResponse = Dto<'TransitionListResponse'>;
+
+// Confidence history and decision traces
+export type ConfidenceChangeDto = Dto<'ConfidenceChangeDto'>;
+export type ConfidenceHistoryResponse = Dto<'ConfidenceHistoryResponse'>;
+export type DecisionTraceStepDto = Dto<'DecisionTraceStepDto'>;
+export type ReminderDecisionTraceDto = Dto<'ReminderDecisionTraceDto'>;
+export type DecisionTraceListResponse = Dto<'DecisionTraceListResponse'>;
+
+export type LiveUpdateDto = Dto<'LiveUpdateDto'>;
+
+// Users, sessions and API keys
+export type User = Dto<'UserDto'>;
+export type CreateUserRequest = Dto<'CreateUserRequest'>;
+export type AuthenticatedUser = Dto<'AuthUserResponse'>;
+export type LoginRequest = Dto<'LoginRequest'>;
+export type RegisterRequest = Dto<'RegisterRequest'>;
+export type LoginResponse = Dto<'AuthResponse'>;
+export type ApiKey = Dto<'ApiKeyDto'>;
+export type CreateApiKeyRequest = Dto<'CreateApiKeyRequest'>;
+export type CreateApiKeyResponse = Dto<'CreateApiKeyResponse'>;
+export type UserReminderPreferences = Dto<'UserReminderPreferencesDto'>;
+export type UpdateUserPreferencesRequest = Dto<'UpdateUserPreferencesRequest'>;
+
+// Configuration
+export type Configuration = Dto<'ConfigurationDto'>;
+export type CreateConfigurationRequest = Dto<'CreateConfigurationRequest'>;
+export type UpdateConfigurationRequest = Dto<'UpdateConfigurationRequest'>;
+export type ConfigurationChangeDto = Dto<'ConfigurationChangeDto'>;
+export type ConfigurationDiffEntryDto = Dto<'ConfigurationDiffEntryDto'>;
+export type ConfigurationDiffDto = Dto<'ConfigurationDiffDto'>;
+export type ConfigurationRollbackResponse = Dto<'ConfigurationRollbackResponse'>;
+export type ConfigurationImportEntryDto = Dto<'ConfigurationImportEntryDto'>;
+export type ConfigurationImportRequest = Dto<'ConfigurationImportRequest'>;
+export type ConfigurationImportResultDto = Dto<'ConfigurationImportResultDto'>;
+export type ConfigurationImportResponse = Dto<'ConfigurationImportResponse'>;
+export type ConfigurationKeySchemaDto = Dto<'ConfigurationKeySchemaDto'>;
+export type MatchingCriteria = Dto<'MatchingCriteria'>;
+export type MatchingPolicySimulationRequest = Dto<'MatchingPolicySimulationRequest'>;
+export type MatchingSimulationReminderDto = Dto<'MatchingSimulationReminderDto'>;
+export type MatchingSimulationEventDto = Dto<'MatchingSimulationEventDto'>;
+export type MatchingPolicySimulationResponse = Dto<'MatchingPolicySimulationResponse'>;
+
+// Execution history
+export type ExecutionHistoryDto = Dto<'ExecutionHistoryDto'>;
+export type ExecutionHistoryListResponse = Dto<'ExecutionHistoryListResponse'>;
+
+// Routines
+export type RoutineDto = Dto<'RoutineDto'>;
+export type RoutineReminderDto = Dto<'RoutineReminderDto'>;
+export type DelayHistogramBinDto = Dto<'DelayHistogramBinDto'>;
+export type DelayEvidenceItemDto = Dto<'DelayEvidenceItemDto'>;
+export type RoutineListResponse = Dto<'RoutineListResponse'>;
+export type RoutineDetailDto = Dto<'RoutineDetailDto'>;
+export type UpdateRoutineRequest = Dto<'UpdateRoutineRequest'>;
+
+// Sandbox and trash
+export type SandboxCleanupResponse = Dto<'SandboxCleanupResponse'>;
+export type TrashItemDto = Dto<'TrashItemDto'>;
+export type TrashListResponse = Dto<'TrashListResponse'>;